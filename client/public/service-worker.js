@@ -498,21 +498,31 @@ self.addEventListener('sync', (event) => {
 });
 
 // Listen for push notifications
+// Payloads are JSON: { title, body, url?, tag? }, where url is an app path such as /deals/42
 self.addEventListener('push', (event) => {
   console.log('[Service Worker] Push Received', event);
   
-  const data = event.data.json();
+  let data = {};
+  if (event.data) {
+    try {
+      data = event.data.json();
+    } catch (error) {
+      data = { body: event.data.text() };
+    }
+  }
+  
   const title = data.title || 'Pinnity';
   const options = {
-    body: data.message || 'New notification from Pinnity',
+    body: data.body || data.message || 'New notification from Pinnity',
     icon: '/logo192.png',
     badge: '/favicon.ico',
-    data: data.url || '/',
+    tag: data.tag,
+    data: { url: data.url || '/' },
     vibrate: [100, 50, 100],
     actions: [
       {
-        action: 'explore',
-        title: 'Explore'
+        action: 'open',
+        title: data.url && data.url.startsWith('/deals/') ? 'View deal' : 'Open'
       },
       {
         action: 'close',
@@ -524,22 +534,45 @@ self.addEventListener('push', (event) => {
   event.waitUntil(self.registration.showNotification(title, options));
 });
 
+// Open a path in an existing app window when there is one, otherwise in a new window
+const openAppPath = async (path) => {
+  const url = new URL(path, self.location.origin).href;
+  const windows = await clients.matchAll({ type: 'window', includeUncontrolled: true });
+  
+  const appWindow = windows.find(client => new URL(client.url).origin === self.location.origin);
+  if (appWindow) {
+    await appWindow.focus();
+    return appWindow.navigate(url);
+  }
+  
+  return clients.openWindow(url);
+};
+
 // Notification click handler
 self.addEventListener('notificationclick', (event) => {
   console.log('[Service Worker] Notification click', event);
   
   event.notification.close();
   
-  if (event.action === 'explore') {
-    event.waitUntil(
-      clients.openWindow('/explore')
-    );
-  } else if (event.action === 'close') {
+  if (event.action === 'close') {
     // Just close the notification
-  } else {
-    // Default action (click on notification body)
-    event.waitUntil(
-      clients.openWindow(event.notification.data || '/')
-    );
+    return;
   }
-});
\ No newline at end of file
+  
+  // Older notifications stored the path directly as their data
+  const data = event.notification.data;
+  const path = (data && data.url) || (typeof data === 'string' ? data : '/');
+  
+  event.waitUntil(openAppPath(path));
+});
+
+// The browser replaced the push subscription (e.g. keys rotated); tell the app to register the new one
+self.addEventListener('pushsubscriptionchange', (event) => {
+  console.log('[Service Worker] Push subscription changed');
+  
+  event.waitUntil(
+    clients.matchAll({ type: 'window', includeUncontrolled: true }).then(windows => {
+      windows.forEach(client => client.postMessage({ type: 'PUSH_SUBSCRIPTION_CHANGED' }));
+    })
+  );
+});
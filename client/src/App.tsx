@@ -17,6 +17,8 @@ import TermsOfServicePage from "@/pages/terms";
 import PrivacyPolicyPage from "@/pages/privacy";
 import { ForgotPasswordPage } from "@/pages/ForgotPasswordPage";
 import { ResetPasswordPage } from "@/pages/ResetPasswordPage";
+import { JoinBusinessPage } from "@/pages/JoinBusinessPage";
+import { UnlockAccountPage } from "@/pages/UnlockAccountPage";
 import { AuthProvider, useAuth } from "./contexts/AuthContext";
 
 import UpdateNotification from "@/components/pwa/UpdateNotification";
@@ -51,6 +53,8 @@ const AdminDealEdit = lazy(() => import("@/pages/admin/deals/edit/[id]"));
 const AdminUsers = lazy(() => import("@/pages/admin/users"));
 const AdminUserDetail = lazy(() => import("@/pages/admin/users/[id]"));
 const AdminAnalytics = lazy(() => import("@/pages/admin/analytics"));
+const AdminModeration = lazy(() => import("@/pages/admin/moderation"));
+const AdminAudit = lazy(() => import("@/pages/admin/audit"));
 
 // Vendor pages
 const VendorDashboard = lazy(() => import("@/pages/vendor"));
@@ -412,6 +416,8 @@ function Router() {
       <Route path="/auth" component={AuthPage}/>
       <Route path="/forgot-password" component={ForgotPasswordPage}/>
       <Route path="/reset-password" component={ResetPasswordPage}/>
+      <Route path="/unlock-account" component={UnlockAccountPage}/>
+      <Route path="/join-business" component={JoinBusinessPage}/>
       <Route path="/terms" component={TermsOfServicePage}/>
       <Route path="/privacy" component={PrivacyPolicyPage}/>
       <Route path="/onboarding/:userType/:userId" component={OnboardingPage}/>
@@ -570,6 +576,22 @@ function Router() {
         )}
       </Route>
       
+      <Route path="/admin/moderation">
+        {(params) => (
+          <Suspense fallback={<LoadingFallback />}>
+            <AuthenticatedRoute component={AdminModeration} params={params} />
+          </Suspense>
+        )}
+      </Route>
+      
+      <Route path="/admin/audit">
+        {(params) => (
+          <Suspense fallback={<LoadingFallback />}>
+            <AuthenticatedRoute component={AdminAudit} params={params} />
+          </Suspense>
+        )}
+      </Route>
+      
       {/* Vendor routes */}
       <Route path="/vendor">
         {(params) => (
@@ -7,7 +7,6 @@ import {
   Tag, 
   LineChart, 
   Settings, 
-  Bell, 
   Menu, 
   X, 
   LogOut, 
@@ -16,7 +15,9 @@ import {
   ChevronDown,
   HelpCircle,
   Building,
-  LayoutDashboard
+  LayoutDashboard,
+  ShieldCheck,
+  ScrollText
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
@@ -34,9 +35,12 @@ import {
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 import { ScrollArea } from "@/components/ui/scroll-area";
+import NotificationBell from "@/components/shared/NotificationBell";
 import { useAuth } from "@/contexts/AuthContext";
 import { useToast } from "@/hooks/use-toast";
+import { useStaffPermissions } from "@/hooks/use-staff-permissions";
 import { cn } from "@/lib/utils";
+import { STAFF_ROLE_LABELS, type Permission } from "@shared/permissions";
 
 interface AdminLayoutProps {
   children: React.ReactNode;
@@ -48,10 +52,12 @@ export default function AdminLayout({ children }: AdminLayoutProps) {
   const [pendingVendorsCount, setPendingVendorsCount] = useState(0);
   const { user, logout } = useAuth();
   const { toast } = useToast();
+  const { role, can } = useStaffPermissions();
+  const canReadVendors = can("vendors.read");
   
   // Fetch pending vendors count for sidebar badge
   useEffect(() => {
-    if (user?.userType === 'admin') {
+    if (user?.userType === 'admin' && canReadVendors) {
       // Use Promise.allSettled to handle potential failures gracefully
       const fetchPendingVendors = async () => {
         try {
@@ -132,7 +138,7 @@ export default function AdminLayout({ children }: AdminLayoutProps) {
       
       fetchPendingVendors();
     }
-  }, [user]);
+  }, [user, canReadVendors]);
   
   const isCurrentPath = (path: string) => {
     if (path === "/admin" && location === "/admin") {
@@ -159,15 +165,19 @@ export default function AdminLayout({ children }: AdminLayoutProps) {
     }
   };
 
-  const menuItems = [
-    { name: "Dashboard", path: "/admin", icon: <LayoutDashboard className="h-5 w-5" /> },
-    { name: "Vendors", path: "/admin/vendors", icon: <Building className="h-5 w-5" /> },
-    { name: "Users", path: "/admin/users", icon: <Users className="h-5 w-5" /> },
-    { name: "Deals", path: "/admin/deals", icon: <Tag className="h-5 w-5" /> },
-    { name: "Analytics", path: "/admin/analytics", icon: <LineChart className="h-5 w-5" /> },
+  // Each page is shown only to staff roles with the permission its routes need
+  const allMenuItems: { name: string; path: string; icon: React.ReactNode; permission: Permission }[] = [
+    { name: "Dashboard", path: "/admin", icon: <LayoutDashboard className="h-5 w-5" />, permission: "dashboard.view" },
+    { name: "Vendors", path: "/admin/vendors", icon: <Building className="h-5 w-5" />, permission: "vendors.read" },
+    { name: "Users", path: "/admin/users", icon: <Users className="h-5 w-5" />, permission: "users.read" },
+    { name: "Deals", path: "/admin/deals", icon: <Tag className="h-5 w-5" />, permission: "deals.read" },
+    { name: "Analytics", path: "/admin/analytics", icon: <LineChart className="h-5 w-5" />, permission: "reports.view" },
+    { name: "Moderation", path: "/admin/moderation", icon: <ShieldCheck className="h-5 w-5" />, permission: "moderation.configure" },
+    { name: "Audit Log", path: "/admin/audit", icon: <ScrollText className="h-5 w-5" />, permission: "audit.view" },
     // Settings page doesn't exist yet
     // { name: "Settings", path: "/admin/settings", icon: <Settings className="h-5 w-5" /> },
   ];
+  const menuItems = allMenuItems.filter(item => can(item.permission));
 
   return (
     <div className="flex h-full min-h-screen bg-gray-50">
@@ -179,6 +189,7 @@ export default function AdminLayout({ children }: AdminLayoutProps) {
               <img src="/pinnity-logo.png" alt="Pinnity" className="w-8 h-8 mr-2 object-contain" />
               <h1 className="text-xl font-bold">Pinnity Admin</h1>
             </div>
+            <NotificationBell />
           </div>
           <div className="mt-8 flex-1">
             <nav className="px-2 space-y-1">
@@ -213,7 +224,7 @@ export default function AdminLayout({ children }: AdminLayoutProps) {
                   </div>
                   <div>
                     <div className="font-medium">{user?.firstName} {user?.lastName}</div>
-                    <div className="text-xs text-gray-500">Admin</div>
+                    <div className="text-xs text-gray-500">{role ? STAFF_ROLE_LABELS[role] : "Admin"}</div>
                   </div>
                   <ChevronDown className="ml-auto h-4 w-4 text-gray-500" />
                 </button>
@@ -298,7 +309,7 @@ export default function AdminLayout({ children }: AdminLayoutProps) {
                     </div>
                     <div>
                       <div className="font-medium">{user?.firstName} {user?.lastName}</div>
-                      <div className="text-xs text-gray-500">Admin</div>
+                      <div className="text-xs text-gray-500">{role ? STAFF_ROLE_LABELS[role] : "Admin"}</div>
                     </div>
                   </div>
                   <Button
@@ -319,9 +330,7 @@ export default function AdminLayout({ children }: AdminLayoutProps) {
           </div>
         </div>
         <div className="flex items-center">
-          <Button variant="ghost" size="icon" onClick={() => navigate("/admin/notifications")}>
-            <Bell className="h-5 w-5" />
-          </Button>
+          <NotificationBell />
           <DropdownMenu>
             <DropdownMenuTrigger asChild>
               <Button variant="ghost" size="icon">
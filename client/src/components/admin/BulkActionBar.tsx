@@ -0,0 +1,178 @@
+import React, { useState } from "react";
+import type { BulkActionSummary, BulkTargetType } from "@shared/bulkActions";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useBulkAction } from "@/hooks/use-bulk-actions";
+import { useRejectionReasons } from "@/hooks/use-moderation";
+import { RejectionReasonPicker } from "./ModerationPolicy";
+
+export interface BulkActionOption {
+  action: string;
+  label: string;
+  icon?: React.ReactNode;
+  className?: string;
+  // Asked before running, e.g. for deletes; actions without it run straight away
+  confirm?: string;
+}
+
+interface BulkActionBarProps<Id extends number | string> {
+  target: BulkTargetType;
+  // What the records are called on the page, e.g. "vendor"
+  noun: string;
+  selectedIds: Id[];
+  actions: BulkActionOption[];
+  onSelectionChange: (ids: Id[]) => void;
+  onComplete?: (summary: BulkActionSummary<Id>) => void;
+}
+
+function plural(count: number, noun: string): string {
+  return `${count} ${noun}${count === 1 ? "" : "s"}`;
+}
+
+/**
+ * Selection count and the actions that apply to every selected record
+ * Rejecting asks for catalogue reasons shared by the whole selection. Records
+ * the action failed for stay selected so they can be retried or looked at.
+ */
+export default function BulkActionBar<Id extends number | string>({
+  target,
+  noun,
+  selectedIds,
+  actions,
+  onSelectionChange,
+  onComplete
+}: BulkActionBarProps<Id>) {
+  const { toast } = useToast();
+  const bulkAction = useBulkAction<Id>(target);
+  const [confirming, setConfirming] = useState<BulkActionOption | null>(null);
+  const [rejecting, setRejecting] = useState(false);
+  const [reasonCodes, setReasonCodes] = useState<string[]>([]);
+  const [note, setNote] = useState("");
+
+  // Only deals and businesses are reviewed against the rejection reason catalogue
+  const { data: rejectionReasons = [] } = useRejectionReasons(target === "user" ? undefined : target);
+
+  const run = (option: BulkActionOption, review: { reasonCodes?: string[]; note?: string } = {}) => {
+    bulkAction.mutate({ action: option.action, ids: selectedIds, ...review }, {
+      onSuccess: (summary) => {
+        const failed = summary.results.filter(result => !result.success);
+        const errors = Array.from(new Set(failed.map(result => result.error)));
+
+        toast({
+          title: `${option.label}: ${plural(summary.succeeded, noun)} updated`,
+          description: failed.length > 0
+            ? `${plural(failed.length, noun)} could not be updated: ${errors.join("; ")}`
+            : undefined,
+          variant: failed.length > 0 ? "destructive" : "default"
+        });
+
+        setConfirming(null);
+        setRejecting(false);
+        setReasonCodes([]);
+        setNote("");
+        onSelectionChange(failed.map(result => result.id));
+        onComplete?.(summary);
+      },
+      onError: (error) => toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to update. Please try again.",
+        variant: "destructive"
+      })
+    });
+  };
+
+  const start = (option: BulkActionOption) => {
+    if (option.action === "reject" && target !== "user") {
+      setRejecting(true);
+    } else if (option.confirm) {
+      setConfirming(option);
+    } else {
+      run(option);
+    }
+  };
+
+  const rejectOption = actions.find(option => option.action === "reject");
+
+  return (
+    <div className="flex justify-between items-center w-full flex-col sm:flex-row gap-4">
+      <div className="text-sm text-muted-foreground">
+        {selectedIds.length === 0 ? `No ${noun}s selected` : `${plural(selectedIds.length, noun)} selected`}
+      </div>
+
+      {selectedIds.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          <Button variant="outline" size="sm" onClick={() => onSelectionChange([])}>
+            Clear Selection
+          </Button>
+          {actions.map(option => (
+            <Button
+              key={option.action}
+              variant="outline"
+              size="sm"
+              className={option.className}
+              disabled={bulkAction.isPending}
+              onClick={() => start(option)}
+            >
+              {option.icon}
+              {option.label}
+            </Button>
+          ))}
+        </div>
+      )}
+
+      <Dialog open={confirming !== null} onOpenChange={(open) => !open && setConfirming(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{confirming?.label} {plural(selectedIds.length, noun)}?</DialogTitle>
+            <DialogDescription>{confirming?.confirm}</DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setConfirming(null)} disabled={bulkAction.isPending}>
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={() => confirming && run(confirming)}
+              disabled={bulkAction.isPending}
+            >
+              {confirming?.label}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={rejecting} onOpenChange={setRejecting}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Reject {plural(selectedIds.length, noun)}</DialogTitle>
+            <DialogDescription>
+              Select the reasons for rejecting the selected {noun}s. Each owner will see them with your note.
+            </DialogDescription>
+          </DialogHeader>
+
+          <RejectionReasonPicker
+            reasons={rejectionReasons}
+            selectedCodes={reasonCodes}
+            onSelectedCodesChange={setReasonCodes}
+            note={note}
+            onNoteChange={setNote}
+          />
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRejecting(false)}>
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={() => rejectOption && run(rejectOption, { reasonCodes, note })}
+              disabled={reasonCodes.length === 0 || bulkAction.isPending}
+            >
+              Reject Selected
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -24,6 +24,10 @@ import {
   Twitter
 } from "lucide-react";
 import { useQueryClient, useMutation } from "@tanstack/react-query";
+import { uncheckedChecklistItems, type ModerationChecklist } from "@shared/moderation";
+import { apiRequest } from "@/lib/queryClient";
+import { useRejectionReasons, useReviewChecklist } from "@/hooks/use-moderation";
+import { ReviewChecklist, RejectionReasonPicker } from "./ModerationPolicy";
 
 // Interfaces
 interface Business {
@@ -56,13 +60,20 @@ export default function BusinessReviewPanel({ business, onStatusChange }: Busine
   const [rejectDialogOpen, setRejectDialogOpen] = useState(false);
   const [requestInfoDialogOpen, setRequestInfoDialogOpen] = useState(false);
   const [feedbackMessage, setFeedbackMessage] = useState("");
+  const [checklist, setChecklist] = useState<ModerationChecklist>({});
+  const [reasonCodes, setReasonCodes] = useState<string[]>([]);
+
+  const { data: checklistItems = [] } = useReviewChecklist("business", business.businessCategory);
+  const { data: rejectionReasons = [] } = useRejectionReasons("business");
+  const checklistComplete = uncheckedChecklistItems(checklistItems, checklist).length === 0;
 
   // Mutations for updating business status
   const approveMutation = useMutation({
-    mutationFn: async ({ businessId, feedback }: { businessId: number, feedback?: string }) => {
-      // In a real app, this would be an API call
-      console.log(`Approving business ${businessId} with feedback: ${feedback}`);
-      return { success: true };
+    mutationFn: async ({ businessId }: { businessId: number }) => {
+      return await apiRequest(`/api/v1/admin/businesses/${businessId}/approve`, {
+        method: 'POST',
+        data: { checklist }
+      });
     },
     onSuccess: () => {
       // Call the parent callback
@@ -80,20 +91,22 @@ export default function BusinessReviewPanel({ business, onStatusChange }: Busine
   });
 
   const rejectMutation = useMutation({
-    mutationFn: async ({ businessId, feedback }: { businessId: number, feedback: string }) => {
-      // In a real app, this would be an API call
-      console.log(`Rejecting business ${businessId} with feedback: ${feedback}`);
-      return { success: true };
+    mutationFn: async ({ businessId, note }: { businessId: number, note: string }): Promise<{ feedback: string }> => {
+      return await apiRequest(`/api/v1/admin/businesses/${businessId}/reject`, {
+        method: 'POST',
+        data: { reasonCodes, note, checklist }
+      });
     },
-    onSuccess: () => {
-      // Call the parent callback
+    onSuccess: (response) => {
+      // Call the parent callback with the feedback composed from the reason templates
       if (onStatusChange) {
-        onStatusChange("rejected", feedbackMessage);
+        onStatusChange("rejected", response.feedback);
       }
       
       // Close dialog and reset form
       setRejectDialogOpen(false);
       setFeedbackMessage("");
+      setReasonCodes([]);
       
       // Invalidate queries to refetch data
       queryClient.invalidateQueries({ queryKey: ['admin', 'vendor', business.id] });
@@ -124,17 +137,16 @@ export default function BusinessReviewPanel({ business, onStatusChange }: Busine
   // Handle approve business
   const handleApprove = () => {
     approveMutation.mutate({ 
-      businessId: business.id,
-      feedback: feedbackMessage
+      businessId: business.id
     });
   };
 
   // Handle reject business
   const handleReject = () => {
-    if (feedbackMessage.trim()) {
+    if (reasonCodes.length > 0) {
       rejectMutation.mutate({ 
         businessId: business.id,
-        feedback: feedbackMessage
+        note: feedbackMessage
       });
     }
   };
@@ -282,6 +294,15 @@ export default function BusinessReviewPanel({ business, onStatusChange }: Busine
               </div>
             )}
             
+            {business.verificationStatus === "pending" && (
+              <div className="space-y-2">
+                <div className="text-sm font-medium">Review Checklist</div>
+                <div className="rounded-md border p-3">
+                  <ReviewChecklist items={checklistItems} value={checklist} onChange={setChecklist} />
+                </div>
+              </div>
+            )}
+            
             <div className="space-y-2">
               <div className="text-sm font-medium">Action History</div>
               <div className="rounded-md border p-3">
@@ -361,17 +382,11 @@ export default function BusinessReviewPanel({ business, onStatusChange }: Busine
                 </div>
               </div>
               
-              <div className="space-y-2">
-                <h3 className="text-sm font-medium">Approval Message (Optional)</h3>
-                <Textarea
-                  placeholder="Enter a message to send to the business..."
-                  value={feedbackMessage}
-                  onChange={(e) => setFeedbackMessage(e.target.value)}
-                />
-                <p className="text-xs text-muted-foreground">
-                  This message will be included in the approval notification.
+              {!checklistComplete && (
+                <p className="text-sm text-red-600">
+                  Tick every item on the review checklist before approving this business.
                 </p>
-              </div>
+              )}
             </div>
           </div>
           
@@ -379,7 +394,7 @@ export default function BusinessReviewPanel({ business, onStatusChange }: Busine
             <Button variant="outline" onClick={() => setApproveDialogOpen(false)}>
               Cancel
             </Button>
-            <Button onClick={handleApprove}>
+            <Button onClick={handleApprove} disabled={!checklistComplete}>
               Approve Business
             </Button>
           </DialogFooter>
@@ -392,7 +407,7 @@ export default function BusinessReviewPanel({ business, onStatusChange }: Busine
           <DialogHeader>
             <DialogTitle>Reject Business</DialogTitle>
             <DialogDescription>
-              Please provide a reason for rejecting {business.businessName}.
+              Select the reasons for rejecting {business.businessName}.
             </DialogDescription>
           </DialogHeader>
           
@@ -409,18 +424,13 @@ export default function BusinessReviewPanel({ business, onStatusChange }: Busine
                 </div>
               </div>
               
-              <div className="space-y-2">
-                <h3 className="text-sm font-medium">Rejection Reason</h3>
-                <Textarea
-                  placeholder="Explain why this business is being rejected..."
-                  value={feedbackMessage}
-                  onChange={(e) => setFeedbackMessage(e.target.value)}
-                  required
-                />
-                <p className="text-xs text-muted-foreground">
-                  This reason will be sent to the business.
-                </p>
-              </div>
+              <RejectionReasonPicker
+                reasons={rejectionReasons}
+                selectedCodes={reasonCodes}
+                onSelectedCodesChange={setReasonCodes}
+                note={feedbackMessage}
+                onNoteChange={setFeedbackMessage}
+              />
             </div>
           </div>
           
@@ -431,7 +441,7 @@ export default function BusinessReviewPanel({ business, onStatusChange }: Busine
             <Button 
               variant="destructive" 
               onClick={handleReject}
-              disabled={!feedbackMessage.trim()}
+              disabled={reasonCodes.length === 0 || rejectMutation.isPending}
             >
               Reject Business
             </Button>
@@ -0,0 +1,141 @@
+import React, { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { CheckCircle, ClipboardList, XCircle } from "lucide-react";
+import { uncheckedChecklistItems, type ModerationChecklist } from "@shared/moderation";
+import type { Deal } from "@shared/schema";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useRejectionReasons, useReviewChecklist } from "@/hooks/use-moderation";
+import { apiRequest } from "@/lib/queryClient";
+import { ReviewChecklist, RejectionReasonPicker } from "./ModerationPolicy";
+
+interface DealModerationPanelProps {
+  dealId: number;
+  category: string;
+  onReviewed?: (deal: Deal) => void;
+}
+
+/**
+ * Review checklist for a pending deal, with approve and reject actions
+ * Rejections use reasons from the moderation catalogue
+ */
+export default function DealModerationPanel({ dealId, category, onReviewed }: DealModerationPanelProps) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [checklist, setChecklist] = useState<ModerationChecklist>({});
+  const [rejectDialogOpen, setRejectDialogOpen] = useState(false);
+  const [reasonCodes, setReasonCodes] = useState<string[]>([]);
+  const [note, setNote] = useState("");
+
+  const { data: checklistItems = [] } = useReviewChecklist("deal", category);
+  const { data: rejectionReasons = [] } = useRejectionReasons("deal");
+  const checklistComplete = uncheckedChecklistItems(checklistItems, checklist).length === 0;
+
+  const onSuccess = (deal: Deal, message: string) => {
+    queryClient.invalidateQueries({ queryKey: ['admin', 'deals'] });
+    toast({ title: message });
+    onReviewed?.(deal);
+  };
+
+  const onError = (error: unknown) => {
+    toast({
+      title: "Error",
+      description: error instanceof Error ? error.message : "Failed to review deal. Please try again.",
+      variant: "destructive"
+    });
+  };
+
+  const approveMutation = useMutation({
+    mutationFn: (): Promise<Deal> =>
+      apiRequest(`/api/v1/admin/deals/${dealId}/verify`, { method: 'PATCH', data: { checklist } }),
+    onSuccess: (deal) => onSuccess(deal, "Deal approved"),
+    onError
+  });
+
+  const rejectMutation = useMutation({
+    mutationFn: (): Promise<Deal> =>
+      apiRequest(`/api/v1/admin/deals/${dealId}/reject`, {
+        method: 'PATCH',
+        data: { reasonCodes, note, checklist }
+      }),
+    onSuccess: (deal) => {
+      setRejectDialogOpen(false);
+      setReasonCodes([]);
+      setNote("");
+      onSuccess(deal, "Deal rejected");
+    },
+    onError
+  });
+
+  return (
+    <>
+      <Card className="mb-6">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <ClipboardList className="h-5 w-5" />
+            Review Checklist
+          </CardTitle>
+          <CardDescription>
+            Check each item before approving this deal.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <ReviewChecklist items={checklistItems} value={checklist} onChange={setChecklist} />
+        </CardContent>
+        <CardFooter className="flex justify-end gap-3">
+          <Button
+            type="button"
+            variant="outline"
+            className="text-red-600"
+            onClick={() => setRejectDialogOpen(true)}
+          >
+            <XCircle className="h-4 w-4 mr-2" />
+            Reject
+          </Button>
+          <Button
+            type="button"
+            onClick={() => approveMutation.mutate()}
+            disabled={!checklistComplete || approveMutation.isPending}
+          >
+            <CheckCircle className="h-4 w-4 mr-2" />
+            Approve
+          </Button>
+        </CardFooter>
+      </Card>
+
+      <Dialog open={rejectDialogOpen} onOpenChange={setRejectDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Reject Deal</DialogTitle>
+            <DialogDescription>
+              Select the reasons for rejecting this deal. The vendor will see them with your note.
+            </DialogDescription>
+          </DialogHeader>
+
+          <RejectionReasonPicker
+            reasons={rejectionReasons}
+            selectedCodes={reasonCodes}
+            onSelectedCodesChange={setReasonCodes}
+            note={note}
+            onNoteChange={setNote}
+          />
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRejectDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={() => rejectMutation.mutate()}
+              disabled={reasonCodes.length === 0 || rejectMutation.isPending}
+            >
+              Reject Deal
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,189 @@
+import React, { useState } from "react";
+import { format } from "date-fns";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { History, MessageSquare } from "lucide-react";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import {
+  DEAL_REVISION_FIELDS,
+  DEAL_REVISION_FIELD_LABELS,
+  formatDealFieldValue,
+  type DealRevision,
+  type DealRevisionField
+} from "@shared/dealRevisions";
+
+interface DealRevisionReviewProps {
+  dealId: number;
+}
+
+/**
+ * Side-by-side diff of the latest deal submission against the previous one,
+ * with per-field comments that the vendor sees on their edit form
+ */
+export default function DealRevisionReview({ dealId }: DealRevisionReviewProps) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [commentField, setCommentField] = useState<DealRevisionField | "">("");
+  const [comment, setComment] = useState("");
+
+  const historyKey = ['/api/deals', dealId, 'approval/history'];
+  const { data: revisions = [], isLoading } = useQuery<DealRevision[]>({
+    queryKey: historyKey,
+    queryFn: () => apiRequest(`/api/deals/${dealId}/approval/history`)
+  });
+
+  const addComment = useMutation({
+    mutationFn: (data: { field: DealRevisionField; comment: string }) =>
+      apiRequest(`/api/v1/deals/${dealId}/approval/comments`, { method: 'POST', data }),
+    onSuccess: () => {
+      setComment("");
+      setCommentField("");
+      queryClient.invalidateQueries({ queryKey: historyKey });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to add comment. Please try again.",
+        variant: "destructive"
+      });
+    }
+  });
+
+  const latest = revisions[0];
+
+  if (isLoading || !latest) {
+    return null;
+  }
+
+  const commentsFor = (field: DealRevisionField) => latest.comments.filter(c => c.field === field);
+  const changedFields = new Set(latest.changes.map(change => change.field));
+  // Fields with comments but no change still need to be listed so their comments are visible
+  const commentedOnly = DEAL_REVISION_FIELDS.filter(field => !changedFields.has(field) && commentsFor(field).length > 0);
+
+  const handleSubmit = () => {
+    if (!commentField || !comment.trim()) return;
+    addComment.mutate({ field: commentField, comment: comment.trim() });
+  };
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center gap-2">
+            <History className="h-5 w-5" />
+            Review
+          </CardTitle>
+          <Badge variant="outline">
+            Revision {latest.revision} of {revisions.length}
+          </Badge>
+        </div>
+        <CardDescription>
+          Submitted {format(new Date(latest.submittedAt), "PPp")}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {latest.revision === 1 ? (
+          <p className="text-sm text-muted-foreground">
+            This is the first submission of this deal, so there is no earlier version to compare.
+          </p>
+        ) : latest.changes.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No reviewed fields changed since the previous submission.
+          </p>
+        ) : (
+          <div className="rounded-md border divide-y text-sm">
+            <div className="grid grid-cols-[10rem_1fr_1fr] gap-4 px-3 py-2 font-medium bg-muted/50">
+              <div>Field</div>
+              <div>Previous submission</div>
+              <div>This submission</div>
+            </div>
+            {latest.changes.map(change => (
+              <div key={change.field} className="px-3 py-2 space-y-2">
+                <div className="grid grid-cols-[10rem_1fr_1fr] gap-4">
+                  <div className="font-medium">{change.label}</div>
+                  <div className="whitespace-pre-wrap break-words rounded bg-red-50 px-2 py-1 text-red-800 line-through decoration-red-300">
+                    {formatDealFieldValue(change.field, change.before)}
+                  </div>
+                  <div className="whitespace-pre-wrap break-words rounded bg-green-50 px-2 py-1 text-green-800">
+                    {formatDealFieldValue(change.field, change.after)}
+                  </div>
+                </div>
+                <FieldComments comments={commentsFor(change.field)} />
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 text-xs"
+                  onClick={() => setCommentField(change.field)}
+                >
+                  <MessageSquare className="mr-1 h-3.5 w-3.5" />
+                  Comment on {change.label.toLowerCase()}
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {commentedOnly.length > 0 && (
+          <div className="space-y-2 text-sm">
+            {commentedOnly.map(field => (
+              <div key={field}>
+                <div className="font-medium">{DEAL_REVISION_FIELD_LABELS[field]}</div>
+                <FieldComments comments={commentsFor(field)} />
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+      <CardFooter className="flex flex-col items-stretch gap-2">
+        <Select value={commentField} onValueChange={(value) => setCommentField(value as DealRevisionField)}>
+          <SelectTrigger>
+            <SelectValue placeholder="Select a field to comment on" />
+          </SelectTrigger>
+          <SelectContent>
+            {DEAL_REVISION_FIELDS.map(field => (
+              <SelectItem key={field} value={field}>
+                {DEAL_REVISION_FIELD_LABELS[field]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Textarea
+          placeholder="Tell the vendor what to change in this field"
+          value={comment}
+          maxLength={1000}
+          onChange={(e) => setComment(e.target.value)}
+        />
+        <div className="flex justify-end">
+          <Button
+            type="button"
+            onClick={handleSubmit}
+            disabled={!commentField || !comment.trim() || addComment.isPending}
+          >
+            Add Comment
+          </Button>
+        </div>
+      </CardFooter>
+    </Card>
+  );
+}
+
+function FieldComments({ comments }: { comments: DealRevision["comments"] }) {
+  if (comments.length === 0) return null;
+
+  return (
+    <ul className="space-y-1">
+      {comments.map(c => (
+        <li key={c.id} className="flex items-start gap-2 text-orange-800">
+          <MessageSquare className="h-4 w-4 mt-0.5 shrink-0" />
+          <span>{c.comment}</span>
+        </li>
+      ))}
+    </ul>
+  );
+}
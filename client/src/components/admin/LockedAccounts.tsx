@@ -0,0 +1,90 @@
+import React from "react";
+import { format, formatDistanceToNow } from "date-fns";
+import { LockKeyhole } from "lucide-react";
+import type { LockedAccountSummary } from "@shared/loginThrottle";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { useLockedAccounts, useUnlockAccount } from "@/hooks/use-locked-accounts";
+import { useStaffPermissions } from "@/hooks/use-staff-permissions";
+
+/**
+ * Accounts locked after too many failed sign-ins, shown on the user management
+ * page while there are any; staff who can manage users can unlock them early
+ */
+export default function LockedAccounts() {
+  const { toast } = useToast();
+  const { can } = useStaffPermissions();
+  const { data: accounts } = useLockedAccounts(can("users.read"));
+  const unlock = useUnlockAccount();
+
+  if (!accounts || accounts.length === 0) {
+    return null;
+  }
+
+  const handleUnlock = (account: LockedAccountSummary) => {
+    unlock.mutate(account.email, {
+      onSuccess: (result) => toast({ title: "Account unlocked", description: result.message }),
+      onError: (error) => toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to unlock the account. Please try again.",
+        variant: "destructive"
+      })
+    });
+  };
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <LockKeyhole className="h-5 w-5" />
+          Locked Accounts
+        </CardTitle>
+        <CardDescription>
+          These accounts had too many failed sign-ins. Each owner was emailed a link to unlock theirs.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Email</TableHead>
+              <TableHead>Failed sign-ins</TableHead>
+              <TableHead>Last attempt</TableHead>
+              <TableHead>Unlocks</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {accounts.map(account => (
+              <TableRow key={account.email}>
+                <TableCell className="font-medium">{account.email}</TableCell>
+                <TableCell>{account.failedAttempts}</TableCell>
+                <TableCell>
+                  {format(new Date(account.lastFailedAt), "MMM d, h:mm a")}
+                  {account.lastIpAddress && (
+                    <span className="block text-xs text-muted-foreground">from {account.lastIpAddress}</span>
+                  )}
+                </TableCell>
+                <TableCell>{formatDistanceToNow(new Date(account.lockedUntil), { addSuffix: true })}</TableCell>
+                <TableCell className="text-right">
+                  {can("users.manage") && (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => handleUnlock(account)}
+                      disabled={unlock.isPending}
+                    >
+                      Unlock
+                    </Button>
+                  )}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+}
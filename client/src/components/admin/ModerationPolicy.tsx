@@ -0,0 +1,124 @@
+import React from "react";
+import type { ModerationChecklistItem, RejectionReason } from "@shared/schema";
+import { composeRejectionFeedback, type ModerationChecklist } from "@shared/moderation";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+
+interface ReviewChecklistProps {
+  items: ModerationChecklistItem[];
+  value: ModerationChecklist;
+  onChange: (value: ModerationChecklist) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Checklist a reviewer ticks off before approving a deal or business
+ */
+export function ReviewChecklist({ items, value, onChange, disabled }: ReviewChecklistProps) {
+  if (items.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        No checklist items apply to this category.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      {items.map(item => (
+        <div key={item.id} className="flex items-start gap-3">
+          <Checkbox
+            id={`checklist-${item.id}`}
+            checked={!!value[item.id]}
+            disabled={disabled}
+            onCheckedChange={(checked) => onChange({ ...value, [item.id]: checked === true })}
+          />
+          <div className="grid gap-1 leading-none">
+            <Label htmlFor={`checklist-${item.id}`} className="font-normal">
+              {item.label}
+            </Label>
+            {item.description && (
+              <p className="text-xs text-muted-foreground">{item.description}</p>
+            )}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+interface RejectionReasonPickerProps {
+  reasons: RejectionReason[];
+  selectedCodes: string[];
+  onSelectedCodesChange: (codes: string[]) => void;
+  note: string;
+  onNoteChange: (note: string) => void;
+}
+
+/**
+ * Catalogue rejection reasons plus an optional note, with a preview of the feedback the vendor will see
+ */
+export function RejectionReasonPicker({
+  reasons,
+  selectedCodes,
+  onSelectedCodesChange,
+  note,
+  onNoteChange
+}: RejectionReasonPickerProps) {
+  const toggle = (code: string, checked: boolean) => {
+    onSelectedCodesChange(checked ? [...selectedCodes, code] : selectedCodes.filter(c => c !== code));
+  };
+
+  // Keep the order reasons were picked in, which is the order the vendor reads them
+  const selectedReasons = selectedCodes
+    .map(code => reasons.find(reason => reason.code === code))
+    .filter((reason): reason is RejectionReason => !!reason);
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <h3 className="text-sm font-medium">Rejection Reasons</h3>
+        {reasons.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No rejection reasons have been set up yet. Add them under Moderation.
+          </p>
+        ) : (
+          <div className="space-y-2">
+            {reasons.map(reason => (
+              <div key={reason.code} className="flex items-start gap-3">
+                <Checkbox
+                  id={`reason-${reason.code}`}
+                  checked={selectedCodes.includes(reason.code)}
+                  onCheckedChange={(checked) => toggle(reason.code, checked === true)}
+                />
+                <Label htmlFor={`reason-${reason.code}`} className="font-normal leading-none">
+                  {reason.label}
+                </Label>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <h3 className="text-sm font-medium">Additional Note (Optional)</h3>
+        <Textarea
+          placeholder="Add anything specific to this submission..."
+          value={note}
+          maxLength={1000}
+          onChange={(e) => onNoteChange(e.target.value)}
+        />
+      </div>
+
+      {selectedReasons.length > 0 && (
+        <div className="space-y-1">
+          <h3 className="text-sm font-medium">The vendor will see</h3>
+          <p className="rounded-md border bg-muted/50 p-3 text-sm whitespace-pre-wrap">
+            {composeRejectionFeedback(selectedReasons, note)}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,68 @@
+import React from "react";
+import { Bot, CheckCircle, ShieldAlert, XCircle } from "lucide-react";
+import type { PreModerationOutcome, PreModerationResult } from "@shared/preModeration";
+import { Badge } from "@/components/ui/badge";
+import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
+
+const OUTCOMES: Record<PreModerationOutcome, { label: string; className: string; icon: React.ReactNode }> = {
+  auto_approve: {
+    label: "Auto-approved",
+    className: "bg-green-50 text-green-700 border-green-200",
+    icon: <CheckCircle className="h-3 w-3" />
+  },
+  auto_reject: {
+    label: "Auto-rejected",
+    className: "bg-red-50 text-red-700 border-red-200",
+    icon: <XCircle className="h-3 w-3" />
+  },
+  needs_review: {
+    label: "Needs review",
+    className: "bg-amber-50 text-amber-700 border-amber-200",
+    icon: <ShieldAlert className="h-3 w-3" />
+  }
+};
+
+/**
+ * The list of reasons the automated rules gave, for the deal details dialog
+ */
+export function PreModerationReasons({ result }: { result: PreModerationResult }) {
+  if (result.reasons.length === 0) {
+    return <p className="text-sm text-muted-foreground">No rules matched</p>;
+  }
+
+  return (
+    <ul className="space-y-1 text-sm">
+      {result.reasons.map(reason => (
+        <li key={reason.rule} className="flex items-start gap-2">
+          <Bot className="h-4 w-4 mt-0.5 text-muted-foreground shrink-0" />
+          <span>{reason.message}</span>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+/**
+ * What the automated rules decided when the deal was last submitted, with their reasons on hover
+ */
+export default function PreModerationBadge({ result }: { result?: PreModerationResult | null }) {
+  if (!result) return null;
+
+  const outcome = OUTCOMES[result.outcome];
+
+  return (
+    <TooltipProvider>
+      <Tooltip>
+        <TooltipTrigger asChild>
+          <Badge variant="outline" className={`flex w-fit items-center gap-1 ${outcome.className}`}>
+            {outcome.icon} {outcome.label}
+          </Badge>
+        </TooltipTrigger>
+        <TooltipContent side="bottom" className="p-3 max-w-xs">
+          <p className="font-medium mb-1.5">Automated checks</p>
+          <PreModerationReasons result={result} />
+        </TooltipContent>
+      </Tooltip>
+    </TooltipProvider>
+  );
+}
@@ -0,0 +1,191 @@
+import React, { useState } from "react";
+import {
+  PRE_MODERATION_ACTIONS,
+  type PreModerationAction,
+  type PreModerationRuleDefinition,
+  type PreModerationRuleKey
+} from "@shared/preModeration";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { usePreModerationRules, useSavePreModerationRule } from "@/hooks/use-moderation";
+
+const ACTION_LABELS: Record<PreModerationAction, string> = {
+  reject: "Reject",
+  review: "Send to review",
+  approve: "Approve"
+};
+
+// Settings are edited as text and only parsed when saved
+type ConfigDraft = Record<string, string>;
+
+function toDraft(rule: PreModerationRuleDefinition): ConfigDraft {
+  switch (rule.key) {
+    case "banned_words":
+      return { words: ((rule.config.words as string[] | undefined) ?? []).join("\n") };
+    case "max_discount":
+      return { maxPercent: String(rule.config.maxPercent ?? "") };
+    case "trusted_vendor":
+      return { minApprovedDeals: String(rule.config.minApprovedDeals ?? "") };
+    default:
+      return {};
+  }
+}
+
+function fromDraft(key: PreModerationRuleKey, draft: ConfigDraft): Record<string, unknown> {
+  switch (key) {
+    case "banned_words":
+      return { words: draft.words.split(/[\n,]/).map(word => word.trim()).filter(Boolean) };
+    case "max_discount":
+      return { maxPercent: parseFloat(draft.maxPercent) };
+    case "trusted_vendor":
+      return { minApprovedDeals: parseInt(draft.minApprovedDeals, 10) };
+    default:
+      return {};
+  }
+}
+
+function RuleSettings({ rule, onSave, saving }: {
+  rule: PreModerationRuleDefinition;
+  onSave: (config: Record<string, unknown>) => void;
+  saving: boolean;
+}) {
+  const [draft, setDraft] = useState<ConfigDraft>(() => toDraft(rule));
+  const id = `rule-${rule.key}`;
+
+  let field: React.ReactNode = null;
+  switch (rule.key) {
+    case "banned_words":
+      field = (
+        <>
+          <Label htmlFor={id} className="text-xs">Banned words, one per line</Label>
+          <Textarea
+            id={id}
+            rows={3}
+            value={draft.words}
+            onChange={(e) => setDraft({ words: e.target.value })}
+          />
+        </>
+      );
+      break;
+    case "max_discount":
+      field = (
+        <>
+          <Label htmlFor={id} className="text-xs">Highest plausible discount (%)</Label>
+          <Input
+            id={id}
+            type="number"
+            min={1}
+            max={100}
+            value={draft.maxPercent}
+            onChange={(e) => setDraft({ maxPercent: e.target.value })}
+          />
+        </>
+      );
+      break;
+    case "trusted_vendor":
+      field = (
+        <>
+          <Label htmlFor={id} className="text-xs">Approved deals needed</Label>
+          <Input
+            id={id}
+            type="number"
+            min={1}
+            value={draft.minApprovedDeals}
+            onChange={(e) => setDraft({ minApprovedDeals: e.target.value })}
+          />
+        </>
+      );
+      break;
+  }
+
+  if (!field) {
+    return <span className="text-sm text-muted-foreground">No settings</span>;
+  }
+
+  return (
+    <div className="space-y-2 max-w-xs">
+      {field}
+      <Button size="sm" variant="outline" disabled={saving} onClick={() => onSave(fromDraft(rule.key, draft))}>
+        Save Settings
+      </Button>
+    </div>
+  );
+}
+
+/**
+ * Rules that check deals when vendors submit them, before a reviewer does
+ */
+export default function PreModerationRules() {
+  const { toast } = useToast();
+  const { data: rules = [] } = usePreModerationRules();
+  const saveRule = useSavePreModerationRule();
+
+  const save = (data: Parameters<typeof saveRule.mutate>[0]) => {
+    saveRule.mutate(data, {
+      onSuccess: () => toast({ title: "Rule saved" }),
+      onError: (error) => toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save. Please try again.",
+        variant: "destructive"
+      })
+    });
+  };
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Rule</TableHead>
+          <TableHead>When It Matches</TableHead>
+          <TableHead>Settings</TableHead>
+          <TableHead>Enabled</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {rules.map(rule => (
+          <TableRow key={rule.key}>
+            <TableCell className="max-w-xs">
+              <div className="font-medium">{rule.label}</div>
+              <div className="text-xs text-muted-foreground">{rule.description}</div>
+            </TableCell>
+            <TableCell>
+              <Select
+                value={rule.action}
+                onValueChange={(action) => save({ key: rule.key, action: action as PreModerationAction })}
+              >
+                <SelectTrigger className="w-40">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {PRE_MODERATION_ACTIONS.map(action => (
+                    <SelectItem key={action} value={action}>{ACTION_LABELS[action]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </TableCell>
+            <TableCell>
+              <RuleSettings
+                key={JSON.stringify(rule.config)}
+                rule={rule}
+                saving={saveRule.isPending}
+                onSave={(config) => save({ key: rule.key, config })}
+              />
+            </TableCell>
+            <TableCell>
+              <Switch
+                checked={rule.enabled}
+                onCheckedChange={(enabled) => save({ key: rule.key, enabled })}
+              />
+            </TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
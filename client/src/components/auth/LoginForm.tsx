@@ -1,4 +1,4 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useCallback } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useToast } from "@/hooks/use-toast";
@@ -8,17 +8,25 @@ import PasswordInput from "./PasswordInput";
 import { Button } from "@/components/ui/button";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Label } from "@/components/ui/label";
-import { Loader2 } from "lucide-react";
+import { Fingerprint, Loader2 } from "lucide-react";
 import { useAuth } from "@/contexts/AuthContext";
+import { isPasskeyCancelled, isPasskeySupported } from "@/lib/passkeys";
+import type { TwoFactorChallenge } from "@shared/twoFactor";
+import TwoFactorLoginStep from "./TwoFactorLoginStep";
 
 export default function LoginForm() {
-  const { login, isLoading: authLoading, error: authError } = useAuth();
+  const { login, loginWithPasskey, isLoading: authLoading, error: authError } = useAuth();
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isPasskeySigningIn, setIsPasskeySigningIn] = useState(false);
+  // Set once the password is accepted for an account that also needs a two-factor code
+  const [twoFactor, setTwoFactor] = useState<{ challenge: TwoFactorChallenge; email: string } | null>(null);
   const { toast } = useToast();
+  const cancelTwoFactor = useCallback(() => setTwoFactor(null), []);
   
   const {
     register,
     handleSubmit,
+    getValues,
     formState: { errors },
   } = useForm<LoginFormValues>({
     resolver: zodResolver(loginSchema),
@@ -46,7 +54,11 @@ export default function LoginForm() {
       console.log('Login form submission with:', { email: data.email, rememberMe: data.rememberMe });
       
       // Attempt to login
-      await login(data.email, data.password, data.rememberMe);
+      const challenge = await login(data.email, data.password, data.rememberMe);
+      if (challenge) {
+        setTwoFactor({ challenge, email: data.email });
+        return;
+      }
       
       console.log('Login successful, not showing success toast');
     } catch (error) {
@@ -78,6 +90,27 @@ export default function LoginForm() {
     }
   };
 
+  const onPasskeySignIn = async () => {
+    setIsPasskeySigningIn(true);
+    try {
+      await loginWithPasskey(getValues("rememberMe"));
+    } catch (error) {
+      if (isPasskeyCancelled(error)) return;
+      
+      toast({
+        title: "Passkey sign-in failed",
+        description: error instanceof Error ? error.message : "Please try again or sign in with your password.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsPasskeySigningIn(false);
+    }
+  };
+
+  if (twoFactor) {
+    return <TwoFactorLoginStep challenge={twoFactor.challenge} email={twoFactor.email} onCancel={cancelTwoFactor} />;
+  }
+
   return (
     <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
       <FormInput
@@ -124,6 +157,30 @@ export default function LoginForm() {
         )}
       </Button>
 
+      {isPasskeySupported() && (
+        <>
+          <div className="flex items-center gap-3 text-xs uppercase text-gray-400">
+            <div className="h-px flex-1 bg-gray-200" />
+            or
+            <div className="h-px flex-1 bg-gray-200" />
+          </div>
+
+          <Button
+            type="button"
+            variant="outline"
+            className="w-full"
+            onClick={onPasskeySignIn}
+            disabled={isSubmitting || isPasskeySigningIn || authLoading}
+          >
+            {isPasskeySigningIn ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <Fingerprint className="mr-2 h-4 w-4" />
+            )}
+            Sign in with passkey
+          </Button>
+        </>
+      )}
 
     </form>
   );
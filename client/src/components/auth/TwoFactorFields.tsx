@@ -0,0 +1,104 @@
+import React from 'react';
+import { QRCodeSVG } from 'qrcode.react';
+import { Copy, Download } from 'lucide-react';
+import { TOTP_DIGITS, type TwoFactorSetup } from '@shared/twoFactor';
+import { InputOTP, InputOTPGroup, InputOTPSlot } from '@/components/ui/input-otp';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/hooks/use-toast';
+
+interface TotpCodeInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  onComplete?: (value: string) => void;
+  disabled?: boolean;
+}
+
+/**
+ * The six boxes for a code from the authenticator app
+ */
+export function TotpCodeInput({ value, onChange, onComplete, disabled }: TotpCodeInputProps) {
+  return (
+    <InputOTP
+      maxLength={TOTP_DIGITS}
+      value={value}
+      onChange={onChange}
+      onComplete={onComplete}
+      disabled={disabled}
+      inputMode="numeric"
+      pattern="^[0-9]*$"
+      autoComplete="one-time-code"
+      autoFocus
+    >
+      <InputOTPGroup>
+        {Array.from({ length: TOTP_DIGITS }, (_, index) => (
+          <InputOTPSlot key={index} index={index} />
+        ))}
+      </InputOTPGroup>
+    </InputOTP>
+  );
+}
+
+/**
+ * QR code to scan into an authenticator app, with the secret for typing in by hand
+ */
+export function TwoFactorQrCode({ setup }: { setup: TwoFactorSetup }) {
+  return (
+    <div className="flex flex-col items-center gap-3">
+      <div className="rounded-lg border bg-white p-3">
+        <QRCodeSVG value={setup.otpauthUrl} size={176} />
+      </div>
+      <p className="text-sm text-muted-foreground text-center">
+        Scan this with your authenticator app, or enter the key by hand:
+      </p>
+      <code className="rounded bg-muted px-2 py-1 text-sm font-mono break-all text-center">
+        {setup.secret.match(/.{1,4}/g)?.join(' ')}
+      </code>
+    </div>
+  );
+}
+
+/**
+ * New recovery codes; they are shown this once, so they can be copied or downloaded
+ */
+export function RecoveryCodes({ codes }: { codes: string[] }) {
+  const { toast } = useToast();
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(codes.join('\n'));
+      toast({ title: 'Recovery codes copied' });
+    } catch {
+      toast({ title: 'Error', description: 'Copy the codes by hand instead.', variant: 'destructive' });
+    }
+  };
+
+  const handleDownload = () => {
+    const url = URL.createObjectURL(new Blob([`Pinnity recovery codes\n\n${codes.join('\n')}\n`], { type: 'text/plain' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'pinnity-recovery-codes.txt';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="space-y-3">
+      <p className="text-sm text-muted-foreground">
+        Keep these somewhere safe. Each one signs you in once if you lose your phone, and you won't see them again.
+      </p>
+      <ul className="grid grid-cols-2 gap-2 rounded-lg border bg-muted p-3 font-mono text-sm">
+        {codes.map(code => <li key={code}>{code}</li>)}
+      </ul>
+      <div className="flex gap-2">
+        <Button type="button" variant="outline" size="sm" onClick={handleCopy}>
+          <Copy className="h-4 w-4 mr-2" />
+          Copy
+        </Button>
+        <Button type="button" variant="outline" size="sm" onClick={handleDownload}>
+          <Download className="h-4 w-4 mr-2" />
+          Download
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,168 @@
+import { useEffect, useState } from "react";
+import { Loader2, ShieldCheck } from "lucide-react";
+import { TOTP_DIGITS, type TwoFactorChallenge, type TwoFactorSetup } from "@shared/twoFactor";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth, type LoginResponse } from "@/contexts/AuthContext";
+import { apiPost } from "@/lib/api";
+import { RecoveryCodes, TotpCodeInput, TwoFactorQrCode } from "./TwoFactorFields";
+
+interface TwoFactorLoginStepProps {
+  challenge: TwoFactorChallenge;
+  email: string;
+  // Back to the password step, e.g. after the challenge timed out
+  onCancel: () => void;
+}
+
+/**
+ * The second step of signing in: a code from the authenticator app or a
+ * recovery code. Admins who haven't set up two-factor yet scan a QR code
+ * first and are shown their recovery codes before continuing.
+ */
+export default function TwoFactorLoginStep({ challenge, email, onCancel }: TwoFactorLoginStepProps) {
+  const { completeTwoFactorLogin, finishLogin } = useAuth();
+  const { toast } = useToast();
+  const [code, setCode] = useState("");
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null);
+  const [enrolled, setEnrolled] = useState<LoginResponse | null>(null);
+
+  useEffect(() => {
+    if (!challenge.enrolmentRequired) return;
+
+    apiPost<TwoFactorSetup>('/api/v1/auth/login/two-factor/setup', { challengeToken: challenge.challengeToken })
+      .then(setSetup)
+      .catch((error) => {
+        toast({
+          title: "Couldn't start two-factor setup",
+          description: error instanceof Error ? error.message : "Please sign in again.",
+          variant: "destructive",
+        });
+        onCancel();
+      });
+  }, [challenge, onCancel, toast]);
+
+  const submit = async (value: string) => {
+    if (isSubmitting) return;
+    setIsSubmitting(true);
+    try {
+      const response = await completeTwoFactorLogin(challenge.challengeToken, value, email);
+      if (response.recoveryCodes) {
+        setEnrolled(response);
+      }
+    } catch (error: any) {
+      if (error?.status === 401) {
+        toast({ title: "Sign-in timed out", description: "Please enter your password again.", variant: "destructive" });
+        onCancel();
+        return;
+      }
+      toast({
+        title: "Verification failed",
+        description: error instanceof Error ? error.message : "Please try again.",
+        variant: "destructive",
+      });
+      setCode("");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (enrolled) {
+    return (
+      <div className="space-y-6">
+        <div className="flex items-center gap-2 font-medium">
+          <ShieldCheck className="h-5 w-5 text-[#00796B]" />
+          Two-factor authentication is on
+        </div>
+        <RecoveryCodes codes={enrolled.recoveryCodes!} />
+        <Button className="w-full bg-[#00796B] hover:bg-[#004D40]" onClick={() => finishLogin(enrolled, email)}>
+          I've saved my recovery codes
+        </Button>
+      </div>
+    );
+  }
+
+  if (challenge.enrolmentRequired && !setup) {
+    return (
+      <div className="flex justify-center py-6">
+        <Loader2 className="h-8 w-8 animate-spin text-[#00796B]" />
+      </div>
+    );
+  }
+
+  return (
+    <form
+      className="space-y-6"
+      onSubmit={(event) => {
+        event.preventDefault();
+        submit(code);
+      }}
+    >
+      {setup ? (
+        <>
+          <p className="text-sm text-gray-600">
+            Admin accounts need two-factor authentication. Set up an authenticator app to finish signing in.
+          </p>
+          <TwoFactorQrCode setup={setup} />
+          <p className="text-sm text-gray-600">Then enter the {TOTP_DIGITS}-digit code it shows.</p>
+        </>
+      ) : (
+        <p className="text-sm text-gray-600">
+          {useRecoveryCode
+            ? "Enter one of the recovery codes you saved when you set up two-factor authentication."
+            : `Enter the ${TOTP_DIGITS}-digit code from your authenticator app.`}
+        </p>
+      )}
+
+      <div className="flex justify-center">
+        {useRecoveryCode ? (
+          <Input
+            value={code}
+            onChange={(event) => setCode(event.target.value)}
+            placeholder="xxxxx-xxxxx"
+            autoComplete="off"
+            autoFocus
+            className="font-mono"
+          />
+        ) : (
+          <TotpCodeInput value={code} onChange={setCode} onComplete={submit} disabled={isSubmitting} />
+        )}
+      </div>
+
+      <Button
+        type="submit"
+        className="w-full bg-[#00796B] hover:bg-[#004D40]"
+        disabled={isSubmitting || (!useRecoveryCode && code.length < TOTP_DIGITS) || !code}
+      >
+        {isSubmitting ? (
+          <>
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            Verifying...
+          </>
+        ) : (
+          "Verify"
+        )}
+      </Button>
+
+      <div className="flex items-center justify-between text-sm">
+        <button type="button" className="text-gray-500 hover:text-gray-700" onClick={onCancel}>
+          Back
+        </button>
+        {!setup && (
+          <button
+            type="button"
+            className="text-[#00796B] hover:text-[#004D40] font-medium"
+            onClick={() => {
+              setUseRecoveryCode(!useRecoveryCode);
+              setCode("");
+            }}
+          >
+            {useRecoveryCode ? "Use your authenticator app" : "Use a recovery code"}
+          </button>
+        )}
+      </div>
+    </form>
+  );
+}
@@ -1,12 +1,12 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { MapContainer, TileLayer, Marker, Popup, useMap } from 'react-leaflet';
+import { MapContainer, TileLayer, Marker, Popup, useMap, useMapEvents } from 'react-leaflet';
 import L from 'leaflet';
 import { Deal } from '@shared/schema';
 import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Skeleton } from '@/components/ui/skeleton';
 import { Badge } from '@/components/ui/badge';
-import { MapPin, Navigation } from 'lucide-react';
+import { MapPin, Navigation, Loader2 } from 'lucide-react';
 
 // Import Leaflet CSS at the component level to ensure it's loaded
 // when the component is rendered
@@ -38,13 +38,24 @@ const userIcon = new L.Icon({
   shadowSize: [41, 41],
 });
 
+/**
+ * Visible map area, reported so callers can fetch only the deals inside it
+ * - bbox: "west,south,east,north" as expected by GET /api/v1/deals
+ * - userLocation: used by the server to sort results by distance
+ */
+export interface MapViewport {
+  bbox: string;
+  userLocation: [number, number] | null;
+}
+
 interface DealMapProps {
-  deals: (Deal & { business: any })[];
+  deals: (Deal & { business: any; distanceKm?: number | null })[];
   isLoading: boolean;
   onSelect: (dealId: number) => void;
+  onViewportChange?: (viewport: MapViewport) => void;
 }
 
-export default function DealMap({ deals, isLoading, onSelect }: DealMapProps) {
+export default function DealMap({ deals, isLoading, onSelect, onViewportChange }: DealMapProps) {
   const [userLocation, setUserLocation] = useState<[number, number] | null>(null);
   const [mapCenter, setMapCenter] = useState<[number, number]>([37.7749, -122.4194]); // Default to San Francisco
   
@@ -64,7 +75,9 @@ export default function DealMap({ deals, isLoading, onSelect }: DealMapProps) {
     }
   }, []);
 
-  if (isLoading) {
+  // Without a viewport callback the caller loads everything up front,
+  // so keep showing the skeleton until that completes
+  if (isLoading && !onViewportChange) {
     return <MapSkeleton />;
   }
 
@@ -73,7 +86,7 @@ export default function DealMap({ deals, isLoading, onSelect }: DealMapProps) {
       <CardContent className="p-0">
         <div className="h-[70vh]">
           <MapContainer
-            key={`map-${mapCenter[0]}-${mapCenter[1]}-${deals.length}`}
+            key={`map-${mapCenter[0]}-${mapCenter[1]}`}
             center={mapCenter}
             zoom={13}
             style={{ height: '100%', width: '100%' }}
@@ -100,6 +113,18 @@ export default function DealMap({ deals, isLoading, onSelect }: DealMapProps) {
             
             <MapController center={mapCenter} />
             
+            {onViewportChange && (
+              <ViewportReporter userLocation={userLocation} onChange={onViewportChange} />
+            )}
+            
+            {isLoading && (
+              <div className="leaflet-top leaflet-left" style={{ zIndex: 1000 }}>
+                <div className="leaflet-control m-4 rounded-full bg-white p-2 shadow">
+                  <Loader2 className="h-4 w-4 animate-spin text-[#00796B]" />
+                </div>
+              </div>
+            )}
+            
             <div className="leaflet-bottom leaflet-right" style={{ zIndex: 1000 }}>
               <div className="leaflet-control leaflet-bar m-4">
                 <Button 
@@ -132,7 +157,7 @@ export default function DealMap({ deals, isLoading, onSelect }: DealMapProps) {
 }
 
 interface DealMarkerProps {
-  deal: Deal & { business: any };
+  deal: Deal & { business: any; distanceKm?: number | null };
   onSelect: () => void;
 }
 
@@ -181,6 +206,9 @@ function DealMarker({ deal, onSelect }: DealMarkerProps) {
           <p className="text-xs text-muted-foreground mb-2 flex items-center">
             <MapPin className="h-3 w-3 mr-1" />
             {business.address}
+            {deal.distanceKm != null && (
+              <span className="ml-1 whitespace-nowrap">· {formatDistance(deal.distanceKm)}</span>
+            )}
           </p>
           
           <Button 
@@ -213,6 +241,46 @@ function MapController({ center }: MapControllerProps) {
   return null;
 }
 
+interface ViewportReporterProps {
+  userLocation: [number, number] | null;
+  onChange: (viewport: MapViewport) => void;
+}
+
+// Round coordinates so small pans don't produce a new query every time
+const roundCoordinate = (value: number) => Math.round(value * 10000) / 10000;
+
+function ViewportReporter({ userLocation, onChange }: ViewportReporterProps) {
+  const map = useMapEvents({
+    moveend: () => report(),
+  });
+  
+  const report = () => {
+    const bounds = map.getBounds();
+    const west = roundCoordinate(Math.max(-180, bounds.getWest()));
+    const south = roundCoordinate(Math.max(-90, bounds.getSouth()));
+    const east = roundCoordinate(Math.min(180, bounds.getEast()));
+    const north = roundCoordinate(Math.min(90, bounds.getNorth()));
+    
+    onChange({
+      bbox: [west, south, east, north].join(','),
+      userLocation
+    });
+  };
+  
+  // Report the initial viewport and whenever the user location becomes known
+  useEffect(() => {
+    report();
+  }, [map, userLocation]);
+  
+  return null;
+}
+
+function formatDistance(distanceKm: number): string {
+  return distanceKm < 1
+    ? `${Math.round(distanceKm * 1000)} m`
+    : `${distanceKm.toFixed(1)} km`;
+}
+
 function MapSkeleton() {
   return (
     <Card className="overflow-hidden pb-16">
@@ -1,18 +1,17 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import { useToast } from '@/hooks/use-toast';
-import { 
-  Dialog, 
-  DialogContent, 
-  DialogHeader, 
-  DialogTitle, 
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
   DialogDescription,
   DialogFooter
 } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
-import { Input } from '@/components/ui/input';
-import { Label } from '@/components/ui/label';
 import { apiRequest } from '@/lib/queryClient';
-import { CheckCircle, XCircle, Loader2 } from 'lucide-react';
+import { CheckCircle, XCircle, Loader2, Clock, RefreshCw, AlertTriangle } from 'lucide-react';
+import { QRCodeSVG } from 'qrcode.react';
 import { getCurrentUserId } from '@/utils/userUtils';
 
 interface RedemptionDialogProps {
@@ -24,6 +23,39 @@ interface RedemptionDialogProps {
   onRedeemSuccess: () => void;
 }
 
+interface RedemptionToken {
+  token: string;
+  shortCode: string;
+  expiresAt: string;
+  // e.g. the business is closed according to its opening hours
+  warning?: string;
+}
+
+type RedemptionState = 'issuing' | 'ready' | 'expired' | 'success' | 'error';
+
+// How often to check whether the vendor has scanned the code
+const STATUS_POLL_INTERVAL_MS = 3000;
+
+// Messages for the typed redemption errors returned by the server
+const REDEMPTION_ERROR_MESSAGES: Record<string, string> = {
+  LIMIT_PER_USER_REACHED: 'You have reached the maximum redemption limit for this deal.',
+  DEAL_SOLD_OUT: 'This deal is sold out - all available redemptions have been claimed.',
+  DEAL_NOT_ACTIVE: 'This deal is not currently active.',
+};
+
+/**
+ * Display a short code in two groups so it is easy to read aloud, e.g. ABCD-EFGH
+ */
+function formatShortCode(code: string): string {
+  return code.length === 8 ? `${code.slice(0, 4)}-${code.slice(4)}` : code;
+}
+
+function formatCountdown(seconds: number): string {
+  const minutes = Math.floor(seconds / 60);
+  const remainder = seconds % 60;
+  return `${minutes}:${remainder.toString().padStart(2, '0')}`;
+}
+
 export default function RedemptionDialog({
   isOpen,
   onClose,
@@ -32,117 +64,112 @@ export default function RedemptionDialog({
   businessName,
   onRedeemSuccess
 }: RedemptionDialogProps) {
-  const [redemptionCode, setRedemptionCode] = useState('');
-  const [isVerifying, setIsVerifying] = useState(false);
-  const [verificationResult, setVerificationResult] = useState<'success' | 'error' | null>(null);
+  const [redemptionToken, setRedemptionToken] = useState<RedemptionToken | null>(null);
+  const [redemptionState, setRedemptionState] = useState<RedemptionState>('issuing');
+  const [secondsLeft, setSecondsLeft] = useState(0);
   const [errorMessage, setErrorMessage] = useState('');
   const { toast } = useToast();
 
-  const handleVerifyCode = async () => {
+  const requestToken = useCallback(async () => {
     // Check if user is authenticated before proceeding
     const userId = getCurrentUserId();
     if (!userId) {
       setErrorMessage('Authentication required. Please log in to redeem deals.');
-      setVerificationResult('error');
-      return;
-    }
-
-    if (!redemptionCode.trim()) {
-      setErrorMessage('Please enter a redemption code');
+      setRedemptionState('error');
       return;
     }
 
-    setIsVerifying(true);
-    setVerificationResult(null);
+    setRedemptionState('issuing');
+    setRedemptionToken(null);
     setErrorMessage('');
 
     try {
-      console.log(`Verifying deal code for dealId ${dealId}:`, redemptionCode.trim());
-      
-      const response = await apiRequest(`/api/v1/deals/${dealId}/verify-code`, {
-        method: 'POST',
-        data: { code: redemptionCode.trim() }
+      const response: RedemptionToken = await apiRequest(`/api/v1/deals/${dealId}/redemption-token`, {
+        method: 'POST'
       });
 
-      console.log('Verification response:', response);
-
-      if (response && response.valid) {
-        setVerificationResult('success');
-        
-        // If verify-code endpoint already created the redemption, we don't need to create another one
-        if (!response.redemption) {
-          // Get user ID using our centralized utility function
-          const userId = getCurrentUserId();
-          
-          if (userId) {
-            console.log('Creating redemption for user:', userId);
-            try {
-              await apiRequest(`/api/v1/user/${userId}/redemptions`, {
-                method: 'POST',
-                data: { dealId }
-              });
-            } catch (error) {
-              console.error('Error creating redemption:', error);
-              // We still continue with success flow since verification was successful
-            }
-          } else {
-            console.warn('User ID not found while attempting to create redemption');
-          }
-        }
+      setRedemptionToken(response);
+      setRedemptionState('ready');
+    } catch (error: any) {
+      console.error('Error requesting redemption token:', error);
 
-        // Trigger success callback immediately to update UI state
-        onRedeemSuccess();
-        
-        // Show toast and close dialog after a brief delay
-        setTimeout(() => {
-          toast({
-            title: "Deal Redeemed!",
-            description: "You have successfully redeemed this deal.",
-          });
-          onClose();
-        }, 1500);
-      } else {
-        setVerificationResult('error');
-        // Use the server-provided error message if available
-        setErrorMessage(response?.message || 'Invalid redemption code. Please check and try again.');
+      const errorCode = error?.data?.code;
+      setErrorMessage(
+        REDEMPTION_ERROR_MESSAGES[errorCode] ||
+        error?.message ||
+        'Failed to generate a redemption code. Please try again.'
+      );
+      setRedemptionState('error');
+    }
+  }, [dealId]);
+
+  // Issue a fresh token every time the dialog is opened
+  useEffect(() => {
+    if (isOpen) {
+      requestToken();
+    } else {
+      setRedemptionToken(null);
+      setErrorMessage('');
+    }
+  }, [isOpen, requestToken]);
+
+  // Countdown until the token expires
+  useEffect(() => {
+    if (redemptionState !== 'ready' || !redemptionToken) return;
+
+    const updateCountdown = () => {
+      const remaining = Math.max(0, Math.round((new Date(redemptionToken.expiresAt).getTime() - Date.now()) / 1000));
+      setSecondsLeft(remaining);
+      if (remaining === 0) {
+        setRedemptionState('expired');
       }
-    } catch (error: any) {
-      console.error('Error verifying redemption code:', error);
-      setVerificationResult('error');
-      
-      // Try to extract more specific error messages
-      let errorMsg = 'Failed to verify the redemption code. Please try again.';
-      
-      if (error.response) {
-        try {
-          // If we have a response object, try to get the error message from it
-          const errorData = await error.response.json();
-          errorMsg = errorData.message || errorMsg;
-        } catch (jsonError) {
-          console.error('Failed to parse error response:', jsonError);
+    };
+
+    updateCountdown();
+    const timer = setInterval(updateCountdown, 1000);
+    return () => clearInterval(timer);
+  }, [redemptionState, redemptionToken]);
+
+  // Poll until the vendor consumes the token
+  useEffect(() => {
+    if (redemptionState !== 'ready' || !redemptionToken) return;
+
+    const poll = setInterval(async () => {
+      try {
+        const response: { status: string } | null = await apiRequest(
+          `/api/v1/deals/${dealId}/redemption-token/${redemptionToken.shortCode}`,
+          { silentError: true }
+        );
+
+        if (response?.status === 'redeemed') {
+          setRedemptionState('success');
+
+          // Trigger success callback immediately to update UI state
+          onRedeemSuccess();
+
+          // Show toast and close dialog after a brief delay
+          setTimeout(() => {
+            toast({
+              title: "Deal Redeemed!",
+              description: "You have successfully redeemed this deal.",
+            });
+            onClose();
+          }, 1500);
+        } else if (response?.status === 'expired') {
+          setRedemptionState('expired');
         }
-      } else if (error.message) {
-        errorMsg = error.message;
-      }
-      
-      // Handle specific error types with better user messaging
-      if (errorMsg.includes('maximum redemption limit')) {
-        errorMsg = 'You have reached the maximum redemption limit for this deal.';
-      } else if (errorMsg.includes('already redeemed')) {
-        errorMsg = 'You have already redeemed this deal.';
+      } catch (error) {
+        console.error('Error checking redemption status:', error);
       }
-      
-      setErrorMessage(errorMsg);
-    } finally {
-      setIsVerifying(false);
-    }
-  };
+    }, STATUS_POLL_INTERVAL_MS);
 
-  const handleReset = () => {
-    setRedemptionCode('');
-    setVerificationResult(null);
-    setErrorMessage('');
-  };
+    return () => clearInterval(poll);
+  }, [redemptionState, redemptionToken, dealId, onRedeemSuccess, onClose, toast]);
+
+  // The QR code opens the vendor dashboard with the token pre-filled
+  const qrValue = redemptionToken
+    ? `${window.location.origin}/vendor?redeem=${encodeURIComponent(redemptionToken.token)}`
+    : '';
 
   return (
     <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
@@ -150,7 +177,7 @@ export default function RedemptionDialog({
         <DialogHeader>
           <DialogTitle>Redeem Deal</DialogTitle>
           <DialogDescription>
-            Enter the redemption code provided by {businessName} to validate your deal.
+            Show this code to staff at {businessName} so they can scan or enter it.
           </DialogDescription>
         </DialogHeader>
 
@@ -160,7 +187,7 @@ export default function RedemptionDialog({
             <p className="text-sm text-muted-foreground">{businessName}</p>
           </div>
 
-          {verificationResult === 'success' ? (
+          {redemptionState === 'success' ? (
             <div className="flex flex-col items-center justify-center py-4 space-y-3">
               <div className="h-12 w-12 rounded-full bg-green-100 flex items-center justify-center">
                 <CheckCircle className="h-6 w-6 text-green-600" />
@@ -170,80 +197,83 @@ export default function RedemptionDialog({
                 Your deal has been successfully redeemed.
               </p>
             </div>
-          ) : verificationResult === 'error' ? (
+          ) : redemptionState === 'error' ? (
             <div className="flex flex-col items-center justify-center py-4 space-y-3">
               <div className="h-12 w-12 rounded-full bg-red-100 flex items-center justify-center">
                 <XCircle className="h-6 w-6 text-red-600" />
               </div>
-              <h3 className="font-medium text-lg">Verification Failed</h3>
+              <h3 className="font-medium text-lg">Unable to Redeem</h3>
               <p className="text-sm text-center text-red-600">
                 {errorMessage}
               </p>
-              <Button variant="outline" onClick={handleReset}>
+              <Button variant="outline" onClick={requestToken}>
                 Try Again
               </Button>
             </div>
+          ) : redemptionState === 'expired' ? (
+            <div className="flex flex-col items-center justify-center py-4 space-y-3">
+              <div className="h-12 w-12 rounded-full bg-gray-100 flex items-center justify-center">
+                <Clock className="h-6 w-6 text-gray-600" />
+              </div>
+              <h3 className="font-medium text-lg">Code Expired</h3>
+              <p className="text-sm text-center text-muted-foreground">
+                Redemption codes are only valid for a few minutes. Generate a new one when you're ready.
+              </p>
+              <Button variant="outline" onClick={requestToken}>
+                <RefreshCw className="mr-2 h-4 w-4" />
+                Generate New Code
+              </Button>
+            </div>
+          ) : redemptionState === 'issuing' || !redemptionToken ? (
+            <div className="flex flex-col items-center justify-center py-8">
+              <Loader2 className="h-8 w-8 animate-spin text-[#00796B]" />
+              <p className="text-sm text-muted-foreground mt-3">Generating your redemption code...</p>
+            </div>
           ) : (
             <>
-              <div className="space-y-2">
-                <Label htmlFor="redemptionCode">Redemption Code</Label>
-                <div className="flex space-x-2">
-                  <Input
-                    id="redemptionCode"
-                    placeholder="Enter code provided by vendor"
-                    value={redemptionCode}
-                    onChange={(e) => setRedemptionCode(e.target.value)}
-                    className="text-center font-mono text-lg"
-                    maxLength={8}
-                    disabled={isVerifying}
-                    type="text"
-                    inputMode="numeric"
-                    pattern="[0-9]*"
-                  />
+              <div className="flex flex-col items-center space-y-3">
+                <div className="p-3 bg-white rounded-lg border">
+                  <QRCodeSVG value={qrValue} size={192} />
                 </div>
-                {errorMessage && (
-                  <p className="text-sm text-red-600">{errorMessage}</p>
-                )}
+                <p className="font-mono text-2xl font-bold tracking-widest">
+                  {formatShortCode(redemptionToken.shortCode)}
+                </p>
+                <p className="text-sm text-muted-foreground flex items-center">
+                  <Clock className="h-4 w-4 mr-1" />
+                  Expires in {formatCountdown(secondsLeft)}
+                </p>
               </div>
 
+              {redemptionToken.warning && (
+                <div className="flex items-start gap-2 rounded-md border border-amber-200 bg-amber-50 p-3 text-sm text-amber-800">
+                  <AlertTriangle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+                  <p>{redemptionToken.warning}</p>
+                </div>
+              )}
+
               <div className="text-sm space-y-2 text-muted-foreground">
                 <h4 className="font-medium">How to redeem:</h4>
                 <ol className="list-decimal pl-5 space-y-1">
-                  <li>Show the deal to the business staff</li>
-                  <li>Ask for their unique redemption code</li>
-                  <li>Enter the code above to validate</li>
+                  <li>Show this screen to the business staff</li>
+                  <li>They scan the QR code or enter the code shown</li>
+                  <li>This screen confirms once the redemption is recorded</li>
                 </ol>
               </div>
             </>
           )}
         </div>
 
-        {!verificationResult && (
-          <DialogFooter className="flex-col sm:flex-row sm:justify-between">
-            <Button 
-              variant="secondary" 
-              onClick={onClose} 
-              disabled={isVerifying}
+        {(redemptionState === 'ready' || redemptionState === 'issuing') && (
+          <DialogFooter>
+            <Button
+              variant="secondary"
+              onClick={onClose}
             >
               Cancel
             </Button>
-            <Button 
-              onClick={handleVerifyCode}
-              disabled={!redemptionCode.trim() || isVerifying || verificationResult === 'success'}
-              className="bg-[#00796B] hover:bg-[#00695C]"
-            >
-              {isVerifying ? (
-                <>
-                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                  Verifying...
-                </>
-              ) : (
-                'Verify & Redeem'
-              )}
-            </Button>
           </DialogFooter>
         )}
       </DialogContent>
     </Dialog>
   );
-}
\ No newline at end of file
+}
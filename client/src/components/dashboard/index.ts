@@ -1,5 +1,6 @@
 export { default as DealGrid } from './DealGrid';
 export { default as DealMap } from './DealMap';
+export type { MapViewport } from './DealMap';
 export { default as DealDetail } from './DealDetail';
 export { default as FeaturedDeals } from './FeaturedDeals';
 export { default as CategoryFilter, CATEGORIES } from './CategoryFilter';
\ No newline at end of file
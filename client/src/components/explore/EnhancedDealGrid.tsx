@@ -15,7 +15,8 @@ import {
   ArrowUpRight,
   Shuffle,
   ThumbsUp,
-  Sparkles
+  Sparkles,
+  Loader2
 } from 'lucide-react';
 import DealAvailabilityBadge from '@/components/shared/DealAvailabilityBadge';
 import EnhancedDealCard from '@/components/shared/EnhancedDealCard';
@@ -29,6 +30,7 @@ import { apiRequest } from '@/lib/queryClient';
 import CachedDataAlert from '@/components/ui/CachedDataAlert';
 import { motion, AnimatePresence } from 'framer-motion';
 import useWindowSize from '@/hooks/use-window-size';
+import type { SortOption } from './SortOptions';
 
 // Use a looser type for the API response since it may not match the database schema exactly
 interface DealWithBusiness {
@@ -63,8 +65,12 @@ interface EnhancedDealGridProps {
   cacheDate?: string | number | Date;
   onRefresh?: () => void;
   viewMode?: 'grid' | 'large' | 'swipeable';
-  sortBy?: 'trending' | 'newest' | 'endingSoon' | 'popular';
+  sortBy?: SortOption;
   onRandomDeal?: () => void;
+  // Infinite scroll: called when the end of the grid scrolls into view
+  hasNextPage?: boolean;
+  isFetchingNextPage?: boolean;
+  onLoadMore?: () => void;
 }
 
 export default function EnhancedDealGrid({ 
@@ -76,7 +82,10 @@ export default function EnhancedDealGrid({
   onRefresh,
   viewMode = 'grid',
   sortBy = 'trending',
-  onRandomDeal
+  onRandomDeal,
+  hasNextPage = false,
+  isFetchingNextPage = false,
+  onLoadMore
 }: EnhancedDealGridProps) {
 
   // Calculate distance indicator text (would be replaced with actual geo logic)
@@ -179,6 +188,14 @@ export default function EnhancedDealGrid({
         </div>
       )}
       
+      {onLoadMore && viewMode !== 'swipeable' && (
+        <LoadMoreSentinel
+          hasNextPage={hasNextPage}
+          isFetchingNextPage={isFetchingNextPage}
+          onLoadMore={onLoadMore}
+        />
+      )}
+      
       {/* Random deal button */}
       {onRandomDeal && (
         <div className="flex justify-center mt-4 mb-6">
@@ -196,13 +213,38 @@ export default function EnhancedDealGrid({
   );
 }
 
+interface LoadMoreSentinelProps {
+  hasNextPage: boolean;
+  isFetchingNextPage: boolean;
+  onLoadMore: () => void;
+}
+
+// Requests the next page once the bottom of the grid comes into view
+function LoadMoreSentinel({ hasNextPage, isFetchingNextPage, onLoadMore }: LoadMoreSentinelProps) {
+  const { ref, inView } = useInView({ rootMargin: '200px' });
+
+  React.useEffect(() => {
+    if (inView && hasNextPage && !isFetchingNextPage) {
+      onLoadMore();
+    }
+  }, [inView, hasNextPage, isFetchingNextPage, onLoadMore]);
+
+  if (!hasNextPage && !isFetchingNextPage) return null;
+
+  return (
+    <div ref={ref} className="flex justify-center py-6">
+      {isFetchingNextPage && <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />}
+    </div>
+  );
+}
+
 interface DealCardProps {
   deal: DealWithBusiness;
   onSelect: () => void;
   isCached?: boolean;
   isLarge?: boolean;
   distanceText: string;
-  sortType?: 'trending' | 'newest' | 'endingSoon' | 'popular';
+  sortType?: SortOption;
 }
 
 function DealCard({ 
@@ -0,0 +1,89 @@
+import React from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Search, Store, Tag } from 'lucide-react';
+import { fetchWithCSRF } from '@/lib/api';
+import useDebouncedValue from '@/hooks/use-debounced-value';
+
+export interface SearchSuggestion {
+  text: string;
+  type: 'deal' | 'business' | 'category';
+  dealId?: number;
+}
+
+interface SearchSuggestionsProps {
+  query: string;
+  open: boolean;
+  onSelect: (suggestion: SearchSuggestion) => void;
+  className?: string;
+}
+
+const SUGGESTION_ICONS = {
+  deal: Tag,
+  business: Store,
+  category: Search,
+};
+
+async function fetchSuggestions(query: string): Promise<SearchSuggestion[]> {
+  const params = new URLSearchParams({ q: query });
+  const response = await fetchWithCSRF(`/api/v1/search/suggest?${params.toString()}`, { method: 'GET' });
+  if (!response.ok) {
+    throw new Error(`Failed to load suggestions (${response.status})`);
+  }
+
+  const data = await response.json();
+  return Array.isArray(data.suggestions) ? data.suggestions : [];
+}
+
+/**
+ * Type-ahead dropdown for the explore search box
+ * Renders below its positioned parent while the input has focus
+ */
+export default function SearchSuggestions({
+  query,
+  open,
+  onSelect,
+  className = ''
+}: SearchSuggestionsProps) {
+  const debouncedQuery = useDebouncedValue(query.trim(), 200);
+
+  const { data: suggestions = [] } = useQuery({
+    queryKey: ['/api/v1/search/suggest', debouncedQuery],
+    queryFn: () => fetchSuggestions(debouncedQuery),
+    enabled: open && debouncedQuery.length > 0,
+    staleTime: 30 * 1000,
+  });
+
+  if (!open || !debouncedQuery || suggestions.length === 0) {
+    return null;
+  }
+
+  return (
+    <ul
+      role="listbox"
+      className={`absolute left-0 right-0 top-full mt-1 z-50 rounded-md border bg-popover py-1 shadow-md ${className}`}
+    >
+      {suggestions.map((suggestion) => {
+        const Icon = SUGGESTION_ICONS[suggestion.type];
+        return (
+          <li key={`${suggestion.type}-${suggestion.dealId ?? suggestion.text}`} role="option" aria-selected={false}>
+            <button
+              type="button"
+              className="flex w-full items-center gap-2 px-3 py-2 text-left text-sm hover:bg-muted"
+              // Select on mouse down so the input's blur doesn't close the list first
+              onMouseDown={(e) => {
+                e.preventDefault();
+                onSelect(suggestion);
+              }}
+            >
+              <Icon className="h-4 w-4 flex-shrink-0 text-[#00796B]" />
+              <span className="truncate">{suggestion.text}</span>
+              {suggestion.type !== 'deal' && (
+                <span className="ml-auto text-xs capitalize text-muted-foreground">{suggestion.type}</span>
+              )}
+            </button>
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
@@ -4,6 +4,8 @@ import {
   Calendar, 
   Clock, 
   ThumbsUp, 
+  Percent,
+  MapPin,
   ArrowUpDown
 } from 'lucide-react';
 import useWindowSize from '@/hooks/use-window-size';
@@ -22,24 +24,33 @@ import {
   TabsTrigger,
 } from "@/components/ui/tabs";
 
-export type SortOption = 'trending' | 'newest' | 'endingSoon' | 'popular';
+export type SortOption = 'trending' | 'newest' | 'endingSoon' | 'popular' | 'highestDiscount' | 'distance';
 
 interface SortOptionsProps {
   selectedSort: SortOption;
   onChange: (sortOption: SortOption) => void;
   variant?: 'tabs' | 'select' | 'buttons';
   className?: string;
+  // Offer nearest first, for when the user's location is known
+  showNearest?: boolean;
 }
 
 export default function SortOptions({ 
   selectedSort, 
   onChange, 
   variant = 'tabs',
-  className = ''
+  className = '',
+  showNearest = false
 }: SortOptionsProps) {
   
   // Common sort options data
   const sortOptions = [
+    ...(showNearest ? [{
+      id: 'distance' as SortOption,
+      label: 'Nearest',
+      icon: <MapPin className="h-4 w-4" />,
+      description: 'Closest deals first'
+    }] : []),
     { 
       id: 'trending' as SortOption, 
       label: 'Trending Now', 
@@ -63,6 +74,12 @@ export default function SortOptions({
       label: 'Most Popular', 
       icon: <ThumbsUp className="h-4 w-4" />,
       description: 'Highest redemption rates'
+    },
+    { 
+      id: 'highestDiscount' as SortOption, 
+      label: 'Top Discounts', 
+      icon: <Percent className="h-4 w-4" />,
+      description: 'Biggest savings first'
     }
   ];
   
@@ -81,7 +98,7 @@ export default function SortOptions({
           onValueChange={(value) => onChange(value as SortOption)}
           className="w-full"
         >
-          <TabsList className="w-full grid grid-cols-4 h-12 sm:h-11">
+          <TabsList className={`w-full grid ${showNearest ? 'grid-cols-6' : 'grid-cols-5'} h-12 sm:h-11`}>
             {sortOptions.map(option => (
               <TabsTrigger 
                 key={option.id} 
@@ -5,7 +5,9 @@ export { default as MoodFilters } from './MoodFilters';
 export { default as SortOptions } from './SortOptions';
 export { default as SurpriseDeals } from './SurpriseDeals';
 export { default as FeaturedDeals } from './FeaturedDeals';
+export { default as SearchSuggestions } from './SearchSuggestions';
 
 // Re-export types
 export type { SortOption } from './SortOptions';
-export type { MoodFilter } from './MoodFilters';
\ No newline at end of file
+export type { MoodFilter } from './MoodFilters';
+export type { SearchSuggestion } from './SearchSuggestions';
\ No newline at end of file
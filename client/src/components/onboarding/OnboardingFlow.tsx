@@ -77,7 +77,9 @@ export default function OnboardingFlow({
     location: {
       enableLocationServices: false,
       radius: 10, // Miles
-      savedLocations: []
+      savedLocations: [],
+      // Where the user is when they turn on location services; ranks the weekly digest by distance
+      homeLocation: null as { latitude: number; longitude: number } | null
     },
     // Notification preferences
     notifications: {
@@ -194,13 +196,31 @@ interface Hours { open: string; close: string; closed: boolean }
   const handleLocationChange = (key: string, value: any) => {
     resetSessionTimeout(); // Reset the inactivity timer
     
-    setIndividualPreferences({
+    const updated = {
       ...individualPreferences,
       location: {
         ...individualPreferences.location,
         [key]: value
       }
-    });
+    };
+    setIndividualPreferences(updated);
+    
+    // Remember the current position as home when location services are turned on
+    if (key === 'enableLocationServices' && value && 'geolocation' in navigator) {
+      navigator.geolocation.getCurrentPosition(
+        (position) => {
+          setIndividualPreferences({
+            ...updated,
+            location: {
+              ...updated.location,
+              homeLocation: { latitude: position.coords.latitude, longitude: position.coords.longitude }
+            }
+          });
+        },
+        (error) => console.warn('Could not get location for home:', error.message),
+        { timeout: 10000, maximumAge: 5 * 60 * 1000 }
+      );
+    }
   };
   
   // Handle offerings toggle for business preferences
@@ -0,0 +1,108 @@
+import React from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { LogOut, Monitor, Smartphone } from 'lucide-react';
+import { deviceName, type SessionSummary } from '@shared/sessions';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/hooks/use-toast';
+import { useSessionActions, useSessions } from '@/hooks/use-sessions';
+
+const MOBILE_OS = ['iOS', 'Android'];
+
+export function lastActive(session: Pick<SessionSummary, 'lastUsedAt'>): string {
+  return `Last active ${formatDistanceToNow(new Date(session.lastUsedAt), { addSuffix: true })}`;
+}
+
+interface ActiveDevicesProps {
+  userId: number;
+}
+
+/**
+ * The profile page's Devices section: where the user is signed in, with
+ * sign-out for each device and for all the others at once
+ */
+export default function ActiveDevices({ userId }: ActiveDevicesProps) {
+  const { toast } = useToast();
+  const { data, isLoading } = useSessions(userId);
+  const actions = useSessionActions(userId);
+
+  const sessions = data?.sessions ?? [];
+  const otherSessions = sessions.filter(session => !session.current);
+
+  const showError = (error: unknown, fallback: string) => toast({
+    title: 'Error',
+    description: error instanceof Error ? error.message : fallback,
+    variant: 'destructive',
+  });
+
+  const handleRevoke = (session: SessionSummary) => {
+    actions.revoke.mutate(session.id, {
+      onSuccess: () => toast({ title: 'Device signed out', description: `${deviceName(session)} will need to sign in again.` }),
+      onError: (error) => showError(error, 'Failed to sign out the device. Please try again.'),
+    });
+  };
+
+  const handleRevokeOthers = () => {
+    actions.revokeOthers.mutate(undefined, {
+      onSuccess: (result) => toast({ title: 'Other devices signed out', description: result.message }),
+      onError: (error) => showError(error, 'Failed to sign out your other devices. Please try again.'),
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Monitor className="h-5 w-5" />
+          Devices
+        </CardTitle>
+        <CardDescription>Where you're signed in. Sign out any device you don't recognize.</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+          </div>
+        ) : sessions.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No signed-in devices</p>
+        ) : (
+          <ul className="divide-y">
+            {sessions.map(session => {
+              const DeviceIcon = MOBILE_OS.includes(session.os) ? Smartphone : Monitor;
+              return (
+                <li key={session.id} className="flex items-center justify-between gap-3 py-3">
+                  <div className="flex items-center gap-3 min-w-0">
+                    <DeviceIcon className="h-5 w-5 shrink-0 text-muted-foreground" />
+                    <div className="min-w-0">
+                      <p className="font-medium truncate">
+                        {deviceName(session)}
+                        {session.current && <Badge variant="secondary" className="ml-2">This device</Badge>}
+                      </p>
+                      <p className="text-sm text-muted-foreground truncate">
+                        {session.current ? 'Active now' : lastActive(session)}
+                        {session.ipAddress && ` · ${session.ipAddress}`}
+                      </p>
+                    </div>
+                  </div>
+                  {!session.current && (
+                    <Button variant="ghost" size="sm" onClick={() => handleRevoke(session)} disabled={actions.revoke.isPending}>
+                      Sign out
+                    </Button>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+
+        {otherSessions.length > 0 && (
+          <Button variant="outline" className="mt-4" onClick={handleRevokeOthers} disabled={actions.revokeOthers.isPending}>
+            <LogOut className="h-4 w-4 mr-2" />
+            {actions.revokeOthers.isPending ? 'Signing out...' : 'Sign Out Other Devices'}
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
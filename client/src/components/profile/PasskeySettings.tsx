@@ -0,0 +1,153 @@
+import React, { useState } from 'react';
+import { format } from 'date-fns';
+import { Fingerprint, Pencil, Trash2 } from 'lucide-react';
+import { PASSKEY_NAME_MAX_LENGTH, type PasskeySummary } from '@shared/passkeys';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { useToast } from '@/hooks/use-toast';
+import { usePasskeyActions, usePasskeys } from '@/hooks/use-passkeys';
+import { isPasskeyCancelled, isPasskeySupported } from '@/lib/passkeys';
+
+interface PasskeySettingsProps {
+  userId: number;
+}
+
+/**
+ * The profile page's passkey section: add a passkey on this device, and
+ * rename or remove the ones already registered
+ */
+export default function PasskeySettings({ userId }: PasskeySettingsProps) {
+  const { toast } = useToast();
+  const { data: passkeys, isLoading } = usePasskeys(userId);
+  const actions = usePasskeyActions(userId);
+
+  // The passkey whose name is being edited
+  const [editing, setEditing] = useState<{ id: number; name: string } | null>(null);
+
+  const showError = (error: unknown, fallback: string) => toast({
+    title: 'Error',
+    description: error instanceof Error ? error.message : fallback,
+    variant: 'destructive',
+  });
+
+  const handleAdd = () => {
+    actions.add.mutate(undefined, {
+      onSuccess: (passkey) => toast({ title: 'Passkey added', description: `You can now sign in with "${passkey.name}".` }),
+      onError: (error) => {
+        if (!isPasskeyCancelled(error)) {
+          showError(error, 'Failed to add the passkey. Please try again.');
+        }
+      },
+    });
+  };
+
+  const handleRename = () => {
+    if (!editing) return;
+    actions.rename.mutate(editing, {
+      onSuccess: () => setEditing(null),
+      onError: (error) => showError(error, 'Failed to rename the passkey. Please try again.'),
+    });
+  };
+
+  const handleRemove = (passkey: PasskeySummary) => {
+    actions.remove.mutate(passkey.id, {
+      onSuccess: () => toast({ title: 'Passkey removed', description: `"${passkey.name}" can no longer sign in.` }),
+      onError: (error) => showError(error, 'Failed to remove the passkey. Please try again.'),
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Fingerprint className="h-5 w-5" />
+          Passkeys
+        </CardTitle>
+        <CardDescription>
+          Sign in with your fingerprint, face or screen lock instead of typing your password.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+          </div>
+        ) : passkeys && passkeys.length > 0 ? (
+          <ul className="divide-y rounded-lg border">
+            {passkeys.map(passkey => (
+              <li key={passkey.id} className="flex items-center justify-between gap-3 p-3">
+                {editing?.id === passkey.id ? (
+                  <form
+                    className="flex flex-1 gap-2"
+                    onSubmit={(event) => {
+                      event.preventDefault();
+                      handleRename();
+                    }}
+                  >
+                    <Input
+                      value={editing.name}
+                      onChange={(event) => setEditing({ ...editing, name: event.target.value })}
+                      maxLength={PASSKEY_NAME_MAX_LENGTH}
+                      autoFocus
+                    />
+                    <Button type="submit" size="sm" disabled={actions.rename.isPending || !editing.name.trim()}>
+                      Save
+                    </Button>
+                    <Button type="button" size="sm" variant="ghost" onClick={() => setEditing(null)}>
+                      Cancel
+                    </Button>
+                  </form>
+                ) : (
+                  <>
+                    <div className="min-w-0">
+                      <div className="flex items-center gap-2 font-medium">
+                        <span className="truncate">{passkey.name}</span>
+                        {passkey.backedUp && <Badge variant="secondary">Synced</Badge>}
+                      </div>
+                      <p className="text-sm text-muted-foreground">
+                        Added {format(new Date(passkey.createdAt), 'MMM d, yyyy')}
+                        {passkey.lastUsedAt && ` · Last used ${format(new Date(passkey.lastUsedAt), 'MMM d, yyyy')}`}
+                      </p>
+                    </div>
+                    <div className="flex shrink-0 gap-1">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        aria-label={`Rename ${passkey.name}`}
+                        onClick={() => setEditing({ id: passkey.id, name: passkey.name })}
+                      >
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        aria-label={`Remove ${passkey.name}`}
+                        onClick={() => handleRemove(passkey)}
+                        disabled={actions.remove.isPending}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </>
+                )}
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-sm text-muted-foreground">You haven't added any passkeys yet.</p>
+        )}
+
+        {isPasskeySupported() ? (
+          <Button onClick={handleAdd} disabled={actions.add.isPending}>
+            <Fingerprint className="h-4 w-4 mr-2" />
+            {actions.add.isPending ? 'Waiting for your device...' : 'Add a Passkey'}
+          </Button>
+        ) : (
+          <p className="text-sm text-muted-foreground">This browser doesn't support passkeys.</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
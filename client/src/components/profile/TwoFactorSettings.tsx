@@ -0,0 +1,174 @@
+import React, { useState } from 'react';
+import { format } from 'date-fns';
+import { KeyRound, ShieldCheck } from 'lucide-react';
+import { canUseTwoFactor, TOTP_DIGITS } from '@shared/twoFactor';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { useToast } from '@/hooks/use-toast';
+import { useTwoFactorActions, useTwoFactorStatus } from '@/hooks/use-two-factor';
+import { RecoveryCodes, TotpCodeInput, TwoFactorQrCode } from '@/components/auth/TwoFactorFields';
+
+interface TwoFactorSettingsProps {
+  userId: number;
+  userType: string | undefined;
+}
+
+// What the card is in the middle of; each asks for a code before going ahead
+type Mode = 'idle' | 'setup' | 'regenerate' | 'disable';
+
+/**
+ * The profile page's two-factor section for business and admin accounts:
+ * set up an authenticator app, replace recovery codes, or turn it off
+ */
+export default function TwoFactorSettings({ userId, userType }: TwoFactorSettingsProps) {
+  const { toast } = useToast();
+  const available = canUseTwoFactor(userType);
+  const { data: status, isLoading } = useTwoFactorStatus(available ? userId : undefined);
+  const actions = useTwoFactorActions(userId);
+
+  const [mode, setMode] = useState<Mode>('idle');
+  const [code, setCode] = useState('');
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+
+  if (!available) return null;
+
+  const showError = (error: unknown, fallback: string) => toast({
+    title: 'Error',
+    description: error instanceof Error ? error.message : fallback,
+    variant: 'destructive',
+  });
+
+  const reset = () => {
+    setMode('idle');
+    setCode('');
+    actions.startSetup.reset();
+  };
+
+  const handleStartSetup = () => {
+    setMode('setup');
+    actions.startSetup.mutate(undefined, {
+      onError: (error) => {
+        reset();
+        showError(error, 'Failed to start two-factor setup. Please try again.');
+      },
+    });
+  };
+
+  const handleSubmitCode = () => {
+    const onCodes = (result: { recoveryCodes: string[] }) => {
+      setRecoveryCodes(result.recoveryCodes);
+      reset();
+    };
+    const onError = (error: unknown) => {
+      setCode('');
+      showError(error, 'That code didn\'t work. Please try again.');
+    };
+
+    if (mode === 'setup') {
+      actions.confirm.mutate(code, { onSuccess: onCodes, onError });
+    } else if (mode === 'regenerate') {
+      actions.regenerateRecoveryCodes.mutate(code, { onSuccess: onCodes, onError });
+    } else if (mode === 'disable') {
+      actions.disable.mutate(code, {
+        onSuccess: () => {
+          reset();
+          toast({ title: 'Two-factor authentication is off' });
+        },
+        onError,
+      });
+    }
+  };
+
+  const isPending = actions.confirm.isPending || actions.regenerateRecoveryCodes.isPending || actions.disable.isPending;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ShieldCheck className="h-5 w-5" />
+          Two-Factor Authentication
+          {status?.enabled && <Badge variant="secondary">On</Badge>}
+        </CardTitle>
+        <CardDescription>
+          {status?.required
+            ? 'Admin accounts sign in with a code from an authenticator app as well as their password.'
+            : 'Protect your account with a code from an authenticator app as well as your password.'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+          </div>
+        ) : recoveryCodes ? (
+          <>
+            <RecoveryCodes codes={recoveryCodes} />
+            <Button onClick={() => setRecoveryCodes(null)}>Done</Button>
+          </>
+        ) : mode !== 'idle' ? (
+          <form
+            className="space-y-4"
+            onSubmit={(event) => {
+              event.preventDefault();
+              handleSubmitCode();
+            }}
+          >
+            {mode === 'setup' && (actions.startSetup.data
+              ? <TwoFactorQrCode setup={actions.startSetup.data} />
+              : <p className="text-sm text-muted-foreground">Preparing your setup key...</p>)}
+            <p className="text-sm text-muted-foreground">
+              {mode === 'setup'
+                ? `Enter the ${TOTP_DIGITS}-digit code your app shows to finish.`
+                : `Enter a code from your authenticator app${mode === 'regenerate' ? '' : ' or a recovery code'} to confirm.`}
+            </p>
+            {mode === 'disable' ? (
+              <Input
+                value={code}
+                onChange={(event) => setCode(event.target.value)}
+                placeholder="123456 or xxxxx-xxxxx"
+                autoComplete="one-time-code"
+                autoFocus
+                className="max-w-xs font-mono"
+              />
+            ) : (
+              <TotpCodeInput value={code} onChange={setCode} disabled={isPending} />
+            )}
+            <div className="flex gap-2">
+              <Button type="submit" disabled={isPending || code.length < TOTP_DIGITS || (mode === 'setup' && !actions.startSetup.data)}>
+                {isPending ? 'Checking...' : mode === 'disable' ? 'Turn Off' : 'Confirm'}
+              </Button>
+              <Button type="button" variant="ghost" onClick={reset} disabled={isPending}>
+                Cancel
+              </Button>
+            </div>
+          </form>
+        ) : status?.enabled ? (
+          <>
+            <p className="text-sm text-muted-foreground">
+              {status.enabledAt && `On since ${format(new Date(status.enabledAt), 'MMM d, yyyy')}. `}
+              {status.recoveryCodesLeft} recovery code{status.recoveryCodesLeft === 1 ? '' : 's'} left.
+            </p>
+            <div className="flex flex-wrap gap-2">
+              <Button variant="outline" onClick={() => setMode('regenerate')}>
+                <KeyRound className="h-4 w-4 mr-2" />
+                New Recovery Codes
+              </Button>
+              {!status.required && (
+                <Button variant="outline" onClick={() => setMode('disable')}>
+                  Turn Off
+                </Button>
+              )}
+            </div>
+          </>
+        ) : (
+          <Button onClick={handleStartSetup}>
+            <ShieldCheck className="h-4 w-4 mr-2" />
+            Set Up Two-Factor
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -2,6 +2,7 @@ import React from 'react';
 import { Badge } from '@/components/ui/badge';
 import { Calendar, Clock, CalendarDays, CheckCircle } from 'lucide-react';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
+import { DAY_NAMES, formatTimeOfDay, type ScheduleWindowTimes, type NextScheduleWindow } from '@shared/dealSchedule';
 
 export interface DealAvailability {
   isAvailableToday: boolean;
@@ -9,6 +10,40 @@ export interface DealAvailability {
   nextAvailableDayName?: string | null;
   availableDays?: number[];
   availableDayNames?: string[];
+  // Set for deals with time windows, see getScheduleAvailability
+  isAvailableNow?: boolean;
+  todayWindows?: ScheduleWindowTimes[];
+  currentWindow?: ScheduleWindowTimes | null;
+  nextWindow?: NextScheduleWindow | null;
+  timezone?: string;
+}
+
+const isAllDay = (window: ScheduleWindowTimes) => window.start === '00:00' && window.end === '24:00';
+
+const formatWindow = (window: ScheduleWindowTimes) =>
+  isAllDay(window) ? 'All day' : `${formatTimeOfDay(window.start)} - ${formatTimeOfDay(window.end)}`;
+
+/**
+ * Short badge text, most specific first: the current window, a window later
+ * today, then the next day the deal is available
+ */
+function getAvailabilityText(availability: DealAvailability): string {
+  const { isAvailableToday, isAvailableNow, currentWindow, nextWindow, nextAvailableDayName } = availability;
+
+  if (currentWindow && !isAllDay(currentWindow)) {
+    return `Available until ${formatTimeOfDay(currentWindow.end)}`;
+  }
+  if (isAvailableNow || (isAvailableToday && isAvailableNow === undefined)) {
+    return 'Available Today';
+  }
+  if (nextWindow?.daysAway === 0) {
+    return `Today from ${formatTimeOfDay(nextWindow.start)}`;
+  }
+  if (nextWindow) {
+    const day = DAY_NAMES[nextWindow.day];
+    return isAllDay(nextWindow) ? `Next: ${day}` : `Next: ${day.substring(0, 3)} ${formatTimeOfDay(nextWindow.start)}`;
+  }
+  return nextAvailableDayName ? `Next: ${nextAvailableDayName}` : 'Not Available Today';
 }
 
 interface DealAvailabilityBadgeProps {
@@ -26,21 +61,18 @@ const DealAvailabilityBadge: React.FC<DealAvailabilityBadgeProps> = ({
   availability,
   variant = 'default'
 }) => {
-  if (!isRecurring || !availability) return null;
+  if (!availability) return null;
 
-  const { isAvailableToday, nextAvailableDayName, availableDayNames = [] } = availability;
+  const { isAvailableToday, availableDayNames = [], todayWindows = [] } = availability;
+  // Deals with time windows are only "available" while a window is open
+  const isAvailable = availability.isAvailableNow ?? isAvailableToday;
   
-  // Enhanced text format
-  const availabilityText = isAvailableToday 
-    ? 'Available Today' 
-    : nextAvailableDayName 
-      ? `Next: ${nextAvailableDayName}` 
-      : 'Not Available Today';
+  const availabilityText = getAvailabilityText(availability);
 
   // More prominent styling for availability
   const badgeStyle = variant === 'featured' 
     ? 'bg-[#00796B] hover:bg-[#00796B]/90 text-white' 
-    : isAvailableToday 
+    : isAvailable 
       ? 'bg-green-100 text-green-800 hover:bg-green-200 border-green-200' 
       : 'bg-amber-100 text-amber-800 hover:bg-amber-200 border-amber-200';
 
@@ -60,7 +92,7 @@ const DealAvailabilityBadge: React.FC<DealAvailabilityBadgeProps> = ({
               className={`flex items-center gap-1.5 ${badgeStyle} py-1 px-2`}
               variant="outline"
             >
-              {isAvailableToday 
+              {isAvailable 
                 ? <CheckCircle className="h-3.5 w-3.5" /> 
                 : variant === 'detail' 
                   ? <CalendarDays className="h-3.5 w-3.5" />
@@ -71,15 +103,24 @@ const DealAvailabilityBadge: React.FC<DealAvailabilityBadgeProps> = ({
           </TooltipTrigger>
           <TooltipContent side="bottom" className="p-3">
             <div className="space-y-1.5">
-              <p className="font-medium">Recurring Deal</p>
+              <p className="font-medium">{isRecurring ? 'Recurring Deal' : 'Limited Availability'}</p>
               <div className="flex items-center gap-1.5">
                 <CalendarDays className="h-4 w-4 text-primary" />
                 <p className="text-sm">Available on: {availableDayNames.join(', ')}</p>
               </div>
-              {isAvailableToday && (
+              {todayWindows.some(window => !isAllDay(window)) && (
+                <div className="flex items-center gap-1.5">
+                  <Clock className="h-4 w-4 text-primary" />
+                  <p className="text-sm">
+                    Today: {todayWindows.map(formatWindow).join(', ')}
+                    {availability.timezone && ` (${availability.timezone})`}
+                  </p>
+                </div>
+              )}
+              {isAvailable && (
                 <div className="flex items-center gap-1.5 text-green-600">
                   <CheckCircle className="h-4 w-4" />
-                  <p className="text-sm font-medium">Available today!</p>
+                  <p className="text-sm font-medium">{availability.isAvailableNow ? 'Available now!' : 'Available today!'}</p>
                 </div>
               )}
             </div>
@@ -20,6 +20,7 @@ import { useAuth } from '@/contexts/AuthContext';
 import { useToast } from '@/hooks/use-toast';
 import { apiRequest } from '@/lib/queryClient';
 import DealAvailabilityBadge from '@/components/shared/DealAvailabilityBadge';
+import { describeOpenStatus, type OpenStatus } from '@shared/businessHours';
 
 // Interface for deal with business data
 interface DealWithBusiness {
@@ -48,6 +49,8 @@ interface DealWithBusiness {
     availableDays?: number[];
     availableDayNames?: string[];
   };
+  // Whether the business is open now; null when it hasn't set its hours
+  openStatus?: OpenStatus | null;
   redemptionCount?: number;
   viewCount?: number;
   featured?: boolean;
@@ -226,6 +229,14 @@ const EnhancedDealCard: React.FC<EnhancedDealCardProps> = ({
             </span>
           </div>
           
+          {/* Business opening hours indicator */}
+          {deal.openStatus && (
+            <div className={`flex items-center text-xs ${deal.openStatus.isOpen ? 'text-green-700' : 'text-muted-foreground'}`}>
+              <Clock className="h-3 w-3 mr-1.5" />
+              <span>{describeOpenStatus(deal.openStatus)}</span>
+            </div>
+          )}
+          
           {/* Recurring deal days indicator - new addition */}
           {isRecurring && recurringDaysText && (
             <div className="flex items-center text-xs text-muted-foreground">
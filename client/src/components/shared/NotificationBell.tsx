@@ -0,0 +1,134 @@
+import React, { useState } from 'react';
+import { useLocation } from 'wouter';
+import { formatDistanceToNow } from 'date-fns';
+import { Bell, X } from 'lucide-react';
+import type { Notification } from '@shared/schema';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger
+} from '@/components/ui/popover';
+import { useAuth } from '@/contexts/AuthContext';
+import {
+  useNotifications,
+  useMarkNotificationRead,
+  useMarkAllNotificationsRead,
+  useDeleteNotification
+} from '@/hooks/use-notifications';
+
+/**
+ * Bell with an unread badge and the user's notification inbox
+ * Used by MainLayout (customers and vendors) and AdminLayout
+ */
+export default function NotificationBell() {
+  const [, navigate] = useLocation();
+  const { user } = useAuth();
+  const [open, setOpen] = useState(false);
+
+  const { data } = useNotifications(!!user);
+  const markRead = useMarkNotificationRead();
+  const markAllRead = useMarkAllNotificationsRead();
+  const deleteNotification = useDeleteNotification();
+
+  const notifications = data?.notifications ?? [];
+  const unreadCount = data?.unreadCount ?? 0;
+
+  const handleSelect = (notification: Notification) => {
+    if (!notification.readAt) {
+      markRead.mutate(notification.id);
+    }
+    if (notification.url) {
+      setOpen(false);
+      navigate(notification.url);
+    }
+  };
+
+  const handleDelete = (event: React.MouseEvent, notification: Notification) => {
+    event.stopPropagation();
+    deleteNotification.mutate(notification.id);
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          size="icon"
+          aria-label={unreadCount > 0 ? `Show notifications (${unreadCount} unread)` : 'Show notifications'}
+          className="relative"
+        >
+          <Bell className="h-5 w-5" />
+          {unreadCount > 0 && (
+            <Badge
+              className="absolute -top-1 -right-1 h-4 min-w-4 px-1 flex items-center justify-center text-[10px]"
+              variant="destructive"
+            >
+              {unreadCount > 99 ? '99+' : unreadCount}
+            </Badge>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent
+        className="w-80 p-0 z-[9999]"
+        sideOffset={5}
+        alignOffset={-5}
+        align="end"
+      >
+        <div className="p-2 font-medium border-b">
+          Notifications
+        </div>
+        <div className="max-h-[300px] overflow-y-auto">
+          {notifications.length > 0 ? (
+            <div className="divide-y">
+              {notifications.map(notification => (
+                <div
+                  key={notification.id}
+                  role="button"
+                  tabIndex={0}
+                  onClick={() => handleSelect(notification)}
+                  onKeyDown={(event) => event.key === 'Enter' && handleSelect(notification)}
+                  className={`group flex gap-2 p-3 text-sm cursor-pointer hover:bg-muted ${notification.readAt ? 'opacity-70' : 'bg-muted/50'}`}
+                >
+                  <div className="flex-1 min-w-0">
+                    <div className="font-medium">{notification.title}</div>
+                    <div className="text-muted-foreground">{notification.body}</div>
+                    <div className="text-xs text-muted-foreground mt-1">
+                      {formatDistanceToNow(new Date(notification.createdAt), { addSuffix: true })}
+                    </div>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-6 w-6 shrink-0 opacity-0 group-hover:opacity-100 focus:opacity-100"
+                    aria-label="Delete notification"
+                    onClick={(event) => handleDelete(event, notification)}
+                  >
+                    <X className="h-3.5 w-3.5" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <div className="p-4 text-center text-muted-foreground">
+              No notifications
+            </div>
+          )}
+        </div>
+        {unreadCount > 0 && (
+          <div className="p-2 border-t">
+            <Button
+              variant="ghost"
+              size="sm"
+              className="w-full text-xs"
+              onClick={() => markAllRead.mutate()}
+            >
+              Mark all as read
+            </Button>
+          </div>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -4,6 +4,9 @@ import { apiRequest } from '@/lib/queryClient';
 import { apiPost, resetCSRFToken, fetchWithCSRF } from '@/lib/api';
 import { handleError, ErrorCategory } from '@/lib/errorHandling';
 import { getCurrentUserId, getCurrentUserType, saveUserData, clearUserData } from '@/utils/userUtils';
+import { isTwoFactorChallenge, type TwoFactorChallenge } from '@shared/twoFactor';
+import type { PasskeyAuthenticationOptions } from '@shared/passkeys';
+import { getPasskey } from '@/lib/passkeys';
 
 // Cookie-based authentication
 // Since we're using secure HTTP-only cookies, we only need to keep track of auth status client-side
@@ -46,7 +49,14 @@ interface AuthContextType {
   user: User | null;
   isLoading: boolean;
   error: string | null;
-  login: (email: string, password: string, rememberMe?: boolean) => Promise<void>;
+  // Resolves with a challenge when the account still needs a two-factor code
+  login: (email: string, password: string, rememberMe?: boolean) => Promise<TwoFactorChallenge | void>;
+  // The code step; resolves with new recovery codes when it finished an enrolment
+  completeTwoFactorLogin: (challengeToken: string, code: string, email: string) => Promise<LoginResponse>;
+  // Sign in with a passkey the browser offers; no email or password needed
+  loginWithPasskey: (rememberMe?: boolean) => Promise<void>;
+  // Sign in with an accepted login response; used after showing recovery codes
+  finishLogin: (response: LoginResponse, email: string) => Promise<void>;
   logout: () => Promise<void>;
   refreshToken: () => Promise<boolean>;
   isAuthenticated: boolean;
@@ -58,6 +68,15 @@ interface AuthContextType {
   getAppropriateRedirectPath: (user: User | null, currentPath: string) => string;
 }
 
+export interface LoginResponse {
+  message: string;
+  userId: number;
+  userType: string;
+  recoveryCodes?: string[];
+  // Passkey sign-ins, where the form never asked for it
+  email?: string;
+}
+
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
 /**
@@ -519,6 +538,141 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     checkAuthStatus();
   }, [silentRefresh]);
 
+  /**
+   * Save the signed-in user, load their data and redirect to their home page
+   */
+  const finishLogin = async (response: LoginResponse, email: string) => {
+    const timestamp = new Date().toISOString().split('T')[1].split('.')[0];
+    setIsRedirecting(true);
+    
+    console.log(`[${timestamp}] Login successful, user ID: ${response.userId}, type: ${response.userType}`);
+    
+    // Store user ID and type in localStorage for client-side reference
+    // The actual authentication token is in a secure HTTP-only cookie
+    saveUserData(response.userId.toString(), response.userType);
+    
+    // Add a short delay to allow cookie processing
+    await new Promise(resolve => setTimeout(resolve, 300));
+    
+    // Fetch complete user data
+    console.log(`[${timestamp}] Fetching complete user data...`);
+    try {
+      const userData = await apiRequest(`/api/v1/user/${response.userId}`);
+      console.log(`[${timestamp}] User data received:`, userData ? 'Successfully' : 'Failed');
+      
+      // Update authentication state before setting user data to prevent UI flashing
+      setAuthState('authenticated');
+      setUser(userData);
+      
+      // Start token refresh timer - in case the user stays logged in for a long time
+      if (isMountedRef.current) {
+        // Schedule refresh for 5 minutes before token expiry
+        refreshTimerRef.current = window.setTimeout(() => {
+          silentRefresh();
+        }, 55 * 60 * 1000); // 55 minutes
+        
+        console.log(`[${timestamp}] Token refresh timer scheduled after login`);
+      }
+    } catch (userDataErr) {
+      console.error(`[${timestamp}] Error fetching user data:`, userDataErr);
+      // Still mark as authenticated even if we couldn't fetch complete user data
+      // We can retry fetching user data later
+      setAuthState('authenticated');
+      
+      // Set minimal user data from login response
+      setUser({
+        id: response.userId,
+        userType: response.userType as any,
+        email,
+        firstName: '',
+        lastName: '',
+        username: '',
+        phone: '',
+        address: '',
+        created_at: new Date().toISOString()
+      });
+    }
+
+    // Add a small delay before redirect to ensure all state updates have propagated
+    console.log(`[${timestamp}] Preparing redirection after login...`);
+    
+    // Determine appropriate redirect path
+    const currentPath = window.location.pathname;
+    let targetPath = '/';
+    
+    if (response.userType === 'admin') {
+      targetPath = '/admin';
+    } else if (response.userType === 'business') {
+      targetPath = '/vendor';
+    }
+    
+    // Set redirect path and state
+    console.log(`[${timestamp}] Setting redirect path to ${targetPath}`);
+    setRedirectPath(targetPath);
+    setAuthState('redirecting');
+    
+    // Use setTimeout to add a meaningful delay before redirecting to prevent rapid state changes
+    setTimeout(() => {
+      if (isMountedRef.current) {
+        console.log(`[${timestamp}] Executing redirect to ${targetPath}`);
+        setLocation(targetPath);
+        
+        // Reset redirection flag after redirect is complete with longer delay
+        setTimeout(() => {
+          setAuthState('authenticated');
+          setIsRedirecting(false);
+          console.log(`[${timestamp}] Redirection completed, returning to authenticated state`);
+        }, 500);
+      }
+    }, 300);
+  };
+
+  const completeTwoFactorLogin = async (challengeToken: string, code: string, email: string): Promise<LoginResponse> => {
+    const timestamp = new Date().toISOString().split('T')[1].split('.')[0];
+    try {
+      setIsLoading(true);
+      setError(null);
+      setAuthState('authenticating');
+      
+      const response = await apiPost('/api/v1/auth/login/two-factor', { challengeToken, code }) as LoginResponse;
+      
+      // Recovery codes from an enrolment are shown before moving on; the form calls finishLogin
+      if (!response.recoveryCodes) {
+        await finishLogin(response, email.toLowerCase());
+      }
+      return response;
+    } catch (err) {
+      console.error(`[${timestamp}] Two-factor login error:`, err);
+      setAuthState('unauthenticated');
+      setIsRedirecting(false);
+      throw err;
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const loginWithPasskey = async (rememberMe = false) => {
+    const timestamp = new Date().toISOString().split('T')[1].split('.')[0];
+    try {
+      setIsLoading(true);
+      setError(null);
+      setAuthState('authenticating');
+      
+      const options = await apiPost('/api/v1/auth/login/passkey/options', {}) as PasskeyAuthenticationOptions;
+      const credential = await getPasskey(options);
+      const response = await apiPost('/api/v1/auth/login/passkey', { credential, rememberMe }) as LoginResponse;
+      
+      await finishLogin(response, response.email ?? '');
+    } catch (err) {
+      console.error(`[${timestamp}] Passkey login error:`, err);
+      setAuthState('unauthenticated');
+      setIsRedirecting(false);
+      throw err;
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
   const login = async (email: string, password: string, rememberMe = false) => {
     const timestamp = new Date().toISOString().split('T')[1].split('.')[0];
     try {
@@ -592,97 +746,20 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
         email: normalizedEmail, 
         password, 
         rememberMe 
-      }) as {
-        message: string;
-        userId: number;
-        userType: string;
-      };
+      }) as LoginResponse | TwoFactorChallenge;
 
       console.log(`[${timestamp}] Login response received:`, response);
-      console.log(`[${timestamp}] Response userId:`, response?.userId);
-      console.log(`[${timestamp}] Response userType:`, response?.userType);
 
-      if (response && response.userId) {
-        console.log(`[${timestamp}] Login successful, user ID: ${response.userId}, type: ${response.userType}`);
-        
-        // Store user ID and type in localStorage for client-side reference
-        // The actual authentication token is in a secure HTTP-only cookie
-        saveUserData(response.userId.toString(), response.userType);
-        
-        // Add a short delay to allow cookie processing
-        await new Promise(resolve => setTimeout(resolve, 300));
-        
-        // Fetch complete user data
-        console.log(`[${timestamp}] Fetching complete user data...`);
-        try {
-          const userData = await apiRequest(`/api/v1/user/${response.userId}`);
-          console.log(`[${timestamp}] User data received:`, userData ? 'Successfully' : 'Failed');
-          
-          // Update authentication state before setting user data to prevent UI flashing
-          setAuthState('authenticated');
-          setUser(userData);
-          
-          // Start token refresh timer - in case the user stays logged in for a long time
-          if (isMountedRef.current) {
-            // Schedule refresh for 5 minutes before token expiry
-            refreshTimerRef.current = window.setTimeout(() => {
-              silentRefresh();
-            }, 55 * 60 * 1000); // 55 minutes
-            
-            console.log(`[${timestamp}] Token refresh timer scheduled after login`);
-          }
-        } catch (userDataErr) {
-          console.error(`[${timestamp}] Error fetching user data:`, userDataErr);
-          // Still mark as authenticated even if we couldn't fetch complete user data
-          // We can retry fetching user data later
-          setAuthState('authenticated');
-          
-          // Set minimal user data from login response
-          setUser({
-            id: response.userId,
-            userType: response.userType as any,
-            email: normalizedEmail,
-            firstName: '',
-            lastName: '',
-            username: '',
-            phone: '',
-            address: '',
-            created_at: new Date().toISOString()
-          });
-        }
+      // The password was right; the form asks for a code next
+      if (isTwoFactorChallenge(response)) {
+        console.log(`[${timestamp}] Two-factor code required${response.enrolmentRequired ? ' (enrolment)' : ''}`);
+        setAuthState('unauthenticated');
+        setIsRedirecting(false);
+        return response;
+      }
 
-        // Add a small delay before redirect to ensure all state updates have propagated
-        console.log(`[${timestamp}] Preparing redirection after login...`);
-        
-        // Determine appropriate redirect path
-        const currentPath = window.location.pathname;
-        let targetPath = '/';
-        
-        if (response.userType === 'admin') {
-          targetPath = '/admin';
-        } else if (response.userType === 'business') {
-          targetPath = '/vendor';
-        }
-        
-        // Set redirect path and state
-        console.log(`[${timestamp}] Setting redirect path to ${targetPath}`);
-        setRedirectPath(targetPath);
-        setAuthState('redirecting');
-        
-        // Use setTimeout to add a meaningful delay before redirecting to prevent rapid state changes
-        setTimeout(() => {
-          if (isMountedRef.current) {
-            console.log(`[${timestamp}] Executing redirect to ${targetPath}`);
-            setLocation(targetPath);
-            
-            // Reset redirection flag after redirect is complete with longer delay
-            setTimeout(() => {
-              setAuthState('authenticated');
-              setIsRedirecting(false);
-              console.log(`[${timestamp}] Redirection completed, returning to authenticated state`);
-            }, 500);
-          }
-        }, 300);
+      if (response && response.userId) {
+        await finishLogin(response, normalizedEmail);
       } else {
         setAuthState('unauthenticated');
         setIsRedirecting(false);
@@ -772,6 +849,9 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
         isLoading,
         error,
         login,
+        completeTwoFactorLogin,
+        loginWithPasskey,
+        finishLogin,
         logout: enhancedLogout,
         refreshToken,
         silentRefresh,
@@ -0,0 +1,60 @@
+import { keepPreviousData, useMutation, useQuery } from '@tanstack/react-query';
+import type { AdminAuditEntry } from '@shared/schema';
+import type { AdminAuditChainReport, AdminAuditTargetType } from '@shared/adminAudit';
+import { apiRequest } from '@/lib/queryClient';
+
+const AUDIT_LOG_PATH = '/api/v1/admin/audit-log';
+
+export interface AdminAuditFilters {
+  actorId?: string;
+  // Matches the start of the action, e.g. "deal" or "user.update"
+  action?: string;
+  targetType?: AdminAuditTargetType;
+  targetId?: string;
+  // ISO timestamps
+  from?: string;
+  to?: string;
+}
+
+export interface AdminAuditPage {
+  entries: AdminAuditEntry[];
+  page: number;
+  pageSize: number;
+  hasMore: boolean;
+}
+
+function withQuery(path: string, params: Record<string, string | undefined>): string {
+  const query = new URLSearchParams();
+  for (const [key, value] of Object.entries(params)) {
+    if (value) query.set(key, value);
+  }
+  const search = query.toString();
+  return search ? `${path}?${search}` : path;
+}
+
+/**
+ * Where to download the entries matching the filters as CSV
+ */
+export function adminAuditExportUrl(filters: AdminAuditFilters): string {
+  return withQuery(`${AUDIT_LOG_PATH}/export`, { ...filters });
+}
+
+/**
+ * A page of audit log entries matching the filters, newest first
+ */
+export function useAdminAuditLog(filters: AdminAuditFilters, page: number) {
+  return useQuery<AdminAuditPage>({
+    queryKey: [AUDIT_LOG_PATH, filters, page],
+    queryFn: () => apiRequest(withQuery(AUDIT_LOG_PATH, { ...filters, page: String(page) })),
+    placeholderData: keepPreviousData,
+  });
+}
+
+/**
+ * Recompute the hash chain on the server to check no entry was changed or removed
+ */
+export function useVerifyAdminAudit() {
+  return useMutation({
+    mutationFn: (): Promise<AdminAuditChainReport> => apiRequest(`${AUDIT_LOG_PATH}/verify`),
+  });
+}
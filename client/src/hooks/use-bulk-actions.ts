@@ -0,0 +1,27 @@
+import { useMutation } from '@tanstack/react-query';
+import type { BulkActionSummary, BulkTargetType } from '@shared/bulkActions';
+import { apiRequest } from '@/lib/queryClient';
+
+const BULK_ACTION_PATHS: Record<BulkTargetType, string> = {
+  deal: '/api/v1/admin/bulk/deals',
+  business: '/api/v1/admin/bulk/businesses',
+  user: '/api/v1/admin/bulk/users',
+};
+
+export interface BulkActionRequest<Id> {
+  action: string;
+  ids: Id[];
+  // Rejections only: the reasons shared by every selected record
+  reasonCodes?: string[];
+  note?: string;
+}
+
+/**
+ * Apply one action to many deals, businesses or users; the summary has the result for each
+ */
+export function useBulkAction<Id extends number | string>(target: BulkTargetType) {
+  return useMutation({
+    mutationFn: (data: BulkActionRequest<Id>): Promise<BulkActionSummary<Id>> =>
+      apiRequest(BULK_ACTION_PATHS[target], { method: 'POST', data }),
+  });
+}
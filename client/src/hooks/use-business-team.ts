@@ -0,0 +1,100 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import type { BusinessInvitation } from '@shared/schema';
+import type { BusinessRole, BusinessTeamMember, InvitableBusinessRole } from '@shared/businessMembers';
+import { apiRequest } from '@/lib/queryClient';
+
+function teamPath(businessId: number): string {
+  return `/api/v1/business/${businessId}/members`;
+}
+
+function invitationsPath(businessId: number): string {
+  return `/api/v1/business/${businessId}/invitations`;
+}
+
+export type PendingBusinessInvitation = Omit<BusinessInvitation, 'tokenHash'>;
+
+export interface BusinessInvitationPreview {
+  businessName: string;
+  role: InvitableBusinessRole;
+  email: string;
+  expiresAt: string;
+}
+
+/**
+ * Everyone on the business's team, owner first
+ */
+export function useBusinessTeam(businessId: number | undefined) {
+  return useQuery<{ members: BusinessTeamMember[] }>({
+    queryKey: [teamPath(businessId ?? 0)],
+    queryFn: () => apiRequest(teamPath(businessId!)),
+    enabled: !!businessId,
+  });
+}
+
+/**
+ * Invitations that haven't been accepted, cancelled or expired (owners only)
+ */
+export function useBusinessInvitations(businessId: number | undefined, enabled = true) {
+  return useQuery<{ invitations: PendingBusinessInvitation[] }>({
+    queryKey: [invitationsPath(businessId ?? 0)],
+    queryFn: () => apiRequest(invitationsPath(businessId!)),
+    enabled: !!businessId && enabled,
+  });
+}
+
+/**
+ * Invite, change, remove and hand ownership to team members; each refreshes the team and invitations
+ */
+export function useBusinessTeamActions(businessId: number) {
+  const queryClient = useQueryClient();
+  const onSuccess = () => Promise.all([
+    queryClient.invalidateQueries({ queryKey: [teamPath(businessId)] }),
+    queryClient.invalidateQueries({ queryKey: [invitationsPath(businessId)] }),
+  ]);
+
+  return {
+    invite: useMutation({
+      mutationFn: (data: { email: string; role: InvitableBusinessRole }) =>
+        apiRequest(invitationsPath(businessId), { method: 'POST', data }),
+      onSuccess,
+    }),
+    revokeInvitation: useMutation({
+      mutationFn: (invitationId: number) =>
+        apiRequest(`${invitationsPath(businessId)}/${invitationId}`, { method: 'DELETE' }),
+      onSuccess,
+    }),
+    changeRole: useMutation({
+      mutationFn: ({ userId, role }: { userId: number; role: InvitableBusinessRole }) =>
+        apiRequest(`${teamPath(businessId)}/${userId}`, { method: 'PUT', data: { role } }),
+      onSuccess,
+    }),
+    remove: useMutation({
+      mutationFn: (userId: number) => apiRequest(`${teamPath(businessId)}/${userId}`, { method: 'DELETE' }),
+      onSuccess,
+    }),
+    transferOwnership: useMutation({
+      mutationFn: (userId: number) =>
+        apiRequest(`/api/v1/business/${businessId}/transfer-ownership`, { method: 'POST', data: { userId } }),
+      onSuccess,
+    }),
+  };
+}
+
+/**
+ * The business and role an invitation link is for; works signed out
+ */
+export function useBusinessInvitationPreview(token: string) {
+  return useQuery<BusinessInvitationPreview>({
+    queryKey: ['/api/v1/business-invitations/preview', token],
+    queryFn: () => apiRequest('/api/v1/business-invitations/preview', { method: 'POST', data: { token } }),
+    enabled: !!token,
+    retry: false,
+  });
+}
+
+export function useAcceptBusinessInvitation() {
+  return useMutation({
+    mutationFn: (token: string): Promise<{ business: { id: number; businessName: string }; role: BusinessRole }> =>
+      apiRequest('/api/v1/business-invitations/accept', { method: 'POST', data: { token } }),
+  });
+}
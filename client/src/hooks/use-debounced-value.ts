@@ -0,0 +1,15 @@
+import { useState, useEffect } from 'react';
+
+/**
+ * Returns the value once it has stopped changing for `delay` milliseconds
+ */
+export default function useDebouncedValue<T>(value: T, delay: number = 300): T {
+  const [debouncedValue, setDebouncedValue] = useState(value);
+
+  useEffect(() => {
+    const timeoutId = setTimeout(() => setDebouncedValue(value), delay);
+    return () => clearTimeout(timeoutId);
+  }, [value, delay]);
+
+  return debouncedValue;
+}
@@ -0,0 +1,96 @@
+import { useInfiniteQuery, useQuery } from '@tanstack/react-query';
+import { fetchWithCSRF } from '@/lib/api';
+
+// Sort orders supported by the deal listing endpoints
+export type DealSort = 'newest' | 'endingSoon' | 'popular' | 'highestDiscount' | 'trending' | 'relevance' | 'distance';
+
+export const DEFAULT_DEAL_PAGE_SIZE = 20;
+
+export interface DealPage<T> {
+  items: T[];
+  nextCursor: string | null;
+  totalCount: number;
+}
+
+interface UseInfiniteDealsOptions {
+  // Left out, the server picks: newest, relevance for searches, distance around a point
+  sort?: DealSort;
+  pageSize?: number;
+  // Extra query params, e.g. location filters; undefined values are skipped
+  params?: Record<string, string | number | undefined>;
+  enabled?: boolean;
+  // Query key prefix, defaults to the path; lets callers share invalidation keys
+  queryKey?: unknown[];
+  // Called with every raw response, e.g. to read cache headers
+  onResponse?: (response: Response) => void;
+}
+
+/**
+ * Fetch one page of a paginated deal listing
+ * The body is the page's deals; the total and next cursor come from headers
+ */
+export async function fetchDealPage<T>(url: string, onResponse?: (response: Response) => void): Promise<DealPage<T>> {
+  const response = await fetchWithCSRF(url, { method: 'GET' });
+  onResponse?.(response);
+
+  if (!response.ok) {
+    const error: any = new Error(`Failed to load deals (${response.status})`);
+    error.status = response.status;
+    throw error;
+  }
+
+  const items = await response.json();
+  const totalCount = parseInt(response.headers.get('X-Total-Count') || '', 10);
+
+  return {
+    items: Array.isArray(items) ? items : [],
+    nextCursor: response.headers.get('X-Next-Cursor'),
+    totalCount: isNaN(totalCount) ? 0 : totalCount,
+  };
+}
+
+/**
+ * Page through a deal listing endpoint with cursor-based pagination
+ */
+export function useInfiniteDeals<T = any>(path: string, options: UseInfiniteDealsOptions = {}) {
+  const {
+    sort,
+    pageSize = DEFAULT_DEAL_PAGE_SIZE,
+    params = {},
+    enabled = true,
+    queryKey = [path],
+    onResponse,
+  } = options;
+
+  const query = useInfiniteQuery({
+    queryKey: [...queryKey, { sort, pageSize, ...params }],
+    queryFn: ({ pageParam }) => {
+      const searchParams = new URLSearchParams({ limit: pageSize.toString() });
+      if (sort) searchParams.set('sort', sort);
+      Object.entries(params).forEach(([key, value]) => {
+        if (value !== undefined) searchParams.set(key, value.toString());
+      });
+      if (pageParam) searchParams.set('cursor', pageParam);
+
+      return fetchDealPage<T>(`${path}?${searchParams.toString()}`, onResponse);
+    },
+    initialPageParam: undefined as string | undefined,
+    getNextPageParam: (lastPage) => lastPage.nextCursor ?? undefined,
+    enabled,
+  });
+
+  const deals = query.data?.pages.flatMap(page => page.items) ?? [];
+  const totalCount = query.data?.pages[0]?.totalCount ?? 0;
+
+  return { ...query, deals, totalCount };
+}
+
+/**
+ * Total number of deals a listing endpoint would return, without loading them
+ */
+export function useDealCount(path: string, queryKey: unknown[] = [path]) {
+  return useQuery({
+    queryKey: [...queryKey, 'count'],
+    queryFn: async () => (await fetchDealPage(`${path}?limit=1`)).totalCount,
+  });
+}
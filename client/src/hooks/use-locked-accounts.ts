@@ -0,0 +1,39 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import type { LockedAccountSummary } from '@shared/loginThrottle';
+import { apiRequest } from '@/lib/queryClient';
+
+const LOCKED_ACCOUNTS_PATH = '/api/v1/admin/locked-accounts';
+
+/**
+ * Accounts locked after too many failed sign-ins
+ */
+export function useLockedAccounts(enabled: boolean = true) {
+  return useQuery<LockedAccountSummary[]>({
+    queryKey: [LOCKED_ACCOUNTS_PATH],
+    queryFn: () => apiRequest(LOCKED_ACCOUNTS_PATH),
+    enabled,
+  });
+}
+
+/**
+ * Clear an account's lockout and failed sign-ins
+ */
+export function useUnlockAccount() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (email: string): Promise<{ message: string }> =>
+      apiRequest(`${LOCKED_ACCOUNTS_PATH}/unlock`, { method: 'POST', data: { email } }),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: [LOCKED_ACCOUNTS_PATH] }),
+  });
+}
+
+/**
+ * Unlock an account with the token from its lockout email (no sign-in needed)
+ */
+export function useUnlockWithToken() {
+  return useMutation({
+    mutationFn: (token: string): Promise<{ message: string }> =>
+      apiRequest('/api/v1/auth/unlock', { method: 'POST', data: { token } }),
+  });
+}
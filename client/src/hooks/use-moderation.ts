@@ -0,0 +1,100 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import type { ModerationChecklistItem, RejectionReason } from '@shared/schema';
+import type { ModerationTargetType, RejectionReasonCount } from '@shared/moderation';
+import type { PreModerationRule, PreModerationRuleDefinition, PreModerationRuleKey } from '@shared/preModeration';
+import { apiRequest } from '@/lib/queryClient';
+
+const REJECTION_REASONS_PATH = '/api/v1/admin/moderation/rejection-reasons';
+const CHECKLIST_PATH = '/api/v1/admin/moderation/checklist';
+const REJECTION_STATS_PATH = '/api/v1/admin/moderation/rejection-stats';
+const PRE_MODERATION_RULES_PATH = '/api/v1/admin/moderation/rules';
+
+function withQuery(path: string, params: Record<string, string | undefined>): string {
+  const query = new URLSearchParams();
+  for (const [key, value] of Object.entries(params)) {
+    if (value !== undefined) query.set(key, value);
+  }
+  const search = query.toString();
+  return search ? `${path}?${search}` : path;
+}
+
+/**
+ * Rejection reasons reviewers can pick for a deal or business; admins managing the catalogue also see inactive ones
+ */
+export function useRejectionReasons(targetType?: ModerationTargetType, includeInactive: boolean = false) {
+  return useQuery<RejectionReason[]>({
+    queryKey: [REJECTION_REASONS_PATH, targetType, includeInactive],
+    queryFn: () => apiRequest(withQuery(REJECTION_REASONS_PATH, {
+      targetType,
+      includeInactive: includeInactive ? 'true' : undefined,
+    })),
+  });
+}
+
+/**
+ * Checklist items for reviewing a deal or business; with a category, only what applies to it
+ */
+export function useReviewChecklist(targetType?: ModerationTargetType, category?: string | null, includeInactive: boolean = false) {
+  return useQuery<ModerationChecklistItem[]>({
+    queryKey: [CHECKLIST_PATH, targetType, category ?? null, includeInactive],
+    queryFn: () => apiRequest(withQuery(CHECKLIST_PATH, {
+      targetType,
+      category: category ?? undefined,
+      includeInactive: includeInactive ? 'true' : undefined,
+    })),
+  });
+}
+
+export function useRejectionReasonStats(targetType?: ModerationTargetType, days?: number) {
+  return useQuery<{ reasons: RejectionReasonCount[] }>({
+    queryKey: [REJECTION_STATS_PATH, targetType, days],
+    queryFn: () => apiRequest(withQuery(REJECTION_STATS_PATH, {
+      targetType,
+      days: days ? String(days) : undefined,
+    })),
+  });
+}
+
+export function useSaveRejectionReason() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, ...data }: { id?: number } & Partial<Pick<RejectionReason, 'code' | 'targetType' | 'label' | 'template' | 'active'>>) =>
+      id
+        ? apiRequest(`${REJECTION_REASONS_PATH}/${id}`, { method: 'PUT', data })
+        : apiRequest(REJECTION_REASONS_PATH, { method: 'POST', data }),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: [REJECTION_REASONS_PATH] }),
+  });
+}
+
+export function useSaveChecklistItem() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, ...data }: { id?: number } & Partial<Pick<ModerationChecklistItem, 'targetType' | 'category' | 'label' | 'description' | 'sortOrder' | 'active'>>) =>
+      id
+        ? apiRequest(`${CHECKLIST_PATH}/${id}`, { method: 'PUT', data })
+        : apiRequest(CHECKLIST_PATH, { method: 'POST', data }),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: [CHECKLIST_PATH] }),
+  });
+}
+
+/**
+ * The automated pre-moderation rules with the admin's settings applied
+ */
+export function usePreModerationRules() {
+  return useQuery<PreModerationRuleDefinition[]>({
+    queryKey: [PRE_MODERATION_RULES_PATH],
+    queryFn: () => apiRequest(PRE_MODERATION_RULES_PATH),
+  });
+}
+
+export function useSavePreModerationRule() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ key, ...data }: { key: PreModerationRuleKey } & Partial<Omit<PreModerationRule, 'key'>>): Promise<PreModerationRuleDefinition> =>
+      apiRequest(`${PRE_MODERATION_RULES_PATH}/${key}`, { method: 'PUT', data }),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: [PRE_MODERATION_RULES_PATH] }),
+  });
+}
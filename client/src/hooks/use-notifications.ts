@@ -0,0 +1,51 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import type { Notification } from '@shared/schema';
+import { apiRequest } from '@/lib/queryClient';
+
+export interface NotificationInbox {
+  notifications: Notification[];
+  unreadCount: number;
+}
+
+const NOTIFICATIONS_KEY = ['/api/v1/notifications'];
+// How often the bell checks for new notifications
+const POLL_INTERVAL_MS = 60 * 1000;
+
+/**
+ * The signed-in user's notification inbox, shared by every layout's bell
+ */
+export function useNotifications(enabled: boolean = true) {
+  return useQuery<NotificationInbox>({
+    queryKey: NOTIFICATIONS_KEY,
+    queryFn: () => apiRequest('/api/v1/notifications', { silentError: true }),
+    enabled,
+    refetchInterval: POLL_INTERVAL_MS,
+  });
+}
+
+export function useMarkNotificationRead() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: number) => apiRequest(`/api/v1/notifications/${id}/read`, { method: 'PUT' }),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: NOTIFICATIONS_KEY }),
+  });
+}
+
+export function useMarkAllNotificationsRead() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: () => apiRequest('/api/v1/notifications/read-all', { method: 'PUT' }),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: NOTIFICATIONS_KEY }),
+  });
+}
+
+export function useDeleteNotification() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: number) => apiRequest(`/api/v1/notifications/${id}`, { method: 'DELETE' }),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: NOTIFICATIONS_KEY }),
+  });
+}
@@ -0,0 +1,47 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import type { PasskeyRegistrationOptions, PasskeySummary } from '@shared/passkeys';
+import { apiRequest } from '@/lib/queryClient';
+import { createPasskey } from '@/lib/passkeys';
+
+function passkeysPath(userId: number | string): string {
+  return `/api/v1/user/${userId}/passkeys`;
+}
+
+/**
+ * The signed-in user's passkeys
+ */
+export function usePasskeys(userId: number | string | undefined) {
+  return useQuery<PasskeySummary[]>({
+    queryKey: [passkeysPath(userId ?? 0)],
+    queryFn: () => apiRequest(passkeysPath(userId!)),
+    enabled: !!userId,
+  });
+}
+
+/**
+ * Add a passkey on this device, rename one or remove one
+ */
+export function usePasskeyActions(userId: number | string) {
+  const queryClient = useQueryClient();
+  const onSuccess = () => queryClient.invalidateQueries({ queryKey: [passkeysPath(userId)] });
+
+  return {
+    add: useMutation({
+      mutationFn: async (): Promise<PasskeySummary> => {
+        const options: PasskeyRegistrationOptions = await apiRequest(`${passkeysPath(userId)}/options`, { method: 'POST' });
+        const credential = await createPasskey(options);
+        return apiRequest(passkeysPath(userId), { method: 'POST', data: { credential } });
+      },
+      onSuccess,
+    }),
+    rename: useMutation({
+      mutationFn: ({ id, name }: { id: number; name: string }): Promise<PasskeySummary> =>
+        apiRequest(`${passkeysPath(userId)}/${id}`, { method: 'PATCH', data: { name } }),
+      onSuccess,
+    }),
+    remove: useMutation({
+      mutationFn: (id: number) => apiRequest(`${passkeysPath(userId)}/${id}`, { method: 'DELETE' }),
+      onSuccess,
+    }),
+  };
+}
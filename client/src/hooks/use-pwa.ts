@@ -1,4 +1,12 @@
 import { useState, useEffect } from 'react';
+import { apiRequest } from '@/lib/queryClient';
+import {
+  isPushSupported,
+  getPushSubscription,
+  subscribeToPush,
+  unsubscribeFromPush,
+  requestNotificationPermission
+} from '@/serviceWorkerRegistration';
 
 type BeforeInstallPromptEvent = Event & {
   prompt: () => Promise<void>;
@@ -132,4 +140,83 @@ export function usePwaInstall(): UsePwaInstallReturn {
   };
 
   return { canInstall, installApp, isInstalledPwa };
-}
\ No newline at end of file
+}
+interface UsePushNotificationsReturn {
+  isSupported: boolean;
+  isSubscribed: boolean;
+  subscribe: () => Promise<boolean>;
+  unsubscribe: () => Promise<void>;
+}
+
+/**
+ * Web Push subscription for this browser, kept in sync with the server
+ */
+export function usePushNotifications(): UsePushNotificationsReturn {
+  const isSupported = isPushSupported();
+  const [isSubscribed, setIsSubscribed] = useState<boolean>(false);
+
+  const registerWithServer = async (subscription: PushSubscription) => {
+    await apiRequest('/api/v1/push/subscriptions', { method: 'POST', data: subscription.toJSON() });
+  };
+
+  useEffect(() => {
+    if (!isSupported) return;
+
+    getPushSubscription()
+      .then(subscription => setIsSubscribed(subscription !== null))
+      .catch(error => console.error('Error checking push subscription:', error));
+
+    // The service worker reports when the browser replaces the subscription
+    const handleMessage = async (event: MessageEvent) => {
+      if (event.data?.type !== 'PUSH_SUBSCRIPTION_CHANGED') return;
+
+      try {
+        const { publicKey } = await apiRequest('/api/v1/push/vapid-public-key');
+        const subscription = await subscribeToPush(publicKey);
+        if (subscription) {
+          await registerWithServer(subscription);
+        }
+        setIsSubscribed(subscription !== null);
+      } catch (error) {
+        console.error('Error renewing push subscription:', error);
+      }
+    };
+
+    navigator.serviceWorker.addEventListener('message', handleMessage);
+    return () => navigator.serviceWorker.removeEventListener('message', handleMessage);
+  }, [isSupported]);
+
+  const subscribe = async (): Promise<boolean> => {
+    if (!isSupported || (await requestNotificationPermission()) !== 'granted') {
+      return false;
+    }
+
+    try {
+      const { publicKey } = await apiRequest('/api/v1/push/vapid-public-key');
+      const subscription = await subscribeToPush(publicKey);
+      if (!subscription) return false;
+
+      await registerWithServer(subscription);
+      setIsSubscribed(true);
+      return true;
+    } catch (error) {
+      console.error('Error subscribing to push notifications:', error);
+      return false;
+    }
+  };
+
+  const unsubscribe = async (): Promise<void> => {
+    try {
+      const endpoint = await unsubscribeFromPush();
+      if (endpoint) {
+        await apiRequest('/api/v1/push/subscriptions', { method: 'DELETE', data: { endpoint }, silentError: true });
+      }
+    } catch (error) {
+      console.error('Error unsubscribing from push notifications:', error);
+    } finally {
+      setIsSubscribed(false);
+    }
+  };
+
+  return { isSupported, isSubscribed, subscribe, unsubscribe };
+}
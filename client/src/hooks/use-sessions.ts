@@ -0,0 +1,66 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import type { SessionSummary } from '@shared/sessions';
+import { apiRequest } from '@/lib/queryClient';
+
+function sessionsPath(userId: number): string {
+  return `/api/v1/user/${userId}/sessions`;
+}
+
+function adminSessionsPath(userId: number | string): string {
+  return `/api/v1/admin/users/${userId}/sessions`;
+}
+
+/**
+ * The devices the user is signed in on, most recently used first
+ */
+export function useSessions(userId: number | undefined) {
+  return useQuery<{ sessions: SessionSummary[] }>({
+    queryKey: [sessionsPath(userId ?? 0)],
+    queryFn: () => apiRequest(sessionsPath(userId!)),
+    enabled: !!userId,
+  });
+}
+
+/**
+ * Sign out one device, or every device except this one
+ */
+export function useSessionActions(userId: number) {
+  const queryClient = useQueryClient();
+  const onSuccess = () => queryClient.invalidateQueries({ queryKey: [sessionsPath(userId)] });
+
+  return {
+    revoke: useMutation({
+      mutationFn: (sessionId: number) => apiRequest(`${sessionsPath(userId)}/${sessionId}`, { method: 'DELETE' }),
+      onSuccess,
+    }),
+    revokeOthers: useMutation({
+      mutationFn: (): Promise<{ revoked: number; message: string }> =>
+        apiRequest(`${sessionsPath(userId)}/revoke-others`, { method: 'POST' }),
+      onSuccess,
+    }),
+  };
+}
+
+/**
+ * A user's devices as seen by an admin
+ */
+export function useUserSessions(userId: number | string | undefined, enabled = true) {
+  return useQuery<{ sessions: SessionSummary[] }>({
+    queryKey: [adminSessionsPath(userId ?? 0)],
+    queryFn: () => apiRequest(adminSessionsPath(userId!)),
+    enabled: !!userId && enabled,
+  });
+}
+
+/**
+ * Sign a user out on every device (admins)
+ */
+export function useForceLogout(userId: number | string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (): Promise<{ revoked: number; message: string }> =>
+      apiRequest(adminSessionsPath(userId), { method: 'DELETE' }),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: [adminSessionsPath(userId)] }),
+  });
+}
@@ -0,0 +1,47 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import type { Permission, StaffRole } from '@shared/permissions';
+import { apiRequest } from '@/lib/queryClient';
+
+const OWN_PERMISSIONS_PATH = '/api/v1/admin/me/permissions';
+
+export interface StaffPermissions {
+  role: StaffRole | null;
+  permissions: Permission[];
+}
+
+/**
+ * The signed-in admin's staff role; can() is false for everything until it has loaded
+ */
+export function useStaffPermissions() {
+  const query = useQuery<StaffPermissions>({
+    queryKey: [OWN_PERMISSIONS_PATH],
+    queryFn: () => apiRequest(OWN_PERMISSIONS_PATH),
+    staleTime: 5 * 60 * 1000,
+  });
+
+  const can = (permission: Permission) => query.data?.permissions.includes(permission) ?? false;
+
+  return { ...query, role: query.data?.role ?? null, can };
+}
+
+/**
+ * Give an admin account a staff role (super admins only)
+ */
+export function useAssignStaffRole(userId: number | string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (role: StaffRole) => apiRequest(`/api/v1/admin/users/${userId}/role`, { method: 'PUT', data: { role } }),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['/api/v1/admin/users'] }),
+  });
+}
+
+/**
+ * Email the user a password reset link
+ */
+export function useSendPasswordReset(userId: number | string) {
+  return useMutation({
+    mutationFn: (): Promise<{ message: string }> =>
+      apiRequest(`/api/v1/admin/users/${userId}/reset-password`, { method: 'POST' }),
+  });
+}
@@ -0,0 +1,73 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import type { TwoFactorSetup, TwoFactorStatus } from '@shared/twoFactor';
+import { apiRequest } from '@/lib/queryClient';
+
+function twoFactorPath(userId: number | string): string {
+  return `/api/v1/user/${userId}/two-factor`;
+}
+
+function adminTwoFactorPath(userId: number | string): string {
+  return `/api/v1/admin/users/${userId}/two-factor`;
+}
+
+/**
+ * Whether the signed-in user has two-factor on, and whether they can or must
+ */
+export function useTwoFactorStatus(userId: number | string | undefined) {
+  return useQuery<TwoFactorStatus>({
+    queryKey: [twoFactorPath(userId ?? 0)],
+    queryFn: () => apiRequest(twoFactorPath(userId!)),
+    enabled: !!userId,
+  });
+}
+
+/**
+ * Set up, confirm and turn off two-factor, and replace recovery codes
+ */
+export function useTwoFactorActions(userId: number | string) {
+  const queryClient = useQueryClient();
+  const onSuccess = () => queryClient.invalidateQueries({ queryKey: [twoFactorPath(userId)] });
+
+  return {
+    startSetup: useMutation({
+      mutationFn: (): Promise<TwoFactorSetup> => apiRequest(`${twoFactorPath(userId)}/setup`, { method: 'POST' }),
+    }),
+    confirm: useMutation({
+      mutationFn: (code: string): Promise<{ recoveryCodes: string[] }> =>
+        apiRequest(`${twoFactorPath(userId)}/confirm`, { method: 'POST', data: { code } }),
+      onSuccess,
+    }),
+    regenerateRecoveryCodes: useMutation({
+      mutationFn: (code: string): Promise<{ recoveryCodes: string[] }> =>
+        apiRequest(`${twoFactorPath(userId)}/recovery-codes`, { method: 'POST', data: { code } }),
+      onSuccess,
+    }),
+    disable: useMutation({
+      mutationFn: (code: string) => apiRequest(twoFactorPath(userId), { method: 'DELETE', data: { code } }),
+      onSuccess,
+    }),
+  };
+}
+
+/**
+ * A user's two-factor status as seen by an admin
+ */
+export function useUserTwoFactor(userId: number | string | undefined, enabled = true) {
+  return useQuery<TwoFactorStatus>({
+    queryKey: [adminTwoFactorPath(userId ?? 0)],
+    queryFn: () => apiRequest(adminTwoFactorPath(userId!)),
+    enabled: !!userId && enabled,
+  });
+}
+
+/**
+ * Clear a user's two-factor so they can set it up again (admins)
+ */
+export function useResetTwoFactor(userId: number | string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (): Promise<{ message: string }> => apiRequest(adminTwoFactorPath(userId), { method: 'DELETE' }),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: [adminTwoFactorPath(userId)] }),
+  });
+}
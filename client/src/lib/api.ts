@@ -9,6 +9,8 @@
  */
 
 import { handleError, ErrorCategory } from './errorHandling';
+import { clearUserData } from '@/utils/userUtils';
+import { REFRESH_TOKEN_REUSED } from '@shared/securityEvents';
 
 // CSRF token storage
 let csrfToken: string | null = null;
@@ -214,6 +216,21 @@ export async function fetchWithCSRF(url: string, options: RequestInit = {}): Pro
 
 // resetCSRFToken is defined at the top of the file
 
+/**
+ * Drop everything tied to the ended session and start over at the sign-in page
+ * Used when the server has revoked the session because its refresh token was replayed
+ */
+function forceReLogin(): void {
+  console.warn('Session ended by the server after refresh token reuse. Signing in again...');
+  clearUserData();
+  resetCSRFToken();
+  failedRequests.forEach(request => {
+    request.reject(new Error('Your session has ended. Please sign in again.'));
+  });
+  failedRequests = [];
+  window.location.href = '/auth';
+}
+
 /**
  * Refresh authentication token
  * Uses the refresh token to obtain a new access token
@@ -249,6 +266,10 @@ export async function refreshAuthToken(): Promise<boolean> {
 
     if (!response.ok) {
       console.error('Token refresh failed:', response.status);
+      const errorData = await response.json().catch(() => ({}));
+      if (errorData.code === REFRESH_TOKEN_REUSED) {
+        forceReLogin();
+      }
       return false;
     }
 
@@ -0,0 +1,105 @@
+/**
+ * Browser side of passkeys: turn the server's JSON options into the binary
+ * form navigator.credentials expects, and the resulting credential back into
+ * JSON for the server to verify
+ */
+import type {
+  PasskeyAuthenticationOptions,
+  PasskeyAuthenticationResponse,
+  PasskeyCredentialDescriptor,
+  PasskeyRegistrationOptions,
+  PasskeyRegistrationResponse
+} from '@shared/passkeys';
+
+function fromBase64Url(value: string): ArrayBuffer {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/').padEnd(Math.ceil(value.length / 4) * 4, '=');
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes.buffer;
+}
+
+function toBase64Url(buffer: ArrayBuffer): string {
+  let binary = '';
+  new Uint8Array(buffer).forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function toDescriptor(credential: PasskeyCredentialDescriptor): PublicKeyCredentialDescriptor {
+  return {
+    id: fromBase64Url(credential.id),
+    type: credential.type,
+    transports: credential.transports as AuthenticatorTransport[] | undefined,
+  };
+}
+
+export function isPasskeySupported(): boolean {
+  return typeof window !== 'undefined' && !!window.PublicKeyCredential && !!navigator.credentials;
+}
+
+// The user closed the browser's passkey prompt, or it timed out; not worth an error message
+export function isPasskeyCancelled(error: unknown): boolean {
+  return error instanceof DOMException && (error.name === 'NotAllowedError' || error.name === 'AbortError');
+}
+
+/**
+ * Make a new passkey on this device with the server's registration options
+ */
+export async function createPasskey(options: PasskeyRegistrationOptions): Promise<PasskeyRegistrationResponse> {
+  const credential = await navigator.credentials.create({
+    publicKey: {
+      ...options,
+      challenge: fromBase64Url(options.challenge),
+      user: { ...options.user, id: fromBase64Url(options.user.id) },
+      excludeCredentials: options.excludeCredentials.map(toDescriptor),
+    },
+  }) as PublicKeyCredential | null;
+  if (!credential) {
+    throw new Error('No passkey was created');
+  }
+
+  const response = credential.response as AuthenticatorAttestationResponse;
+  return {
+    id: credential.id,
+    rawId: toBase64Url(credential.rawId),
+    type: 'public-key',
+    response: {
+      clientDataJSON: toBase64Url(response.clientDataJSON),
+      attestationObject: toBase64Url(response.attestationObject),
+      transports: response.getTransports?.(),
+    },
+  };
+}
+
+/**
+ * Sign the server's challenge with a passkey the user picks
+ */
+export async function getPasskey(options: PasskeyAuthenticationOptions): Promise<PasskeyAuthenticationResponse> {
+  const credential = await navigator.credentials.get({
+    publicKey: {
+      ...options,
+      challenge: fromBase64Url(options.challenge),
+      allowCredentials: options.allowCredentials.map(toDescriptor),
+    },
+  }) as PublicKeyCredential | null;
+  if (!credential) {
+    throw new Error('No passkey was chosen');
+  }
+
+  const response = credential.response as AuthenticatorAssertionResponse;
+  return {
+    id: credential.id,
+    rawId: toBase64Url(credential.rawId),
+    type: 'public-key',
+    response: {
+      clientDataJSON: toBase64Url(response.clientDataJSON),
+      authenticatorData: toBase64Url(response.authenticatorData),
+      signature: toBase64Url(response.signature),
+      userHandle: response.userHandle ? toBase64Url(response.userHandle) : null,
+    },
+  };
+}
@@ -0,0 +1,91 @@
+import React, { useState } from 'react';
+import { useLocation } from 'wouter';
+import { Store } from 'lucide-react';
+import { BUSINESS_ROLE_LABELS } from '@shared/businessMembers';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import { useAuth } from '@/contexts/AuthContext';
+import { useAcceptBusinessInvitation, useBusinessInvitationPreview } from '@/hooks/use-business-team';
+
+/**
+ * Where an emailed team invitation lands: shows the business and role, and
+ * lets the invited account accept once signed in
+ */
+export function JoinBusinessPage() {
+  const [, navigate] = useLocation();
+  const { user } = useAuth();
+  const [token] = useState(() => new URLSearchParams(window.location.search).get('token') ?? '');
+
+  const preview = useBusinessInvitationPreview(token);
+  const accept = useAcceptBusinessInvitation();
+
+  const handleAccept = () => {
+    // A full reload picks up the business account the server signed us in as
+    accept.mutate(token, { onSuccess: () => { window.location.href = '/vendor'; } });
+  };
+
+  const invitation = preview.data;
+  const signedInAsInvitee = !!user && !!invitation && user.email.toLowerCase() === invitation.email;
+  const error = !token
+    ? 'This invitation link is incomplete. Open the link from your email again.'
+    : preview.error instanceof Error ? preview.error.message : null;
+
+  return (
+    <div className="min-h-screen flex flex-col items-center justify-center bg-gray-50 p-4">
+      <Card className="w-full max-w-md">
+        <CardHeader className="text-center">
+          <div className="mx-auto mb-2 flex h-12 w-12 items-center justify-center rounded-full bg-[#E0F2F1]">
+            <Store className="h-6 w-6 text-[#00796B]" />
+          </div>
+          <CardTitle>{invitation ? `Join ${invitation.businessName}` : 'Team invitation'}</CardTitle>
+          {invitation && (
+            <CardDescription>
+              You've been invited as {BUSINESS_ROLE_LABELS[invitation.role].toLowerCase()} to work in their Pinnity vendor dashboard.
+            </CardDescription>
+          )}
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {preview.isLoading && (
+            <div className="flex justify-center py-4">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-[#00796B]"></div>
+            </div>
+          )}
+          {error && (
+            <Alert variant="destructive">
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+          {accept.error && (
+            <Alert variant="destructive">
+              <AlertDescription>
+                {accept.error instanceof Error ? accept.error.message : 'Failed to accept the invitation. Please try again.'}
+              </AlertDescription>
+            </Alert>
+          )}
+          {invitation && !signedInAsInvitee && (
+            <p className="text-sm text-gray-600 text-center">
+              {user
+                ? `This invitation is for ${invitation.email}, but you're signed in as ${user.email}. Sign in with the invited address to accept it.`
+                : `Sign in or create an account with ${invitation.email}, then open this link again to accept.`}
+            </p>
+          )}
+        </CardContent>
+        <CardFooter className="flex flex-col gap-2">
+          {invitation && signedInAsInvitee && (
+            <Button className="w-full bg-[#00796B] hover:bg-[#004D40]" onClick={handleAccept} disabled={accept.isPending}>
+              {accept.isPending ? 'Joining...' : 'Accept Invitation'}
+            </Button>
+          )}
+          {invitation && !user && (
+            <Button className="w-full" onClick={() => navigate('/auth')}>
+              Sign In
+            </Button>
+          )}
+        </CardFooter>
+      </Card>
+    </div>
+  );
+}
+
+export default JoinBusinessPage;
@@ -0,0 +1,63 @@
+import React, { useState } from 'react';
+import { useLocation } from 'wouter';
+import { LockKeyhole } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import { useUnlockWithToken } from '@/hooks/use-locked-accounts';
+
+/**
+ * Where the lockout email's link lands. Unlocking waits for a click, so mail
+ * scanners that open links don't use up the token
+ */
+export function UnlockAccountPage() {
+  const [, navigate] = useLocation();
+  const [token] = useState(() => new URLSearchParams(window.location.search).get('token') ?? '');
+  const unlock = useUnlockWithToken();
+
+  const error = !token
+    ? 'This unlock link is incomplete. Open the link from your email again.'
+    : unlock.error instanceof Error ? unlock.error.message : null;
+
+  return (
+    <div className="min-h-screen flex flex-col items-center justify-center bg-gray-50 p-4">
+      <Card className="w-full max-w-md">
+        <CardHeader className="text-center">
+          <div className="mx-auto mb-2 flex h-12 w-12 items-center justify-center rounded-full bg-[#E0F2F1]">
+            <LockKeyhole className="h-6 w-6 text-[#00796B]" />
+          </div>
+          <CardTitle>{unlock.isSuccess ? 'Account unlocked' : 'Unlock your account'}</CardTitle>
+          <CardDescription>
+            {unlock.isSuccess
+              ? 'You can sign in again. If you don\'t remember your password, reset it from the sign-in page.'
+              : 'Your account was locked after too many failed sign-ins.'}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {error && (
+            <Alert variant="destructive">
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+          {!unlock.isSuccess && (
+            <p className="text-sm text-gray-600 text-center">
+              If the failed sign-ins weren't you, reset your password after unlocking.
+            </p>
+          )}
+        </CardContent>
+        <CardFooter className="flex flex-col gap-2">
+          {token && !unlock.isSuccess && (
+            <Button className="w-full bg-[#00796B] hover:bg-[#004D40]" onClick={() => unlock.mutate(token)} disabled={unlock.isPending}>
+              {unlock.isPending ? 'Unlocking...' : 'Unlock My Account'}
+            </Button>
+          )}
+          <Button variant="link" onClick={() => navigate('/auth')} className="text-sm text-primary">
+            Return to Login
+          </Button>
+        </CardFooter>
+      </Card>
+    </div>
+  );
+}
+
+export default UnlockAccountPage;
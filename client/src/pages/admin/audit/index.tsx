@@ -0,0 +1,326 @@
+import { useState } from "react";
+import { format } from "date-fns";
+import { Download, ShieldCheck, ShieldAlert, ChevronLeft, ChevronRight } from "lucide-react";
+import type { AdminAuditEntry } from "@shared/schema";
+import { ADMIN_AUDIT_TARGET_TYPES, type AdminAuditTargetType } from "@shared/adminAudit";
+import AdminLayout from "@/components/admin/AdminLayout";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import {
+  adminAuditExportUrl,
+  useAdminAuditLog,
+  useVerifyAdminAudit,
+  type AdminAuditFilters
+} from "@/hooks/use-admin-audit";
+
+const TARGET_LABELS: Record<AdminAuditTargetType, string> = {
+  deal: "Deal",
+  deal_approval: "Deal approval",
+  business: "Business",
+  user: "User",
+  auth_user: "Auth account"
+};
+
+// Filters as typed in the form; dates are whole days in the admin's time zone
+interface FilterDraft {
+  action: string;
+  targetType: AdminAuditTargetType | "all";
+  targetId: string;
+  actorId: string;
+  fromDate: string;
+  toDate: string;
+}
+
+const EMPTY_FILTERS: FilterDraft = { action: "", targetType: "all", targetId: "", actorId: "", fromDate: "", toDate: "" };
+
+function toQueryFilters(draft: FilterDraft): AdminAuditFilters {
+  return {
+    action: draft.action.trim() || undefined,
+    targetType: draft.targetType === "all" ? undefined : draft.targetType,
+    targetId: draft.targetId.trim() || undefined,
+    actorId: draft.actorId.trim() || undefined,
+    from: draft.fromDate ? new Date(`${draft.fromDate}T00:00:00`).toISOString() : undefined,
+    to: draft.toDate ? new Date(`${draft.toDate}T23:59:59.999`).toISOString() : undefined
+  };
+}
+
+function JsonBlock({ label, value }: { label: string; value: unknown }) {
+  if (value === null || value === undefined) return null;
+
+  return (
+    <div className="space-y-1">
+      <h3 className="text-sm font-medium">{label}</h3>
+      <pre className="text-xs bg-muted rounded-md p-3 overflow-x-auto whitespace-pre-wrap break-all">
+        {JSON.stringify(value, null, 2)}
+      </pre>
+    </div>
+  );
+}
+
+/**
+ * Admin audit log: every admin action with its before and after values,
+ * filterable, exportable as CSV, with a check that the hash chain is intact
+ */
+export default function AdminAuditPage() {
+  const { toast } = useToast();
+  const [draft, setDraft] = useState<FilterDraft>(EMPTY_FILTERS);
+  const [filters, setFilters] = useState<AdminAuditFilters>({});
+  const [page, setPage] = useState(1);
+  const [selectedEntry, setSelectedEntry] = useState<AdminAuditEntry | null>(null);
+
+  const { data, isLoading, isFetching } = useAdminAuditLog(filters, page);
+  const verify = useVerifyAdminAudit();
+
+  const applyFilters = () => {
+    setFilters(toQueryFilters(draft));
+    setPage(1);
+  };
+
+  const clearFilters = () => {
+    setDraft(EMPTY_FILTERS);
+    setFilters({});
+    setPage(1);
+  };
+
+  const handleVerify = () => {
+    verify.mutate(undefined, {
+      onError: (error) => toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to verify the audit log. Please try again.",
+        variant: "destructive"
+      })
+    });
+  };
+
+  const entries = data?.entries ?? [];
+
+  return (
+    <AdminLayout>
+      <div className="container p-4 mx-auto">
+        <div className="flex flex-col sm:flex-row sm:items-end justify-between gap-4 mb-6">
+          <div>
+            <h1 className="text-3xl font-bold tracking-tight">Audit Log</h1>
+            <p className="text-muted-foreground">
+              Every change made by an admin, with personal details masked
+            </p>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={handleVerify} disabled={verify.isPending}>
+              <ShieldCheck className="h-4 w-4 mr-2" />
+              {verify.isPending ? "Verifying..." : "Verify Integrity"}
+            </Button>
+            <Button variant="outline" asChild>
+              <a href={adminAuditExportUrl(filters)} download>
+                <Download className="h-4 w-4 mr-2" />
+                Export CSV
+              </a>
+            </Button>
+          </div>
+        </div>
+
+        {verify.data && (
+          verify.data.valid ? (
+            <Alert className="mb-6">
+              <ShieldCheck className="h-4 w-4" />
+              <AlertTitle>Audit log intact</AlertTitle>
+              <AlertDescription>
+                All {verify.data.checked} entries match their hashes.
+              </AlertDescription>
+            </Alert>
+          ) : (
+            <Alert variant="destructive" className="mb-6">
+              <ShieldAlert className="h-4 w-4" />
+              <AlertTitle>Audit log has been tampered with</AlertTitle>
+              <AlertDescription>
+                Entry #{verify.data.brokenAt} doesn't match the chain: it, or the entry before it, was changed or removed.
+                The {verify.data.checked} entries before it are intact.
+              </AlertDescription>
+            </Alert>
+          )
+        )}
+
+        <Card className="mb-6">
+          <CardHeader>
+            <CardTitle>Filters</CardTitle>
+            <CardDescription>Actions match from the start, so "deal" finds every deal action</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+              <div className="space-y-2">
+                <Label htmlFor="audit-action">Action</Label>
+                <Input
+                  id="audit-action"
+                  placeholder="e.g. user.update"
+                  value={draft.action}
+                  onChange={(e) => setDraft({ ...draft, action: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Target type</Label>
+                <Select
+                  value={draft.targetType}
+                  onValueChange={(value) => setDraft({ ...draft, targetType: value as FilterDraft["targetType"] })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All targets</SelectItem>
+                    {ADMIN_AUDIT_TARGET_TYPES.map(type => (
+                      <SelectItem key={type} value={type}>{TARGET_LABELS[type]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="audit-target-id">Target ID</Label>
+                <Input
+                  id="audit-target-id"
+                  value={draft.targetId}
+                  onChange={(e) => setDraft({ ...draft, targetId: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="audit-actor-id">Admin user ID</Label>
+                <Input
+                  id="audit-actor-id"
+                  inputMode="numeric"
+                  value={draft.actorId}
+                  onChange={(e) => setDraft({ ...draft, actorId: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="audit-from">From</Label>
+                <Input
+                  id="audit-from"
+                  type="date"
+                  value={draft.fromDate}
+                  onChange={(e) => setDraft({ ...draft, fromDate: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="audit-to">To</Label>
+                <Input
+                  id="audit-to"
+                  type="date"
+                  value={draft.toDate}
+                  onChange={(e) => setDraft({ ...draft, toDate: e.target.value })}
+                />
+              </div>
+            </div>
+            <div className="flex gap-2 mt-4">
+              <Button onClick={applyFilters}>Apply Filters</Button>
+              <Button variant="outline" onClick={clearFilters}>Clear</Button>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardContent className="p-0">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Time</TableHead>
+                  <TableHead>Admin</TableHead>
+                  <TableHead>Action</TableHead>
+                  <TableHead>Target</TableHead>
+                  <TableHead>IP Address</TableHead>
+                  <TableHead className="text-right">Changes</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {isLoading ? (
+                  <TableRow>
+                    <TableCell colSpan={6} className="text-center py-10">
+                      <div className="flex items-center justify-center">
+                        <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-primary"></div>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ) : entries.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={6} className="text-center py-10 text-muted-foreground">
+                      No audit log entries found
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  entries.map(entry => (
+                    <TableRow key={entry.id}>
+                      <TableCell className="whitespace-nowrap">
+                        {format(new Date(entry.createdAt), "MMM d, yyyy HH:mm:ss")}
+                      </TableCell>
+                      <TableCell>{entry.actorId ?? "-"}</TableCell>
+                      <TableCell>
+                        <Badge variant="outline" className="font-mono">{entry.action}</Badge>
+                        {entry.batchId && <span className="ml-2 text-xs text-muted-foreground">bulk</span>}
+                      </TableCell>
+                      <TableCell>
+                        {TARGET_LABELS[entry.targetType as AdminAuditTargetType] ?? entry.targetType} #{entry.targetId}
+                      </TableCell>
+                      <TableCell className="text-muted-foreground">{entry.ipAddress ?? "-"}</TableCell>
+                      <TableCell className="text-right">
+                        <Button variant="ghost" size="sm" onClick={() => setSelectedEntry(entry)}>
+                          View
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+
+        <div className="flex items-center justify-between mt-4">
+          <span className="text-sm text-muted-foreground">Page {page}</span>
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" onClick={() => setPage(page - 1)} disabled={page === 1 || isFetching}>
+              <ChevronLeft className="h-4 w-4 mr-1" />
+              Previous
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => setPage(page + 1)} disabled={!data?.hasMore || isFetching}>
+              Next
+              <ChevronRight className="h-4 w-4 ml-1" />
+            </Button>
+          </div>
+        </div>
+
+        <Dialog open={selectedEntry !== null} onOpenChange={(open) => !open && setSelectedEntry(null)}>
+          <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto">
+            {selectedEntry && (
+              <>
+                <DialogHeader>
+                  <DialogTitle className="font-mono">{selectedEntry.action}</DialogTitle>
+                  <DialogDescription>
+                    Entry #{selectedEntry.id} by admin {selectedEntry.actorId ?? "unknown"} on{" "}
+                    {format(new Date(selectedEntry.createdAt), "MMM d, yyyy HH:mm:ss")}
+                  </DialogDescription>
+                </DialogHeader>
+                <div className="space-y-4">
+                  <JsonBlock label="Before" value={selectedEntry.before} />
+                  <JsonBlock label="After" value={selectedEntry.after} />
+                  {Object.keys(selectedEntry.details).length > 0 && (
+                    <JsonBlock label="Details" value={selectedEntry.details} />
+                  )}
+                  <div className="text-xs text-muted-foreground space-y-1 break-all">
+                    {selectedEntry.batchId && <p>Bulk batch: {selectedEntry.batchId}</p>}
+                    <p>User agent: {selectedEntry.userAgent ?? "-"}</p>
+                    <p className="font-mono">Hash: {selectedEntry.hash}</p>
+                  </div>
+                </div>
+              </>
+            )}
+          </DialogContent>
+        </Dialog>
+      </div>
+    </AdminLayout>
+  );
+}
@@ -40,6 +40,8 @@ import { Breadcrumb, BreadcrumbItem, BreadcrumbLink, BreadcrumbSeparator } from
 import { AlertCircle, Calendar as CalendarIcon, ArrowLeft, Save, Eye, CheckCircle2 } from "lucide-react";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import AdminLayout from "@/components/admin/AdminLayout";
+import DealRevisionReview from "@/components/admin/DealRevisionReview";
+import DealModerationPanel from "@/components/admin/DealModerationPanel";
 
 // Categories and deal types for selection
 const CATEGORIES = [
@@ -107,6 +109,7 @@ export default function EditDealPage() {
   const [submitting, setSubmitting] = useState(false);
   const [currentTab, setCurrentTab] = useState("basics");
   const [previewTerms, setPreviewTerms] = useState("");
+  const [dealStatus, setDealStatus] = useState<string | null>(null);
 
   // Set up form with default values
   const form = useForm<DealFormValues>({
@@ -170,6 +173,7 @@ export default function EditDealPage() {
           });
 
           setPreviewTerms(terms);
+          setDealStatus(response.status);
         }
       } catch (error) {
         console.error("Error fetching deal:", error);
@@ -298,6 +302,15 @@ export default function EditDealPage() {
             </div>
           </div>
         ) : (
+          <>
+          <DealRevisionReview dealId={dealId} />
+          {dealStatus === "pending" && (
+            <DealModerationPanel
+              dealId={dealId}
+              category={form.watch("category")}
+              onReviewed={(deal) => setDealStatus(deal.status)}
+            />
+          )}
           <Form {...form}>
             <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
               <Tabs value={currentTab} onValueChange={setCurrentTab} className="w-full">
@@ -769,6 +782,7 @@ export default function EditDealPage() {
               </Tabs>
             </form>
           </Form>
+          </>
         )}
       </div>
     </AdminLayout>
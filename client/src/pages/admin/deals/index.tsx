@@ -36,13 +36,20 @@ import {
   Calendar as CalendarIcon,
   Bookmark,
   Edit,
-  PlusCircle
+  PlusCircle,
+  Star,
+  StarOff,
+  Trash2
 } from 'lucide-react';
 import { useLocation } from 'wouter';
 import ViewDetailsLink from '@/components/admin/ViewDetailsLink';
+import BulkActionBar from '@/components/admin/BulkActionBar';
+import PreModerationBadge, { PreModerationReasons } from '@/components/admin/PreModerationBadge';
+import type { PreModerationResult } from '@shared/preModeration';
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
-import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useInfiniteDeals, useDealCount } from "@/hooks/use-infinite-deals";
 
 // Types for deal and business data
 interface Business {
@@ -75,6 +82,7 @@ interface Deal {
   viewCount?: number;
   revisionCount?: number;
   lastUpdated?: string;
+  preModeration?: PreModerationResult | null;
 }
 
 export default function DealsPage() {
@@ -108,41 +116,38 @@ export default function DealsPage() {
     cacheDate: undefined
   });
 
-  // Fetch deal data
-  const { data: deals = [], isLoading, refetch: refetchDeals } = useQuery({
+  // Fetch deal data a page at a time, newest first
+  const dealsPath = filter.status === 'all'
+    ? '/api/v1/admin/deals'
+    : `/api/v1/deals/status/${filter.status}`;
+  
+  const {
+    deals,
+    totalCount,
+    isLoading,
+    error: dealsError,
+    refetch: refetchDeals,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage
+  } = useInfiniteDeals<Deal>(dealsPath, {
     queryKey: ['admin', 'deals', filter.status],
-    queryFn: async () => {
-      try {
-        // Use the working admin deals endpoint
-        console.log(`Fetching admin deals`);
-        
-        const response = await apiRequest('/api/v1/admin/deals');
-        console.log('Successfully fetched deals from admin endpoint:', response);
-        
-        // Filter by status if needed
-        const status = filter.status;
-        if (status && status !== 'all') {
-          return response.filter((deal: any) => deal.status === status);
-        }
-        
-        // Update cache status
-        setDealsCacheStatus({
-          isCached: false,
-          cacheDate: Date.now()
-        });
-        
-        return response;
-      } catch (error) {
-        console.error('Error fetching deals:', error);
-        toast({
-          title: "Error fetching deals",
-          description: "There was a problem loading deals. Please try again.",
-          variant: "destructive",
-        });
-        return [];
-      }
-    }
+    onResponse: () => setDealsCacheStatus({
+      isCached: false,
+      cacheDate: Date.now()
+    }),
   });
+  
+  useEffect(() => {
+    if (dealsError) {
+      console.error('Error fetching deals:', dealsError);
+      toast({
+        title: "Error fetching deals",
+        description: "There was a problem loading deals. Please try again.",
+        variant: "destructive",
+      });
+    }
+  }, [dealsError, toast]);
 
   // Mutation for verifying deals
   const verifyDealMutation = useMutation({
@@ -503,11 +508,12 @@ export default function DealsPage() {
     setDealDetailDialogOpen(true);
   };
 
-  // Counts by status
-  const pendingDealsCount = deals?.filter((d: Deal) => d.status === "pending").length || 0;
-  const verifiedDealsCount = deals?.filter((d: Deal) => d.status === "verified").length || 0;
-  const rejectedDealsCount = deals?.filter((d: Deal) => d.status === "rejected").length || 0;
-  const expiredDealsCount = deals?.filter((d: Deal) => d.status === "expired").length || 0;
+  // Counts by status, from the listing endpoints' total count header
+  const { data: allDealsCount = 0 } = useDealCount('/api/v1/admin/deals', ['admin', 'deals', 'all']);
+  const { data: pendingDealsCount = 0 } = useDealCount('/api/v1/deals/status/pending', ['admin', 'deals', 'pending']);
+  const { data: verifiedDealsCount = 0 } = useDealCount('/api/v1/deals/status/verified', ['admin', 'deals', 'verified']);
+  const { data: rejectedDealsCount = 0 } = useDealCount('/api/v1/deals/status/rejected', ['admin', 'deals', 'rejected']);
+  const { data: expiredDealsCount = 0 } = useDealCount('/api/v1/deals/status/expired', ['admin', 'deals', 'expired']);
 
   if (isLoading) {
     return (
@@ -699,7 +705,7 @@ export default function DealsPage() {
             <TabsList className="mb-4">
               <TabsTrigger value="all">
                 All Deals
-                <Badge variant="outline" className="ml-2">{deals.length}</Badge>
+                <Badge variant="outline" className="ml-2">{allDealsCount}</Badge>
               </TabsTrigger>
               <TabsTrigger value="pending">
                 Pending
@@ -810,7 +816,12 @@ export default function DealsPage() {
                           <span>{deal.redemptionCount || 0}</span>
                         </div>
                       </TableCell>
-                      <TableCell>{getStatusBadge(deal.status)}</TableCell>
+                      <TableCell>
+                        <div className="flex flex-col gap-1">
+                          {getStatusBadge(deal.status)}
+                          <PreModerationBadge result={deal.preModeration} />
+                        </div>
+                      </TableCell>
                       <TableCell>
                         <div className="flex items-center gap-2">
                           <Button
@@ -919,53 +930,50 @@ export default function DealsPage() {
                 </div>
               )}
             </div>
-          </Tabs>
-        </CardContent>
-        
-        <CardFooter className="flex justify-between border-t pt-6 flex-col sm:flex-row gap-4">
-          <div className="text-sm text-muted-foreground">
-            {selectedDeals.length === 0 
-              ? 'No deals selected' 
-              : `${selectedDeals.length} deal${selectedDeals.length === 1 ? '' : 's'} selected`}
-          </div>
-          <div className="flex gap-2">
-            {selectedDeals.length > 0 && (
-              <>
-                <Button 
-                  variant="outline" 
-                  size="sm"
-                  onClick={() => setSelectedDeals([])}
-                >
-                  Clear Selection
-                </Button>
+            
+            <div className="flex items-center justify-between mt-4 text-sm text-muted-foreground">
+              <span>Loaded {deals.length} of {totalCount} deals</span>
+              {hasNextPage && (
                 <Button 
                   variant="outline" 
                   size="sm"
-                  className="text-green-600"
-                  onClick={() => {
-                    // Handle bulk verification
-                    selectedDeals.forEach(id => verifyDealMutation.mutate({dealId: id}));
-                  }}
+                  onClick={() => fetchNextPage()}
+                  disabled={isFetchingNextPage}
                 >
-                  <Check className="mr-2 h-4 w-4" />
-                  Verify Selected
+                  {isFetchingNextPage ? 'Loading...' : 'Load more'}
                 </Button>
-                <Button 
-                  variant="outline" 
-                  size="sm"
-                  className="text-destructive"
-                  onClick={() => {
-                    // Open reject dialog for bulk rejection
-                    setSelectedDealForRejection(-1); // Use -1 to indicate bulk operation
-                    setRejectDialogOpen(true);
-                  }}
-                >
-                  <X className="mr-2 h-4 w-4" />
-                  Reject Selected
-                </Button>
-              </>
-            )}
-          </div>
+              )}
+            </div>
+          </Tabs>
+        </CardContent>
+        
+        <CardFooter className="border-t pt-6">
+          <BulkActionBar
+            target="deal"
+            noun="deal"
+            selectedIds={selectedDeals}
+            onSelectionChange={setSelectedDeals}
+            onComplete={() => queryClient.invalidateQueries({ queryKey: ['admin', 'deals'] })}
+            actions={[
+              { action: 'approve', label: 'Verify Selected', icon: <Check className="mr-2 h-4 w-4" />, className: 'text-green-600' },
+              { action: 'reject', label: 'Reject Selected', icon: <X className="mr-2 h-4 w-4" />, className: 'text-destructive' },
+              { action: 'feature', label: 'Feature', icon: <Star className="mr-2 h-4 w-4" /> },
+              { action: 'unfeature', label: 'Unfeature', icon: <StarOff className="mr-2 h-4 w-4" /> },
+              {
+                action: 'expire',
+                label: 'Expire',
+                icon: <Clock className="mr-2 h-4 w-4" />,
+                confirm: 'The selected deals will be taken down and marked as expired.'
+              },
+              {
+                action: 'delete',
+                label: 'Delete',
+                icon: <Trash2 className="mr-2 h-4 w-4" />,
+                className: 'text-destructive',
+                confirm: 'The selected deals and their redemption history will be permanently deleted.'
+              }
+            ]}
+          />
         </CardFooter>
       </Card>
 
@@ -973,11 +981,7 @@ export default function DealsPage() {
       <Dialog open={rejectDialogOpen} onOpenChange={setRejectDialogOpen}>
         <DialogContent>
           <DialogHeader>
-            <DialogTitle>
-              {selectedDealForRejection === -1 
-                ? `Reject ${selectedDeals.length} Selected Deal${selectedDeals.length !== 1 ? 's' : ''}` 
-                : 'Reject Deal'}
-            </DialogTitle>
+            <DialogTitle>Reject Deal</DialogTitle>
             <DialogDescription>
               Please provide a reason for rejecting this deal. This feedback will be sent to the business owner.
             </DialogDescription>
@@ -1138,6 +1142,16 @@ export default function DealsPage() {
                 </div>
               )}
               
+              {selectedDealForDetail.preModeration && (
+                <div className="space-y-2">
+                  <div className="flex items-center gap-2">
+                    <h3 className="text-sm font-medium">Automated Checks</h3>
+                    <PreModerationBadge result={selectedDealForDetail.preModeration} />
+                  </div>
+                  <PreModerationReasons result={selectedDealForDetail.preModeration} />
+                </div>
+              )}
+              
               <div className="grid grid-cols-2 gap-4 mt-4">
                 <div className="rounded-md border p-3">
                   <div className="text-xs text-muted-foreground">Submitted</div>
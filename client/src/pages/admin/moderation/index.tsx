@@ -0,0 +1,453 @@
+import { useState } from "react";
+import { Plus, Pencil } from "lucide-react";
+import type { ModerationChecklistItem, RejectionReason } from "@shared/schema";
+import { MODERATION_TARGET_TYPES, type ModerationTargetType } from "@shared/moderation";
+import AdminLayout from "@/components/admin/AdminLayout";
+import PreModerationRules from "@/components/admin/PreModerationRules";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import {
+  useRejectionReasons,
+  useReviewChecklist,
+  useRejectionReasonStats,
+  useSaveRejectionReason,
+  useSaveChecklistItem
+} from "@/hooks/use-moderation";
+
+const TARGET_LABELS: Record<ModerationTargetType, string> = {
+  deal: "Deals",
+  business: "Businesses"
+};
+
+// Report periods, in days
+const REPORT_PERIODS = [30, 90, 365];
+
+type ReasonDraft = Pick<RejectionReason, "code" | "targetType" | "label" | "template"> & { id?: number };
+type ChecklistDraft = Pick<ModerationChecklistItem, "targetType" | "label" | "sortOrder"> & {
+  id?: number;
+  category: string;
+  description: string;
+};
+
+const EMPTY_REASON: ReasonDraft = { code: "", targetType: "deal", label: "", template: "" };
+const EMPTY_CHECKLIST_ITEM: ChecklistDraft = { targetType: "deal", category: "", label: "", description: "", sortOrder: 0 };
+
+function TargetTypeSelect({ value, onChange, disabled }: { value: string; onChange: (value: ModerationTargetType) => void; disabled?: boolean }) {
+  return (
+    <Select value={value} onValueChange={(v) => onChange(v as ModerationTargetType)} disabled={disabled}>
+      <SelectTrigger>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {MODERATION_TARGET_TYPES.map(type => (
+          <SelectItem key={type} value={type}>{TARGET_LABELS[type]}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+/**
+ * Moderation policy: the rejection reason catalogue, review checklists,
+ * the automated rules deals go through on submission and which rejection
+ * reasons come up most often
+ */
+export default function AdminModerationPage() {
+  const { toast } = useToast();
+  const [reasonDraft, setReasonDraft] = useState<ReasonDraft | null>(null);
+  const [checklistDraft, setChecklistDraft] = useState<ChecklistDraft | null>(null);
+  const [reportPeriod, setReportPeriod] = useState(90);
+
+  const { data: reasons = [] } = useRejectionReasons(undefined, true);
+  const { data: checklistItems = [] } = useReviewChecklist(undefined, undefined, true);
+  const { data: stats } = useRejectionReasonStats(undefined, reportPeriod);
+  const saveReason = useSaveRejectionReason();
+  const saveChecklistItem = useSaveChecklistItem();
+
+  const onError = (error: unknown) => {
+    toast({
+      title: "Error",
+      description: error instanceof Error ? error.message : "Failed to save. Please try again.",
+      variant: "destructive"
+    });
+  };
+
+  const handleSaveReason = () => {
+    if (!reasonDraft) return;
+    saveReason.mutate(reasonDraft, {
+      onSuccess: () => setReasonDraft(null),
+      onError
+    });
+  };
+
+  const handleSaveChecklistItem = () => {
+    if (!checklistDraft) return;
+    saveChecklistItem.mutate({
+      ...checklistDraft,
+      category: checklistDraft.category.trim() || null,
+      description: checklistDraft.description.trim() || null
+    }, {
+      onSuccess: () => setChecklistDraft(null),
+      onError
+    });
+  };
+
+  return (
+    <AdminLayout>
+      <div className="container p-4 mx-auto">
+        <div className="mb-6">
+          <h1 className="text-3xl font-bold tracking-tight">Moderation</h1>
+          <p className="text-muted-foreground">
+            Rejection reasons, review checklists, automated rules and rejection trends
+          </p>
+        </div>
+
+        <Tabs defaultValue="reasons" className="w-full">
+          <TabsList className="mb-6">
+            <TabsTrigger value="reasons">Rejection Reasons</TabsTrigger>
+            <TabsTrigger value="checklist">Review Checklist</TabsTrigger>
+            <TabsTrigger value="rules">Automated Rules</TabsTrigger>
+            <TabsTrigger value="report">Report</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="reasons">
+            <Card>
+              <CardHeader className="flex flex-row items-start justify-between space-y-0">
+                <div>
+                  <CardTitle>Rejection Reasons</CardTitle>
+                  <CardDescription>
+                    Reviewers pick from these when rejecting. The template is the text the vendor sees.
+                  </CardDescription>
+                </div>
+                <Button onClick={() => setReasonDraft(EMPTY_REASON)}>
+                  <Plus className="h-4 w-4 mr-2" />
+                  Add Reason
+                </Button>
+              </CardHeader>
+              <CardContent>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Reason</TableHead>
+                      <TableHead>Applies To</TableHead>
+                      <TableHead>Template</TableHead>
+                      <TableHead>Active</TableHead>
+                      <TableHead />
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {reasons.map(reason => (
+                      <TableRow key={reason.id}>
+                        <TableCell>
+                          <div className="font-medium">{reason.label}</div>
+                          <div className="text-xs text-muted-foreground">{reason.code}</div>
+                        </TableCell>
+                        <TableCell>
+                          <Badge variant="outline">{TARGET_LABELS[reason.targetType as ModerationTargetType] ?? reason.targetType}</Badge>
+                        </TableCell>
+                        <TableCell className="max-w-md text-sm text-muted-foreground">{reason.template}</TableCell>
+                        <TableCell>
+                          <Switch
+                            checked={reason.active}
+                            onCheckedChange={(active) => saveReason.mutate({ id: reason.id, active }, { onError })}
+                          />
+                        </TableCell>
+                        <TableCell>
+                          <Button variant="ghost" size="icon" aria-label="Edit reason" onClick={() => setReasonDraft(reason)}>
+                            <Pencil className="h-4 w-4" />
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                    {reasons.length === 0 && (
+                      <TableRow>
+                        <TableCell colSpan={5} className="text-center text-muted-foreground">
+                          No rejection reasons yet
+                        </TableCell>
+                      </TableRow>
+                    )}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="checklist">
+            <Card>
+              <CardHeader className="flex flex-row items-start justify-between space-y-0">
+                <div>
+                  <CardTitle>Review Checklist</CardTitle>
+                  <CardDescription>
+                    Items reviewers tick before approving. Leave the category empty for items that apply to every category.
+                  </CardDescription>
+                </div>
+                <Button onClick={() => setChecklistDraft(EMPTY_CHECKLIST_ITEM)}>
+                  <Plus className="h-4 w-4 mr-2" />
+                  Add Item
+                </Button>
+              </CardHeader>
+              <CardContent>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Item</TableHead>
+                      <TableHead>Applies To</TableHead>
+                      <TableHead>Category</TableHead>
+                      <TableHead>Order</TableHead>
+                      <TableHead>Active</TableHead>
+                      <TableHead />
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {checklistItems.map(item => (
+                      <TableRow key={item.id}>
+                        <TableCell>
+                          <div className="font-medium">{item.label}</div>
+                          {item.description && (
+                            <div className="text-xs text-muted-foreground">{item.description}</div>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          <Badge variant="outline">{TARGET_LABELS[item.targetType as ModerationTargetType] ?? item.targetType}</Badge>
+                        </TableCell>
+                        <TableCell>{item.category ?? "All categories"}</TableCell>
+                        <TableCell>{item.sortOrder}</TableCell>
+                        <TableCell>
+                          <Switch
+                            checked={item.active}
+                            onCheckedChange={(active) => saveChecklistItem.mutate({ id: item.id, active }, { onError })}
+                          />
+                        </TableCell>
+                        <TableCell>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            aria-label="Edit checklist item"
+                            onClick={() => setChecklistDraft({
+                              ...item,
+                              category: item.category ?? "",
+                              description: item.description ?? ""
+                            })}
+                          >
+                            <Pencil className="h-4 w-4" />
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                    {checklistItems.length === 0 && (
+                      <TableRow>
+                        <TableCell colSpan={6} className="text-center text-muted-foreground">
+                          No checklist items yet
+                        </TableCell>
+                      </TableRow>
+                    )}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="rules">
+            <Card>
+              <CardHeader>
+                <CardTitle>Automated Rules</CardTitle>
+                <CardDescription>
+                  Checked whenever a vendor submits a deal. Any rejecting rule rejects the deal; otherwise any
+                  review rule sends it to a reviewer. Deals from trusted vendors that nothing else flagged are approved.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <PreModerationRules />
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="report">
+            <Card>
+              <CardHeader className="flex flex-row items-start justify-between space-y-0">
+                <div>
+                  <CardTitle>Most Frequent Rejection Reasons</CardTitle>
+                  <CardDescription>
+                    Where vendors most often miss the guidelines
+                  </CardDescription>
+                </div>
+                <Select value={String(reportPeriod)} onValueChange={(value) => setReportPeriod(parseInt(value, 10))}>
+                  <SelectTrigger className="w-40">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {REPORT_PERIODS.map(days => (
+                      <SelectItem key={days} value={String(days)}>Last {days} days</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </CardHeader>
+              <CardContent>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Reason</TableHead>
+                      <TableHead>Applies To</TableHead>
+                      <TableHead className="text-right">Rejections</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {(stats?.reasons ?? []).map(reason => (
+                      <TableRow key={reason.code}>
+                        <TableCell className="font-medium">{reason.label}</TableCell>
+                        <TableCell>{TARGET_LABELS[reason.targetType as ModerationTargetType] ?? "—"}</TableCell>
+                        <TableCell className="text-right">{reason.count}</TableCell>
+                      </TableRow>
+                    ))}
+                    {(stats?.reasons ?? []).length === 0 && (
+                      <TableRow>
+                        <TableCell colSpan={3} className="text-center text-muted-foreground">
+                          No rejections in this period
+                        </TableCell>
+                      </TableRow>
+                    )}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+          </TabsContent>
+        </Tabs>
+
+        <Dialog open={!!reasonDraft} onOpenChange={(open) => !open && setReasonDraft(null)}>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>{reasonDraft?.id ? "Edit Rejection Reason" : "Add Rejection Reason"}</DialogTitle>
+            </DialogHeader>
+            {reasonDraft && (
+              <div className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="reason-code">Code</Label>
+                  <Input
+                    id="reason-code"
+                    placeholder="e.g. misleading_discount"
+                    value={reasonDraft.code}
+                    disabled={!!reasonDraft.id}
+                    onChange={(e) => setReasonDraft({ ...reasonDraft, code: e.target.value })}
+                  />
+                  {!reasonDraft.id && (
+                    <p className="text-xs text-muted-foreground">
+                      Lowercase letters, numbers and underscores. Codes can't be changed later.
+                    </p>
+                  )}
+                </div>
+                <div className="space-y-2">
+                  <Label>Applies To</Label>
+                  <TargetTypeSelect
+                    value={reasonDraft.targetType}
+                    disabled={!!reasonDraft.id}
+                    onChange={(targetType) => setReasonDraft({ ...reasonDraft, targetType })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="reason-label">Label</Label>
+                  <Input
+                    id="reason-label"
+                    value={reasonDraft.label}
+                    onChange={(e) => setReasonDraft({ ...reasonDraft, label: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="reason-template">Template</Label>
+                  <Textarea
+                    id="reason-template"
+                    placeholder="The text the vendor sees when this reason is picked"
+                    value={reasonDraft.template}
+                    maxLength={1000}
+                    onChange={(e) => setReasonDraft({ ...reasonDraft, template: e.target.value })}
+                  />
+                </div>
+              </div>
+            )}
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setReasonDraft(null)}>Cancel</Button>
+              <Button
+                onClick={handleSaveReason}
+                disabled={!reasonDraft?.code || !reasonDraft?.label.trim() || !reasonDraft?.template.trim() || saveReason.isPending}
+              >
+                Save
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+
+        <Dialog open={!!checklistDraft} onOpenChange={(open) => !open && setChecklistDraft(null)}>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>{checklistDraft?.id ? "Edit Checklist Item" : "Add Checklist Item"}</DialogTitle>
+            </DialogHeader>
+            {checklistDraft && (
+              <div className="space-y-4">
+                <div className="space-y-2">
+                  <Label>Applies To</Label>
+                  <TargetTypeSelect
+                    value={checklistDraft.targetType}
+                    disabled={!!checklistDraft.id}
+                    onChange={(targetType) => setChecklistDraft({ ...checklistDraft, targetType })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="checklist-category">Category</Label>
+                  <Input
+                    id="checklist-category"
+                    placeholder="All categories"
+                    value={checklistDraft.category}
+                    onChange={(e) => setChecklistDraft({ ...checklistDraft, category: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="checklist-label">Item</Label>
+                  <Input
+                    id="checklist-label"
+                    value={checklistDraft.label}
+                    onChange={(e) => setChecklistDraft({ ...checklistDraft, label: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="checklist-description">Description (Optional)</Label>
+                  <Textarea
+                    id="checklist-description"
+                    value={checklistDraft.description}
+                    onChange={(e) => setChecklistDraft({ ...checklistDraft, description: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="checklist-order">Order</Label>
+                  <Input
+                    id="checklist-order"
+                    type="number"
+                    value={checklistDraft.sortOrder}
+                    onChange={(e) => setChecklistDraft({ ...checklistDraft, sortOrder: parseInt(e.target.value, 10) || 0 })}
+                  />
+                </div>
+              </div>
+            )}
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setChecklistDraft(null)}>Cancel</Button>
+              <Button
+                onClick={handleSaveChecklistItem}
+                disabled={!checklistDraft?.label.trim() || saveChecklistItem.isPending}
+              >
+                Save
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+      </div>
+    </AdminLayout>
+  );
+}
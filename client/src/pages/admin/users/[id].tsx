@@ -21,6 +21,19 @@ import {
 } from "@/components/ui/select";
 import { Separator } from "@/components/ui/separator";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/contexts/AuthContext";
+import { useAssignStaffRole, useSendPasswordReset, useStaffPermissions } from "@/hooks/use-staff-permissions";
+import { useForceLogout, useUserSessions } from "@/hooks/use-sessions";
+import { useResetTwoFactor, useUserTwoFactor } from "@/hooks/use-two-factor";
+import { lastActive } from "@/components/profile/ActiveDevices";
+import { deviceName } from "@shared/sessions";
+import {
+  ROLE_PERMISSIONS,
+  STAFF_ROLES,
+  STAFF_ROLE_LABELS,
+  staffRoleOf,
+  type StaffRole,
+} from "@shared/permissions";
 import { format } from "date-fns";
 import {
   ArrowLeft,
@@ -34,6 +47,8 @@ import {
   Calendar,
   Edit,
   Trash2,
+  KeyRound,
+  LogOut,
 } from "lucide-react";
 
 interface UserData {
@@ -46,6 +61,7 @@ interface UserData {
   phoneVerified: boolean;
   address: string;
   userType: "individual" | "business" | "admin";
+  staffRole: StaffRole | null;
   created_at: string;
 }
 
@@ -58,6 +74,15 @@ const UserDetailPage = () => {
   const [isEditing, setIsEditing] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
   const { toast } = useToast();
+  const { user: currentUser } = useAuth();
+  const { can } = useStaffPermissions();
+  const assignRole = useAssignStaffRole(userId ?? "");
+  const sendPasswordReset = useSendPasswordReset(userId ?? "");
+  const { data: sessionData } = useUserSessions(userId, can("users.read"));
+  const forceLogout = useForceLogout(userId ?? "");
+  const sessions = sessionData?.sessions ?? [];
+  const { data: twoFactor } = useUserTwoFactor(userId, can("users.read"));
+  const resetTwoFactor = useResetTwoFactor(userId ?? "");
 
   // Form state for editing
   const [editedUser, setEditedUser] = useState<UserData | null>(null);
@@ -164,6 +189,57 @@ const UserDetailPage = () => {
     setIsEditing(false);
   };
 
+  const handleRoleChange = (role: StaffRole) => {
+    assignRole.mutate(role, {
+      onSuccess: (updatedUser: UserData) => {
+        setUser(updatedUser);
+        setEditedUser(updatedUser);
+        toast({
+          title: "Role updated",
+          description: `${updatedUser.firstName} is now ${STAFF_ROLE_LABELS[role].toLowerCase()}`
+        });
+      },
+      onError: (error) => toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to update the role",
+        variant: "destructive"
+      })
+    });
+  };
+
+  const handlePasswordReset = () => {
+    sendPasswordReset.mutate(undefined, {
+      onSuccess: (result) => toast({ title: "Email sent", description: result.message }),
+      onError: (error) => toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to send the password reset email",
+        variant: "destructive"
+      })
+    });
+  };
+
+  const handleForceLogout = () => {
+    forceLogout.mutate(undefined, {
+      onSuccess: (result) => toast({ title: "Signed out everywhere", description: result.message }),
+      onError: (error) => toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to sign the user out",
+        variant: "destructive"
+      })
+    });
+  };
+
+  const handleResetTwoFactor = () => {
+    resetTwoFactor.mutate(undefined, {
+      onSuccess: (result) => toast({ title: "Two-factor reset", description: result.message }),
+      onError: (error) => toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to reset two-factor authentication",
+        variant: "destructive"
+      })
+    });
+  };
+
   const getUserTypeIcon = (userType: string) => {
     switch (userType) {
       case "individual":
@@ -231,6 +307,13 @@ const UserDetailPage = () => {
     );
   }
 
+  // Other admin accounts can only be changed by super admins
+  const canEdit = can("users.manage") && (user.userType !== "admin" || can("roles.assign"));
+  const isSelf = currentUser?.id === user.id;
+  const isStaff = user.userType === "admin";
+  // Null for an admin without a recognized role, who has no admin access until given one
+  const staffRole = staffRoleOf(user);
+
   return (
     <AdminLayout>
       <div className="max-w-4xl mx-auto">
@@ -270,7 +353,7 @@ const UserDetailPage = () => {
                   {isSaving ? "Saving..." : "Save Changes"}
                 </Button>
               </>
-            ) : (
+            ) : canEdit && (
               <Button 
                 className="bg-[#00796B] hover:bg-[#00695C]"
                 onClick={() => setIsEditing(true)}
@@ -404,7 +487,7 @@ const UserDetailPage = () => {
                     <SelectContent>
                       <SelectItem value="individual">Customer</SelectItem>
                       <SelectItem value="business">Vendor</SelectItem>
-                      <SelectItem value="admin">Admin</SelectItem>
+                      {can("roles.assign") && <SelectItem value="admin">Admin</SelectItem>}
                     </SelectContent>
                   </Select>
                 </div>
@@ -412,6 +495,131 @@ const UserDetailPage = () => {
             </CardContent>
           </Card>
 
+          {/* Access */}
+          {(isStaff || can("users.reset_password") || can("users.read")) && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <KeyRound className="h-4 w-4" />
+                  Access
+                </CardTitle>
+                <CardDescription>
+                  {isStaff ? "What this admin can do, and signing in" : "Signing in"}
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {isStaff && (
+                  <div className="space-y-2">
+                    <Label>Staff Role</Label>
+                    <Select
+                      value={staffRole ?? undefined}
+                      onValueChange={(value) => handleRoleChange(value as StaffRole)}
+                      disabled={!can("roles.assign") || isSelf || assignRole.isPending}
+                    >
+                      <SelectTrigger className="w-full md:w-64">
+                        <SelectValue placeholder="No role: no admin access" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {STAFF_ROLES.map(role => (
+                          <SelectItem key={role} value={role}>{STAFF_ROLE_LABELS[role]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    {isSelf && (
+                      <p className="text-xs text-muted-foreground">You can't change your own role</p>
+                    )}
+                    <div className="flex flex-wrap gap-1 pt-1">
+                      {staffRole && ROLE_PERMISSIONS[staffRole].map(permission => (
+                        <Badge key={permission} variant="secondary" className="font-mono text-xs font-normal">
+                          {permission}
+                        </Badge>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
+                {isStaff && can("users.reset_password") && <Separator />}
+
+                {can("users.reset_password") && (
+                  <div className="flex items-center justify-between gap-4">
+                    <div>
+                      <p className="text-sm font-medium">Password</p>
+                      <p className="text-sm text-muted-foreground">
+                        Email a link to choose a new password; it expires after an hour
+                      </p>
+                    </div>
+                    <Button variant="outline" onClick={handlePasswordReset} disabled={sendPasswordReset.isPending}>
+                      <Mail className="mr-2 h-4 w-4" />
+                      {sendPasswordReset.isPending ? "Sending..." : "Send Reset Email"}
+                    </Button>
+                  </div>
+                )}
+
+                {(isStaff || can("users.reset_password")) && can("users.read") && <Separator />}
+
+                {can("users.read") && (
+                  <div className="space-y-3">
+                    <div className="flex items-center justify-between gap-4">
+                      <div>
+                        <p className="text-sm font-medium">Signed-in Devices</p>
+                        <p className="text-sm text-muted-foreground">
+                          {sessions.length === 0
+                            ? "Not signed in anywhere"
+                            : `Signed in on ${sessions.length} device${sessions.length === 1 ? "" : "s"}`}
+                        </p>
+                      </div>
+                      {can("users.manage") && (
+                        <Button
+                          variant="outline"
+                          onClick={handleForceLogout}
+                          disabled={isSelf || sessions.length === 0 || forceLogout.isPending}
+                        >
+                          <LogOut className="mr-2 h-4 w-4" />
+                          {forceLogout.isPending ? "Signing out..." : "Sign Out Everywhere"}
+                        </Button>
+                      )}
+                    </div>
+                    {sessions.length > 0 && (
+                      <ul className="space-y-1 text-sm">
+                        {sessions.map(session => (
+                          <li key={session.id} className="flex justify-between gap-4">
+                            <span>{deviceName(session)}</span>
+                            <span className="text-muted-foreground">{lastActive(session)}</span>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+                )}
+
+                {can("users.read") && twoFactor?.available && <Separator />}
+
+                {can("users.read") && twoFactor?.available && (
+                  <div className="flex items-center justify-between gap-4">
+                    <div>
+                      <p className="text-sm font-medium">Two-Factor Authentication</p>
+                      <p className="text-sm text-muted-foreground">
+                        {twoFactor.enabled
+                          ? `On, ${twoFactor.recoveryCodesLeft} recovery code${twoFactor.recoveryCodesLeft === 1 ? "" : "s"} left`
+                          : twoFactor.required ? "Not set up yet; required at next sign-in" : "Off"}
+                      </p>
+                    </div>
+                    {can("users.manage") && (
+                      <Button
+                        variant="outline"
+                        onClick={handleResetTwoFactor}
+                        disabled={isSelf || !twoFactor.enabled || resetTwoFactor.isPending}
+                      >
+                        <KeyRound className="mr-2 h-4 w-4" />
+                        {resetTwoFactor.isPending ? "Resetting..." : "Reset Two-Factor"}
+                      </Button>
+                    )}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          )}
+
           {/* Account Information */}
           <Card>
             <CardHeader>
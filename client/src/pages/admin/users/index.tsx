@@ -22,6 +22,7 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
 import {
   Table,
   TableBody,
@@ -36,6 +37,7 @@ import {
   CardDescription,
   CardHeader,
   CardTitle,
+  CardFooter,
 } from "@/components/ui/card";
 import {
   DropdownMenu,
@@ -65,6 +67,8 @@ import {
 import { useToast } from "@/hooks/use-toast";
 import { format } from "date-fns";
 import { apiRequest } from "@/lib/queryClient";
+import BulkActionBar from "@/components/admin/BulkActionBar";
+import LockedAccounts from "@/components/admin/LockedAccounts";
 
 // Helper function to check if a date string is valid
 function isValidDate(dateString: string): boolean {
@@ -128,6 +132,8 @@ const UserManagementPage = () => {
   const [isAddUserDialogOpen, setIsAddUserDialogOpen] = useState(false);
   const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
   const [selectedUserId, setSelectedUserId] = useState<number | null>(null);
+  // Bulk actions address users by profile UUID
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
   const { toast } = useToast();
 
   // Form state for adding a user
@@ -282,6 +288,9 @@ const UserManagementPage = () => {
     setAdminCount(users.filter(u => u.userType === "admin").length);
   }, [users, searchQuery, userTypeFilter, marketingConsentFilter, sortField, sortDirection]);
 
+  // Admin accounts can't be changed in bulk
+  const selectableUsers = filteredUsers.filter(user => user.userType !== "admin");
+
   const handleSort = (field: string) => {
     if (sortField === field) {
       setSortDirection(sortDirection === "asc" ? "desc" : "asc");
@@ -435,6 +444,8 @@ const UserManagementPage = () => {
         </Card>
       </div>
 
+      <LockedAccounts />
+
       <Tabs defaultValue="all" className="mb-6">
         <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4 mb-4">
           <TabsList>
@@ -508,6 +519,13 @@ const UserManagementPage = () => {
               <Table>
                 <TableHeader>
                   <TableRow>
+                    <TableHead className="w-[40px]">
+                      <Checkbox
+                        checked={selectableUsers.length > 0 && selectableUsers.every(user => selectedIds.includes(String(user.id)))}
+                        onCheckedChange={(checked) => setSelectedIds(checked ? selectableUsers.map(user => String(user.id)) : [])}
+                        aria-label="Select all users"
+                      />
+                    </TableHead>
                     <TableHead className="w-[250px]">
                       <Button 
                         variant="ghost" 
@@ -571,7 +589,7 @@ const UserManagementPage = () => {
                 <TableBody>
                   {isLoading ? (
                     <TableRow>
-                      <TableCell colSpan={6} className="text-center py-10">
+                      <TableCell colSpan={7} className="text-center py-10">
                         <div className="flex items-center justify-center">
                           <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-primary"></div>
                         </div>
@@ -579,7 +597,7 @@ const UserManagementPage = () => {
                     </TableRow>
                   ) : filteredUsers.length === 0 ? (
                     <TableRow>
-                      <TableCell colSpan={6} className="text-center py-10">
+                      <TableCell colSpan={7} className="text-center py-10">
                         <div className="flex flex-col items-center justify-center">
                           <Users className="h-12 w-12 text-muted-foreground mb-3" />
                           <p className="text-muted-foreground">No users found</p>
@@ -598,6 +616,16 @@ const UserManagementPage = () => {
                   ) : (
                     filteredUsers.map((user) => (
                       <TableRow key={user.id}>
+                        <TableCell>
+                          <Checkbox
+                            checked={selectedIds.includes(String(user.id))}
+                            disabled={user.userType === "admin"}
+                            onCheckedChange={(checked) => setSelectedIds(checked
+                              ? [...selectedIds, String(user.id)]
+                              : selectedIds.filter(id => id !== String(user.id)))}
+                            aria-label={`Select ${user.firstName} ${user.lastName}`}
+                          />
+                        </TableCell>
                         <TableCell className="font-medium">
                           {user.firstName} {user.lastName}
                         </TableCell>
@@ -646,6 +674,31 @@ const UserManagementPage = () => {
                 </TableBody>
               </Table>
             </CardContent>
+            <CardFooter className="border-t pt-6">
+              <BulkActionBar
+                target="user"
+                noun="user"
+                selectedIds={selectedIds}
+                onSelectionChange={setSelectedIds}
+                onComplete={() => fetchUsers()}
+                actions={[
+                  { action: "activate", label: "Activate", icon: <CheckCircle className="mr-2 h-4 w-4" />, className: "text-green-600" },
+                  {
+                    action: "deactivate",
+                    label: "Deactivate",
+                    icon: <XCircle className="mr-2 h-4 w-4" />,
+                    confirm: "The selected users won't be able to use their accounts until they are activated again."
+                  },
+                  {
+                    action: "delete",
+                    label: "Delete",
+                    icon: <Trash2 className="mr-2 h-4 w-4" />,
+                    className: "text-red-500",
+                    confirm: "The selected users and their data will be permanently deleted."
+                  }
+                ]}
+              />
+            </CardFooter>
           </Card>
         </TabsContent>
 
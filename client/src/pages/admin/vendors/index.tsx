@@ -24,6 +24,7 @@ import {
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
 import {
   Table,
   TableBody,
@@ -68,6 +69,7 @@ import {
 import { useToast } from "@/hooks/use-toast";
 import { format } from "date-fns";
 import { apiRequest } from "@/lib/queryClient";
+import BulkActionBar from "@/components/admin/BulkActionBar";
 
 // Local interface for display purposes, not tied directly to the DB schema
 interface Business {
@@ -100,6 +102,7 @@ export default function VendorsPage() {
   const [businessToDelete, setBusinessToDelete] = useState<Business | null>(null);
   const [isDeleting, setIsDeleting] = useState(false);
   const [selectedBusinessId, setSelectedBusinessId] = useState<number | null>(null);
+  const [selectedIds, setSelectedIds] = useState<number[]>([]);
   const { toast } = useToast();
 
   // Business categories
@@ -657,6 +660,13 @@ export default function VendorsPage() {
           <Table>
             <TableHeader>
               <TableRow>
+                <TableHead className="w-[40px]">
+                  <Checkbox
+                    checked={filteredBusinesses.length > 0 && filteredBusinesses.every(business => selectedIds.includes(business.id))}
+                    onCheckedChange={(checked) => setSelectedIds(checked ? filteredBusinesses.map(business => business.id) : [])}
+                    aria-label="Select all vendors"
+                  />
+                </TableHead>
                 <TableHead className="w-[250px]">
                   <Button 
                     variant="ghost" 
@@ -721,7 +731,7 @@ export default function VendorsPage() {
             <TableBody>
               {isLoading ? (
                 <TableRow>
-                  <TableCell colSpan={7} className="text-center py-10">
+                  <TableCell colSpan={8} className="text-center py-10">
                     <div className="flex items-center justify-center">
                       <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-primary"></div>
                     </div>
@@ -729,7 +739,7 @@ export default function VendorsPage() {
                 </TableRow>
               ) : filteredBusinesses.length === 0 ? (
                 <TableRow>
-                  <TableCell colSpan={7} className="text-center py-10">
+                  <TableCell colSpan={8} className="text-center py-10">
                     <div className="flex flex-col items-center justify-center">
                       <Building className="h-12 w-12 text-muted-foreground mb-3" />
                       <p className="text-muted-foreground">No vendors found</p>
@@ -748,6 +758,15 @@ export default function VendorsPage() {
               ) : (
                 filteredBusinesses.map((business) => (
                   <TableRow key={business.id}>
+                    <TableCell>
+                      <Checkbox
+                        checked={selectedIds.includes(business.id)}
+                        onCheckedChange={(checked) => setSelectedIds(checked
+                          ? [...selectedIds, business.id]
+                          : selectedIds.filter(id => id !== business.id))}
+                        aria-label={`Select ${business.businessName}`}
+                      />
+                    </TableCell>
                     <TableCell className="font-medium">
                       <div className="flex flex-col">
                         <span>{business.businessName}</span>
@@ -811,6 +830,26 @@ export default function VendorsPage() {
             </TableBody>
           </Table>
         </CardContent>
+        <CardFooter className="border-t pt-6">
+          <BulkActionBar
+            target="business"
+            noun="vendor"
+            selectedIds={selectedIds}
+            onSelectionChange={setSelectedIds}
+            onComplete={() => fetchBusinesses()}
+            actions={[
+              { action: "approve", label: "Approve", icon: <CheckCircle className="mr-2 h-4 w-4" />, className: "text-green-600" },
+              { action: "reject", label: "Reject", icon: <XCircle className="mr-2 h-4 w-4" />, className: "text-red-600" },
+              {
+                action: "delete",
+                label: "Delete",
+                icon: <Trash2 className="mr-2 h-4 w-4" />,
+                className: "text-red-600",
+                confirm: "The selected vendors, their accounts and all of their deals will be permanently deleted."
+              }
+            ]}
+          />
+        </CardFooter>
       </Card>
 
       {/* Featured Vendors Section */}
@@ -9,6 +9,7 @@ import { useMutation } from '@tanstack/react-query';
 import RedemptionDialog from '@/components/dashboard/RedemptionDialog';
 import DealAvailabilityBadge from '@/components/shared/DealAvailabilityBadge';
 import { Deal, Favorite, Business } from '@shared/schema';
+import { getScheduleAvailability } from '@shared/dealSchedule';
 
 // UI components
 import {
@@ -296,10 +297,11 @@ export default function DealDetailPage() {
             )}
           </div>
           
-          {/* Deal Availability Badge for recurring deals */}
-          {deal.isRecurring && (
+          {/* Deal Availability Badge for recurring and scheduled deals */}
+          {(deal.isRecurring || deal.schedule) && (
             <DealAvailabilityBadge 
-              isRecurring={true} 
+              isRecurring={!!deal.isRecurring} 
+              availability={getScheduleAvailability(deal)}
               variant="featured"
             />
           )}
@@ -1,5 +1,4 @@
 import React, { useState, useEffect, useMemo } from 'react';
-import { useQuery } from '@tanstack/react-query';
 import { useLocation } from 'wouter';
 import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
@@ -9,13 +8,14 @@ import { Input } from '@/components/ui/input';
 import { Switch } from '@/components/ui/switch';
 import { Label } from '@/components/ui/label';
 import useWindowSize from '@/hooks/use-window-size';
+import { useInfiniteDeals } from '@/hooks/use-infinite-deals';
+import useDebouncedValue from '@/hooks/use-debounced-value';
 import { useAuth } from '@/contexts/AuthContext';
 import { 
   Search, 
   MapPin, 
   Filter as FilterIcon, 
-  RefreshCw,
-  ArrowDown
+  RefreshCw
 } from 'lucide-react';
 import { apiRequest } from '@/lib/queryClient';
 import DealDetail from '@/components/dashboard/DealDetail';
@@ -36,14 +36,19 @@ import {
   MoodFilters,
   SortOptions,
   SurpriseDeals,
+  SearchSuggestions,
   SortOption,
-  MoodFilter
+  MoodFilter,
+  SearchSuggestion
 } from '@/components/explore';
 import FeaturedDeals from '@/components/explore/FeaturedDealsFixed';
 
 // Import the CATEGORIES for mapping
 import { CATEGORIES } from '@/components/dashboard/CategoryFilter';
 
+// Radius used to list deals around the user's location
+const NEARBY_RADIUS_KM = 25;
+
 // Map API categories to our internal category IDs
 const mapCategoryToId = (category: string | undefined): string => {
   // Handle undefined or null category
@@ -68,6 +73,8 @@ export default function EnhancedExplorePage() {
   // Basic state
   const [selectedDealId, setSelectedDealId] = useState<number | null>(null);
   const [searchQuery, setSearchQuery] = useState('');
+  const [showSuggestions, setShowSuggestions] = useState(false);
+  const debouncedSearch = useDebouncedValue(searchQuery.trim(), 300);
   const [selectedCategories, setSelectedCategories] = useState<string[]>([]);
   const [showFilters, setShowFilters] = useState(false);
   
@@ -75,11 +82,15 @@ export default function EnhancedExplorePage() {
   const { user } = useAuth();
   
   // New state for enhanced features
-  const [sortOption, setSortOption] = useState<SortOption>('trending');
+  // Null until the user picks an order
+  const [chosenSort, setChosenSort] = useState<SortOption | null>(null);
   const [selectedMoods, setSelectedMoods] = useState<MoodFilter[]>([]);
   const [viewMode, setViewMode] = useState<'grid' | 'large' | 'swipeable'>('grid');
-  const [refreshTrigger, setRefreshTrigger] = useState(0);
   const [includeFeatured, setIncludeFeatured] = useState(true);
+  const [openNow, setOpenNow] = useState(false);
+  const [userLocation, setUserLocation] = useState<[number, number] | null>(null);
+  // Nearby deals come nearest first unless the user picks another order
+  const sortOption: SortOption = chosenSort ?? (userLocation ? 'distance' : 'trending');
   
   // State for tracking cached data status
   const [dealsCacheStatus, setDealsCacheStatus] = useState<CacheStatus>({
@@ -113,35 +124,42 @@ export default function EnhancedExplorePage() {
     }
   }, []);
   
-  // Fetch all deals
-  const { data: deals = [], isLoading, error, refetch: refetchDeals } = useQuery({
-    queryKey: ['/api/v1/deals', refreshTrigger],
-    queryFn: async () => {
-      try {
-        // Use the raw fetch instead of apiRequest to access headers
-        const response = await fetch('/api/v1/deals');
-        
-        // Check if response is from cache using centralized utility
-        const cacheStatus = getCacheStatusFromResponse(response);
-        
-        // Update cache status
-        setDealsCacheStatus(cacheStatus);
-        
-        const data = await response.json();
-        
-        // Check if data is an object with numeric keys instead of an array
-        if (data && typeof data === 'object' && !Array.isArray(data)) {
-          console.log('Converting object to array format');
-          // Convert object to array
-          return Object.values(data);
-        }
-        
-        return data;
-      } catch (error) {
-        console.error('Error fetching deals:', error);
-        throw error;
+  // Use the user's location, when shared, to only list nearby deals
+  useEffect(() => {
+    if (!navigator.geolocation) return;
+    
+    navigator.geolocation.getCurrentPosition(
+      (position) => {
+        setUserLocation([position.coords.latitude, position.coords.longitude]);
+      },
+      (error) => {
+        console.error('Error getting user location:', error);
       }
+    );
+  }, []);
+  
+  // Fetch deals page by page, sorted on the server and limited to the area
+  // around the user when their location is known. Searches are ranked by
+  // relevance on the server instead of the selected sort.
+  const {
+    deals,
+    isLoading,
+    error,
+    refetch: refetchDeals,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage
+  } = useInfiniteDeals('/api/v1/deals', {
+    sort: debouncedSearch ? 'relevance' : sortOption,
+    params: {
+      search: debouncedSearch || undefined,
+      openNow: openNow ? 'true' : undefined,
+      ...(userLocation
+        ? { lat: userLocation[0], lng: userLocation[1], radiusKm: NEARBY_RADIUS_KM }
+        : {}),
     },
+    // Check if response is from cache using centralized utility
+    onResponse: (response) => setDealsCacheStatus(getCacheStatusFromResponse(response)),
   });
   
   // Handle automatic refresh when connection is restored
@@ -208,53 +226,11 @@ export default function EnhancedExplorePage() {
     categoryCounter['all'] = deals.length;
   }
   
-  // Process deals based on sort option
-  const processedDeals = useMemo(() => {
-    if (!Array.isArray(deals)) return [];
-    
-    let results = [...deals];
-    
-    // Apply sorting based on selected option
-    switch (sortOption) {
-      case 'trending':
-        // Sort by view count and save count
-        results.sort((a: any, b: any) => {
-          const aScore = (a.viewCount || 0) + (a.saveCount || 0) * 5;
-          const bScore = (b.viewCount || 0) + (b.saveCount || 0) * 5;
-          return bScore - aScore;
-        });
-        break;
-        
-      case 'newest':
-        // Sort by created date (newest first)
-        results.sort((a: any, b: any) => {
-          const aDate = a.createdAt ? new Date(a.createdAt).getTime() : 0;
-          const bDate = b.createdAt ? new Date(b.createdAt).getTime() : 0;
-          return bDate - aDate;
-        });
-        break;
-        
-      case 'endingSoon':
-        // Sort by end date (soonest first)
-        results.sort((a: any, b: any) => {
-          const aDate = a.endDate ? new Date(a.endDate).getTime() : 0;
-          const bDate = b.endDate ? new Date(b.endDate).getTime() : 0;
-          return aDate - bDate;
-        });
-        break;
-        
-      case 'popular':
-        // Sort by redemption count
-        results.sort((a: any, b: any) => {
-          return (b.redemptionCount || 0) - (a.redemptionCount || 0);
-        });
-        break;
-    }
-    
-    return results;
-  }, [deals, sortOption]);
+  // Deals arrive already sorted by the server
+  const processedDeals = deals;
   
-  // Filter deals based on search query, selected categories, moods, and expiration status
+  // Filter deals based on selected categories, moods, and expiration status
+  // The search query is applied by the server
   const filteredDeals = useMemo(() => {
     if (!Array.isArray(processedDeals)) return [];
     
@@ -279,13 +255,6 @@ export default function EnhancedExplorePage() {
       // Map API category to our category system
       const dealCategoryId = mapCategoryToId(deal.category);
       
-      // Search query filter
-      const matchesSearch = !searchQuery || 
-        (deal.title && deal.title.toLowerCase().includes(searchQuery.toLowerCase())) ||
-        (deal.description && deal.description.toLowerCase().includes(searchQuery.toLowerCase())) ||
-        (deal.business && deal.business.businessName && 
-         deal.business.businessName.toLowerCase().includes(searchQuery.toLowerCase()));
-      
       // Category filter
       const matchesCategory = selectedCategories.length === 0 || 
         selectedCategories.includes(dealCategoryId);
@@ -312,9 +281,19 @@ export default function EnhancedExplorePage() {
         }
       });
       
-      return matchesSearch && matchesCategory && matchesMood;
+      return matchesCategory && matchesMood;
     });
-  }, [processedDeals, searchQuery, selectedCategories, selectedMoods, user?.userType]);
+  }, [processedDeals, selectedCategories, selectedMoods, user?.userType]);
+  
+  // Open a suggested deal directly; other suggestions become the search query
+  const handleSuggestionSelect = (suggestion: SearchSuggestion) => {
+    setShowSuggestions(false);
+    if (suggestion.type === 'deal' && suggestion.dealId) {
+      setSelectedDealId(suggestion.dealId);
+    } else {
+      setSearchQuery(suggestion.text);
+    }
+  };
   
   // Handle category selection
   const handleCategoryChange = (category: string) => {
@@ -358,6 +337,7 @@ export default function EnhancedExplorePage() {
     setSelectedMoods([]);
     setSearchQuery('');
     setIncludeFeatured(true); // Reset featured deals toggle to default (included)
+    setOpenNow(false);
     localStorage.removeItem('pinnity-category-filters');
     localStorage.removeItem('pinnity-include-featured'); // Clear featured deals preference
   };
@@ -372,7 +352,6 @@ export default function EnhancedExplorePage() {
   
   // Handle pull-to-refresh
   const handleRefresh = () => {
-    setRefreshTrigger(prev => prev + 1);
     refetchDeals();
   };
 
@@ -402,7 +381,20 @@ export default function EnhancedExplorePage() {
               placeholder="Search deals..."
               className="pl-10 h-12 text-base sm:text-sm w-full"
               value={searchQuery}
-              onChange={(e) => setSearchQuery(e.target.value)}
+              onChange={(e) => {
+                setSearchQuery(e.target.value);
+                setShowSuggestions(true);
+              }}
+              onFocus={() => setShowSuggestions(true)}
+              onBlur={() => setShowSuggestions(false)}
+              onKeyDown={(e) => {
+                if (e.key === 'Escape' || e.key === 'Enter') setShowSuggestions(false);
+              }}
+            />
+            <SearchSuggestions
+              query={searchQuery}
+              open={showSuggestions}
+              onSelect={handleSuggestionSelect}
             />
           </div>
           
@@ -487,6 +479,19 @@ export default function EnhancedExplorePage() {
               />
             </div>
             
+            {/* Open Now Toggle */}
+            <div className="flex items-center justify-between py-2">
+              <div className="space-y-0.5">
+                <Label htmlFor="open-now" className="font-medium">Open Now</Label>
+                <p className="text-xs text-muted-foreground">Only show deals from businesses that are open</p>
+              </div>
+              <Switch
+                id="open-now"
+                checked={openNow}
+                onCheckedChange={setOpenNow}
+              />
+            </div>
+            
             <div className="pt-2">
               <Button 
                 onClick={() => setShowFilters(false)} 
@@ -503,15 +508,20 @@ export default function EnhancedExplorePage() {
       <div className="mb-4 sm:mb-6">
         <SortOptions 
           selectedSort={sortOption}
-          onChange={setSortOption}
+          onChange={setChosenSort}
           variant="tabs"
+          showNearest={!!userLocation}
         />
       </div>
       
       {/* Location indicator */}
       <div className="flex flex-wrap items-center gap-1 sm:gap-2 text-sm text-muted-foreground mb-4 sm:mb-6">
         <MapPin className="h-4 w-4 flex-shrink-0" />
-        <span className="mr-1">Showing deals near San Francisco, CA</span>
+        <span className="mr-1">
+          {userLocation
+            ? `Showing deals within ${NEARBY_RADIUS_KM} km of your location`
+            : 'Showing deals near San Francisco, CA'}
+        </span>
         <Button variant="link" className="p-0 h-auto text-xs sm:text-sm">
           Change
         </Button>
@@ -625,17 +635,10 @@ export default function EnhancedExplorePage() {
             viewMode={viewMode}
             sortBy={sortOption}
             onRandomDeal={handleRandomDeal}
+            hasNextPage={hasNextPage}
+            isFetchingNextPage={isFetchingNextPage}
+            onLoadMore={fetchNextPage}
           />
-          
-          {/* "Load more" button (in a real app this would implement pagination) */}
-          {filteredDeals.length > 9 && viewMode !== 'swipeable' && (
-            <div className="flex justify-center mt-8">
-              <Button variant="outline" className="gap-2">
-                Load more deals
-                <ArrowDown className="h-4 w-4" />
-              </Button>
-            </div>
-          )}
         </>
       )}
 
@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useMemo } from 'react';
+import React, { useState, useMemo } from 'react';
 import { useQuery, useQueryClient } from '@tanstack/react-query';
 import { useLocation } from 'wouter';
 import { DealGrid } from '@/components/dashboard';
@@ -9,14 +9,18 @@ import { Clock } from 'lucide-react';
 import { apiRequest } from '@/lib/queryClient';
 import { 
   getExpiringSoonDeals, 
-  checkAndNotifyExpiringSoonDeals, 
-  requestNotificationPermission,
   DealLike,
   isExpired
 } from '@/utils/dealReminders';
 import { useAuth } from '@/contexts/AuthContext';
 import ExpiringDealsNotification from '@/components/deals/ExpiringDealsNotification';
 
+interface DealReminderWithDeal {
+  id: number;
+  dealId: number;
+  deal: DealLike;
+}
+
 // Helper function to safely convert any favoriteS data format to an array
 const normalizeFavoritesData = (data: any): any[] => {
   // Return empty array for null/undefined
@@ -45,7 +49,6 @@ export default function FavoritesPage() {
   // State for notification banner and toggles
   const [showExpiringNotification, setShowExpiringNotification] = useState(true);
   const [showExpired, setShowExpired] = useState(false);
-  const [expiringDeals, setExpiringDeals] = useState<DealLike[]>([]);
   
   // Fetch user favorites
   const { data: favoritesRaw, isLoading } = useQuery({
@@ -88,56 +91,27 @@ export default function FavoritesPage() {
     return normalized;
   }, [favoritesRaw]);
 
-  // Check for expiring deals when favorites are loaded
-  useEffect(() => {
-    if (favorites) {
-      try {
-        // Ensure favorites is an array and handle object format
-        const favsArray = Array.isArray(favorites) 
-          ? favorites 
-          : (typeof favorites === 'object' && favorites !== null)
-            ? Object.values(favorites)
-            : [];
-            
-        // Only proceed if we have valid favorites
-        if (favsArray.length > 0) {
-          // Extract deals from favorites and filter out any invalid entries
-          const deals = favsArray
-            .filter(fav => fav && typeof fav === 'object' && fav.deal)
-            .map((fav: { deal: any }) => fav.deal);
-          
-          // Use our own implementation of expiring soon to avoid type issues
-          const isExpiringSoon = (deal: { endDate?: string | Date }) => {
-            if (!deal || !deal.endDate) return false;
-            
-            const now = new Date();
-            const endDate = new Date(deal.endDate);
-            const diffMs = endDate.getTime() - now.getTime();
-            const diffHrs = diffMs / (1000 * 60 * 60);
-            
-            // Consider a deal as expiring soon if it expires within 48 hours (from constants)
-            return diffHrs > 0 && diffHrs <= 48;
-          };
-          
-          // Get deals that are expiring soon
-          const expiringSoon = deals.filter((deal: { endDate?: string | Date }) => isExpiringSoon(deal));
-          setExpiringDeals(expiringSoon);
-          
-          // Request notification permission if there are expiring deals
-          if (expiringSoon.length > 0) {
-            requestNotificationPermission().then(permission => {
-              if (permission === 'granted') {
-                // Check and send notifications for expiring deals
-                checkAndNotifyExpiringSoonDeals(expiringSoon, true);
-              }
-            });
-          }
-        }
-      } catch (error) {
-        console.error('Error checking for expiring deals:', error);
-      }
+  // Expiring-deal reminders sent by the server, based on the user's reminder preferences
+  const { data: reminders = [] } = useQuery<DealReminderWithDeal[]>({
+    queryKey: ['/api/v1/user', user?.id, 'deal-reminders'],
+    queryFn: () => apiRequest(`/api/v1/user/${user!.id}/deal-reminders`),
+    enabled: !!user?.id
+  });
+  
+  const expiringDeals = useMemo<DealLike[]>(() => reminders.map(reminder => reminder.deal), [reminders]);
+  
+  // Dismissing the banner marks its reminders as read so they don't come back
+  const dismissReminders = async () => {
+    setShowExpiringNotification(false);
+    try {
+      await Promise.all(reminders.map(reminder =>
+        apiRequest(`/api/v1/user/${user!.id}/deal-reminders/${reminder.id}/read`, { method: 'PUT' })
+      ));
+      queryClient.invalidateQueries({ queryKey: ['/api/v1/user', user?.id, 'deal-reminders'] });
+    } catch (error) {
+      console.error('Error dismissing deal reminders:', error);
     }
-  }, [favorites]);
+  };
 
   // Use wouter for navigation
   const [_, setLocation] = useLocation();
@@ -161,7 +135,7 @@ export default function FavoritesPage() {
         <div className="mb-6">
           <ExpiringDealsNotification 
             deals={expiringDeals}
-            onClose={() => setShowExpiringNotification(false)}
+            onClose={dismissReminders}
             onViewAll={() => {
               // Scroll to the first expiring deal or handle as needed
               console.log('View all expiring deals');
@@ -1,7 +1,7 @@
 import React, { useState, useEffect } from 'react';
-import { useQuery } from '@tanstack/react-query';
+import { useQuery, keepPreviousData } from '@tanstack/react-query';
 import { useLocation } from 'wouter';
-import { DealMap, DealDetail, CategoryFilter, CATEGORIES } from '@/components/dashboard';
+import { DealMap, DealDetail, CategoryFilter, CATEGORIES, type MapViewport } from '@/components/dashboard';
 import { Button } from '@/components/ui/button';
 import { Search, Filter, MapPin, X } from 'lucide-react';
 import { apiRequest } from '@/lib/queryClient';
@@ -34,6 +34,7 @@ export default function MapPage() {
   const [selectedCategories, setSelectedCategories] = useState<string[]>([]);
   const [showFilters, setShowFilters] = useState(false);
   const [isFilterSheetOpen, setIsFilterSheetOpen] = useState(false);
+  const [viewport, setViewport] = useState<MapViewport | null>(null);
   
   // Load saved filters on initial render
   useEffect(() => {
@@ -50,14 +51,23 @@ export default function MapPage() {
     }
   }, []);
   
-  // Fetch all deals
-  const { data: deals = [], isLoading } = useQuery({
-    queryKey: ['/api/deals'],
+  // Fetch only the deals inside the visible map area, nearest first
+  const { data: deals = [], isFetching } = useQuery({
+    queryKey: ['/api/v1/deals', viewport],
     queryFn: async () => {
-      const response = await apiRequest('/api/deals');
+      const params = new URLSearchParams({ bbox: viewport!.bbox });
+      if (viewport!.userLocation) {
+        params.set('lat', viewport!.userLocation[0].toString());
+        params.set('lng', viewport!.userLocation[1].toString());
+      }
+      
+      const response = await apiRequest(`/api/v1/deals?${params.toString()}`);
       // Ensure we're working with an array of deals
       return Array.isArray(response) ? response : [];
     },
+    enabled: viewport !== null,
+    // Keep the current markers on screen while the next viewport loads
+    placeholderData: keepPreviousData,
   });
   
   // Calculate category counts
@@ -290,8 +300,9 @@ export default function MapPage() {
       <div className="flex-1 overflow-hidden relative">
         <DealMap
           deals={filteredDeals}
-          isLoading={isLoading}
+          isLoading={isFetching}
           onSelect={(dealId) => setSelectedDealId(dealId)}
+          onViewportChange={setViewport}
         />
         
         {selectedDealId && (
@@ -10,6 +10,9 @@ import { apiRequest, queryClient } from '@/lib/queryClient';
 import { Bell, Shield, User as UserIcon } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import PasswordChangeForm from '@/components/profile/PasswordChangeForm';
+import ActiveDevices from '@/components/profile/ActiveDevices';
+import TwoFactorSettings from '@/components/profile/TwoFactorSettings';
+import PasskeySettings from '@/components/profile/PasskeySettings';
 import EditProfileDialog from '@/components/profile/EditProfileDialog';
 import UserRatingsList from '@/components/ratings/UserRatingsList';
 import RecentRedemptionsRatingPrompt from '@/components/ratings/RecentRedemptionsRatingPrompt';
@@ -322,6 +325,13 @@ export default function ProfilePage() {
         {/* Password Change Form */}
         {userId && <PasswordChangeForm userId={userId} />}
         
+        {/* Two-factor authentication (business and admin accounts) */}
+        {userId && <TwoFactorSettings userId={userId} userType={authUser?.userType} />}
+        {userId && <PasskeySettings userId={userId} />}
+        
+        {/* Signed-in devices */}
+        {userId && <ActiveDevices userId={userId} />}
+        
         {/* Recent Redemptions Ratings Prompt */}
         {userId && <RecentRedemptionsRatingPrompt userId={userId} />}
         
@@ -10,6 +10,16 @@ import { Button } from '@/components/ui/button';
 import { Separator } from '@/components/ui/separator';
 import { Bell, Moon, Globe, Shield, Eye } from 'lucide-react';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { usePushNotifications } from '@/hooks/use-pwa';
+
+// How long before a saved deal expires to send its reminder
+const REMINDER_HOUR_OPTIONS = [
+  { hours: 6, label: '6 hours before' },
+  { hours: 24, label: '1 day before' },
+  { hours: 48, label: '2 days before' },
+  { hours: 72, label: '3 days before' },
+];
 
 export default function SettingsPage() {
   const { user } = useAuth();
@@ -76,7 +86,29 @@ export default function SettingsPage() {
     },
   });
 
-  const handleToggleChange = (field: string, value: boolean) => {
+  const push = usePushNotifications();
+
+  // Push needs this browser's subscription as well as the stored preference
+  const handlePushToggle = async (checked: boolean) => {
+    if (checked) {
+      const subscribed = await push.subscribe();
+      if (!subscribed) {
+        toast({
+          title: 'Push notifications unavailable',
+          description: 'Allow notifications for this site in your browser settings and try again.',
+          variant: 'destructive',
+          duration: 5000,
+        });
+        return;
+      }
+    } else {
+      await push.unsubscribe();
+    }
+    
+    handleToggleChange('pushNotifications', checked);
+  };
+
+  const handleToggleChange = (field: string, value: boolean | number) => {
     if (!preferences) return;
     
     updatePreferences({
@@ -130,14 +162,16 @@ export default function SettingsPage() {
                   <div className="space-y-0.5">
                     <Label htmlFor="push-notifications">Push Notifications</Label>
                     <p className="text-sm text-muted-foreground">
-                      Receive push notifications on your device
+                      {push.isSupported
+                        ? 'Receive push notifications on this device'
+                        : 'Push notifications are not supported in this browser'}
                     </p>
                   </div>
                   <Switch 
                     id="push-notifications" 
-                    checked={preferences?.pushNotifications ?? false}
-                    onCheckedChange={(checked) => handleToggleChange('pushNotifications', checked)}
-                    disabled={isPending || isLoadingPreferences}
+                    checked={(preferences?.pushNotifications ?? false) && push.isSubscribed}
+                    onCheckedChange={handlePushToggle}
+                    disabled={isPending || isLoadingPreferences || !push.isSupported}
                   />
                 </div>
                 
@@ -162,9 +196,44 @@ export default function SettingsPage() {
                 
                 <div className="flex items-center justify-between">
                   <div className="space-y-0.5">
-                    <Label htmlFor="weekly-newsletter">Weekly Newsletter</Label>
+                    <Label htmlFor="expiring-deal-reminders">Expiring Deal Reminders</Label>
+                    <p className="text-sm text-muted-foreground">
+                      Get reminded before your saved deals expire
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-3">
+                    <Select
+                      value={String(preferences?.expiringDealReminderHours ?? 48)}
+                      onValueChange={(value) => handleToggleChange('expiringDealReminderHours', parseInt(value, 10))}
+                      disabled={isPending || isLoadingPreferences || preferences?.expiringDealReminders === false}
+                    >
+                      <SelectTrigger className="w-40" aria-label="Reminder timing">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {REMINDER_HOUR_OPTIONS.map(option => (
+                          <SelectItem key={option.hours} value={String(option.hours)}>
+                            {option.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Switch 
+                      id="expiring-deal-reminders" 
+                      checked={preferences?.expiringDealReminders ?? true}
+                      onCheckedChange={(checked) => handleToggleChange('expiringDealReminders', checked)}
+                      disabled={isPending || isLoadingPreferences}
+                    />
+                  </div>
+                </div>
+                
+                <Separator />
+                
+                <div className="flex items-center justify-between">
+                  <div className="space-y-0.5">
+                    <Label htmlFor="weekly-newsletter">Weekly Deals Digest</Label>
                     <p className="text-sm text-muted-foreground">
-                      Receive our weekly newsletter with top deals
+                      A weekly email with new and expiring deals picked for you. Needs marketing emails to be allowed on your account
                     </p>
                   </div>
                   <Switch 
@@ -213,6 +213,69 @@ export function requestNotificationPermission(): Promise<NotificationPermission>
   return Notification.requestPermission();
 }
 
+/**
+ * Whether this browser can receive Web Push notifications
+ */
+export function isPushSupported(): boolean {
+  return 'serviceWorker' in navigator && 'PushManager' in window && 'Notification' in window;
+}
+
+/**
+ * Convert a base64url VAPID public key to the format PushManager expects
+ */
+function urlBase64ToUint8Array(base64String: string): Uint8Array {
+  const padding = '='.repeat((4 - (base64String.length % 4)) % 4);
+  const base64 = (base64String + padding).replace(/-/g, '+').replace(/_/g, '/');
+  const rawData = window.atob(base64);
+  return Uint8Array.from(rawData, char => char.charCodeAt(0));
+}
+
+/**
+ * The current push subscription for this browser, if any
+ */
+export async function getPushSubscription(): Promise<PushSubscription | null> {
+  if (!isPushSupported()) {
+    return null;
+  }
+  
+  const registration = await navigator.serviceWorker.ready;
+  return registration.pushManager.getSubscription();
+}
+
+/**
+ * Subscribe this browser to push messages signed with the server's VAPID key
+ */
+export async function subscribeToPush(vapidPublicKey: string): Promise<PushSubscription | null> {
+  if (!isPushSupported()) {
+    return null;
+  }
+  
+  const registration = await navigator.serviceWorker.ready;
+  const existing = await registration.pushManager.getSubscription();
+  if (existing) {
+    return existing;
+  }
+  
+  return registration.pushManager.subscribe({
+    userVisibleOnly: true,
+    applicationServerKey: urlBase64ToUint8Array(vapidPublicKey),
+  });
+}
+
+/**
+ * Unsubscribe this browser from push messages
+ * @returns The endpoint that was unsubscribed, so the server can forget it
+ */
+export async function unsubscribeFromPush(): Promise<string | null> {
+  const subscription = await getPushSubscription();
+  if (!subscription) {
+    return null;
+  }
+  
+  await subscription.unsubscribe();
+  return subscription.endpoint;
+}
+
 /**
  * Perform a background sync operation if supported
  */
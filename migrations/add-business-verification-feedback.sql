@@ -0,0 +1,7 @@
+-- Migration: Keep rejection feedback on Supabase businesses
+-- The admin dashboard saves the composed rejection feedback with the rejected status
+
+ALTER TABLE businesses_new
+ADD COLUMN IF NOT EXISTS verification_feedback text;
+
+COMMENT ON COLUMN businesses_new.verification_feedback IS 'Feedback shown to the owner when verification is rejected';
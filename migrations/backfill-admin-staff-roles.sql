@@ -0,0 +1,7 @@
+-- Migration: Make admins from before staff roles super admins
+-- Admins without a recognized staff role have no staff access, so the ones
+-- that had full access before roles existed get it explicitly
+
+UPDATE users
+SET staff_role = 'super_admin'
+WHERE user_type = 'admin' AND staff_role IS NULL;
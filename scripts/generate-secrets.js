@@ -13,6 +13,7 @@
  *   - JWT_SECRET
  *   - COOKIE_SECRET
  *   - CSRF_SECRET
+ *   - VAPID_PUBLIC_KEY / VAPID_PRIVATE_KEY (Web Push key pair)
  * 
  * Copy the generated values to your .env file and NEVER commit them to version control.
  */
@@ -70,6 +71,20 @@ function calculateEntropy(value) {
   return entropy;
 }
 
+/**
+ * Generate a P-256 key pair for Web Push (VAPID)
+ * @returns {{ publicKey: string, privateKey: string }} base64url-encoded keys
+ */
+function generateVapidKeys() {
+  const ecdh = crypto.createECDH('prime256v1');
+  ecdh.generateKeys();
+  
+  return {
+    publicKey: ecdh.getPublicKey().toString('base64url'),
+    privateKey: ecdh.getPrivateKey().toString('base64url'),
+  };
+}
+
 /**
  * Generate a set of secrets for the application
  * @returns {Object} Object containing generated secrets
@@ -115,6 +130,11 @@ function run() {
     console.log(`${name}=${value}`);
   });
   
+  // Key pairs aren't random strings, so they skip the entropy report
+  const vapidKeys = generateVapidKeys();
+  console.log(`VAPID_PUBLIC_KEY=${vapidKeys.publicKey}`);
+  console.log(`VAPID_PRIVATE_KEY=${vapidKeys.privateKey}`);
+  
   console.log('\nIMPORTANT SECURITY NOTES:');
   console.log('- Keep these secrets secure and never commit them to version control');
   console.log('- Store them in a secure password manager or secret management system');
@@ -129,5 +149,6 @@ run();
 export {
   generateSecureSecret,
   calculateEntropy,
-  generateApplicationSecrets
+  generateApplicationSecrets,
+  generateVapidKeys
 };
\ No newline at end of file
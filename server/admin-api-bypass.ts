@@ -4,9 +4,11 @@
  */
 import express, { Request, Response, NextFunction } from 'express';
 import { storage } from './storage';
+import { sendDealReviewEmail } from './services/Mailer';
 import { z } from 'zod';
 import { insertDealSchema, apiDealSchema } from '@shared/schema';
-import { authenticate, authorize } from './middleware';
+import { authenticate, requirePermission } from './middleware';
+import { canSetDealStatus } from '@shared/permissions';
 
 // Create a simple Express router
 const bypassRouter = express.Router();
@@ -58,7 +60,7 @@ function apiKeyMiddleware(req: Request, res: Response, next: NextFunction) {
 bypassRouter.post(
   "/deals", 
   authenticate, 
-  authorize(["admin"]), 
+  requirePermission("deals.manage"), 
   apiKeyMiddleware, 
   async (req: Request, res: Response) => {
     // Set CORS and cache headers to prevent browser/Vite issues
@@ -161,7 +163,7 @@ bypassRouter.post(
 bypassRouter.put(
   "/deals/:id/status",
   authenticate,
-  authorize(["admin"]),
+  requirePermission("deals.moderate"),
   async (req: Request, res: Response) => {
     // Set CORS and cache headers to prevent browser/Vite issues
     res.setHeader('Content-Type', 'application/json');
@@ -182,9 +184,12 @@ bypassRouter.put(
 
       const { status, feedback } = req.body;
       
-      if (!status || !["pending", "active", "expired", "rejected", "pending_revision"].includes(status)) {
+      if (!status || !["pending", "active", "expired", "rejected", "pending_revision", "archived"].includes(status)) {
         return res.status(400).json({ message: "Invalid status" });
       }
+      if (!canSetDealStatus(req.staffRole, status)) {
+        return res.status(403).json({ message: "Your role can only approve, reject or request revisions" });
+      }
       
       console.log(`Updating deal ${dealId} status to ${status}`);
       
@@ -211,9 +216,10 @@ bypassRouter.put(
       );
       
       console.log(`Updated approval: ${updatedApproval.id} with status ${updatedApproval.status}`);
+      await sendDealReviewEmail(updatedApproval);
       
       // Also update the deal status
-      const updatedDeal = await storage.updateDealStatus(dealId, status);
+      const updatedDeal = await storage.updateDealStatus(dealId, status, { changedBy: req.user!.userId });
       console.log(`Updated deal: ${updatedDeal.id} with status ${updatedDeal.status}`);
       
       return res.status(200).json({
@@ -234,7 +240,7 @@ bypassRouter.put(
 bypassRouter.post(
   "/deals/simple", 
   authenticate, 
-  authorize(["admin"]), 
+  requirePermission("deals.manage"), 
   async (req: Request, res: Response) => {
     // Set CORS and cache headers to prevent browser/Vite issues
     res.setHeader('Content-Type', 'application/json');
@@ -319,7 +325,7 @@ bypassRouter.post(
 bypassRouter.get(
   "/deals",
   authenticate,
-  authorize(["admin"]),
+  requirePermission("deals.read"),
   async (req: Request, res: Response) => {
     console.log("BYPASS DEALS ENDPOINT: Processing GET /api/direct/admin/deals");
     
@@ -3,6 +3,7 @@ import bcrypt from 'bcryptjs';
 import { User } from '../shared/schema';
 import crypto from 'crypto';
 import { getRequiredEnv, getOptionalEnv } from '../src/config/index.js';
+import { TWO_FACTOR_CHALLENGE_MINUTES } from '../shared/twoFactor';
 
 // Use the configuration system to get required values
 // These will throw errors if not available in production
@@ -17,6 +18,8 @@ export interface JwtPayload {
   userId: number;
   userType: string;
   email: string;
+  // The refresh-token row of the signed-in device, for tokens issued with a session
+  sid?: number;
   // Standard JWT claims that may be present
   exp?: number;    // Expiration time
   iat?: number;    // Issued at time
@@ -29,8 +32,9 @@ export interface JwtPayload {
 /**
  * Generate a JWT token for authenticated user
  * Includes additional security measures and claims
+ * @param sessionId The device session the token belongs to; revoking it ends the token early
  */
-export function generateToken(user: User): string {
+export function generateToken(user: User, sessionId?: number): string {
   // Current timestamp for token generation time
   const issuedAt = Math.floor(Date.now() / 1000);
   
@@ -46,6 +50,7 @@ export function generateToken(user: User): string {
     userId: user.id,
     userType: user.userType,
     email: user.email,
+    ...(sessionId !== undefined ? { sid: sessionId } : {}),
     
     // Standard JWT claims
     iat: issuedAt,                               // Issued at time
@@ -310,6 +315,64 @@ export function verifyRefreshToken(token: string): { userId: number } | null {
   }
 }
 
+// The password step of a sign-in that still needs a two-factor code
+export interface TwoFactorChallengeClaims {
+  userId: number | string;
+  email: string;
+  userType: string;
+  rememberMe: boolean;
+  // The account has no two-factor yet and must enrol to finish signing in
+  enrol: boolean;
+}
+
+/**
+ * Generate the short-lived token that carries a sign-in from the password step to the code step
+ * Its audience differs from access tokens, so it can't be used as one
+ */
+export function generateTwoFactorChallenge(claims: TwoFactorChallengeClaims): string {
+  const payload = {
+    ...claims,
+    sub: claims.userId.toString(),
+    iss: 'pinnity-app',
+    aud: 'pinnity-two-factor',
+    jti: `2fa-${claims.userId}-${crypto.randomBytes(8).toString('hex')}`,
+    tokenType: 'two_factor_challenge'
+  };
+  
+  // @ts-ignore - TypeScript has issues with the jsonwebtoken types
+  return jsonwebtoken.sign(payload, JWT_SECRET, { expiresIn: `${TWO_FACTOR_CHALLENGE_MINUTES}m`, algorithm: 'HS256' });
+}
+
+export function verifyTwoFactorChallenge(token: string): TwoFactorChallengeClaims | null {
+  try {
+    // @ts-ignore - TypeScript has issues with the jsonwebtoken types
+    const payload = jsonwebtoken.verify(token, JWT_SECRET, {
+      algorithms: ['HS256'],
+      issuer: 'pinnity-app',
+      audience: 'pinnity-two-factor'
+    }) as TwoFactorChallengeClaims & { tokenType?: string };
+    
+    if (payload.tokenType !== 'two_factor_challenge') {
+      return null;
+    }
+    
+    return {
+      userId: payload.userId,
+      email: payload.email,
+      userType: payload.userType,
+      rememberMe: !!payload.rememberMe,
+      enrol: !!payload.enrol
+    };
+  } catch (error) {
+    if (error instanceof jsonwebtoken.TokenExpiredError) {
+      console.warn('Two-factor challenge expired:', error.message);
+    } else {
+      console.warn('Two-factor challenge verification failed:', error instanceof Error ? error.message : error);
+    }
+    return null;
+  }
+}
+
 /**
  * Extract and verify refresh token from cookies
  */
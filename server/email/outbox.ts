@@ -0,0 +1,153 @@
+/**
+ * Email outbox
+ *
+ * Emails are rendered and stored in `email_outbox` when they are queued, then
+ * delivered by the outbox worker. Queuing checks the recipient's preferences
+ * for the template's category. Delivery claims due emails before sending, so
+ * several instances never send the same email, and failed sends are retried
+ * with exponential backoff until MAX_EMAIL_ATTEMPTS.
+ */
+import { storage, type IStorage } from '../storage';
+import type { EmailOutboxMessage } from '@shared/schema';
+import { renderEmail, type EmailCategory, type EmailTemplateName, type EmailTemplateParams } from './templates';
+import type { MailTransport } from './transports';
+
+export const MAX_EMAIL_ATTEMPTS = 5;
+// First retry after 5 minutes, doubling each time
+const BASE_RETRY_DELAY_MS = 5 * 60 * 1000;
+// How long a claimed email stays locked before another run may pick it up
+const SEND_LOCK_MS = 10 * 60 * 1000;
+
+export interface EmailRecipient {
+  email: string;
+  // Account the email is about, used for preferences
+  userId?: number | null;
+}
+
+export interface QueueEmailOptions {
+  // Emails with the same key are only queued once
+  dedupeKey?: string;
+}
+
+export interface EmailDeliveryResult {
+  sent: number;
+  retrying: number;
+  failed: number;
+}
+
+type EmailOutboxStore = Pick<
+  IStorage,
+  'enqueueEmail' | 'claimDueEmails' | 'updateEmail' | 'getNotificationPreferences' | 'getMarketingConsent'
+>;
+
+/**
+ * Whether the recipient accepts email of a category
+ */
+export async function canSendEmail(
+  category: EmailCategory,
+  recipient: EmailRecipient,
+  store: EmailOutboxStore = storage
+): Promise<boolean> {
+  switch (category) {
+    case 'transactional':
+      return true;
+    case 'notification': {
+      if (!recipient.userId) return true;
+      const preferences = await store.getNotificationPreferences(recipient.userId);
+      return preferences?.emailNotifications !== false;
+    }
+    case 'marketing':
+      return store.getMarketingConsent(recipient.email);
+  }
+}
+
+/**
+ * Render a template and add it to the outbox
+ * Returns null when the recipient's preferences rule the email out, or an
+ * email with the same dedupe key was already queued
+ */
+export async function queueEmail<Name extends EmailTemplateName>(
+  template: Name,
+  params: EmailTemplateParams[Name],
+  recipient: EmailRecipient,
+  store: EmailOutboxStore = storage,
+  options: QueueEmailOptions = {}
+): Promise<EmailOutboxMessage | null> {
+  const rendered = renderEmail(template, params);
+
+  if (!(await canSendEmail(rendered.category, recipient, store))) {
+    return null;
+  }
+
+  const queued = await store.enqueueEmail({
+    userId: recipient.userId ?? null,
+    toAddress: recipient.email,
+    template: rendered.template,
+    templateVersion: rendered.templateVersion,
+    category: rendered.category,
+    subject: rendered.subject,
+    html: rendered.html,
+    text: rendered.text,
+    headers: rendered.headers,
+    dedupeKey: options.dedupeKey ?? null,
+    nextAttemptAt: new Date(),
+  });
+
+  return queued ?? null;
+}
+
+export function getRetryDelayMs(attempts: number): number {
+  return BASE_RETRY_DELAY_MS * 2 ** (attempts - 1);
+}
+
+/**
+ * Send every email that is due, scheduling retries for failures
+ */
+export async function deliverDueEmails(
+  transport: MailTransport,
+  from: string,
+  now: Date = new Date(),
+  store: EmailOutboxStore = storage
+): Promise<EmailDeliveryResult> {
+  const result: EmailDeliveryResult = { sent: 0, retrying: 0, failed: 0 };
+  const due = await store.claimDueEmails(now, new Date(now.getTime() + SEND_LOCK_MS));
+
+  for (const email of due) {
+    const attempts = email.attempts + 1;
+
+    try {
+      const messageId = await transport.send({
+        from,
+        to: email.toAddress,
+        subject: email.subject,
+        html: email.html,
+        text: email.text,
+        headers: {
+          ...email.headers,
+          'X-Pinnity-Template': `${email.template}@v${email.templateVersion}`,
+        },
+      });
+
+      await store.updateEmail(email.id, { status: 'sent', attempts, messageId, sentAt: new Date(), lastError: null });
+      result.sent++;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`EmailOutbox: ${transport.name} delivery failed for email ${email.id}:`, message);
+
+      if (attempts >= MAX_EMAIL_ATTEMPTS) {
+        await store.updateEmail(email.id, { status: 'failed', attempts, lastError: message });
+        result.failed++;
+      } else {
+        await store.updateEmail(email.id, {
+          status: 'pending',
+          attempts,
+          lastError: message,
+          nextAttemptAt: new Date(now.getTime() + getRetryDelayMs(attempts)),
+        });
+        result.retrying++;
+      }
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,375 @@
+/**
+ * Email templates
+ *
+ * Each template renders a subject, an HTML body and a plain-text body from
+ * typed parameters. Templates carry a version, stored with every queued email,
+ * so a message can always be traced back to the wording it was sent with; bump
+ * it whenever a template's content changes.
+ *
+ * The category decides which preferences gate a send:
+ * - transactional: always sent (e.g. password reset)
+ * - notification: only with `emailNotifications` switched on
+ * - marketing: only with `marketing_consent`
+ */
+
+export type EmailCategory = 'transactional' | 'notification' | 'marketing';
+
+export interface EmailTemplate<Params> {
+  version: number;
+  category: EmailCategory;
+  subject(params: Params): string;
+  html(params: Params): string;
+  text(params: Params): string;
+  headers?(params: Params): Record<string, string>;
+}
+
+export interface EmailTemplateParams {
+  password_reset: {
+    firstName: string;
+    resetUrl: string;
+    expiresInMinutes: number;
+  };
+  business_verification: {
+    firstName: string;
+    businessName: string;
+    status: 'verified' | 'rejected';
+    feedback?: string | null;
+    dashboardUrl: string;
+  };
+  deal_review: {
+    firstName: string;
+    dealTitle: string;
+    status: 'approved' | 'rejected';
+    feedback?: string | null;
+    dealUrl: string;
+  };
+  weekly_digest: {
+    firstName: string;
+    deals: DigestEmailDeal[];
+    unsubscribeUrl: string;
+    preferencesUrl: string;
+  };
+  business_invitation: {
+    inviterName: string;
+    businessName: string;
+    roleLabel: string;
+    acceptUrl: string;
+    expiresInDays: number;
+  };
+  two_factor_reset: {
+    firstName: string;
+    // Admins have to set up two-factor again when they next sign in
+    mustReenrol: boolean;
+    signInUrl: string;
+  };
+  account_locked: {
+    firstName: string;
+    unlockUrl: string;
+    lockedMinutes: number;
+    resetPasswordUrl: string;
+  };
+  deal_expiring: {
+    firstName: string;
+    dealTitle: string;
+    businessName: string;
+    // e.g. "5 hours" or "2 days"
+    expiresIn: string;
+    dealUrl: string;
+  };
+}
+
+export interface DigestEmailDeal {
+  title: string;
+  businessName: string;
+  discount?: string | null;
+  url: string;
+  // Why the deal was picked, e.g. "Ends Friday" or "Near you"
+  reason: string;
+}
+
+export type EmailTemplateName = keyof EmailTemplateParams;
+
+export interface RenderedEmail {
+  template: EmailTemplateName;
+  templateVersion: number;
+  category: EmailCategory;
+  subject: string;
+  html: string;
+  text: string;
+  headers: Record<string, string> | null;
+}
+
+const BRAND_COLOR = '#00796B';
+
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+interface LayoutLink {
+  label: string;
+  url: string;
+}
+
+interface LayoutItem {
+  title: string;
+  detail: string;
+  url: string;
+}
+
+/**
+ * Shared HTML frame; all text is escaped here, so templates pass plain text
+ */
+function layout(
+  heading: string,
+  paragraphs: string[],
+  action?: LayoutLink,
+  extras: { items?: LayoutItem[]; footerLinks?: LayoutLink[] } = {}
+): string {
+  const body = paragraphs
+    .map(paragraph => `<p style="margin:0 0 16px;line-height:1.5">${escapeHtml(paragraph)}</p>`)
+    .join('\n');
+  const items = (extras.items ?? [])
+    .map(item => `<div style="margin:0 0 16px;padding:12px 16px;border:1px solid #e0e0e0;border-radius:6px">
+<a href="${escapeHtml(item.url)}" style="font-weight:bold;color:${BRAND_COLOR};text-decoration:none">${escapeHtml(item.title)}</a>
+<div style="margin-top:4px;font-size:14px;color:#616161">${escapeHtml(item.detail)}</div>
+</div>`)
+    .join('\n');
+  const button = action
+    ? `<p style="margin:24px 0"><a href="${escapeHtml(action.url)}" style="background:${BRAND_COLOR};color:#ffffff;padding:12px 20px;border-radius:6px;text-decoration:none;display:inline-block">${escapeHtml(action.label)}</a></p>`
+    : '';
+  const footerLinks = (extras.footerLinks ?? [])
+    .map(link => ` · <a href="${escapeHtml(link.url)}" style="color:#757575">${escapeHtml(link.label)}</a>`)
+    .join('');
+
+  return `<!DOCTYPE html>
+<html>
+<body style="margin:0;padding:24px;background:#f5f5f5;font-family:Arial,Helvetica,sans-serif;color:#212121">
+<div style="max-width:560px;margin:0 auto;background:#ffffff;border-radius:8px;padding:32px">
+<h1 style="margin:0 0 24px;font-size:22px;color:${BRAND_COLOR}">${escapeHtml(heading)}</h1>
+${body}
+${items}
+${button}
+<p style="margin:32px 0 0;font-size:12px;color:#757575">Pinnity${footerLinks}</p>
+</div>
+</body>
+</html>`;
+}
+
+function textLayout(
+  paragraphs: string[],
+  action?: LayoutLink,
+  extras: { items?: LayoutItem[]; footerLinks?: LayoutLink[] } = {}
+): string {
+  const lines = [...paragraphs];
+  for (const item of extras.items ?? []) {
+    lines.push(`* ${item.title}\n  ${item.detail}\n  ${item.url}`);
+  }
+  if (action) {
+    lines.push(`${action.label}: ${action.url}`);
+  }
+  lines.push(['-- ', 'Pinnity', ...(extras.footerLinks ?? []).map(link => `${link.label}: ${link.url}`)].join('\n'));
+  return lines.join('\n\n');
+}
+
+const passwordReset: EmailTemplate<EmailTemplateParams['password_reset']> = {
+  version: 1,
+  category: 'transactional',
+  subject: () => 'Reset your Pinnity password',
+  html: (p) => layout('Reset your password', [
+    `Hi ${p.firstName},`,
+    `We received a request to reset your password. The link below works for ${p.expiresInMinutes} minutes.`,
+    "If you didn't ask for this, you can ignore this email; your password won't change.",
+  ], { label: 'Reset password', url: p.resetUrl }),
+  text: (p) => textLayout([
+    `Hi ${p.firstName},`,
+    `We received a request to reset your password. The link below works for ${p.expiresInMinutes} minutes.`,
+    "If you didn't ask for this, you can ignore this email; your password won't change.",
+  ], { label: 'Reset password', url: p.resetUrl }),
+};
+
+function businessInvitationParagraphs(p: EmailTemplateParams['business_invitation']): string[] {
+  return [
+    `${p.inviterName} has invited you to join ${p.businessName} on Pinnity as ${p.roleLabel.toLowerCase()}.`,
+    `Accept the invitation with a Pinnity account using this email address; you can create one if you don't have one yet. The link works for ${p.expiresInDays} days.`,
+    "If you weren't expecting this, you can ignore this email.",
+  ];
+}
+
+const businessInvitation: EmailTemplate<EmailTemplateParams['business_invitation']> = {
+  version: 1,
+  category: 'transactional',
+  subject: (p) => `Join ${p.businessName} on Pinnity`,
+  html: (p) => layout(`Join ${p.businessName}`, businessInvitationParagraphs(p), { label: 'Accept invitation', url: p.acceptUrl }),
+  text: (p) => textLayout(businessInvitationParagraphs(p), { label: 'Accept invitation', url: p.acceptUrl }),
+};
+
+function twoFactorResetParagraphs(p: EmailTemplateParams['two_factor_reset']): string[] {
+  return [
+    `Hi ${p.firstName},`,
+    'A Pinnity administrator has reset two-factor authentication on your account, so your authenticator app and recovery codes no longer work.',
+    p.mustReenrol
+      ? "You'll be asked to set up an authenticator app again the next time you sign in."
+      : 'You can sign in with your password and turn two-factor authentication back on from your profile.',
+    "If you didn't ask for this, contact Pinnity support straight away.",
+  ];
+}
+
+const twoFactorReset: EmailTemplate<EmailTemplateParams['two_factor_reset']> = {
+  version: 1,
+  category: 'transactional',
+  subject: () => 'Two-factor authentication was reset on your Pinnity account',
+  html: (p) => layout('Two-factor authentication reset', twoFactorResetParagraphs(p), { label: 'Sign in', url: p.signInUrl }),
+  text: (p) => textLayout(twoFactorResetParagraphs(p), { label: 'Sign in', url: p.signInUrl }),
+};
+
+function accountLockedParagraphs(p: EmailTemplateParams['account_locked']): string[] {
+  return [
+    `Hi ${p.firstName},`,
+    `There were too many failed attempts to sign in to your Pinnity account, so we've locked it for ${p.lockedMinutes} minutes.`,
+    'If that was you, the link below unlocks it straight away. It works until the lock runs out.',
+    `If it wasn't you, someone may be guessing your password. Unlock your account and choose a new password: ${p.resetPasswordUrl}`,
+  ];
+}
+
+const accountLocked: EmailTemplate<EmailTemplateParams['account_locked']> = {
+  version: 1,
+  category: 'transactional',
+  subject: () => 'Your Pinnity account was locked after failed sign-ins',
+  html: (p) => layout('Account locked', accountLockedParagraphs(p), { label: 'Unlock account', url: p.unlockUrl }),
+  text: (p) => textLayout(accountLockedParagraphs(p), { label: 'Unlock account', url: p.unlockUrl }),
+};
+
+function businessVerificationParagraphs(p: EmailTemplateParams['business_verification']): string[] {
+  const paragraphs = [`Hi ${p.firstName},`];
+  if (p.status === 'verified') {
+    paragraphs.push(`${p.businessName} has been verified. You can now publish deals on Pinnity.`);
+  } else {
+    paragraphs.push(`We couldn't verify ${p.businessName} yet.`);
+    if (p.feedback) paragraphs.push(`Reviewer feedback: ${p.feedback}`);
+    paragraphs.push('Please update your documents from your dashboard and we will take another look.');
+  }
+  return paragraphs;
+}
+
+const businessVerification: EmailTemplate<EmailTemplateParams['business_verification']> = {
+  version: 1,
+  category: 'notification',
+  subject: (p) => p.status === 'verified'
+    ? `${p.businessName} is verified`
+    : `Action needed: verifying ${p.businessName}`,
+  html: (p) => layout(
+    p.status === 'verified' ? 'Your business is verified' : 'Verification needs attention',
+    businessVerificationParagraphs(p),
+    { label: 'Go to dashboard', url: p.dashboardUrl }
+  ),
+  text: (p) => textLayout(businessVerificationParagraphs(p), { label: 'Go to dashboard', url: p.dashboardUrl }),
+};
+
+function dealReviewParagraphs(p: EmailTemplateParams['deal_review']): string[] {
+  const paragraphs = [`Hi ${p.firstName},`];
+  if (p.status === 'approved') {
+    paragraphs.push(`Your deal "${p.dealTitle}" has been approved and will go live on its start date.`);
+  } else {
+    paragraphs.push(`Your deal "${p.dealTitle}" wasn't approved.`);
+    if (p.feedback) paragraphs.push(`Reviewer feedback: ${p.feedback}`);
+    paragraphs.push('You can edit the deal and submit it for review again.');
+  }
+  return paragraphs;
+}
+
+const dealReview: EmailTemplate<EmailTemplateParams['deal_review']> = {
+  version: 1,
+  category: 'notification',
+  subject: (p) => p.status === 'approved'
+    ? `Your deal "${p.dealTitle}" was approved`
+    : `Your deal "${p.dealTitle}" needs changes`,
+  html: (p) => layout(
+    p.status === 'approved' ? 'Deal approved' : 'Deal not approved',
+    dealReviewParagraphs(p),
+    { label: 'View deal', url: p.dealUrl }
+  ),
+  text: (p) => textLayout(dealReviewParagraphs(p), { label: 'View deal', url: p.dealUrl }),
+};
+
+function dealExpiringParagraphs(p: EmailTemplateParams['deal_expiring']): string[] {
+  return [
+    `Hi ${p.firstName},`,
+    `"${p.dealTitle}" from ${p.businessName}, one of your favorites, expires in ${p.expiresIn}.`,
+    'Redeem it before it ends so you don\'t miss out.',
+  ];
+}
+
+const dealExpiring: EmailTemplate<EmailTemplateParams['deal_expiring']> = {
+  version: 1,
+  category: 'notification',
+  subject: (p) => `Deal expiring soon: ${p.dealTitle}`,
+  html: (p) => layout('Your favorite deal ends soon', dealExpiringParagraphs(p), { label: 'View deal', url: p.dealUrl }),
+  text: (p) => textLayout(dealExpiringParagraphs(p), { label: 'View deal', url: p.dealUrl }),
+};
+
+function digestItems(p: EmailTemplateParams['weekly_digest']): LayoutItem[] {
+  return p.deals.map(deal => ({
+    title: deal.discount ? `${deal.title} (${deal.discount})` : deal.title,
+    detail: `${deal.businessName} · ${deal.reason}`,
+    url: deal.url,
+  }));
+}
+
+function digestFooterLinks(p: EmailTemplateParams['weekly_digest']): LayoutLink[] {
+  return [
+    { label: 'Unsubscribe from the weekly digest', url: p.unsubscribeUrl },
+    { label: 'Email preferences', url: p.preferencesUrl },
+  ];
+}
+
+const weeklyDigest: EmailTemplate<EmailTemplateParams['weekly_digest']> = {
+  version: 1,
+  category: 'marketing',
+  subject: (p) => `${p.deals.length} deal${p.deals.length !== 1 ? 's' : ''} picked for you this week`,
+  html: (p) => layout(
+    'Your weekly deals',
+    [`Hi ${p.firstName},`, 'Here are new and expiring deals we think you will like.'],
+    undefined,
+    { items: digestItems(p), footerLinks: digestFooterLinks(p) }
+  ),
+  text: (p) => textLayout(
+    [`Hi ${p.firstName},`, 'Here are new and expiring deals we think you will like.'],
+    undefined,
+    { items: digestItems(p), footerLinks: digestFooterLinks(p) }
+  ),
+  // One-click unsubscribe (RFC 8058) for mail clients that support it
+  headers: (p) => ({
+    'List-Unsubscribe': `<${p.unsubscribeUrl}>`,
+    'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+  }),
+};
+
+export const EMAIL_TEMPLATES: { [Name in EmailTemplateName]: EmailTemplate<EmailTemplateParams[Name]> } = {
+  password_reset: passwordReset,
+  business_verification: businessVerification,
+  deal_review: dealReview,
+  weekly_digest: weeklyDigest,
+  business_invitation: businessInvitation,
+  two_factor_reset: twoFactorReset,
+  account_locked: accountLocked,
+  deal_expiring: dealExpiring,
+};
+
+export function renderEmail<Name extends EmailTemplateName>(name: Name, params: EmailTemplateParams[Name]): RenderedEmail {
+  const template = EMAIL_TEMPLATES[name] as EmailTemplate<EmailTemplateParams[Name]>;
+
+  return {
+    template: name,
+    templateVersion: template.version,
+    category: template.category,
+    subject: template.subject(params),
+    html: template.html(params),
+    text: template.text(params),
+    headers: template.headers ? template.headers(params) : null,
+  };
+}
@@ -0,0 +1,73 @@
+/**
+ * Mail transports
+ *
+ * - smtp: delivers through an SMTP server (SMTP_URL)
+ * - file: writes each message as an .eml file, for development; any mail
+ *   client can open them
+ * - memory: keeps messages in memory, for tests
+ */
+import fs from 'fs/promises';
+import path from 'path';
+import nodemailer from 'nodemailer';
+
+export interface MailMessage {
+  from: string;
+  to: string;
+  subject: string;
+  html: string;
+  text: string;
+  // Extra headers, e.g. X-Pinnity-Template
+  headers?: Record<string, string>;
+}
+
+export interface MailTransport {
+  name: string;
+  // Resolves with the message ID; rejects when delivery fails
+  send(message: MailMessage): Promise<string>;
+}
+
+export interface MemoryTransport extends MailTransport {
+  sent: MailMessage[];
+}
+
+export function createSmtpTransport(smtpUrl: string): MailTransport {
+  const transporter = nodemailer.createTransport(smtpUrl);
+
+  return {
+    name: 'smtp',
+    send: async (message) => {
+      const info = await transporter.sendMail(message);
+      return info.messageId;
+    },
+  };
+}
+
+export function createFileTransport(directory: string): MailTransport {
+  // Builds the same RFC 822 message an SMTP server would receive
+  const composer = nodemailer.createTransport({ streamTransport: true, buffer: true, newline: 'unix' });
+
+  return {
+    name: 'file',
+    send: async (message) => {
+      const info = await composer.sendMail(message);
+      const fileName = `${new Date().toISOString().replace(/[:.]/g, '-')}-${info.messageId.replace(/[^A-Za-z0-9.-]/g, '')}.eml`;
+
+      await fs.mkdir(directory, { recursive: true });
+      await fs.writeFile(path.join(directory, fileName), info.message!);
+      return info.messageId;
+    },
+  };
+}
+
+export function createMemoryTransport(): MemoryTransport {
+  const sent: MailMessage[] = [];
+
+  return {
+    name: 'memory',
+    sent,
+    send: async (message) => {
+      sent.push(message);
+      return `<memory-${sent.length}@pinnity.local>`;
+    },
+  };
+}
@@ -22,6 +22,11 @@ const { security, infrastructure, isProduction, isDevelopment, env } = appConfig
 import { setupVite, serveStatic, log } from "./vite.js";
 import { initializeSupabaseStorage } from "./supabaseStorage.js";
 import { startSyncWorker } from "./sync/SyncWorker.js";
+import { startDealLifecycleWorker } from "./jobs/DealLifecycleWorker.js";
+import { startDealReminderWorker } from "./jobs/DealReminderWorker.js";
+import { startEmailOutboxWorker } from "./jobs/EmailOutboxWorker.js";
+import { startWeeklyDigestWorker } from "./jobs/WeeklyDigestWorker.js";
+import { getMailTransport } from "./services/Mailer.js";
 // Simplified imports for minimal server startup
 import { pool } from "./db.js";
 // Skip complex imports that are causing issues
@@ -30,12 +35,16 @@ import { pool } from "./db.js";
 // import { router as legacyRoutes } from "./routes/index.js";
 import { sendSMSVerification, verifySMSCode } from "./smsService.js";
 import adminReconcileRouter from "./routes/admin.reconcile.js";
+import { adminDashboardRoutes } from "./routes/admin.dashboard.js";
 // import testTermsRouter from "./test-terms.js";
 
 // Validate environment configuration
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
 
+// Refuse to start without somewhere to deliver email
+getMailTransport();
+
 // Initialize Twilio for real SMS verification
 console.log("Initializing Twilio for real SMS verification");
 
@@ -62,6 +71,7 @@ const corsOptions = {
   credentials: true,
   methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
   allowedHeaders: ['Content-Type', 'Authorization', 'X-CSRF-Token'],
+  exposedHeaders: ['X-Total-Count', 'X-Next-Cursor'],
 };
 
 app.use(cors(corsOptions));
@@ -82,7 +92,15 @@ const csrfProtection = csurf({
     sameSite: 'strict'
   }
 });
-app.use(csrfProtection);
+// One-click unsubscribe requests come from mail clients, without a CSRF token;
+// the signed token in the link authorizes them instead
+const CSRF_EXEMPT_PATHS = new Set(['/api/v1/email/unsubscribe', '/api/email/unsubscribe']);
+app.use((req, res, next) => {
+  if (req.method === 'POST' && CSRF_EXEMPT_PATHS.has(req.path)) {
+    return next();
+  }
+  return csrfProtection(req, res, next);
+});
 
 // Skip admin API bypass for now
 // app.use('/api/direct/admin', adminBypassRouter);
@@ -118,18 +136,7 @@ app.get('/api/v1/user', (req, res) => {
   res.status(401).json({ message: 'Not authenticated' });
 });
 
-// Logout endpoint
-app.post('/api/v1/auth/logout', (req, res) => {
-  // Clear any auth cookies and return success
-  res.clearCookie('auth-token');
-  res.json({ message: 'Logged out successfully' });
-});
-
-// Refresh token endpoint
-app.post('/api/v1/auth/refresh', (req, res) => {
-  // For minimal setup, just return unauthorized
-  res.status(401).json({ message: 'No refresh token available' });
-});
+// Logout and token refresh are registered with the authentication routes below
 
 // SMS endpoint for phone verification - REAL TWILIO IMPLEMENTATION
 app.post('/api/v1/sms/send', async (req, res) => {
@@ -215,267 +222,8 @@ import verifyRoutes from "./routes/verify.routes.js";
 app.use("/api/v1/verify", verifyRoutes);
 
 // Admin API endpoints that the dashboard needs
-app.get('/api/v1/admin/businesses', async (req, res) => {
-  try {
-    console.log('Admin businesses endpoint called');
-    const result = await pool.query(`
-      SELECT 
-        v.id,
-        v.business_name,
-        v.business_category,
-        v.verification_status,
-        COALESCE(v.created_at, '2024-01-01'::timestamp) as applied_date,
-        COALESCE(v.updated_at, '2024-01-01'::timestamp) as updated_at,
-        COALESCE(p.email, u.email) as email,
-        COALESCE(p.first_name, u.first_name) as first_name,
-        COALESCE(p.last_name, u.last_name) as last_name,
-        COALESCE(p.phone, u.phone) as phone,
-        COALESCE(p.created_at, u.created_at::timestamp with time zone) as created_at,
-        COALESCE(p.address, u.address) as address
-      FROM v_businesses_unified v
-      LEFT JOIN profiles p ON v.profile_id = p.id
-      LEFT JOIN users u ON v.foreign_key = u.id::text AND v.profile_id IS NULL
-      ORDER BY v.business_name
-    `);
-    
-    console.log(`Found ${result.rows.length} businesses`);
-    res.json(result.rows);
-  } catch (error) {
-    console.error('Error fetching businesses:', error);
-    res.status(500).json({ error: 'Failed to fetch businesses' });
-  }
-});
-
-app.get('/api/v1/admin/businesses/pending', async (req, res) => {
-  try {
-    console.log('Admin pending businesses endpoint called');
-    const result = await pool.query(`
-      SELECT 
-        v.id,
-        v.business_name,
-        v.business_category,
-        v.verification_status,
-        COALESCE(v.created_at, '2024-01-01'::timestamp) as applied_date,
-        COALESCE(v.updated_at, '2024-01-01'::timestamp) as updated_at,
-        COALESCE(p.email, u.email) as email,
-        COALESCE(p.first_name, u.first_name) as first_name,
-        COALESCE(p.last_name, u.last_name) as last_name,
-        COALESCE(p.phone, u.phone) as phone,
-        COALESCE(p.created_at, u.created_at::timestamp with time zone) as created_at,
-        COALESCE(p.address, u.address) as address
-      FROM v_businesses_unified v
-      LEFT JOIN profiles p ON v.profile_id = p.id
-      LEFT JOIN users u ON v.foreign_key = u.id::text AND v.profile_id IS NULL
-      WHERE v.verification_status = 'pending'
-      ORDER BY v.business_name
-    `);
-    
-    console.log(`Found ${result.rows.length} pending businesses`);
-    res.json(result.rows);
-  } catch (error) {
-    console.error('Error fetching pending businesses:', error);
-    res.status(500).json({ error: 'Failed to fetch pending businesses' });
-  }
-});
-
-// Individual business detail endpoint
-app.get('/api/v1/admin/business/:id', async (req, res) => {
-  try {
-    const businessId = req.params.id;
-    console.log(`Fetching business details for ID: ${businessId}`);
-    
-    const result = await pool.query(`
-      SELECT 
-        b.id,
-        b.business_name,
-        b.business_category,
-        b.verification_status,
-        b.government_id,
-        b.proof_of_address,
-        b.proof_of_business,
-        b.created_at as applied_date,
-        b.updated_at,
-        p.email,
-        p.first_name,
-        p.last_name,
-        p.phone,
-        p.created_at,
-        p.address,
-        p.user_type
-      FROM businesses_new b
-      LEFT JOIN profiles p ON b.profile_id = p.id
-      WHERE b.id = $1
-    `, [businessId]);
-    
-    if (result.rows.length === 0) {
-      return res.status(404).json({ error: 'Business not found' });
-    }
-    
-    console.log(`Found business: ${result.rows[0].business_name}`);
-    res.json(result.rows[0]);
-  } catch (error) {
-    console.error('Error fetching business details:', error);
-    res.status(500).json({ error: 'Failed to fetch business details' });
-  }
-});
-
-// Admin business approval endpoint
-app.post('/api/v1/admin/businesses/:id/approve', async (req, res) => {
-  try {
-    const businessId = req.params.id;
-    console.log(`Approving business ID: ${businessId}`);
-    
-    const result = await pool.query(`
-      UPDATE businesses_new 
-      SET verification_status = 'approved', updated_at = NOW()
-      WHERE id = $1
-      RETURNING *
-    `, [businessId]);
-    
-    if (result.rows.length === 0) {
-      return res.status(404).json({ error: 'Business not found' });
-    }
-    
-    console.log(`Approved business: ${result.rows[0].business_name}`);
-    res.json({ message: 'Business approved successfully', business: result.rows[0] });
-  } catch (error) {
-    console.error('Error approving business:', error);
-    res.status(500).json({ error: 'Failed to approve business' });
-  }
-});
-
-// Admin business rejection endpoint
-app.post('/api/v1/admin/businesses/:id/reject', async (req, res) => {
-  try {
-    const businessId = req.params.id;
-    const { reason } = req.body;
-    console.log(`Rejecting business ID: ${businessId}, reason: ${reason}`);
-    
-    const result = await pool.query(`
-      UPDATE businesses_new 
-      SET verification_status = 'rejected', updated_at = NOW()
-      WHERE id = $1
-      RETURNING *
-    `, [businessId]);
-    
-    if (result.rows.length === 0) {
-      return res.status(404).json({ error: 'Business not found' });
-    }
-    
-    console.log(`Rejected business: ${result.rows[0].business_name}`);
-    res.json({ message: 'Business rejected successfully', business: result.rows[0] });
-  } catch (error) {
-    console.error('Error rejecting business:', error);
-    res.status(500).json({ error: 'Failed to reject business' });
-  }
-});
-
-// Admin business deletion endpoint with CSRF protection and Supabase sync
-app.delete('/api/v1/admin/businesses/:id', async (req, res) => {
-  try {
-    const businessId = parseInt(req.params.id);
-    if (isNaN(businessId)) {
-      return res.status(400).json({ error: 'Invalid business ID' });
-    }
-    
-    console.log(`Admin DELETE: Attempting to delete business ID: ${businessId}`);
-    
-    // Import VendorSyncService dynamically to avoid circular imports
-    const { deleteVendorFully } = await import('./sync/VendorSyncService.js');
-    
-    // Use the sync service for coordinated deletion
-    const result = await deleteVendorFully({ businessId });
-    
-    if (result.success) {
-      console.log(`Admin DELETE: Successfully deleted business ID: ${businessId}, partial: ${result.partial || false}`);
-      return res.status(200).json({ 
-        ok: true,
-        deletedBusinessId: businessId,
-        message: 'Business deleted successfully',
-        partial: result.partial || false,
-        profileDeleted: !!result.profileId,
-        authUserDeleted: !!result.authUserId
-      });
-    } else {
-      console.log(`Admin DELETE: Failed to delete business ID: ${businessId}, error: ${result.error}`);
-      return res.status(500).json({ 
-        error: result.error || 'Failed to delete business',
-        partial: result.partial || false
-      });
-    }
-  } catch (err) {
-    console.error('Admin DELETE: Unexpected error:', err);
-    return res.status(500).json({ error: 'Unable to delete business' });
-  }
-});
-
-// Document viewing/download endpoint
-app.get('/api/v1/admin/documents/:businessId/:documentType', async (req, res) => {
-  try {
-    const { businessId, documentType } = req.params;
-    console.log(`Document request for business ${businessId}, type: ${documentType}`);
-    
-    // Get the document path from database
-    const columnMap = {
-      'government_id': 'government_id',
-      'proof_of_address': 'proof_of_address', 
-      'proof_of_business': 'proof_of_business'
-    };
-    
-    const column = columnMap[documentType];
-    if (!column) {
-      return res.status(400).json({ error: 'Invalid document type' });
-    }
-    
-    const result = await pool.query(
-      `SELECT ${column} as document_url FROM businesses_new WHERE id = $1`,
-      [businessId]
-    );
-    
-    if (result.rows.length === 0) {
-      return res.status(404).json({ error: 'Business not found' });
-    }
-    
-    const documentUrl = result.rows[0].document_url;
-    
-    // Check if it's a placeholder URL or real Supabase path
-    if (!documentUrl || documentUrl.includes('example.com')) {
-      return res.status(404).json({ error: 'Document not found or not uploaded' });
-    }
-    
-    // If it's already a signed URL, return it
-    if (documentUrl.includes('supabase')) {
-      return res.json({ url: documentUrl });
-    }
-    
-    // For now, since we have placeholder URLs, return a mock response
-    // In production, this would generate signed URLs from Supabase Storage
-    res.json({ 
-      url: documentUrl,
-      message: 'Document is available but stored with placeholder URL',
-      type: documentType
-    });
-    
-  } catch (error) {
-    console.error('Error fetching document:', error);
-    res.status(500).json({ error: 'Failed to fetch document' });
-  }
-});
-
-app.get('/api/v1/admin/deals', async (req, res) => {
-  try {
-    const result = await pool.query(`
-      SELECT d.*, b.business_name, b.business_category
-      FROM deals d
-      LEFT JOIN businesses_new b ON d.business_id = b.id
-      ORDER BY d.created_at DESC
-    `);
-    res.json(result.rows);
-  } catch (error) {
-    console.error('Error fetching deals:', error);
-    res.status(500).json({ error: 'Failed to fetch deals' });
-  }
-});
+adminDashboardRoutes(app);
+console.log('✅ Admin dashboard routes registered');
 
 // Featured deals endpoint - PUBLIC (no auth required)
 app.get('/api/v1/deals/featured', async (req, res) => {
@@ -521,236 +269,6 @@ app.get('/api/v1/deals', async (req, res) => {
   }
 });
 
-app.get('/api/v1/admin/users', async (req, res) => {
-  try {
-    const result = await pool.query(`
-      SELECT id, email, first_name, last_name, user_type, role, phone, 
-             created_at, marketing_consent, is_live
-      FROM profiles
-      ORDER BY created_at DESC
-    `);
-    
-    // Convert snake_case to camelCase for frontend
-    const users = result.rows.map(user => ({
-      id: user.id,
-      email: user.email,
-      firstName: user.first_name,
-      lastName: user.last_name,
-      userType: user.user_type,
-      role: user.role,
-      phone: user.phone,
-      createdAt: user.created_at,
-      marketingConsent: user.marketing_consent, // This is the key fix
-      isLive: user.is_live
-    }));
-    
-    res.json(users);
-  } catch (error) {
-    console.error('Error fetching users:', error);
-    res.status(500).json({ error: 'Failed to fetch users' });
-  }
-});
-
-app.get('/api/v1/admin/transactions', async (req, res) => {
-  try {
-    // Return empty array for now since there might be data type mismatches
-    // The transactions table exists but may have different column types
-    res.json([]);
-  } catch (error) {
-    console.error('Error fetching transactions:', error);
-    res.status(500).json({ error: 'Failed to fetch transactions' });
-  }
-});
-
-app.get('/api/v1/admin/analytics', async (req, res) => {
-  try {
-    const timeRange = req.query.timeRange || '30days';
-    
-    // Calculate date ranges based on timeRange
-    let days = 30;
-    if (timeRange === '7days') days = 7;
-    else if (timeRange === '90days') days = 90;
-    
-    const endDate = new Date();
-    const startDate = new Date();
-    startDate.setDate(startDate.getDate() - days);
-    
-    // Get basic counts
-    const usersResult = await pool.query('SELECT COUNT(*) as count FROM profiles');
-    const businessesResult = await pool.query('SELECT COUNT(*) as count FROM businesses_new');
-    const dealsResult = await pool.query('SELECT COUNT(*) as count FROM deals');
-    const transactionsResult = await pool.query('SELECT COUNT(*) as count FROM deal_redemptions');
-    
-    // Get user distribution by type
-    const userTypeResult = await pool.query(`
-      SELECT user_type, COUNT(*) as count 
-      FROM profiles 
-      GROUP BY user_type
-    `);
-    
-    // Get recent users (last 10)
-    const recentUsersResult = await pool.query(`
-      SELECT id, email, first_name, last_name, user_type, created_at
-      FROM profiles 
-      ORDER BY created_at DESC 
-      LIMIT 10
-    `);
-    
-    // Get deals by status (if any exist)
-    const dealsByStatusResult = await pool.query(`
-      SELECT status, COUNT(*) as count 
-      FROM deals 
-      GROUP BY status
-    `);
-    
-    // Get user registrations by month for the last 12 months
-    const registrationsByMonthResult = await pool.query(`
-      SELECT 
-        DATE_TRUNC('month', created_at) as month,
-        user_type,
-        COUNT(*) as count
-      FROM profiles 
-      WHERE created_at >= DATE_TRUNC('month', CURRENT_DATE - INTERVAL '11 months')
-      GROUP BY DATE_TRUNC('month', created_at), user_type
-      ORDER BY month
-    `);
-    
-    // Get login activity by month (we'll use created_at as a proxy since we don't track login timestamps)
-    // In a real app, you'd have a separate login_logs table
-    const loginsByMonthResult = await pool.query(`
-      SELECT 
-        DATE_TRUNC('month', created_at) as month,
-        user_type,
-        COUNT(*) as count
-      FROM profiles 
-      WHERE created_at >= DATE_TRUNC('month', CURRENT_DATE - INTERVAL '11 months')
-      GROUP BY DATE_TRUNC('month', created_at), user_type
-      ORDER BY month
-    `);
-    
-    const totalUsers = parseInt(usersResult.rows[0].count);
-    const totalBusinesses = parseInt(businessesResult.rows[0].count);
-    const totalDeals = parseInt(dealsResult.rows[0].count);
-    const totalRedemptions = parseInt(transactionsResult.rows[0].count);
-    
-    // Transform user types data
-    const usersByType = userTypeResult.rows.map(row => ({
-      name: row.user_type,
-      value: parseInt(row.count)
-    }));
-    
-    // Transform recent users data
-    const recentUsers = recentUsersResult.rows.map(user => ({
-      id: user.id,
-      username: user.email, // Use email as username since that's what we have
-      email: user.email,
-      userType: user.user_type,
-      created_at: user.created_at
-    }));
-    
-    // Transform deals by status
-    const dealsByStatus = dealsByStatusResult.rows.map(row => ({
-      name: row.status,
-      value: parseInt(row.count)
-    }));
-    
-    // Transform registrations by month data
-    const registrationsByMonth = [];
-    const loginsByMonth = [];
-    
-    // Create a map to organize data by month
-    const registrationsMap = new Map();
-    const loginsMap = new Map();
-    
-    // Process registrations data
-    registrationsByMonthResult.rows.forEach(row => {
-      const monthKey = new Date(row.month).toISOString().substring(0, 7); // YYYY-MM format
-      if (!registrationsMap.has(monthKey)) {
-        registrationsMap.set(monthKey, { month: monthKey, individual: 0, business: 0, admin: 0 });
-      }
-      const monthData = registrationsMap.get(monthKey);
-      monthData[row.user_type] = parseInt(row.count);
-    });
-    
-    // Process logins data (using same data as registrations for now)
-    loginsByMonthResult.rows.forEach(row => {
-      const monthKey = new Date(row.month).toISOString().substring(0, 7); // YYYY-MM format
-      if (!loginsMap.has(monthKey)) {
-        loginsMap.set(monthKey, { month: monthKey, individual: 0, business: 0, admin: 0 });
-      }
-      const monthData = loginsMap.get(monthKey);
-      monthData[row.user_type] = parseInt(row.count);
-    });
-    
-    // Convert maps to arrays and format for charts
-    registrationsByMonth.push(...Array.from(registrationsMap.values()).map(data => ({
-      month: new Date(data.month + '-01').toLocaleDateString('en-US', { month: 'short', year: 'numeric' }),
-      individual: data.individual,
-      business: data.business,
-      admin: data.admin
-    })));
-    
-    loginsByMonth.push(...Array.from(loginsMap.values()).map(data => ({
-      month: new Date(data.month + '-01').toLocaleDateString('en-US', { month: 'short', year: 'numeric' }),
-      individual: data.individual,
-      business: data.business,
-      admin: data.admin
-    })));
-    
-    const analyticsData = {
-      totalUsers,
-      totalBusinesses,
-      totalDeals,
-      totalRedemptions,
-      activeDeals: totalDeals, // Assuming all deals are active for now
-      pendingDeals: 0, // No pending deals currently
-      usersGrowth: 0, // Would need historical data
-      businessesGrowth: 0,
-      dealsGrowth: 0,
-      redemptionsGrowth: 0,
-      redemptionsOverTime: [], // Would need time-series data
-      dealsByCategory: [], // Would need category data
-      dealsByStatus,
-      topDeals: [], // Would need deals with metrics
-      recentUsers,
-      popularBusinesses: [], // Would need business metrics
-      usersByType,
-      registrationsByMonth,
-      loginsByMonth,
-      engagementRate: 0,
-      redemptionsByDay: [],
-      averageRating: 0
-    };
-    
-    res.json(analyticsData);
-  } catch (error) {
-    console.error('Error fetching analytics:', error);
-    res.status(500).json({ error: 'Failed to fetch analytics' });
-  }
-});
-
-app.get('/api/v1/admin/dashboard', async (req, res) => {
-  try {
-    const [usersResult, businessesResult, dealsResult, pendingResult] = await Promise.all([
-      pool.query('SELECT COUNT(*) as count FROM profiles'),
-      pool.query('SELECT COUNT(*) as count FROM businesses_new'),
-      pool.query('SELECT COUNT(*) as count FROM deals'),
-      pool.query('SELECT COUNT(*) as count FROM businesses_new WHERE verification_status = \'pending\'')
-    ]);
-
-    res.json({
-      totalUsers: parseInt(usersResult.rows[0].count),
-      totalBusinesses: parseInt(businessesResult.rows[0].count),
-      totalDeals: parseInt(dealsResult.rows[0].count),
-      pendingApprovals: parseInt(pendingResult.rows[0].count),
-      recentTransactions: []
-    });
-  } catch (error) {
-    console.error('Error fetching dashboard stats:', error);
-    res.status(500).json({ error: 'Failed to fetch dashboard stats' });
-  }
-});
-
 // User favorites endpoint - MUST come before parameterized routes
 app.get('/api/v1/user/favorites', async (req, res) => {
   try {
@@ -968,4 +486,16 @@ server.listen(PORT, infrastructure.host, () => {
   
   // Start the sync worker for background sync operations
   startSyncWorker();
+  
+  // Activate, expire and archive deals on schedule
+  startDealLifecycleWorker();
+  
+  // Remind users about favorited deals that are about to expire
+  startDealReminderWorker();
+  
+  // Deliver queued emails
+  startEmailOutboxWorker();
+  
+  // Email the weekly deal digest
+  startWeeklyDigestWorker();
 });
\ No newline at end of file
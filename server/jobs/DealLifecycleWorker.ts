@@ -0,0 +1,57 @@
+/**
+ * Deal lifecycle worker
+ *
+ * Moves deals through their lifecycle on a schedule: approved deals go live at
+ * their start date, live deals expire after their end date, and expired deals
+ * are archived once the retention window has passed. Every transition is
+ * recorded in the deal's status history.
+ *
+ * Each run only moves deals that are still in the expected status, inside a
+ * transaction that skips rows locked by another run, so it is safe to run
+ * repeatedly and on several instances at once.
+ */
+import cron from 'node-cron';
+import { storage } from '../storage';
+import { applyDealLifecycle } from '../utils/dealLifecycle';
+import { getOptionalEnv } from '../../src/config/index.js';
+import type { DealStatusHistory } from '@shared/schema';
+
+const DEAL_LIFECYCLE_CRON = getOptionalEnv('DEAL_LIFECYCLE_CRON', '*/5 * * * *');
+const DEAL_ARCHIVE_AFTER_DAYS = parseInt(getOptionalEnv('DEAL_ARCHIVE_AFTER_DAYS', '90'), 10);
+
+/**
+ * Run the lifecycle rules once for the current time
+ */
+export async function runDealLifecycle(now: Date = new Date()): Promise<DealStatusHistory[]> {
+  return await applyDealLifecycle(storage, now, DEAL_ARCHIVE_AFTER_DAYS);
+}
+
+export function startDealLifecycleWorker(): void {
+  if (!process.env.DATABASE_URL) {
+    console.warn(
+      'DealLifecycleWorker: DATABASE_URL not configured; deal lifecycle updates disabled'
+    );
+    return;
+  }
+
+  // Runs can take longer than the interval on a large backlog
+  let running = false;
+
+  cron.schedule(DEAL_LIFECYCLE_CRON, async () => {
+    if (running) return;
+    running = true;
+
+    try {
+      const transitions = await runDealLifecycle();
+      if (transitions.length > 0) {
+        console.log(`DealLifecycleWorker: Moved ${transitions.length} deals`);
+      }
+    } catch (error) {
+      console.error('DealLifecycleWorker: Error updating deal statuses:', error);
+    } finally {
+      running = false;
+    }
+  });
+
+  console.log(`DealLifecycleWorker: Started deal lifecycle worker (${DEAL_LIFECYCLE_CRON})`);
+}
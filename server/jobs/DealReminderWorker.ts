@@ -0,0 +1,46 @@
+/**
+ * Deal reminder worker
+ *
+ * Periodically sends expiring-deal reminders for favorited deals. Reminders
+ * are claimed before they are delivered, so overlapping runs and several
+ * instances never send the same reminder twice.
+ */
+import cron from 'node-cron';
+import { sendDueDealReminders, registerDealReminderChannel } from '../services/DealReminders';
+import { webPushReminderChannel } from '../services/WebPush';
+import { emailReminderChannel } from '../services/Mailer';
+import { getOptionalEnv } from '../../src/config/index.js';
+
+const DEAL_REMINDER_CRON = getOptionalEnv('DEAL_REMINDER_CRON', '*/10 * * * *');
+
+export function startDealReminderWorker(): void {
+  if (!process.env.DATABASE_URL) {
+    console.warn(
+      'DealReminderWorker: DATABASE_URL not configured; deal reminders disabled'
+    );
+    return;
+  }
+
+  registerDealReminderChannel(emailReminderChannel);
+  registerDealReminderChannel(webPushReminderChannel);
+
+  let running = false;
+
+  cron.schedule(DEAL_REMINDER_CRON, async () => {
+    if (running) return;
+    running = true;
+
+    try {
+      const { sent, failed } = await sendDueDealReminders();
+      if (sent > 0 || failed > 0) {
+        console.log(`DealReminderWorker: Sent ${sent} reminders, ${failed} failed`);
+      }
+    } catch (error) {
+      console.error('DealReminderWorker: Error sending deal reminders:', error);
+    } finally {
+      running = false;
+    }
+  });
+
+  console.log(`DealReminderWorker: Started deal reminder worker (${DEAL_REMINDER_CRON})`);
+}
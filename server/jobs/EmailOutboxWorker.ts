@@ -0,0 +1,43 @@
+/**
+ * Email outbox worker
+ *
+ * Periodically delivers queued emails through the configured mail transport.
+ * Emails are claimed before they are sent, so overlapping runs and several
+ * instances never send the same email twice.
+ */
+import cron from 'node-cron';
+import { deliverDueEmails } from '../email/outbox';
+import { getMailTransport, MAIL_FROM } from '../services/Mailer';
+import { getOptionalEnv } from '../../src/config/index.js';
+
+const EMAIL_OUTBOX_CRON = getOptionalEnv('EMAIL_OUTBOX_CRON', '* * * * *');
+
+export function startEmailOutboxWorker(): void {
+  if (!process.env.DATABASE_URL) {
+    console.warn(
+      'EmailOutboxWorker: DATABASE_URL not configured; email delivery disabled'
+    );
+    return;
+  }
+
+  const transport = getMailTransport();
+  let running = false;
+
+  cron.schedule(EMAIL_OUTBOX_CRON, async () => {
+    if (running) return;
+    running = true;
+
+    try {
+      const { sent, retrying, failed } = await deliverDueEmails(transport, MAIL_FROM);
+      if (sent > 0 || retrying > 0 || failed > 0) {
+        console.log(`EmailOutboxWorker: Sent ${sent} emails, ${retrying} to retry, ${failed} failed`);
+      }
+    } catch (error) {
+      console.error('EmailOutboxWorker: Error delivering emails:', error);
+    } finally {
+      running = false;
+    }
+  });
+
+  console.log(`EmailOutboxWorker: Started email outbox worker (${EMAIL_OUTBOX_CRON}, ${transport.name} transport)`);
+}
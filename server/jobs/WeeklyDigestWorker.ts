@@ -0,0 +1,60 @@
+/**
+ * Weekly digest worker
+ *
+ * Queues the weekly deal digest for opted-in users and logs each run's
+ * metrics. Digests are deduplicated per user and week, so overlapping runs
+ * and several instances never send a user two digests in one week.
+ */
+import cron from 'node-cron';
+import { sendWeeklyDigests, type WeeklyDigestRunMetrics } from '../services/WeeklyDigest';
+import { getAppUrl, UNSUBSCRIBE_SECRET } from '../services/Mailer';
+import { getOptionalEnv } from '../../src/config/index.js';
+
+// Mondays at 9am
+const WEEKLY_DIGEST_CRON = getOptionalEnv('WEEKLY_DIGEST_CRON', '0 9 * * 1');
+
+export async function runWeeklyDigest(now: Date = new Date()): Promise<WeeklyDigestRunMetrics> {
+  return sendWeeklyDigests(now, {
+    appUrl: getAppUrl(''),
+    unsubscribeSecret: UNSUBSCRIBE_SECRET,
+  });
+}
+
+export function startWeeklyDigestWorker(): void {
+  if (!process.env.DATABASE_URL) {
+    console.warn(
+      'WeeklyDigestWorker: DATABASE_URL not configured; weekly digest disabled'
+    );
+    return;
+  }
+
+  if (!UNSUBSCRIBE_SECRET) {
+    console.warn(
+      'WeeklyDigestWorker: UNSUBSCRIBE_SECRET not configured; weekly digest disabled'
+    );
+    return;
+  }
+
+  let running = false;
+
+  cron.schedule(WEEKLY_DIGEST_CRON, async () => {
+    if (running) return;
+    running = true;
+
+    try {
+      const metrics = await runWeeklyDigest();
+      console.log(
+        `WeeklyDigestWorker: ${metrics.week}: queued ${metrics.queued} digests (${metrics.dealsIncluded} deals) ` +
+        `for ${metrics.usersConsidered} users from ${metrics.candidateDeals} deals; skipped ${metrics.skippedNoConsent} without consent, ` +
+        `${metrics.skippedNoDeals} without matching deals, ${metrics.skippedAlreadySent} already sent; ` +
+        `${metrics.failed} failed in ${metrics.durationMs}ms`
+      );
+    } catch (error) {
+      console.error('WeeklyDigestWorker: Error sending weekly digests:', error);
+    } finally {
+      running = false;
+    }
+  });
+
+  console.log(`WeeklyDigestWorker: Started weekly digest worker (${WEEKLY_DIGEST_CRON})`);
+}
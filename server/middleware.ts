@@ -4,12 +4,22 @@ import { securityRateLimiter, apiRateLimiter } from './middleware/rateLimit';
 import { applyCookieSecurityHeaders } from './utils/cookieUtils';
 import { verifyCsrf } from './middleware/csrfMiddleware';
 import { bypassCsrf } from './middleware/bypassCsrfMiddleware';
+import { storage, type BusinessMembership } from './storage';
+import { isSessionActive } from './services/Sessions';
+import { hasPermission, staffRoleOf, type Permission, type StaffRole } from '@shared/permissions';
+import { hasBusinessPermission, type BusinessPermission } from '@shared/businessMembers';
 
 // Extend Express Request interface to include user
 declare global {
   namespace Express {
     interface Request {
       user?: JwtPayload;
+      // Set by requirePermission for the rest of the request
+      staffRole?: StaffRole;
+      // The staff account (users.id) behind req.user, also set by requirePermission
+      staffUserId?: number;
+      // Set by requireBusinessPermission for the rest of the request
+      businessMembership?: BusinessMembership;
     }
   }
 }
@@ -19,7 +29,7 @@ declare global {
  * Verifies JWT token and attaches user data to the request
  * Includes enhanced security with rate limiting for failed attempts
  */
-export function authenticate(req: Request, res: Response, next: NextFunction) {
+export async function authenticate(req: Request, res: Response, next: NextFunction) {
   try {
     console.log(`AUTH: Processing request ${req.method} ${req.path}`);
     
@@ -66,6 +76,15 @@ export function authenticate(req: Request, res: Response, next: NextFunction) {
       }
     }
     
+    // A token issued for a device session dies with the session
+    if (token.sid !== undefined && !(await isSessionActive(token.sid, token.userId))) {
+      console.log(`AUTH: Session ${token.sid} of user ${token.userId} has ended`);
+      return res.status(401).json({ 
+        error: 'Session ended',
+        code: 'session_revoked'
+      });
+    }
+    
     // Attach user info to request
     console.log(`AUTH: Successfully authenticated user ${token.userId} (${token.userType}) for ${req.method} ${req.path}`);
     req.user = token;
@@ -112,13 +131,101 @@ export function authorize(roles: string[]) {
   };
 }
 
+/**
+ * The account an admin's staff role is kept on. Profile IDs aren't numeric, so
+ * admins signed in with a profile are found by email instead; only a users row
+ * counts, not the profile getUserByEmail falls back to
+ */
+export async function staffAccountOf(user: NonNullable<Request['user']>) {
+  if (user.userType !== 'admin') return undefined;
+  const account = /^\d+$/.test(String(user.userId)) ? await storage.getUser(Number(user.userId)) : await storage.getUserByEmail(user.email);
+  return account && Number.isInteger(account.id) ? account : undefined;
+}
+
+/**
+ * Staff permission middleware
+ * Looks the admin's staff role up on every request, so role changes apply without signing in again
+ */
+export function requirePermission(permission: Permission) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      return res.status(401).json({ 
+        error: 'Authentication required',
+        code: 'auth_required'
+      });
+    }
+    
+    try {
+      const user = await staffAccountOf(req.user);
+      const role = user ? staffRoleOf(user) : null;
+      
+      if (!hasPermission(role, permission)) {
+        console.warn(`Access violation: User ${req.user.userId} (${role ?? req.user.userType}) tried to access resource requiring permission: ${permission}`);
+        
+        return res.status(403).json({ 
+          error: 'Access denied: Insufficient permissions',
+          code: 'insufficient_permissions', 
+          requiredPermission: permission,
+          userRole: role ?? req.user.userType
+        });
+      }
+      
+      req.staffRole = role!;
+      req.staffUserId = user!.id;
+      next();
+    } catch (error) {
+      console.error('Permission check error:', error);
+      return res.status(500).json({ message: 'Internal server error' });
+    }
+  };
+}
+
+/**
+ * Business permission middleware
+ * Looks up the business the user works for and their role in it; with idParam, the
+ * route parameter must be that business's ID
+ */
+export function requireBusinessPermission(permission: BusinessPermission, idParam?: string) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      return res.status(401).json({ 
+        error: 'Authentication required',
+        code: 'auth_required'
+      });
+    }
+    
+    try {
+      const membership = await storage.getBusinessMembership(req.user.userId);
+      const forThisBusiness = !idParam || String(membership?.business.id) === req.params[idParam];
+      
+      if (!membership || !forThisBusiness || !hasBusinessPermission(membership.role, permission)) {
+        console.warn(`Access violation: User ${req.user.userId} (${membership?.role ?? req.user.userType}) tried to access business resource requiring permission: ${permission}`);
+        
+        return res.status(403).json({ 
+          error: 'Access denied: Insufficient permissions',
+          code: 'insufficient_permissions', 
+          requiredPermission: permission,
+          userRole: membership?.role ?? req.user.userType
+        });
+      }
+      
+      req.businessMembership = membership;
+      next();
+    } catch (error) {
+      console.error('Business permission check error:', error);
+      return res.status(500).json({ message: 'Internal server error' });
+    }
+  };
+}
+
 /**
  * Resource ownership middleware
- * Ensures the authenticated user owns the requested resource
+ * Ensures the authenticated user owns the requested resource; with a businessId parameter,
+ * any member of that business's team does
  * Enhanced with detailed security logging and validation
  */
 export function checkOwnership(idParam: string = 'id', userIdField: string = 'userId') {
-  return (req: Request, res: Response, next: NextFunction) => {
+  return async (req: Request, res: Response, next: NextFunction) => {
     if (!req.user) {
       return res.status(401).json({ 
         error: 'Authentication required',
@@ -141,10 +248,24 @@ export function checkOwnership(idParam: string = 'id', userIdField: string = 'us
       });
     }
     
-    if (String(req.user.userId) === resourceId || req.body[userIdField] === req.user.userId) {
+    // A business ID is never the user's own ID, so only team membership counts for it
+    if (idParam !== 'businessId' && (String(req.user.userId) === resourceId || req.body[userIdField] === req.user.userId)) {
       return next();
     }
     
+    // A business's resources belong to everyone on its team
+    if (idParam === 'businessId') {
+      try {
+        const membership = await storage.getBusinessMembership(req.user.userId);
+        if (membership && String(membership.business.id) === resourceId) {
+          return next();
+        }
+      } catch (error) {
+        console.error('Ownership check error:', error);
+        return res.status(500).json({ message: 'Internal server error' });
+      }
+    }
+    
     // Log potential unauthorized access attempts
     console.warn(`Ownership violation: User ${req.user.userId} tried to access resource ${idParam}=${resourceId}`);
     
@@ -1,5 +1,6 @@
 import { Request, Response, NextFunction } from "express";
 import { z } from "zod";
+import { dealScheduleSchema } from "@shared/schema";
 
 /**
  * Business profile update validation schema
@@ -24,6 +25,8 @@ export const businessProfileSchema = z.object({
   imageUrl: z.any().nullable().optional(),
   latitude: z.number().min(-90, "Latitude must be between -90 and 90").max(90, "Latitude must be between -90 and 90").nullable().optional(),
   longitude: z.number().min(-180, "Longitude must be between -180 and 180").max(180, "Longitude must be between -180 and 180").nullable().optional(),
+  // Opening hours are read in this timezone
+  timezone: dealScheduleSchema.shape.timezone.nullable().optional(),
 });
 
 /**
@@ -5,8 +5,21 @@
 
 import type { Express, Request, Response, NextFunction } from "express";
 import { createServer, type Server } from "http";
-import { storage } from "./storage";
+import { storage, RedemptionError } from "./storage";
+import { sendBusinessVerificationEmail, sendDealReviewEmail } from "./services/Mailer";
+import { submitDealRevision, getDealRevisionHistory } from "./services/DealRevisions";
+import { preModerateDeal } from "./services/PreModeration";
+import {
+  assertLoginAllowed,
+  handleFailedLogin,
+  LoginThrottleError,
+  recordLoginSuccess,
+  sendLoginThrottleError
+} from "./services/LoginThrottle";
+import { setPaginationHeaders } from "./utils/pagination";
+import { paginateDeals } from "./utils/dealPagination";
 import { loginUserSchema, insertUserSchema, insertDealSchema, ratingSchema } from "@shared/schema";
+import { ACCOUNT_LOCKED } from "@shared/loginThrottle";
 import { z } from "zod";
 import { generateToken } from "./auth";
 import { authenticate, authorize, checkOwnership } from "./middleware";
@@ -125,12 +138,23 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Validate request body
       const validatedData = loginUserSchema.parse(req.body);
       
-      // Verify credentials
+      // Verify credentials, unless failed attempts have throttled or locked the account
+      await assertLoginAllowed(validatedData.email);
       const user = await storage.verifyLogin(validatedData.email, validatedData.password);
       
       if (!user) {
+        const owner = await storage.getUserByEmail(validatedData.email);
+        const lockout = await handleFailedLogin(
+          validatedData.email,
+          owner ? { email: owner.email, firstName: owner.firstName, id: owner.id } : null,
+          { ipAddress: req.ip, userAgent: req.get('user-agent') }
+        );
+        if (lockout) {
+          return sendLoginThrottleError(res, new LoginThrottleError(ACCOUNT_LOCKED, lockout.lockedUntil));
+        }
         return res.status(401).json({ message: "Invalid email or password" });
       }
+      await recordLoginSuccess(validatedData.email);
       
       // Generate JWT token
       const token = generateToken(user);
@@ -143,6 +167,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
         token
       });
     } catch (error) {
+      if (error instanceof LoginThrottleError) {
+        return sendLoginThrottleError(res, error);
+      }
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: "Validation error", errors: error.errors });
       }
@@ -464,8 +491,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       console.log("Creating deal with data:", dealData);
       const deal = await storage.createDeal(dealData);
+      const approval = await preModerateDeal(deal, req.user.userId);
+      await sendDealReviewEmail(approval);
       
-      return res.status(201).json(deal);
+      return res.status(201).json(approval.status === 'pending' ? deal : await storage.getDeal(deal.id));
     } catch (error) {
       console.error("Create deal error:", error);
       if (error instanceof Error) {
@@ -514,8 +543,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       console.log("Updating deal with data:", dealData);
       const updatedDeal = await storage.updateDeal(dealId, dealData);
+      const approval = await submitDealRevision(existingDeal, updatedDeal, req.user!.userId);
+      if (approval) {
+        await sendDealReviewEmail(approval);
+      }
       
-      return res.status(200).json(updatedDeal);
+      return res.status(200).json(approval && approval.status !== 'pending' ? await storage.getDeal(dealId) : updatedDeal);
     } catch (error) {
       console.error("Update deal error:", error);
       if (error instanceof Error) {
@@ -643,6 +676,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
       return res.status(201).json(redemption);
     } catch (error) {
       console.error("Create redemption error:", error);
+      if (error instanceof RedemptionError) {
+        return res.status(409).json({ message: error.message, code: error.code });
+      }
       if (error instanceof Error) {
         return res.status(400).json({ message: error.message });
       }
@@ -792,6 +828,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       const updatedBusiness = await storage.updateBusinessVerificationStatus(businessId, status, feedback);
+      await sendBusinessVerificationEmail(updatedBusiness);
       
       return res.status(200).json(updatedBusiness);
     } catch (error) {
@@ -948,9 +985,23 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Invalid deal ID" });
       }
       
-      const approvals = await storage.getDealApprovalHistory(dealId);
+      const deal = await storage.getDeal(dealId);
+      if (!deal) {
+        return res.status(404).json({ message: "Deal not found" });
+      }
       
-      return res.status(200).json(approvals);
+      // Only admins and the deal's business owner see its reviews
+      if (req.user?.userType !== 'admin') {
+        const business = await storage.getBusinessByUserId(req.user!.userId);
+        if (!business || business.id !== deal.businessId) {
+          return res.status(403).json({ message: "You are not authorized to view this deal's reviews" });
+        }
+      }
+      
+      // Every submission with its field-level changes and reviewer comments, newest first
+      const revisions = await getDealRevisionHistory(dealId);
+      
+      return res.status(200).json(revisions);
     } catch (error) {
       console.error("Get deal approval history error:", error);
       if (error instanceof Error) {
@@ -973,6 +1024,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       const updatedApproval = await storage.updateDealApproval(approvalId, status);
+      await sendDealReviewEmail(updatedApproval);
       
       return res.status(200).json(updatedApproval);
     } catch (error) {
@@ -991,7 +1043,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       const deals = await storage.getDealsByStatus(status);
       
-      return res.status(200).json(deals);
+      const page = paginateDeals(deals, req.query);
+      setPaginationHeaders(res, page);
+      
+      return res.status(200).json(page.items);
     } catch (error) {
       console.error("Get deals by status error:", error);
       if (error instanceof Error) {
@@ -1013,7 +1068,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Status is required" });
       }
       
-      const updatedDeal = await storage.updateDealStatus(dealId, status);
+      const updatedDeal = await storage.updateDealStatus(dealId, status, { changedBy: req.user!.userId });
       
       return res.status(200).json(updatedDeal);
     } catch (error) {
@@ -1084,47 +1139,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  app.post("/api/deals/:dealId/verify-code", authenticate, async (req: Request, res: Response) => {
-    try {
-      const dealId = parseInt(req.params.dealId);
-      if (isNaN(dealId)) {
-        return res.status(400).json({ message: "Invalid deal ID" });
-      }
-      
-      const { code } = req.body;
-      if (!code) {
-        return res.status(400).json({ message: "Redemption code is required" });
-      }
-      
-      const isValid = await storage.verifyRedemptionCode(dealId, code);
-      
-      if (!isValid) {
-        return res.status(200).json({ valid: false, message: "Invalid redemption code" });
-      }
-      
-      // If user is authenticated and is an individual, create a redemption record
-      if (req.user && req.user.userType === 'individual') {
-        // Create a redemption record
-        const redemption = await storage.createRedemption(req.user.userId, dealId);
-        
-        // Increment deal redemptions count
-        await storage.incrementDealRedemptions(dealId);
-        
-        return res.status(200).json({ 
-          valid: true,
-          message: "Redemption code verified successfully",
-          redemption 
-        });
-      }
-      
-      return res.status(200).json({ valid: true });
-    } catch (error) {
-      console.error("Verify redemption code error:", error);
-      if (error instanceof Error) {
-        return res.status(400).json({ message: error.message });
-      }
-      return res.status(500).json({ message: "Internal server error" });
-    }
+  // Static redemption PINs have been replaced by single-use redemption tokens
+  // (POST /api/v1/deals/:dealId/redemption-token and /api/v1/redemptions/verify-token)
+  app.post("/api/deals/:dealId/verify-code", authenticate, async (_req: Request, res: Response) => {
+    return res.status(410).json({ 
+      valid: false,
+      message: "Static redemption codes are no longer supported. Request a redemption token instead."
+    });
   });
 
   // Redemption Rating routes
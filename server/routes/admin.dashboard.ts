@@ -0,0 +1,535 @@
+import type { Express } from "express";
+import { pool } from "../db";
+import { authenticate, requirePermission } from "../middleware";
+import { validate } from "../middleware/validationMiddleware";
+import { moderationSchemas } from "../schemas";
+import { resolveRejection, recordModerationDecision, RejectionReasonError } from "../services/Moderation";
+import { auditActorOf, recordAdminAction } from "../services/AdminAudit";
+
+/**
+ * Admin API endpoints that the dashboard needs, registered by the server entry
+ * point. Every route requires a signed-in admin whose staff role has the
+ * route's permission
+ */
+export function adminDashboardRoutes(app: Express): void {
+  app.get('/api/v1/admin/businesses', authenticate, requirePermission('vendors.read'), async (req, res) => {
+    try {
+      console.log('Admin businesses endpoint called');
+      const result = await pool.query(`
+        SELECT 
+          v.id,
+          v.business_name,
+          v.business_category,
+          v.verification_status,
+          COALESCE(v.created_at, '2024-01-01'::timestamp) as applied_date,
+          COALESCE(v.updated_at, '2024-01-01'::timestamp) as updated_at,
+          COALESCE(p.email, u.email) as email,
+          COALESCE(p.first_name, u.first_name) as first_name,
+          COALESCE(p.last_name, u.last_name) as last_name,
+          COALESCE(p.phone, u.phone) as phone,
+          COALESCE(p.created_at, u.created_at::timestamp with time zone) as created_at,
+          COALESCE(p.address, u.address) as address
+        FROM v_businesses_unified v
+        LEFT JOIN profiles p ON v.profile_id = p.id
+        LEFT JOIN users u ON v.foreign_key = u.id::text AND v.profile_id IS NULL
+        ORDER BY v.business_name
+      `);
+
+      console.log(`Found ${result.rows.length} businesses`);
+      res.json(result.rows);
+    } catch (error) {
+      console.error('Error fetching businesses:', error);
+      res.status(500).json({ error: 'Failed to fetch businesses' });
+    }
+  });
+
+  app.get('/api/v1/admin/businesses/pending', authenticate, requirePermission('vendors.read'), async (req, res) => {
+    try {
+      console.log('Admin pending businesses endpoint called');
+      const result = await pool.query(`
+        SELECT 
+          v.id,
+          v.business_name,
+          v.business_category,
+          v.verification_status,
+          COALESCE(v.created_at, '2024-01-01'::timestamp) as applied_date,
+          COALESCE(v.updated_at, '2024-01-01'::timestamp) as updated_at,
+          COALESCE(p.email, u.email) as email,
+          COALESCE(p.first_name, u.first_name) as first_name,
+          COALESCE(p.last_name, u.last_name) as last_name,
+          COALESCE(p.phone, u.phone) as phone,
+          COALESCE(p.created_at, u.created_at::timestamp with time zone) as created_at,
+          COALESCE(p.address, u.address) as address
+        FROM v_businesses_unified v
+        LEFT JOIN profiles p ON v.profile_id = p.id
+        LEFT JOIN users u ON v.foreign_key = u.id::text AND v.profile_id IS NULL
+        WHERE v.verification_status = 'pending'
+        ORDER BY v.business_name
+      `);
+
+      console.log(`Found ${result.rows.length} pending businesses`);
+      res.json(result.rows);
+    } catch (error) {
+      console.error('Error fetching pending businesses:', error);
+      res.status(500).json({ error: 'Failed to fetch pending businesses' });
+    }
+  });
+
+  // Individual business detail endpoint
+  app.get('/api/v1/admin/business/:id', authenticate, requirePermission('vendors.read'), async (req, res) => {
+    try {
+      const businessId = req.params.id;
+      console.log(`Fetching business details for ID: ${businessId}`);
+
+      const result = await pool.query(`
+        SELECT 
+          b.id,
+          b.business_name,
+          b.business_category,
+          b.verification_status,
+          b.government_id,
+          b.proof_of_address,
+          b.proof_of_business,
+          b.created_at as applied_date,
+          b.updated_at,
+          p.email,
+          p.first_name,
+          p.last_name,
+          p.phone,
+          p.created_at,
+          p.address,
+          p.user_type
+        FROM businesses_new b
+        LEFT JOIN profiles p ON b.profile_id = p.id
+        WHERE b.id = $1
+      `, [businessId]);
+
+      if (result.rows.length === 0) {
+        return res.status(404).json({ error: 'Business not found' });
+      }
+
+      console.log(`Found business: ${result.rows[0].business_name}`);
+      res.json(result.rows[0]);
+    } catch (error) {
+      console.error('Error fetching business details:', error);
+      res.status(500).json({ error: 'Failed to fetch business details' });
+    }
+  });
+
+  // Admin business approval endpoint
+  app.post('/api/v1/admin/businesses/:id/approve', authenticate, requirePermission('vendors.manage'), validate(moderationSchemas.approve), async (req, res) => {
+    try {
+      const businessId = req.params.id;
+      console.log(`Approving business ID: ${businessId}`);
+
+      const previous = await pool.query('SELECT verification_status, verification_feedback FROM businesses_new WHERE id = $1', [businessId]);
+      const result = await pool.query(`
+        UPDATE businesses_new 
+        SET verification_status = 'approved', verification_feedback = NULL, updated_at = NOW()
+        WHERE id = $1
+        RETURNING *
+      `, [businessId]);
+
+      if (result.rows.length === 0) {
+        return res.status(404).json({ error: 'Business not found' });
+      }
+
+      console.log(`Approved business: ${result.rows[0].business_name}`);
+      await recordModerationDecision('business', parseInt(businessId, 10), 'approved', req.body ?? {}, req.staffUserId ?? null);
+      await recordAdminAction(auditActorOf(req), {
+        action: 'business.approve',
+        targetType: 'business',
+        targetId: businessId,
+        before: previous.rows[0] ?? null,
+        after: { verification_status: result.rows[0].verification_status, verification_feedback: null }
+      });
+      res.json({ message: 'Business approved successfully', business: result.rows[0] });
+    } catch (error) {
+      console.error('Error approving business:', error);
+      res.status(500).json({ error: 'Failed to approve business' });
+    }
+  });
+
+  // Admin business rejection endpoint
+  app.post('/api/v1/admin/businesses/:id/reject', authenticate, requirePermission('vendors.manage'), validate(moderationSchemas.reject), async (req, res) => {
+    try {
+      const businessId = req.params.id;
+      const { feedback } = await resolveRejection('business', req.body);
+      console.log(`Rejecting business ID: ${businessId}, reasons: ${req.body.reasonCodes.join(', ')}`);
+
+      const previous = await pool.query('SELECT verification_status, verification_feedback FROM businesses_new WHERE id = $1', [businessId]);
+      // The owner is shown the feedback alongside the rejected status
+      const result = await pool.query(`
+        UPDATE businesses_new 
+        SET verification_status = 'rejected', verification_feedback = $2, updated_at = NOW()
+        WHERE id = $1
+        RETURNING *
+      `, [businessId, feedback]);
+
+      if (result.rows.length === 0) {
+        return res.status(404).json({ error: 'Business not found' });
+      }
+
+      console.log(`Rejected business: ${result.rows[0].business_name}`);
+      await recordModerationDecision('business', parseInt(businessId, 10), 'rejected', req.body, req.staffUserId ?? null);
+      await recordAdminAction(auditActorOf(req), {
+        action: 'business.reject',
+        targetType: 'business',
+        targetId: businessId,
+        before: previous.rows[0] ?? null,
+        after: { verification_status: result.rows[0].verification_status, verification_feedback: result.rows[0].verification_feedback },
+        details: { reasonCodes: req.body.reasonCodes, feedback }
+      });
+      res.json({ message: 'Business rejected successfully', business: result.rows[0], feedback });
+    } catch (error) {
+      if (error instanceof RejectionReasonError) {
+        return res.status(400).json({ message: error.message, codes: error.codes });
+      }
+      console.error('Error rejecting business:', error);
+      res.status(500).json({ error: 'Failed to reject business' });
+    }
+  });
+
+  // Admin business deletion endpoint with CSRF protection and Supabase sync
+  app.delete('/api/v1/admin/businesses/:id', authenticate, requirePermission('vendors.manage'), async (req, res) => {
+    try {
+      const businessId = parseInt(req.params.id);
+      if (isNaN(businessId)) {
+        return res.status(400).json({ error: 'Invalid business ID' });
+      }
+
+      console.log(`Admin DELETE: Attempting to delete business ID: ${businessId}`);
+
+      // Import VendorSyncService dynamically to avoid circular imports
+      const { deleteVendorFully } = await import('../sync/VendorSyncService.js');
+
+      // Use the sync service for coordinated deletion
+      const result = await deleteVendorFully({ businessId });
+
+      if (result.success) {
+        console.log(`Admin DELETE: Successfully deleted business ID: ${businessId}, partial: ${result.partial || false}`);
+        await recordAdminAction(auditActorOf(req), {
+          action: 'business.delete',
+          targetType: 'business',
+          targetId: businessId,
+          details: { partial: result.partial || false, profileId: result.profileId ?? null }
+        });
+        return res.status(200).json({ 
+          ok: true,
+          deletedBusinessId: businessId,
+          message: 'Business deleted successfully',
+          partial: result.partial || false,
+          profileDeleted: !!result.profileId,
+          authUserDeleted: !!result.authUserId
+        });
+      } else {
+        console.log(`Admin DELETE: Failed to delete business ID: ${businessId}, error: ${result.error}`);
+        return res.status(500).json({ 
+          error: result.error || 'Failed to delete business',
+          partial: result.partial || false
+        });
+      }
+    } catch (err) {
+      console.error('Admin DELETE: Unexpected error:', err);
+      return res.status(500).json({ error: 'Unable to delete business' });
+    }
+  });
+
+  // Document viewing/download endpoint
+  app.get('/api/v1/admin/documents/:businessId/:documentType', authenticate, requirePermission('vendors.read'), async (req, res) => {
+    try {
+      const { businessId, documentType } = req.params;
+      console.log(`Document request for business ${businessId}, type: ${documentType}`);
+
+      // Get the document path from database
+      const columnMap: Record<string, string> = {
+        'government_id': 'government_id',
+        'proof_of_address': 'proof_of_address', 
+        'proof_of_business': 'proof_of_business'
+      };
+
+      const column = columnMap[documentType];
+      if (!column) {
+        return res.status(400).json({ error: 'Invalid document type' });
+      }
+
+      const result = await pool.query(
+        `SELECT ${column} as document_url FROM businesses_new WHERE id = $1`,
+        [businessId]
+      );
+
+      if (result.rows.length === 0) {
+        return res.status(404).json({ error: 'Business not found' });
+      }
+
+      const documentUrl = result.rows[0].document_url;
+
+      // Check if it's a placeholder URL or real Supabase path
+      if (!documentUrl || documentUrl.includes('example.com')) {
+        return res.status(404).json({ error: 'Document not found or not uploaded' });
+      }
+
+      // If it's already a signed URL, return it
+      if (documentUrl.includes('supabase')) {
+        return res.json({ url: documentUrl });
+      }
+
+      // For now, since we have placeholder URLs, return a mock response
+      // In production, this would generate signed URLs from Supabase Storage
+      res.json({ 
+        url: documentUrl,
+        message: 'Document is available but stored with placeholder URL',
+        type: documentType
+      });
+
+    } catch (error) {
+      console.error('Error fetching document:', error);
+      res.status(500).json({ error: 'Failed to fetch document' });
+    }
+  });
+
+  app.get('/api/v1/admin/deals', authenticate, requirePermission('deals.read'), async (req, res) => {
+    try {
+      const result = await pool.query(`
+        SELECT d.*, b.business_name, b.business_category
+        FROM deals d
+        LEFT JOIN businesses_new b ON d.business_id = b.id
+        ORDER BY d.created_at DESC
+      `);
+      res.json(result.rows);
+    } catch (error) {
+      console.error('Error fetching deals:', error);
+      res.status(500).json({ error: 'Failed to fetch deals' });
+    }
+  });
+
+  app.get('/api/v1/admin/users', authenticate, requirePermission('users.read'), async (req, res) => {
+    try {
+      const result = await pool.query(`
+        SELECT id, email, first_name, last_name, user_type, role, phone, 
+               created_at, marketing_consent, is_live
+        FROM profiles
+        ORDER BY created_at DESC
+      `);
+
+      // Convert snake_case to camelCase for frontend
+      const users = result.rows.map(user => ({
+        id: user.id,
+        email: user.email,
+        firstName: user.first_name,
+        lastName: user.last_name,
+        userType: user.user_type,
+        role: user.role,
+        phone: user.phone,
+        createdAt: user.created_at,
+        marketingConsent: user.marketing_consent, // This is the key fix
+        isLive: user.is_live
+      }));
+
+      res.json(users);
+    } catch (error) {
+      console.error('Error fetching users:', error);
+      res.status(500).json({ error: 'Failed to fetch users' });
+    }
+  });
+
+  app.get('/api/v1/admin/transactions', authenticate, requirePermission('reports.view'), async (req, res) => {
+    try {
+      // Return empty array for now since there might be data type mismatches
+      // The transactions table exists but may have different column types
+      res.json([]);
+    } catch (error) {
+      console.error('Error fetching transactions:', error);
+      res.status(500).json({ error: 'Failed to fetch transactions' });
+    }
+  });
+
+  app.get('/api/v1/admin/analytics', authenticate, requirePermission('reports.view'), async (req, res) => {
+    try {
+      const timeRange = req.query.timeRange || '30days';
+
+      // Calculate date ranges based on timeRange
+      let days = 30;
+      if (timeRange === '7days') days = 7;
+      else if (timeRange === '90days') days = 90;
+
+      const endDate = new Date();
+      const startDate = new Date();
+      startDate.setDate(startDate.getDate() - days);
+
+      // Get basic counts
+      const usersResult = await pool.query('SELECT COUNT(*) as count FROM profiles');
+      const businessesResult = await pool.query('SELECT COUNT(*) as count FROM businesses_new');
+      const dealsResult = await pool.query('SELECT COUNT(*) as count FROM deals');
+      const transactionsResult = await pool.query('SELECT COUNT(*) as count FROM deal_redemptions');
+
+      // Get user distribution by type
+      const userTypeResult = await pool.query(`
+        SELECT user_type, COUNT(*) as count 
+        FROM profiles 
+        GROUP BY user_type
+      `);
+
+      // Get recent users (last 10)
+      const recentUsersResult = await pool.query(`
+        SELECT id, email, first_name, last_name, user_type, created_at
+        FROM profiles 
+        ORDER BY created_at DESC 
+        LIMIT 10
+      `);
+
+      // Get deals by status (if any exist)
+      const dealsByStatusResult = await pool.query(`
+        SELECT status, COUNT(*) as count 
+        FROM deals 
+        GROUP BY status
+      `);
+
+      // Get user registrations by month for the last 12 months
+      const registrationsByMonthResult = await pool.query(`
+        SELECT 
+          DATE_TRUNC('month', created_at) as month,
+          user_type,
+          COUNT(*) as count
+        FROM profiles 
+        WHERE created_at >= DATE_TRUNC('month', CURRENT_DATE - INTERVAL '11 months')
+        GROUP BY DATE_TRUNC('month', created_at), user_type
+        ORDER BY month
+      `);
+
+      // Get login activity by month (we'll use created_at as a proxy since we don't track login timestamps)
+      // In a real app, you'd have a separate login_logs table
+      const loginsByMonthResult = await pool.query(`
+        SELECT 
+          DATE_TRUNC('month', created_at) as month,
+          user_type,
+          COUNT(*) as count
+        FROM profiles 
+        WHERE created_at >= DATE_TRUNC('month', CURRENT_DATE - INTERVAL '11 months')
+        GROUP BY DATE_TRUNC('month', created_at), user_type
+        ORDER BY month
+      `);
+
+      const totalUsers = parseInt(usersResult.rows[0].count);
+      const totalBusinesses = parseInt(businessesResult.rows[0].count);
+      const totalDeals = parseInt(dealsResult.rows[0].count);
+      const totalRedemptions = parseInt(transactionsResult.rows[0].count);
+
+      // Transform user types data
+      const usersByType = userTypeResult.rows.map(row => ({
+        name: row.user_type,
+        value: parseInt(row.count)
+      }));
+
+      // Transform recent users data
+      const recentUsers = recentUsersResult.rows.map(user => ({
+        id: user.id,
+        username: user.email, // Use email as username since that's what we have
+        email: user.email,
+        userType: user.user_type,
+        created_at: user.created_at
+      }));
+
+      // Transform deals by status
+      const dealsByStatus = dealsByStatusResult.rows.map(row => ({
+        name: row.status,
+        value: parseInt(row.count)
+      }));
+
+      // Transform registrations by month data
+      const registrationsByMonth = [];
+      const loginsByMonth = [];
+
+      // Create a map to organize data by month
+      const registrationsMap = new Map();
+      const loginsMap = new Map();
+
+      // Process registrations data
+      registrationsByMonthResult.rows.forEach(row => {
+        const monthKey = new Date(row.month).toISOString().substring(0, 7); // YYYY-MM format
+        if (!registrationsMap.has(monthKey)) {
+          registrationsMap.set(monthKey, { month: monthKey, individual: 0, business: 0, admin: 0 });
+        }
+        const monthData = registrationsMap.get(monthKey);
+        monthData[row.user_type] = parseInt(row.count);
+      });
+
+      // Process logins data (using same data as registrations for now)
+      loginsByMonthResult.rows.forEach(row => {
+        const monthKey = new Date(row.month).toISOString().substring(0, 7); // YYYY-MM format
+        if (!loginsMap.has(monthKey)) {
+          loginsMap.set(monthKey, { month: monthKey, individual: 0, business: 0, admin: 0 });
+        }
+        const monthData = loginsMap.get(monthKey);
+        monthData[row.user_type] = parseInt(row.count);
+      });
+
+      // Convert maps to arrays and format for charts
+      registrationsByMonth.push(...Array.from(registrationsMap.values()).map(data => ({
+        month: new Date(data.month + '-01').toLocaleDateString('en-US', { month: 'short', year: 'numeric' }),
+        individual: data.individual,
+        business: data.business,
+        admin: data.admin
+      })));
+
+      loginsByMonth.push(...Array.from(loginsMap.values()).map(data => ({
+        month: new Date(data.month + '-01').toLocaleDateString('en-US', { month: 'short', year: 'numeric' }),
+        individual: data.individual,
+        business: data.business,
+        admin: data.admin
+      })));
+
+      const analyticsData = {
+        totalUsers,
+        totalBusinesses,
+        totalDeals,
+        totalRedemptions,
+        activeDeals: totalDeals, // Assuming all deals are active for now
+        pendingDeals: 0, // No pending deals currently
+        usersGrowth: 0, // Would need historical data
+        businessesGrowth: 0,
+        dealsGrowth: 0,
+        redemptionsGrowth: 0,
+        redemptionsOverTime: [], // Would need time-series data
+        dealsByCategory: [], // Would need category data
+        dealsByStatus,
+        topDeals: [], // Would need deals with metrics
+        recentUsers,
+        popularBusinesses: [], // Would need business metrics
+        usersByType,
+        registrationsByMonth,
+        loginsByMonth,
+        engagementRate: 0,
+        redemptionsByDay: [],
+        averageRating: 0
+      };
+
+      res.json(analyticsData);
+    } catch (error) {
+      console.error('Error fetching analytics:', error);
+      res.status(500).json({ error: 'Failed to fetch analytics' });
+    }
+  });
+
+  app.get('/api/v1/admin/dashboard', authenticate, requirePermission('dashboard.view'), async (req, res) => {
+    try {
+      const [usersResult, businessesResult, dealsResult, pendingResult] = await Promise.all([
+        pool.query('SELECT COUNT(*) as count FROM profiles'),
+        pool.query('SELECT COUNT(*) as count FROM businesses_new'),
+        pool.query('SELECT COUNT(*) as count FROM deals'),
+        pool.query('SELECT COUNT(*) as count FROM businesses_new WHERE verification_status = \'pending\'')
+      ]);
+
+      res.json({
+        totalUsers: parseInt(usersResult.rows[0].count),
+        totalBusinesses: parseInt(businessesResult.rows[0].count),
+        totalDeals: parseInt(dealsResult.rows[0].count),
+        pendingApprovals: parseInt(pendingResult.rows[0].count),
+        recentTransactions: []
+      });
+    } catch (error) {
+      console.error('Error fetching dashboard stats:', error);
+      res.status(500).json({ error: 'Failed to fetch dashboard stats' });
+    }
+  });
+}
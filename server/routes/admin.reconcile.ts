@@ -2,6 +2,8 @@
 import express from 'express';
 import { Pool } from 'pg';
 import { createClient } from '@supabase/supabase-js';
+import { auditActorOf, recordAdminAction } from '../services/AdminAudit.js';
+import { authenticate, requirePermission } from '../middleware.js';
 
 const router = express.Router();
 const pool = new Pool({
@@ -24,7 +26,7 @@ const supabaseAdmin = createClient(
 );
 
 // GET /api/v1/admin/tools/reconcile-auth - Check for sync inconsistencies
-router.get('/reconcile-auth', async (req, res) => {
+router.get('/reconcile-auth', authenticate, requirePermission('users.read'), async (req, res) => {
   try {
     console.log('Admin reconcile: Starting auth/profile reconciliation check...');
 
@@ -99,7 +101,7 @@ router.get('/reconcile-auth', async (req, res) => {
 });
 
 // POST /api/v1/admin/tools/reconcile-auth/fix - Fix specific sync issues
-router.post('/reconcile-auth/fix', async (req, res) => {
+router.post('/reconcile-auth/fix', authenticate, requirePermission('users.manage'), async (req, res) => {
   try {
     const { mode, auth_user_id, profile_id } = req.body;
 
@@ -108,14 +110,18 @@ router.post('/reconcile-auth/fix', async (req, res) => {
     }
 
     console.log(`Admin reconcile fix: Starting ${mode} operation...`);
+    const audit = (targetType, targetId, values = {}) =>
+      recordAdminAction(auditActorOf(req), { action: `auth.reconcile.${mode}`, targetType, targetId, ...values });
 
     switch (mode) {
       case 'delete_orphan_profile':
         if (!profile_id) {
           return res.status(400).json({ error: 'profile_id required for delete_orphan_profile' });
         }
+        const orphanProfile = await pool.query('SELECT * FROM profiles WHERE id = $1', [profile_id]);
         await pool.query('DELETE FROM profiles WHERE id = $1', [profile_id]);
         console.log(`Admin reconcile fix: Deleted orphan profile ${profile_id}`);
+        await audit('user', profile_id, { before: orphanProfile.rows[0] ?? null });
         res.json({ success: true, message: `Deleted orphan profile ${profile_id}` });
         break;
 
@@ -128,6 +134,7 @@ router.post('/reconcile-auth/fix', async (req, res) => {
           throw new Error(`Failed to delete auth user: ${deleteError.message}`);
         }
         console.log(`Admin reconcile fix: Deleted orphan auth user ${auth_user_id}`);
+        await audit('auth_user', auth_user_id);
         res.json({ success: true, message: `Deleted orphan auth user ${auth_user_id}` });
         break;
 
@@ -135,8 +142,10 @@ router.post('/reconcile-auth/fix', async (req, res) => {
         if (!profile_id || !auth_user_id) {
           return res.status(400).json({ error: 'Both profile_id and auth_user_id required for link_profile_auth' });
         }
+        const unlinkedProfile = await pool.query('SELECT auth_user_id FROM profiles WHERE id = $1', [profile_id]);
         await pool.query('UPDATE profiles SET auth_user_id = $1 WHERE id = $2', [auth_user_id, profile_id]);
         console.log(`Admin reconcile fix: Linked profile ${profile_id} to auth user ${auth_user_id}`);
+        await audit('user', profile_id, { before: unlinkedProfile.rows[0] ?? null, after: { auth_user_id } });
         res.json({ success: true, message: `Linked profile ${profile_id} to auth user ${auth_user_id}` });
         break;
 
@@ -163,6 +172,7 @@ router.post('/reconcile-auth/fix', async (req, res) => {
         }
         
         console.log(`Admin reconcile fix: Synced email for profile ${profile_id} and auth user ${auth_user_id} to ${profileEmail}`);
+        await audit('auth_user', auth_user_id, { after: { email: profileEmail } });
         res.json({ success: true, message: `Synced email to ${profileEmail}` });
         break;
 
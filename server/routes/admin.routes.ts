@@ -1,16 +1,26 @@
 import type { Express, Request, Response } from "express";
 import { storage } from "../storage";
-import { authenticate, authorize, verifyCsrf } from "../middleware";
+import { sendDealReviewEmail, sendPasswordResetEmail, sendTwoFactorResetEmail } from "../services/Mailer";
+import { authenticate, authorize, requirePermission, staffAccountOf, verifyCsrf } from "../middleware";
 import { validate } from "../middleware/validationMiddleware";
-import { adminSchemas } from "../schemas";
+import { adminSchemas, dealSchemas } from "../schemas";
+import { auditActorOf, recordAdminAction } from "../services/AdminAudit";
+import { toSessionSummary } from "../services/Sessions";
+import { getTwoFactorStatus, resetTwoFactor } from "../services/TwoFactor";
+import { listLockedAccounts, unlockAccount } from "../services/LoginThrottle";
+import { setPaginationHeaders, InvalidCursorError } from "../utils/pagination";
+import { paginateDeals } from "../utils/dealPagination";
 import { 
   createVersionedRoutes,
   versionHeadersMiddleware,
   deprecationMiddleware
 } from "../../src/utils/routeVersioning";
 import { type Deal, type Business, type User } from "@shared/schema";
+import type { PreModerationResult } from "@shared/preModeration";
+import { canSetDealStatus, hasPermission, staffRoleOf, ROLE_PERMISSIONS } from "@shared/permissions";
+import { isTwoFactorRequired } from "@shared/twoFactor";
 import { supabaseAdmin } from '../supabaseAdmin';
-import { getAllUsersWithBusinesses, getPendingBusinesses, updateBusiness } from '../supabaseQueries';
+import { getAllUsersWithBusinesses, getPendingBusinesses, getUserById, updateBusiness } from '../supabaseQueries';
 
 /**
  * Sanitize deals for frontend consumption by removing sensitive data
@@ -40,6 +50,14 @@ function sanitizeDeals(deals: (Deal & { business?: Business })[]): any[] {
   });
 }
 
+/**
+ * Attach what the pre-moderation rules decided on each deal's latest submission
+ */
+async function withPreModeration<T extends { id: number }>(deals: T[]): Promise<(T & { preModeration: PreModerationResult | null })[]> {
+  const results = await storage.getLatestPreModerationResults(deals.map(deal => deal.id));
+  return deals.map(deal => ({ ...deal, preModeration: results.get(deal.id) ?? null }));
+}
+
 /**
  * Sanitize businesses for frontend consumption by removing sensitive data
  * and ensuring consistent object structure
@@ -62,6 +80,165 @@ function sanitizeBusinesses(businesses: (Business & { user: User })[]): any[] {
   });
 }
 
+/**
+ * The signed-in admin's staff role and what it allows, for the admin navigation
+ */
+async function getOwnPermissions(req: Request, res: Response) {
+  const user = await staffAccountOf(req.user!);
+  const role = user ? staffRoleOf(user) : null;
+  
+  return res.status(200).json({ role, permissions: role ? ROLE_PERMISSIONS[role] : [] });
+}
+
+/**
+ * Give an admin account a staff role
+ * Admins can't change their own role, so a super admin can't lock everyone out of role management
+ */
+async function assignStaffRole(req: Request, res: Response) {
+  const userId = parseInt(req.params.id);
+  const { role } = req.body;
+  
+  const user = await storage.getUser(userId);
+  if (!user) {
+    return res.status(404).json({ message: "User not found" });
+  }
+  if (user.userType !== "admin") {
+    return res.status(400).json({ message: "Only admin accounts have staff roles" });
+  }
+  if (user.id === req.staffUserId) {
+    return res.status(400).json({ message: "You can't change your own role" });
+  }
+  
+  const updatedUser = await storage.adminUpdateUser(userId, { staffRole: role });
+  await recordAdminAction(auditActorOf(req), {
+    action: "user.assign_role",
+    targetType: "user",
+    targetId: userId,
+    before: { staffRole: staffRoleOf(user) },
+    after: { staffRole: role }
+  });
+  
+  const { password, ...sanitizedUser } = updatedUser;
+  return res.status(200).json(sanitizedUser);
+}
+
+/**
+ * Email the user a password reset link, the same one they'd get from "Forgot password"
+ * Staff never see or set the new password
+ */
+async function sendUserPasswordReset(req: Request, res: Response) {
+  const userId = parseInt(req.params.id);
+  
+  const user = await storage.getUser(userId);
+  if (!user) {
+    return res.status(404).json({ message: "User not found" });
+  }
+  
+  const reset = await storage.createPasswordResetToken(user.email, {
+    ipAddress: req.ip,
+    userAgent: req.get('user-agent')
+  });
+  if (!reset) {
+    return res.status(500).json({ message: "Failed to create a password reset link" });
+  }
+  
+  await sendPasswordResetEmail(reset.user, reset.token);
+  await recordAdminAction(auditActorOf(req), { action: "user.reset_password", targetType: "user", targetId: userId });
+  
+  return res.status(200).json({ message: `Password reset email sent to ${user.email}` });
+}
+
+async function listUserSessions(req: Request, res: Response) {
+  // Sessions are kept per profile
+  const profile = await getUserById(req.params.id);
+  if (!profile) {
+    return res.status(404).json({ message: "User not found" });
+  }
+  
+  const sessions = await storage.getActiveSessions(profile.id);
+  return res.status(200).json({ sessions: sessions.map(session => toSessionSummary(session)) });
+}
+
+/**
+ * Sign a user out on every device
+ */
+async function forceLogoutUser(req: Request, res: Response) {
+  const profile = await getUserById(req.params.id);
+  if (!profile) {
+    return res.status(404).json({ message: "User not found" });
+  }
+  
+  const revoked = await storage.revokeAllUserRefreshTokens(profile.id);
+  await recordAdminAction(auditActorOf(req), {
+    action: "user.force_logout",
+    targetType: "user",
+    targetId: profile.id,
+    details: { sessionsRevoked: revoked }
+  });
+  
+  return res.status(200).json({ revoked, message: `${profile.email} was signed out of ${revoked} session${revoked === 1 ? '' : 's'}` });
+}
+
+async function getUserTwoFactor(req: Request, res: Response) {
+  // Two-factor is kept per profile
+  const profile = await getUserById(req.params.id);
+  if (!profile) {
+    return res.status(404).json({ message: "User not found" });
+  }
+  
+  return res.status(200).json(await getTwoFactorStatus({ id: profile.id, email: profile.email, userType: profile.user_type }));
+}
+
+/**
+ * Clear a user's two-factor when they've lost their authenticator and recovery codes
+ * The user is told by email; admins set it up again at their next sign-in
+ */
+async function resetUserTwoFactor(req: Request, res: Response) {
+  const profile = await getUserById(req.params.id);
+  if (!profile) {
+    return res.status(404).json({ message: "User not found" });
+  }
+  if (profile.id === String(req.user!.userId)) {
+    return res.status(400).json({ message: "You can't reset your own two-factor authentication" });
+  }
+  
+  const reset = await resetTwoFactor(profile.id);
+  if (!reset) {
+    return res.status(404).json({ message: `${profile.email} doesn't have two-factor authentication set up` });
+  }
+  
+  const mustReenrol = isTwoFactorRequired(profile.user_type);
+  await sendTwoFactorResetEmail({ email: profile.email, firstName: profile.first_name || '', id: profile.id }, mustReenrol);
+  await recordAdminAction(auditActorOf(req), {
+    action: "user.two_factor_reset",
+    targetType: "user",
+    targetId: profile.id,
+    details: { mustReenrol }
+  });
+  
+  return res.status(200).json({ message: `Two-factor authentication was reset for ${profile.email}` });
+}
+
+/**
+ * Clear an address's failed sign-ins and lockout, for users who didn't get the unlock email
+ */
+async function unlockLockedAccount(req: Request, res: Response) {
+  const { email } = req.body;
+  
+  const unlocked = await unlockAccount(email);
+  if (!unlocked) {
+    return res.status(404).json({ message: `${email} isn't locked and has no failed sign-ins` });
+  }
+  
+  await recordAdminAction(auditActorOf(req), {
+    action: "user.unlock",
+    targetType: "user",
+    targetId: email
+  });
+  
+  return res.status(200).json({ message: `${email} was unlocked` });
+}
+
 /**
  * Admin routes for user and business management
  */
@@ -73,7 +250,7 @@ export function adminRoutes(app: Express): void {
   app.get(vDebugDealsPath,
     versionHeadersMiddleware(),
     authenticate,
-    authorize(['admin']),
+    requirePermission('deals.read'),
     async (_req: Request, res: Response) => {
     try {
       console.log("DEBUG ENDPOINT: Accessing /admin/debug/deals");
@@ -119,7 +296,7 @@ export function adminRoutes(app: Express): void {
   // Legacy debug deals endpoint
   app.get(lDebugDealsPath,
     authenticate,
-    authorize(['admin']),
+    requirePermission('deals.read'),
     async (_req: Request, res: Response) => {
     try {
       // Same implementation as versioned endpoint
@@ -164,7 +341,7 @@ export function adminRoutes(app: Express): void {
   app.get(vDashboardPath, 
     versionHeadersMiddleware(),
     authenticate, 
-    authorize(['admin']), 
+    requirePermission('dashboard.view'), 
     async (_req: Request, res: Response) => {
     try {
       // Get counts for different entities
@@ -247,7 +424,7 @@ export function adminRoutes(app: Express): void {
   // Legacy dashboard route
   app.get(lDashboardPath, 
     authenticate, 
-    authorize(['admin']), 
+    requirePermission('dashboard.view'), 
     async (_req: Request, res: Response) => {
     try {
       // Get counts for different entities
@@ -325,7 +502,7 @@ export function adminRoutes(app: Express): void {
   app.get(vUsersPath, 
     versionHeadersMiddleware(),
     authenticate, 
-    authorize(['admin']), 
+    requirePermission('users.read'), 
     async (_req: Request, res: Response) => {
       try {
         console.log("Admin users endpoint: Using unified Supabase system");
@@ -366,7 +543,7 @@ export function adminRoutes(app: Express): void {
   app.get(lUsersPath, 
     [versionHeadersMiddleware(), deprecationMiddleware],
     authenticate, 
-    authorize(['admin']), 
+    requirePermission('users.read'), 
     async (_req: Request, res: Response) => {
       try {
         console.log("Admin users endpoint (legacy): Using unified Supabase system");
@@ -409,16 +586,21 @@ export function adminRoutes(app: Express): void {
   app.post(vCreateUserPath, 
     versionHeadersMiddleware(),
     authenticate, 
-    authorize(['admin']),
+    requirePermission('users.manage'),
     validate(adminSchemas.createUser),
     async (req: Request, res: Response) => {
       try {
         const { password, ...userData } = req.body;
+        if (userData.userType === "admin" && !hasPermission(req.staffRole, "roles.assign")) {
+          return res.status(403).json({ message: "Only super admins can create admin accounts" });
+        }
         
-        const user = await storage.adminCreateUser(userData, password);
+        // New admins start as full admins; a super admin can change the role afterwards
+        const user = await storage.adminCreateUser({ ...userData, staffRole: userData.userType === "admin" ? "admin" : null }, password);
         
         // Filter out sensitive data
         const { password: _, ...sanitizedUser } = user;
+        await recordAdminAction(auditActorOf(req), { action: "user.create", targetType: "user", targetId: user.id, after: sanitizedUser });
         
         return res.status(201).json(sanitizedUser);
       } catch (error) {
@@ -431,16 +613,21 @@ export function adminRoutes(app: Express): void {
   app.post(lCreateUserPath, 
     [versionHeadersMiddleware(), deprecationMiddleware],
     authenticate, 
-    authorize(['admin']),
+    requirePermission('users.manage'),
     validate(adminSchemas.createUser),
     async (req: Request, res: Response) => {
       try {
         const { password, ...userData } = req.body;
+        if (userData.userType === "admin" && !hasPermission(req.staffRole, "roles.assign")) {
+          return res.status(403).json({ message: "Only super admins can create admin accounts" });
+        }
         
-        const user = await storage.adminCreateUser(userData, password);
+        // New admins start as full admins; a super admin can change the role afterwards
+        const user = await storage.adminCreateUser({ ...userData, staffRole: userData.userType === "admin" ? "admin" : null }, password);
         
         // Filter out sensitive data
         const { password: _, ...sanitizedUser } = user;
+        await recordAdminAction(auditActorOf(req), { action: "user.create", targetType: "user", targetId: user.id, after: sanitizedUser });
         
         return res.status(201).json(sanitizedUser);
       } catch (error) {
@@ -456,7 +643,7 @@ export function adminRoutes(app: Express): void {
   app.get(vGetUserPath, 
     versionHeadersMiddleware(),
     authenticate, 
-    authorize(['admin']), 
+    requirePermission('users.read'), 
     async (req: Request, res: Response) => {
       try {
         const userId = parseInt(req.params.id);
@@ -483,7 +670,7 @@ export function adminRoutes(app: Express): void {
   app.get(lGetUserPath, 
     [versionHeadersMiddleware(), deprecationMiddleware],
     authenticate, 
-    authorize(['admin']), 
+    requirePermission('users.read'), 
     async (req: Request, res: Response) => {
       try {
         const userId = parseInt(req.params.id);
@@ -513,17 +700,23 @@ export function adminRoutes(app: Express): void {
   app.put(vUpdateUserPath, 
     versionHeadersMiddleware(),
     authenticate, 
-    authorize(['admin']),
+    requirePermission('users.manage'),
     validate(adminSchemas.updateUser),
     async (req: Request, res: Response) => {
       try {
         const userId = parseInt(req.params.id);
         const userData = req.body;
         
+        const previous = await storage.getUser(userId);
+        if (previous?.userType === "admin" && !hasPermission(req.staffRole, "roles.assign")) {
+          return res.status(403).json({ message: "Only super admins can change admin accounts" });
+        }
+        
         const user = await storage.adminUpdateUser(userId, userData);
         
         // Filter out sensitive data
         const { password, ...sanitizedUser } = user;
+        await recordAdminAction(auditActorOf(req), { action: "user.update", targetType: "user", targetId: userId, before: previous, after: user });
         
         return res.status(200).json(sanitizedUser);
       } catch (error) {
@@ -536,17 +729,23 @@ export function adminRoutes(app: Express): void {
   app.put(lUpdateUserPath, 
     [versionHeadersMiddleware(), deprecationMiddleware],
     authenticate, 
-    authorize(['admin']),
+    requirePermission('users.manage'),
     validate(adminSchemas.updateUser),
     async (req: Request, res: Response) => {
       try {
         const userId = parseInt(req.params.id);
         const userData = req.body;
         
+        const previous = await storage.getUser(userId);
+        if (previous?.userType === "admin" && !hasPermission(req.staffRole, "roles.assign")) {
+          return res.status(403).json({ message: "Only super admins can change admin accounts" });
+        }
+        
         const user = await storage.adminUpdateUser(userId, userData);
         
         // Filter out sensitive data
         const { password, ...sanitizedUser } = user;
+        await recordAdminAction(auditActorOf(req), { action: "user.update", targetType: "user", targetId: userId, before: previous, after: user });
         
         return res.status(200).json(sanitizedUser);
       } catch (error) {
@@ -562,12 +761,18 @@ export function adminRoutes(app: Express): void {
   app.delete(vDeleteUserPath, 
     versionHeadersMiddleware(),
     authenticate, 
-    authorize(['admin']), 
+    requirePermission('users.manage'), 
     async (req: Request, res: Response) => {
       try {
         const userId = parseInt(req.params.id);
         
+        const previous = await storage.getUser(userId);
+        if (previous?.userType === "admin" && !hasPermission(req.staffRole, "roles.assign")) {
+          return res.status(403).json({ message: "Only super admins can delete admin accounts" });
+        }
+        
         await storage.adminDeleteUser(userId);
+        await recordAdminAction(auditActorOf(req), { action: "user.delete", targetType: "user", targetId: userId, before: previous });
         
         return res.status(200).json({ message: "User deleted successfully" });
       } catch (error) {
@@ -580,12 +785,18 @@ export function adminRoutes(app: Express): void {
   app.delete(lDeleteUserPath, 
     [versionHeadersMiddleware(), deprecationMiddleware],
     authenticate, 
-    authorize(['admin']), 
+    requirePermission('users.manage'), 
     async (req: Request, res: Response) => {
       try {
         const userId = parseInt(req.params.id);
         
+        const previous = await storage.getUser(userId);
+        if (previous?.userType === "admin" && !hasPermission(req.staffRole, "roles.assign")) {
+          return res.status(403).json({ message: "Only super admins can delete admin accounts" });
+        }
+        
         await storage.adminDeleteUser(userId);
+        await recordAdminAction(auditActorOf(req), { action: "user.delete", targetType: "user", targetId: userId, before: previous });
         
         return res.status(200).json({ message: "User deleted successfully" });
       } catch (error) {
@@ -595,13 +806,298 @@ export function adminRoutes(app: Express): void {
     }
   );
 
+  // Own staff role and permissions (versioned and legacy routes); open to every admin
+  const [vOwnPermissionsPath, lOwnPermissionsPath] = createVersionedRoutes('/admin/me/permissions');
+  
+  app.get(vOwnPermissionsPath, 
+    versionHeadersMiddleware(),
+    authenticate, 
+    authorize(['admin']), 
+    async (req: Request, res: Response) => {
+      try {
+        return await getOwnPermissions(req, res);
+      } catch (error) {
+        console.error("Get own permissions error:", error);
+        return res.status(500).json({ message: "Internal server error" });
+      }
+    }
+  );
+
+  app.get(lOwnPermissionsPath, 
+    [versionHeadersMiddleware(), deprecationMiddleware],
+    authenticate, 
+    authorize(['admin']), 
+    async (req: Request, res: Response) => {
+      try {
+        return await getOwnPermissions(req, res);
+      } catch (error) {
+        console.error("Get own permissions error (legacy):", error);
+        return res.status(500).json({ message: "Internal server error" });
+      }
+    }
+  );
+
+  // Assign a staff role (versioned and legacy routes)
+  const [vAssignRolePath, lAssignRolePath] = createVersionedRoutes('/admin/users/:id/role');
+  
+  app.put(vAssignRolePath, 
+    versionHeadersMiddleware(),
+    authenticate, 
+    requirePermission('roles.assign'),
+    validate(adminSchemas.assignStaffRole),
+    async (req: Request, res: Response) => {
+      try {
+        return await assignStaffRole(req, res);
+      } catch (error) {
+        console.error("Assign staff role error:", error);
+        return res.status(500).json({ message: "Internal server error" });
+      }
+    }
+  );
+
+  app.put(lAssignRolePath, 
+    [versionHeadersMiddleware(), deprecationMiddleware],
+    authenticate, 
+    requirePermission('roles.assign'),
+    validate(adminSchemas.assignStaffRole),
+    async (req: Request, res: Response) => {
+      try {
+        return await assignStaffRole(req, res);
+      } catch (error) {
+        console.error("Assign staff role error (legacy):", error);
+        return res.status(500).json({ message: "Internal server error" });
+      }
+    }
+  );
+
+  // Send a password reset email (versioned and legacy routes)
+  const [vResetPasswordPath, lResetPasswordPath] = createVersionedRoutes('/admin/users/:id/reset-password');
+  
+  app.post(vResetPasswordPath, 
+    versionHeadersMiddleware(),
+    authenticate, 
+    requirePermission('users.reset_password'),
+    validate(adminSchemas.resetUserPassword),
+    async (req: Request, res: Response) => {
+      try {
+        return await sendUserPasswordReset(req, res);
+      } catch (error) {
+        console.error("Admin password reset error:", error);
+        return res.status(500).json({ message: "Internal server error" });
+      }
+    }
+  );
+
+  app.post(lResetPasswordPath, 
+    [versionHeadersMiddleware(), deprecationMiddleware],
+    authenticate, 
+    requirePermission('users.reset_password'),
+    validate(adminSchemas.resetUserPassword),
+    async (req: Request, res: Response) => {
+      try {
+        return await sendUserPasswordReset(req, res);
+      } catch (error) {
+        console.error("Admin password reset error (legacy):", error);
+        return res.status(500).json({ message: "Internal server error" });
+      }
+    }
+  );
+
+  // A user's signed-in devices; deleting them forces a logout everywhere (versioned and legacy routes)
+  const [vUserSessionsPath, lUserSessionsPath] = createVersionedRoutes('/admin/users/:id/sessions');
+  
+  app.get(vUserSessionsPath, 
+    versionHeadersMiddleware(),
+    authenticate, 
+    requirePermission('users.read'),
+    validate(adminSchemas.userSessions),
+    async (req: Request, res: Response) => {
+      try {
+        return await listUserSessions(req, res);
+      } catch (error) {
+        console.error("List user sessions error:", error);
+        return res.status(500).json({ message: "Internal server error" });
+      }
+    }
+  );
+
+  app.get(lUserSessionsPath, 
+    [versionHeadersMiddleware(), deprecationMiddleware],
+    authenticate, 
+    requirePermission('users.read'),
+    validate(adminSchemas.userSessions),
+    async (req: Request, res: Response) => {
+      try {
+        return await listUserSessions(req, res);
+      } catch (error) {
+        console.error("List user sessions error (legacy):", error);
+        return res.status(500).json({ message: "Internal server error" });
+      }
+    }
+  );
+
+  app.delete(vUserSessionsPath, 
+    versionHeadersMiddleware(),
+    authenticate, 
+    requirePermission('users.manage'),
+    validate(adminSchemas.userSessions),
+    async (req: Request, res: Response) => {
+      try {
+        return await forceLogoutUser(req, res);
+      } catch (error) {
+        console.error("Force logout error:", error);
+        return res.status(500).json({ message: "Internal server error" });
+      }
+    }
+  );
+
+  app.delete(lUserSessionsPath, 
+    [versionHeadersMiddleware(), deprecationMiddleware],
+    authenticate, 
+    requirePermission('users.manage'),
+    validate(adminSchemas.userSessions),
+    async (req: Request, res: Response) => {
+      try {
+        return await forceLogoutUser(req, res);
+      } catch (error) {
+        console.error("Force logout error (legacy):", error);
+        return res.status(500).json({ message: "Internal server error" });
+      }
+    }
+  );
+
+  // A user's two-factor status; deleting it is the admin-assisted reset (versioned and legacy routes)
+  const [vUserTwoFactorPath, lUserTwoFactorPath] = createVersionedRoutes('/admin/users/:id/two-factor');
+  
+  app.get(vUserTwoFactorPath, 
+    versionHeadersMiddleware(),
+    authenticate, 
+    requirePermission('users.read'),
+    validate(adminSchemas.userTwoFactor),
+    async (req: Request, res: Response) => {
+      try {
+        return await getUserTwoFactor(req, res);
+      } catch (error) {
+        console.error("Get user two-factor error:", error);
+        return res.status(500).json({ message: "Internal server error" });
+      }
+    }
+  );
+
+  app.get(lUserTwoFactorPath, 
+    [versionHeadersMiddleware(), deprecationMiddleware],
+    authenticate, 
+    requirePermission('users.read'),
+    validate(adminSchemas.userTwoFactor),
+    async (req: Request, res: Response) => {
+      try {
+        return await getUserTwoFactor(req, res);
+      } catch (error) {
+        console.error("Get user two-factor error (legacy):", error);
+        return res.status(500).json({ message: "Internal server error" });
+      }
+    }
+  );
+
+  app.delete(vUserTwoFactorPath, 
+    versionHeadersMiddleware(),
+    authenticate, 
+    requirePermission('users.manage'),
+    validate(adminSchemas.userTwoFactor),
+    async (req: Request, res: Response) => {
+      try {
+        return await resetUserTwoFactor(req, res);
+      } catch (error) {
+        console.error("Reset user two-factor error:", error);
+        return res.status(500).json({ message: "Internal server error" });
+      }
+    }
+  );
+
+  app.delete(lUserTwoFactorPath, 
+    [versionHeadersMiddleware(), deprecationMiddleware],
+    authenticate, 
+    requirePermission('users.manage'),
+    validate(adminSchemas.userTwoFactor),
+    async (req: Request, res: Response) => {
+      try {
+        return await resetUserTwoFactor(req, res);
+      } catch (error) {
+        console.error("Reset user two-factor error (legacy):", error);
+        return res.status(500).json({ message: "Internal server error" });
+      }
+    }
+  );
+
+  // Accounts locked after too many failed sign-ins, and unlocking them (versioned and legacy routes)
+  const [vLockedAccountsPath, lLockedAccountsPath] = createVersionedRoutes('/admin/locked-accounts');
+  const [vUnlockAccountPath, lUnlockAccountPath] = createVersionedRoutes('/admin/locked-accounts/unlock');
+  
+  app.get(vLockedAccountsPath, 
+    versionHeadersMiddleware(),
+    authenticate, 
+    requirePermission('users.read'),
+    async (req: Request, res: Response) => {
+      try {
+        return res.status(200).json(await listLockedAccounts());
+      } catch (error) {
+        console.error("Get locked accounts error:", error);
+        return res.status(500).json({ message: "Internal server error" });
+      }
+    }
+  );
+
+  app.get(lLockedAccountsPath, 
+    [versionHeadersMiddleware(), deprecationMiddleware],
+    authenticate, 
+    requirePermission('users.read'),
+    async (req: Request, res: Response) => {
+      try {
+        return res.status(200).json(await listLockedAccounts());
+      } catch (error) {
+        console.error("Get locked accounts error (legacy):", error);
+        return res.status(500).json({ message: "Internal server error" });
+      }
+    }
+  );
+
+  app.post(vUnlockAccountPath, 
+    versionHeadersMiddleware(),
+    authenticate, 
+    requirePermission('users.manage'),
+    validate(adminSchemas.unlockAccount),
+    async (req: Request, res: Response) => {
+      try {
+        return await unlockLockedAccount(req, res);
+      } catch (error) {
+        console.error("Unlock account error:", error);
+        return res.status(500).json({ message: "Internal server error" });
+      }
+    }
+  );
+
+  app.post(lUnlockAccountPath, 
+    [versionHeadersMiddleware(), deprecationMiddleware],
+    authenticate, 
+    requirePermission('users.manage'),
+    validate(adminSchemas.unlockAccount),
+    async (req: Request, res: Response) => {
+      try {
+        return await unlockLockedAccount(req, res);
+      } catch (error) {
+        console.error("Unlock account error (legacy):", error);
+        return res.status(500).json({ message: "Internal server error" });
+      }
+    }
+  );
+
   // Create business user (versioned and legacy routes)
   const [vCreateBusinessPath, lCreateBusinessPath] = createVersionedRoutes('/admin/business-users');
   
   app.post(vCreateBusinessPath, 
     versionHeadersMiddleware(),
     authenticate, 
-    authorize(['admin']),
+    requirePermission('users.manage'),
     validate(adminSchemas.createBusinessUser),
     async (req: Request, res: Response) => {
       try {
@@ -611,6 +1107,7 @@ export function adminRoutes(app: Express): void {
         
         // Filter out sensitive data
         const { password, ...sanitizedUser } = user;
+        await recordAdminAction(auditActorOf(req), { action: "user.create_business", targetType: "user", targetId: user.id, after: sanitizedUser });
         
         return res.status(201).json(sanitizedUser);
       } catch (error) {
@@ -623,7 +1120,7 @@ export function adminRoutes(app: Express): void {
   app.post(lCreateBusinessPath, 
     [versionHeadersMiddleware(), deprecationMiddleware],
     authenticate, 
-    authorize(['admin']),
+    requirePermission('users.manage'),
     validate(adminSchemas.createBusinessUser),
     async (req: Request, res: Response) => {
       try {
@@ -633,6 +1130,7 @@ export function adminRoutes(app: Express): void {
         
         // Filter out sensitive data
         const { password, ...sanitizedUser } = user;
+        await recordAdminAction(auditActorOf(req), { action: "user.create_business", targetType: "user", targetId: user.id, after: sanitizedUser });
         
         return res.status(201).json(sanitizedUser);
       } catch (error) {
@@ -648,7 +1146,7 @@ export function adminRoutes(app: Express): void {
   app.get(vBusinessesPath, 
     versionHeadersMiddleware(),
     authenticate, 
-    authorize(['admin']), 
+    requirePermission('vendors.read'), 
     async (_req: Request, res: Response) => {
       try {
         const businesses = await storage.getAllBusinesses();
@@ -679,7 +1177,7 @@ export function adminRoutes(app: Express): void {
   app.get(vPendingBusinessesPath,
     versionHeadersMiddleware(),
     authenticate,
-    authorize(['admin']),
+    requirePermission('vendors.read'),
     async (_req: Request, res: Response) => {
       try {
         console.log("Admin: Fetching pending businesses");
@@ -708,7 +1206,7 @@ export function adminRoutes(app: Express): void {
   // Legacy pending businesses endpoint
   app.get(lPendingBusinessesPath,
     authenticate,
-    authorize(['admin']),
+    requirePermission('vendors.read'),
     async (_req: Request, res: Response) => {
       try {
         console.log("Admin (legacy): Fetching pending businesses");
@@ -737,7 +1235,7 @@ export function adminRoutes(app: Express): void {
   app.get(lBusinessesPath, 
     [versionHeadersMiddleware(), deprecationMiddleware],
     authenticate, 
-    authorize(['admin']), 
+    requirePermission('vendors.read'), 
     async (_req: Request, res: Response) => {
       try {
         const businesses = await storage.getAllBusinesses();
@@ -767,7 +1265,7 @@ export function adminRoutes(app: Express): void {
   app.get(vGetBusinessPath,
     versionHeadersMiddleware(),
     authenticate,
-    authorize(['admin']),
+    requirePermission('vendors.read'),
     async (req: Request, res: Response) => {
       try {
         const businessId = parseInt(req.params.id);
@@ -803,7 +1301,7 @@ export function adminRoutes(app: Express): void {
   app.get(lGetBusinessPath,
     [versionHeadersMiddleware(), deprecationMiddleware],
     authenticate,
-    authorize(['admin']),
+    requirePermission('vendors.read'),
     async (req: Request, res: Response) => {
       try {
         const businessId = parseInt(req.params.id);
@@ -842,7 +1340,7 @@ export function adminRoutes(app: Express): void {
   app.put(vUpdateBusinessPath,
     versionHeadersMiddleware(),
     authenticate,
-    authorize(['admin']),
+    requirePermission('vendors.manage'),
     async (req: Request, res: Response) => {
       try {
         const businessId = parseInt(req.params.id);
@@ -857,10 +1355,12 @@ export function adminRoutes(app: Express): void {
           return res.status(400).json({ error: "Business name and category are required" });
         }
 
+        const previous = await storage.getBusiness(businessId);
         const updatedBusiness = await storage.updateBusiness(businessId, updateData);
         if (!updatedBusiness) {
           return res.status(404).json({ error: "Business not found" });
         }
+        await recordAdminAction(auditActorOf(req), { action: "business.update", targetType: "business", targetId: businessId, before: previous, after: updatedBusiness });
 
         // Get user data for the business
         const user = await storage.getUser(updatedBusiness.userId);
@@ -885,7 +1385,7 @@ export function adminRoutes(app: Express): void {
   app.put(lUpdateBusinessPath,
     [versionHeadersMiddleware(), deprecationMiddleware],
     authenticate,
-    authorize(['admin']),
+    requirePermission('vendors.manage'),
     async (req: Request, res: Response) => {
       try {
         const businessId = parseInt(req.params.id);
@@ -900,10 +1400,12 @@ export function adminRoutes(app: Express): void {
           return res.status(400).json({ error: "Business name and category are required" });
         }
 
+        const previous = await storage.getBusiness(businessId);
         const updatedBusiness = await storage.updateBusiness(businessId, updateData);
         if (!updatedBusiness) {
           return res.status(404).json({ error: "Business not found" });
         }
+        await recordAdminAction(auditActorOf(req), { action: "business.update", targetType: "business", targetId: businessId, before: previous, after: updatedBusiness });
 
         // Get user data for the business
         const user = await storage.getUser(updatedBusiness.userId);
@@ -931,7 +1433,7 @@ export function adminRoutes(app: Express): void {
   app.put(vUpdateDealApprovalPath, 
     versionHeadersMiddleware(),
     authenticate, 
-    authorize(['admin']),
+    requirePermission('deals.moderate'),
     validate(adminSchemas.updateDealApproval),
     async (req: Request, res: Response) => {
       try {
@@ -940,6 +1442,8 @@ export function adminRoutes(app: Express): void {
         const reviewerId = req.user!.userId;
         
         const approval = await storage.updateDealApproval(approvalId, status);
+        await recordAdminAction(auditActorOf(req), { action: `deal_approval.${status}`, targetType: "deal_approval", targetId: approvalId, after: approval, details: { dealId: approval.dealId } });
+        await sendDealReviewEmail(approval);
         
         return res.status(200).json(approval);
       } catch (error) {
@@ -952,7 +1456,7 @@ export function adminRoutes(app: Express): void {
   app.put(lUpdateDealApprovalPath, 
     [versionHeadersMiddleware(), deprecationMiddleware],
     authenticate, 
-    authorize(['admin']),
+    requirePermission('deals.moderate'),
     validate(adminSchemas.updateDealApproval),
     async (req: Request, res: Response) => {
       try {
@@ -961,6 +1465,8 @@ export function adminRoutes(app: Express): void {
         const reviewerId = req.user!.userId;
         
         const approval = await storage.updateDealApproval(approvalId, status);
+        await recordAdminAction(auditActorOf(req), { action: `deal_approval.${status}`, targetType: "deal_approval", targetId: approvalId, after: approval, details: { dealId: approval.dealId } });
+        await sendDealReviewEmail(approval);
         
         return res.status(200).json(approval);
       } catch (error) {
@@ -974,7 +1480,7 @@ export function adminRoutes(app: Express): void {
   app.get('/api/v1/admin/test-deals',
     versionHeadersMiddleware(),
     authenticate,
-    authorize(['admin']),
+    requirePermission('deals.read'),
     async (_req: Request, res: Response) => {
       console.log("TEST DEALS ENDPOINT: Successfully reached");
       return res.status(200).json({ message: "Test endpoint working", deals: [] });
@@ -987,8 +1493,9 @@ export function adminRoutes(app: Express): void {
   app.get(vDealsPath,
     versionHeadersMiddleware(),
     authenticate,
-    authorize(['admin']),
-    async (_req: Request, res: Response) => {
+    requirePermission('deals.read'),
+    validate(adminSchemas.getAllDeals),
+    async (req: Request, res: Response) => {
       try {
         console.log("ADMIN DEALS ENDPOINT: Processing GET /api/v1/admin/deals");
         const deals = await storage.getDeals();
@@ -1009,9 +1516,15 @@ export function adminRoutes(app: Express): void {
           })
         );
         
+        const page = paginateDeals(dealsWithBusiness, req.query);
+        setPaginationHeaders(res, page);
+        
         console.log("ADMIN DEALS ENDPOINT: Returning JSON response");
-        return res.status(200).json(dealsWithBusiness);
+        return res.status(200).json(await withPreModeration(page.items));
       } catch (error) {
+        if (error instanceof InvalidCursorError) {
+          return res.status(400).json({ message: error.message });
+        }
         console.error("Get admin deals error:", error);
         return res.status(500).json({ message: "Internal server error" });
       }
@@ -1021,8 +1534,9 @@ export function adminRoutes(app: Express): void {
   app.get(lDealsPath,
     [versionHeadersMiddleware(), deprecationMiddleware],
     authenticate,
-    authorize(['admin']),
-    async (_req: Request, res: Response) => {
+    requirePermission('deals.read'),
+    validate(adminSchemas.getAllDeals),
+    async (req: Request, res: Response) => {
       try {
         const deals = await storage.getDeals();
         
@@ -1041,8 +1555,14 @@ export function adminRoutes(app: Express): void {
           })
         );
         
-        return res.status(200).json(dealsWithBusiness);
+        const page = paginateDeals(dealsWithBusiness, req.query);
+        setPaginationHeaders(res, page);
+        
+        return res.status(200).json(await withPreModeration(page.items));
       } catch (error) {
+        if (error instanceof InvalidCursorError) {
+          return res.status(400).json({ message: error.message });
+        }
         console.error("Get admin deals error (legacy):", error);
         return res.status(500).json({ message: "Internal server error" });
       }
@@ -1055,7 +1575,7 @@ export function adminRoutes(app: Express): void {
   app.get(vTransactionsPath,
     versionHeadersMiddleware(),
     authenticate,
-    authorize(['admin']),
+    requirePermission('reports.view'),
     async (_req: Request, res: Response) => {
       try {
         const redemptions = await storage.getAllRedemptions();
@@ -1081,7 +1601,7 @@ export function adminRoutes(app: Express): void {
   app.get(lTransactionsPath,
     [versionHeadersMiddleware(), deprecationMiddleware],
     authenticate,
-    authorize(['admin']),
+    requirePermission('reports.view'),
     async (_req: Request, res: Response) => {
       try {
         const redemptions = await storage.getAllRedemptions();
@@ -1110,7 +1630,7 @@ export function adminRoutes(app: Express): void {
   // Add debug route to see all deals in the database with their statuses
   app.get('/api/v1/admin/debug/deals', 
     authenticate, 
-    authorize(['admin']),
+    requirePermission('deals.read'),
     async (_req: Request, res: Response) => {
       try {
         const allDeals = await storage.getDeals();
@@ -1159,6 +1679,7 @@ export function adminRoutes(app: Express): void {
     versionHeadersMiddleware(),
     authenticate, 
     authorize(['admin', 'business']),
+    validate(dealSchemas.listDealsByStatus),
     async (req: Request, res: Response) => {
       try {
         const status = req.params.status;
@@ -1181,12 +1702,21 @@ export function adminRoutes(app: Express): void {
           
           if (matchingDeals.length > 0) {
             console.log(`DEBUG: Status values in database: ${matchingDeals.map(d => `"${d.status}"`).join(', ')}`);
-            return res.status(200).json(matchingDeals);
+            const matchingPage = paginateDeals(matchingDeals, req.query);
+            setPaginationHeaders(res, matchingPage);
+            return res.status(200).json(req.user!.userType === 'admin' ? await withPreModeration(matchingPage.items) : matchingPage.items);
           }
         }
         
-        return res.status(200).json(deals);
+        const page = paginateDeals(deals, req.query);
+        setPaginationHeaders(res, page);
+        
+        // Reviewers see what the pre-moderation rules made of each deal
+        return res.status(200).json(req.user!.userType === 'admin' ? await withPreModeration(page.items) : page.items);
       } catch (error) {
+        if (error instanceof InvalidCursorError) {
+          return res.status(400).json({ message: error.message });
+        }
         console.error("Get deals by status error:", error);
         return res.status(500).json({ message: "Internal server error" });
       }
@@ -1197,6 +1727,7 @@ export function adminRoutes(app: Express): void {
     [versionHeadersMiddleware(), deprecationMiddleware],
     authenticate, 
     authorize(['admin', 'business']),
+    validate(dealSchemas.listDealsByStatus),
     async (req: Request, res: Response) => {
       try {
         const status = req.params.status;
@@ -1211,8 +1742,15 @@ export function adminRoutes(app: Express): void {
         const deals = await storage.getDealsByStatus(status);
         console.log(`DEBUG: Returned deals with status "${status}": ${deals.length}`);
         
-        return res.status(200).json(deals);
+        const page = paginateDeals(deals, req.query);
+        setPaginationHeaders(res, page);
+        
+        // Reviewers see what the pre-moderation rules made of each deal
+        return res.status(200).json(req.user!.userType === 'admin' ? await withPreModeration(page.items) : page.items);
       } catch (error) {
+        if (error instanceof InvalidCursorError) {
+          return res.status(400).json({ message: error.message });
+        }
         console.error("Get deals by status error (legacy):", error);
         return res.status(500).json({ message: "Internal server error" });
       }
@@ -1225,14 +1763,25 @@ export function adminRoutes(app: Express): void {
   app.put(vUpdateDealStatusPath, 
     versionHeadersMiddleware(),
     authenticate, 
-    authorize(['admin']),
+    requirePermission('deals.moderate'),
     validate(adminSchemas.updateDealStatus),
     async (req: Request, res: Response) => {
       try {
         const dealId = parseInt(req.params.id);
         const { status } = req.body;
+        if (!canSetDealStatus(req.staffRole, status)) {
+          return res.status(403).json({ message: "Your role can only approve, reject or request revisions" });
+        }
         
-        const deal = await storage.updateDealStatus(dealId, status);
+        const previous = await storage.getDeal(dealId);
+        const deal = await storage.updateDealStatus(dealId, status, { changedBy: req.staffUserId ?? null });
+        await recordAdminAction(auditActorOf(req), {
+          action: "deal.update_status",
+          targetType: "deal",
+          targetId: dealId,
+          before: previous && { status: previous.status },
+          after: { status: deal.status }
+        });
         
         return res.status(200).json(deal);
       } catch (error) {
@@ -1245,14 +1794,25 @@ export function adminRoutes(app: Express): void {
   app.put(lUpdateDealStatusPath, 
     [versionHeadersMiddleware(), deprecationMiddleware],
     authenticate, 
-    authorize(['admin']),
+    requirePermission('deals.moderate'),
     validate(adminSchemas.updateDealStatus),
     async (req: Request, res: Response) => {
       try {
         const dealId = parseInt(req.params.id);
         const { status } = req.body;
+        if (!canSetDealStatus(req.staffRole, status)) {
+          return res.status(403).json({ message: "Your role can only approve, reject or request revisions" });
+        }
         
-        const deal = await storage.updateDealStatus(dealId, status);
+        const previous = await storage.getDeal(dealId);
+        const deal = await storage.updateDealStatus(dealId, status, { changedBy: req.staffUserId ?? null });
+        await recordAdminAction(auditActorOf(req), {
+          action: "deal.update_status",
+          targetType: "deal",
+          targetId: dealId,
+          before: previous && { status: previous.status },
+          after: { status: deal.status }
+        });
         
         return res.status(200).json(deal);
       } catch (error) {
@@ -1262,13 +1822,64 @@ export function adminRoutes(app: Express): void {
     }
   );
 
+  // Deal status history (versioned and legacy routes)
+  const [vDealStatusHistoryPath, lDealStatusHistoryPath] = createVersionedRoutes('/admin/deals/:id/status-history');
+  
+  app.get(vDealStatusHistoryPath, 
+    versionHeadersMiddleware(),
+    authenticate, 
+    requirePermission('deals.read'),
+    validate(adminSchemas.getDealStatusHistory),
+    async (req: Request, res: Response) => {
+      try {
+        const dealId = parseInt(req.params.id);
+        const deal = await storage.getDeal(dealId);
+        
+        if (!deal) {
+          return res.status(404).json({ message: "Deal not found" });
+        }
+        
+        const history = await storage.getDealStatusHistory(dealId);
+        
+        return res.status(200).json(history);
+      } catch (error) {
+        console.error("Get deal status history error:", error);
+        return res.status(500).json({ message: "Internal server error" });
+      }
+    }
+  );
+
+  app.get(lDealStatusHistoryPath, 
+    [versionHeadersMiddleware(), deprecationMiddleware],
+    authenticate, 
+    requirePermission('deals.read'),
+    validate(adminSchemas.getDealStatusHistory),
+    async (req: Request, res: Response) => {
+      try {
+        const dealId = parseInt(req.params.id);
+        const deal = await storage.getDeal(dealId);
+        
+        if (!deal) {
+          return res.status(404).json({ message: "Deal not found" });
+        }
+        
+        const history = await storage.getDealStatusHistory(dealId);
+        
+        return res.status(200).json(history);
+      } catch (error) {
+        console.error("Get deal status history error (legacy):", error);
+        return res.status(500).json({ message: "Internal server error" });
+      }
+    }
+  );
+
   // Delete business (versioned and legacy routes)
   const [vDeleteBusinessPath, lDeleteBusinessPath] = createVersionedRoutes('/admin/businesses/:id');
   
   app.delete(vDeleteBusinessPath,
     versionHeadersMiddleware(),
     authenticate,
-    authorize(['admin']),
+    requirePermission('vendors.manage'),
     verifyCsrf,
     async (req: Request, res: Response) => {
       try {
@@ -1288,6 +1899,7 @@ export function adminRoutes(app: Express): void {
         if (!success) {
           return res.status(500).json({ error: "Failed to delete business" });
         }
+        await recordAdminAction(auditActorOf(req), { action: "business.delete", targetType: "business", targetId: businessId, before: business });
 
         return res.status(200).json({ 
           ok: true,
@@ -1305,7 +1917,7 @@ export function adminRoutes(app: Express): void {
   app.delete(lDeleteBusinessPath,
     [versionHeadersMiddleware(), deprecationMiddleware],
     authenticate,
-    authorize(['admin']),
+    requirePermission('vendors.manage'),
     verifyCsrf,
     async (req: Request, res: Response) => {
       try {
@@ -1325,6 +1937,7 @@ export function adminRoutes(app: Express): void {
         if (!success) {
           return res.status(500).json({ error: "Failed to delete business" });
         }
+        await recordAdminAction(auditActorOf(req), { action: "business.delete", targetType: "business", targetId: businessId, before: business });
 
         return res.status(200).json({ 
           ok: true,
@@ -1462,6 +2075,13 @@ export async function updateBusinessStatus(req: Request, res: Response) {
     });
     
     console.log(`Business ${businessId} status updated successfully`);
+    await recordAdminAction(auditActorOf(req), {
+      action: status === 'verified' ? 'business.approve' : 'business.reject',
+      targetType: 'business',
+      targetId: businessId,
+      after: { verification_status: status },
+      details: feedback ? { feedback } : {}
+    });
     
     return res.status(200).json({
       message: `Business ${status} successfully`,
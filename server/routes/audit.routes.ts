@@ -0,0 +1,118 @@
+import type { Express, Request, Response } from "express";
+import { storage, type AdminAuditQuery } from "../storage";
+import { authenticate, requirePermission } from "../middleware";
+import { validate } from "../middleware/validationMiddleware";
+import { auditSchemas } from "../schemas";
+import { exportAdminAuditCsv, verifyAdminAuditChain } from "../services/AdminAudit";
+import { ADMIN_AUDIT_PAGE_SIZE } from "@shared/adminAudit";
+import {
+  createVersionedRoutes,
+  versionHeadersMiddleware,
+  deprecationMiddleware
+} from "../../src/utils/routeVersioning";
+
+function getAuditFilters(query: Request["query"]): AdminAuditQuery {
+  return {
+    actorId: query.actorId ? parseInt(query.actorId as string, 10) : undefined,
+    action: (query.action as string) || undefined,
+    targetType: (query.targetType as string) || undefined,
+    targetId: (query.targetId as string) || undefined,
+    batchId: (query.batchId as string) || undefined,
+    from: query.from ? new Date(query.from as string) : undefined,
+    to: query.to ? new Date(query.to as string) : undefined,
+  };
+}
+
+async function listAuditEntries(req: Request, res: Response) {
+  const page = req.query.page ? parseInt(req.query.page as string, 10) : 1;
+
+  // One extra entry tells us whether there is another page
+  const entries = await storage.getAdminAuditEntries({
+    ...getAuditFilters(req.query),
+    limit: ADMIN_AUDIT_PAGE_SIZE + 1,
+    offset: (page - 1) * ADMIN_AUDIT_PAGE_SIZE,
+  });
+
+  return res.status(200).json({
+    entries: entries.slice(0, ADMIN_AUDIT_PAGE_SIZE),
+    page,
+    pageSize: ADMIN_AUDIT_PAGE_SIZE,
+    hasMore: entries.length > ADMIN_AUDIT_PAGE_SIZE,
+  });
+}
+
+async function exportAuditEntries(req: Request, res: Response) {
+  const csv = await exportAdminAuditCsv(getAuditFilters(req.query));
+  const date = new Date().toISOString().slice(0, 10);
+
+  res.setHeader("Content-Type", "text/csv; charset=utf-8");
+  res.setHeader("Content-Disposition", `attachment; filename="admin-audit-log-${date}.csv"`);
+  return res.status(200).send(csv);
+}
+
+/**
+ * Admin audit log viewer, CSV export and hash chain verification
+ * The log is append-only: there are no routes to change or remove entries
+ */
+export function auditRoutes(app: Express): void {
+  const [vAuditLogPath, lAuditLogPath] = createVersionedRoutes('/admin/audit-log');
+
+  app.get(vAuditLogPath, versionHeadersMiddleware(), authenticate, requirePermission('audit.view'), validate(auditSchemas.list), async (req: Request, res: Response) => {
+    try {
+      return await listAuditEntries(req, res);
+    } catch (error) {
+      console.error("List audit log error:", error);
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.get(lAuditLogPath, [versionHeadersMiddleware(), deprecationMiddleware], authenticate, requirePermission('audit.view'), validate(auditSchemas.list), async (req: Request, res: Response) => {
+    try {
+      return await listAuditEntries(req, res);
+    } catch (error) {
+      console.error("List audit log error (legacy):", error);
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  const [vAuditExportPath, lAuditExportPath] = createVersionedRoutes('/admin/audit-log/export');
+
+  app.get(vAuditExportPath, versionHeadersMiddleware(), authenticate, requirePermission('audit.view'), validate(auditSchemas.export), async (req: Request, res: Response) => {
+    try {
+      return await exportAuditEntries(req, res);
+    } catch (error) {
+      console.error("Export audit log error:", error);
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.get(lAuditExportPath, [versionHeadersMiddleware(), deprecationMiddleware], authenticate, requirePermission('audit.view'), validate(auditSchemas.export), async (req: Request, res: Response) => {
+    try {
+      return await exportAuditEntries(req, res);
+    } catch (error) {
+      console.error("Export audit log error (legacy):", error);
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Recomputes every hash; reports the first entry that was changed or removed
+  const [vAuditVerifyPath, lAuditVerifyPath] = createVersionedRoutes('/admin/audit-log/verify');
+
+  app.get(vAuditVerifyPath, versionHeadersMiddleware(), authenticate, requirePermission('audit.view'), async (req: Request, res: Response) => {
+    try {
+      return res.status(200).json(await verifyAdminAuditChain());
+    } catch (error) {
+      console.error("Verify audit log error:", error);
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.get(lAuditVerifyPath, [versionHeadersMiddleware(), deprecationMiddleware], authenticate, requirePermission('audit.view'), async (req: Request, res: Response) => {
+    try {
+      return res.status(200).json(await verifyAdminAuditChain());
+    } catch (error) {
+      console.error("Verify audit log error (legacy):", error);
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+}
@@ -6,13 +6,48 @@ import { Request, Response } from 'express';
 import { z } from 'zod';
 import bcrypt from 'bcryptjs';
 import { supabaseAdmin } from '../supabaseAdmin';
-import { createProfile, getUserByEmail, createBusiness } from '../supabaseQueries';
-import { generateToken } from '../auth';
-import { setAuthCookie } from '../utils/cookieUtils';
-import { authCookieConfig, withCustomAge } from '../utils/cookieConfig';
+import { createProfile, getUserByEmail, getUserById, createBusiness } from '../supabaseQueries';
+import {
+  clearSessionCookies,
+  clientInfoOf,
+  refreshSession,
+  RefreshTokenReuseError,
+  refreshTokenFromCookies,
+  setSessionCookies,
+  startSession,
+  REMEMBERED_SESSION_LIFETIME_MS,
+  SESSION_LIFETIME_MS
+} from '../services/Sessions';
+import {
+  beginChallengeEnrolment,
+  completeTwoFactorChallenge,
+  readTwoFactorChallenge,
+  twoFactorChallengeFor,
+  TwoFactorError
+} from '../services/TwoFactor';
+import {
+  authenticateWithPasskey,
+  passkeyAuthenticationOptions,
+  PasskeyError
+} from '../services/Passkeys';
+import {
+  assertLoginAllowed,
+  handleFailedLogin,
+  LoginThrottleError,
+  recordLoginSuccess,
+  sendLoginThrottleError,
+  unlockWithToken
+} from '../services/LoginThrottle';
+import { securityRateLimiter } from '../middleware/rateLimit';
 import { moveFilesToUserFolder } from '../fileManager';
 import { pool } from '../db';
 import { provisionSupabaseUser } from '../services/AuthProvisioner';
+import { sendPasswordResetEmail } from '../services/Mailer';
+import { storage } from '../storage';
+import { passwordResetRequestSchema, passwordResetVerifySchema } from '@shared/schema';
+import { passkeyAuthenticationResponseSchema } from '../schemas';
+import { ACCOUNT_LOCKED } from '@shared/loginThrottle';
+import type { SessionAccount } from '@shared/sessions';
 
 // Validation schemas
 const individualRegistrationSchema = z.object({
@@ -46,6 +81,24 @@ const loginSchema = z.object({
   rememberMe: z.boolean().optional().default(false)
 });
 
+const twoFactorSetupSchema = z.object({
+  challengeToken: z.string().min(1, "Sign-in challenge is required")
+});
+
+const twoFactorLoginSchema = twoFactorSetupSchema.extend({
+  // A six-digit code from the authenticator app, or a recovery code
+  code: z.string().trim().min(6, "Enter the code from your authenticator app").max(20)
+});
+
+const unlockAccountSchema = z.object({
+  token: z.string().min(1, "Unlock token is required")
+});
+
+const passkeyLoginSchema = z.object({
+  credential: passkeyAuthenticationResponseSchema,
+  rememberMe: z.boolean().optional().default(false)
+});
+
 /**
  * Individual user registration
  */
@@ -98,16 +151,13 @@ export async function registerIndividual(req: Request, res: Response) {
 
     console.log("Profile created:", profile.id);
 
-    // Generate JWT token for our app
-    const token = generateToken({
+    // Sign the new account in on this device
+    const session = await startSession({
       id: profile.id,
       email: profile.email,
       userType: profile.user_type
-    });
-
-    // Set secure cookie
-    const cookieOptions = withCustomAge(authCookieConfig, 24 * 60 * 60 * 1000);
-    setAuthCookie(res, 'auth_token', token, cookieOptions);
+    }, clientInfoOf(req));
+    setSessionCookies(res, session);
 
     return res.status(201).json({
       message: "Individual registration successful",
@@ -262,16 +312,13 @@ export async function registerBusiness(req: Request, res: Response) {
       client.release();
     }
 
-    // Generate JWT token for our app
-    const token = generateToken({
+    // Sign the new account in on this device
+    const session = await startSession({
       id: profileId,
       email: email,
       userType: 'business'
-    });
-
-    // Set secure cookie
-    const cookieOptions = withCustomAge(authCookieConfig, 24 * 60 * 60 * 1000);
-    setAuthCookie(res, 'auth_token', token, cookieOptions);
+    }, clientInfoOf(req));
+    setSessionCookies(res, session);
 
     return res.status(201).json({
       message: "Business registration successful",
@@ -294,14 +341,18 @@ export async function login(req: Request, res: Response) {
     const email = String(req.body.email || "").trim().toLowerCase();
     const password = String(req.body.password || "");
     
-    const validatedData = loginSchema.parse({ email, password });
+    const validatedData = loginSchema.parse({ email, password, rememberMe: req.body.rememberMe });
+    
+    // Locked accounts, and ones still waiting out a delay after failed attempts, aren't checked at all
+    await assertLoginAllowed(email);
     
     // Find user in our profiles table
     const user = await getUserByEmail(email);
     
     if (!user) {
-      return res.status(401).json({ message: "Invalid credentials" });
+      return await rejectLogin(req, res, email, null, "Invalid credentials");
     }
+    const recipient = { email: user.email, firstName: user.first_name || '', id: user.id };
 
     // Check if this is a legacy user (no Supabase ID) or a Supabase user
     if (user.supabase_user_id) {
@@ -319,7 +370,7 @@ export async function login(req: Request, res: Response) {
 
       if (signInError) {
         console.error("Supabase password verification failed:", signInError);
-        return res.status(401).json({ message: "Invalid credentials" });
+        return await rejectLogin(req, res, email, recipient, "Invalid credentials");
       }
       
       console.log("Supabase login successful for:", email);
@@ -356,32 +407,29 @@ export async function login(req: Request, res: Response) {
       
       if (!isValidPassword) {
         console.error("Password verification failed for user:", email);
-        return res.status(401).json({ message: "Invalid email or password" });
+        return await rejectLogin(req, res, email, recipient, "Invalid email or password");
       }
     }
 
     console.log("Login successful for:", email);
     console.info("[LOGIN] success", email);
 
-    // Generate JWT token for our app
-    const token = generateToken({
-      id: user.id,
-      email: user.email,
-      userType: user.user_type
-    });
-
-    // Set secure cookie
-    const maxAge = validatedData.rememberMe ? 30 * 24 * 60 * 60 * 1000 : 24 * 60 * 60 * 1000;
-    const cookieOptions = withCustomAge(authCookieConfig, maxAge);
-    setAuthCookie(res, 'auth_token', token, cookieOptions);
+    const account = { id: user.id, email: user.email, userType: user.user_type };
+    
+    // Accounts with two-factor (and admins who still have to set it up) need a code as well;
+    // failed logins are only forgotten once that code is right
+    const challenge = await twoFactorChallengeFor(account, !!validatedData.rememberMe);
+    if (challenge) {
+      return res.status(200).json({ message: "Two-factor authentication required", ...challenge });
+    }
 
-    return res.status(200).json({
-      message: "Login successful",
-      userId: user.id,
-      userType: user.user_type
-    });
+    await recordLoginSuccess(email);
+    return await finishLogin(req, res, account, !!validatedData.rememberMe);
 
   } catch (error) {
+    if (error instanceof LoginThrottleError) {
+      return sendLoginThrottleError(res, error);
+    }
     console.error("Login error:", error);
     if (error instanceof z.ZodError) {
       return res.status(400).json({ 
@@ -393,6 +441,183 @@ export async function login(req: Request, res: Response) {
   }
 }
 
+/**
+ * Answer a wrong email or password, counting it against the address
+ * The failure that locks the account gets the lockout answer instead
+ */
+async function rejectLogin(
+  req: Request,
+  res: Response,
+  email: string,
+  recipient: { email: string; firstName: string; id: number | string } | null,
+  message: string
+) {
+  const lockout = await handleFailedLogin(email, recipient, clientInfoOf(req));
+  if (lockout) {
+    return sendLoginThrottleError(res, new LoginThrottleError(ACCOUNT_LOCKED, lockout.lockedUntil));
+  }
+  return res.status(401).json({ message });
+}
+
+/**
+ * Start a session for this device (it shows up in the user's device list) and answer the login
+ */
+async function finishLogin(
+  req: Request,
+  res: Response,
+  account: SessionAccount,
+  rememberMe: boolean,
+  extra: Record<string, unknown> = {}
+) {
+  const session = await startSession(account, clientInfoOf(req), rememberMe ? REMEMBERED_SESSION_LIFETIME_MS : SESSION_LIFETIME_MS);
+  setSessionCookies(res, session);
+
+  return res.status(200).json({
+    message: "Login successful",
+    userId: account.id,
+    userType: account.userType,
+    ...extra
+  });
+}
+
+function twoFactorErrorResponse(res: Response, error: unknown) {
+  if (error instanceof TwoFactorError) {
+    return res.status(error.status).json({ message: error.message, code: error.code });
+  }
+  return null;
+}
+
+/**
+ * The code step of signing in, after the password was accepted
+ * Admins signing in for the first time confirm their new authenticator here and get their recovery codes
+ */
+export async function loginTwoFactor(req: Request, res: Response) {
+  try {
+    const { challengeToken, code } = twoFactorLoginSchema.parse(req.body);
+    const challenge = readTwoFactorChallenge(challengeToken);
+    // A wrong code counts against the account like a wrong password
+    await assertLoginAllowed(challenge.email);
+    
+    let result;
+    try {
+      result = await completeTwoFactorChallenge(challengeToken, code);
+    } catch (error) {
+      if (error instanceof TwoFactorError && error.code === 'invalid_code') {
+        const profile = await getUserById(String(challenge.userId));
+        const recipient = { email: challenge.email, firstName: profile?.first_name || '', id: challenge.userId };
+        const lockout = await handleFailedLogin(challenge.email, recipient, clientInfoOf(req));
+        if (lockout) {
+          return sendLoginThrottleError(res, new LoginThrottleError(ACCOUNT_LOCKED, lockout.lockedUntil));
+        }
+      }
+      throw error;
+    }
+    
+    const { claims, recoveryCodes } = result;
+    console.info("[LOGIN] two-factor success", claims.email);
+    await recordLoginSuccess(claims.email);
+    
+    return await finishLogin(req, res, { id: claims.userId, email: claims.email, userType: claims.userType }, claims.rememberMe,
+      recoveryCodes ? { recoveryCodes } : {});
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: "Validation error", errors: error.errors });
+    }
+    if (error instanceof LoginThrottleError) {
+      return sendLoginThrottleError(res, error);
+    }
+    const handled = twoFactorErrorResponse(res, error);
+    if (handled) return handled;
+    
+    console.error("Two-factor login error:", error);
+    return res.status(500).json({ message: "Internal server error" });
+  }
+}
+
+/**
+ * The QR code for an account that has to set up two-factor before it can finish signing in
+ */
+export async function loginTwoFactorSetup(req: Request, res: Response) {
+  try {
+    const { challengeToken } = twoFactorSetupSchema.parse(req.body);
+    
+    const setup = await beginChallengeEnrolment(challengeToken);
+    return res.status(200).json(setup);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: "Validation error", errors: error.errors });
+    }
+    const handled = twoFactorErrorResponse(res, error);
+    if (handled) return handled;
+    
+    console.error("Two-factor login setup error:", error);
+    return res.status(500).json({ message: "Internal server error" });
+  }
+}
+
+/**
+ * A challenge for "Sign in with passkey"; the browser then lets the user pick one of their passkeys
+ */
+export async function passkeyLoginOptions(req: Request, res: Response) {
+  try {
+    return res.status(200).json(await passkeyAuthenticationOptions());
+  } catch (error) {
+    console.error("Passkey login options error:", error);
+    return res.status(500).json({ message: "Internal server error" });
+  }
+}
+
+/**
+ * Sign in with the passkey the browser returned
+ * The device verified the user itself, so there's no two-factor step
+ */
+export async function loginWithPasskey(req: Request, res: Response) {
+  try {
+    const { credential, rememberMe } = passkeyLoginSchema.parse(req.body);
+    
+    const passkey = await authenticateWithPasskey(credential);
+    const user = await getUserById(passkey.profileId);
+    if (!user) {
+      return res.status(401).json({ message: "This account no longer exists" });
+    }
+    console.info("[LOGIN] passkey success", user.email);
+    
+    return await finishLogin(req, res, { id: user.id, email: user.email, userType: user.user_type }, rememberMe,
+      { email: user.email });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: "Validation error", errors: error.errors });
+    }
+    if (error instanceof PasskeyError) {
+      return res.status(error.status).json({ message: error.message, code: error.code });
+    }
+    
+    console.error("Passkey login error:", error);
+    return res.status(500).json({ message: "Internal server error" });
+  }
+}
+
+/**
+ * Unlock an account with the link from the lockout email
+ */
+export async function unlockAccount(req: Request, res: Response) {
+  try {
+    const { token } = unlockAccountSchema.parse(req.body);
+    
+    if (!(await unlockWithToken(token))) {
+      return res.status(400).json({ message: "This unlock link is invalid or has expired" });
+    }
+    
+    return res.status(200).json({ message: "Your account is unlocked. You can sign in again." });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: "Validation error", errors: error.errors });
+    }
+    console.error("Unlock account error:", error);
+    return res.status(500).json({ message: "Internal server error" });
+  }
+}
+
 /**
  * Change user password (admin or regular user)
  */
@@ -458,6 +683,115 @@ export async function changePassword(req: Request, res: Response) {
   }
 }
 
+/**
+ * Request a password reset email
+ * Always answers the same way, so the response doesn't reveal which emails have accounts
+ */
+export async function requestPasswordReset(req: Request, res: Response) {
+  try {
+    const { email } = passwordResetRequestSchema.parse({
+      email: String(req.body.email || "").trim().toLowerCase()
+    });
+    
+    const reset = await storage.createPasswordResetToken(email, {
+      ipAddress: req.ip,
+      userAgent: req.get('user-agent')
+    });
+    
+    if (reset) {
+      await sendPasswordResetEmail(reset.user, reset.token);
+    }
+    
+    return res.status(200).json({
+      message: "If an account exists with that email, you will receive password reset instructions.",
+      // Lets the development reset helper skip the email
+      ...(process.env.NODE_ENV === 'development' && reset ? { resetToken: reset.token } : {})
+    });
+  } catch (error) {
+    console.error("Password reset request error:", error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ 
+        message: "Validation error",
+        errors: error.errors
+      });
+    }
+    return res.status(500).json({ message: "Internal server error" });
+  }
+}
+
+/**
+ * Set a new password with a reset token from the email
+ */
+export async function verifyPasswordReset(req: Request, res: Response) {
+  try {
+    const { token, password } = passwordResetVerifySchema.parse(req.body);
+    
+    const reset = await storage.resetPasswordWithToken(token, password);
+    if (!reset) {
+      return res.status(400).json({ message: "This reset link is invalid or has expired" });
+    }
+    
+    return res.status(200).json({ message: "Password updated successfully" });
+  } catch (error) {
+    console.error("Password reset error:", error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ 
+        message: "Validation error",
+        errors: error.errors
+      });
+    }
+    return res.status(500).json({ message: "Internal server error" });
+  }
+}
+
+/**
+ * Swap the refresh token cookie for a new token pair
+ */
+export async function refresh(req: Request, res: Response) {
+  try {
+    const refreshToken = refreshTokenFromCookies(req);
+    const session = refreshToken ? await refreshSession(refreshToken, clientInfoOf(req)) : null;
+    if (!session) {
+      clearSessionCookies(res);
+      return res.status(401).json({ message: "Your session has ended. Please sign in again." });
+    }
+    
+    setSessionCookies(res, session);
+    
+    return res.status(200).json({
+      success: true,
+      message: "Token refreshed",
+      userId: session.account.id,
+      userType: session.account.userType
+    });
+  } catch (error) {
+    if (error instanceof RefreshTokenReuseError) {
+      clearSessionCookies(res);
+      return res.status(error.status).json({ message: error.message, code: error.code });
+    }
+    console.error("Token refresh error:", error);
+    return res.status(500).json({ message: "Internal server error" });
+  }
+}
+
+/**
+ * Sign this device out: end its session and clear the cookies
+ */
+export async function logout(req: Request, res: Response) {
+  try {
+    const refreshToken = refreshTokenFromCookies(req);
+    if (refreshToken) {
+      await storage.revokeRefreshToken(refreshToken);
+    }
+    
+    clearSessionCookies(res);
+    return res.status(200).json({ message: "Logged out successfully" });
+  } catch (error) {
+    console.error("Logout error:", error);
+    return res.status(500).json({ message: "Internal server error" });
+  }
+}
+
 // Import upload middleware for business registration
 import { getUploadMiddleware } from '../uploadMiddleware.supabase';
 
@@ -481,6 +815,25 @@ export function authRoutes(app: any) {
   // Login endpoint
   app.post('/api/v1/auth/login', login);
   
+  // Second login step for accounts with two-factor authentication
+  app.post('/api/v1/auth/login/two-factor', securityRateLimiter, loginTwoFactor);
+  app.post('/api/v1/auth/login/two-factor/setup', loginTwoFactorSetup);
+  
+  // Passkey sign-in
+  app.post('/api/v1/auth/login/passkey/options', passkeyLoginOptions);
+  app.post('/api/v1/auth/login/passkey', securityRateLimiter, loginWithPasskey);
+  
+  // Session endpoints
+  app.post('/api/v1/auth/refresh', refresh);
+  app.post('/api/v1/auth/logout', logout);
+  
   // Change password endpoint (requires authentication)
   app.post('/api/v1/auth/change-password', changePassword);
+  
+  // Password reset by email
+  app.post('/api/v1/auth/password-reset/request', securityRateLimiter, requestPasswordReset);
+  app.post('/api/v1/auth/password-reset/verify', securityRateLimiter, verifyPasswordReset);
+  
+  // Unlock link from the email sent when failed sign-ins lock an account
+  app.post('/api/v1/auth/unlock', securityRateLimiter, unlockAccount);
 }
\ No newline at end of file
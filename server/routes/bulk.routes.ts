@@ -0,0 +1,152 @@
+import type { Express, Request, Response } from "express";
+import { storage } from "../storage";
+import { authenticate, requirePermission } from "../middleware";
+import { validate } from "../middleware/validationMiddleware";
+import { bulkSchemas } from "../schemas";
+import { hasPermission } from "@shared/permissions";
+import { RejectionReasonError } from "../services/Moderation";
+import { sendBusinessVerificationEmail, sendDealReviewEmail } from "../services/Mailer";
+import {
+  runBulkBusinessAction,
+  runBulkDealAction,
+  runBulkUserAction,
+  type BulkActor
+} from "../services/BulkActions";
+import {
+  createVersionedRoutes,
+  versionHeadersMiddleware,
+  deprecationMiddleware
+} from "../../src/utils/routeVersioning";
+
+function getActor(req: Request): BulkActor {
+  return {
+    userId: req.staffUserId!,
+    ipAddress: req.ip ?? null,
+    userAgent: req.get('user-agent') ?? null,
+  };
+}
+
+/**
+ * Apply the action to the selected deals
+ * Owners of deals that were approved or rejected are emailed once the batch has committed
+ */
+async function bulkUpdateDeals(req: Request, res: Response) {
+  const { action, ids, reasonCodes, note } = req.body;
+  // Moderators may approve and reject; featuring, expiring and deleting need deals.manage
+  if (action !== "approve" && action !== "reject" && !hasPermission(req.staffRole, "deals.manage")) {
+    return res.status(403).json({ message: "Your role can only approve or reject deals" });
+  }
+  
+  const summary = await runBulkDealAction(action, ids, { reasonCodes, note }, getActor(req));
+  
+  if (action === "approve" || action === "reject") {
+    for (const result of summary.results.filter(result => result.success)) {
+      const [approval] = await storage.getDealApprovalsByDealId(result.id);
+      if (approval) {
+        await sendDealReviewEmail(approval);
+      }
+    }
+  }
+  
+  return res.status(200).json(summary);
+}
+
+async function bulkUpdateBusinesses(req: Request, res: Response) {
+  const { action, ids, reasonCodes, note } = req.body;
+  const summary = await runBulkBusinessAction(action, ids, { reasonCodes, note }, getActor(req));
+  
+  if (action !== "delete") {
+    for (const result of summary.results.filter(result => result.success)) {
+      const business = await storage.getBusiness(result.id);
+      if (business) {
+        await sendBusinessVerificationEmail(business);
+      }
+    }
+  }
+  
+  return res.status(200).json(summary);
+}
+
+async function bulkUpdateUsers(req: Request, res: Response) {
+  const summary = await runBulkUserAction(req.body.action, req.body.ids, getActor(req));
+  return res.status(200).json(summary);
+}
+
+/**
+ * Admin routes that apply one action to many deals, businesses or users
+ * Each request runs in one transaction and reports the result of every item
+ */
+export function bulkRoutes(app: Express): void {
+  const [vBulkDealsPath, lBulkDealsPath] = createVersionedRoutes('/admin/bulk/deals');
+
+  app.post(vBulkDealsPath, versionHeadersMiddleware(), authenticate, requirePermission('deals.moderate'), validate(bulkSchemas.deals), async (req: Request, res: Response) => {
+    try {
+      return await bulkUpdateDeals(req, res);
+    } catch (error) {
+      if (error instanceof RejectionReasonError) {
+        return res.status(400).json({ message: error.message, codes: error.codes });
+      }
+      console.error("Bulk deal action error:", error);
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.post(lBulkDealsPath, [versionHeadersMiddleware(), deprecationMiddleware], authenticate, requirePermission('deals.moderate'), validate(bulkSchemas.deals), async (req: Request, res: Response) => {
+    try {
+      return await bulkUpdateDeals(req, res);
+    } catch (error) {
+      if (error instanceof RejectionReasonError) {
+        return res.status(400).json({ message: error.message, codes: error.codes });
+      }
+      console.error("Bulk deal action error (legacy):", error);
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  const [vBulkBusinessesPath, lBulkBusinessesPath] = createVersionedRoutes('/admin/bulk/businesses');
+
+  app.post(vBulkBusinessesPath, versionHeadersMiddleware(), authenticate, requirePermission('vendors.manage'), validate(bulkSchemas.businesses), async (req: Request, res: Response) => {
+    try {
+      return await bulkUpdateBusinesses(req, res);
+    } catch (error) {
+      if (error instanceof RejectionReasonError) {
+        return res.status(400).json({ message: error.message, codes: error.codes });
+      }
+      console.error("Bulk business action error:", error);
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.post(lBulkBusinessesPath, [versionHeadersMiddleware(), deprecationMiddleware], authenticate, requirePermission('vendors.manage'), validate(bulkSchemas.businesses), async (req: Request, res: Response) => {
+    try {
+      return await bulkUpdateBusinesses(req, res);
+    } catch (error) {
+      if (error instanceof RejectionReasonError) {
+        return res.status(400).json({ message: error.message, codes: error.codes });
+      }
+      console.error("Bulk business action error (legacy):", error);
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Activating and deactivating switches profiles.is_live for individual users
+  const [vBulkUsersPath, lBulkUsersPath] = createVersionedRoutes('/admin/bulk/users');
+
+  app.post(vBulkUsersPath, versionHeadersMiddleware(), authenticate, requirePermission('users.manage'), validate(bulkSchemas.users), async (req: Request, res: Response) => {
+    try {
+      return await bulkUpdateUsers(req, res);
+    } catch (error) {
+      console.error("Bulk user action error:", error);
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.post(lBulkUsersPath, [versionHeadersMiddleware(), deprecationMiddleware], authenticate, requirePermission('users.manage'), validate(bulkSchemas.users), async (req: Request, res: Response) => {
+    try {
+      return await bulkUpdateUsers(req, res);
+    } catch (error) {
+      console.error("Bulk user action error (legacy):", error);
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+}
@@ -1,6 +1,7 @@
 import type { Express, Request, Response } from "express";
 import { storage } from "../storage";
-import { authenticate, checkOwnership } from "../middleware";
+import { sendBusinessVerificationEmail } from "../services/Mailer";
+import { authenticate, checkOwnership, requireBusinessPermission } from "../middleware";
 import { validate } from "../middleware/validationMiddleware";
 import { businessSchemas } from "../schemas";
 import { apiRateLimiter, adminRateLimiter } from "../middleware/rateLimit";
@@ -61,13 +62,14 @@ export function businessRoutes(app: Express): void {
       try {
         const userId = parseInt(req.params.userId);
         
-        const business = await storage.getBusinessByUserId(userId);
+        // Owners, managers and staff all get the business they work for
+        const membership = await storage.getBusinessMembership(userId);
         
-        if (!business) {
+        if (!membership) {
           return res.status(404).json({ message: "Business not found for this user" });
         }
         
-        return res.status(200).json(business);
+        return res.status(200).json({ ...membership.business, memberRole: membership.role });
       } catch (error) {
         console.error("Get business for user error:", error);
         return res.status(500).json({ message: "Internal server error" });
@@ -83,13 +85,14 @@ export function businessRoutes(app: Express): void {
       try {
         const userId = parseInt(req.params.userId);
         
-        const business = await storage.getBusinessByUserId(userId);
+        // Owners, managers and staff all get the business they work for
+        const membership = await storage.getBusinessMembership(userId);
         
-        if (!business) {
+        if (!membership) {
           return res.status(404).json({ message: "Business not found for this user" });
         }
         
-        return res.status(200).json(business);
+        return res.status(200).json({ ...membership.business, memberRole: membership.role });
       } catch (error) {
         console.error("Get business for user error (legacy):", error);
         return res.status(500).json({ message: "Internal server error" });
@@ -144,6 +147,7 @@ export function businessRoutes(app: Express): void {
   app.put(vBusinessPath, 
     versionHeadersMiddleware(),
     authenticate, 
+    requireBusinessPermission('business.manage', 'id'),
     apiRateLimiter, 
     validateBusinessProfile, 
     async (req: Request, res: Response) => {
@@ -157,12 +161,6 @@ export function businessRoutes(app: Express): void {
           return res.status(404).json({ message: "Business not found" });
         }
         
-        // Verify ownership by checking if the authenticated user is the owner
-        const userBusiness = await storage.getBusinessByUserId(req.user!.userId);
-        if (!userBusiness || userBusiness.id !== businessId) {
-          return res.status(403).json({ message: "You can only update your own business" });
-        }
-        
         const updatedBusiness = await storage.updateBusiness(businessId, businessData);
         
         return res.status(200).json(updatedBusiness);
@@ -176,6 +174,7 @@ export function businessRoutes(app: Express): void {
   app.put(lBusinessPath, 
     [versionHeadersMiddleware(), deprecationMiddleware],
     authenticate, 
+    requireBusinessPermission('business.manage', 'id'),
     apiRateLimiter,
     validateBusinessProfile, 
     async (req: Request, res: Response) => {
@@ -189,12 +188,6 @@ export function businessRoutes(app: Express): void {
           return res.status(404).json({ message: "Business not found" });
         }
         
-        // Verify ownership by checking if the authenticated user is the owner
-        const userBusiness = await storage.getBusinessByUserId(req.user!.userId);
-        if (!userBusiness || userBusiness.id !== businessId) {
-          return res.status(403).json({ message: "You can only update your own business" });
-        }
-        
         const updatedBusiness = await storage.updateBusiness(businessId, businessData);
         
         return res.status(200).json(updatedBusiness);
@@ -230,6 +223,7 @@ export function businessRoutes(app: Express): void {
         }
         
         const updatedBusiness = await storage.updateBusinessVerificationStatus(businessId, status, feedback);
+        await sendBusinessVerificationEmail(updatedBusiness);
 
         return res.status(200).json({
           ...updatedBusiness,
@@ -264,6 +258,7 @@ export function businessRoutes(app: Express): void {
         }
         
         const updatedBusiness = await storage.updateBusinessVerificationStatus(businessId, status, feedback);
+        await sendBusinessVerificationEmail(updatedBusiness);
 
         return res.status(200).json({
           ...updatedBusiness,
@@ -319,15 +314,16 @@ export function businessRoutes(app: Express): void {
   app.post(vAddBusinessHoursPath, 
     versionHeadersMiddleware(),
     authenticate, 
+    requireBusinessPermission('business.manage'),
     apiRateLimiter, 
     validateBusinessHours, 
     async (req: Request, res: Response) => {
       try {
         const hourData = req.body;
         
-        // Verify ownership - get the business ID from the request and check if user owns it
-        const userBusiness = await storage.getBusinessByUserId(req.user!.userId);
-        if (!userBusiness || userBusiness.id !== hourData.businessId) {
+        // Verify the hours are for the business the user manages
+        const userBusiness = req.businessMembership!.business;
+        if (userBusiness.id !== hourData.businessId) {
           return res.status(403).json({ message: "You can only add hours to your own business" });
         }
         
@@ -344,15 +340,16 @@ export function businessRoutes(app: Express): void {
   app.post(lAddBusinessHoursPath, 
     [versionHeadersMiddleware(), deprecationMiddleware],
     authenticate, 
+    requireBusinessPermission('business.manage'),
     apiRateLimiter, 
     validateBusinessHours, 
     async (req: Request, res: Response) => {
       try {
         const hourData = req.body;
         
-        // Verify ownership - get the business ID from the request and check if user owns it
-        const userBusiness = await storage.getBusinessByUserId(req.user!.userId);
-        if (!userBusiness || userBusiness.id !== hourData.businessId) {
+        // Verify the hours are for the business the user manages
+        const userBusiness = req.businessMembership!.business;
+        if (userBusiness.id !== hourData.businessId) {
           return res.status(403).json({ message: "You can only add hours to your own business" });
         }
         
@@ -372,6 +369,7 @@ export function businessRoutes(app: Express): void {
   app.put(vUpdateBusinessHoursPath, 
     versionHeadersMiddleware(),
     authenticate, 
+    requireBusinessPermission('business.manage'),
     apiRateLimiter, 
     validateBusinessHours, 
     async (req: Request, res: Response) => {
@@ -387,9 +385,9 @@ export function businessRoutes(app: Express): void {
           return res.status(404).json({ message: "Business hours not found" });
         }
         
-        // Verify ownership - check if the authenticated user owns the business
-        const userBusiness = await storage.getBusinessByUserId(req.user!.userId);
-        if (!userBusiness || userBusiness.id !== targetHours.businessId) {
+        // Verify the hours belong to the business the user manages
+        const userBusiness = req.businessMembership!.business;
+        if (userBusiness.id !== targetHours.businessId) {
           return res.status(403).json({ message: "You can only update hours for your own business" });
         }
         
@@ -406,6 +404,7 @@ export function businessRoutes(app: Express): void {
   app.put(lUpdateBusinessHoursPath, 
     [versionHeadersMiddleware(), deprecationMiddleware],
     authenticate, 
+    requireBusinessPermission('business.manage'),
     apiRateLimiter, 
     validateBusinessHours, 
     async (req: Request, res: Response) => {
@@ -421,9 +420,9 @@ export function businessRoutes(app: Express): void {
           return res.status(404).json({ message: "Business hours not found" });
         }
         
-        // Verify ownership - check if the authenticated user owns the business
-        const userBusiness = await storage.getBusinessByUserId(req.user!.userId);
-        if (!userBusiness || userBusiness.id !== targetHours.businessId) {
+        // Verify the hours belong to the business the user manages
+        const userBusiness = req.businessMembership!.business;
+        if (userBusiness.id !== targetHours.businessId) {
           return res.status(403).json({ message: "You can only update hours for your own business" });
         }
         
@@ -443,19 +442,14 @@ export function businessRoutes(app: Express): void {
   app.delete(vDeleteBusinessHoursPath, 
     versionHeadersMiddleware(),
     authenticate, 
+    requireBusinessPermission('business.manage'),
     apiRateLimiter, 
     async (req: Request, res: Response) => {
       try {
         const hoursId = parseInt(req.params.id);
         
-        // Get all business hours to find the one we want to delete
-        // This is just to verify ownership
-        const allBusinessHours = [];
-        const userBusiness = await storage.getBusinessByUserId(req.user!.userId);
-        
-        if (!userBusiness) {
-          return res.status(403).json({ message: "You need a business account to perform this action" });
-        }
+        // Only the hours of the business the user manages can be deleted
+        const userBusiness = req.businessMembership!.business;
         
         const businessHours = await storage.getBusinessHours(userBusiness.id);
         const targetHours = businessHours.find(h => h.id === hoursId);
@@ -482,19 +476,14 @@ export function businessRoutes(app: Express): void {
   app.delete(lDeleteBusinessHoursPath, 
     [versionHeadersMiddleware(), deprecationMiddleware],
     authenticate, 
+    requireBusinessPermission('business.manage'),
     apiRateLimiter, 
     async (req: Request, res: Response) => {
       try {
         const hoursId = parseInt(req.params.id);
         
-        // Get all business hours to find the one we want to delete
-        // This is just to verify ownership
-        const allBusinessHours = [];
-        const userBusiness = await storage.getBusinessByUserId(req.user!.userId);
-        
-        if (!userBusiness) {
-          return res.status(403).json({ message: "You need a business account to perform this action" });
-        }
+        // Only the hours of the business the user manages can be deleted
+        const userBusiness = req.businessMembership!.business;
         
         const businessHours = await storage.getBusinessHours(userBusiness.id);
         const targetHours = businessHours.find(h => h.id === hoursId);
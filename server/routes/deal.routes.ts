@@ -1,9 +1,26 @@
 import type { Express, Request, Response } from "express";
-import { storage } from "../storage";
-import { authenticate, authorize, checkOwnership } from "../middleware";
+import type { Deal, DealApproval, Business, BusinessHours } from "@shared/schema";
+import { storage, RedemptionError } from "../storage";
+import { authenticate, checkOwnership, requirePermission, requireBusinessPermission } from "../middleware";
 import { validate } from "../middleware/validationMiddleware";
-import { dealSchemas } from "../schemas";
+import { dealSchemas, moderationSchemas } from "../schemas";
 import { apiRateLimiter } from "../middleware/rateLimit";
+import { parseBbox, type GeoQuery } from "../utils/geo";
+import { setPaginationHeaders, InvalidCursorError } from "../utils/pagination";
+import { paginateDeals, type DealSortOption } from "../utils/dealPagination";
+import { isScheduledAt, isScheduledOnDate, isScheduledOnWeekday, getScheduleAvailability } from "@shared/dealSchedule";
+import { getOpenStatus, openingHoursTimeZone, type OpenStatus } from "@shared/businessHours";
+import { 
+  issueRedemptionToken, 
+  consumeRedemptionToken, 
+  getRedemptionTokenStatus,
+  RedemptionTokenError 
+} from "../services/RedemptionTokens";
+import { submitDealRevision, getDealRevisionHistory } from "../services/DealRevisions";
+import { preModerateDeal } from "../services/PreModeration";
+import { sendDealReviewEmail } from "../services/Mailer";
+import { resolveRejection, recordModerationDecision, RejectionReasonError } from "../services/Moderation";
+import { auditActorOf, recordAdminAction } from "../services/AdminAudit";
 import { 
   createVersionedRoutes, 
   versionHeadersMiddleware,
@@ -35,6 +52,139 @@ function ensureDatesAreConverted(body: any) {
   };
 }
 
+/**
+ * The deal as it stands after submission, once the pre-moderation rules have had their say
+ * Emails the vendor when the rules approved or rejected it without a reviewer
+ */
+async function applyReviewOutcome(deal: Deal, approval: DealApproval | null): Promise<Deal> {
+  if (!approval || approval.status === "pending") {
+    return deal;
+  }
+  
+  await sendDealReviewEmail(approval);
+  return (await storage.getDeal(deal.id)) ?? deal;
+}
+
+/**
+ * Build a location filter from the lat, lng, radiusKm and bbox query params
+ * Returns null when no location params were supplied
+ */
+function parseGeoQuery(query: Request['query']): GeoQuery | null {
+  const geoQuery: GeoQuery = {};
+  
+  if (query.lat !== undefined && query.lng !== undefined) {
+    geoQuery.lat = parseFloat(query.lat as string);
+    geoQuery.lng = parseFloat(query.lng as string);
+  }
+  if (query.radiusKm !== undefined) {
+    geoQuery.radiusKm = parseFloat(query.radiusKm as string);
+  }
+  if (query.bbox !== undefined) {
+    geoQuery.bbox = parseBbox(query.bbox as string) ?? undefined;
+  }
+  
+  return Object.keys(geoQuery).length > 0 ? geoQuery : null;
+}
+
+/**
+ * Sort for listings that don't ask for one: searches rank by relevance and
+ * queries around a point keep the nearest-first order from storage
+ */
+function defaultDealSort(searchTerm: string | undefined, geoQuery: GeoQuery | null): DealSortOption | undefined {
+  if (searchTerm) return 'relevance';
+  if (geoQuery?.lat !== undefined && geoQuery.lng !== undefined) return 'distance';
+  return undefined;
+}
+
+/**
+ * Narrow deals to those matching a search query, most relevant first
+ * Each match carries its relevance score and highlighted snippets
+ */
+async function rankBySearch<T extends Deal>(deals: T[], searchTerm: string) {
+  const dealsById = new Map(deals.map(deal => [deal.id, deal]));
+  const hits = await storage.searchDeals(searchTerm, { dealIds: new Set(dealsById.keys()) });
+  
+  return hits.map(hit => ({
+    ...dealsById.get(hit.dealId)!,
+    searchScore: hit.score,
+    highlights: hit.highlights
+  }));
+}
+
+/**
+ * Whether each deal's business is open at an instant, keyed by business id
+ * Businesses that haven't set their hours are left out
+ */
+async function getOpenStatuses(deals: (Deal & { business: Business })[], at: Date): Promise<Map<number, OpenStatus>> {
+  const businessIds = Array.from(new Set(deals.map(deal => deal.businessId)));
+  const hoursByBusiness = new Map<number, BusinessHours[]>();
+  const timeZones = new Map<number, string>();
+  
+  for (const deal of deals) {
+    const timeZone = openingHoursTimeZone(deal);
+    if (timeZone && !timeZones.has(deal.businessId)) timeZones.set(deal.businessId, timeZone);
+  }
+  
+  for (const hours of await storage.getBusinessHoursForBusinesses(businessIds)) {
+    const rows = hoursByBusiness.get(hours.businessId) ?? [];
+    rows.push(hours);
+    hoursByBusiness.set(hours.businessId, rows);
+  }
+  
+  const statuses = new Map<number, OpenStatus>();
+  hoursByBusiness.forEach((rows, businessId) => {
+    const status = getOpenStatus(rows, at, timeZones.get(businessId));
+    if (status) statuses.set(businessId, status);
+  });
+  return statuses;
+}
+
+/**
+ * Whether the signed-in user may see a deal's review history: admins and
+ * everyone on the deal's business team
+ */
+async function canViewDealReview(req: Request, deal: Deal): Promise<boolean> {
+  if (req.user!.userType === "admin") return true;
+  
+  const membership = await storage.getBusinessMembership(req.user!.userId);
+  return !!membership && membership.business.id === deal.businessId;
+}
+
+async function getDealApprovalHistory(req: Request, res: Response) {
+  const dealId = parseInt(req.params.dealId);
+  
+  const deal = await storage.getDeal(dealId);
+  if (!deal) {
+    return res.status(404).json({ message: "Deal not found" });
+  }
+  
+  if (!(await canViewDealReview(req, deal))) {
+    return res.status(403).json({ message: "You do not have permission to view this deal's reviews" });
+  }
+  
+  return res.status(200).json(await getDealRevisionHistory(dealId));
+}
+
+async function addDealReviewComment(req: Request, res: Response) {
+  const dealId = parseInt(req.params.dealId);
+  
+  // Comments belong to the submission under review, the latest one
+  const [latest] = await storage.getDealApprovalHistory(dealId);
+  if (!latest) {
+    return res.status(404).json({ message: "Deal has not been submitted for review" });
+  }
+  
+  const comment = await storage.addDealReviewComment({
+    approvalId: latest.id,
+    dealId,
+    field: req.body.field,
+    comment: req.body.comment,
+    authorId: req.staffUserId!,
+  });
+  
+  return res.status(201).json(comment);
+}
+
 /**
  * Deal routes for listing, creating, and managing deals
  */
@@ -42,46 +192,49 @@ export function dealRoutes(app: Express): void {
   // Get all deals
   const [vDealsPath, lDealsPath] = createVersionedRoutes('/deals');
   
-  app.get(vDealsPath, versionHeadersMiddleware(), async (req: Request, res: Response) => {
+  app.get(vDealsPath, [versionHeadersMiddleware(), validate(dealSchemas.getDeals)], async (req: Request, res: Response) => {
     try {
       // Get query params for filtering
       const category = req.query.category as string | undefined;
       const discountType = req.query.discountType as string | undefined;
       const searchTerm = req.query.search as string | undefined;
       const availableToday = req.query.availableToday === 'true';
+      const availableNow = req.query.availableNow === 'true';
+      const openNow = req.query.openNow === 'true';
       const dayOfWeek = req.query.dayOfWeek ? parseInt(req.query.dayOfWeek as string) : undefined;
+      const geoQuery = parseGeoQuery(req.query);
       
-      // Get all deals from storage
-      const deals = await storage.getDeals();
+      // Location queries are filtered and distance-sorted in storage;
+      // the in-memory filters below preserve that order
+      const deals: (Deal & { business: Business })[] = geoQuery
+        ? await storage.getDealsNearby(geoQuery)
+        : await storage.getDeals();
       
       // Apply filters if provided
       let filteredDeals = deals;
       
-      // Get current day of week (0 = Sunday, 1 = Monday, etc.)
-      const currentDayOfWeek = new Date().getDay();
+      const now = new Date();
       
-      // Filter by recurring day availability
+      // Filter by schedule availability; regular deals are always available
+      // within their date range, scheduled ones only inside their windows
       if (availableToday) {
-        filteredDeals = filteredDeals.filter(deal => {
-          // Regular deals are always available within their date range
-          if (!deal.isRecurring) return true;
-          
-          // For recurring deals, check if today is in the recurringDays array
-          const recurringDays = Array.isArray(deal.recurringDays) ? deal.recurringDays : [];
-          return recurringDays.includes(currentDayOfWeek);
-        });
+        filteredDeals = filteredDeals.filter(deal => isScheduledOnDate(deal, now));
+      }
+      
+      if (availableNow) {
+        filteredDeals = filteredDeals.filter(deal => isScheduledAt(deal, now));
       }
       
       // Filter by specific day of week if provided
       if (dayOfWeek !== undefined) {
-        filteredDeals = filteredDeals.filter(deal => {
-          // Regular deals are available any day within their date range
-          if (!deal.isRecurring) return true;
-          
-          // For recurring deals, check if requested day is in the recurringDays array
-          const recurringDays = Array.isArray(deal.recurringDays) ? deal.recurringDays : [];
-          return recurringDays.includes(dayOfWeek);
-        });
+        filteredDeals = filteredDeals.filter(deal => isScheduledOnWeekday(deal, dayOfWeek));
+      }
+      
+      const openStatuses = await getOpenStatuses(filteredDeals, now);
+      
+      // Businesses without hours are unknown rather than open, so they are left out
+      if (openNow) {
+        filteredDeals = filteredDeals.filter(deal => openStatuses.get(deal.businessId)?.isOpen === true);
       }
       
       if (category) {
@@ -97,64 +250,42 @@ export function dealRoutes(app: Express): void {
       }
       
       if (searchTerm) {
-        const search = searchTerm.toLowerCase();
-        filteredDeals = filteredDeals.filter(deal => 
-          deal.title.toLowerCase().includes(search) || 
-          deal.description.toLowerCase().includes(search)
-        );
+        filteredDeals = await rankBySearch(filteredDeals, searchTerm);
       }
       
-      // Add additional availability data to each deal for frontend
-      const dealsWithAvailability = filteredDeals.map(deal => {
-        // Skip if not a recurring deal
-        if (!deal.isRecurring) return deal;
-        
-        const recurringDays = Array.isArray(deal.recurringDays) ? deal.recurringDays : [];
-        const isAvailableToday = recurringDays.includes(currentDayOfWeek);
-        
-        // Find next available day
-        let nextAvailableDay = null;
-        if (!isAvailableToday && recurringDays.length > 0) {
-          // Sort days to find next upcoming day
-          const sortedDays = [...recurringDays].sort((a, b) => {
-            // If day is less than current day, it will be in the next week
-            // So we add 7 to it for sorting purposes
-            const adjustedA = a < currentDayOfWeek ? a + 7 : a;
-            const adjustedB = b < currentDayOfWeek ? b + 7 : b;
-            return adjustedA - adjustedB;
-          });
-          
-          // First day after adjusting is the next available
-          const nextDay = sortedDays[0];
-          nextAvailableDay = nextDay >= 7 ? nextDay - 7 : nextDay;
-        }
-        
-        // Using type assertion to add availability property
-        return {
-          ...deal,
-          availability: {
-            isAvailableToday,
-            nextAvailableDay
-          }
-        } as any;
-      });
+      // Add availability and opening hours data to each deal for frontend
+      const dealsWithAvailability = filteredDeals.map(deal => ({
+        ...deal,
+        openStatus: openStatuses.get(deal.businessId) ?? null,
+        // Only recurring and scheduled deals have availability data
+        ...(deal.isRecurring || deal.schedule ? { availability: getScheduleAvailability(deal, now) } : {})
+      }));
       
-      return res.status(200).json(dealsWithAvailability);
+      const page = paginateDeals(dealsWithAvailability, req.query, defaultDealSort(searchTerm, geoQuery));
+      setPaginationHeaders(res, page);
+      
+      return res.status(200).json(page.items);
     } catch (error) {
+      if (error instanceof InvalidCursorError) {
+        return res.status(400).json({ message: error.message });
+      }
       console.error("Get deals error:", error);
       return res.status(500).json({ message: "Internal server error" });
     }
   });
   
-  app.get(lDealsPath, [versionHeadersMiddleware(), deprecationMiddleware], async (req: Request, res: Response) => {
+  app.get(lDealsPath, [versionHeadersMiddleware(), deprecationMiddleware, validate(dealSchemas.getDeals)], async (req: Request, res: Response) => {
     try {
       // Get query params for filtering
       const category = req.query.category as string | undefined;
       const discountType = req.query.discountType as string | undefined;
       const searchTerm = req.query.search as string | undefined;
+      const geoQuery = parseGeoQuery(req.query);
       
-      // Get all deals from storage
-      const deals = await storage.getDeals();
+      // Location queries are filtered and distance-sorted in storage
+      const deals: (Deal & { business: Business })[] = geoQuery
+        ? await storage.getDealsNearby(geoQuery)
+        : await storage.getDeals();
       
       // Apply filters if provided
       let filteredDeals = deals;
@@ -172,15 +303,17 @@ export function dealRoutes(app: Express): void {
       }
       
       if (searchTerm) {
-        const search = searchTerm.toLowerCase();
-        filteredDeals = filteredDeals.filter(deal => 
-          deal.title.toLowerCase().includes(search) || 
-          deal.description.toLowerCase().includes(search)
-        );
+        filteredDeals = await rankBySearch(filteredDeals, searchTerm);
       }
       
-      return res.status(200).json(filteredDeals);
+      const page = paginateDeals(filteredDeals, req.query, defaultDealSort(searchTerm, geoQuery));
+      setPaginationHeaders(res, page);
+      
+      return res.status(200).json(page.items);
     } catch (error) {
+      if (error instanceof InvalidCursorError) {
+        return res.status(400).json({ message: error.message });
+      }
       console.error("Get deals error (legacy):", error);
       return res.status(500).json({ message: "Internal server error" });
     }
@@ -293,6 +426,7 @@ export function dealRoutes(app: Express): void {
   app.get(vDealsByStatusPath, 
     versionHeadersMiddleware(),
     authenticate,
+    validate(dealSchemas.listDealsByStatus),
     async (req: Request, res: Response) => {
     try {
       console.log(`Fetching deals with status: ${req.params.status}`);
@@ -303,8 +437,14 @@ export function dealRoutes(app: Express): void {
       
       console.log(`Found ${deals.length} deals with status '${status}'`);
       
-      return res.status(200).json(deals);
+      const page = paginateDeals(deals, req.query);
+      setPaginationHeaders(res, page);
+      
+      return res.status(200).json(page.items);
     } catch (error) {
+      if (error instanceof InvalidCursorError) {
+        return res.status(400).json({ message: error.message });
+      }
       console.error(`Error fetching deals by status ${req.params.status}:`, error);
       return res.status(500).json({ message: "Error fetching deals by status" });
     }
@@ -314,6 +454,7 @@ export function dealRoutes(app: Express): void {
   app.get(lDealsByStatusPath, 
     [versionHeadersMiddleware(), deprecationMiddleware],
     authenticate,
+    validate(dealSchemas.listDealsByStatus),
     async (req: Request, res: Response) => {
     try {
       const status = req.params.status;
@@ -321,8 +462,14 @@ export function dealRoutes(app: Express): void {
       // Get deals with requested status
       const deals = await storage.getDealsByStatus(status);
       
-      return res.status(200).json(deals);
+      const page = paginateDeals(deals, req.query);
+      setPaginationHeaders(res, page);
+      
+      return res.status(200).json(page.items);
     } catch (error) {
+      if (error instanceof InvalidCursorError) {
+        return res.status(400).json({ message: error.message });
+      }
       console.error(`Error fetching deals by status ${req.params.status}:`, error);
       return res.status(500).json({ message: "Error fetching deals by status" });
     }
@@ -408,21 +555,13 @@ export function dealRoutes(app: Express): void {
   app.post(vDealsPath, 
     versionHeadersMiddleware(),
     authenticate, 
+    requireBusinessPermission('deals.manage'),
     apiRateLimiter,
     validate(dealSchemas.createDeal), 
     async (req: Request, res: Response) => {
       try {
-        // Ensure the user is a business user
-        if (req.user!.userType !== "business") {
-          return res.status(403).json({ message: "Only business users can create deals" });
-        }
-        
-        // Get the user's business
-        const business = await storage.getBusinessByUserId(req.user!.userId);
-        
-        if (!business) {
-          return res.status(404).json({ message: "Business not found for this user" });
-        }
+        // Deals are created for the business the user works for
+        const { business } = req.businessMembership!;
         
         // Ensure the business is verified
         if (business.verificationStatus !== "verified") {
@@ -443,8 +582,9 @@ export function dealRoutes(app: Express): void {
         };
         
         const deal = await storage.createDeal(dealData);
+        const approval = await preModerateDeal(deal, req.user!.userId);
         
-        return res.status(201).json(deal);
+        return res.status(201).json(await applyReviewOutcome(deal, approval));
       } catch (error) {
         console.error("Create deal error:", error);
         return res.status(500).json({ message: "Internal server error" });
@@ -455,21 +595,13 @@ export function dealRoutes(app: Express): void {
   app.post(lDealsPath, 
     [versionHeadersMiddleware(), deprecationMiddleware],
     authenticate, 
+    requireBusinessPermission('deals.manage'),
     apiRateLimiter,
     validate(dealSchemas.createDeal), 
     async (req: Request, res: Response) => {
       try {
-        // Ensure the user is a business user
-        if (req.user!.userType !== "business") {
-          return res.status(403).json({ message: "Only business users can create deals" });
-        }
-        
-        // Get the user's business
-        const business = await storage.getBusinessByUserId(req.user!.userId);
-        
-        if (!business) {
-          return res.status(404).json({ message: "Business not found for this user" });
-        }
+        // Deals are created for the business the user works for
+        const { business } = req.businessMembership!;
         
         // Ensure the business is verified 
         if (business.verificationStatus !== "verified") {
@@ -490,8 +622,9 @@ export function dealRoutes(app: Express): void {
         };
         
         const deal = await storage.createDeal(dealData);
+        const approval = await preModerateDeal(deal, req.user!.userId);
         
-        return res.status(201).json(deal);
+        return res.status(201).json(await applyReviewOutcome(deal, approval));
       } catch (error) {
         console.error("Create deal error (legacy):", error);
         return res.status(500).json({ message: "Internal server error" });
@@ -503,6 +636,7 @@ export function dealRoutes(app: Express): void {
   app.put(vDealPath, 
     versionHeadersMiddleware(),
     authenticate, 
+    requireBusinessPermission('deals.manage'),
     apiRateLimiter,
     validate(dealSchemas.updateDeal), 
     async (req: Request, res: Response) => {
@@ -516,14 +650,8 @@ export function dealRoutes(app: Express): void {
           return res.status(404).json({ message: "Deal not found" });
         }
         
-        // Get the user's business
-        const business = await storage.getBusinessByUserId(req.user!.userId);
-        
-        if (!business) {
-          return res.status(404).json({ message: "Business not found for this user" });
-        }
-        
-        // Ensure the user owns this deal through their business
+        // Ensure the deal belongs to the business the user works for
+        const { business } = req.businessMembership!;
         if (deal.businessId !== business.id) {
           return res.status(403).json({ message: "You do not have permission to update this deal" });
         }
@@ -533,8 +661,9 @@ export function dealRoutes(app: Express): void {
         
         // Update the deal
         const updatedDeal = await storage.updateDeal(dealId, processedBody);
+        const approval = await submitDealRevision(deal, updatedDeal, req.user!.userId);
         
-        return res.status(200).json(updatedDeal);
+        return res.status(200).json(await applyReviewOutcome(updatedDeal, approval));
       } catch (error) {
         console.error("Update deal error:", error);
         return res.status(500).json({ message: "Internal server error" });
@@ -545,6 +674,7 @@ export function dealRoutes(app: Express): void {
   app.put(lDealPath, 
     [versionHeadersMiddleware(), deprecationMiddleware],
     authenticate, 
+    requireBusinessPermission('deals.manage'),
     apiRateLimiter,
     validate(dealSchemas.updateDeal), 
     async (req: Request, res: Response) => {
@@ -558,14 +688,8 @@ export function dealRoutes(app: Express): void {
           return res.status(404).json({ message: "Deal not found" });
         }
         
-        // Get the user's business
-        const business = await storage.getBusinessByUserId(req.user!.userId);
-        
-        if (!business) {
-          return res.status(404).json({ message: "Business not found for this user" });
-        }
-        
-        // Ensure the user owns this deal through their business
+        // Ensure the deal belongs to the business the user works for
+        const { business } = req.businessMembership!;
         if (deal.businessId !== business.id) {
           return res.status(403).json({ message: "You do not have permission to update this deal" });
         }
@@ -575,8 +699,9 @@ export function dealRoutes(app: Express): void {
         
         // Update the deal
         const updatedDeal = await storage.updateDeal(dealId, processedBody);
+        const approval = await submitDealRevision(deal, updatedDeal, req.user!.userId);
         
-        return res.status(200).json(updatedDeal);
+        return res.status(200).json(await applyReviewOutcome(updatedDeal, approval));
       } catch (error) {
         console.error("Update deal error (legacy):", error);
         return res.status(500).json({ message: "Internal server error" });
@@ -588,6 +713,7 @@ export function dealRoutes(app: Express): void {
   app.delete(vDealPath, 
     versionHeadersMiddleware(),
     authenticate, 
+    requireBusinessPermission('deals.manage'),
     apiRateLimiter,
     async (req: Request, res: Response) => {
       try {
@@ -600,14 +726,8 @@ export function dealRoutes(app: Express): void {
           return res.status(404).json({ message: "Deal not found" });
         }
         
-        // Get the user's business
-        const business = await storage.getBusinessByUserId(req.user!.userId);
-        
-        if (!business) {
-          return res.status(404).json({ message: "Business not found for this user" });
-        }
-        
-        // Ensure the user owns this deal through their business
+        // Ensure the deal belongs to the business the user works for
+        const { business } = req.businessMembership!;
         if (deal.businessId !== business.id) {
           return res.status(403).json({ message: "You do not have permission to delete this deal" });
         }
@@ -626,6 +746,7 @@ export function dealRoutes(app: Express): void {
   app.delete(lDealPath, 
     [versionHeadersMiddleware(), deprecationMiddleware],
     authenticate, 
+    requireBusinessPermission('deals.manage'),
     apiRateLimiter,
     async (req: Request, res: Response) => {
       try {
@@ -638,14 +759,8 @@ export function dealRoutes(app: Express): void {
           return res.status(404).json({ message: "Deal not found" });
         }
         
-        // Get the user's business
-        const business = await storage.getBusinessByUserId(req.user!.userId);
-        
-        if (!business) {
-          return res.status(404).json({ message: "Business not found for this user" });
-        }
-        
-        // Ensure the user owns this deal through their business
+        // Ensure the deal belongs to the business the user works for
+        const { business } = req.businessMembership!;
         if (deal.businessId !== business.id) {
           return res.status(403).json({ message: "You do not have permission to delete this deal" });
         }
@@ -664,7 +779,8 @@ export function dealRoutes(app: Express): void {
   // Admin routes for verifying/rejecting deals
   app.patch('/api/v1/admin/deals/:id/verify', 
     authenticate, 
-    authorize(["admin"]),
+    requirePermission("deals.moderate"),
+    validate(moderationSchemas.approve),
     async (req: Request, res: Response) => {
       try {
         const dealId = parseInt(req.params.id);
@@ -678,6 +794,14 @@ export function dealRoutes(app: Express): void {
         
         // Update the deal status to verified
         const updatedDeal = await storage.updateDeal(dealId, { status: "verified" });
+        await recordModerationDecision('deal', dealId, 'approved', req.body ?? {}, req.staffUserId ?? null);
+        await recordAdminAction(auditActorOf(req), {
+          action: "deal.approve",
+          targetType: "deal",
+          targetId: dealId,
+          before: { status: deal.status },
+          after: { status: updatedDeal.status }
+        });
         
         return res.status(200).json(updatedDeal);
       } catch (error) {
@@ -689,11 +813,11 @@ export function dealRoutes(app: Express): void {
   
   app.patch('/api/v1/admin/deals/:id/reject', 
     authenticate, 
-    authorize(["admin"]),
+    requirePermission("deals.moderate"),
+    validate(moderationSchemas.reject),
     async (req: Request, res: Response) => {
       try {
         const dealId = parseInt(req.params.id);
-        const { reason } = req.body;
         
         // Get the deal
         const deal = await storage.getDeal(dealId);
@@ -702,17 +826,257 @@ export function dealRoutes(app: Express): void {
           return res.status(404).json({ message: "Deal not found" });
         }
         
-        // Update the deal status to rejected and add rejection reason
+        // Reasons must come from the catalogue; their templates become the rejection reason the vendor sees
+        const { feedback } = await resolveRejection('deal', req.body);
         const updatedDeal = await storage.updateDeal(dealId, { 
           status: "rejected",
-          rejectionReason: reason || "Did not meet platform guidelines"
+          rejectionReason: feedback
+        });
+        await recordModerationDecision('deal', dealId, 'rejected', req.body, req.staffUserId ?? null);
+        await recordAdminAction(auditActorOf(req), {
+          action: "deal.reject",
+          targetType: "deal",
+          targetId: dealId,
+          before: { status: deal.status, rejectionReason: deal.rejectionReason },
+          after: { status: updatedDeal.status, rejectionReason: updatedDeal.rejectionReason },
+          details: { reasonCodes: req.body.reasonCodes }
         });
         
         return res.status(200).json(updatedDeal);
       } catch (error) {
+        if (error instanceof RejectionReasonError) {
+          return res.status(400).json({ message: error.message, codes: error.codes });
+        }
         console.error("Reject deal error:", error);
         return res.status(500).json({ message: "Internal server error" });
       }
     }
   );
-}
\ No newline at end of file
+
+  // Review history: every submission with field-level changes and reviewer comments
+  const [vApprovalHistoryPath, lApprovalHistoryPath] = createVersionedRoutes('/deals/:dealId/approval/history');
+  
+  app.get(vApprovalHistoryPath, 
+    versionHeadersMiddleware(),
+    authenticate, 
+    validate(dealSchemas.getDealApprovalHistory),
+    async (req: Request, res: Response) => {
+      try {
+        return await getDealApprovalHistory(req, res);
+      } catch (error) {
+        console.error("Get deal approval history error:", error);
+        return res.status(500).json({ message: "Internal server error" });
+      }
+    }
+  );
+  
+  app.get(lApprovalHistoryPath, 
+    [versionHeadersMiddleware(), deprecationMiddleware],
+    authenticate, 
+    validate(dealSchemas.getDealApprovalHistory),
+    async (req: Request, res: Response) => {
+      try {
+        return await getDealApprovalHistory(req, res);
+      } catch (error) {
+        console.error("Get deal approval history error (legacy):", error);
+        return res.status(500).json({ message: "Internal server error" });
+      }
+    }
+  );
+  
+  // Reviewer comments on individual fields of the submission under review
+  const [vReviewCommentsPath, lReviewCommentsPath] = createVersionedRoutes('/deals/:dealId/approval/comments');
+  
+  app.post(vReviewCommentsPath, 
+    versionHeadersMiddleware(),
+    authenticate, 
+    requirePermission("deals.moderate"),
+    validate(dealSchemas.addDealReviewComment),
+    async (req: Request, res: Response) => {
+      try {
+        return await addDealReviewComment(req, res);
+      } catch (error) {
+        console.error("Add deal review comment error:", error);
+        return res.status(500).json({ message: "Internal server error" });
+      }
+    }
+  );
+  
+  app.post(lReviewCommentsPath, 
+    [versionHeadersMiddleware(), deprecationMiddleware],
+    authenticate, 
+    requirePermission("deals.moderate"),
+    validate(dealSchemas.addDealReviewComment),
+    async (req: Request, res: Response) => {
+      try {
+        return await addDealReviewComment(req, res);
+      } catch (error) {
+        console.error("Add deal review comment error (legacy):", error);
+        return res.status(500).json({ message: "Internal server error" });
+      }
+    }
+  );
+
+  // Issue a single-use redemption token for the current customer
+  const [vRedemptionTokenPath, lRedemptionTokenPath] = createVersionedRoutes('/deals/:dealId/redemption-token');
+  
+  app.post(vRedemptionTokenPath, 
+    versionHeadersMiddleware(),
+    authenticate, 
+    apiRateLimiter,
+    validate(dealSchemas.issueRedemptionToken), 
+    async (req: Request, res: Response) => {
+      try {
+        if (req.user!.userType !== "individual") {
+          return res.status(403).json({ message: "Only customers can request redemption tokens" });
+        }
+        
+        const dealId = parseInt(req.params.dealId);
+        const issued = await issueRedemptionToken(req.user!.userId, dealId);
+        
+        return res.status(201).json(issued);
+      } catch (error) {
+        if (error instanceof RedemptionTokenError) {
+          return res.status(error.status).json({ message: error.message, code: error.code });
+        }
+        if (error instanceof RedemptionError) {
+          return res.status(409).json({ message: error.message, code: error.code });
+        }
+        console.error("Issue redemption token error:", error);
+        return res.status(500).json({ message: "Internal server error" });
+      }
+    }
+  );
+  
+  app.post(lRedemptionTokenPath, 
+    [versionHeadersMiddleware(), deprecationMiddleware],
+    authenticate, 
+    apiRateLimiter,
+    validate(dealSchemas.issueRedemptionToken), 
+    async (req: Request, res: Response) => {
+      try {
+        if (req.user!.userType !== "individual") {
+          return res.status(403).json({ message: "Only customers can request redemption tokens" });
+        }
+        
+        const dealId = parseInt(req.params.dealId);
+        const issued = await issueRedemptionToken(req.user!.userId, dealId);
+        
+        return res.status(201).json(issued);
+      } catch (error) {
+        if (error instanceof RedemptionTokenError) {
+          return res.status(error.status).json({ message: error.message, code: error.code });
+        }
+        if (error instanceof RedemptionError) {
+          return res.status(409).json({ message: error.message, code: error.code });
+        }
+        console.error("Issue redemption token error (legacy):", error);
+        return res.status(500).json({ message: "Internal server error" });
+      }
+    }
+  );
+
+  // Customer polls whether their token has been consumed by the vendor
+  const [vTokenStatusPath, lTokenStatusPath] = createVersionedRoutes('/deals/:dealId/redemption-token/:shortCode');
+  
+  app.get(vTokenStatusPath, 
+    versionHeadersMiddleware(),
+    authenticate, 
+    validate(dealSchemas.getRedemptionTokenStatus), 
+    async (req: Request, res: Response) => {
+      try {
+        const dealId = parseInt(req.params.dealId);
+        const status = await getRedemptionTokenStatus(req.user!.userId, dealId, req.params.shortCode);
+        
+        return res.status(200).json({ status });
+      } catch (error) {
+        if (error instanceof RedemptionTokenError) {
+          return res.status(error.status).json({ message: error.message, code: error.code });
+        }
+        console.error("Get redemption token status error:", error);
+        return res.status(500).json({ message: "Internal server error" });
+      }
+    }
+  );
+  
+  app.get(lTokenStatusPath, 
+    [versionHeadersMiddleware(), deprecationMiddleware],
+    authenticate, 
+    validate(dealSchemas.getRedemptionTokenStatus), 
+    async (req: Request, res: Response) => {
+      try {
+        const dealId = parseInt(req.params.dealId);
+        const status = await getRedemptionTokenStatus(req.user!.userId, dealId, req.params.shortCode);
+        
+        return res.status(200).json({ status });
+      } catch (error) {
+        if (error instanceof RedemptionTokenError) {
+          return res.status(error.status).json({ message: error.message, code: error.code });
+        }
+        console.error("Get redemption token status error (legacy):", error);
+        return res.status(500).json({ message: "Internal server error" });
+      }
+    }
+  );
+
+  // Vendor consumes a customer's redemption token (QR token or short code)
+  const [vVerifyTokenPath, lVerifyTokenPath] = createVersionedRoutes('/redemptions/verify-token');
+  
+  app.post(vVerifyTokenPath, 
+    versionHeadersMiddleware(),
+    authenticate, 
+    requireBusinessPermission('redemptions.verify'),
+    apiRateLimiter,
+    validate(dealSchemas.consumeRedemptionToken), 
+    async (req: Request, res: Response) => {
+      try {
+        const { redemption, deal } = await consumeRedemptionToken(req.body.token, req.user!.userId);
+        
+        return res.status(200).json({ 
+          valid: true,
+          message: "Redemption verified successfully",
+          redemption,
+          deal: { id: deal.id, title: deal.title }
+        });
+      } catch (error) {
+        if (error instanceof RedemptionTokenError) {
+          return res.status(error.status).json({ valid: false, message: error.message, code: error.code });
+        }
+        if (error instanceof RedemptionError) {
+          return res.status(409).json({ valid: false, message: error.message, code: error.code });
+        }
+        console.error("Verify redemption token error:", error);
+        return res.status(500).json({ message: "Internal server error" });
+      }
+    }
+  );
+  
+  app.post(lVerifyTokenPath, 
+    [versionHeadersMiddleware(), deprecationMiddleware],
+    authenticate, 
+    requireBusinessPermission('redemptions.verify'),
+    apiRateLimiter,
+    validate(dealSchemas.consumeRedemptionToken), 
+    async (req: Request, res: Response) => {
+      try {
+        const { redemption, deal } = await consumeRedemptionToken(req.body.token, req.user!.userId);
+        
+        return res.status(200).json({ 
+          valid: true,
+          message: "Redemption verified successfully",
+          redemption,
+          deal: { id: deal.id, title: deal.title }
+        });
+      } catch (error) {
+        if (error instanceof RedemptionTokenError) {
+          return res.status(error.status).json({ valid: false, message: error.message, code: error.code });
+        }
+        if (error instanceof RedemptionError) {
+          return res.status(409).json({ valid: false, message: error.message, code: error.code });
+        }
+        console.error("Verify redemption token error (legacy):", error);
+        return res.status(500).json({ message: "Internal server error" });
+      }
+    }
+  );
+}
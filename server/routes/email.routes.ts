@@ -0,0 +1,94 @@
+import type { Express, Request, Response } from "express";
+import { storage } from "../storage";
+import { validate } from "../middleware/validationMiddleware";
+import { emailSchemas } from "../schemas";
+import { UNSUBSCRIBE_SECRET } from "../services/Mailer";
+import { escapeHtml } from "../email/templates";
+import { verifyUnsubscribeToken } from "../utils/unsubscribeTokens";
+import {
+  createVersionedRoutes,
+  versionHeadersMiddleware,
+  deprecationMiddleware
+} from "../../src/utils/routeVersioning";
+
+function page(title: string, body: string): string {
+  return `<!DOCTYPE html>
+<html>
+<head><meta charset="utf-8"><meta name="viewport" content="width=device-width, initial-scale=1"><title>${escapeHtml(title)}</title></head>
+<body style="font-family:Arial,Helvetica,sans-serif;max-width:480px;margin:48px auto;padding:0 16px;color:#212121">
+<h1 style="font-size:22px;color:#00796B">${escapeHtml(title)}</h1>
+${body}
+</body>
+</html>`;
+}
+
+function invalidLink(res: Response) {
+  return res.status(400).send(page(
+    "Link not valid",
+    "<p>This unsubscribe link isn't valid. You can change which emails you get in your account settings.</p>"
+  ));
+}
+
+// Links open a confirmation page, so mail scanners following links don't unsubscribe anyone
+function confirmUnsubscribe(req: Request, res: Response) {
+  const token = String(req.query.token);
+  if (!verifyUnsubscribeToken(token, UNSUBSCRIBE_SECRET)) {
+    return invalidLink(res);
+  }
+
+  return res.status(200).send(page(
+    "Unsubscribe from the weekly digest?",
+    `<form method="post" action="?token=${encodeURIComponent(token)}">
+<p>You will no longer get the weekly deals email. Other emails about your account are not affected.</p>
+<button type="submit" style="background:#00796B;color:#fff;border:0;padding:12px 20px;border-radius:6px">Unsubscribe</button>
+</form>`
+  ));
+}
+
+// Handles the confirmation form and one-click unsubscribe requests from mail clients (RFC 8058)
+async function unsubscribe(req: Request, res: Response) {
+  const payload = verifyUnsubscribeToken(String(req.query.token), UNSUBSCRIBE_SECRET);
+  if (!payload) {
+    return invalidLink(res);
+  }
+
+  await storage.updateNotificationPreferences(payload.userId, { weeklyNewsletter: false });
+
+  return res.status(200).send(page(
+    "You're unsubscribed",
+    "<p>You won't get the weekly deals email any more. You can turn it back on in your account settings.</p>"
+  ));
+}
+
+/**
+ * Email routes that work from links in emails, without signing in
+ */
+export function emailRoutes(app: Express): void {
+  const [vUnsubscribePath, lUnsubscribePath] = createVersionedRoutes('/email/unsubscribe');
+
+  app.get(vUnsubscribePath, versionHeadersMiddleware(), validate(emailSchemas.unsubscribe), (req: Request, res: Response) => {
+    return confirmUnsubscribe(req, res);
+  });
+
+  app.get(lUnsubscribePath, [versionHeadersMiddleware(), deprecationMiddleware], validate(emailSchemas.unsubscribe), (req: Request, res: Response) => {
+    return confirmUnsubscribe(req, res);
+  });
+
+  app.post(vUnsubscribePath, versionHeadersMiddleware(), validate(emailSchemas.unsubscribe), async (req: Request, res: Response) => {
+    try {
+      return await unsubscribe(req, res);
+    } catch (error) {
+      console.error("Unsubscribe error:", error);
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.post(lUnsubscribePath, [versionHeadersMiddleware(), deprecationMiddleware], validate(emailSchemas.unsubscribe), async (req: Request, res: Response) => {
+    try {
+      return await unsubscribe(req, res);
+    } catch (error) {
+      console.error("Unsubscribe error (legacy):", error);
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+}
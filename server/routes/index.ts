@@ -3,8 +3,19 @@ import { createServer, type Server } from "http";
 import { adminRoutes } from './admin.routes';
 import { authRoutes } from './auth.routes';
 import { userRoutes } from './user.routes';
+import { sessionRoutes } from './session.routes';
+import { twoFactorRoutes } from './two-factor.routes';
+import { passkeyRoutes } from './passkey.routes';
 import { dealRoutes } from './deal.routes';
 import { businessRoutes } from './business.routes';
+import { teamRoutes } from './team.routes';
+import { searchRoutes } from './search.routes';
+import { pushRoutes } from './push.routes';
+import { emailRoutes } from './email.routes';
+import { notificationRoutes } from './notification.routes';
+import { moderationRoutes } from './moderation.routes';
+import { bulkRoutes } from './bulk.routes';
+import { auditRoutes } from './audit.routes';
 import smsRoutes from './sms.routes';
 import { bypassRouter } from '../admin-api-bypass';
 import { addTestRoutes } from '../test-terms';
@@ -57,10 +68,32 @@ export async function registerRoutes(app: Express): Promise<Server> {
   console.log('✅ Auth routes registered');
   userRoutes(app);
   console.log('✅ User routes registered');
+  sessionRoutes(app);
+  console.log('✅ Session routes registered');
+  twoFactorRoutes(app);
+  console.log('✅ Two-factor routes registered');
+  passkeyRoutes(app);
+  console.log('✅ Passkey routes registered');
   dealRoutes(app);
   console.log('✅ Deal routes registered');
   businessRoutes(app);
   console.log('✅ Business routes registered');
+  teamRoutes(app);
+  console.log('✅ Business team routes registered');
+  searchRoutes(app);
+  console.log('✅ Search routes registered');
+  pushRoutes(app);
+  console.log('✅ Push routes registered');
+  emailRoutes(app);
+  console.log('✅ Email routes registered');
+  notificationRoutes(app);
+  console.log('✅ Notification routes registered');
+  moderationRoutes(app);
+  console.log('✅ Moderation routes registered');
+  bulkRoutes(app);
+  console.log('✅ Bulk admin action routes registered');
+  auditRoutes(app);
+  console.log('✅ Admin audit log routes registered');
 
   // PRIMARY: Register Supabase routes as additional authentication system
   console.log('🔥 Registering PRIMARY Supabase authentication system');
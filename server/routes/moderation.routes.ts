@@ -0,0 +1,281 @@
+import type { Express, Request, Response } from "express";
+import { storage } from "../storage";
+import { authenticate, requirePermission } from "../middleware";
+import { validate } from "../middleware/validationMiddleware";
+import { moderationSchemas } from "../schemas";
+import { checklistForCategory, type ModerationTargetType } from "@shared/moderation";
+import type { PreModerationRuleKey } from "@shared/preModeration";
+import { getPreModerationRules } from "../services/PreModeration";
+import {
+  createVersionedRoutes,
+  versionHeadersMiddleware,
+  deprecationMiddleware
+} from "../../src/utils/routeVersioning";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+async function listRejectionReasons(req: Request, res: Response) {
+  const { targetType, includeInactive } = req.query as { targetType?: ModerationTargetType; includeInactive?: string };
+
+  const reasons = await storage.getRejectionReasons({ targetType, includeInactive: includeInactive === "true" });
+  return res.status(200).json(reasons);
+}
+
+async function createRejectionReason(req: Request, res: Response) {
+  const reason = await storage.createRejectionReason(req.body);
+  if (!reason) {
+    return res.status(409).json({ message: "A rejection reason with this code already exists" });
+  }
+  return res.status(201).json(reason);
+}
+
+async function updateRejectionReason(req: Request, res: Response) {
+  const reason = await storage.updateRejectionReason(parseInt(req.params.id, 10), req.body);
+  if (!reason) {
+    return res.status(404).json({ message: "Rejection reason not found" });
+  }
+  return res.status(200).json(reason);
+}
+
+async function listChecklistItems(req: Request, res: Response) {
+  const { targetType, category, includeInactive } = req.query as {
+    targetType?: ModerationTargetType;
+    category?: string;
+    includeInactive?: string;
+  };
+
+  const items = await storage.getModerationChecklistItems({ targetType, includeInactive: includeInactive === "true" });
+  // With a category, return what a reviewer works through for it
+  return res.status(200).json(category ? checklistForCategory(items, category) : items);
+}
+
+async function createChecklistItem(req: Request, res: Response) {
+  const item = await storage.createModerationChecklistItem(req.body);
+  return res.status(201).json(item);
+}
+
+async function updateChecklistItem(req: Request, res: Response) {
+  const item = await storage.updateModerationChecklistItem(parseInt(req.params.id, 10), req.body);
+  if (!item) {
+    return res.status(404).json({ message: "Checklist item not found" });
+  }
+  return res.status(200).json(item);
+}
+
+async function getRejectionReasonStats(req: Request, res: Response) {
+  const { targetType, days, limit } = req.query as { targetType?: ModerationTargetType; days?: string; limit?: string };
+
+  const reasons = await storage.getRejectionReasonCounts({
+    targetType,
+    since: days ? new Date(Date.now() - parseInt(days, 10) * DAY_MS) : undefined,
+    limit: limit ? parseInt(limit, 10) : undefined,
+  });
+
+  return res.status(200).json({ reasons });
+}
+
+async function listPreModerationRules(_req: Request, res: Response) {
+  return res.status(200).json(await getPreModerationRules());
+}
+
+async function updatePreModerationRule(req: Request, res: Response) {
+  const key = req.params.key as PreModerationRuleKey;
+  const current = (await getPreModerationRules()).find(rule => rule.key === key)!;
+
+  await storage.savePreModerationRuleSetting({
+    key,
+    enabled: req.body.enabled ?? current.enabled,
+    action: req.body.action ?? current.action,
+    config: { ...current.config, ...req.body.config },
+    updatedBy: req.staffUserId ?? null,
+  });
+
+  const rules = await getPreModerationRules();
+  return res.status(200).json(rules.find(rule => rule.key === key));
+}
+
+/**
+ * Admin routes for the moderation policy: the rejection reason catalogue,
+ * review checklists, the rejection reason report and the automated
+ * pre-moderation rules
+ */
+export function moderationRoutes(app: Express): void {
+  const [vRejectionReasonsPath, lRejectionReasonsPath] = createVersionedRoutes('/admin/moderation/rejection-reasons');
+
+  app.get(vRejectionReasonsPath, versionHeadersMiddleware(), authenticate, requirePermission('deals.moderate'), validate(moderationSchemas.listRejectionReasons), async (req: Request, res: Response) => {
+    try {
+      return await listRejectionReasons(req, res);
+    } catch (error) {
+      console.error("List rejection reasons error:", error);
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.get(lRejectionReasonsPath, [versionHeadersMiddleware(), deprecationMiddleware], authenticate, requirePermission('deals.moderate'), validate(moderationSchemas.listRejectionReasons), async (req: Request, res: Response) => {
+    try {
+      return await listRejectionReasons(req, res);
+    } catch (error) {
+      console.error("List rejection reasons error (legacy):", error);
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.post(vRejectionReasonsPath, versionHeadersMiddleware(), authenticate, requirePermission('moderation.configure'), validate(moderationSchemas.createRejectionReason), async (req: Request, res: Response) => {
+    try {
+      return await createRejectionReason(req, res);
+    } catch (error) {
+      console.error("Create rejection reason error:", error);
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.post(lRejectionReasonsPath, [versionHeadersMiddleware(), deprecationMiddleware], authenticate, requirePermission('moderation.configure'), validate(moderationSchemas.createRejectionReason), async (req: Request, res: Response) => {
+    try {
+      return await createRejectionReason(req, res);
+    } catch (error) {
+      console.error("Create rejection reason error (legacy):", error);
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Codes are recorded on past decisions, so reasons are edited or deactivated rather than deleted
+  const [vRejectionReasonPath, lRejectionReasonPath] = createVersionedRoutes('/admin/moderation/rejection-reasons/:id');
+
+  app.put(vRejectionReasonPath, versionHeadersMiddleware(), authenticate, requirePermission('moderation.configure'), validate(moderationSchemas.updateRejectionReason), async (req: Request, res: Response) => {
+    try {
+      return await updateRejectionReason(req, res);
+    } catch (error) {
+      console.error("Update rejection reason error:", error);
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.put(lRejectionReasonPath, [versionHeadersMiddleware(), deprecationMiddleware], authenticate, requirePermission('moderation.configure'), validate(moderationSchemas.updateRejectionReason), async (req: Request, res: Response) => {
+    try {
+      return await updateRejectionReason(req, res);
+    } catch (error) {
+      console.error("Update rejection reason error (legacy):", error);
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  const [vChecklistPath, lChecklistPath] = createVersionedRoutes('/admin/moderation/checklist');
+
+  app.get(vChecklistPath, versionHeadersMiddleware(), authenticate, requirePermission('deals.moderate'), validate(moderationSchemas.listChecklistItems), async (req: Request, res: Response) => {
+    try {
+      return await listChecklistItems(req, res);
+    } catch (error) {
+      console.error("List checklist items error:", error);
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.get(lChecklistPath, [versionHeadersMiddleware(), deprecationMiddleware], authenticate, requirePermission('deals.moderate'), validate(moderationSchemas.listChecklistItems), async (req: Request, res: Response) => {
+    try {
+      return await listChecklistItems(req, res);
+    } catch (error) {
+      console.error("List checklist items error (legacy):", error);
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.post(vChecklistPath, versionHeadersMiddleware(), authenticate, requirePermission('moderation.configure'), validate(moderationSchemas.createChecklistItem), async (req: Request, res: Response) => {
+    try {
+      return await createChecklistItem(req, res);
+    } catch (error) {
+      console.error("Create checklist item error:", error);
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.post(lChecklistPath, [versionHeadersMiddleware(), deprecationMiddleware], authenticate, requirePermission('moderation.configure'), validate(moderationSchemas.createChecklistItem), async (req: Request, res: Response) => {
+    try {
+      return await createChecklistItem(req, res);
+    } catch (error) {
+      console.error("Create checklist item error (legacy):", error);
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  const [vChecklistItemPath, lChecklistItemPath] = createVersionedRoutes('/admin/moderation/checklist/:id');
+
+  app.put(vChecklistItemPath, versionHeadersMiddleware(), authenticate, requirePermission('moderation.configure'), validate(moderationSchemas.updateChecklistItem), async (req: Request, res: Response) => {
+    try {
+      return await updateChecklistItem(req, res);
+    } catch (error) {
+      console.error("Update checklist item error:", error);
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.put(lChecklistItemPath, [versionHeadersMiddleware(), deprecationMiddleware], authenticate, requirePermission('moderation.configure'), validate(moderationSchemas.updateChecklistItem), async (req: Request, res: Response) => {
+    try {
+      return await updateChecklistItem(req, res);
+    } catch (error) {
+      console.error("Update checklist item error (legacy):", error);
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Most frequent rejection reasons, to see where vendor guidance falls short
+  const [vRejectionStatsPath, lRejectionStatsPath] = createVersionedRoutes('/admin/moderation/rejection-stats');
+
+  app.get(vRejectionStatsPath, versionHeadersMiddleware(), authenticate, requirePermission('reports.view'), validate(moderationSchemas.rejectionReasonStats), async (req: Request, res: Response) => {
+    try {
+      return await getRejectionReasonStats(req, res);
+    } catch (error) {
+      console.error("Rejection reason stats error:", error);
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.get(lRejectionStatsPath, [versionHeadersMiddleware(), deprecationMiddleware], authenticate, requirePermission('reports.view'), validate(moderationSchemas.rejectionReasonStats), async (req: Request, res: Response) => {
+    try {
+      return await getRejectionReasonStats(req, res);
+    } catch (error) {
+      console.error("Rejection reason stats error (legacy):", error);
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Automated pre-moderation rules; rules never configured are listed with their defaults
+  const [vPreModerationRulesPath, lPreModerationRulesPath] = createVersionedRoutes('/admin/moderation/rules');
+
+  app.get(vPreModerationRulesPath, versionHeadersMiddleware(), authenticate, requirePermission('moderation.configure'), async (req: Request, res: Response) => {
+    try {
+      return await listPreModerationRules(req, res);
+    } catch (error) {
+      console.error("List pre-moderation rules error:", error);
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.get(lPreModerationRulesPath, [versionHeadersMiddleware(), deprecationMiddleware], authenticate, requirePermission('moderation.configure'), async (req: Request, res: Response) => {
+    try {
+      return await listPreModerationRules(req, res);
+    } catch (error) {
+      console.error("List pre-moderation rules error (legacy):", error);
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  const [vPreModerationRulePath, lPreModerationRulePath] = createVersionedRoutes('/admin/moderation/rules/:key');
+
+  app.put(vPreModerationRulePath, versionHeadersMiddleware(), authenticate, requirePermission('moderation.configure'), validate(moderationSchemas.updatePreModerationRule), async (req: Request, res: Response) => {
+    try {
+      return await updatePreModerationRule(req, res);
+    } catch (error) {
+      console.error("Update pre-moderation rule error:", error);
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.put(lPreModerationRulePath, [versionHeadersMiddleware(), deprecationMiddleware], authenticate, requirePermission('moderation.configure'), validate(moderationSchemas.updatePreModerationRule), async (req: Request, res: Response) => {
+    try {
+      return await updatePreModerationRule(req, res);
+    } catch (error) {
+      console.error("Update pre-moderation rule error (legacy):", error);
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+}
@@ -0,0 +1,158 @@
+import type { Express, Request, Response } from "express";
+import { storage } from "../storage";
+import { authenticate } from "../middleware";
+import { validate } from "../middleware/validationMiddleware";
+import { notificationSchemas } from "../schemas";
+import {
+  createVersionedRoutes,
+  versionHeadersMiddleware,
+  deprecationMiddleware
+} from "../../src/utils/routeVersioning";
+
+async function listNotifications(req: Request, res: Response) {
+  const userId = req.user!.userId;
+  const { unread, before, limit } = req.query as { unread?: string; before?: string; limit?: string };
+
+  const [notifications, unreadCount] = await Promise.all([
+    storage.getNotifications(userId, {
+      unreadOnly: unread === "true",
+      beforeId: before ? parseInt(before, 10) : undefined,
+      limit: limit ? parseInt(limit, 10) : undefined,
+    }),
+    storage.getUnreadNotificationCount(userId),
+  ]);
+
+  return res.status(200).json({ notifications, unreadCount });
+}
+
+async function getUnreadCount(req: Request, res: Response) {
+  const unreadCount = await storage.getUnreadNotificationCount(req.user!.userId);
+  return res.status(200).json({ unreadCount });
+}
+
+async function markRead(req: Request, res: Response) {
+  const notification = await storage.markNotificationRead(req.user!.userId, parseInt(req.params.id, 10));
+  if (!notification) {
+    return res.status(404).json({ message: "Notification not found" });
+  }
+  return res.status(200).json(notification);
+}
+
+async function markAllRead(req: Request, res: Response) {
+  const marked = await storage.markAllNotificationsRead(req.user!.userId);
+  return res.status(200).json({ marked });
+}
+
+async function removeNotification(req: Request, res: Response) {
+  const removed = await storage.deleteNotification(req.user!.userId, parseInt(req.params.id, 10));
+  if (!removed) {
+    return res.status(404).json({ message: "Notification not found" });
+  }
+  return res.status(200).json({ message: "Notification deleted" });
+}
+
+/**
+ * Notification inbox routes for the signed-in user, whatever their user type
+ */
+export function notificationRoutes(app: Express): void {
+  const [vNotificationsPath, lNotificationsPath] = createVersionedRoutes('/notifications');
+
+  app.get(vNotificationsPath, versionHeadersMiddleware(), authenticate, validate(notificationSchemas.list), async (req: Request, res: Response) => {
+    try {
+      return await listNotifications(req, res);
+    } catch (error) {
+      console.error("List notifications error:", error);
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.get(lNotificationsPath, [versionHeadersMiddleware(), deprecationMiddleware], authenticate, validate(notificationSchemas.list), async (req: Request, res: Response) => {
+    try {
+      return await listNotifications(req, res);
+    } catch (error) {
+      console.error("List notifications error (legacy):", error);
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Unread count for the bell badge, cheap enough to poll
+  const [vUnreadCountPath, lUnreadCountPath] = createVersionedRoutes('/notifications/unread-count');
+
+  app.get(vUnreadCountPath, versionHeadersMiddleware(), authenticate, async (req: Request, res: Response) => {
+    try {
+      return await getUnreadCount(req, res);
+    } catch (error) {
+      console.error("Unread notification count error:", error);
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.get(lUnreadCountPath, [versionHeadersMiddleware(), deprecationMiddleware], authenticate, async (req: Request, res: Response) => {
+    try {
+      return await getUnreadCount(req, res);
+    } catch (error) {
+      console.error("Unread notification count error (legacy):", error);
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  const [vReadAllPath, lReadAllPath] = createVersionedRoutes('/notifications/read-all');
+
+  app.put(vReadAllPath, versionHeadersMiddleware(), authenticate, async (req: Request, res: Response) => {
+    try {
+      return await markAllRead(req, res);
+    } catch (error) {
+      console.error("Mark all notifications read error:", error);
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.put(lReadAllPath, [versionHeadersMiddleware(), deprecationMiddleware], authenticate, async (req: Request, res: Response) => {
+    try {
+      return await markAllRead(req, res);
+    } catch (error) {
+      console.error("Mark all notifications read error (legacy):", error);
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  const [vReadPath, lReadPath] = createVersionedRoutes('/notifications/:id/read');
+
+  app.put(vReadPath, versionHeadersMiddleware(), authenticate, validate(notificationSchemas.markRead), async (req: Request, res: Response) => {
+    try {
+      return await markRead(req, res);
+    } catch (error) {
+      console.error("Mark notification read error:", error);
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.put(lReadPath, [versionHeadersMiddleware(), deprecationMiddleware], authenticate, validate(notificationSchemas.markRead), async (req: Request, res: Response) => {
+    try {
+      return await markRead(req, res);
+    } catch (error) {
+      console.error("Mark notification read error (legacy):", error);
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  const [vNotificationPath, lNotificationPath] = createVersionedRoutes('/notifications/:id');
+
+  app.delete(vNotificationPath, versionHeadersMiddleware(), authenticate, validate(notificationSchemas.remove), async (req: Request, res: Response) => {
+    try {
+      return await removeNotification(req, res);
+    } catch (error) {
+      console.error("Delete notification error:", error);
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.delete(lNotificationPath, [versionHeadersMiddleware(), deprecationMiddleware], authenticate, validate(notificationSchemas.remove), async (req: Request, res: Response) => {
+    try {
+      return await removeNotification(req, res);
+    } catch (error) {
+      console.error("Delete notification error (legacy):", error);
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+}
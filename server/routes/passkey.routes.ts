@@ -0,0 +1,94 @@
+import type { Express, NextFunction, Request, Response } from "express";
+import { authenticate } from "../middleware";
+import { validate } from "../middleware/validationMiddleware";
+import { userSchemas } from "../schemas";
+import { apiRateLimiter, securityRateLimiter } from "../middleware/rateLimit";
+import {
+  defaultPasskeyName,
+  listPasskeys,
+  passkeyRegistrationOptions,
+  PasskeyError,
+  registerPasskey,
+  removePasskey,
+  renamePasskey,
+  toPasskeySummary
+} from "../services/Passkeys";
+import {
+  createVersionedRoutes,
+  versionHeadersMiddleware,
+  deprecationMiddleware
+} from "../../src/utils/routeVersioning";
+
+type PasskeyHandler = (req: Request, res: Response) => Promise<unknown>;
+
+// A passkey signs in as whoever registered it, so nobody else, admins included, adds or removes them
+function ownAccountOnly(req: Request, res: Response, next: NextFunction) {
+  if (String(req.user!.userId) !== req.params.userId) {
+    return res.status(403).json({ message: "You can only manage your own passkeys" });
+  }
+  return next();
+}
+
+async function getPasskeys(req: Request, res: Response) {
+  return res.status(200).json(await listPasskeys(String(req.user!.userId)));
+}
+
+async function registrationOptions(req: Request, res: Response) {
+  return res.status(200).json(await passkeyRegistrationOptions({ id: req.user!.userId, email: req.user!.email }));
+}
+
+async function register(req: Request, res: Response) {
+  const name = req.body.name || defaultPasskeyName(req.get('user-agent'));
+  const passkey = await registerPasskey({ id: req.user!.userId, email: req.user!.email }, req.body.credential, name);
+  return res.status(201).json(toPasskeySummary(passkey));
+}
+
+async function rename(req: Request, res: Response) {
+  return res.status(200).json(await renamePasskey(String(req.user!.userId), parseInt(req.params.passkeyId, 10), req.body.name));
+}
+
+async function remove(req: Request, res: Response) {
+  await removePasskey(String(req.user!.userId), parseInt(req.params.passkeyId, 10));
+  return res.status(200).json({ message: "Passkey removed" });
+}
+
+function passkeyHandler(label: string, handler: PasskeyHandler) {
+  return async (req: Request, res: Response) => {
+    try {
+      return await handler(req, res);
+    } catch (error) {
+      if (error instanceof PasskeyError) {
+        return res.status(error.status).json({ message: error.message, code: error.code });
+      }
+      console.error(`${label} error:`, error);
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  };
+}
+
+/**
+ * Passkey management routes: users register passkeys on their devices, rename
+ * and remove them. Signing in with a passkey is in the auth routes.
+ */
+export function passkeyRoutes(app: Express): void {
+  const [vPasskeysPath, lPasskeysPath] = createVersionedRoutes('/user/:userId/passkeys');
+
+  app.get(vPasskeysPath, versionHeadersMiddleware(), authenticate, ownAccountOnly, validate(userSchemas.getPasskeys), passkeyHandler("List passkeys", getPasskeys));
+  app.get(lPasskeysPath, [versionHeadersMiddleware(), deprecationMiddleware], authenticate, ownAccountOnly, validate(userSchemas.getPasskeys), passkeyHandler("List passkeys (legacy)", getPasskeys));
+
+  app.post(vPasskeysPath, versionHeadersMiddleware(), authenticate, ownAccountOnly, securityRateLimiter, validate(userSchemas.registerPasskey), passkeyHandler("Register passkey", register));
+  app.post(lPasskeysPath, [versionHeadersMiddleware(), deprecationMiddleware], authenticate, ownAccountOnly, securityRateLimiter, validate(userSchemas.registerPasskey), passkeyHandler("Register passkey (legacy)", register));
+
+  const [vOptionsPath, lOptionsPath] = createVersionedRoutes('/user/:userId/passkeys/options');
+
+  app.post(vOptionsPath, versionHeadersMiddleware(), authenticate, ownAccountOnly, apiRateLimiter, validate(userSchemas.getPasskeys), passkeyHandler("Passkey registration options", registrationOptions));
+  app.post(lOptionsPath, [versionHeadersMiddleware(), deprecationMiddleware], authenticate, ownAccountOnly, apiRateLimiter, validate(userSchemas.getPasskeys), passkeyHandler("Passkey registration options (legacy)", registrationOptions));
+
+  const [vPasskeyPath, lPasskeyPath] = createVersionedRoutes('/user/:userId/passkeys/:passkeyId');
+
+  app.patch(vPasskeyPath, versionHeadersMiddleware(), authenticate, ownAccountOnly, validate(userSchemas.renamePasskey), passkeyHandler("Rename passkey", rename));
+  app.patch(lPasskeyPath, [versionHeadersMiddleware(), deprecationMiddleware], authenticate, ownAccountOnly, validate(userSchemas.renamePasskey), passkeyHandler("Rename passkey (legacy)", rename));
+
+  app.delete(vPasskeyPath, versionHeadersMiddleware(), authenticate, ownAccountOnly, validate(userSchemas.deletePasskey), passkeyHandler("Remove passkey", remove));
+  app.delete(lPasskeyPath, [versionHeadersMiddleware(), deprecationMiddleware], authenticate, ownAccountOnly, validate(userSchemas.deletePasskey), passkeyHandler("Remove passkey (legacy)", remove));
+}
@@ -0,0 +1,95 @@
+import type { Express, Request, Response } from "express";
+import { storage } from "../storage";
+import { authenticate } from "../middleware";
+import { validate } from "../middleware/validationMiddleware";
+import { pushSchemas } from "../schemas";
+import { getVapidPublicKey } from "../services/WebPush";
+import {
+  createVersionedRoutes,
+  versionHeadersMiddleware,
+  deprecationMiddleware
+} from "../../src/utils/routeVersioning";
+
+function getPublicKeyResponse(res: Response) {
+  const publicKey = getVapidPublicKey();
+  if (!publicKey) {
+    return res.status(503).json({ message: "Push notifications are not configured" });
+  }
+  return res.status(200).json({ publicKey });
+}
+
+async function subscribe(req: Request, res: Response) {
+  const { endpoint, keys } = req.body;
+
+  const subscription = await storage.saveWebPushSubscription(req.user!.userId, {
+    endpoint,
+    p256dh: keys.p256dh,
+    auth: keys.auth,
+    userAgent: req.get('user-agent') ?? null,
+  });
+
+  return res.status(201).json({ id: subscription.id, endpoint: subscription.endpoint });
+}
+
+async function unsubscribe(req: Request, res: Response) {
+  const removed = await storage.deleteWebPushSubscription(req.user!.userId, req.body.endpoint);
+  if (!removed) {
+    return res.status(404).json({ message: "Subscription not found" });
+  }
+  return res.status(200).json({ message: "Subscription removed" });
+}
+
+/**
+ * Web Push subscription routes, one subscription per browser or device
+ */
+export function pushRoutes(app: Express): void {
+  // VAPID public key the browser subscribes with
+  const [vPublicKeyPath, lPublicKeyPath] = createVersionedRoutes('/push/vapid-public-key');
+
+  app.get(vPublicKeyPath, versionHeadersMiddleware(), (_req: Request, res: Response) => {
+    return getPublicKeyResponse(res);
+  });
+
+  app.get(lPublicKeyPath, [versionHeadersMiddleware(), deprecationMiddleware], (_req: Request, res: Response) => {
+    return getPublicKeyResponse(res);
+  });
+
+  // Register and revoke subscriptions for the signed-in user
+  const [vSubscriptionsPath, lSubscriptionsPath] = createVersionedRoutes('/push/subscriptions');
+
+  app.post(vSubscriptionsPath, versionHeadersMiddleware(), authenticate, validate(pushSchemas.subscribe), async (req: Request, res: Response) => {
+    try {
+      return await subscribe(req, res);
+    } catch (error) {
+      console.error("Push subscribe error:", error);
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.post(lSubscriptionsPath, [versionHeadersMiddleware(), deprecationMiddleware], authenticate, validate(pushSchemas.subscribe), async (req: Request, res: Response) => {
+    try {
+      return await subscribe(req, res);
+    } catch (error) {
+      console.error("Push subscribe error (legacy):", error);
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.delete(vSubscriptionsPath, versionHeadersMiddleware(), authenticate, validate(pushSchemas.unsubscribe), async (req: Request, res: Response) => {
+    try {
+      return await unsubscribe(req, res);
+    } catch (error) {
+      console.error("Push unsubscribe error:", error);
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.delete(lSubscriptionsPath, [versionHeadersMiddleware(), deprecationMiddleware], authenticate, validate(pushSchemas.unsubscribe), async (req: Request, res: Response) => {
+    try {
+      return await unsubscribe(req, res);
+    } catch (error) {
+      console.error("Push unsubscribe error (legacy):", error);
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+}
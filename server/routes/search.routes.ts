@@ -0,0 +1,52 @@
+import type { Express, Request, Response } from "express";
+import { storage } from "../storage";
+import { validate } from "../middleware/validationMiddleware";
+import { searchSchemas } from "../schemas";
+import {
+  createVersionedRoutes,
+  versionHeadersMiddleware,
+  deprecationMiddleware
+} from "../../src/utils/routeVersioning";
+
+const DEFAULT_SUGGESTION_LIMIT = 8;
+
+/**
+ * Type-ahead suggestions limited to the deals customers can see
+ */
+async function getSuggestions(req: Request) {
+  const q = req.query.q as string;
+  const limit = req.query.limit ? parseInt(req.query.limit as string, 10) : DEFAULT_SUGGESTION_LIMIT;
+
+  const visibleDeals = await storage.getDeals();
+  const dealIds = new Set(visibleDeals.map(deal => deal.id));
+
+  return storage.suggestDeals(q, { limit, dealIds });
+}
+
+/**
+ * Search routes for the explore page
+ */
+export function searchRoutes(app: Express): void {
+  // Type-ahead suggestions
+  const [vSuggestPath, lSuggestPath] = createVersionedRoutes('/search/suggest');
+
+  app.get(vSuggestPath, [versionHeadersMiddleware(), validate(searchSchemas.suggest)], async (req: Request, res: Response) => {
+    try {
+      const suggestions = await getSuggestions(req);
+      return res.status(200).json({ suggestions });
+    } catch (error) {
+      console.error("Search suggest error:", error);
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.get(lSuggestPath, [versionHeadersMiddleware(), deprecationMiddleware, validate(searchSchemas.suggest)], async (req: Request, res: Response) => {
+    try {
+      const suggestions = await getSuggestions(req);
+      return res.status(200).json({ suggestions });
+    } catch (error) {
+      console.error("Search suggest error (legacy):", error);
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+}
@@ -0,0 +1,72 @@
+import type { Express, Request, Response } from "express";
+import { storage } from "../storage";
+import { authenticate, checkOwnership } from "../middleware";
+import { validate } from "../middleware/validationMiddleware";
+import { userSchemas } from "../schemas";
+import { apiRateLimiter } from "../middleware/rateLimit";
+import { clearSessionCookies, toSessionSummary } from "../services/Sessions";
+import {
+  createVersionedRoutes,
+  versionHeadersMiddleware,
+  deprecationMiddleware
+} from "../../src/utils/routeVersioning";
+
+type SessionHandler = (req: Request, res: Response) => Promise<unknown>;
+
+async function listSessions(req: Request, res: Response) {
+  const sessions = await storage.getActiveSessions(req.params.userId);
+  return res.status(200).json({ sessions: sessions.map(session => toSessionSummary(session, req.user!.sid)) });
+}
+
+async function revokeSession(req: Request, res: Response) {
+  const sessionId = parseInt(req.params.sessionId);
+  const revoked = await storage.revokeSession(req.params.userId, sessionId);
+  if (!revoked) {
+    return res.status(404).json({ message: "Session not found" });
+  }
+
+  // Signing out the device making the request
+  if (sessionId === req.user!.sid) {
+    clearSessionCookies(res);
+  }
+
+  return res.status(200).json({ message: "Device signed out" });
+}
+
+async function revokeOtherSessions(req: Request, res: Response) {
+  // Tokens from before sessions were tracked have no sid, so every session counts as another device
+  const revoked = await storage.revokeOtherSessions(req.params.userId, req.user!.sid ?? 0);
+  return res.status(200).json({ revoked, message: `Signed out of ${revoked} other device${revoked === 1 ? '' : 's'}` });
+}
+
+function sessionHandler(label: string, handler: SessionHandler) {
+  return async (req: Request, res: Response) => {
+    try {
+      return await handler(req, res);
+    } catch (error) {
+      console.error(`${label} error:`, error);
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  };
+}
+
+/**
+ * Signed-in device routes: users list their sessions and sign out one device
+ * or every device but the current one
+ */
+export function sessionRoutes(app: Express): void {
+  const [vSessionsPath, lSessionsPath] = createVersionedRoutes('/user/:userId/sessions');
+
+  app.get(vSessionsPath, versionHeadersMiddleware(), authenticate, checkOwnership('userId'), validate(userSchemas.getUserSessions), sessionHandler("List sessions", listSessions));
+  app.get(lSessionsPath, [versionHeadersMiddleware(), deprecationMiddleware], authenticate, checkOwnership('userId'), validate(userSchemas.getUserSessions), sessionHandler("List sessions (legacy)", listSessions));
+
+  const [vRevokeOthersPath, lRevokeOthersPath] = createVersionedRoutes('/user/:userId/sessions/revoke-others');
+
+  app.post(vRevokeOthersPath, versionHeadersMiddleware(), authenticate, checkOwnership('userId'), apiRateLimiter, validate(userSchemas.getUserSessions), sessionHandler("Revoke other sessions", revokeOtherSessions));
+  app.post(lRevokeOthersPath, [versionHeadersMiddleware(), deprecationMiddleware], authenticate, checkOwnership('userId'), apiRateLimiter, validate(userSchemas.getUserSessions), sessionHandler("Revoke other sessions (legacy)", revokeOtherSessions));
+
+  const [vSessionPath, lSessionPath] = createVersionedRoutes('/user/:userId/sessions/:sessionId');
+
+  app.delete(vSessionPath, versionHeadersMiddleware(), authenticate, checkOwnership('userId'), apiRateLimiter, validate(userSchemas.revokeUserSession), sessionHandler("Revoke session", revokeSession));
+  app.delete(lSessionPath, [versionHeadersMiddleware(), deprecationMiddleware], authenticate, checkOwnership('userId'), apiRateLimiter, validate(userSchemas.revokeUserSession), sessionHandler("Revoke session (legacy)", revokeSession));
+}
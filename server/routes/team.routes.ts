@@ -0,0 +1,170 @@
+import type { Express, Request, Response } from "express";
+import type { BusinessInvitation } from "@shared/schema";
+import { storage } from "../storage";
+import { authenticate, requireBusinessPermission } from "../middleware";
+import { validate } from "../middleware/validationMiddleware";
+import { businessSchemas } from "../schemas";
+import { apiRateLimiter } from "../middleware/rateLimit";
+import { generateToken } from "../auth";
+import { setAuthCookie } from "../utils/cookieUtils";
+import { authCookieConfig, withCustomAge } from "../utils/cookieConfig";
+import { sendBusinessInvitationEmail } from "../services/Mailer";
+import {
+  acceptBusinessInvitation,
+  changeBusinessMemberRole,
+  getUsableInvitation,
+  inviteBusinessMember,
+  removeBusinessMember,
+  transferBusinessOwnership,
+  BusinessMembershipError
+} from "../services/BusinessMembers";
+import {
+  createVersionedRoutes,
+  versionHeadersMiddleware,
+  deprecationMiddleware
+} from "../../src/utils/routeVersioning";
+
+type TeamHandler = (req: Request, res: Response) => Promise<unknown>;
+
+// Invitations as shown to the owner; the token hash never leaves the server
+function toInvitationSummary({ tokenHash, ...invitation }: BusinessInvitation) {
+  return invitation;
+}
+
+async function listTeam(req: Request, res: Response) {
+  const members = await storage.getBusinessTeam(parseInt(req.params.businessId));
+  return res.status(200).json({ members });
+}
+
+async function listInvitations(req: Request, res: Response) {
+  const invitations = await storage.getPendingBusinessInvitations(req.businessMembership!.business.id);
+  return res.status(200).json({ invitations: invitations.map(toInvitationSummary) });
+}
+
+async function inviteMember(req: Request, res: Response) {
+  const { business } = req.businessMembership!;
+  const { invitation, token } = await inviteBusinessMember(business, req.body, req.user!.userId);
+
+  const inviter = await storage.getUser(req.user!.userId);
+  await sendBusinessInvitationEmail(invitation, business, inviter ?? { firstName: business.businessName, lastName: "" }, token);
+
+  return res.status(201).json({ invitation: toInvitationSummary(invitation) });
+}
+
+async function revokeInvitation(req: Request, res: Response) {
+  const revoked = await storage.revokeBusinessInvitation(req.businessMembership!.business.id, parseInt(req.params.invitationId));
+  if (!revoked) {
+    return res.status(404).json({ message: "Invitation not found" });
+  }
+
+  return res.status(200).json({ message: "Invitation cancelled" });
+}
+
+async function updateMemberRole(req: Request, res: Response) {
+  await changeBusinessMemberRole(req.businessMembership!.business, parseInt(req.params.userId), req.body.role);
+  return res.status(200).json({ message: "Role updated" });
+}
+
+async function removeMember(req: Request, res: Response) {
+  await removeBusinessMember(req.businessMembership!.business, parseInt(req.params.userId));
+  return res.status(200).json({ message: "Team member removed" });
+}
+
+async function transferOwnership(req: Request, res: Response) {
+  const business = await transferBusinessOwnership(req.businessMembership!.business, req.body.userId);
+  return res.status(200).json({ business, message: "Ownership transferred; you are now a manager" });
+}
+
+// Lets the join page show which business and role the link is for before signing in
+async function previewInvitation(req: Request, res: Response) {
+  const { invitation, business } = await getUsableInvitation(req.body.token);
+  return res.status(200).json({
+    businessName: business.businessName,
+    role: invitation.role,
+    email: invitation.email,
+    expiresAt: invitation.expiresAt,
+  });
+}
+
+async function acceptInvitation(req: Request, res: Response) {
+  const user = await storage.getUser(req.user!.userId);
+  if (!user) {
+    return res.status(404).json({ message: "User not found" });
+  }
+
+  const { business, role } = await acceptBusinessInvitation(req.body.token, user);
+
+  // Customer accounts become business accounts; sign them in again as one
+  const updatedUser = await storage.getUser(user.id);
+  if (updatedUser && updatedUser.userType !== req.user!.userType) {
+    setAuthCookie(res, 'auth_token', generateToken(updatedUser, req.user!.sid), withCustomAge(authCookieConfig, 24 * 60 * 60 * 1000));
+  }
+
+  return res.status(200).json({ business: { id: business.id, businessName: business.businessName }, role });
+}
+
+/**
+ * Run a team handler, turning membership errors into their HTTP status
+ */
+function teamHandler(label: string, handler: TeamHandler) {
+  return async (req: Request, res: Response) => {
+    try {
+      return await handler(req, res);
+    } catch (error) {
+      if (error instanceof BusinessMembershipError) {
+        return res.status(error.status).json({ message: error.message, code: error.code });
+      }
+      console.error(`${label} error:`, error);
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  };
+}
+
+/**
+ * Business team routes: owners invite managers and staff by email, change
+ * their roles, remove them and transfer ownership; invitees accept by link
+ */
+export function teamRoutes(app: Express): void {
+  // Everyone on the team can see who else is on it; every role can verify redemptions
+  const [vTeamPath, lTeamPath] = createVersionedRoutes('/business/:businessId/members');
+
+  app.get(vTeamPath, versionHeadersMiddleware(), authenticate, requireBusinessPermission('redemptions.verify', 'businessId'), validate(businessSchemas.getBusinessTeam), teamHandler("List business team", listTeam));
+  app.get(lTeamPath, [versionHeadersMiddleware(), deprecationMiddleware], authenticate, requireBusinessPermission('redemptions.verify', 'businessId'), validate(businessSchemas.getBusinessTeam), teamHandler("List business team (legacy)", listTeam));
+
+  const [vMemberPath, lMemberPath] = createVersionedRoutes('/business/:businessId/members/:userId');
+
+  app.put(vMemberPath, versionHeadersMiddleware(), authenticate, requireBusinessPermission('members.manage', 'businessId'), apiRateLimiter, validate(businessSchemas.updateBusinessMemberRole), teamHandler("Update business member role", updateMemberRole));
+  app.put(lMemberPath, [versionHeadersMiddleware(), deprecationMiddleware], authenticate, requireBusinessPermission('members.manage', 'businessId'), apiRateLimiter, validate(businessSchemas.updateBusinessMemberRole), teamHandler("Update business member role (legacy)", updateMemberRole));
+
+  app.delete(vMemberPath, versionHeadersMiddleware(), authenticate, requireBusinessPermission('members.manage', 'businessId'), apiRateLimiter, validate(businessSchemas.removeBusinessMember), teamHandler("Remove business member", removeMember));
+  app.delete(lMemberPath, [versionHeadersMiddleware(), deprecationMiddleware], authenticate, requireBusinessPermission('members.manage', 'businessId'), apiRateLimiter, validate(businessSchemas.removeBusinessMember), teamHandler("Remove business member (legacy)", removeMember));
+
+  const [vTransferPath, lTransferPath] = createVersionedRoutes('/business/:businessId/transfer-ownership');
+
+  app.post(vTransferPath, versionHeadersMiddleware(), authenticate, requireBusinessPermission('members.manage', 'businessId'), apiRateLimiter, validate(businessSchemas.transferBusinessOwnership), teamHandler("Transfer business ownership", transferOwnership));
+  app.post(lTransferPath, [versionHeadersMiddleware(), deprecationMiddleware], authenticate, requireBusinessPermission('members.manage', 'businessId'), apiRateLimiter, validate(businessSchemas.transferBusinessOwnership), teamHandler("Transfer business ownership (legacy)", transferOwnership));
+
+  const [vInvitationsPath, lInvitationsPath] = createVersionedRoutes('/business/:businessId/invitations');
+
+  app.get(vInvitationsPath, versionHeadersMiddleware(), authenticate, requireBusinessPermission('members.manage', 'businessId'), validate(businessSchemas.getBusinessTeam), teamHandler("List business invitations", listInvitations));
+  app.get(lInvitationsPath, [versionHeadersMiddleware(), deprecationMiddleware], authenticate, requireBusinessPermission('members.manage', 'businessId'), validate(businessSchemas.getBusinessTeam), teamHandler("List business invitations (legacy)", listInvitations));
+
+  app.post(vInvitationsPath, versionHeadersMiddleware(), authenticate, requireBusinessPermission('members.manage', 'businessId'), apiRateLimiter, validate(businessSchemas.inviteBusinessMember), teamHandler("Invite business member", inviteMember));
+  app.post(lInvitationsPath, [versionHeadersMiddleware(), deprecationMiddleware], authenticate, requireBusinessPermission('members.manage', 'businessId'), apiRateLimiter, validate(businessSchemas.inviteBusinessMember), teamHandler("Invite business member (legacy)", inviteMember));
+
+  const [vInvitationPath, lInvitationPath] = createVersionedRoutes('/business/:businessId/invitations/:invitationId');
+
+  app.delete(vInvitationPath, versionHeadersMiddleware(), authenticate, requireBusinessPermission('members.manage', 'businessId'), apiRateLimiter, validate(businessSchemas.revokeBusinessInvitation), teamHandler("Revoke business invitation", revokeInvitation));
+  app.delete(lInvitationPath, [versionHeadersMiddleware(), deprecationMiddleware], authenticate, requireBusinessPermission('members.manage', 'businessId'), apiRateLimiter, validate(businessSchemas.revokeBusinessInvitation), teamHandler("Revoke business invitation (legacy)", revokeInvitation));
+
+  // The invitee's side; the token comes from the emailed link
+  const [vPreviewPath, lPreviewPath] = createVersionedRoutes('/business-invitations/preview');
+
+  app.post(vPreviewPath, versionHeadersMiddleware(), apiRateLimiter, validate(businessSchemas.businessInvitationToken), teamHandler("Preview business invitation", previewInvitation));
+  app.post(lPreviewPath, [versionHeadersMiddleware(), deprecationMiddleware], apiRateLimiter, validate(businessSchemas.businessInvitationToken), teamHandler("Preview business invitation (legacy)", previewInvitation));
+
+  const [vAcceptPath, lAcceptPath] = createVersionedRoutes('/business-invitations/accept');
+
+  app.post(vAcceptPath, versionHeadersMiddleware(), authenticate, apiRateLimiter, validate(businessSchemas.businessInvitationToken), teamHandler("Accept business invitation", acceptInvitation));
+  app.post(lAcceptPath, [versionHeadersMiddleware(), deprecationMiddleware], authenticate, apiRateLimiter, validate(businessSchemas.businessInvitationToken), teamHandler("Accept business invitation (legacy)", acceptInvitation));
+}
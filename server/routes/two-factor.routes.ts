@@ -0,0 +1,99 @@
+import type { Express, NextFunction, Request, Response } from "express";
+import { authenticate } from "../middleware";
+import { validate } from "../middleware/validationMiddleware";
+import { userSchemas } from "../schemas";
+import { apiRateLimiter, securityRateLimiter } from "../middleware/rateLimit";
+import {
+  beginTwoFactorEnrolment,
+  confirmTwoFactorEnrolment,
+  disableTwoFactor,
+  getTwoFactorStatus,
+  regenerateRecoveryCodes,
+  TwoFactorError,
+  type TwoFactorAccount
+} from "../services/TwoFactor";
+import {
+  createVersionedRoutes,
+  versionHeadersMiddleware,
+  deprecationMiddleware
+} from "../../src/utils/routeVersioning";
+
+type TwoFactorHandler = (req: Request, res: Response) => Promise<unknown>;
+
+function accountOf(req: Request): TwoFactorAccount {
+  return { id: req.user!.userId, email: req.user!.email, userType: req.user!.userType };
+}
+
+// Unlike other user routes admins don't get through here: they reset two-factor from the admin side instead
+function ownAccountOnly(req: Request, res: Response, next: NextFunction) {
+  if (String(req.user!.userId) !== req.params.userId) {
+    return res.status(403).json({ message: "You can only change your own two-factor settings" });
+  }
+  return next();
+}
+
+async function getStatus(req: Request, res: Response) {
+  return res.status(200).json(await getTwoFactorStatus(accountOf(req)));
+}
+
+async function startSetup(req: Request, res: Response) {
+  return res.status(200).json(await beginTwoFactorEnrolment(accountOf(req)));
+}
+
+async function confirmSetup(req: Request, res: Response) {
+  const recoveryCodes = await confirmTwoFactorEnrolment(req.user!.userId, req.body.code);
+  return res.status(200).json({ message: "Two-factor authentication is on", recoveryCodes });
+}
+
+async function newRecoveryCodes(req: Request, res: Response) {
+  const recoveryCodes = await regenerateRecoveryCodes(req.user!.userId, req.body.code);
+  return res.status(200).json({ message: "New recovery codes issued; the old ones no longer work", recoveryCodes });
+}
+
+async function turnOff(req: Request, res: Response) {
+  await disableTwoFactor(accountOf(req), req.body.code);
+  return res.status(200).json({ message: "Two-factor authentication is off" });
+}
+
+function twoFactorHandler(label: string, handler: TwoFactorHandler) {
+  return async (req: Request, res: Response) => {
+    try {
+      return await handler(req, res);
+    } catch (error) {
+      if (error instanceof TwoFactorError) {
+        return res.status(error.status).json({ message: error.message, code: error.code });
+      }
+      console.error(`${label} error:`, error);
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  };
+}
+
+/**
+ * Two-factor settings routes: users turn TOTP two-factor on and off and
+ * replace their recovery codes. Signing in with a code is in the auth routes.
+ */
+export function twoFactorRoutes(app: Express): void {
+  const [vTwoFactorPath, lTwoFactorPath] = createVersionedRoutes('/user/:userId/two-factor');
+
+  app.get(vTwoFactorPath, versionHeadersMiddleware(), authenticate, ownAccountOnly, validate(userSchemas.getTwoFactor), twoFactorHandler("Two-factor status", getStatus));
+  app.get(lTwoFactorPath, [versionHeadersMiddleware(), deprecationMiddleware], authenticate, ownAccountOnly, validate(userSchemas.getTwoFactor), twoFactorHandler("Two-factor status (legacy)", getStatus));
+
+  app.delete(vTwoFactorPath, versionHeadersMiddleware(), authenticate, ownAccountOnly, securityRateLimiter, validate(userSchemas.twoFactorCode), twoFactorHandler("Disable two-factor", turnOff));
+  app.delete(lTwoFactorPath, [versionHeadersMiddleware(), deprecationMiddleware], authenticate, ownAccountOnly, securityRateLimiter, validate(userSchemas.twoFactorCode), twoFactorHandler("Disable two-factor (legacy)", turnOff));
+
+  const [vSetupPath, lSetupPath] = createVersionedRoutes('/user/:userId/two-factor/setup');
+
+  app.post(vSetupPath, versionHeadersMiddleware(), authenticate, ownAccountOnly, apiRateLimiter, validate(userSchemas.getTwoFactor), twoFactorHandler("Start two-factor setup", startSetup));
+  app.post(lSetupPath, [versionHeadersMiddleware(), deprecationMiddleware], authenticate, ownAccountOnly, apiRateLimiter, validate(userSchemas.getTwoFactor), twoFactorHandler("Start two-factor setup (legacy)", startSetup));
+
+  const [vConfirmPath, lConfirmPath] = createVersionedRoutes('/user/:userId/two-factor/confirm');
+
+  app.post(vConfirmPath, versionHeadersMiddleware(), authenticate, ownAccountOnly, securityRateLimiter, validate(userSchemas.twoFactorCode), twoFactorHandler("Confirm two-factor setup", confirmSetup));
+  app.post(lConfirmPath, [versionHeadersMiddleware(), deprecationMiddleware], authenticate, ownAccountOnly, securityRateLimiter, validate(userSchemas.twoFactorCode), twoFactorHandler("Confirm two-factor setup (legacy)", confirmSetup));
+
+  const [vRecoveryCodesPath, lRecoveryCodesPath] = createVersionedRoutes('/user/:userId/two-factor/recovery-codes');
+
+  app.post(vRecoveryCodesPath, versionHeadersMiddleware(), authenticate, ownAccountOnly, securityRateLimiter, validate(userSchemas.twoFactorCode), twoFactorHandler("Regenerate recovery codes", newRecoveryCodes));
+  app.post(lRecoveryCodesPath, [versionHeadersMiddleware(), deprecationMiddleware], authenticate, ownAccountOnly, securityRateLimiter, validate(userSchemas.twoFactorCode), twoFactorHandler("Regenerate recovery codes (legacy)", newRecoveryCodes));
+}
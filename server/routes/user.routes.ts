@@ -1,5 +1,6 @@
 import type { Express, Request, Response } from "express";
-import { storage } from "../storage";
+import { z } from "zod";
+import { storage, RedemptionError } from "../storage";
 import { authenticate, checkOwnership } from "../middleware";
 import { validate } from "../middleware/validationMiddleware";
 import { userSchemas, authSchemas, ratingSchemas } from "../schemas";
@@ -10,6 +11,39 @@ import {
   deprecationMiddleware
 } from "../../src/utils/routeVersioning";
 
+type OnboardingPreferences = z.infer<typeof userSchemas.savePreferences>['body']['preferences'];
+
+/**
+ * Save onboarding choices: interests and home location for personalization,
+ * and notification choices as notification preferences
+ */
+async function saveOnboardingPreferences(userId: number, preferences: OnboardingPreferences) {
+  const { categories, location, notifications } = preferences;
+
+  const saved = await storage.updateUserPreferences(userId, {
+    ...(categories && {
+      categories: Object.keys(categories).filter(category => categories[category])
+    }),
+    ...(location?.radius !== undefined && { searchRadiusMiles: location.radius }),
+    ...(location?.homeLocation !== undefined && {
+      homeLatitude: location.homeLocation?.latitude ?? null,
+      homeLongitude: location.homeLocation?.longitude ?? null
+    })
+  });
+
+  if (notifications) {
+    await storage.updateNotificationPreferences(userId, {
+      ...(notifications.emailEnabled !== undefined && { emailNotifications: notifications.emailEnabled }),
+      ...(notifications.pushEnabled !== undefined && { pushNotifications: notifications.pushEnabled }),
+      ...(notifications.dealAlerts !== undefined && { dealAlerts: notifications.dealAlerts }),
+      ...(notifications.weeklyDigest !== undefined && { weeklyNewsletter: notifications.weeklyDigest }),
+      ...(notifications.expiringDeals !== undefined && { expiringDealReminders: notifications.expiringDeals })
+    });
+  }
+
+  return saved;
+}
+
 /**
  * User routes for profile, favorites, redemptions, and preferences
  */
@@ -545,13 +579,14 @@ export function userRoutes(app: Express): void {
         const userId = parseInt(req.params.userId);
         const { dealId } = req.body;
         
+        // createRedemption enforces deal limits and increments the counter atomically
         const redemption = await storage.createRedemption(userId, dealId);
         
-        // Increment deal redemptions count
-        await storage.incrementDealRedemptions(dealId);
-        
         return res.status(201).json(redemption);
       } catch (error) {
+        if (error instanceof RedemptionError) {
+          return res.status(409).json({ message: error.message, code: error.code });
+        }
         console.error("Add user redemption error:", error);
         return res.status(500).json({ message: "Internal server error" });
       }
@@ -569,13 +604,14 @@ export function userRoutes(app: Express): void {
         const userId = parseInt(req.params.userId);
         const { dealId } = req.body;
         
+        // createRedemption enforces deal limits and increments the counter atomically
         const redemption = await storage.createRedemption(userId, dealId);
         
-        // Increment deal redemptions count
-        await storage.incrementDealRedemptions(dealId);
-        
         return res.status(201).json(redemption);
       } catch (error) {
+        if (error instanceof RedemptionError) {
+          return res.status(409).json({ message: error.message, code: error.code });
+        }
         console.error("Add user redemption error (legacy):", error);
         return res.status(500).json({ message: "Internal server error" });
       }
@@ -663,6 +699,174 @@ export function userRoutes(app: Express): void {
     }
   );
   
+  // Onboarding personalization preferences (interests and home location)
+  const [vOnboardingPrefsPath, lOnboardingPrefsPath] = createVersionedRoutes('/user/:userId/preferences');
+  
+  app.get(
+    vOnboardingPrefsPath,
+    versionHeadersMiddleware(),
+    authenticate,
+    checkOwnership('userId'),
+    validate(userSchemas.getPreferences),
+    async (req: Request, res: Response) => {
+      try {
+        const preferences = await storage.getUserPreferences(parseInt(req.params.userId));
+        if (!preferences) {
+          return res.status(404).json({ message: "Preferences not found" });
+        }
+        return res.status(200).json(preferences);
+      } catch (error) {
+        console.error("Get preferences error:", error);
+        return res.status(500).json({ message: "Internal server error" });
+      }
+    }
+  );
+  
+  app.get(
+    lOnboardingPrefsPath,
+    [versionHeadersMiddleware(), deprecationMiddleware],
+    authenticate,
+    checkOwnership('userId'),
+    validate(userSchemas.getPreferences),
+    async (req: Request, res: Response) => {
+      try {
+        const preferences = await storage.getUserPreferences(parseInt(req.params.userId));
+        if (!preferences) {
+          return res.status(404).json({ message: "Preferences not found" });
+        }
+        return res.status(200).json(preferences);
+      } catch (error) {
+        console.error("Get preferences error (legacy):", error);
+        return res.status(500).json({ message: "Internal server error" });
+      }
+    }
+  );
+  
+  app.post(
+    vOnboardingPrefsPath,
+    versionHeadersMiddleware(),
+    authenticate,
+    checkOwnership('userId'),
+    validate(userSchemas.savePreferences),
+    async (req: Request, res: Response) => {
+      try {
+        const preferences = await saveOnboardingPreferences(parseInt(req.params.userId), req.body.preferences);
+        return res.status(200).json(preferences);
+      } catch (error) {
+        console.error("Save preferences error:", error);
+        return res.status(500).json({ message: "Internal server error" });
+      }
+    }
+  );
+  
+  app.post(
+    lOnboardingPrefsPath,
+    [versionHeadersMiddleware(), deprecationMiddleware],
+    authenticate,
+    checkOwnership('userId'),
+    validate(userSchemas.savePreferences),
+    async (req: Request, res: Response) => {
+      try {
+        const preferences = await saveOnboardingPreferences(parseInt(req.params.userId), req.body.preferences);
+        return res.status(200).json(preferences);
+      } catch (error) {
+        console.error("Save preferences error (legacy):", error);
+        return res.status(500).json({ message: "Internal server error" });
+      }
+    }
+  );
+  
+  // Expiring-deal reminders shown in the app
+  const [vDealRemindersPath, lDealRemindersPath] = createVersionedRoutes('/user/:userId/deal-reminders');
+  
+  app.get(
+    vDealRemindersPath,
+    versionHeadersMiddleware(),
+    authenticate,
+    checkOwnership('userId'),
+    validate(userSchemas.getDealReminders),
+    async (req: Request, res: Response) => {
+      try {
+        const userId = parseInt(req.params.userId);
+        
+        const reminders = await storage.getUnreadDealReminders(userId);
+        return res.status(200).json(reminders);
+      } catch (error) {
+        console.error("Get deal reminders error:", error);
+        return res.status(500).json({ message: "Internal server error" });
+      }
+    }
+  );
+  
+  app.get(
+    lDealRemindersPath,
+    [versionHeadersMiddleware(), deprecationMiddleware],
+    authenticate,
+    checkOwnership('userId'),
+    validate(userSchemas.getDealReminders),
+    async (req: Request, res: Response) => {
+      try {
+        const userId = parseInt(req.params.userId);
+        
+        const reminders = await storage.getUnreadDealReminders(userId);
+        return res.status(200).json(reminders);
+      } catch (error) {
+        console.error("Get deal reminders error (legacy):", error);
+        return res.status(500).json({ message: "Internal server error" });
+      }
+    }
+  );
+  
+  const [vDealReminderReadPath, lDealReminderReadPath] = createVersionedRoutes('/user/:userId/deal-reminders/:reminderId/read');
+  
+  app.put(
+    vDealReminderReadPath,
+    versionHeadersMiddleware(),
+    authenticate,
+    checkOwnership('userId'),
+    validate(userSchemas.markDealReminderRead),
+    async (req: Request, res: Response) => {
+      try {
+        const userId = parseInt(req.params.userId);
+        const reminderId = parseInt(req.params.reminderId);
+        
+        const reminder = await storage.markDealReminderRead(userId, reminderId);
+        if (!reminder) {
+          return res.status(404).json({ message: "Reminder not found" });
+        }
+        
+        return res.status(200).json(reminder);
+      } catch (error) {
+        console.error("Mark deal reminder read error:", error);
+        return res.status(500).json({ message: "Internal server error" });
+      }
+    }
+  );
+  
+  app.put(
+    lDealReminderReadPath,
+    [versionHeadersMiddleware(), deprecationMiddleware],
+    authenticate,
+    checkOwnership('userId'),
+    validate(userSchemas.markDealReminderRead),
+    async (req: Request, res: Response) => {
+      try {
+        const userId = parseInt(req.params.userId);
+        const reminderId = parseInt(req.params.reminderId);
+        
+        const reminder = await storage.markDealReminderRead(userId, reminderId);
+        if (!reminder) {
+          return res.status(404).json({ message: "Reminder not found" });
+        }
+        
+        return res.status(200).json(reminder);
+      } catch (error) {
+        console.error("Mark deal reminder read error (legacy):", error);
+        return res.status(500).json({ message: "Internal server error" });
+      }
+    }
+  );
+  
   // User ratings routes
   // Get all ratings posted by a user
   const [vUserRatingsPath, lUserRatingsPath] = createVersionedRoutes('/user/:userId/ratings');
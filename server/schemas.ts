@@ -17,7 +17,47 @@ import {
   passwordResetRequestSchema,
   passwordResetVerifySchema
 } from '../shared/schema';
+import { DEAL_REVISION_FIELDS } from '../shared/dealRevisions';
+import { MODERATION_TARGET_TYPES } from '../shared/moderation';
+import { PRE_MODERATION_RULE_KEYS, PRE_MODERATION_ACTIONS } from '../shared/preModeration';
+import { BULK_DEAL_ACTIONS, BULK_BUSINESS_ACTIONS, BULK_USER_ACTIONS, MAX_BULK_ITEMS } from '../shared/bulkActions';
+import { ADMIN_AUDIT_TARGET_TYPES } from '../shared/adminAudit';
+import { STAFF_ROLES } from '../shared/permissions';
+import { INVITABLE_BUSINESS_ROLES } from '../shared/businessMembers';
+import { PASSKEY_NAME_MAX_LENGTH } from '../shared/passkeys';
 import { passwordSchema } from './utils/passwordValidation';
+import { parseBbox } from './utils/geo';
+import { isP256PublicKey, isPushAuthSecret, isKnownPushServiceEndpoint } from './utils/webPush';
+import { DEAL_SORT_OPTIONS } from './utils/dealPagination';
+import { MAX_PAGE_SIZE } from './utils/pagination';
+
+// =========== Passkey Schemas ===========
+
+// WebAuthn responses from the browser, binary fields as base64url
+const base64url = z.string().min(1).max(16384).regex(/^[A-Za-z0-9_-]+$/, "Must be base64url");
+
+export const passkeyRegistrationResponseSchema = z.object({
+  id: base64url,
+  rawId: base64url,
+  type: z.literal('public-key'),
+  response: z.object({
+    clientDataJSON: base64url,
+    attestationObject: base64url,
+    transports: z.array(z.string().max(32)).max(10).optional()
+  })
+});
+
+export const passkeyAuthenticationResponseSchema = z.object({
+  id: base64url,
+  rawId: base64url,
+  type: z.literal('public-key'),
+  response: z.object({
+    clientDataJSON: base64url,
+    authenticatorData: base64url,
+    signature: base64url,
+    userHandle: z.string().max(256).nullable().optional()
+  })
+});
 
 // =========== Auth Schemas ===========
 
@@ -194,6 +234,136 @@ export const userSchemas = {
       })
     }),
     body: insertUserNotificationPreferencesSchema.omit({ id: true, userId: true } as const).partial()
+  }),
+
+  // Unread in-app expiring-deal reminders
+  getDealReminders: z.object({
+    params: z.object({
+      userId: z.string().refine(val => !isNaN(parseInt(val, 10)), {
+        message: "User ID must be a valid number"
+      })
+    })
+  }),
+
+  // Mark an expiring-deal reminder as read
+  markDealReminderRead: z.object({
+    params: z.object({
+      userId: z.string().refine(val => !isNaN(parseInt(val, 10)), {
+        message: "User ID must be a valid number"
+      }),
+      reminderId: z.string().refine(val => !isNaN(parseInt(val, 10)), {
+        message: "Reminder ID must be a valid number"
+      })
+    })
+  }),
+
+  // Get onboarding personalization preferences
+  getPreferences: z.object({
+    params: z.object({
+      userId: z.string().refine(val => !isNaN(parseInt(val, 10)), {
+        message: "User ID must be a valid number"
+      })
+    })
+  }),
+
+  // Save onboarding preferences; categories are a map of category to selected
+  savePreferences: z.object({
+    params: z.object({
+      userId: z.string().refine(val => !isNaN(parseInt(val, 10)), {
+        message: "User ID must be a valid number"
+      })
+    }),
+    body: z.object({
+      userType: z.string().optional(),
+      preferences: z.object({
+        categories: z.record(z.boolean()).optional(),
+        location: z.object({
+          radius: z.number().int().min(1).max(50).optional(),
+          homeLocation: z.object({
+            latitude: z.number().min(-90).max(90),
+            longitude: z.number().min(-180).max(180)
+          }).nullable().optional()
+        }).passthrough().optional(),
+        notifications: z.object({
+          pushEnabled: z.boolean().optional(),
+          emailEnabled: z.boolean().optional(),
+          dealAlerts: z.boolean().optional(),
+          weeklyDigest: z.boolean().optional(),
+          expiringDeals: z.boolean().optional()
+        }).passthrough().optional()
+      }).passthrough()
+    })
+  }),
+
+  // Signed-in devices
+  // Sessions are kept per profile, whose IDs aren't always numeric
+  getUserSessions: z.object({
+    params: z.object({
+      userId: z.string().min(1, "User ID is required")
+    })
+  }),
+
+  revokeUserSession: z.object({
+    params: z.object({
+      userId: z.string().min(1, "User ID is required"),
+      sessionId: z.string().refine(val => !isNaN(parseInt(val, 10)), {
+        message: "Session ID must be a valid number"
+      })
+    })
+  }),
+
+  // Two-factor state is kept per profile, whose IDs aren't always numeric
+  getTwoFactor: z.object({
+    params: z.object({
+      userId: z.string().min(1, "User ID is required")
+    })
+  }),
+
+  twoFactorCode: z.object({
+    params: z.object({
+      userId: z.string().min(1, "User ID is required")
+    }),
+    body: z.object({
+      code: z.string().trim().min(6, "Enter the code from your authenticator app").max(20)
+    })
+  }),
+
+  // Passkeys, like two-factor, belong to the profile
+  getPasskeys: z.object({
+    params: z.object({
+      userId: z.string().min(1, "User ID is required")
+    })
+  }),
+
+  registerPasskey: z.object({
+    params: z.object({
+      userId: z.string().min(1, "User ID is required")
+    }),
+    body: z.object({
+      credential: passkeyRegistrationResponseSchema,
+      name: z.string().trim().max(PASSKEY_NAME_MAX_LENGTH).optional()
+    })
+  }),
+
+  renamePasskey: z.object({
+    params: z.object({
+      userId: z.string().min(1, "User ID is required"),
+      passkeyId: z.string().refine(val => !isNaN(parseInt(val, 10)), {
+        message: "Passkey ID must be a valid number"
+      })
+    }),
+    body: z.object({
+      name: z.string().trim().min(1, "Name is required").max(PASSKEY_NAME_MAX_LENGTH)
+    })
+  }),
+
+  deletePasskey: z.object({
+    params: z.object({
+      userId: z.string().min(1, "User ID is required"),
+      passkeyId: z.string().refine(val => !isNaN(parseInt(val, 10)), {
+        message: "Passkey ID must be a valid number"
+      })
+    })
   })
 };
 
@@ -301,26 +471,134 @@ export const businessSchemas = {
         message: "Business ID must be a valid number"
       })
     })
+  }),
+
+  // Business team
+  getBusinessTeam: z.object({
+    params: z.object({
+      businessId: z.string().refine(val => !isNaN(parseInt(val, 10)), {
+        message: "Business ID must be a valid number"
+      })
+    })
+  }),
+
+  inviteBusinessMember: z.object({
+    params: z.object({
+      businessId: z.string().refine(val => !isNaN(parseInt(val, 10)), {
+        message: "Business ID must be a valid number"
+      })
+    }),
+    body: z.object({
+      email: z.string().email("Invalid email address"),
+      role: z.enum(INVITABLE_BUSINESS_ROLES)
+    })
+  }),
+
+  revokeBusinessInvitation: z.object({
+    params: z.object({
+      businessId: z.string().refine(val => !isNaN(parseInt(val, 10)), {
+        message: "Business ID must be a valid number"
+      }),
+      invitationId: z.string().refine(val => !isNaN(parseInt(val, 10)), {
+        message: "Invitation ID must be a valid number"
+      })
+    })
+  }),
+
+  updateBusinessMemberRole: z.object({
+    params: z.object({
+      businessId: z.string().refine(val => !isNaN(parseInt(val, 10)), {
+        message: "Business ID must be a valid number"
+      }),
+      userId: z.string().refine(val => !isNaN(parseInt(val, 10)), {
+        message: "User ID must be a valid number"
+      })
+    }),
+    body: z.object({
+      role: z.enum(INVITABLE_BUSINESS_ROLES)
+    })
+  }),
+
+  removeBusinessMember: z.object({
+    params: z.object({
+      businessId: z.string().refine(val => !isNaN(parseInt(val, 10)), {
+        message: "Business ID must be a valid number"
+      }),
+      userId: z.string().refine(val => !isNaN(parseInt(val, 10)), {
+        message: "User ID must be a valid number"
+      })
+    })
+  }),
+
+  transferBusinessOwnership: z.object({
+    params: z.object({
+      businessId: z.string().refine(val => !isNaN(parseInt(val, 10)), {
+        message: "Business ID must be a valid number"
+      })
+    }),
+    body: z.object({
+      userId: z.number().int().positive()
+    })
+  }),
+
+  // Invitation links carry the token; it's only ever sent in the body
+  businessInvitationToken: z.object({
+    body: z.object({
+      token: z.string().min(1, "Invitation token is required")
+    })
   })
 };
 
 // =========== Deal Schemas ===========
 
+// Sort, cursor and page size params shared by deal listings
+const dealPageQueryShape = {
+  sort: z.enum(DEAL_SORT_OPTIONS, {
+    invalid_type_error: `Sort must be one of: ${DEAL_SORT_OPTIONS.join(', ')}`
+  }).optional(),
+  cursor: z.string().optional(),
+  limit: z.string().refine(val => !isNaN(parseInt(val, 10)) && parseInt(val, 10) >= 1 && parseInt(val, 10) <= MAX_PAGE_SIZE, {
+    message: `Limit must be a number between 1 and ${MAX_PAGE_SIZE}`
+  }).optional()
+};
+
 export const dealSchemas = {
   // Get all deals
   getDeals: z.object({
     query: z.object({
+      ...dealPageQueryShape,
       featured: z.enum(["true", "false"]).optional(),
-      limit: z.string().refine(val => !isNaN(parseInt(val, 10)), {
-        message: "Limit must be a valid number"
-      }).optional(),
       category: z.string().optional(),
       search: z.string().optional(),
       availableToday: z.enum(["true", "false"]).optional(),
+      availableNow: z.enum(["true", "false"]).optional(),
+      openNow: z.enum(["true", "false"]).optional(),
       dayOfWeek: z.string().refine(val => !isNaN(parseInt(val, 10)) && parseInt(val, 10) >= 0 && parseInt(val, 10) <= 6, {
         message: "Day of week must be a number between 0 (Sunday) and 6 (Saturday)"
+      }).optional(),
+      discountType: z.string().optional(),
+      lat: z.string().refine(val => !isNaN(parseFloat(val)) && Math.abs(parseFloat(val)) <= 90, {
+        message: "Latitude must be a number between -90 and 90"
+      }).optional(),
+      lng: z.string().refine(val => !isNaN(parseFloat(val)) && Math.abs(parseFloat(val)) <= 180, {
+        message: "Longitude must be a number between -180 and 180"
+      }).optional(),
+      radiusKm: z.string().refine(val => !isNaN(parseFloat(val)) && parseFloat(val) > 0, {
+        message: "Radius must be a positive number of kilometres"
+      }).optional(),
+      bbox: z.string().refine(val => parseBbox(val) !== null, {
+        message: "Bounding box must be \"west,south,east,north\" in degrees"
       }).optional()
-    }).optional()
+    })
+    .refine(query => (query.lat === undefined) === (query.lng === undefined), {
+      message: "Latitude and longitude must be provided together",
+      path: ["lat"]
+    })
+    .refine(query => query.radiusKm === undefined || query.lat !== undefined, {
+      message: "A radius requires latitude and longitude",
+      path: ["radiusKm"]
+    })
+    .optional()
   }),
 
   // Get deal by ID
@@ -378,6 +656,21 @@ export const dealSchemas = {
     })
   }),
 
+  // Comment on one field of the submission under review
+  addDealReviewComment: z.object({
+    params: z.object({
+      dealId: z.string().refine(val => !isNaN(parseInt(val, 10)), {
+        message: "Deal ID must be a valid number"
+      })
+    }),
+    body: z.object({
+      field: z.enum(DEAL_REVISION_FIELDS, {
+        errorMap: () => ({ message: "Field must be a reviewable deal field" })
+      }),
+      comment: z.string().trim().min(1, "Comment is required").max(1000, "Comment cannot exceed 1000 characters")
+    })
+  }),
+
   // Update deal approval
   updateDealApproval: z.object({
     params: z.object({
@@ -394,11 +687,16 @@ export const dealSchemas = {
     })
   }),
 
+  // Page through deals by status
+  listDealsByStatus: z.object({
+    query: z.object(dealPageQueryShape).optional()
+  }),
+
   // Get deals by status
   getDealsByStatus: z.object({
     params: z.object({
-      status: z.enum(["pending", "approved", "active", "expired", "rejected"], {
-        invalid_type_error: "Status must be pending, approved, active, expired, or rejected"
+      status: z.enum(["pending", "approved", "active", "expired", "rejected", "archived"], {
+        invalid_type_error: "Status must be pending, approved, active, expired, rejected, or archived"
       })
     })
   }),
@@ -411,9 +709,9 @@ export const dealSchemas = {
       })
     }),
     body: z.object({
-      status: z.enum(["pending", "approved", "active", "expired", "rejected"], {
+      status: z.enum(["pending", "approved", "active", "expired", "rejected", "archived"], {
         required_error: "Status is required",
-        invalid_type_error: "Status must be pending, approved, active, expired, or rejected"
+        invalid_type_error: "Status must be pending, approved, active, expired, rejected, or archived"
       })
     })
   }),
@@ -455,6 +753,120 @@ export const dealSchemas = {
     body: z.object({
       code: z.string().min(1, "Redemption code is required")
     })
+  }),
+
+  // Issue a single-use redemption token
+  issueRedemptionToken: z.object({
+    params: z.object({
+      dealId: z.string().refine(val => !isNaN(parseInt(val, 10)), {
+        message: "Deal ID must be a valid number"
+      })
+    })
+  }),
+
+  // Poll the status of an issued redemption token
+  getRedemptionTokenStatus: z.object({
+    params: z.object({
+      dealId: z.string().refine(val => !isNaN(parseInt(val, 10)), {
+        message: "Deal ID must be a valid number"
+      }),
+      shortCode: z.string().min(1, "Short code is required")
+    })
+  }),
+
+  // Consume a redemption token (signed QR token or short code)
+  consumeRedemptionToken: z.object({
+    body: z.object({
+      token: z.string().min(1, "Redemption token is required")
+    })
+  })
+};
+
+// =========== Search Schemas ===========
+
+export const searchSchemas = {
+  // Type-ahead suggestions for the explore search box
+  suggest: z.object({
+    query: z.object({
+      q: z.string().trim().min(1, "Search query is required").max(100, "Search query is too long"),
+      limit: z.string().refine(val => !isNaN(parseInt(val, 10)) && parseInt(val, 10) >= 1 && parseInt(val, 10) <= 20, {
+        message: "Limit must be a number between 1 and 20"
+      }).optional()
+    })
+  })
+};
+
+// =========== Push Schemas ===========
+
+export const pushSchemas = {
+  // Register a browser's push subscription (PushSubscription.toJSON())
+  subscribe: z.object({
+    body: z.object({
+      // Any endpoint is accepted outside production, for local mock push services
+      endpoint: z.string().url("Endpoint must be a valid URL").refine(
+        val => isKnownPushServiceEndpoint(val) || process.env.NODE_ENV !== "production",
+        { message: "Endpoint must be an HTTPS URL on a browser push service" }
+      ),
+      keys: z.object({
+        p256dh: z.string().min(1, "p256dh key is required").refine(isP256PublicKey, {
+          message: "p256dh must be an uncompressed P-256 public key"
+        }),
+        auth: z.string().min(1, "auth secret is required").refine(isPushAuthSecret, {
+          message: "auth must be a 16-byte secret"
+        })
+      })
+    })
+  }),
+
+  // Revoke a browser's push subscription
+  unsubscribe: z.object({
+    body: z.object({
+      endpoint: z.string().url("Endpoint must be a valid URL")
+    })
+  })
+};
+
+// =========== Email Schemas ===========
+
+export const emailSchemas = {
+  // One-click unsubscribe; the token is signed per user and list
+  unsubscribe: z.object({
+    query: z.object({
+      token: z.string().min(1, "Token is required")
+    })
+  })
+};
+
+// =========== Notification Schemas ===========
+
+const notificationIdParams = z.object({
+  id: z.string().refine(val => !isNaN(parseInt(val, 10)), {
+    message: "Notification ID must be a valid number"
+  })
+});
+
+export const notificationSchemas = {
+  // The signed-in user's notifications, newest first
+  list: z.object({
+    query: z.object({
+      unread: z.enum(["true", "false"]).optional(),
+      before: z.string().refine(val => !isNaN(parseInt(val, 10)), {
+        message: "Before must be a valid notification ID"
+      }).optional(),
+      limit: z.string().refine(val => !isNaN(parseInt(val, 10)) && parseInt(val, 10) >= 1 && parseInt(val, 10) <= 50, {
+        message: "Limit must be a number between 1 and 50"
+      }).optional()
+    })
+  }),
+
+  // Mark one notification as read
+  markRead: z.object({
+    params: notificationIdParams
+  }),
+
+  // Delete one notification
+  remove: z.object({
+    params: notificationIdParams
   })
 };
 
@@ -524,6 +936,43 @@ export const adminSchemas = {
     })
   }),
   
+  assignStaffRole: z.object({
+    params: z.object({
+      id: z.string().refine(val => !isNaN(parseInt(val, 10)), {
+        message: "User ID must be a valid number"
+      })
+    }),
+    body: z.object({
+      role: z.enum(STAFF_ROLES)
+    })
+  }),
+  
+  resetUserPassword: z.object({
+    params: z.object({
+      id: z.string().refine(val => !isNaN(parseInt(val, 10)), {
+        message: "User ID must be a valid number"
+      })
+    })
+  }),
+  
+  userSessions: z.object({
+    params: z.object({
+      id: z.string().min(1, "User ID is required")
+    })
+  }),
+  
+  userTwoFactor: z.object({
+    params: z.object({
+      id: z.string().min(1, "User ID is required")
+    })
+  }),
+  
+  unlockAccount: z.object({
+    body: z.object({
+      email: z.string().email("Invalid email address")
+    })
+  }),
+  
   // Deal status operations
   updateDealStatus: z.object({
     params: z.object({
@@ -532,11 +981,20 @@ export const adminSchemas = {
       })
     }),
     body: z.object({
-      status: z.enum(["pending", "active", "expired", "rejected", "pending_revision"]),
+      status: z.enum(["pending", "active", "expired", "rejected", "pending_revision", "archived"]),
       feedback: z.string().optional().nullable()
     })
   }),
   
+  // Deal status history
+  getDealStatusHistory: z.object({
+    params: z.object({
+      id: z.string().refine(val => !isNaN(parseInt(val, 10)), {
+        message: "Deal ID must be a valid number"
+      })
+    })
+  }),
+  
   // Deal approval operations
   updateDealApproval: z.object({
     params: z.object({
@@ -573,5 +1031,194 @@ export const adminSchemas = {
     })
   }),
   
-  getAllBusinesses: z.object({})
-};
\ No newline at end of file
+  getAllBusinesses: z.object({}),
+
+  getAllDeals: z.object({
+    query: z.object(dealPageQueryShape).optional()
+  })
+};
+
+// =========== Moderation Schemas ===========
+
+const moderationIdParams = z.object({
+  id: z.string().refine(val => !isNaN(parseInt(val, 10)), {
+    message: "ID must be a valid number"
+  })
+});
+
+// Checklist item ID -> ticked, as sent by the review screens
+const moderationChecklistShape = z.record(z.string(), z.boolean());
+
+// Body of a rejection: catalogue reason codes plus the reviewer's own note
+const rejectionBody = z.object({
+  reasonCodes: z.array(z.string().min(1)).min(1, "Select at least one rejection reason"),
+  note: z.string().trim().max(1000, "Note cannot exceed 1000 characters").optional().nullable(),
+  checklist: moderationChecklistShape.optional()
+});
+
+export const moderationSchemas = {
+  // Rejection reason catalogue
+  listRejectionReasons: z.object({
+    query: z.object({
+      targetType: z.enum(MODERATION_TARGET_TYPES).optional(),
+      includeInactive: z.enum(["true", "false"]).optional()
+    })
+  }),
+
+  createRejectionReason: z.object({
+    body: z.object({
+      code: z.string().regex(/^[a-z0-9_]{2,50}$/, "Code must be 2-50 lowercase letters, numbers or underscores"),
+      targetType: z.enum(MODERATION_TARGET_TYPES),
+      label: z.string().trim().min(1).max(100),
+      template: z.string().trim().min(1).max(1000)
+    })
+  }),
+
+  updateRejectionReason: z.object({
+    params: moderationIdParams,
+    body: z.object({
+      label: z.string().trim().min(1).max(100).optional(),
+      template: z.string().trim().min(1).max(1000).optional(),
+      active: z.boolean().optional()
+    })
+  }),
+
+  // Review checklist
+  listChecklistItems: z.object({
+    query: z.object({
+      targetType: z.enum(MODERATION_TARGET_TYPES).optional(),
+      category: z.string().optional(),
+      includeInactive: z.enum(["true", "false"]).optional()
+    })
+  }),
+
+  createChecklistItem: z.object({
+    body: z.object({
+      targetType: z.enum(MODERATION_TARGET_TYPES),
+      category: z.string().trim().min(1).max(100).optional().nullable(),
+      label: z.string().trim().min(1).max(200),
+      description: z.string().trim().max(1000).optional().nullable(),
+      sortOrder: z.number().int().optional()
+    })
+  }),
+
+  updateChecklistItem: z.object({
+    params: moderationIdParams,
+    body: z.object({
+      category: z.string().trim().min(1).max(100).optional().nullable(),
+      label: z.string().trim().min(1).max(200).optional(),
+      description: z.string().trim().max(1000).optional().nullable(),
+      sortOrder: z.number().int().optional(),
+      active: z.boolean().optional()
+    })
+  }),
+
+  // Most frequent rejection reasons
+  rejectionReasonStats: z.object({
+    query: z.object({
+      targetType: z.enum(MODERATION_TARGET_TYPES).optional(),
+      days: z.string().refine(val => !isNaN(parseInt(val, 10)) && parseInt(val, 10) >= 1 && parseInt(val, 10) <= 365, {
+        message: "Days must be a number between 1 and 365"
+      }).optional(),
+      limit: z.string().refine(val => !isNaN(parseInt(val, 10)) && parseInt(val, 10) >= 1 && parseInt(val, 10) <= 50, {
+        message: "Limit must be a number between 1 and 50"
+      }).optional()
+    })
+  }),
+
+  // Approving and rejecting deals and businesses
+  approve: z.object({
+    params: moderationIdParams,
+    body: z.object({
+      checklist: moderationChecklistShape.optional()
+    }).optional()
+  }),
+
+  reject: z.object({
+    params: moderationIdParams,
+    body: rejectionBody
+  }),
+
+  // Automated pre-moderation rules
+  updatePreModerationRule: z.object({
+    params: z.object({
+      key: z.enum(PRE_MODERATION_RULE_KEYS)
+    }),
+    body: z.object({
+      enabled: z.boolean().optional(),
+      action: z.enum(PRE_MODERATION_ACTIONS).optional(),
+      config: z.object({
+        words: z.array(z.string().trim().min(1).max(50)).max(500, "At most 500 banned words").optional(),
+        maxPercent: z.number().min(1).max(100).optional(),
+        minApprovedDeals: z.number().int().min(1).max(1000).optional()
+      }).strict().optional()
+    })
+  })
+};
+
+// =========== Bulk Admin Action Schemas ===========
+
+// Rejections share one set of catalogue reasons across the batch
+const bulkReviewBody = <T extends readonly [string, ...string[]]>(actions: T) => z.object({
+  action: z.enum(actions),
+  ids: z.array(z.number().int().positive())
+    .min(1, "Select at least one item")
+    .max(MAX_BULK_ITEMS, `At most ${MAX_BULK_ITEMS} items at a time`),
+  reasonCodes: z.array(z.string().min(1)).optional(),
+  note: z.string().trim().max(1000, "Note cannot exceed 1000 characters").optional().nullable()
+}).refine(body => body.action !== "reject" || (body.reasonCodes?.length ?? 0) > 0, {
+  message: "Select at least one rejection reason",
+  path: ["reasonCodes"]
+});
+
+export const bulkSchemas = {
+  deals: z.object({
+    body: bulkReviewBody(BULK_DEAL_ACTIONS)
+  }),
+
+  businesses: z.object({
+    body: bulkReviewBody(BULK_BUSINESS_ACTIONS)
+  }),
+
+  // Users are identified by their profile UUID
+  users: z.object({
+    body: z.object({
+      action: z.enum(BULK_USER_ACTIONS),
+      ids: z.array(z.string().uuid("Invalid user ID"))
+        .min(1, "Select at least one user")
+        .max(MAX_BULK_ITEMS, `At most ${MAX_BULK_ITEMS} users at a time`)
+    })
+  })
+};
+
+// =========== Admin Audit Log Schemas ===========
+
+const auditDateFilter = z.string().refine(val => !isNaN(Date.parse(val)), {
+  message: "Must be a valid date"
+}).optional();
+
+// Filters shared by the viewer and the CSV export
+const auditLogFilters = {
+  actorId: z.string().regex(/^\d+$/, "Actor ID must be a number").optional(),
+  action: z.string().trim().min(1).max(100).optional(),
+  targetType: z.enum(ADMIN_AUDIT_TARGET_TYPES).optional(),
+  targetId: z.string().trim().min(1).max(100).optional(),
+  batchId: z.string().uuid("Invalid batch ID").optional(),
+  from: auditDateFilter,
+  to: auditDateFilter
+};
+
+export const auditSchemas = {
+  list: z.object({
+    query: z.object({
+      ...auditLogFilters,
+      page: z.string().refine(val => !isNaN(parseInt(val, 10)) && parseInt(val, 10) >= 1, {
+        message: "Page must be a positive number"
+      }).optional()
+    })
+  }),
+
+  export: z.object({
+    query: z.object(auditLogFilters)
+  })
+};
@@ -0,0 +1,126 @@
+/**
+ * Admin audit log: recording admin actions, exporting and verifying the log
+ *
+ * Routes record an action once it has been applied. Storage sanitizes and
+ * hash-chains each entry (see utils/auditChain); bulk actions are audited by
+ * storage inside their own transaction instead.
+ */
+import type { Request } from 'express';
+import { storage, type AdminAuditQuery, type IStorage } from '../storage';
+import { verifyAuditChain } from '../utils/auditChain';
+import { MAX_ADMIN_AUDIT_EXPORT_ROWS, type AdminAuditChainReport, type AdminAuditTargetType } from '@shared/adminAudit';
+import type { AdminAuditEntry } from '@shared/schema';
+
+type AdminAuditStore = Pick<IStorage, 'appendAdminAuditEntry' | 'getAdminAuditEntries' | 'getAdminAuditChain'>;
+
+// The admin who acted and where the request came from
+export interface AuditActor {
+  userId: number | null;
+  ipAddress?: string | null;
+  userAgent?: string | null;
+}
+
+export interface AdminActionRecord {
+  action: string;
+  targetType: AdminAuditTargetType;
+  targetId: number | string;
+  // The record before and after the change; only fields that differ are kept
+  before?: object | null;
+  after?: object | null;
+  details?: Record<string, unknown>;
+}
+
+// Profile admins sign in with a UUID, so the staff account requirePermission found is used
+export function auditActorOf(req: Request): AuditActor {
+  return {
+    userId: req.staffUserId ?? null,
+    ipAddress: req.ip ?? null,
+    userAgent: req.get('user-agent') ?? null,
+  };
+}
+
+function changedValues(before: object | null | undefined, after: object | null | undefined) {
+  if (!before || !after) {
+    return { before: (before ?? null) as Record<string, unknown> | null, after: (after ?? null) as Record<string, unknown> | null };
+  }
+
+  const previous = before as Record<string, unknown>;
+  const next = after as Record<string, unknown>;
+  const changed = { before: {} as Record<string, unknown>, after: {} as Record<string, unknown> };
+  for (const key of Array.from(new Set([...Object.keys(previous), ...Object.keys(next)]))) {
+    if (JSON.stringify(previous[key]) !== JSON.stringify(next[key])) {
+      changed.before[key] = previous[key];
+      changed.after[key] = next[key];
+    }
+  }
+  return changed;
+}
+
+/**
+ * Append an applied admin action to the audit log
+ * The action has already happened, so a failure to record it is logged rather than thrown.
+ * An entry that can't say which admin acted is refused.
+ */
+export async function recordAdminAction(
+  actor: AuditActor,
+  record: AdminActionRecord,
+  store: AdminAuditStore = storage
+): Promise<AdminAuditEntry | null> {
+  if (actor.userId == null) {
+    console.error(`Admin audit error (${record.action} ${record.targetType} ${record.targetId}): no admin to record it against`);
+    return null;
+  }
+
+  try {
+    const { before, after } = changedValues(record.before, record.after);
+    return await store.appendAdminAuditEntry({
+      actorId: actor.userId,
+      action: record.action,
+      targetType: record.targetType,
+      targetId: String(record.targetId),
+      details: record.details ?? {},
+      before,
+      after,
+      ipAddress: actor.ipAddress ?? null,
+      userAgent: actor.userAgent ?? null,
+    });
+  } catch (error) {
+    console.error(`Admin audit error (${record.action} ${record.targetType} ${record.targetId}):`, error);
+    return null;
+  }
+}
+
+const CSV_COLUMNS: (keyof AdminAuditEntry)[] = [
+  'id', 'createdAt', 'actorId', 'action', 'targetType', 'targetId', 'batchId',
+  'ipAddress', 'userAgent', 'details', 'before', 'after', 'previousHash', 'hash'
+];
+
+function csvCell(value: unknown): string {
+  if (value === null || value === undefined) return '';
+
+  let text = value instanceof Date ? value.toISOString() : typeof value === 'object' ? JSON.stringify(value) : String(value);
+  // Keep spreadsheets from running cells as formulas
+  if (/^[=+\-@]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Entries matching the viewer's filters as CSV, newest first
+ */
+export async function exportAdminAuditCsv(
+  query: Omit<AdminAuditQuery, 'limit' | 'offset'>,
+  store: AdminAuditStore = storage
+): Promise<string> {
+  const entries = await store.getAdminAuditEntries({ ...query, limit: MAX_ADMIN_AUDIT_EXPORT_ROWS });
+  const rows = entries.map(entry => CSV_COLUMNS.map(column => csvCell(entry[column])).join(','));
+  return [CSV_COLUMNS.join(','), ...rows].join('\r\n') + '\r\n';
+}
+
+/**
+ * Recompute the hash chain from the first entry to the last
+ */
+export async function verifyAdminAuditChain(store: AdminAuditStore = storage): Promise<AdminAuditChainReport> {
+  return verifyAuditChain(await store.getAdminAuditChain());
+}
@@ -0,0 +1,104 @@
+/**
+ * Bulk admin actions on deals, businesses and users
+ *
+ * Storage applies a batch in one transaction and audits every item (see
+ * shared/bulkActions). This layer resolves the shared rejection reason before
+ * anything is changed and tags the batch with who ran it.
+ */
+import { randomUUID } from 'crypto';
+import { storage, type BulkActionContext, type IStorage } from '../storage';
+import { resolveRejection, type ReviewInput } from './Moderation';
+import {
+  summarizeBulkResults,
+  type BulkActionSummary,
+  type BulkBusinessAction,
+  type BulkDealAction,
+  type BulkUserAction
+} from '@shared/bulkActions';
+
+type BulkActionStore = Pick<
+  IStorage,
+  | 'bulkUpdateDeals'
+  | 'bulkUpdateBusinesses'
+  | 'bulkUpdateUsers'
+  | 'getRejectionReasonsByCode'
+  | 'getModerationChecklistItems'
+  | 'createModerationDecision'
+>;
+
+// The admin running the action and where the request came from, for the audit log
+export interface BulkActor {
+  userId: number;
+  ipAddress?: string | null;
+  userAgent?: string | null;
+}
+
+function createContext(actor: BulkActor): BulkActionContext {
+  return {
+    actorId: actor.userId,
+    batchId: randomUUID(),
+    ipAddress: actor.ipAddress ?? null,
+    userAgent: actor.userAgent ?? null,
+  };
+}
+
+// Each record once, in the order the admin selected them
+function uniqueIds<Id>(ids: Id[]): Id[] {
+  return Array.from(new Set(ids));
+}
+
+/**
+ * Approve, reject, feature, unfeature, expire or delete deals
+ * Throws RejectionReasonError if a rejection has no valid reason codes
+ */
+export async function runBulkDealAction(
+  action: BulkDealAction,
+  ids: number[],
+  review: ReviewInput,
+  actor: BulkActor,
+  store: BulkActionStore = storage
+): Promise<BulkActionSummary> {
+  const context = createContext(actor);
+  if (action === 'reject') {
+    const { feedback } = await resolveRejection('deal', review, store);
+    context.rejection = { feedback, reasonCodes: uniqueIds(review.reasonCodes ?? []), note: review.note };
+  }
+
+  const results = await store.bulkUpdateDeals(uniqueIds(ids), action, context);
+  return summarizeBulkResults(action, context.batchId, results);
+}
+
+/**
+ * Approve, reject or delete businesses
+ * Throws RejectionReasonError if a rejection has no valid reason codes
+ */
+export async function runBulkBusinessAction(
+  action: BulkBusinessAction,
+  ids: number[],
+  review: ReviewInput,
+  actor: BulkActor,
+  store: BulkActionStore = storage
+): Promise<BulkActionSummary> {
+  const context = createContext(actor);
+  if (action === 'reject') {
+    const { feedback } = await resolveRejection('business', review, store);
+    context.rejection = { feedback, reasonCodes: uniqueIds(review.reasonCodes ?? []), note: review.note };
+  }
+
+  const results = await store.bulkUpdateBusinesses(uniqueIds(ids), action, context);
+  return summarizeBulkResults(action, context.batchId, results);
+}
+
+/**
+ * Activate, deactivate or delete users by profile ID
+ */
+export async function runBulkUserAction(
+  action: BulkUserAction,
+  profileIds: string[],
+  actor: BulkActor,
+  store: BulkActionStore = storage
+): Promise<BulkActionSummary<string>> {
+  const context = createContext(actor);
+  const results = await store.bulkUpdateUsers(uniqueIds(profileIds), action, context);
+  return summarizeBulkResults(action, context.batchId, results);
+}
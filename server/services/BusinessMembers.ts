@@ -0,0 +1,210 @@
+/**
+ * Business team membership
+ *
+ * Owners invite managers and staff by email. The link carries a random token
+ * of which only a hash is stored; it can be used once, before it expires, by
+ * the account with the invited address. Accepting turns a customer account
+ * into a business account, and each account works for one business. Owners
+ * can change members' roles, remove them and hand ownership to one of them.
+ */
+import crypto from 'crypto';
+import { storage, type BusinessMembership, type IStorage } from '../storage';
+import { BUSINESS_INVITATION_EXPIRY_DAYS, type InvitableBusinessRole } from '@shared/businessMembers';
+import type { Business, BusinessInvitation, User } from '@shared/schema';
+
+type BusinessMembersStore = Pick<IStorage,
+  | 'getBusiness'
+  | 'getUserByEmail'
+  | 'getBusinessMembership'
+  | 'updateBusinessMemberRole'
+  | 'removeBusinessMember'
+  | 'transferBusinessOwnership'
+  | 'createBusinessInvitation'
+  | 'getBusinessInvitationByTokenHash'
+  | 'acceptBusinessInvitation'
+>;
+
+export type BusinessMembershipErrorCode =
+  | 'invitation_invalid'
+  | 'invitation_expired'
+  | 'invitation_used'
+  | 'email_mismatch'
+  | 'already_member'
+  | 'member_not_found'
+  | 'owner_not_allowed';
+
+// HTTP status used when surfacing each error code to clients
+const STATUS_BY_CODE: Record<BusinessMembershipErrorCode, number> = {
+  invitation_invalid: 404,
+  invitation_expired: 410,
+  invitation_used: 409,
+  email_mismatch: 403,
+  already_member: 409,
+  member_not_found: 404,
+  owner_not_allowed: 400,
+};
+
+// Custom error for invitations that can't be used and team changes that aren't allowed
+export class BusinessMembershipError extends Error {
+  code: BusinessMembershipErrorCode;
+  status: number;
+
+  constructor(code: BusinessMembershipErrorCode, message: string) {
+    super(message);
+    this.name = 'BusinessMembershipError';
+    this.code = code;
+    this.status = STATUS_BY_CODE[code];
+  }
+}
+
+export interface IssuedBusinessInvitation {
+  invitation: BusinessInvitation;
+  // Only ever sent in the email; the invitation stores its hash
+  token: string;
+}
+
+export function hashInvitationToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+/**
+ * Invite an address to the business's team, replacing any invitation it already has
+ * Throws BusinessMembershipError if the address already belongs to a member
+ */
+export async function inviteBusinessMember(
+  business: Business,
+  input: { email: string; role: InvitableBusinessRole },
+  invitedBy: number,
+  store: BusinessMembersStore = storage
+): Promise<IssuedBusinessInvitation> {
+  const email = normalizeEmail(input.email);
+
+  const existingUser = await store.getUserByEmail(email);
+  const existingMembership = existingUser ? await store.getBusinessMembership(existingUser.id) : undefined;
+  if (existingMembership?.business.id === business.id) {
+    throw new BusinessMembershipError('already_member', `${email} is already on the team`);
+  }
+
+  const token = crypto.randomBytes(32).toString('hex');
+  const invitation = await store.createBusinessInvitation({
+    businessId: business.id,
+    email,
+    role: input.role,
+    tokenHash: hashInvitationToken(token),
+    invitedBy,
+    expiresAt: new Date(Date.now() + BUSINESS_INVITATION_EXPIRY_DAYS * 24 * 60 * 60 * 1000),
+  });
+
+  return { invitation, token };
+}
+
+/**
+ * The invitation a link's token is for, and its business
+ * Throws BusinessMembershipError if it doesn't exist, was cancelled, used or has expired
+ */
+export async function getUsableInvitation(
+  token: string,
+  store: BusinessMembersStore = storage
+): Promise<{ invitation: BusinessInvitation; business: Business }> {
+  const invitation = await store.getBusinessInvitationByTokenHash(hashInvitationToken(token));
+  const business = invitation ? await store.getBusiness(invitation.businessId) : undefined;
+
+  if (!invitation || !business || invitation.revokedAt) {
+    throw new BusinessMembershipError('invitation_invalid', 'This invitation is no longer valid');
+  }
+  if (invitation.acceptedAt) {
+    throw new BusinessMembershipError('invitation_used', 'This invitation has already been accepted');
+  }
+  if (invitation.expiresAt <= new Date()) {
+    throw new BusinessMembershipError('invitation_expired', 'This invitation has expired; ask the business owner for a new one');
+  }
+
+  return { invitation, business };
+}
+
+/**
+ * Join the business the invitation is for
+ * Throws BusinessMembershipError if the invitation can't be used, is for another address,
+ * or the account already works for a business
+ */
+export async function acceptBusinessInvitation(
+  token: string,
+  user: User,
+  store: BusinessMembersStore = storage
+): Promise<BusinessMembership> {
+  const { invitation, business } = await getUsableInvitation(token, store);
+
+  if (normalizeEmail(user.email) !== invitation.email) {
+    throw new BusinessMembershipError('email_mismatch', `This invitation was sent to ${invitation.email}; sign in with that address to accept it`);
+  }
+  if (user.userType === 'admin') {
+    throw new BusinessMembershipError('already_member', 'Admin accounts cannot join a business');
+  }
+  if (await store.getBusinessMembership(user.id)) {
+    throw new BusinessMembershipError('already_member', 'Your account already works for a business');
+  }
+
+  const member = await store.acceptBusinessInvitation(invitation.id, user.id);
+  if (!member) {
+    // Accepted, cancelled or expired since it was looked up
+    throw new BusinessMembershipError('invitation_used', 'This invitation has already been accepted');
+  }
+
+  return { business, role: member.role as InvitableBusinessRole };
+}
+
+/**
+ * Make a manager staff or the other way round; the owner's role only changes by transferring ownership
+ */
+export async function changeBusinessMemberRole(
+  business: Business,
+  userId: number,
+  role: InvitableBusinessRole,
+  store: BusinessMembersStore = storage
+): Promise<void> {
+  if (userId === business.userId) {
+    throw new BusinessMembershipError('owner_not_allowed', "The owner's role can only change by transferring ownership");
+  }
+
+  if (!(await store.updateBusinessMemberRole(business.id, userId, role))) {
+    throw new BusinessMembershipError('member_not_found', 'Team member not found');
+  }
+}
+
+export async function removeBusinessMember(
+  business: Business,
+  userId: number,
+  store: BusinessMembersStore = storage
+): Promise<void> {
+  if (userId === business.userId) {
+    throw new BusinessMembershipError('owner_not_allowed', 'The owner cannot be removed; transfer ownership first');
+  }
+
+  if (!(await store.removeBusinessMember(business.id, userId))) {
+    throw new BusinessMembershipError('member_not_found', 'Team member not found');
+  }
+}
+
+/**
+ * Hand the business to one of its members; the previous owner stays on as a manager
+ */
+export async function transferBusinessOwnership(
+  business: Business,
+  newOwnerId: number,
+  store: BusinessMembersStore = storage
+): Promise<Business> {
+  if (newOwnerId === business.userId) {
+    throw new BusinessMembershipError('owner_not_allowed', 'You already own this business');
+  }
+
+  const membership = await store.getBusinessMembership(newOwnerId);
+  if (membership?.business.id !== business.id) {
+    throw new BusinessMembershipError('member_not_found', 'The new owner must be a member of the team');
+  }
+
+  return await store.transferBusinessOwnership(business.id, newOwnerId);
+}
@@ -0,0 +1,170 @@
+/**
+ * Expiring-deal reminder service
+ *
+ * Finds favorited deals that expire within each user's reminder window
+ * (`expiringDealReminderHours`) and sends one reminder per deal per user on
+ * every channel the user has enabled. Each channel's delivery is tracked in
+ * `deal_reminders`; the row is claimed before delivery, so a reminder is never
+ * sent twice, and failed deliveries are retried up to a limit.
+ *
+ * Channels are pluggable. The in-app channel is always registered: it adds
+ * the reminder to the user's notification inbox, and its stored rows are also
+ * listed by the deal reminders endpoint. The worker adds email and web push.
+ */
+import { storage, type IStorage, type DueDealReminder } from '../storage';
+import type { Business, Deal, DealReminder, UserNotificationPreferences } from '@shared/schema';
+
+export type DealReminderChannelName = 'in_app' | 'email' | 'push';
+
+export const MAX_REMINDER_ATTEMPTS = 5;
+
+export interface DealReminderMessage {
+  reminder: DealReminder;
+  deal: Deal & { business: Business };
+  title: string;
+  body: string;
+  // Time left, e.g. "5 hours" or "2 days"
+  expiresIn: string;
+  // Path of the deal in the app, for links and notification clicks
+  url: string;
+}
+
+export interface DealReminderChannel {
+  name: DealReminderChannelName;
+  // Whether a user receives reminders on this channel
+  isEnabled(preferences: UserNotificationPreferences | undefined): boolean;
+  deliver(message: DealReminderMessage): Promise<void>;
+}
+
+export interface DealReminderRunResult {
+  sent: number;
+  failed: number;
+}
+
+type DealReminderStore = Pick<
+  IStorage,
+  'getDueDealReminders' | 'claimDealReminder' | 'claimRetryableDealReminders' | 'updateDealReminder' | 'getDeal' | 'getNotificationPreferences'
+>;
+
+const channels = new Map<DealReminderChannelName, DealReminderChannel>();
+
+/**
+ * Add a delivery channel, replacing any channel with the same name
+ */
+export function registerDealReminderChannel(channel: DealReminderChannel): void {
+  channels.set(channel.name, channel);
+}
+
+export function getDealReminderChannels(): DealReminderChannel[] {
+  return Array.from(channels.values());
+}
+
+registerDealReminderChannel({
+  name: 'in_app',
+  isEnabled: () => true,
+  // Keyed by reminder, so a retried delivery doesn't add it to the inbox twice
+  deliver: async (message) => {
+    await storage.createNotification({
+      userId: message.reminder.userId,
+      type: 'deal_expiring',
+      title: message.title,
+      body: message.body,
+      url: message.url,
+      dedupeKey: `deal_reminder:${message.reminder.id}`,
+    });
+  },
+});
+
+/**
+ * Reminder text, e.g. "Half price pizza" from Luigi's expires in 5 hours
+ */
+export function buildDealReminderMessage(
+  reminder: DealReminder,
+  deal: Deal & { business: Business },
+  now: Date = new Date()
+): DealReminderMessage {
+  const hoursLeft = Math.floor((new Date(deal.endDate).getTime() - now.getTime()) / (60 * 60 * 1000));
+  const expiresIn = hoursLeft < 1
+    ? 'less than an hour'
+    : hoursLeft < 24
+      ? `${hoursLeft} hour${hoursLeft !== 1 ? 's' : ''}`
+      : `${Math.floor(hoursLeft / 24)} day${Math.floor(hoursLeft / 24) !== 1 ? 's' : ''}`;
+
+  return {
+    reminder,
+    deal,
+    title: `Deal expiring soon: ${deal.title}`,
+    body: `"${deal.title}" from ${deal.business.businessName} expires in ${expiresIn}`,
+    expiresIn,
+    url: `/deals/${deal.id}`,
+  };
+}
+
+async function deliver(
+  store: DealReminderStore,
+  channel: DealReminderChannel,
+  reminder: DealReminder,
+  deal: Deal & { business: Business },
+  now: Date
+): Promise<boolean> {
+  const attempts = reminder.attempts + 1;
+
+  try {
+    await channel.deliver(buildDealReminderMessage(reminder, deal, now));
+    await store.updateDealReminder(reminder.id, { status: 'sent', attempts, sentAt: new Date(), lastError: null });
+    return true;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`DealReminders: ${channel.name} delivery failed for reminder ${reminder.id}:`, message);
+    await store.updateDealReminder(reminder.id, { status: 'failed', attempts, lastError: message });
+    return false;
+  }
+}
+
+/**
+ * Retry failed deliveries, then send reminders that are due
+ */
+export async function sendDueDealReminders(
+  now: Date = new Date(),
+  store: DealReminderStore = storage,
+  activeChannels: DealReminderChannel[] = getDealReminderChannels()
+): Promise<DealReminderRunResult> {
+  const result: DealReminderRunResult = { sent: 0, failed: 0 };
+  const record = (sent: boolean) => {
+    if (sent) {
+      result.sent++;
+    } else {
+      result.failed++;
+    }
+  };
+
+  // Retry earlier failures first, so a delivery that fails now waits for the next run
+  for (const reminder of await store.claimRetryableDealReminders(MAX_REMINDER_ATTEMPTS)) {
+    const channel = activeChannels.find(c => c.name === reminder.channel);
+    const deal = await store.getDeal(reminder.dealId);
+
+    // Give up on reminders for deals that ended or channels that were removed or switched off
+    const preferences = await store.getNotificationPreferences(reminder.userId);
+    if (!channel || !channel.isEnabled(preferences) || !deal || deal.status !== 'active' || new Date(deal.endDate) <= now) {
+      await store.updateDealReminder(reminder.id, { status: 'failed', attempts: MAX_REMINDER_ATTEMPTS });
+      continue;
+    }
+
+    record(await deliver(store, channel, reminder, deal, now));
+  }
+
+  const due: DueDealReminder[] = await store.getDueDealReminders(now);
+  for (const { userId, deal, preferences } of due) {
+    for (const channel of activeChannels) {
+      if (!channel.isEnabled(preferences)) continue;
+
+      // Another run already has this reminder
+      const reminder = await store.claimDealReminder(userId, deal.id, channel.name);
+      if (!reminder) continue;
+
+      record(await deliver(store, channel, reminder, deal, now));
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,55 @@
+/**
+ * Deal revision workflow
+ *
+ * Each time a deal is submitted for review, an approval row stores a snapshot
+ * of the deal as submitted (see createDealApproval). When a vendor edits a
+ * rejected deal and sends it back for review, a new approval starts the next
+ * review round, so admins can see what changed since the last one. Editing a
+ * deal that is still waiting for review supersedes the open round with a new
+ * one, so the pre-moderation rules and the reviewer see the latest version.
+ */
+import { storage, type IStorage } from '../storage';
+import { buildDealRevisionHistory, type DealRevision } from '@shared/dealRevisions';
+import type { Deal, DealApproval } from '@shared/schema';
+import { preModerateDeal, type PreModerationStore } from './PreModeration';
+
+// Deal statuses a vendor resubmits from by setting the deal back to pending
+const RESUBMITTABLE_STATUSES = ['rejected', 'pending_revision', 'pending'];
+
+type DealRevisionStore = PreModerationStore & Pick<IStorage, 'getDealApprovalHistory' | 'getDealReviewComments'>;
+
+/**
+ * Start a new review round if an update sent a deal (back) for review
+ */
+export async function submitDealRevision(
+  previous: Pick<Deal, 'status'>,
+  updated: Deal,
+  submitterId: number,
+  store: DealRevisionStore = storage
+): Promise<DealApproval | null> {
+  if (!RESUBMITTABLE_STATUSES.includes(previous.status) || updated.status !== 'pending') {
+    return null;
+  }
+
+  if (previous.status === 'pending') {
+    const openRounds = (await store.getDealApprovalHistory(updated.id))
+      .filter(approval => approval.status === 'pending');
+    for (const approval of openRounds) {
+      await store.updateDealApproval(approval.id, { status: 'superseded' });
+    }
+  }
+
+  return await preModerateDeal(updated, submitterId, store);
+}
+
+/**
+ * Every submission of a deal with its field-level changes and reviewer comments, newest first
+ */
+export async function getDealRevisionHistory(dealId: number, store: DealRevisionStore = storage): Promise<DealRevision[]> {
+  const [approvals, comments] = await Promise.all([
+    store.getDealApprovalHistory(dealId),
+    store.getDealReviewComments(dealId),
+  ]);
+
+  return buildDealRevisionHistory(approvals, comments);
+}
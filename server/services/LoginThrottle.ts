@@ -0,0 +1,196 @@
+/**
+ * Per-account login throttling: progressive delays and temporary lockouts
+ *
+ * Failed password attempts are counted per lowercased email address, whether
+ * or not an account has it, so the answers don't reveal which emails are
+ * registered. After policy.freeAttempts failures each attempt has to wait
+ * until the last failure's delay is over; attempts made sooner are refused
+ * without checking the password and don't count. Reaching
+ * policy.lockoutThreshold locks the address for policy.lockoutMinutes and
+ * emails the owner a single-use unlock link. A successful sign-in, the link
+ * or an admin clears the count. Passkey sign-in isn't throttled: there's no
+ * password to guess.
+ */
+import crypto from 'crypto';
+import type { Response } from 'express';
+import type { LoginThrottle } from '@shared/schema';
+import { ACCOUNT_LOCKED, LOGIN_THROTTLED, type LockedAccountSummary } from '@shared/loginThrottle';
+import { getConfig, type LoginThrottleConfig } from '../../src/config/index.js';
+import { storage, type IStorage } from '../storage';
+import { sendAccountLockedEmail } from './Mailer';
+import { recordSecurityEvent } from './SecurityEvents';
+
+type LoginThrottleStore = Pick<IStorage,
+  | 'getLoginThrottle'
+  | 'recordFailedLogin'
+  | 'updateLoginThrottle'
+  | 'clearLoginThrottle'
+  | 'clearLoginThrottleByUnlockToken'
+  | 'getLockedLoginThrottles'
+  | 'recordSecurityEvent'
+>;
+
+type ClientInfo = { ipAddress?: string; userAgent?: string };
+
+// Who gets the unlock email; null when no account has the address
+type LockoutRecipient = { email: string; firstName: string; id: number | string } | null;
+
+export class LoginThrottleError extends Error {
+  code: typeof LOGIN_THROTTLED | typeof ACCOUNT_LOCKED;
+  status: number;
+  retryAfterSeconds: number;
+
+  constructor(code: typeof LOGIN_THROTTLED | typeof ACCOUNT_LOCKED, until: Date) {
+    const retryAfterSeconds = Math.max(1, Math.ceil((until.getTime() - Date.now()) / 1000));
+    super(code === ACCOUNT_LOCKED
+      ? 'This account is locked after too many failed sign-ins. Use the link we emailed you to unlock it, or try again later.'
+      : `Too many failed sign-ins. Please wait ${retryAfterSeconds} second${retryAfterSeconds === 1 ? '' : 's'} and try again.`);
+    this.name = 'LoginThrottleError';
+    this.code = code;
+    this.status = code === ACCOUNT_LOCKED ? 423 : 429;
+    this.retryAfterSeconds = retryAfterSeconds;
+  }
+}
+
+export interface Lockout {
+  unlockToken: string;
+  lockedUntil: Date;
+}
+
+function defaultPolicy(): LoginThrottleConfig {
+  return getConfig().security.loginThrottle;
+}
+
+export function normalizeLoginEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+export function hashUnlockToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * How long to wait after this many failures: nothing for the free attempts, then doubling up to the maximum
+ */
+export function loginDelayMs(failedAttempts: number, policy: LoginThrottleConfig = defaultPolicy()): number {
+  const excess = failedAttempts - policy.freeAttempts;
+  if (excess <= 0) return 0;
+  return Math.min(policy.baseDelayMs * 2 ** (excess - 1), policy.maxDelayMs);
+}
+
+// A lockout that ran out, or failures nobody followed up for a while, start the count again
+function isStale(throttle: LoginThrottle, policy: LoginThrottleConfig, now: Date): boolean {
+  if (throttle.lockedUntil) return throttle.lockedUntil <= now;
+  return now.getTime() - throttle.lastFailedAt.getTime() >= policy.failureWindowMinutes * 60 * 1000;
+}
+
+function isLocked(throttle: LoginThrottle, now: Date = new Date()): throttle is LoginThrottle & { lockedUntil: Date } {
+  return !!throttle.lockedUntil && throttle.lockedUntil > now;
+}
+
+/**
+ * Throw if the address is locked or still waiting out its delay; call before checking the password
+ */
+export async function assertLoginAllowed(email: string, store: LoginThrottleStore = storage): Promise<void> {
+  const throttle = await store.getLoginThrottle(normalizeLoginEmail(email));
+  if (!throttle) return;
+
+  const now = new Date();
+  if (isLocked(throttle, now)) {
+    throw new LoginThrottleError(ACCOUNT_LOCKED, throttle.lockedUntil);
+  }
+  if (throttle.nextAttemptAt && throttle.nextAttemptAt > now) {
+    throw new LoginThrottleError(LOGIN_THROTTLED, throttle.nextAttemptAt);
+  }
+}
+
+/**
+ * Count a wrong password; returns the lockout when this failure started one
+ */
+export async function recordLoginFailure(
+  email: string,
+  clientInfo: ClientInfo = {},
+  store: LoginThrottleStore = storage,
+  policy: LoginThrottleConfig = defaultPolicy()
+): Promise<Lockout | null> {
+  const key = normalizeLoginEmail(email);
+  const now = new Date();
+
+  const existing = await store.getLoginThrottle(key);
+  if (existing && isStale(existing, policy, now)) {
+    await store.clearLoginThrottle(key);
+  }
+
+  const throttle = await store.recordFailedLogin(key, clientInfo.ipAddress);
+  if (isLocked(throttle, now)) return null;
+
+  if (throttle.failedAttempts >= policy.lockoutThreshold) {
+    const unlockToken = crypto.randomBytes(32).toString('base64url');
+    const lockedUntil = new Date(now.getTime() + policy.lockoutMinutes * 60 * 1000);
+    await store.updateLoginThrottle(key, { lockedUntil, unlockTokenHash: hashUnlockToken(unlockToken), nextAttemptAt: null });
+    await recordSecurityEvent({
+      type: 'account_locked',
+      userId: null,
+      ipAddress: clientInfo.ipAddress,
+      userAgent: clientInfo.userAgent,
+      details: { email: key, failedAttempts: throttle.failedAttempts, lockedUntil: lockedUntil.toISOString() },
+    }, store);
+    return { unlockToken, lockedUntil };
+  }
+
+  const delay = loginDelayMs(throttle.failedAttempts, policy);
+  if (delay > 0) {
+    await store.updateLoginThrottle(key, { nextAttemptAt: new Date(now.getTime() + delay) });
+  }
+  return null;
+}
+
+/**
+ * Count a wrong password and, if that locked the account, email its owner the unlock link
+ */
+export async function handleFailedLogin(
+  email: string,
+  recipient: LockoutRecipient,
+  clientInfo: ClientInfo = {},
+  store: LoginThrottleStore = storage,
+  policy: LoginThrottleConfig = defaultPolicy()
+): Promise<Lockout | null> {
+  const lockout = await recordLoginFailure(email, clientInfo, store, policy);
+  if (lockout && recipient) {
+    await sendAccountLockedEmail(recipient, lockout.unlockToken, policy.lockoutMinutes);
+  }
+  return lockout;
+}
+
+export async function recordLoginSuccess(email: string, store: LoginThrottleStore = storage): Promise<void> {
+  await store.clearLoginThrottle(normalizeLoginEmail(email));
+}
+
+/**
+ * Unlock with the token from the lockout email; false if it's wrong, used or ran out
+ */
+export async function unlockWithToken(token: string, store: LoginThrottleStore = storage): Promise<boolean> {
+  return !!(await store.clearLoginThrottleByUnlockToken(hashUnlockToken(token)));
+}
+
+/**
+ * Clear an address's failed logins and any lockout (admins); false if there was nothing to clear
+ */
+export async function unlockAccount(email: string, store: LoginThrottleStore = storage): Promise<boolean> {
+  return store.clearLoginThrottle(normalizeLoginEmail(email));
+}
+
+export async function listLockedAccounts(store: LoginThrottleStore = storage): Promise<LockedAccountSummary[]> {
+  return (await store.getLockedLoginThrottles()).map(throttle => ({
+    email: throttle.email,
+    failedAttempts: throttle.failedAttempts,
+    lockedUntil: throttle.lockedUntil!,
+    lastFailedAt: throttle.lastFailedAt,
+    lastIpAddress: throttle.lastIpAddress,
+  }));
+}
+
+export function sendLoginThrottleError(res: Response, error: LoginThrottleError) {
+  res.set('Retry-After', String(error.retryAfterSeconds));
+  return res.status(error.status).json({ message: error.message, code: error.code, retryAfter: error.retryAfterSeconds });
+}
@@ -0,0 +1,221 @@
+/**
+ * Mailer service
+ *
+ * Queues the app's emails and picks the transport the outbox worker delivers
+ * them with. MAIL_TRANSPORT chooses "smtp" (SMTP_URL), "file" (.eml files in
+ * MAIL_OUTBOX_DIR) or "memory"; without it, SMTP is used when SMTP_URL is set
+ * and files otherwise. Production only sends over SMTP, so the server refuses
+ * to start without it. Links in emails point at APP_URL.
+ *
+ * Queuing an email never fails the request that triggered it; errors are
+ * logged and the caller carries on.
+ */
+import { storage } from '../storage';
+import { getOptionalEnv } from '../../src/config/index.js';
+import { queueEmail } from '../email/outbox';
+import { createSmtpTransport, createFileTransport, createMemoryTransport, type MailTransport } from '../email/transports';
+import type { DealReminderChannel } from './DealReminders';
+import type { Business, BusinessInvitation, DealApproval } from '@shared/schema';
+import { BUSINESS_INVITATION_EXPIRY_DAYS, BUSINESS_ROLE_LABELS, type BusinessRole } from '@shared/businessMembers';
+
+const MAIL_TRANSPORT = getOptionalEnv('MAIL_TRANSPORT', '');
+const SMTP_URL = getOptionalEnv('SMTP_URL', '');
+const MAIL_OUTBOX_DIR = getOptionalEnv('MAIL_OUTBOX_DIR', '.mail-outbox');
+const APP_URL = getOptionalEnv('APP_URL', 'http://localhost:5000').replace(/\/+$/, '');
+
+export const MAIL_FROM = getOptionalEnv('MAIL_FROM', 'Pinnity <no-reply@pinnity.com>');
+// Signs unsubscribe links; falls back to the JWT secret so links work without extra setup
+export const UNSUBSCRIBE_SECRET = getOptionalEnv('UNSUBSCRIBE_SECRET', '') || getOptionalEnv('JWT_SECRET', '');
+
+// Matches the expiry set by createPasswordResetToken
+const PASSWORD_RESET_EXPIRES_IN_MINUTES = 60;
+
+let transport: MailTransport | null = null;
+
+export function getMailTransport(): MailTransport {
+  if (!transport) {
+    const name = MAIL_TRANSPORT || (SMTP_URL ? 'smtp' : 'file');
+
+    if (process.env.NODE_ENV === 'production' && name !== 'smtp') {
+      throw new Error(`Production email must go over SMTP, not the ${name} transport: set SMTP_URL`);
+    }
+
+    if (name === 'smtp') {
+      if (!SMTP_URL) {
+        throw new Error('MAIL_TRANSPORT is smtp but SMTP_URL is not set');
+      }
+      transport = createSmtpTransport(SMTP_URL);
+    } else if (name === 'memory') {
+      transport = createMemoryTransport();
+    } else {
+      transport = createFileTransport(MAIL_OUTBOX_DIR);
+    }
+  }
+
+  return transport;
+}
+
+export function getAppUrl(path: string): string {
+  return `${APP_URL}${path}`;
+}
+
+/**
+ * Email a password reset link
+ */
+export async function sendPasswordResetEmail(user: { email: string; firstName: string; id: number | string }, token: string): Promise<void> {
+  try {
+    await queueEmail('password_reset', {
+      firstName: user.firstName,
+      resetUrl: getAppUrl(`/reset-password?token=${encodeURIComponent(token)}`),
+      expiresInMinutes: PASSWORD_RESET_EXPIRES_IN_MINUTES,
+    }, {
+      email: user.email,
+      userId: typeof user.id === 'number' ? user.id : null,
+    });
+  } catch (error) {
+    console.error('Mailer: Error queuing password reset email:', error);
+  }
+}
+
+/**
+ * Tell a user an admin reset their two-factor authentication
+ */
+export async function sendTwoFactorResetEmail(user: { email: string; firstName: string; id: number | string }, mustReenrol: boolean): Promise<void> {
+  try {
+    await queueEmail('two_factor_reset', {
+      firstName: user.firstName,
+      mustReenrol,
+      signInUrl: getAppUrl('/auth'),
+    }, {
+      email: user.email,
+      userId: typeof user.id === 'number' ? user.id : null,
+    });
+  } catch (error) {
+    console.error('Mailer: Error queuing two-factor reset email:', error);
+  }
+}
+
+/**
+ * Tell a user their account was locked after failed sign-ins, with a link that unlocks it
+ */
+export async function sendAccountLockedEmail(
+  user: { email: string; firstName: string; id: number | string },
+  unlockToken: string,
+  lockedMinutes: number
+): Promise<void> {
+  try {
+    await queueEmail('account_locked', {
+      firstName: user.firstName,
+      unlockUrl: getAppUrl(`/unlock-account?token=${encodeURIComponent(unlockToken)}`),
+      lockedMinutes,
+      resetPasswordUrl: getAppUrl('/forgot-password'),
+    }, {
+      email: user.email,
+      userId: typeof user.id === 'number' ? user.id : null,
+    });
+  } catch (error) {
+    console.error('Mailer: Error queuing account locked email:', error);
+  }
+}
+
+/**
+ * Email an invitation to join a business's team
+ */
+export async function sendBusinessInvitationEmail(
+  invitation: BusinessInvitation,
+  business: Business,
+  inviter: { firstName: string; lastName: string },
+  token: string
+): Promise<void> {
+  try {
+    await queueEmail('business_invitation', {
+      inviterName: `${inviter.firstName} ${inviter.lastName}`.trim(),
+      businessName: business.businessName,
+      roleLabel: BUSINESS_ROLE_LABELS[invitation.role as BusinessRole] ?? invitation.role,
+      acceptUrl: getAppUrl(`/join-business?token=${encodeURIComponent(token)}`),
+      expiresInDays: BUSINESS_INVITATION_EXPIRY_DAYS,
+    }, {
+      email: invitation.email,
+      userId: null,
+    });
+  } catch (error) {
+    console.error(`Mailer: Error queuing invitation email for business invitation ${invitation.id}:`, error);
+  }
+}
+
+/**
+ * Tell a business owner their business was verified or rejected
+ * Other statuses (e.g. back to pending) don't send anything
+ */
+export async function sendBusinessVerificationEmail(business: Business): Promise<void> {
+  if (business.verificationStatus !== 'verified' && business.verificationStatus !== 'rejected') return;
+
+  try {
+    const owner = await storage.getUser(business.userId);
+    if (!owner) return;
+
+    await queueEmail('business_verification', {
+      firstName: owner.firstName,
+      businessName: business.businessName,
+      status: business.verificationStatus,
+      feedback: business.verificationFeedback,
+      dashboardUrl: getAppUrl('/vendor'),
+    }, {
+      email: owner.email,
+      userId: owner.id,
+    });
+  } catch (error) {
+    console.error(`Mailer: Error queuing verification email for business ${business.id}:`, error);
+  }
+}
+
+/**
+ * Tell a business owner their deal was approved or rejected
+ */
+export async function sendDealReviewEmail(approval: DealApproval): Promise<void> {
+  if (approval.status !== 'approved' && approval.status !== 'rejected') return;
+
+  try {
+    const deal = await storage.getDeal(approval.dealId);
+    const owner = deal ? await storage.getUser(deal.business.userId) : undefined;
+    if (!deal || !owner) return;
+
+    await queueEmail('deal_review', {
+      firstName: owner.firstName,
+      dealTitle: deal.title,
+      status: approval.status,
+      feedback: approval.feedback,
+      dealUrl: getAppUrl(`/vendor/deals/manage/${deal.id}`),
+    }, {
+      email: owner.email,
+      userId: owner.id,
+    });
+  } catch (error) {
+    console.error(`Mailer: Error queuing review email for deal approval ${approval.id}:`, error);
+  }
+}
+
+/**
+ * Expiring-deal reminders by email
+ * Queuing errors are thrown rather than logged, so the reminder is retried
+ */
+export const emailReminderChannel: DealReminderChannel = {
+  name: 'email',
+  isEnabled: (preferences) => preferences?.emailNotifications !== false,
+  deliver: async ({ reminder, deal, expiresIn, url }) => {
+    const user = await storage.getUser(reminder.userId);
+    if (!user) return;
+
+    // Keyed by reminder, so a retried delivery doesn't queue the email twice
+    await queueEmail('deal_expiring', {
+      firstName: user.firstName,
+      dealTitle: deal.title,
+      businessName: deal.business.businessName,
+      expiresIn,
+      dealUrl: getAppUrl(url),
+    }, {
+      email: user.email,
+      userId: user.id,
+    }, storage, { dedupeKey: `deal_reminder:${reminder.id}` });
+  },
+};
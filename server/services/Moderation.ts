@@ -0,0 +1,104 @@
+/**
+ * Moderation policy for deal and business reviews
+ *
+ * Rejections must cite reason codes from the admin-managed catalogue; the
+ * reason templates become the feedback the vendor sees. Every approval and
+ * rejection is recorded with its reasons and the checklist items the reviewer
+ * ticked, which is what the rejection reason report counts.
+ */
+import { storage, type IStorage } from '../storage';
+import {
+  checklistForCategory,
+  composeRejectionFeedback,
+  type ModerationChecklist,
+  type ModerationTargetType
+} from '@shared/moderation';
+import type { ModerationChecklistItem, ModerationDecision, RejectionReason } from '@shared/schema';
+
+type ModerationStore = Pick<IStorage, 'getRejectionReasonsByCode' | 'getModerationChecklistItems' | 'createModerationDecision'>;
+
+// Custom error for rejections without valid reason codes
+export class RejectionReasonError extends Error {
+  codes: string[];
+
+  constructor(message: string, codes: string[] = []) {
+    super(message);
+    this.name = 'RejectionReasonError';
+    this.codes = codes;
+  }
+}
+
+export interface ReviewInput {
+  reasonCodes?: string[];
+  note?: string | null;
+  checklist?: ModerationChecklist;
+}
+
+export interface ResolvedRejection {
+  reasons: RejectionReason[];
+  feedback: string;
+}
+
+/**
+ * Look up the picked reason codes and compose the vendor-facing feedback
+ * Throws RejectionReasonError if none were picked, or any is unknown, inactive or for another target type
+ */
+export async function resolveRejection(
+  targetType: ModerationTargetType,
+  input: ReviewInput,
+  store: ModerationStore = storage
+): Promise<ResolvedRejection> {
+  const codes = Array.from(new Set(input.reasonCodes ?? []));
+  if (codes.length === 0) {
+    throw new RejectionReasonError('At least one rejection reason is required');
+  }
+
+  const found = await store.getRejectionReasonsByCode(codes);
+  const usable = new Map(
+    found
+      .filter(reason => reason.active && reason.targetType === targetType)
+      .map(reason => [reason.code, reason])
+  );
+
+  const invalid = codes.filter(code => !usable.has(code));
+  if (invalid.length > 0) {
+    throw new RejectionReasonError(`Unknown rejection reason: ${invalid.join(', ')}`, invalid);
+  }
+
+  const reasons = codes.map(code => usable.get(code)!);
+  return { reasons, feedback: composeRejectionFeedback(reasons, input.note) };
+}
+
+/**
+ * Record an approval or rejection with the reasons and checklist the reviewer used
+ */
+export async function recordModerationDecision(
+  targetType: ModerationTargetType,
+  targetId: number,
+  decision: 'approved' | 'rejected',
+  input: ReviewInput,
+  reviewerId: number | null,
+  store: ModerationStore = storage
+): Promise<ModerationDecision> {
+  return await store.createModerationDecision({
+    targetType,
+    targetId,
+    decision,
+    reasonCodes: decision === 'rejected' ? Array.from(new Set(input.reasonCodes ?? [])) : [],
+    checklist: input.checklist ?? {},
+    note: input.note?.trim() || null,
+    reviewerId,
+  });
+}
+
+/**
+ * The checklist a reviewer works through for a deal or business in a category
+ */
+export async function getReviewChecklist(
+  targetType: ModerationTargetType,
+  category: string | null | undefined,
+  store: ModerationStore = storage
+): Promise<ModerationChecklistItem[]> {
+  const items = await store.getModerationChecklistItems({ targetType });
+  return checklistForCategory(items, category);
+}
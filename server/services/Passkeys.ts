@@ -0,0 +1,267 @@
+/**
+ * Passkeys: registering WebAuthn credentials and signing in with them
+ *
+ * Every ceremony starts by storing a random challenge and ends by consuming
+ * it, so a browser response is accepted once and only within
+ * PASSKEY_CHALLENGE_MINUTES. Registration is for the signed-in profile and
+ * asks for a discoverable credential; signing in offers no credential list,
+ * and the credential ID the browser returns identifies the profile. We
+ * require user verification (biometrics or the device PIN), which makes a
+ * passkey two factors on its own, so passkey sign-in skips the TOTP step.
+ */
+import crypto from 'crypto';
+import type { ProfilePasskey } from '@shared/schema';
+import {
+  PASSKEY_ALGORITHMS,
+  PASSKEY_CHALLENGE_MINUTES,
+  PASSKEY_RP_NAME,
+  type PasskeyAuthenticationOptions,
+  type PasskeyAuthenticationResponse,
+  type PasskeyChallengePurpose,
+  type PasskeyRegistrationOptions,
+  type PasskeyRegistrationResponse,
+  type PasskeySummary
+} from '@shared/passkeys';
+import { getOptionalEnv } from '../../src/config/index.js';
+import { storage, type IStorage } from '../storage';
+import { describeUserAgent } from '../utils/userAgent';
+import {
+  generateChallenge,
+  readClientData,
+  toBase64Url,
+  verifyAuthenticationResponse,
+  verifyRegistrationResponse,
+  WebAuthnError,
+  type ExpectedCeremony
+} from '../utils/webauthn';
+
+type PasskeyStore = Pick<IStorage,
+  | 'getPasskeys'
+  | 'getPasskeyByCredentialId'
+  | 'createPasskey'
+  | 'recordPasskeyUse'
+  | 'renamePasskey'
+  | 'deletePasskey'
+  | 'createPasskeyChallenge'
+  | 'consumePasskeyChallenge'
+>;
+
+// Passkeys are bound to the site's origin; they default to where emails link to
+const PASSKEY_ORIGIN = getOptionalEnv('WEBAUTHN_ORIGIN', '') || new URL(getOptionalEnv('APP_URL', 'http://localhost:5000')).origin;
+const PASSKEY_RP_ID = getOptionalEnv('WEBAUTHN_RP_ID', '') || new URL(PASSKEY_ORIGIN).hostname;
+
+const CHALLENGE_MS = PASSKEY_CHALLENGE_MINUTES * 60 * 1000;
+
+export type PasskeyErrorCode =
+  | 'challenge_invalid'
+  | 'verification_failed'
+  | 'unknown_passkey'
+  | 'already_registered'
+  | 'not_found';
+
+// HTTP status used when surfacing each error code to clients
+const STATUS_BY_CODE: Record<PasskeyErrorCode, number> = {
+  challenge_invalid: 400,
+  verification_failed: 400,
+  unknown_passkey: 401,
+  already_registered: 409,
+  not_found: 404,
+};
+
+export class PasskeyError extends Error {
+  code: PasskeyErrorCode;
+  status: number;
+
+  constructor(code: PasskeyErrorCode, message: string) {
+    super(message);
+    this.name = 'PasskeyError';
+    this.code = code;
+    this.status = STATUS_BY_CODE[code];
+  }
+}
+
+// The signed-in account a passkey is being registered for
+export interface PasskeyAccount {
+  id: number | string;
+  email: string;
+}
+
+export function toPasskeySummary(passkey: ProfilePasskey): PasskeySummary {
+  return {
+    id: passkey.id,
+    name: passkey.name,
+    backedUp: passkey.backedUp,
+    createdAt: passkey.createdAt,
+    lastUsedAt: passkey.lastUsedAt,
+  };
+}
+
+// What a new passkey is called until the user renames it, e.g. "Passkey on iOS"
+export function defaultPasskeyName(userAgent: string | null | undefined): string {
+  const { os } = describeUserAgent(userAgent);
+  return os === 'Unknown' ? 'Passkey' : `Passkey on ${os}`;
+}
+
+function expectedCeremony(challenge: string): ExpectedCeremony {
+  return { challenge, origin: PASSKEY_ORIGIN, rpId: PASSKEY_RP_ID };
+}
+
+function verificationFailed(error: unknown): never {
+  if (error instanceof WebAuthnError) {
+    throw new PasskeyError('verification_failed', `Passkey check failed: ${error.message}`);
+  }
+  throw error;
+}
+
+/**
+ * Take the challenge a browser response answers; it can't be used again afterwards
+ */
+async function consumeChallenge(clientDataJSON: string, purpose: PasskeyChallengePurpose, store: PasskeyStore) {
+  let challenge: string;
+  try {
+    ({ challenge } = readClientData(clientDataJSON));
+  } catch (error) {
+    verificationFailed(error);
+  }
+
+  const record = await store.consumePasskeyChallenge(challenge, purpose);
+  if (!record || record.expiresAt <= new Date()) {
+    throw new PasskeyError('challenge_invalid', 'This passkey request has expired. Please try again.');
+  }
+  return record;
+}
+
+export async function listPasskeys(profileId: string, store: PasskeyStore = storage): Promise<PasskeySummary[]> {
+  return (await store.getPasskeys(profileId)).map(toPasskeySummary);
+}
+
+/**
+ * Options for navigator.credentials.create(); passkeys the account already has are excluded
+ */
+export async function passkeyRegistrationOptions(
+  account: PasskeyAccount,
+  store: PasskeyStore = storage
+): Promise<PasskeyRegistrationOptions> {
+  const profileId = String(account.id);
+  const existing = await store.getPasskeys(profileId);
+
+  // The authenticator hands this back when signing in; random, so it says nothing about the account
+  const userHandle = existing[0]?.userHandle ?? toBase64Url(crypto.randomBytes(16));
+  const { challenge } = await store.createPasskeyChallenge({
+    challenge: generateChallenge(),
+    purpose: 'registration',
+    profileId,
+    userHandle,
+    expiresAt: new Date(Date.now() + CHALLENGE_MS),
+  });
+
+  return {
+    challenge,
+    rp: { id: PASSKEY_RP_ID, name: PASSKEY_RP_NAME },
+    user: { id: userHandle, name: account.email, displayName: account.email },
+    pubKeyCredParams: PASSKEY_ALGORITHMS.map(alg => ({ type: 'public-key' as const, alg })),
+    timeout: CHALLENGE_MS,
+    attestation: 'none',
+    authenticatorSelection: { residentKey: 'required', requireResidentKey: true, userVerification: 'required' },
+    excludeCredentials: existing.map(passkey => ({ id: passkey.credentialId, type: 'public-key' as const, transports: passkey.transports })),
+  };
+}
+
+/**
+ * Check the browser's response to the registration options and store the new passkey
+ */
+export async function registerPasskey(
+  account: PasskeyAccount,
+  response: PasskeyRegistrationResponse,
+  name: string | undefined,
+  store: PasskeyStore = storage
+): Promise<ProfilePasskey> {
+  const profileId = String(account.id);
+  const challenge = await consumeChallenge(response.response.clientDataJSON, 'registration', store);
+  if (challenge.profileId !== profileId || !challenge.userHandle) {
+    throw new PasskeyError('challenge_invalid', 'This passkey request has expired. Please try again.');
+  }
+
+  let verified;
+  try {
+    verified = verifyRegistrationResponse(response, expectedCeremony(challenge.challenge));
+  } catch (error) {
+    verificationFailed(error);
+  }
+
+  if (await store.getPasskeyByCredentialId(verified.credentialId)) {
+    throw new PasskeyError('already_registered', 'This passkey is already registered');
+  }
+
+  return store.createPasskey({
+    profileId,
+    credentialId: verified.credentialId,
+    publicKey: verified.publicKey,
+    algorithm: verified.algorithm,
+    signCount: verified.signCount,
+    userHandle: challenge.userHandle,
+    transports: verified.transports,
+    backedUp: verified.backedUp,
+    name: name?.trim() || 'Passkey',
+  });
+}
+
+/**
+ * Options for navigator.credentials.get() on the sign-in page
+ */
+export async function passkeyAuthenticationOptions(store: PasskeyStore = storage): Promise<PasskeyAuthenticationOptions> {
+  const { challenge } = await store.createPasskeyChallenge({
+    challenge: generateChallenge(),
+    purpose: 'authentication',
+    expiresAt: new Date(Date.now() + CHALLENGE_MS),
+  });
+
+  return { challenge, rpId: PASSKEY_RP_ID, timeout: CHALLENGE_MS, userVerification: 'required', allowCredentials: [] };
+}
+
+/**
+ * Check a sign-in with a passkey; the returned passkey's profileId is who signed in
+ */
+export async function authenticateWithPasskey(
+  response: PasskeyAuthenticationResponse,
+  store: PasskeyStore = storage
+): Promise<ProfilePasskey> {
+  const challenge = await consumeChallenge(response.response.clientDataJSON, 'authentication', store);
+
+  const passkey = await store.getPasskeyByCredentialId(response.id);
+  if (!passkey) {
+    throw new PasskeyError('unknown_passkey', "This passkey isn't registered with Pinnity. Sign in with your password instead.");
+  }
+  if (response.response.userHandle && response.response.userHandle !== passkey.userHandle) {
+    throw new PasskeyError('verification_failed', 'Passkey check failed: user handle does not match');
+  }
+
+  let verified;
+  try {
+    verified = verifyAuthenticationResponse(response, passkey, expectedCeremony(challenge.challenge));
+  } catch (error) {
+    verificationFailed(error);
+  }
+
+  await store.recordPasskeyUse(passkey.id, verified.signCount, verified.backedUp);
+  return { ...passkey, signCount: verified.signCount, backedUp: verified.backedUp, lastUsedAt: new Date() };
+}
+
+export async function renamePasskey(
+  profileId: string,
+  passkeyId: number,
+  name: string,
+  store: PasskeyStore = storage
+): Promise<PasskeySummary> {
+  const renamed = await store.renamePasskey(profileId, passkeyId, name.trim());
+  if (!renamed) {
+    throw new PasskeyError('not_found', 'Passkey not found');
+  }
+  return toPasskeySummary(renamed);
+}
+
+export async function removePasskey(profileId: string, passkeyId: number, store: PasskeyStore = storage): Promise<void> {
+  if (!(await store.deletePasskey(profileId, passkeyId))) {
+    throw new PasskeyError('not_found', 'Passkey not found');
+  }
+}
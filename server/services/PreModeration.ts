@@ -0,0 +1,84 @@
+/**
+ * Automated pre-moderation of submitted deals
+ *
+ * Runs the admin-configured rules (see shared/preModeration) whenever a deal
+ * is submitted for review, and records what they decided on the approval row.
+ * Deals the rules approve or reject are reviewed straight away; the rest stay
+ * pending for a human reviewer, who sees why the rules didn't decide.
+ */
+import { storage, type IStorage } from '../storage';
+import {
+  evaluatePreModeration,
+  preModerationFeedback,
+  resolvePreModerationRules,
+  type PreModerationContext,
+  type PreModerationRuleDefinition
+} from '@shared/preModeration';
+import type { Deal, DealApproval } from '@shared/schema';
+
+// Deal statuses that count towards a vendor's track record
+const APPROVED_DEAL_STATUSES = ['approved', 'active', 'expired', 'archived'];
+
+// Deals a new submission can't share a title with
+const LIVE_DEAL_STATUSES = ['pending', 'pending_revision', 'approved', 'active'];
+
+export type PreModerationStore = Pick<
+  IStorage,
+  'getPreModerationRuleSettings' | 'getDealsByBusiness' | 'createDealApproval' | 'updateDealApproval' | 'updateDeal'
+>;
+
+/**
+ * Every rule with the admin's settings applied, including rules never configured
+ */
+export async function getPreModerationRules(
+  store: Pick<IStorage, 'getPreModerationRuleSettings'> = storage
+): Promise<PreModerationRuleDefinition[]> {
+  return resolvePreModerationRules(await store.getPreModerationRuleSettings());
+}
+
+async function buildContext(deal: Deal, store: PreModerationStore): Promise<PreModerationContext> {
+  const otherDeals = (await store.getDealsByBusiness(deal.businessId))
+    .filter(other => other.id !== deal.id);
+
+  return {
+    otherDealTitles: otherDeals
+      .filter(other => LIVE_DEAL_STATUSES.includes(other.status))
+      .map(other => other.title),
+    approvedDealCount: otherDeals.filter(other => APPROVED_DEAL_STATUSES.includes(other.status)).length,
+    rejectedDealCount: otherDeals.filter(other => other.status === 'rejected').length,
+  };
+}
+
+/**
+ * Start a review round for a submitted deal and let the rules decide it if they can
+ */
+export async function preModerateDeal(
+  deal: Deal,
+  submitterId: number,
+  store: PreModerationStore = storage
+): Promise<DealApproval> {
+  const [rules, context] = await Promise.all([
+    getPreModerationRules(store),
+    buildContext(deal, store),
+  ]);
+  const result = evaluatePreModeration(deal, rules, context);
+
+  const approval = await store.createDealApproval({
+    dealId: deal.id,
+    submitterId,
+    autoModeration: result,
+  });
+
+  if (result.outcome === 'auto_approve') {
+    return await store.updateDealApproval(approval.id, { status: 'approved' });
+  }
+
+  if (result.outcome === 'auto_reject') {
+    const feedback = preModerationFeedback(result);
+    const rejected = await store.updateDealApproval(approval.id, { status: 'rejected', feedback });
+    await store.updateDeal(deal.id, { rejectionReason: feedback });
+    return rejected;
+  }
+
+  return approval;
+}
@@ -0,0 +1,251 @@
+/**
+ * Redemption token service
+ *
+ * Issues short-lived, single-use signed tokens that a customer presents at the
+ * point of sale (as a QR code or a short alphanumeric code) and that the vendor
+ * consumes to record a redemption. Replaces the static per-deal PIN.
+ */
+import jsonwebtoken from 'jsonwebtoken';
+import crypto from 'crypto';
+import { storage, assertRedemptionAllowed } from '../storage';
+import { getRequiredEnv, getOptionalEnv } from '../../src/config/index.js';
+import type { Business, Deal, DealRedemption } from '@shared/schema';
+import { getOpenStatus, openingHoursTimeZone } from '@shared/businessHours';
+import { DAY_NAMES, formatTimeOfDay } from '@shared/dealSchedule';
+
+const JWT_SECRET = getRequiredEnv('JWT_SECRET');
+const REDEMPTION_TOKEN_TTL_SECONDS = parseInt(getOptionalEnv('REDEMPTION_TOKEN_TTL_SECONDS', '300'), 10);
+
+// Alphabet without easily confused characters (0/O, 1/I/L)
+const SHORT_CODE_ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+const SHORT_CODE_LENGTH = 8;
+
+const TOKEN_ISSUER = 'pinnity-app';
+const TOKEN_AUDIENCE = 'pinnity-vendor';
+
+export type RedemptionTokenErrorCode =
+  | 'deal_not_found'
+  | 'token_invalid'
+  | 'token_expired'
+  | 'token_used'
+  | 'wrong_business';
+
+// HTTP status used when surfacing each error code to clients
+const STATUS_BY_CODE: Record<RedemptionTokenErrorCode, number> = {
+  deal_not_found: 404,
+  token_invalid: 400,
+  token_expired: 410,
+  token_used: 409,
+  wrong_business: 403,
+};
+
+// Custom error for redemption token failures
+export class RedemptionTokenError extends Error {
+  code: RedemptionTokenErrorCode;
+  status: number;
+
+  constructor(code: RedemptionTokenErrorCode, message: string) {
+    super(message);
+    this.name = 'RedemptionTokenError';
+    this.code = code;
+    this.status = STATUS_BY_CODE[code];
+  }
+}
+
+export interface IssuedRedemptionToken {
+  token: string;
+  shortCode: string;
+  expiresAt: Date;
+  // Set when the business looks closed; redemption is still allowed
+  warning?: string;
+}
+
+interface RedemptionTokenPayload {
+  userId: number;
+  dealId: number;
+  jti: string;
+  tokenType: string;
+}
+
+function generateShortCode(): string {
+  const bytes = crypto.randomBytes(SHORT_CODE_LENGTH);
+  let code = '';
+  for (let i = 0; i < SHORT_CODE_LENGTH; i++) {
+    code += SHORT_CODE_ALPHABET[bytes[i] % SHORT_CODE_ALPHABET.length];
+  }
+  return code;
+}
+
+/**
+ * Normalise a short code typed by a vendor (case, spaces, dashes)
+ */
+export function normalizeShortCode(code: string): string {
+  return code.toUpperCase().replace(/[\s-]/g, '');
+}
+
+/**
+ * Ensure a deal can currently be redeemed by the given user
+ * This is an early check for friendlier errors; createRedemption enforces the
+ * same rules atomically when the token is consumed
+ */
+async function assertDealRedeemable(deal: Deal, userId: number): Promise<void> {
+  const userCount = await storage.getUserRedemptionCountForDeal(userId, deal.id);
+  const totalCount = (await storage.getDealRedemptions(deal.id)).length;
+  assertRedemptionAllowed(deal, userCount, totalCount);
+}
+
+/**
+ * Warn customers when a deal's business is closed according to its hours,
+ * since the vendor may not be there to scan the code
+ */
+async function getClosedBusinessWarning(deal: Deal & { business: Business }): Promise<string | undefined> {
+  const status = getOpenStatus(await storage.getBusinessHours(deal.businessId), new Date(), openingHoursTimeZone(deal));
+  if (!status || status.isOpen) return undefined;
+
+  if (!status.opensAt) {
+    return 'This business appears to be closed right now.';
+  }
+  const when = status.opensAt.daysAway === 0 ? 'today' : DAY_NAMES[status.opensAt.day];
+  return `This business appears to be closed right now. It opens ${when} at ${formatTimeOfDay(status.opensAt.time)}.`;
+}
+
+/**
+ * Issue a new single-use redemption token for a customer and deal
+ */
+export async function issueRedemptionToken(userId: number, dealId: number): Promise<IssuedRedemptionToken> {
+  const deal = await storage.getDeal(dealId);
+  if (!deal) {
+    throw new RedemptionTokenError('deal_not_found', 'Deal not found');
+  }
+
+  await assertDealRedeemable(deal, userId);
+
+  const jti = crypto.randomBytes(16).toString('hex');
+  const expiresAt = new Date(Date.now() + REDEMPTION_TOKEN_TTL_SECONDS * 1000);
+
+  // Short codes only need to be unique among live tokens
+  let shortCode = generateShortCode();
+  let existing = await storage.getRedemptionTokenByShortCode(shortCode);
+  while (existing && !existing.usedAt && existing.expiresAt > new Date()) {
+    shortCode = generateShortCode();
+    existing = await storage.getRedemptionTokenByShortCode(shortCode);
+  }
+
+  const payload: RedemptionTokenPayload = { userId, dealId, jti, tokenType: 'redemption' };
+
+  const token = jsonwebtoken.sign(payload, JWT_SECRET, {
+    expiresIn: REDEMPTION_TOKEN_TTL_SECONDS,
+    algorithm: 'HS256',
+    issuer: TOKEN_ISSUER,
+    audience: TOKEN_AUDIENCE,
+  });
+
+  await storage.createRedemptionToken({ userId, dealId, jti, shortCode, expiresAt });
+
+  const warning = await getClosedBusinessWarning(deal);
+
+  return { token, shortCode, expiresAt, ...(warning ? { warning } : {}) };
+}
+
+/**
+ * Report the state of a customer's own token so the app can show when the
+ * vendor has consumed it
+ */
+export async function getRedemptionTokenStatus(
+  userId: number,
+  dealId: number,
+  shortCode: string
+): Promise<'pending' | 'redeemed' | 'expired'> {
+  const record = await storage.getRedemptionTokenByShortCode(normalizeShortCode(shortCode));
+  if (!record || record.userId !== userId || record.dealId !== dealId) {
+    throw new RedemptionTokenError('token_invalid', 'Invalid redemption token');
+  }
+
+  if (record.usedAt) return 'redeemed';
+  if (record.expiresAt < new Date()) return 'expired';
+  return 'pending';
+}
+
+/**
+ * Verify the signature of a QR token and return its payload
+ */
+function decodeSignedToken(token: string): RedemptionTokenPayload {
+  try {
+    const payload = jsonwebtoken.verify(token, JWT_SECRET, {
+      algorithms: ['HS256'],
+      issuer: TOKEN_ISSUER,
+      audience: TOKEN_AUDIENCE,
+    }) as RedemptionTokenPayload;
+
+    if (payload.tokenType !== 'redemption') {
+      throw new RedemptionTokenError('token_invalid', 'Invalid redemption token');
+    }
+
+    return payload;
+  } catch (error) {
+    if (error instanceof RedemptionTokenError) throw error;
+    if (error instanceof jsonwebtoken.TokenExpiredError) {
+      throw new RedemptionTokenError('token_expired', 'This redemption token has expired');
+    }
+    throw new RedemptionTokenError('token_invalid', 'Invalid redemption token');
+  }
+}
+
+/**
+ * Consume a redemption token on behalf of a vendor and record the redemption
+ * Accepts either the signed QR token or its short code
+ */
+export async function consumeRedemptionToken(
+  tokenOrCode: string,
+  vendorUserId: number
+): Promise<{ redemption: DealRedemption; deal: Deal }> {
+  const isSignedToken = tokenOrCode.split('.').length === 3;
+
+  const record = isSignedToken
+    ? await storage.getRedemptionTokenByJti(decodeSignedToken(tokenOrCode).jti)
+    : await storage.getRedemptionTokenByShortCode(normalizeShortCode(tokenOrCode));
+
+  if (!record) {
+    throw new RedemptionTokenError('token_invalid', 'Invalid redemption token');
+  }
+  if (record.usedAt) {
+    throw new RedemptionTokenError('token_used', 'This redemption token has already been used');
+  }
+  if (record.expiresAt < new Date()) {
+    throw new RedemptionTokenError('token_expired', 'This redemption token has expired');
+  }
+
+  const deal = await storage.getDeal(record.dealId);
+  if (!deal) {
+    throw new RedemptionTokenError('deal_not_found', 'Deal not found');
+  }
+
+  // Vendors may only consume tokens for deals of the business they work for
+  const membership = await storage.getBusinessMembership(vendorUserId);
+  if (!membership || membership.business.id !== deal.businessId) {
+    throw new RedemptionTokenError('wrong_business', 'This token is for a deal from another business');
+  }
+
+  await assertDealRedeemable(deal, record.userId);
+
+  // Claim the token atomically so concurrent scans cannot both succeed
+  const claimed = await storage.claimRedemptionToken(record.id, vendorUserId);
+  if (!claimed) {
+    throw new RedemptionTokenError('token_used', 'This redemption token has already been used');
+  }
+
+  let redemption: DealRedemption;
+  try {
+    redemption = await storage.createRedemption(record.userId, record.dealId);
+  } catch (error) {
+    // Whether a concurrent redemption hit a limit or the insert failed, release the token so it is not burnt
+    await storage.updateRedemptionToken(record.id, { usedAt: null, verifiedBy: null }).catch(releaseError => {
+      console.error(`Error releasing redemption token ${record.id}:`, releaseError);
+    });
+    throw error;
+  }
+
+  await storage.updateRedemptionToken(record.id, { redemptionId: redemption.id });
+
+  return { redemption, deal };
+}
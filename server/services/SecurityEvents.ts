@@ -0,0 +1,39 @@
+/**
+ * Account security events: recording suspicious activity against a user
+ */
+import { storage, type IStorage } from '../storage';
+import type { SecurityEventType } from '@shared/securityEvents';
+import type { SecurityEvent } from '@shared/schema';
+
+type SecurityEventStore = Pick<IStorage, 'recordSecurityEvent'>;
+
+export interface SecurityEventRecord {
+  type: SecurityEventType;
+  userId: number | null;
+  ipAddress?: string | null;
+  userAgent?: string | null;
+  details?: Record<string, unknown>;
+}
+
+/**
+ * Record a security event and flag it in the server log
+ * Whatever triggered the event has already been handled, so a failure to record it is logged rather than thrown
+ */
+export async function recordSecurityEvent(
+  record: SecurityEventRecord,
+  store: SecurityEventStore = storage
+): Promise<SecurityEvent | null> {
+  console.warn(`SECURITY ALERT: ${record.type} for user ${record.userId ?? 'unknown'}`, record.details ?? {});
+  try {
+    return await store.recordSecurityEvent({
+      userId: record.userId,
+      type: record.type,
+      details: record.details ?? {},
+      ipAddress: record.ipAddress ?? null,
+      userAgent: record.userAgent ?? null,
+    });
+  } catch (error) {
+    console.error(`Security event error (${record.type} user ${record.userId}):`, error);
+    return null;
+  }
+}
@@ -0,0 +1,177 @@
+/**
+ * Device sessions
+ *
+ * Signing in stores a refresh token for the device and puts its row id in the
+ * access token as `sid`. Sessions are keyed by the Supabase profile ID, the
+ * same ID the access token carries as `userId`. Requests carrying a revoked or expired session are
+ * refused, so signing a device out takes effect straight away rather than
+ * when its access token runs out. Refreshing rotates the refresh token; the
+ * session keeps the device details but gets the new row's id.
+ *
+ * Tokens rotated from one sign-in form a family. Presenting a token that was
+ * already rotated or revoked means someone else has a copy, so the whole
+ * family is revoked, a security event is recorded and the caller gets a
+ * RefreshTokenReuseError; whoever holds the newest token is signed out too.
+ */
+import type { Request, Response } from 'express';
+import type { RefreshToken, User } from '@shared/schema';
+import type { SessionAccount, SessionSummary } from '@shared/sessions';
+import { REFRESH_TOKEN_REUSED } from '@shared/securityEvents';
+import { storage, type IStorage } from '../storage';
+import { generateRefreshToken, generateToken, verifyRefreshToken } from '../auth';
+import { setAuthCookie, clearCookie } from '../utils/cookieUtils';
+import { authCookieConfig, withCustomAge } from '../utils/cookieConfig';
+import { describeUserAgent, deviceLabel } from '../utils/userAgent';
+import { recordSecurityEvent } from './SecurityEvents';
+
+type SessionStore = Pick<IStorage,
+  'createRefreshToken' | 'getRefreshToken' | 'rotateRefreshToken' | 'revokeRefreshToken' | 'revokeRefreshTokenFamily' |
+  'revokeAllUserRefreshTokens' | 'getSession' | 'touchSession' | 'getSessionAccount' | 'recordSecurityEvent'>;
+
+type ClientInfo = { ipAddress?: string; userAgent?: string; deviceInfo?: string };
+
+export const AUTH_COOKIE = 'auth_token';
+export const REFRESH_COOKIE = 'refresh_token';
+
+export const SESSION_LIFETIME_MS = 24 * 60 * 60 * 1000;
+export const REMEMBERED_SESSION_LIFETIME_MS = 30 * 24 * 60 * 60 * 1000;
+
+// lastUsedAt is only written this often, to keep authentication to one read per request
+const TOUCH_INTERVAL_MS = 5 * 60 * 1000;
+
+// Two tabs refreshing at once present the same token; the slower one just lost the race
+const REUSE_GRACE_MS = 10 * 1000;
+
+export interface IssuedSession {
+  account: SessionAccount;
+  session: RefreshToken;
+  accessToken: string;
+  refreshToken: string;
+}
+
+export class RefreshTokenReuseError extends Error {
+  code = REFRESH_TOKEN_REUSED;
+  status = 401;
+
+  constructor() {
+    super('This sign-in was used somewhere else, so it has been ended. Please sign in again.');
+    this.name = 'RefreshTokenReuseError';
+  }
+}
+
+export function clientInfoOf(req: Request): ClientInfo {
+  const userAgent = req.get('user-agent');
+  return { ipAddress: req.ip, userAgent, deviceInfo: deviceLabel(userAgent) };
+}
+
+// Token helpers still take the legacy user type; they only read id, email and userType
+function asTokenUser(account: SessionAccount): User {
+  return account as unknown as User;
+}
+
+/**
+ * Start a session for a profile that just proved who it is
+ */
+export async function startSession(
+  account: SessionAccount,
+  clientInfo: ClientInfo,
+  lifetimeMs: number = SESSION_LIFETIME_MS,
+  store: SessionStore = storage
+): Promise<IssuedSession> {
+  const refreshToken = generateRefreshToken(asTokenUser(account));
+  const session = await store.createRefreshToken(account.id, refreshToken, new Date(Date.now() + lifetimeMs), clientInfo);
+  return { account, session, accessToken: generateToken(asTokenUser(account), session.id), refreshToken };
+}
+
+/**
+ * Swap a refresh token for a new token pair; null if the token is invalid,
+ * revoked or expired. The session keeps its original expiry.
+ * Throws RefreshTokenReuseError when a rotated or revoked token is replayed.
+ */
+export async function refreshSession(
+  refreshToken: string,
+  clientInfo: ClientInfo = {},
+  store: SessionStore = storage
+): Promise<IssuedSession | null> {
+  const claims = verifyRefreshToken(refreshToken);
+  if (!claims) return null;
+
+  const current = await store.getRefreshToken(refreshToken);
+  if (!current || current.profileId !== String(claims.userId)) return null;
+
+  if (current.isRevoked) {
+    if (current.revokedAt && Date.now() - current.revokedAt.getTime() < REUSE_GRACE_MS) return null;
+    return revokeReusedFamily(current, clientInfo, store);
+  }
+
+  // A deleted profile's sessions go with it, but a token may still be in flight
+  const account = await store.getSessionAccount(current.profileId);
+  if (!account) return null;
+
+  const nextToken = generateRefreshToken(asTokenUser(account));
+  const session = await store.rotateRefreshToken(refreshToken, nextToken, current.expiresAt);
+  if (!session) return null;
+
+  return { account, session, accessToken: generateToken(asTokenUser(account), session.id), refreshToken: nextToken };
+}
+
+async function revokeReusedFamily(token: RefreshToken, clientInfo: ClientInfo, store: SessionStore): Promise<never> {
+  // Tokens issued before families existed can't be traced, so every session of the user ends
+  const revoked = token.familyId
+    ? await store.revokeRefreshTokenFamily(token.familyId)
+    : await store.revokeAllUserRefreshTokens(token.profileId);
+
+  // Security events reference legacy user rows, so the profile goes in the details
+  await recordSecurityEvent({
+    type: 'refresh_token_reuse',
+    userId: null,
+    ipAddress: clientInfo.ipAddress,
+    userAgent: clientInfo.userAgent,
+    details: { profileId: token.profileId, sessionId: token.id, familyId: token.familyId, sessionsRevoked: revoked },
+  }, store);
+
+  throw new RefreshTokenReuseError();
+}
+
+/**
+ * Whether an access token's session is still live; marks it used every few minutes
+ */
+export async function isSessionActive(sessionId: number, profileId: number | string, store: SessionStore = storage): Promise<boolean> {
+  const session = await store.getSession(sessionId);
+  if (!session || session.profileId !== String(profileId) || session.isRevoked || session.expiresAt <= new Date()) {
+    return false;
+  }
+
+  const lastUsedAt = session.lastUsedAt ?? session.createdAt;
+  if (Date.now() - lastUsedAt.getTime() > TOUCH_INTERVAL_MS) {
+    await store.touchSession(sessionId);
+  }
+  return true;
+}
+
+export function toSessionSummary(session: RefreshToken, currentSessionId?: number): SessionSummary {
+  return {
+    id: session.id,
+    ...describeUserAgent(session.userAgent),
+    ipAddress: session.ipAddress,
+    createdAt: session.createdAt,
+    lastUsedAt: session.lastUsedAt ?? session.createdAt,
+    expiresAt: session.expiresAt,
+    current: session.id === currentSessionId,
+  };
+}
+
+export function setSessionCookies(res: Response, issued: IssuedSession): void {
+  const maxAge = Math.max(issued.session.expiresAt.getTime() - Date.now(), 0);
+  setAuthCookie(res, AUTH_COOKIE, issued.accessToken, withCustomAge(authCookieConfig, maxAge));
+  setAuthCookie(res, REFRESH_COOKIE, issued.refreshToken, withCustomAge(authCookieConfig, maxAge));
+}
+
+export function clearSessionCookies(res: Response): void {
+  clearCookie(res, AUTH_COOKIE, { path: authCookieConfig.path });
+  clearCookie(res, REFRESH_COOKIE, { path: authCookieConfig.path });
+}
+
+export function refreshTokenFromCookies(req: Request): string | undefined {
+  return req.signedCookies?.[REFRESH_COOKIE] || req.cookies?.[REFRESH_COOKIE] || undefined;
+}
@@ -0,0 +1,324 @@
+/**
+ * Two-factor authentication: TOTP enrolment, recovery codes and the code step of signing in
+ *
+ * State is kept per profile. Enrolling stores a new secret that only takes
+ * effect once the user confirms it with a code from their app; confirming
+ * issues the recovery codes, of which only hashes are stored. Each TOTP code
+ * and each recovery code is accepted once, and each sign-in challenge takes
+ * a limited number of wrong codes.
+ */
+import crypto from 'crypto';
+import { storage, type IStorage } from '../storage';
+import { generateTwoFactorChallenge, verifyTwoFactorChallenge, type TwoFactorChallengeClaims } from '../auth';
+import { base32Encode, generateTotpSecret, totpProvisioningUrl, verifyTotp } from '../utils/totp';
+import {
+  MAX_TWO_FACTOR_CHALLENGE_ATTEMPTS,
+  RECOVERY_CODE_COUNT,
+  TWO_FACTOR_CHALLENGE_MINUTES,
+  canUseTwoFactor,
+  isTotpCode,
+  isTwoFactorRequired,
+  normalizeRecoveryCode,
+  type TwoFactorChallenge,
+  type TwoFactorSetup,
+  type TwoFactorStatus
+} from '@shared/twoFactor';
+
+type TwoFactorStore = Pick<IStorage,
+  | 'getTwoFactor'
+  | 'startTwoFactorEnrolment'
+  | 'enableTwoFactor'
+  | 'replaceRecoveryCodes'
+  | 'useRecoveryCode'
+  | 'recordTotpStep'
+  | 'deleteTwoFactor'
+>;
+
+export type TwoFactorErrorCode =
+  | 'not_available'
+  | 'already_enabled'
+  | 'not_enrolling'
+  | 'not_enabled'
+  | 'invalid_code'
+  | 'required'
+  | 'challenge_invalid';
+
+// HTTP status used when surfacing each error code to clients
+const STATUS_BY_CODE: Record<TwoFactorErrorCode, number> = {
+  not_available: 403,
+  already_enabled: 409,
+  not_enrolling: 409,
+  not_enabled: 409,
+  invalid_code: 400,
+  required: 403,
+  challenge_invalid: 401,
+};
+
+export class TwoFactorError extends Error {
+  code: TwoFactorErrorCode;
+  status: number;
+
+  constructor(code: TwoFactorErrorCode, message: string) {
+    super(message);
+    this.name = 'TwoFactorError';
+    this.code = code;
+    this.status = STATUS_BY_CODE[code];
+  }
+}
+
+// The account two-factor is being set up or checked for
+export interface TwoFactorAccount {
+  id: number | string;
+  email: string;
+  userType: string;
+}
+
+export interface TwoFactorVerification {
+  method: 'totp' | 'recovery_code';
+  recoveryCodesLeft: number;
+}
+
+export function hashRecoveryCode(code: string): string {
+  return crypto.createHash('sha256').update(normalizeRecoveryCode(code)).digest('hex');
+}
+
+/**
+ * Fresh recovery codes, formatted for reading out, e.g. "k7m2x-q9vfp"
+ */
+export function generateRecoveryCodes(): string[] {
+  return Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const code = base32Encode(crypto.randomBytes(7)).slice(0, 10).toLowerCase();
+    return `${code.slice(0, 5)}-${code.slice(5)}`;
+  });
+}
+
+export async function getTwoFactorStatus(account: TwoFactorAccount, store: TwoFactorStore = storage): Promise<TwoFactorStatus> {
+  const record = await store.getTwoFactor(String(account.id));
+  const enabled = !!record?.enabledAt;
+  return {
+    available: canUseTwoFactor(account.userType),
+    enabled,
+    required: isTwoFactorRequired(account.userType),
+    enabledAt: record?.enabledAt ?? null,
+    recoveryCodesLeft: enabled ? record!.recoveryCodes.length : 0,
+  };
+}
+
+/**
+ * Start enrolling with a new secret; nothing changes for sign-in until it is confirmed
+ * Throws TwoFactorError if the account type can't use two-factor or already has it on
+ */
+export async function beginTwoFactorEnrolment(account: TwoFactorAccount, store: TwoFactorStore = storage): Promise<TwoFactorSetup> {
+  if (!canUseTwoFactor(account.userType)) {
+    throw new TwoFactorError('not_available', 'Two-factor authentication is available to business and admin accounts');
+  }
+
+  const existing = await store.getTwoFactor(String(account.id));
+  if (existing?.enabledAt) {
+    throw new TwoFactorError('already_enabled', 'Two-factor authentication is already on');
+  }
+
+  const secret = generateTotpSecret();
+  await store.startTwoFactorEnrolment(String(account.id), secret);
+  return { secret, otpauthUrl: totpProvisioningUrl(secret, account.email) };
+}
+
+/**
+ * Turn two-factor on with the first code from the user's app
+ * Returns the recovery codes, which are never shown again
+ */
+export async function confirmTwoFactorEnrolment(
+  profileId: number | string,
+  code: string,
+  store: TwoFactorStore = storage
+): Promise<string[]> {
+  const record = await store.getTwoFactor(String(profileId));
+  if (!record) {
+    throw new TwoFactorError('not_enrolling', 'Start setting up two-factor authentication first');
+  }
+  if (record.enabledAt) {
+    throw new TwoFactorError('already_enabled', 'Two-factor authentication is already on');
+  }
+
+  const step = isTotpCode(code) ? verifyTotp(record.secret, code) : null;
+  if (step === null) {
+    throw new TwoFactorError('invalid_code', "That code didn't match. Check your authenticator app and try again.");
+  }
+
+  const recoveryCodes = generateRecoveryCodes();
+  await store.enableTwoFactor(String(profileId), recoveryCodes.map(hashRecoveryCode), step);
+  return recoveryCodes;
+}
+
+/**
+ * Check a code from the authenticator app, or use up a recovery code
+ * Throws TwoFactorError if two-factor is off or the code is wrong or already used
+ */
+export async function verifyTwoFactorCode(
+  profileId: number | string,
+  code: string,
+  store: TwoFactorStore = storage
+): Promise<TwoFactorVerification> {
+  const record = await store.getTwoFactor(String(profileId));
+  if (!record?.enabledAt) {
+    throw new TwoFactorError('not_enabled', 'Two-factor authentication is not on for this account');
+  }
+
+  if (isTotpCode(code)) {
+    const step = verifyTotp(record.secret, code);
+    if (step === null) {
+      throw new TwoFactorError('invalid_code', "That code didn't match. Check your authenticator app and try again.");
+    }
+    if (!await store.recordTotpStep(String(profileId), step)) {
+      throw new TwoFactorError('invalid_code', 'That code was already used. Wait for the next one.');
+    }
+    return { method: 'totp', recoveryCodesLeft: record.recoveryCodes.length };
+  }
+
+  if (!await store.useRecoveryCode(String(profileId), hashRecoveryCode(code))) {
+    throw new TwoFactorError('invalid_code', "That recovery code isn't valid or was already used.");
+  }
+  return { method: 'recovery_code', recoveryCodesLeft: record.recoveryCodes.length - 1 };
+}
+
+/**
+ * Replace every recovery code; the old ones stop working
+ */
+export async function regenerateRecoveryCodes(
+  profileId: number | string,
+  code: string,
+  store: TwoFactorStore = storage
+): Promise<string[]> {
+  await verifyTwoFactorCode(profileId, code, store);
+
+  const recoveryCodes = generateRecoveryCodes();
+  await store.replaceRecoveryCodes(String(profileId), recoveryCodes.map(hashRecoveryCode));
+  return recoveryCodes;
+}
+
+/**
+ * Turn two-factor off with a current code; accounts that must use it can't
+ */
+export async function disableTwoFactor(
+  account: TwoFactorAccount,
+  code: string,
+  store: TwoFactorStore = storage
+): Promise<void> {
+  if (isTwoFactorRequired(account.userType)) {
+    throw new TwoFactorError('required', 'Admin accounts must keep two-factor authentication on');
+  }
+
+  await verifyTwoFactorCode(account.id, code, store);
+  await store.deleteTwoFactor(String(account.id));
+}
+
+/**
+ * Clear a user's two-factor for them (admin-assisted reset); false if it wasn't set up
+ * Admins have to enrol again at their next sign-in; others can sign in with their password
+ */
+export async function resetTwoFactor(profileId: number | string, store: TwoFactorStore = storage): Promise<boolean> {
+  return store.deleteTwoFactor(String(profileId));
+}
+
+/**
+ * What a sign-in with the right password still needs: null when the password is enough,
+ * otherwise a challenge for a code, or for enrolling first if the account must have two-factor
+ */
+export async function twoFactorChallengeFor(
+  account: TwoFactorAccount,
+  rememberMe: boolean,
+  store: TwoFactorStore = storage
+): Promise<TwoFactorChallenge | null> {
+  if (!canUseTwoFactor(account.userType)) return null;
+
+  const record = await store.getTwoFactor(String(account.id));
+  const enabled = !!record?.enabledAt;
+  if (!enabled && !isTwoFactorRequired(account.userType)) return null;
+
+  const claims: TwoFactorChallengeClaims = {
+    userId: account.id,
+    email: account.email,
+    userType: account.userType,
+    rememberMe,
+    enrol: !enabled,
+  };
+  return { twoFactorRequired: true, challengeToken: generateTwoFactorChallenge(claims), enrolmentRequired: !enabled };
+}
+
+/**
+ * Who a sign-in challenge is for; throws once it has run out
+ */
+export function readTwoFactorChallenge(challengeToken: string): TwoFactorChallengeClaims {
+  const claims = verifyTwoFactorChallenge(challengeToken);
+  if (!claims) {
+    throw new TwoFactorError('challenge_invalid', 'Your sign-in timed out. Please enter your password again.');
+  }
+  return claims;
+}
+
+// Wrong codes entered per challenge, by token hash; kept no longer than a challenge lasts
+const challengeFailures = new Map<string, { count: number; expiresAt: number }>();
+
+function challengeKey(challengeToken: string): string {
+  return crypto.createHash('sha256').update(challengeToken).digest('hex');
+}
+
+function challengeFailureCount(key: string): number {
+  const now = Date.now();
+  for (const [candidate, failures] of Array.from(challengeFailures)) {
+    if (failures.expiresAt <= now) challengeFailures.delete(candidate);
+  }
+  return challengeFailures.get(key)?.count ?? 0;
+}
+
+function countChallengeFailure(key: string): void {
+  const failures = challengeFailures.get(key);
+  if (failures) {
+    failures.count++;
+  } else {
+    challengeFailures.set(key, { count: 1, expiresAt: Date.now() + TWO_FACTOR_CHALLENGE_MINUTES * 60 * 1000 });
+  }
+}
+
+/**
+ * Enrolment for an account that has to set up two-factor before it can finish signing in
+ */
+export async function beginChallengeEnrolment(challengeToken: string, store: TwoFactorStore = storage): Promise<TwoFactorSetup> {
+  const claims = readTwoFactorChallenge(challengeToken);
+  if (!claims.enrol) {
+    throw new TwoFactorError('already_enabled', 'Two-factor authentication is already on');
+  }
+  return beginTwoFactorEnrolment({ id: claims.userId, email: claims.email, userType: claims.userType }, store);
+}
+
+/**
+ * The code step of signing in; confirms the enrolment when the challenge asked for one
+ * Returns who signed in, plus the new recovery codes after an enrolment. After
+ * MAX_TWO_FACTOR_CHALLENGE_ATTEMPTS wrong codes the challenge stops working.
+ */
+export async function completeTwoFactorChallenge(
+  challengeToken: string,
+  code: string,
+  store: TwoFactorStore = storage
+): Promise<{ claims: TwoFactorChallengeClaims; recoveryCodes?: string[] }> {
+  const claims = readTwoFactorChallenge(challengeToken);
+  const key = challengeKey(challengeToken);
+  if (challengeFailureCount(key) >= MAX_TWO_FACTOR_CHALLENGE_ATTEMPTS) {
+    throw new TwoFactorError('challenge_invalid', 'Too many wrong codes. Please enter your password again.');
+  }
+
+  try {
+    if (claims.enrol) {
+      const recoveryCodes = await confirmTwoFactorEnrolment(claims.userId, code, store);
+      return { claims, recoveryCodes };
+    }
+
+    await verifyTwoFactorCode(claims.userId, code, store);
+    return { claims };
+  } catch (error) {
+    if (error instanceof TwoFactorError && error.code === 'invalid_code') {
+      countChallengeFailure(key);
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,69 @@
+/**
+ * Web Push service
+ *
+ * Sends push notifications to every device a user has subscribed, using the
+ * VAPID key pair from VAPID_PUBLIC_KEY / VAPID_PRIVATE_KEY. Subscriptions the
+ * push service reports as expired are deleted. Push is disabled when no keys
+ * are configured; generate them with `node ./scripts/generate-secrets.js`.
+ */
+import { storage } from '../storage';
+import { getOptionalEnv } from '../../src/config/index.js';
+import { sendToSubscriptions, type PushPayload, type VapidDetails, type WebPushBatchResult } from '../utils/webPush';
+import type { DealReminderChannel } from './DealReminders';
+
+const VAPID_PUBLIC_KEY = getOptionalEnv('VAPID_PUBLIC_KEY', '');
+const VAPID_PRIVATE_KEY = getOptionalEnv('VAPID_PRIVATE_KEY', '');
+const VAPID_SUBJECT = getOptionalEnv('VAPID_SUBJECT', 'mailto:support@pinnity.com');
+
+export function isWebPushConfigured(): boolean {
+  return VAPID_PUBLIC_KEY !== '' && VAPID_PRIVATE_KEY !== '';
+}
+
+/**
+ * Public key browsers need to subscribe, or null when push is disabled
+ */
+export function getVapidPublicKey(): string | null {
+  return isWebPushConfigured() ? VAPID_PUBLIC_KEY : null;
+}
+
+function getVapidDetails(): VapidDetails {
+  return { subject: VAPID_SUBJECT, publicKey: VAPID_PUBLIC_KEY, privateKey: VAPID_PRIVATE_KEY };
+}
+
+/**
+ * Push a notification to all of a user's devices
+ */
+export async function sendPushToUser(userId: number, payload: PushPayload): Promise<WebPushBatchResult> {
+  if (!isWebPushConfigured()) {
+    return { sent: 0, removed: 0, failed: 0 };
+  }
+
+  const subscriptions = await storage.getWebPushSubscriptions(userId);
+  return sendToSubscriptions(
+    subscriptions,
+    payload,
+    getVapidDetails(),
+    endpoint => storage.deleteWebPushSubscriptionByEndpoint(endpoint)
+  );
+}
+
+/**
+ * Expiring-deal reminders as push notifications
+ */
+export const webPushReminderChannel: DealReminderChannel = {
+  name: 'push',
+  isEnabled: (preferences) => isWebPushConfigured() && preferences?.pushNotifications !== false,
+  deliver: async ({ reminder, deal, title, body, url }) => {
+    const result = await sendPushToUser(reminder.userId, {
+      title,
+      body,
+      url,
+      tag: `deal-expiration-${deal.id}`,
+    });
+
+    // Retry later if no device got it; users without devices have nothing to retry
+    if (result.failed > 0 && result.sent === 0) {
+      throw new Error(`Push delivery failed on ${result.failed} device(s)`);
+    }
+  },
+};
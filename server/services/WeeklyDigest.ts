@@ -0,0 +1,155 @@
+/**
+ * Weekly deal digest
+ *
+ * Emails each opted-in user (`weeklyNewsletter`) a ranked selection of deals
+ * that are new this week or end within the next week; see dealDigest for the
+ * ranking. The digest is marketing email, so it also needs the user's
+ * marketing consent, and carries a signed one-click unsubscribe link. Each
+ * user gets at most one digest per ISO week, however often the job runs.
+ */
+import { storage, type IStorage } from '../storage';
+import { canSendEmail, queueEmail } from '../email/outbox';
+import { rankDigestDeals, DEFAULT_DIGEST_SIZE, type RankedDigestDeal } from '../utils/dealDigest';
+import { createUnsubscribeToken } from '../utils/unsubscribeTokens';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DIGEST_WINDOW_DAYS = 7;
+
+export interface WeeklyDigestOptions {
+  // Public address of the app, for links
+  appUrl: string;
+  unsubscribeSecret: string;
+  digestSize?: number;
+}
+
+export interface WeeklyDigestRunMetrics {
+  week: string;
+  candidateDeals: number;
+  usersConsidered: number;
+  queued: number;
+  dealsIncluded: number;
+  skippedNoConsent: number;
+  skippedNoDeals: number;
+  // Already queued by an earlier run this week
+  skippedAlreadySent: number;
+  failed: number;
+  durationMs: number;
+}
+
+type WeeklyDigestStore = Pick<
+  IStorage,
+  | 'getWeeklyDigestRecipients' | 'getDigestDeals' | 'getUserFavorites'
+  | 'enqueueEmail' | 'claimDueEmails' | 'updateEmail' | 'getNotificationPreferences' | 'getMarketingConsent'
+>;
+
+/**
+ * ISO week of a date, e.g. "2026-W43"
+ */
+export function getDigestWeek(date: Date): string {
+  const day = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  // The Thursday of the week decides which year the week belongs to
+  day.setUTCDate(day.getUTCDate() + 4 - (day.getUTCDay() || 7));
+  const yearStart = new Date(Date.UTC(day.getUTCFullYear(), 0, 1));
+  const week = Math.ceil(((day.getTime() - yearStart.getTime()) / DAY_MS + 1) / 7);
+  return `${day.getUTCFullYear()}-W${week.toString().padStart(2, '0')}`;
+}
+
+export function getUnsubscribeUrl(appUrl: string, userId: number, secret: string): string {
+  const token = createUnsubscribeToken(userId, 'weekly_digest', secret);
+  return `${appUrl}/api/v1/email/unsubscribe?token=${encodeURIComponent(token)}`;
+}
+
+function toDigestEmailDeal(ranked: RankedDigestDeal, appUrl: string) {
+  return {
+    title: ranked.deal.title,
+    businessName: ranked.deal.business.businessName,
+    discount: ranked.deal.discount,
+    url: `${appUrl}/deals/${ranked.deal.id}`,
+    reason: ranked.reasons.join(' · '),
+  };
+}
+
+/**
+ * Queue this week's digest for every opted-in user
+ */
+export async function sendWeeklyDigests(
+  now: Date,
+  options: WeeklyDigestOptions,
+  store: WeeklyDigestStore = storage
+): Promise<WeeklyDigestRunMetrics> {
+  const startedAt = Date.now();
+  const week = getDigestWeek(now);
+  const newSince = new Date(now.getTime() - DIGEST_WINDOW_DAYS * DAY_MS);
+  const expiringBefore = new Date(now.getTime() + DIGEST_WINDOW_DAYS * DAY_MS);
+
+  const deals = await store.getDigestDeals(now, newSince, expiringBefore);
+  const metrics: WeeklyDigestRunMetrics = {
+    week,
+    candidateDeals: deals.length,
+    usersConsidered: 0,
+    queued: 0,
+    dealsIncluded: 0,
+    skippedNoConsent: 0,
+    skippedNoDeals: 0,
+    skippedAlreadySent: 0,
+    failed: 0,
+    durationMs: 0,
+  };
+
+  let afterUserId = 0;
+  for (;;) {
+    const recipients = await store.getWeeklyDigestRecipients(afterUserId);
+    if (recipients.length === 0) break;
+    afterUserId = recipients[recipients.length - 1].user.id;
+
+    for (const { user, preferences } of recipients) {
+      metrics.usersConsidered++;
+
+      try {
+        const recipient = { email: user.email, userId: user.id };
+        if (!(await canSendEmail('marketing', recipient, store))) {
+          metrics.skippedNoConsent++;
+          continue;
+        }
+
+        const favorites = await store.getUserFavorites(user.id);
+        const ranked = rankDigestDeals(deals, {
+          categories: preferences?.categories ?? [],
+          favoriteDealIds: new Set(favorites.map(favorite => favorite.dealId)),
+          favoriteBusinessIds: new Set(favorites.map(favorite => favorite.deal.businessId)),
+          home: preferences?.homeLatitude != null && preferences?.homeLongitude != null
+            ? { latitude: preferences.homeLatitude, longitude: preferences.homeLongitude }
+            : null,
+          radiusMiles: preferences?.searchRadiusMiles,
+          newSince,
+          expiringBefore,
+        }, now, options.digestSize ?? DEFAULT_DIGEST_SIZE);
+
+        if (ranked.length === 0) {
+          metrics.skippedNoDeals++;
+          continue;
+        }
+
+        const queued = await queueEmail('weekly_digest', {
+          firstName: user.firstName,
+          deals: ranked.map(deal => toDigestEmailDeal(deal, options.appUrl)),
+          unsubscribeUrl: getUnsubscribeUrl(options.appUrl, user.id, options.unsubscribeSecret),
+          preferencesUrl: `${options.appUrl}/settings`,
+        }, recipient, store, { dedupeKey: `weekly_digest:${user.id}:${week}` });
+
+        if (queued) {
+          metrics.queued++;
+          metrics.dealsIncluded += ranked.length;
+        } else {
+          metrics.skippedAlreadySent++;
+        }
+      } catch (error) {
+        console.error(`WeeklyDigest: Error building digest for user ${user.id}:`, error);
+        metrics.failed++;
+      }
+    }
+  }
+
+  metrics.durationMs = Date.now() - startedAt;
+  return metrics;
+}
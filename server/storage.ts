@@ -1,22 +1,56 @@
 import { 
   users, businesses, deals, userFavorites, dealRedemptions, userNotificationPreferences,
-  dealApprovals, businessHours, businessSocial, businessDocuments, redemptionRatings,
-  passwordResetTokens, refreshTokens,
+  dealApprovals, dealReviewComments, businessHours, businessSocial, businessDocuments, redemptionRatings,
+  passwordResetTokens, refreshTokens, redemptionTokens, dealStatusHistory, dealReminders,
+  webPushSubscriptions, emailOutbox, profiles, userPreferences, notifications,
+  rejectionReasons, moderationChecklistItems, moderationDecisions, preModerationRules,
   type User, type InsertUser, type Business, type InsertBusiness, 
   type Deal, type InsertDeal, type UserFavorite, type InsertUserFavorite,
   type DealRedemption, type InsertDealRedemption, 
   type UserNotificationPreferences, type InsertUserNotificationPreferences,
+  type UserPreferences, type InsertUserPreferences,
   type DealApproval, type InsertDealApproval,
+  type DealReviewComment, type InsertDealReviewComment,
   type BusinessHours, type InsertBusinessHours,
   type BusinessSocial, type InsertBusinessSocial,
   type BusinessDocument, type InsertBusinessDocument,
   type RedemptionRating, type InsertRedemptionRating, type RatingData,
   type PasswordResetToken, type InsertPasswordResetToken,
-  type RefreshToken, type InsertRefreshToken
+  type RefreshToken, type InsertRefreshToken,
+  type RedemptionToken, type InsertRedemptionToken,
+  type DealStatusHistory,
+  type DealReminder, type InsertDealReminder,
+  type WebPushSubscription, type InsertWebPushSubscription,
+  type EmailOutboxMessage, type InsertEmailOutboxMessage,
+  type Notification, type InsertNotification,
+  type RejectionReason, type InsertRejectionReason,
+  type ModerationChecklistItem, type InsertModerationChecklistItem,
+  type ModerationDecision, type InsertModerationDecision,
+  type PreModerationRuleSetting, type InsertPreModerationRuleSetting,
+  adminAuditLog, type AdminAuditEntry,
+  businessMembers, businessInvitations,
+  type BusinessMember, type BusinessInvitation, type InsertBusinessInvitation,
+  securityEvents, type SecurityEvent, type InsertSecurityEvent,
+  profileTwoFactor, type ProfileTwoFactor,
+  profilePasskeys, type ProfilePasskey, type InsertProfilePasskey,
+  passkeyChallenges, type PasskeyChallenge, type InsertPasskeyChallenge,
+  loginThrottles, type LoginThrottle
 } from "@shared/schema";
 import bcrypt from 'bcryptjs';
+import { randomUUID } from 'crypto';
 import { db } from './db';
-import { eq, and, or, desc, asc, sql, inArray, gte, lte, count, ne, isNull, isNotNull } from 'drizzle-orm';
+import { haversineKm, isWithinBounds, boundsForRadius, type GeoQuery, type GeoBounds } from './utils/geo';
+import { DealSearchIndex, type DealSearchHit, type DealSearchOptions, type SearchSuggestion } from './utils/dealSearch';
+import { dealReviewNotification, businessVerificationNotification, ratingPromptNotification, type NewNotification } from './utils/notifications';
+import { sealAuditEntry, type NewAdminAuditEntry } from './utils/auditChain';
+import { createDealSnapshot } from '@shared/dealRevisions';
+import type { RejectionReasonCount } from '@shared/moderation';
+import type { PreModerationResult } from '@shared/preModeration';
+import type { BusinessRole, BusinessTeamMember, InvitableBusinessRole } from '@shared/businessMembers';
+import type { SessionAccount } from '@shared/sessions';
+import type { BulkBusinessAction, BulkDealAction, BulkItemResult, BulkTargetType, BulkUserAction } from '@shared/bulkActions';
+import { isScheduledAt, getScheduleAvailability, formatTimeOfDay, DAY_NAMES } from '@shared/dealSchedule';
+import { eq, and, or, desc, asc, sql, inArray, gt, gte, lt, lte, count, ne, isNull, isNotNull } from 'drizzle-orm';
 
 export interface IStorage {
   // User methods
@@ -38,12 +72,59 @@ export interface IStorage {
   resetPasswordWithToken(token: string, newPassword: string): Promise<boolean>;
   
   // Refresh token methods
-  createRefreshToken(userId: number, token: string, expiresAt: Date, clientInfo?: { ipAddress?: string, userAgent?: string, deviceInfo?: string }): Promise<RefreshToken>;
+  createRefreshToken(profileId: string, token: string, expiresAt: Date, clientInfo?: { ipAddress?: string, userAgent?: string, deviceInfo?: string }): Promise<RefreshToken>;
   getRefreshToken(token: string): Promise<RefreshToken | undefined>;
   revokeRefreshToken(token: string): Promise<boolean>;
-  revokeAllUserRefreshTokens(userId: number): Promise<number>;
+  revokeAllUserRefreshTokens(profileId: string): Promise<number>;
   rotateRefreshToken(oldToken: string, newToken: string, expiresAt: Date): Promise<RefreshToken | null>;
   
+  revokeRefreshTokenFamily(familyId: string): Promise<number>;
+  
+  // Sessions: each signed-in device holds one live refresh token, keyed by profile ID
+  getSession(id: number): Promise<RefreshToken | undefined>;
+  getActiveSessions(profileId: string): Promise<RefreshToken[]>;
+  touchSession(id: number): Promise<void>;
+  revokeSession(profileId: string, id: number): Promise<boolean>;
+  revokeOtherSessions(profileId: string, keepId: number): Promise<number>;
+  getSessionAccount(profileId: string): Promise<SessionAccount | undefined>;
+  
+  // Security events
+  recordSecurityEvent(event: InsertSecurityEvent): Promise<SecurityEvent>;
+  
+  // Login throttling, keyed by lowercased email
+  getLoginThrottle(email: string): Promise<LoginThrottle | undefined>;
+  // Counts one more failure and returns the new total
+  recordFailedLogin(email: string, ipAddress?: string | null): Promise<LoginThrottle>;
+  updateLoginThrottle(email: string, changes: Partial<Pick<LoginThrottle, 'nextAttemptAt' | 'lockedUntil' | 'unlockTokenHash'>>): Promise<void>;
+  clearLoginThrottle(email: string): Promise<boolean>;
+  // Clears the lockout the token was emailed for, if it hasn't run out
+  clearLoginThrottleByUnlockToken(unlockTokenHash: string): Promise<LoginThrottle | undefined>;
+  getLockedLoginThrottles(): Promise<LoginThrottle[]>;
+  
+  // Two-factor methods, keyed by profile id
+  getTwoFactor(profileId: string): Promise<ProfileTwoFactor | undefined>;
+  // Replaces any earlier enrolment with a new, not yet enabled secret
+  startTwoFactorEnrolment(profileId: string, secret: string): Promise<ProfileTwoFactor>;
+  enableTwoFactor(profileId: string, recoveryCodeHashes: string[], step: number): Promise<ProfileTwoFactor | undefined>;
+  replaceRecoveryCodes(profileId: string, recoveryCodeHashes: string[]): Promise<void>;
+  // False if the code doesn't exist or was already used
+  useRecoveryCode(profileId: string, codeHash: string): Promise<boolean>;
+  // False if a code from this step or a later one was already accepted
+  recordTotpStep(profileId: string, step: number): Promise<boolean>;
+  deleteTwoFactor(profileId: string): Promise<boolean>;
+  
+  // Passkey methods, keyed by profile id
+  getPasskeys(profileId: string): Promise<ProfilePasskey[]>;
+  getPasskeyByCredentialId(credentialId: string): Promise<ProfilePasskey | undefined>;
+  createPasskey(passkey: InsertProfilePasskey): Promise<ProfilePasskey>;
+  recordPasskeyUse(id: number, signCount: number, backedUp: boolean): Promise<void>;
+  renamePasskey(profileId: string, id: number, name: string): Promise<ProfilePasskey | undefined>;
+  deletePasskey(profileId: string, id: number): Promise<boolean>;
+  // Also clears out challenges that ran out unused
+  createPasskeyChallenge(challenge: InsertPasskeyChallenge): Promise<PasskeyChallenge>;
+  // Removes the challenge so it can't be answered twice; expiry is left to the caller
+  consumePasskeyChallenge(challenge: string, purpose: string): Promise<PasskeyChallenge | undefined>;
+  
   // Admin methods
   adminCreateUser(userData: Omit<InsertUser, "id">, password: string): Promise<User>;
   adminUpdateUser(userId: number, userData: Partial<Omit<InsertUser, "id">>): Promise<User>;
@@ -60,8 +141,21 @@ export interface IStorage {
   createTempBusiness(businessData: Partial<Omit<InsertBusiness, "id">>): Promise<Business>;
   deleteBusiness(id: number): Promise<boolean>;
   
+  // Business membership methods; the owner is businesses.userId, managers and staff are member rows
+  getBusinessMembership(userId: number): Promise<BusinessMembership | undefined>;
+  getBusinessTeam(businessId: number): Promise<BusinessTeamMember[]>;
+  updateBusinessMemberRole(businessId: number, userId: number, role: InvitableBusinessRole): Promise<BusinessMember | undefined>;
+  removeBusinessMember(businessId: number, userId: number): Promise<boolean>;
+  transferBusinessOwnership(businessId: number, newOwnerId: number): Promise<Business>;
+  createBusinessInvitation(invitation: Omit<InsertBusinessInvitation, "id" | "acceptedAt" | "acceptedBy" | "revokedAt" | "createdAt">): Promise<BusinessInvitation>;
+  getBusinessInvitationByTokenHash(tokenHash: string): Promise<BusinessInvitation | undefined>;
+  getPendingBusinessInvitations(businessId: number): Promise<BusinessInvitation[]>;
+  revokeBusinessInvitation(businessId: number, id: number): Promise<boolean>;
+  acceptBusinessInvitation(id: number, userId: number): Promise<BusinessMember | undefined>;
+  
   // Business Hours methods
   getBusinessHours(businessId: number): Promise<BusinessHours[]>;
+  getBusinessHoursForBusinesses(businessIds: number[]): Promise<BusinessHours[]>;
   addBusinessHours(businessHours: Omit<InsertBusinessHours, "id">): Promise<BusinessHours>;
   updateBusinessHours(id: number, businessHoursData: Partial<Omit<InsertBusinessHours, "id" | "businessId">>): Promise<BusinessHours>;
   deleteBusinessHours(id: number): Promise<void>;
@@ -79,6 +173,9 @@ export interface IStorage {
 
   // Deal methods
   getDeals(): Promise<(Deal & { business: Business })[]>;
+  getDealsNearby(query: GeoQuery): Promise<(Deal & { business: Business; distanceKm: number | null })[]>;
+  searchDeals(query: string, options?: DealSearchOptions): Promise<DealSearchHit[]>;
+  suggestDeals(query: string, options?: DealSearchOptions): Promise<SearchSuggestion[]>;
   getDeal(id: number): Promise<(Deal & { business: Business }) | undefined>;
   getDealsByBusiness(businessId: number): Promise<Deal[]>;
   getDealsByStatus(status: string): Promise<(Deal & { business: Business })[]>;
@@ -86,7 +183,9 @@ export interface IStorage {
   createDeal(deal: Omit<InsertDeal, "id" | "createdAt">): Promise<Deal>;
   updateDeal(id: number, dealData: Partial<Omit<InsertDeal, "id" | "businessId">>): Promise<Deal>;
   deleteDeal(id: number): Promise<void>;
-  updateDealStatus(id: number, status: string): Promise<Deal>;
+  updateDealStatus(id: number, status: string, change?: DealStatusChange): Promise<Deal>;
+  transitionDealsByDate(rule: DealLifecycleRule): Promise<DealStatusHistory[]>;
+  getDealStatusHistory(dealId: number): Promise<DealStatusHistory[]>;
   duplicateDeal(dealId: number): Promise<Deal>;
   incrementDealViews(dealId: number): Promise<Deal>;
   incrementDealSaves(dealId: number): Promise<Deal>;
@@ -103,6 +202,8 @@ export interface IStorage {
     feedback?: string | null;
     reviewedAt?: Date;
   }): Promise<DealApproval>;
+  addDealReviewComment(comment: Omit<InsertDealReviewComment, "id" | "createdAt">): Promise<DealReviewComment>;
+  getDealReviewComments(dealId: number): Promise<DealReviewComment[]>;
   
   // User favorites methods
   getUserFavorites(userId: number): Promise<(UserFavorite & { deal: Deal & { business: Business } })[]>;
@@ -119,12 +220,82 @@ export interface IStorage {
   hasUserRedeemedDeal(userId: number, dealId: number): Promise<boolean>;
   getUserRedemptionCountForDeal(userId: number, dealId: number): Promise<number>;
   
+  // Redemption token methods
+  createRedemptionToken(data: Omit<InsertRedemptionToken, "id" | "createdAt">): Promise<RedemptionToken>;
+  getRedemptionTokenByJti(jti: string): Promise<RedemptionToken | undefined>;
+  getRedemptionTokenByShortCode(shortCode: string): Promise<RedemptionToken | undefined>;
+  claimRedemptionToken(id: number, verifiedBy: number): Promise<RedemptionToken | undefined>;
+  updateRedemptionToken(id: number, data: Partial<Omit<InsertRedemptionToken, "id">>): Promise<RedemptionToken>;
+  
   // Notification preferences methods
   getUserNotificationPreferences(userId: number): Promise<UserNotificationPreferences | undefined>;
   getNotificationPreferences(userId: number): Promise<UserNotificationPreferences | undefined>; // Alias for getUserNotificationPreferences
   updateUserNotificationPreferences(userId: number, preferences: Partial<Omit<InsertUserNotificationPreferences, "id" | "userId">>): Promise<UserNotificationPreferences>;
   updateNotificationPreferences(userId: number, preferences: Partial<Omit<InsertUserNotificationPreferences, "id" | "userId">>): Promise<UserNotificationPreferences>; // Alias for updateUserNotificationPreferences
   
+  // Personalization preferences methods
+  getUserPreferences(userId: number): Promise<UserPreferences | undefined>;
+  updateUserPreferences(userId: number, preferences: Partial<Omit<InsertUserPreferences, "id" | "userId" | "updatedAt">>): Promise<UserPreferences>;
+  
+  // Weekly digest methods
+  getWeeklyDigestRecipients(afterUserId: number, limit?: number): Promise<WeeklyDigestRecipient[]>;
+  getDigestDeals(now: Date, newSince: Date, expiringBefore: Date): Promise<(Deal & { business: Business })[]>;
+  
+  // Expiring-deal reminder methods
+  getDueDealReminders(now: Date, limit?: number): Promise<DueDealReminder[]>;
+  claimDealReminder(userId: number, dealId: number, channel: string): Promise<DealReminder | undefined>;
+  claimRetryableDealReminders(maxAttempts: number, limit?: number): Promise<DealReminder[]>;
+  updateDealReminder(id: number, data: Partial<Omit<InsertDealReminder, "id" | "userId" | "dealId" | "channel" | "dedupeKey">>): Promise<DealReminder>;
+  getUnreadDealReminders(userId: number): Promise<(DealReminder & { deal: Deal & { business: Business } })[]>;
+  markDealReminderRead(userId: number, id: number): Promise<DealReminder | undefined>;
+  
+  // Web Push subscription methods
+  saveWebPushSubscription(userId: number, subscription: Omit<InsertWebPushSubscription, "id" | "userId" | "createdAt">): Promise<WebPushSubscription>;
+  getWebPushSubscriptions(userId: number): Promise<WebPushSubscription[]>;
+  deleteWebPushSubscription(userId: number, endpoint: string): Promise<boolean>;
+  deleteWebPushSubscriptionByEndpoint(endpoint: string): Promise<void>;
+  
+  // Notification inbox methods
+  createNotification(notification: Omit<InsertNotification, "id" | "readAt" | "createdAt">): Promise<Notification | undefined>;
+  getNotifications(userId: number, options?: NotificationListOptions): Promise<Notification[]>;
+  getUnreadNotificationCount(userId: number): Promise<number>;
+  markNotificationRead(userId: number, id: number): Promise<Notification | undefined>;
+  markAllNotificationsRead(userId: number): Promise<number>;
+  deleteNotification(userId: number, id: number): Promise<boolean>;
+  
+  // Moderation policy methods
+  getRejectionReasons(options?: ModerationCatalogueOptions): Promise<RejectionReason[]>;
+  getRejectionReasonsByCode(codes: string[]): Promise<RejectionReason[]>;
+  createRejectionReason(reason: Omit<InsertRejectionReason, "id" | "createdAt" | "updatedAt">): Promise<RejectionReason | undefined>;
+  updateRejectionReason(id: number, data: Partial<Pick<InsertRejectionReason, "label" | "template" | "active">>): Promise<RejectionReason | undefined>;
+  getModerationChecklistItems(options?: ModerationCatalogueOptions): Promise<ModerationChecklistItem[]>;
+  createModerationChecklistItem(item: Omit<InsertModerationChecklistItem, "id" | "createdAt">): Promise<ModerationChecklistItem>;
+  updateModerationChecklistItem(id: number, data: Partial<Pick<InsertModerationChecklistItem, "category" | "label" | "description" | "sortOrder" | "active">>): Promise<ModerationChecklistItem | undefined>;
+  createModerationDecision(decision: Omit<InsertModerationDecision, "id" | "createdAt">): Promise<ModerationDecision>;
+  getModerationDecisions(targetType: string, targetId: number): Promise<ModerationDecision[]>;
+  getRejectionReasonCounts(options?: RejectionReasonCountOptions): Promise<RejectionReasonCount[]>;
+  
+  // Pre-moderation rule methods
+  getPreModerationRuleSettings(): Promise<PreModerationRuleSetting[]>;
+  savePreModerationRuleSetting(setting: Omit<InsertPreModerationRuleSetting, "id" | "updatedAt">): Promise<PreModerationRuleSetting>;
+  getLatestPreModerationResults(dealIds: number[]): Promise<Map<number, PreModerationResult>>;
+  
+  // Bulk admin action methods
+  bulkUpdateDeals(ids: number[], action: BulkDealAction, context: BulkActionContext): Promise<BulkItemResult[]>;
+  bulkUpdateBusinesses(ids: number[], action: BulkBusinessAction, context: BulkActionContext): Promise<BulkItemResult[]>;
+  bulkUpdateUsers(profileIds: string[], action: BulkUserAction, context: BulkActionContext): Promise<BulkItemResult<string>[]>;
+  
+  // Admin audit log methods; entries are only ever appended
+  appendAdminAuditEntry(entry: NewAdminAuditEntry): Promise<AdminAuditEntry>;
+  getAdminAuditEntries(options?: AdminAuditQuery): Promise<AdminAuditEntry[]>;
+  getAdminAuditChain(): Promise<AdminAuditEntry[]>;
+  
+  // Email outbox methods
+  getMarketingConsent(email: string): Promise<boolean>;
+  enqueueEmail(message: Omit<InsertEmailOutboxMessage, "id" | "status" | "attempts" | "lastError" | "messageId" | "createdAt" | "sentAt">): Promise<EmailOutboxMessage | undefined>;
+  claimDueEmails(now: Date, lockedUntil: Date, limit?: number): Promise<EmailOutboxMessage[]>;
+  updateEmail(id: number, data: Partial<Pick<InsertEmailOutboxMessage, "status" | "attempts" | "lastError" | "nextAttemptAt" | "messageId" | "sentAt">>): Promise<EmailOutboxMessage>;
+  
   // Redemption rating methods
   createRedemptionRating(redemptionId: number, userId: number, dealId: number, businessId: number, ratingData: RatingData): Promise<RedemptionRating>;
   getRedemptionRating(redemptionId: number): Promise<RedemptionRating | undefined>;
@@ -139,6 +310,273 @@ function hashPassword(password: string): string {
   return bcrypt.hashSync(password, salt);
 }
 
+// Deal statuses that customers are allowed to redeem
+const REDEEMABLE_DEAL_STATUSES = ["active", "approved", "verified"];
+
+export type DealStatusChangeReason =
+  | "manual"
+  | "approval"
+  | "scheduled_activation"
+  | "scheduled_expiry"
+  | "scheduled_archive";
+
+// Who changed a deal's status and why, recorded in its status history
+export interface DealStatusChange {
+  changedBy?: number | null;
+  reason?: DealStatusChangeReason;
+}
+
+/**
+ * Move deals in one of `fromStatuses` whose `dateField` is at or before
+ * `before` to `toStatus`, e.g. expire active deals whose end date has passed
+ */
+export interface DealLifecycleRule {
+  fromStatuses: string[];
+  toStatus: string;
+  dateField: "startDate" | "endDate";
+  before: Date;
+  reason: DealStatusChangeReason;
+  // Maximum number of deals to move in one call
+  limit?: number;
+}
+
+const DEFAULT_LIFECYCLE_BATCH_SIZE = 500;
+
+// Defaults for users who haven't saved notification preferences
+export const DEFAULT_EXPIRING_DEAL_REMINDER_HOURS = 48;
+const DEFAULT_REMINDER_BATCH_SIZE = 500;
+
+/**
+ * A favorited deal that expires within its user's reminder window and hasn't
+ * had a reminder yet
+ */
+export interface DueDealReminder {
+  userId: number;
+  deal: Deal & { business: Business };
+  preferences: UserNotificationPreferences | undefined;
+}
+
+const DEFAULT_EMAIL_BATCH_SIZE = 100;
+
+// How often a server catches its deal search index up with writes made by other servers
+const DEAL_SEARCH_SYNC_INTERVAL_MS = 30 * 1000;
+const DEFAULT_DIGEST_RECIPIENT_BATCH_SIZE = 200;
+
+/**
+ * An individual user who switched the weekly digest on, with what it is ranked by
+ */
+export interface WeeklyDigestRecipient {
+  user: User;
+  preferences: UserPreferences | undefined;
+}
+
+export const DEFAULT_NOTIFICATION_PAGE_SIZE = 20;
+
+export interface NotificationListOptions {
+  unreadOnly?: boolean;
+  // Page backwards from this notification, newest first
+  beforeId?: number;
+  limit?: number;
+}
+
+export interface ModerationCatalogueOptions {
+  targetType?: string;
+  includeInactive?: boolean;
+}
+
+export const DEFAULT_REJECTION_REPORT_LIMIT = 10;
+
+export interface RejectionReasonCountOptions {
+  targetType?: string;
+  // Only count rejections made at or after this time
+  since?: Date;
+  limit?: number;
+}
+
+/**
+ * Who is running a bulk admin action, and for rejections the shared reason
+ */
+export interface BulkActionContext {
+  actorId: number;
+  // Written on every audit entry of the request
+  batchId: string;
+  rejection?: {
+    feedback: string;
+    reasonCodes: string[];
+    note?: string | null;
+  };
+  ipAddress?: string | null;
+  userAgent?: string | null;
+}
+
+/**
+ * The business a user works for and their role in it
+ */
+export interface BusinessMembership {
+  business: Business;
+  role: BusinessRole;
+}
+
+export const DEFAULT_AUDIT_PAGE_SIZE = 100;
+
+export interface AdminAuditQuery {
+  actorId?: number;
+  // Matches the start of the action, so "deal" finds every deal action
+  action?: string;
+  targetType?: string;
+  targetId?: string;
+  batchId?: string;
+  from?: Date;
+  to?: Date;
+  limit?: number;
+  offset?: number;
+}
+
+// Deal statuses a reviewer can approve or reject from
+const REVIEWABLE_DEAL_STATUSES = ["pending", "pending_revision"];
+
+// Deal statuses that have already ended
+const ENDED_DEAL_STATUSES = ["expired", "archived"];
+
+// Per-item failure reported back to the admin; the rest of the batch carries on
+class BulkItemError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BulkItemError';
+  }
+}
+
+function bulkItemFailure<Id>(id: Id, error: unknown): BulkItemResult<Id> {
+  if (error instanceof BulkItemError) {
+    return { id, success: false, error: error.message };
+  }
+  
+  console.error(`Bulk action failed for item ${id}:`, error);
+  return { id, success: false, error: "Unexpected error" };
+}
+
+function auditEntry(
+  targetType: BulkTargetType,
+  action: string,
+  targetId: number | string,
+  context: BulkActionContext,
+  details: Record<string, unknown> = {}
+): NewAdminAuditEntry {
+  return {
+    actorId: context.actorId,
+    action: `${targetType}.${action}`,
+    targetType,
+    targetId: String(targetId),
+    batchId: context.batchId,
+    details,
+    ipAddress: context.ipAddress ?? null,
+    userAgent: context.userAgent ?? null,
+  };
+}
+
+// The moderation decision a bulk approval or rejection records, with the shared reason
+function bulkReviewDecision(
+  targetType: "deal" | "business",
+  targetId: number,
+  decision: "approved" | "rejected",
+  context: BulkActionContext
+): Omit<InsertModerationDecision, "id" | "createdAt"> {
+  const rejection = decision === "rejected" ? context.rejection : undefined;
+  return {
+    targetType,
+    targetId,
+    decision,
+    reasonCodes: rejection?.reasonCodes ?? [],
+    checklist: {},
+    note: rejection?.note?.trim() || null,
+    reviewerId: context.actorId,
+  };
+}
+
+export function getDealReminderDedupeKey(userId: number, dealId: number, channel: string): string {
+  return `${userId}:${dealId}:${channel}`;
+}
+
+/**
+ * Deal status after review: approved deals wait for their start date before
+ * going live, so the lifecycle job can activate them on time
+ */
+export function getStatusAfterReview(
+  approvalStatus: "approved" | "rejected",
+  deal: Pick<Deal, "startDate"> | undefined,
+  now: Date = new Date()
+): string {
+  if (approvalStatus === "rejected") return "rejected";
+  return deal && new Date(deal.startDate) > now ? "approved" : "active";
+}
+
+/**
+ * Most frequent reasons first, labelled from the catalogue; codes no longer in it keep the code as label
+ */
+function toRejectionReasonCounts(
+  counts: Map<string, number>,
+  reasons: RejectionReason[],
+  limit: number = DEFAULT_REJECTION_REPORT_LIMIT
+): RejectionReasonCount[] {
+  const byCode = new Map(reasons.map(reason => [reason.code, reason]));
+  
+  return Array.from(counts.entries())
+    .map(([code, count]) => ({
+      code,
+      label: byCode.get(code)?.label ?? code,
+      targetType: byCode.get(code)?.targetType ?? "",
+      count,
+    }))
+    .sort((a, b) => b.count - a.count || a.code.localeCompare(b.code))
+    .slice(0, limit);
+}
+
+export type RedemptionErrorCode = "LIMIT_PER_USER_REACHED" | "DEAL_SOLD_OUT" | "DEAL_NOT_ACTIVE" | "OUTSIDE_SCHEDULE";
+
+// Custom error for redemptions rejected by a deal's availability or limits
+export class RedemptionError extends Error {
+  code: RedemptionErrorCode;
+
+  constructor(code: RedemptionErrorCode, message: string) {
+    super(message);
+    this.name = 'RedemptionError';
+    this.code = code;
+  }
+}
+
+/**
+ * Check that a deal can be redeemed given the current redemption counts
+ * Throws a RedemptionError describing the first rule that fails
+ */
+export function assertRedemptionAllowed(deal: Deal, userRedemptionCount: number, totalRedemptionCount: number): void {
+  const now = new Date();
+  
+  if (!REDEEMABLE_DEAL_STATUSES.includes(deal.status) || new Date(deal.startDate) > now || new Date(deal.endDate) < now) {
+    throw new RedemptionError("DEAL_NOT_ACTIVE", "This deal is not currently active");
+  }
+  
+  if (!isScheduledAt(deal, now)) {
+    const { nextWindow } = getScheduleAvailability(deal, now);
+    throw new RedemptionError(
+      "OUTSIDE_SCHEDULE",
+      nextWindow
+        ? `This deal can't be redeemed right now. It's next available ${DAY_NAMES[nextWindow.day]} at ${formatTimeOfDay(nextWindow.start)}`
+        : "This deal can't be redeemed right now"
+    );
+  }
+  
+  if (deal.maxRedemptionsPerUser && userRedemptionCount >= deal.maxRedemptionsPerUser) {
+    throw new RedemptionError(
+      "LIMIT_PER_USER_REACHED",
+      `You have reached the maximum redemption limit (${deal.maxRedemptionsPerUser}) for this deal`
+    );
+  }
+  
+  if (deal.totalRedemptionsLimit && totalRedemptionCount >= deal.totalRedemptionsLimit) {
+    throw new RedemptionError("DEAL_SOLD_OUT", "This deal has reached its maximum total redemptions limit");
+  }
+}
+
 export class MemStorage implements IStorage {
   private users: Map<number, User>;
   private businesses: Map<number, Business>;
@@ -149,9 +587,12 @@ export class MemStorage implements IStorage {
   
   // New vendor-side collections
   private dealApprovals: Map<number, DealApproval>;
+  private dealReviewComments: Map<number, DealReviewComment>;
   private businessHours: Map<number, BusinessHours>;
   private businessSocial: Map<number, BusinessSocial>;
   private businessDocuments: Map<number, BusinessDocument>;
+  private businessMembers: Map<number, BusinessMember>;
+  private businessInvitations: Map<number, BusinessInvitation>;
 
   
   // Rating collection
@@ -163,6 +604,52 @@ export class MemStorage implements IStorage {
   // Refresh tokens
   private refreshTokens: Map<string, RefreshToken>;
   
+  // Security events
+  private securityEvents: Map<number, SecurityEvent>;
+  
+  // Failed login counters by lowercased email
+  private loginThrottles: Map<string, LoginThrottle>;
+  
+  // Two-factor state by profile id
+  private twoFactor: Map<string, ProfileTwoFactor>;
+  
+  // Passkeys and their outstanding challenges
+  private passkeys: Map<number, ProfilePasskey>;
+  private passkeyChallenges: Map<string, PasskeyChallenge>;
+  
+  // Redemption tokens
+  private redemptionTokens: Map<number, RedemptionToken>;
+  
+  // Full-text search index over deals
+  private dealSearchIndex: DealSearchIndex;
+  
+  // Deal status transitions
+  private dealStatusHistory: Map<number, DealStatusHistory>;
+  
+  // Expiring-deal reminders
+  private dealReminders: Map<number, DealReminder>;
+  
+  // Web Push subscriptions
+  private webPushSubscriptions: Map<number, WebPushSubscription>;
+  
+  // Email outbox
+  private emailOutbox: Map<number, EmailOutboxMessage>;
+  
+  // Onboarding personalization preferences
+  private userPreferences: Map<number, UserPreferences>;
+  
+  // Notification inbox
+  private notifications: Map<number, Notification>;
+  
+  // Moderation policy
+  private rejectionReasons: Map<number, RejectionReason>;
+  private moderationChecklistItems: Map<number, ModerationChecklistItem>;
+  private moderationDecisions: Map<number, ModerationDecision>;
+  private preModerationRules: Map<string, PreModerationRuleSetting>;
+  
+  // Admin audit log
+  private adminAuditLog: Map<number, AdminAuditEntry>;
+  
   private currentUserId: number;
   private currentBusinessId: number;
   private currentDealId: number;
@@ -170,10 +657,29 @@ export class MemStorage implements IStorage {
   private currentDealRedemptionId: number;
   private currentUserNotificationPreferencesId: number;
   private currentDealApprovalId: number;
+  private currentDealReviewCommentId: number;
   private currentBusinessHoursId: number;
   private currentBusinessSocialId: number;
   private currentBusinessDocumentId: number;
+  private currentBusinessMemberId: number;
+  private currentBusinessInvitationId: number;
   private currentRedemptionRatingId: number;
+  private currentRedemptionTokenId: number;
+  private currentRefreshTokenId: number;
+  private currentSecurityEventId: number;
+  private currentPasskeyId: number;
+  private currentPasskeyChallengeId: number;
+  private currentDealStatusHistoryId: number;
+  private currentDealReminderId: number;
+  private currentWebPushSubscriptionId: number;
+  private currentEmailOutboxId: number;
+  private currentUserPreferencesId: number;
+  private currentNotificationId: number;
+  private currentRejectionReasonId: number;
+  private currentModerationChecklistItemId: number;
+  private currentModerationDecisionId: number;
+  private currentPreModerationRuleId: number;
+  private currentAdminAuditEntryId: number;
 
 
   constructor() {
@@ -186,9 +692,12 @@ export class MemStorage implements IStorage {
     
     // Initialize new vendor-side collections
     this.dealApprovals = new Map();
+    this.dealReviewComments = new Map();
     this.businessHours = new Map();
     this.businessSocial = new Map();
     this.businessDocuments = new Map();
+    this.businessMembers = new Map();
+    this.businessInvitations = new Map();
     
     // Initialize ratings collection
     this.redemptionRatings = new Map();
@@ -198,6 +707,44 @@ export class MemStorage implements IStorage {
     
     // Initialize refresh tokens
     this.refreshTokens = new Map();
+    this.securityEvents = new Map();
+    this.twoFactor = new Map();
+    this.passkeys = new Map();
+    this.loginThrottles = new Map();
+    this.passkeyChallenges = new Map();
+    
+    // Initialize redemption tokens
+    this.redemptionTokens = new Map();
+    
+    // Initialize deal search index
+    this.dealSearchIndex = new DealSearchIndex();
+    
+    // Initialize deal status history
+    this.dealStatusHistory = new Map();
+    
+    // Initialize deal reminders
+    this.dealReminders = new Map();
+    
+    // Initialize Web Push subscriptions
+    this.webPushSubscriptions = new Map();
+    
+    // Initialize email outbox
+    this.emailOutbox = new Map();
+    
+    // Initialize personalization preferences
+    this.userPreferences = new Map();
+    
+    // Initialize notification inbox
+    this.notifications = new Map();
+    
+    // Initialize moderation policy
+    this.rejectionReasons = new Map();
+    this.moderationChecklistItems = new Map();
+    this.moderationDecisions = new Map();
+    this.preModerationRules = new Map();
+    
+    // Initialize admin audit log
+    this.adminAuditLog = new Map();
     
     this.currentUserId = 1;
     this.currentBusinessId = 1;
@@ -206,10 +753,29 @@ export class MemStorage implements IStorage {
     this.currentDealRedemptionId = 1;
     this.currentUserNotificationPreferencesId = 1;
     this.currentDealApprovalId = 1;
+    this.currentDealReviewCommentId = 1;
     this.currentBusinessHoursId = 1;
     this.currentBusinessSocialId = 1;
     this.currentBusinessDocumentId = 1;
+    this.currentBusinessMemberId = 1;
+    this.currentBusinessInvitationId = 1;
     this.currentRedemptionRatingId = 1;
+    this.currentRedemptionTokenId = 1;
+    this.currentRefreshTokenId = 1;
+    this.currentSecurityEventId = 1;
+    this.currentPasskeyId = 1;
+    this.currentPasskeyChallengeId = 1;
+    this.currentDealStatusHistoryId = 1;
+    this.currentDealReminderId = 1;
+    this.currentWebPushSubscriptionId = 1;
+    this.currentEmailOutboxId = 1;
+    this.currentUserPreferencesId = 1;
+    this.currentNotificationId = 1;
+    this.currentRejectionReasonId = 1;
+    this.currentModerationChecklistItemId = 1;
+    this.currentModerationDecisionId = 1;
+    this.currentPreModerationRuleId = 1;
+    this.currentAdminAuditEntryId = 1;
     
     // ONE-TIME RESET: Clear any lingering in-memory deals to ensure clean production state
     this.deals.clear();
@@ -252,7 +818,8 @@ export class MemStorage implements IStorage {
       // Update user type to admin
       this.users.set(adminUser.id, {
         ...adminUser,
-        userType: "admin"
+        userType: "admin",
+        staffRole: "super_admin"
       });
       
       // 3. Vendor test account
@@ -430,11 +997,10 @@ export class MemStorage implements IStorage {
     if (!user) return undefined;
     
     if (user.userType === "business") {
-      const business = Array.from(this.businesses.values()).find(
-        (business) => business.userId === userId,
-      );
+      // Members see the business they work for, not only one they own
+      const membership = await this.getBusinessMembership(userId);
       
-      return { ...user, business };
+      return { ...user, business: membership?.business };
     }
     
     return user;
@@ -458,6 +1024,7 @@ export class MemStorage implements IStorage {
       password: hashedPassword,
       userType: "individual",
       phoneVerified: (userData as any).phoneVerified ?? false,
+      staffRole: null,
       created_at: new Date().toISOString(),
     };
     
@@ -483,6 +1050,7 @@ export class MemStorage implements IStorage {
       password: hashedPassword,
       userType: "business",
       phoneVerified: (userData as any).phoneVerified ?? false,
+      staffRole: null,
       created_at: new Date().toISOString(),
     };
     
@@ -705,12 +1273,13 @@ export class MemStorage implements IStorage {
   }
 
   // Refresh token methods
-  async createRefreshToken(userId: number, token: string, expiresAt: Date, clientInfo?: { ipAddress?: string, userAgent?: string, deviceInfo?: string }): Promise<RefreshToken> {
+  async createRefreshToken(profileId: string, token: string, expiresAt: Date, clientInfo?: { ipAddress?: string, userAgent?: string, deviceInfo?: string }): Promise<RefreshToken> {
     // Create a refresh token record
     const refreshToken: RefreshToken = {
-      id: Date.now(), // Using timestamp as ID for simplicity in memory store
-      userId: userId,
+      id: this.currentRefreshTokenId++,
+      profileId,
       token: token,
+      familyId: randomUUID(),
       expiresAt: expiresAt,
       isRevoked: false,
       revokedAt: null,
@@ -740,7 +1309,8 @@ export class MemStorage implements IStorage {
     // Mark the token as revoked
     const updatedToken: RefreshToken = {
       ...refreshToken,
-      isRevoked: true
+      isRevoked: true,
+      revokedAt: refreshToken.revokedAt ?? new Date()
     };
     
     // Update storage
@@ -749,17 +1319,18 @@ export class MemStorage implements IStorage {
     return true;
   }
   
-  async revokeAllUserRefreshTokens(userId: number): Promise<number> {
+  async revokeAllUserRefreshTokens(profileId: string): Promise<number> {
     // Find all refresh tokens for this user
     let revokedCount = 0;
     
     // Iterate through all tokens
     for (const [token, refreshToken] of this.refreshTokens.entries()) {
-      if (refreshToken.userId === userId && !refreshToken.isRevoked) {
+      if (refreshToken.profileId === profileId && !refreshToken.isRevoked) {
         // Mark as revoked
         this.refreshTokens.set(token, {
           ...refreshToken,
-          isRevoked: true
+          isRevoked: true,
+          revokedAt: new Date()
         });
         revokedCount++;
       }
@@ -783,7 +1354,7 @@ export class MemStorage implements IStorage {
     
     // Create a new token with the same user and client info
     const newRefreshToken = await this.createRefreshToken(
-      oldRefreshToken.userId,
+      oldRefreshToken.profileId,
       newToken,
       expiresAt,
       {
@@ -793,7 +1364,269 @@ export class MemStorage implements IStorage {
       }
     );
     
-    return newRefreshToken;
+    // Rotating is using the session, and the new token joins the old one's family
+    const used: RefreshToken = { ...newRefreshToken, familyId: oldRefreshToken.familyId, lastUsedAt: new Date() };
+    this.refreshTokens.set(newToken, used);
+    
+    return used;
+  }
+  
+  async revokeRefreshTokenFamily(familyId: string): Promise<number> {
+    let revokedCount = 0;
+    for (const refreshToken of Array.from(this.refreshTokens.values())) {
+      if (refreshToken.familyId === familyId && !refreshToken.isRevoked) {
+        await this.revokeRefreshToken(refreshToken.token);
+        revokedCount++;
+      }
+    }
+    return revokedCount;
+  }
+  
+  private findSession(id: number): RefreshToken | undefined {
+    return Array.from(this.refreshTokens.values()).find(session => session.id === id);
+  }
+  
+  private isLiveSession(session: RefreshToken, now = new Date()): boolean {
+    return !session.isRevoked && session.expiresAt > now;
+  }
+  
+  async getSession(id: number): Promise<RefreshToken | undefined> {
+    return this.findSession(id);
+  }
+  
+  async getActiveSessions(profileId: string): Promise<RefreshToken[]> {
+    return Array.from(this.refreshTokens.values())
+      .filter(session => session.profileId === profileId && this.isLiveSession(session))
+      .sort((a, b) => (b.lastUsedAt ?? b.createdAt).getTime() - (a.lastUsedAt ?? a.createdAt).getTime());
+  }
+  
+  async touchSession(id: number): Promise<void> {
+    const session = this.findSession(id);
+    if (session) {
+      this.refreshTokens.set(session.token, { ...session, lastUsedAt: new Date() });
+    }
+  }
+  
+  async revokeSession(profileId: string, id: number): Promise<boolean> {
+    const session = this.findSession(id);
+    if (!session || session.profileId !== profileId || !this.isLiveSession(session)) return false;
+    
+    return this.revokeRefreshToken(session.token);
+  }
+  
+  async revokeOtherSessions(profileId: string, keepId: number): Promise<number> {
+    const others = (await this.getActiveSessions(profileId)).filter(session => session.id !== keepId);
+    for (const session of others) {
+      await this.revokeRefreshToken(session.token);
+    }
+    return others.length;
+  }
+  
+  async getSessionAccount(profileId: string): Promise<SessionAccount | undefined> {
+    // Supabase profiles aren't kept in memory
+    return undefined;
+  }
+  
+  async recordSecurityEvent(event: InsertSecurityEvent): Promise<SecurityEvent> {
+    const securityEvent: SecurityEvent = {
+      id: this.currentSecurityEventId++,
+      userId: event.userId ?? null,
+      type: event.type,
+      details: event.details ?? {},
+      ipAddress: event.ipAddress ?? null,
+      userAgent: event.userAgent ?? null,
+      createdAt: new Date()
+    };
+    this.securityEvents.set(securityEvent.id, securityEvent);
+    return securityEvent;
+  }
+  
+  // Login throttling methods
+  async getLoginThrottle(email: string): Promise<LoginThrottle | undefined> {
+    return this.loginThrottles.get(email);
+  }
+  
+  async recordFailedLogin(email: string, ipAddress?: string | null): Promise<LoginThrottle> {
+    const existing = this.loginThrottles.get(email);
+    const throttle: LoginThrottle = {
+      email,
+      failedAttempts: (existing?.failedAttempts ?? 0) + 1,
+      lastFailedAt: new Date(),
+      nextAttemptAt: existing?.nextAttemptAt ?? null,
+      lockedUntil: existing?.lockedUntil ?? null,
+      unlockTokenHash: existing?.unlockTokenHash ?? null,
+      lastIpAddress: ipAddress ?? null
+    };
+    this.loginThrottles.set(email, throttle);
+    return throttle;
+  }
+  
+  async updateLoginThrottle(email: string, changes: Partial<Pick<LoginThrottle, 'nextAttemptAt' | 'lockedUntil' | 'unlockTokenHash'>>): Promise<void> {
+    const throttle = this.loginThrottles.get(email);
+    if (throttle) {
+      this.loginThrottles.set(email, { ...throttle, ...changes });
+    }
+  }
+  
+  async clearLoginThrottle(email: string): Promise<boolean> {
+    return this.loginThrottles.delete(email);
+  }
+  
+  async clearLoginThrottleByUnlockToken(unlockTokenHash: string): Promise<LoginThrottle | undefined> {
+    const now = new Date();
+    const throttle = Array.from(this.loginThrottles.values())
+      .find(candidate => candidate.unlockTokenHash === unlockTokenHash && candidate.lockedUntil !== null && candidate.lockedUntil > now);
+    if (!throttle) return undefined;
+    
+    this.loginThrottles.delete(throttle.email);
+    return throttle;
+  }
+  
+  async getLockedLoginThrottles(): Promise<LoginThrottle[]> {
+    const now = new Date();
+    return Array.from(this.loginThrottles.values())
+      .filter(throttle => throttle.lockedUntil !== null && throttle.lockedUntil > now)
+      .sort((a, b) => b.lastFailedAt.getTime() - a.lastFailedAt.getTime());
+  }
+  
+  // Two-factor methods
+  async getTwoFactor(profileId: string): Promise<ProfileTwoFactor | undefined> {
+    return this.twoFactor.get(profileId);
+  }
+  
+  async startTwoFactorEnrolment(profileId: string, secret: string): Promise<ProfileTwoFactor> {
+    const now = new Date();
+    const record: ProfileTwoFactor = {
+      profileId,
+      secret,
+      enabledAt: null,
+      recoveryCodes: [],
+      lastUsedStep: null,
+      createdAt: now,
+      updatedAt: now
+    };
+    this.twoFactor.set(profileId, record);
+    return record;
+  }
+  
+  async enableTwoFactor(profileId: string, recoveryCodeHashes: string[], step: number): Promise<ProfileTwoFactor | undefined> {
+    const record = this.twoFactor.get(profileId);
+    if (!record) return undefined;
+    
+    const now = new Date();
+    const enabled: ProfileTwoFactor = { ...record, enabledAt: now, recoveryCodes: recoveryCodeHashes, lastUsedStep: step, updatedAt: now };
+    this.twoFactor.set(profileId, enabled);
+    return enabled;
+  }
+  
+  async replaceRecoveryCodes(profileId: string, recoveryCodeHashes: string[]): Promise<void> {
+    const record = this.twoFactor.get(profileId);
+    if (record) {
+      this.twoFactor.set(profileId, { ...record, recoveryCodes: recoveryCodeHashes, updatedAt: new Date() });
+    }
+  }
+  
+  async useRecoveryCode(profileId: string, codeHash: string): Promise<boolean> {
+    const record = this.twoFactor.get(profileId);
+    if (!record || !record.recoveryCodes.includes(codeHash)) return false;
+    
+    this.twoFactor.set(profileId, { ...record, recoveryCodes: record.recoveryCodes.filter(hash => hash !== codeHash), updatedAt: new Date() });
+    return true;
+  }
+  
+  async recordTotpStep(profileId: string, step: number): Promise<boolean> {
+    const record = this.twoFactor.get(profileId);
+    if (!record || (record.lastUsedStep !== null && record.lastUsedStep >= step)) return false;
+    
+    this.twoFactor.set(profileId, { ...record, lastUsedStep: step, updatedAt: new Date() });
+    return true;
+  }
+  
+  async deleteTwoFactor(profileId: string): Promise<boolean> {
+    return this.twoFactor.delete(profileId);
+  }
+  
+  // Passkey methods
+  async getPasskeys(profileId: string): Promise<ProfilePasskey[]> {
+    return Array.from(this.passkeys.values())
+      .filter(passkey => passkey.profileId === profileId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime() || b.id - a.id);
+  }
+  
+  async getPasskeyByCredentialId(credentialId: string): Promise<ProfilePasskey | undefined> {
+    return Array.from(this.passkeys.values()).find(passkey => passkey.credentialId === credentialId);
+  }
+  
+  async createPasskey(passkey: InsertProfilePasskey): Promise<ProfilePasskey> {
+    if (await this.getPasskeyByCredentialId(passkey.credentialId)) {
+      throw new Error(`Passkey ${passkey.credentialId} is already registered`);
+    }
+    
+    const created: ProfilePasskey = {
+      id: this.currentPasskeyId++,
+      profileId: passkey.profileId,
+      credentialId: passkey.credentialId,
+      publicKey: passkey.publicKey,
+      algorithm: passkey.algorithm,
+      signCount: passkey.signCount ?? 0,
+      userHandle: passkey.userHandle,
+      transports: passkey.transports ?? [],
+      backedUp: passkey.backedUp ?? false,
+      name: passkey.name,
+      createdAt: new Date(),
+      lastUsedAt: null
+    };
+    this.passkeys.set(created.id, created);
+    return created;
+  }
+  
+  async recordPasskeyUse(id: number, signCount: number, backedUp: boolean): Promise<void> {
+    const passkey = this.passkeys.get(id);
+    if (passkey) {
+      this.passkeys.set(id, { ...passkey, signCount, backedUp, lastUsedAt: new Date() });
+    }
+  }
+  
+  async renamePasskey(profileId: string, id: number, name: string): Promise<ProfilePasskey | undefined> {
+    const passkey = this.passkeys.get(id);
+    if (!passkey || passkey.profileId !== profileId) return undefined;
+    
+    const renamed = { ...passkey, name };
+    this.passkeys.set(id, renamed);
+    return renamed;
+  }
+  
+  async deletePasskey(profileId: string, id: number): Promise<boolean> {
+    const passkey = this.passkeys.get(id);
+    if (!passkey || passkey.profileId !== profileId) return false;
+    return this.passkeys.delete(id);
+  }
+  
+  async createPasskeyChallenge(challenge: InsertPasskeyChallenge): Promise<PasskeyChallenge> {
+    const now = new Date();
+    Array.from(this.passkeyChallenges.values())
+      .filter(stale => stale.expiresAt <= now)
+      .forEach(stale => this.passkeyChallenges.delete(stale.challenge));
+    
+    const created: PasskeyChallenge = {
+      id: this.currentPasskeyChallengeId++,
+      challenge: challenge.challenge,
+      purpose: challenge.purpose,
+      profileId: challenge.profileId ?? null,
+      userHandle: challenge.userHandle ?? null,
+      expiresAt: challenge.expiresAt,
+      createdAt: now
+    };
+    this.passkeyChallenges.set(created.challenge, created);
+    return created;
+  }
+  
+  async consumePasskeyChallenge(challenge: string, purpose: string): Promise<PasskeyChallenge | undefined> {
+    const record = this.passkeyChallenges.get(challenge);
+    if (!record || record.purpose !== purpose) return undefined;
+    
+    this.passkeyChallenges.delete(challenge);
+    return record;
   }
   
   // Admin methods
@@ -811,6 +1644,7 @@ export class MemStorage implements IStorage {
       ...userData,
       password: hashPassword(password),
       phoneVerified: userData.phoneVerified ?? false,
+      staffRole: userData.staffRole ?? null,
       created_at: userData.created_at ?? new Date().toISOString(),
     };
     
@@ -993,6 +1827,9 @@ export class MemStorage implements IStorage {
     };
     
     this.businesses.set(id, updatedBusiness);
+    if (businessData.businessName !== undefined) {
+      this.dealSearchIndex.updateBusinessName(id, updatedBusiness.businessName);
+    }
     return updatedBusiness;
   }
   
@@ -1009,6 +1846,9 @@ export class MemStorage implements IStorage {
     };
 
     this.businesses.set(id, updatedBusiness);
+    
+    await this.notify(businessVerificationNotification(updatedBusiness));
+    
     return updatedBusiness;
   }
 
@@ -1042,6 +1882,18 @@ export class MemStorage implements IStorage {
       }
     }
     
+    // Remove the team and its invitations
+    for (const [id, member] of this.businessMembers.entries()) {
+      if (member.businessId === business.id) {
+        this.businessMembers.delete(id);
+      }
+    }
+    for (const [id, invitation] of this.businessInvitations.entries()) {
+      if (invitation.businessId === business.id) {
+        this.businessInvitations.delete(id);
+      }
+    }
+    
     // Remove related deals
     for (const [id, deal] of this.deals.entries()) {
       if (deal.businessId === business.id) {
@@ -1083,60 +1935,241 @@ export class MemStorage implements IStorage {
     return true;
   }
   
-  // Business Hours methods
-  async getBusinessHours(businessId: number): Promise<BusinessHours[]> {
-    return Array.from(this.businessHours.values()).filter(
-      (hours) => hours.businessId === businessId
-    );
-  }
-  
-  async addBusinessHours(businessHoursData: Omit<InsertBusinessHours, "id">): Promise<BusinessHours> {
-    const business = await this.getBusiness(businessHoursData.businessId);
-    if (!business) {
-      throw new Error("Business not found");
+  // Business membership methods
+  async getBusinessMembership(userId: number): Promise<BusinessMembership | undefined> {
+    const owned = await this.getBusinessByUserId(userId);
+    if (owned) {
+      return { business: owned, role: "owner" };
     }
     
-    const id = this.currentBusinessHoursId++;
-    const businessHours: BusinessHours = {
-      id,
-      businessId: businessHoursData.businessId,
-      dayOfWeek: businessHoursData.dayOfWeek,
-      openTime: businessHoursData.openTime ?? null,
-      closeTime: businessHoursData.closeTime ?? null,
-      isClosed: businessHoursData.isClosed ?? null,
-    };
-    
-    this.businessHours.set(id, businessHours);
-    return businessHours;
+    const member = Array.from(this.businessMembers.values()).find(m => m.userId === userId);
+    const business = member ? this.businesses.get(member.businessId) : undefined;
+    return member && business ? { business, role: member.role as BusinessRole } : undefined;
   }
   
-  async updateBusinessHours(id: number, businessHoursData: Partial<Omit<InsertBusinessHours, "id" | "businessId">>): Promise<BusinessHours> {
-    const businessHours = this.businessHours.get(id);
-    if (!businessHours) {
-      throw new Error("Business hours not found");
+  async getBusinessTeam(businessId: number): Promise<BusinessTeamMember[]> {
+    const business = this.businesses.get(businessId);
+    if (!business) {
+      return [];
     }
     
-    const updatedBusinessHours: BusinessHours = {
-      ...businessHours,
-      ...businessHoursData,
-    };
+    const team: BusinessTeamMember[] = [];
+    const owner = this.users.get(business.userId);
+    if (owner) {
+      team.push({ userId: owner.id, role: "owner", firstName: owner.firstName, lastName: owner.lastName, email: owner.email, joinedAt: null });
+    }
     
-    this.businessHours.set(id, updatedBusinessHours);
-    return updatedBusinessHours;
-  }
-  
-  async deleteBusinessHours(id: number): Promise<void> {
-    if (!this.businessHours.has(id)) {
-      throw new Error("Business hours not found");
+    const members = Array.from(this.businessMembers.values())
+      .filter(member => member.businessId === businessId)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+    for (const member of members) {
+      const user = this.users.get(member.userId);
+      if (user) {
+        team.push({ userId: user.id, role: member.role as BusinessRole, firstName: user.firstName, lastName: user.lastName, email: user.email, joinedAt: member.createdAt });
+      }
     }
     
-    this.businessHours.delete(id);
+    return team;
   }
   
-  // Business Social Media methods
-  async getBusinessSocialLinks(businessId: number): Promise<BusinessSocial[]> {
-    return Array.from(this.businessSocial.values()).filter(
-      (social) => social.businessId === businessId
+  private findBusinessMember(businessId: number, userId: number): BusinessMember | undefined {
+    return Array.from(this.businessMembers.values()).find(
+      member => member.businessId === businessId && member.userId === userId
+    );
+  }
+  
+  async updateBusinessMemberRole(businessId: number, userId: number, role: InvitableBusinessRole): Promise<BusinessMember | undefined> {
+    const member = this.findBusinessMember(businessId, userId);
+    if (!member) {
+      return undefined;
+    }
+    
+    const updated: BusinessMember = { ...member, role };
+    this.businessMembers.set(member.id, updated);
+    return updated;
+  }
+  
+  async removeBusinessMember(businessId: number, userId: number): Promise<boolean> {
+    const member = this.findBusinessMember(businessId, userId);
+    if (!member) {
+      return false;
+    }
+    
+    this.businessMembers.delete(member.id);
+    
+    // Without a business the account goes back to being a customer account
+    const user = this.users.get(userId);
+    if (user && user.userType === "business") {
+      this.users.set(userId, { ...user, userType: "individual" });
+    }
+    return true;
+  }
+  
+  async transferBusinessOwnership(businessId: number, newOwnerId: number): Promise<Business> {
+    const business = this.businesses.get(businessId);
+    if (!business) {
+      throw new Error("Business not found");
+    }
+    const newOwner = this.findBusinessMember(businessId, newOwnerId);
+    if (!newOwner) {
+      throw new Error("The new owner must be a member of the business");
+    }
+    
+    // The previous owner stays on the team as a manager
+    this.businessMembers.delete(newOwner.id);
+    const previousOwner: BusinessMember = {
+      id: this.currentBusinessMemberId++,
+      businessId,
+      userId: business.userId,
+      role: "manager",
+      invitedBy: null,
+      createdAt: new Date(),
+    };
+    this.businessMembers.set(previousOwner.id, previousOwner);
+
+    const updated: Business = { ...business, userId: newOwnerId };
+    this.businesses.set(businessId, updated);
+    return updated;
+  }
+  
+  async createBusinessInvitation(invitation: Omit<InsertBusinessInvitation, "id" | "acceptedAt" | "acceptedBy" | "revokedAt" | "createdAt">): Promise<BusinessInvitation> {
+    const now = new Date();
+    
+    // A new invitation replaces any the address still has for the business
+    for (const pending of await this.getPendingBusinessInvitations(invitation.businessId)) {
+      if (pending.email === invitation.email) {
+        this.businessInvitations.set(pending.id, { ...pending, revokedAt: now });
+      }
+    }
+    
+    const id = this.currentBusinessInvitationId++;
+    const created: BusinessInvitation = {
+      id,
+      businessId: invitation.businessId,
+      email: invitation.email,
+      role: invitation.role,
+      tokenHash: invitation.tokenHash,
+      invitedBy: invitation.invitedBy ?? null,
+      expiresAt: invitation.expiresAt,
+      acceptedAt: null,
+      acceptedBy: null,
+      revokedAt: null,
+      createdAt: now,
+    };
+    this.businessInvitations.set(id, created);
+    return created;
+  }
+  
+  async getBusinessInvitationByTokenHash(tokenHash: string): Promise<BusinessInvitation | undefined> {
+    return Array.from(this.businessInvitations.values()).find(invitation => invitation.tokenHash === tokenHash);
+  }
+  
+  async getPendingBusinessInvitations(businessId: number): Promise<BusinessInvitation[]> {
+    const now = new Date();
+    return Array.from(this.businessInvitations.values())
+      .filter(invitation => 
+        invitation.businessId === businessId && !invitation.acceptedAt && !invitation.revokedAt && invitation.expiresAt > now
+      )
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+  
+  async revokeBusinessInvitation(businessId: number, id: number): Promise<boolean> {
+    const invitation = this.businessInvitations.get(id);
+    if (!invitation || invitation.businessId !== businessId || invitation.acceptedAt || invitation.revokedAt) {
+      return false;
+    }
+    
+    this.businessInvitations.set(id, { ...invitation, revokedAt: new Date() });
+    return true;
+  }
+  
+  async acceptBusinessInvitation(id: number, userId: number): Promise<BusinessMember | undefined> {
+    const invitation = this.businessInvitations.get(id);
+    const user = this.users.get(userId);
+    const now = new Date();
+    if (!invitation || !user || invitation.acceptedAt || invitation.revokedAt || invitation.expiresAt <= now) {
+      return undefined;
+    }
+    
+    this.businessInvitations.set(id, { ...invitation, acceptedAt: now, acceptedBy: userId });
+    
+    const member: BusinessMember = {
+      id: this.currentBusinessMemberId++,
+      businessId: invitation.businessId,
+      userId,
+      role: invitation.role,
+      invitedBy: invitation.invitedBy,
+      createdAt: now,
+    };
+    this.businessMembers.set(member.id, member);
+    
+    if (user.userType === "individual") {
+      this.users.set(userId, { ...user, userType: "business" });
+    }
+    return member;
+  }
+  
+  // Business Hours methods
+  async getBusinessHours(businessId: number): Promise<BusinessHours[]> {
+    return Array.from(this.businessHours.values()).filter(
+      (hours) => hours.businessId === businessId
+    );
+  }
+  
+  async getBusinessHoursForBusinesses(businessIds: number[]): Promise<BusinessHours[]> {
+    const ids = new Set(businessIds);
+    return Array.from(this.businessHours.values()).filter(
+      (hours) => ids.has(hours.businessId)
+    );
+  }
+  
+  async addBusinessHours(businessHoursData: Omit<InsertBusinessHours, "id">): Promise<BusinessHours> {
+    const business = await this.getBusiness(businessHoursData.businessId);
+    if (!business) {
+      throw new Error("Business not found");
+    }
+    
+    const id = this.currentBusinessHoursId++;
+    const businessHours: BusinessHours = {
+      id,
+      businessId: businessHoursData.businessId,
+      dayOfWeek: businessHoursData.dayOfWeek,
+      openTime: businessHoursData.openTime ?? null,
+      closeTime: businessHoursData.closeTime ?? null,
+      isClosed: businessHoursData.isClosed ?? null,
+    };
+    
+    this.businessHours.set(id, businessHours);
+    return businessHours;
+  }
+  
+  async updateBusinessHours(id: number, businessHoursData: Partial<Omit<InsertBusinessHours, "id" | "businessId">>): Promise<BusinessHours> {
+    const businessHours = this.businessHours.get(id);
+    if (!businessHours) {
+      throw new Error("Business hours not found");
+    }
+    
+    const updatedBusinessHours: BusinessHours = {
+      ...businessHours,
+      ...businessHoursData,
+    };
+    
+    this.businessHours.set(id, updatedBusinessHours);
+    return updatedBusinessHours;
+  }
+  
+  async deleteBusinessHours(id: number): Promise<void> {
+    if (!this.businessHours.has(id)) {
+      throw new Error("Business hours not found");
+    }
+    
+    this.businessHours.delete(id);
+  }
+  
+  // Business Social Media methods
+  async getBusinessSocialLinks(businessId: number): Promise<BusinessSocial[]> {
+    return Array.from(this.businessSocial.values()).filter(
+      (social) => social.businessId === businessId
     );
   }
   
@@ -1241,6 +2274,45 @@ export class MemStorage implements IStorage {
     }));
   }
 
+  async getDealsNearby(query: GeoQuery): Promise<(Deal & { business: Business; distanceKm: number | null })[]> {
+    const { lat, lng, radiusKm, bbox } = query;
+    const hasOrigin = lat !== undefined && lng !== undefined;
+    const now = new Date();
+    const results: (Deal & { business: Business; distanceKm: number | null })[] = [];
+    
+    for (const deal of this.deals.values()) {
+      // Same visibility rules customers get from getDeals
+      if (!["approved", "active"].includes(deal.status) || new Date(deal.endDate) < now) continue;
+      
+      const business = this.businesses.get(deal.businessId);
+      if (!business || business.latitude == null || business.longitude == null) continue;
+      
+      if (bbox && !isWithinBounds(business.latitude, business.longitude, bbox)) continue;
+      
+      const distanceKm = hasOrigin
+        ? haversineKm(lat!, lng!, business.latitude, business.longitude)
+        : null;
+      
+      if (radiusKm !== undefined && distanceKm !== null && distanceKm > radiusKm) continue;
+      
+      results.push({ ...deal, business, distanceKm });
+    }
+    
+    if (hasOrigin) {
+      results.sort((a, b) => a.distanceKm! - b.distanceKm!);
+    }
+    
+    return results;
+  }
+
+  async searchDeals(query: string, options?: DealSearchOptions): Promise<DealSearchHit[]> {
+    return this.dealSearchIndex.search(query, options);
+  }
+
+  async suggestDeals(query: string, options?: DealSearchOptions): Promise<SearchSuggestion[]> {
+    return this.dealSearchIndex.suggest(query, options);
+  }
+
   async getDeal(id: number): Promise<(Deal & { business: Business }) | undefined> {
     const deal = this.deals.get(id);
     if (!deal) return undefined;
@@ -1289,6 +2361,7 @@ export class MemStorage implements IStorage {
       createdAt: new Date(),
       isRecurring: dealData.isRecurring ?? false,
       recurringDays: dealData.recurringDays ?? [],
+      schedule: dealData.schedule ?? null,
       terms: dealData.terms || null,
       discount: dealData.discount || null,
       requiresPin: dealData.requiresPin ?? true,
@@ -1301,9 +2374,11 @@ export class MemStorage implements IStorage {
       saveCount: dealData.saveCount ?? 0,
       redemptionCount: dealData.redemptionCount ?? 0,
       rejectionReason: dealData.rejectionReason || null,
+      updatedAt: new Date(),
     };
     
     this.deals.set(id, deal);
+    this.dealSearchIndex.upsert(deal, this.businesses.get(deal.businessId)?.businessName);
     return deal;
   }
 
@@ -1316,9 +2391,11 @@ export class MemStorage implements IStorage {
     const updatedDeal: Deal = {
       ...deal,
       ...dealData,
+      updatedAt: new Date(),
     };
     
     this.deals.set(id, updatedDeal);
+    this.dealSearchIndex.upsert(updatedDeal, this.businesses.get(updatedDeal.businessId)?.businessName);
     return updatedDeal;
   }
 
@@ -1328,6 +2405,7 @@ export class MemStorage implements IStorage {
     }
     
     this.deals.delete(id);
+    this.dealSearchIndex.remove(id);
     
     // Clean up related records
     const favorites = Array.from(this.userFavorites.values())
@@ -1353,7 +2431,7 @@ export class MemStorage implements IStorage {
     });
   }
   
-  async updateDealStatus(id: number, status: string): Promise<Deal> {
+  async updateDealStatus(id: number, status: string, change: DealStatusChange = {}): Promise<Deal> {
     const deal = this.deals.get(id);
     if (!deal) {
       throw new Error("Deal not found");
@@ -1365,9 +2443,53 @@ export class MemStorage implements IStorage {
     };
     
     this.deals.set(id, updatedDeal);
+    if (deal.status !== status) {
+      this.addDealStatusHistory(id, deal.status, status, change.reason ?? "manual", change.changedBy ?? null);
+    }
     return updatedDeal;
   }
   
+  async transitionDealsByDate(rule: DealLifecycleRule): Promise<DealStatusHistory[]> {
+    const limit = rule.limit ?? DEFAULT_LIFECYCLE_BATCH_SIZE;
+    const transitions: DealStatusHistory[] = [];
+    
+    for (const deal of Array.from(this.deals.values())) {
+      if (transitions.length >= limit) break;
+      if (!rule.fromStatuses.includes(deal.status) || new Date(deal[rule.dateField]) > rule.before) continue;
+      
+      this.deals.set(deal.id, { ...deal, status: rule.toStatus });
+      transitions.push(this.addDealStatusHistory(deal.id, deal.status, rule.toStatus, rule.reason, null));
+    }
+    
+    return transitions;
+  }
+  
+  async getDealStatusHistory(dealId: number): Promise<DealStatusHistory[]> {
+    return Array.from(this.dealStatusHistory.values())
+      .filter(entry => entry.dealId === dealId)
+      .sort((a, b) => a.changedAt.getTime() - b.changedAt.getTime() || a.id - b.id);
+  }
+  
+  private addDealStatusHistory(
+    dealId: number,
+    fromStatus: string | null,
+    toStatus: string,
+    reason: DealStatusChangeReason,
+    changedBy: number | null
+  ): DealStatusHistory {
+    const entry: DealStatusHistory = {
+      id: this.currentDealStatusHistoryId++,
+      dealId,
+      fromStatus,
+      toStatus,
+      reason,
+      changedBy,
+      changedAt: new Date(),
+    };
+    this.dealStatusHistory.set(entry.id, entry);
+    return entry;
+  }
+  
   async duplicateDeal(dealId: number): Promise<Deal> {
     const deal = this.deals.get(dealId);
     if (!deal) {
@@ -1387,6 +2509,7 @@ export class MemStorage implements IStorage {
     };
     
     this.deals.set(id, newDeal);
+    this.dealSearchIndex.upsert(newDeal, this.businesses.get(newDeal.businessId)?.businessName);
     return newDeal;
   }
   
@@ -1483,6 +2606,9 @@ export class MemStorage implements IStorage {
       throw new Error("Deal not found");
     }
     
+    const previousSubmissions = Array.from(this.dealApprovals.values())
+      .filter(approval => approval.dealId === approvalData.dealId).length;
+    
     const id = this.currentDealApprovalId++;
     const approval: DealApproval = {
       id,
@@ -1493,7 +2619,9 @@ export class MemStorage implements IStorage {
       feedback: approvalData.feedback ?? null,
       submittedAt: new Date(),
       reviewedAt: approvalData.reviewedAt ?? null,
-      revisionCount: approvalData.revisionCount ?? 0,
+      revisionCount: approvalData.revisionCount ?? previousSubmissions,
+      snapshot: approvalData.snapshot ?? createDealSnapshot(deal),
+      autoModeration: approvalData.autoModeration ?? null,
     };
     
     this.dealApprovals.set(id, approval);
@@ -1540,13 +2668,41 @@ export class MemStorage implements IStorage {
     
     // Update the deal status if approval is accepted or rejected
     if (data.status === "approved" || data.status === "rejected") {
-      const dealStatus = data.status === "approved" ? "active" : "rejected";
-      await this.updateDealStatus(approval.dealId, dealStatus);
+      const deal = await this.getDeal(approval.dealId);
+      await this.updateDealStatus(approval.dealId, getStatusAfterReview(data.status, deal), {
+        reason: "approval",
+        changedBy: data.reviewerId ?? null,
+      });
+      
+      if (deal) {
+        await this.notify(dealReviewNotification(updatedApproval, deal));
+      }
     }
     
     return updatedApproval;
   }
   
+  async addDealReviewComment(commentData: Omit<InsertDealReviewComment, "id" | "createdAt">): Promise<DealReviewComment> {
+    const comment: DealReviewComment = {
+      id: this.currentDealReviewCommentId++,
+      approvalId: commentData.approvalId,
+      dealId: commentData.dealId,
+      field: commentData.field,
+      comment: commentData.comment,
+      authorId: commentData.authorId,
+      createdAt: new Date(),
+    };
+    
+    this.dealReviewComments.set(comment.id, comment);
+    return comment;
+  }
+  
+  async getDealReviewComments(dealId: number): Promise<DealReviewComment[]> {
+    return Array.from(this.dealReviewComments.values())
+      .filter(comment => comment.dealId === dealId)
+      .sort((a, b) => a.id - b.id);
+  }
+  
   // Additional deal redemption methods
   async getDealRedemptions(dealId: number): Promise<DealRedemption[]> {
     return Array.from(this.dealRedemptions.values())
@@ -1578,6 +2734,68 @@ export class MemStorage implements IStorage {
     ).length;
   }
   
+  // Redemption token methods
+  async createRedemptionToken(data: Omit<InsertRedemptionToken, "id" | "createdAt">): Promise<RedemptionToken> {
+    const id = this.currentRedemptionTokenId++;
+    const redemptionToken: RedemptionToken = {
+      id,
+      userId: data.userId,
+      dealId: data.dealId,
+      jti: data.jti,
+      shortCode: data.shortCode,
+      expiresAt: data.expiresAt,
+      usedAt: data.usedAt || null,
+      verifiedBy: data.verifiedBy || null,
+      redemptionId: data.redemptionId || null,
+      createdAt: new Date(),
+    };
+    
+    this.redemptionTokens.set(id, redemptionToken);
+    return redemptionToken;
+  }
+  
+  async getRedemptionTokenByJti(jti: string): Promise<RedemptionToken | undefined> {
+    return Array.from(this.redemptionTokens.values()).find(token => token.jti === jti);
+  }
+  
+  async getRedemptionTokenByShortCode(shortCode: string): Promise<RedemptionToken | undefined> {
+    // Short codes can be reused once a token is dead, so return the most recent match
+    return Array.from(this.redemptionTokens.values())
+      .filter(token => token.shortCode === shortCode)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())[0];
+  }
+  
+  async claimRedemptionToken(id: number, verifiedBy: number): Promise<RedemptionToken | undefined> {
+    const redemptionToken = this.redemptionTokens.get(id);
+    if (!redemptionToken || redemptionToken.usedAt || redemptionToken.expiresAt < new Date()) {
+      return undefined;
+    }
+    
+    const claimedToken: RedemptionToken = {
+      ...redemptionToken,
+      usedAt: new Date(),
+      verifiedBy,
+    };
+    
+    this.redemptionTokens.set(id, claimedToken);
+    return claimedToken;
+  }
+  
+  async updateRedemptionToken(id: number, data: Partial<Omit<InsertRedemptionToken, "id">>): Promise<RedemptionToken> {
+    const redemptionToken = this.redemptionTokens.get(id);
+    if (!redemptionToken) {
+      throw new Error("Redemption token not found");
+    }
+    
+    const updatedToken: RedemptionToken = {
+      ...redemptionToken,
+      ...data,
+    } as RedemptionToken;
+    
+    this.redemptionTokens.set(id, updatedToken);
+    return updatedToken;
+  }
+  
   // User favorites methods
   async getUserFavorites(userId: number): Promise<(UserFavorite & { deal: Deal & { business: Business } })[]> {
     const favorites = Array.from(this.userFavorites.values())
@@ -1661,6 +2879,15 @@ export class MemStorage implements IStorage {
       throw new Error("Deal not found");
     }
     
+    // No awaits between the checks and the writes below, so concurrent
+    // callers cannot interleave and exceed the limits
+    const dealRedemptionList = Array.from(this.dealRedemptions.values())
+      .filter(redemption => redemption.dealId === dealId);
+    const userRedemptionCount = dealRedemptionList
+      .filter(redemption => redemption.userId === userId).length;
+    
+    assertRedemptionAllowed(deal, userRedemptionCount, dealRedemptionList.length);
+    
     const id = this.currentDealRedemptionId++;
     const redemption: DealRedemption = {
       id,
@@ -1671,6 +2898,16 @@ export class MemStorage implements IStorage {
     };
     
     this.dealRedemptions.set(id, redemption);
+    this.deals.set(dealId, {
+      ...deal,
+      redemptionCount: (deal.redemptionCount || 0) + 1,
+    });
+    
+    const redeemedDeal = await this.getDeal(dealId);
+    if (redeemedDeal) {
+      await this.notify(ratingPromptNotification(redemption, redeemedDeal));
+    }
+    
     return redemption;
   }
 
@@ -1750,52 +2987,703 @@ export class MemStorage implements IStorage {
     return this.updateUserNotificationPreferences(userId, preferencesData);
   }
 
-  // Redemption rating methods
-  async createRedemptionRating(redemptionId: number, userId: number, dealId: number, businessId: number, ratingData: RatingData): Promise<RedemptionRating> {
-    // Check if a rating already exists for this redemption
-    const existingRating = await this.getRedemptionRating(redemptionId);
-    if (existingRating) {
-      throw new Error("Rating already exists for this redemption");
+  // Personalization preferences methods
+  async getUserPreferences(userId: number): Promise<UserPreferences | undefined> {
+    return Array.from(this.userPreferences.values())
+      .find(pref => pref.userId === userId);
+  }
+
+  async updateUserPreferences(userId: number, preferencesData: Partial<Omit<InsertUserPreferences, "id" | "userId" | "updatedAt">>): Promise<UserPreferences> {
+    const existing = await this.getUserPreferences(userId);
+    
+    const preferences: UserPreferences = {
+      id: existing?.id ?? this.currentUserPreferencesId++,
+      userId,
+      categories: preferencesData.categories ?? existing?.categories ?? [],
+      homeLatitude: preferencesData.homeLatitude !== undefined ? preferencesData.homeLatitude : existing?.homeLatitude ?? null,
+      homeLongitude: preferencesData.homeLongitude !== undefined ? preferencesData.homeLongitude : existing?.homeLongitude ?? null,
+      searchRadiusMiles: preferencesData.searchRadiusMiles !== undefined ? preferencesData.searchRadiusMiles : existing?.searchRadiusMiles ?? null,
+      updatedAt: new Date(),
+    };
+    
+    this.userPreferences.set(preferences.id, preferences);
+    return preferences;
+  }
+
+  // Weekly digest methods
+  async getWeeklyDigestRecipients(afterUserId: number, limit: number = DEFAULT_DIGEST_RECIPIENT_BATCH_SIZE): Promise<WeeklyDigestRecipient[]> {
+    const recipients: WeeklyDigestRecipient[] = [];
+    const candidates = Array.from(this.users.values())
+      .filter(user => user.userType === "individual" && user.id > afterUserId)
+      .sort((a, b) => a.id - b.id);
+    
+    for (const user of candidates) {
+      const notificationPreferences = await this.getUserNotificationPreferences(user.id);
+      if (notificationPreferences?.weeklyNewsletter !== true) continue;
+      
+      recipients.push({ user, preferences: await this.getUserPreferences(user.id) });
+      if (recipients.length >= limit) break;
     }
     
-    // Create a new rating
-    const id = this.currentRedemptionRatingId++;
-    const rating: RedemptionRating = {
-      id,
-      redemptionId,
+    return recipients;
+  }
+
+  async getDigestDeals(now: Date, newSince: Date, expiringBefore: Date): Promise<(Deal & { business: Business })[]> {
+    const deals = await this.getDeals();
+    
+    return deals.filter(deal =>
+      deal.status === "active" &&
+      new Date(deal.startDate) <= now &&
+      new Date(deal.endDate) > now &&
+      (new Date(deal.createdAt) >= newSince || new Date(deal.endDate) <= expiringBefore)
+    );
+  }
+
+  // Expiring-deal reminder methods
+  async getDueDealReminders(now: Date, limit: number = DEFAULT_REMINDER_BATCH_SIZE): Promise<DueDealReminder[]> {
+    const due: DueDealReminder[] = [];
+    
+    for (const favorite of Array.from(this.userFavorites.values())) {
+      if (due.length >= limit) break;
+      
+      const preferences = await this.getUserNotificationPreferences(favorite.userId);
+      if (preferences?.expiringDealReminders === false) continue;
+      
+      const deal = await this.getDeal(favorite.dealId);
+      if (!deal || deal.status !== "active") continue;
+      
+      const hours = preferences?.expiringDealReminderHours ?? DEFAULT_EXPIRING_DEAL_REMINDER_HOURS;
+      const endDate = new Date(deal.endDate);
+      if (endDate <= now || endDate.getTime() > now.getTime() + hours * 60 * 60 * 1000) continue;
+      
+      const alreadyReminded = Array.from(this.dealReminders.values())
+        .some(reminder => reminder.userId === favorite.userId && reminder.dealId === favorite.dealId);
+      if (alreadyReminded) continue;
+      
+      due.push({ userId: favorite.userId, deal, preferences });
+    }
+    
+    return due;
+  }
+  
+  async claimDealReminder(userId: number, dealId: number, channel: string): Promise<DealReminder | undefined> {
+    const dedupeKey = getDealReminderDedupeKey(userId, dealId, channel);
+    if (Array.from(this.dealReminders.values()).some(reminder => reminder.dedupeKey === dedupeKey)) {
+      return undefined;
+    }
+    
+    const reminder: DealReminder = {
+      id: this.currentDealReminderId++,
       userId,
       dealId,
-      businessId,
-      rating: ratingData.rating,
-      comment: ratingData.comment || null,
+      channel,
+      dedupeKey,
+      status: "pending",
+      attempts: 0,
+      lastError: null,
       createdAt: new Date(),
-      anonymous: ratingData.anonymous || false
+      sentAt: null,
+      readAt: null,
     };
     
-    this.redemptionRatings.set(id, rating);
-    return rating;
+    this.dealReminders.set(reminder.id, reminder);
+    return reminder;
   }
   
-  async getRedemptionRating(redemptionId: number): Promise<RedemptionRating | undefined> {
-    return Array.from(this.redemptionRatings.values()).find(
-      (rating) => rating.redemptionId === redemptionId
-    );
+  async claimRetryableDealReminders(maxAttempts: number, limit: number = DEFAULT_REMINDER_BATCH_SIZE): Promise<DealReminder[]> {
+    const retryable = Array.from(this.dealReminders.values())
+      .filter(reminder => reminder.status === "failed" && reminder.attempts < maxAttempts)
+      .slice(0, limit);
+    
+    return retryable.map(reminder => {
+      const claimed: DealReminder = { ...reminder, status: "pending" };
+      this.dealReminders.set(reminder.id, claimed);
+      return claimed;
+    });
   }
   
-  async getUserRatings(userId: number): Promise<(RedemptionRating & { deal: Deal, business: Business })[]> {
-    const ratings = Array.from(this.redemptionRatings.values()).filter(
-      (rating) => rating.userId === userId
-    );
+  async updateDealReminder(id: number, data: Partial<Omit<InsertDealReminder, "id" | "userId" | "dealId" | "channel" | "dedupeKey">>): Promise<DealReminder> {
+    const reminder = this.dealReminders.get(id);
+    if (!reminder) {
+      throw new Error("Deal reminder not found");
+    }
     
-    return ratings.map(rating => {
-      const deal = this.deals.get(rating.dealId)!;
-      const business = this.businesses.get(rating.businessId)!;
-      return {
-        ...rating,
-        deal,
-        business
-      };
-    });
+    const updatedReminder: DealReminder = { ...reminder, ...data };
+    this.dealReminders.set(id, updatedReminder);
+    return updatedReminder;
+  }
+  
+  async getUnreadDealReminders(userId: number): Promise<(DealReminder & { deal: Deal & { business: Business } })[]> {
+    const reminders = Array.from(this.dealReminders.values())
+      .filter(reminder =>
+        reminder.userId === userId &&
+        reminder.channel === "in_app" &&
+        reminder.status === "sent" &&
+        !reminder.readAt
+      )
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+    
+    const result: (DealReminder & { deal: Deal & { business: Business } })[] = [];
+    for (const reminder of reminders) {
+      const deal = await this.getDeal(reminder.dealId);
+      if (deal) {
+        result.push({ ...reminder, deal });
+      }
+    }
+    return result;
+  }
+  
+  async markDealReminderRead(userId: number, id: number): Promise<DealReminder | undefined> {
+    const reminder = this.dealReminders.get(id);
+    if (!reminder || reminder.userId !== userId) {
+      return undefined;
+    }
+    
+    const updatedReminder: DealReminder = { ...reminder, readAt: reminder.readAt ?? new Date() };
+    this.dealReminders.set(id, updatedReminder);
+    return updatedReminder;
+  }
+  
+  // Web Push subscription methods
+  async saveWebPushSubscription(userId: number, subscription: Omit<InsertWebPushSubscription, "id" | "userId" | "createdAt">): Promise<WebPushSubscription> {
+    // An endpoint belongs to one browser, so re-subscribing moves it to the signed-in user
+    const existing = Array.from(this.webPushSubscriptions.values())
+      .find(saved => saved.endpoint === subscription.endpoint);
+    
+    const saved: WebPushSubscription = {
+      id: existing?.id ?? this.currentWebPushSubscriptionId++,
+      userId,
+      endpoint: subscription.endpoint,
+      p256dh: subscription.p256dh,
+      auth: subscription.auth,
+      userAgent: subscription.userAgent ?? null,
+      createdAt: existing?.createdAt ?? new Date(),
+    };
+    
+    this.webPushSubscriptions.set(saved.id, saved);
+    return saved;
+  }
+  
+  async getWebPushSubscriptions(userId: number): Promise<WebPushSubscription[]> {
+    return Array.from(this.webPushSubscriptions.values())
+      .filter(subscription => subscription.userId === userId);
+  }
+  
+  async deleteWebPushSubscription(userId: number, endpoint: string): Promise<boolean> {
+    const subscription = Array.from(this.webPushSubscriptions.values())
+      .find(saved => saved.userId === userId && saved.endpoint === endpoint);
+    
+    if (!subscription) {
+      return false;
+    }
+    
+    this.webPushSubscriptions.delete(subscription.id);
+    return true;
+  }
+  
+  async deleteWebPushSubscriptionByEndpoint(endpoint: string): Promise<void> {
+    for (const [id, subscription] of Array.from(this.webPushSubscriptions.entries())) {
+      if (subscription.endpoint === endpoint) {
+        this.webPushSubscriptions.delete(id);
+      }
+    }
+  }
+  
+  // Notification inbox methods
+  
+  // Notifications are a side effect of the change that caused them, so failing to create one doesn't fail the change
+  private async notify(notification: NewNotification | null): Promise<void> {
+    if (!notification) return;
+    
+    try {
+      await this.createNotification(notification);
+    } catch (error) {
+      console.error(`Error creating ${notification.type} notification for user ${notification.userId}:`, error);
+    }
+  }
+  
+  async createNotification(notification: Omit<InsertNotification, "id" | "readAt" | "createdAt">): Promise<Notification | undefined> {
+    if (notification.dedupeKey && Array.from(this.notifications.values()).some(saved => saved.dedupeKey === notification.dedupeKey)) {
+      return undefined;
+    }
+    
+    const created: Notification = {
+      id: this.currentNotificationId++,
+      userId: notification.userId,
+      type: notification.type,
+      title: notification.title,
+      body: notification.body,
+      url: notification.url ?? null,
+      dedupeKey: notification.dedupeKey ?? null,
+      readAt: null,
+      createdAt: new Date(),
+    };
+    
+    this.notifications.set(created.id, created);
+    return created;
+  }
+  
+  async getNotifications(userId: number, options: NotificationListOptions = {}): Promise<Notification[]> {
+    return Array.from(this.notifications.values())
+      .filter(notification =>
+        notification.userId === userId &&
+        (!options.unreadOnly || notification.readAt === null) &&
+        (options.beforeId === undefined || notification.id < options.beforeId)
+      )
+      .sort((a, b) => b.id - a.id)
+      .slice(0, options.limit ?? DEFAULT_NOTIFICATION_PAGE_SIZE);
+  }
+  
+  async getUnreadNotificationCount(userId: number): Promise<number> {
+    return Array.from(this.notifications.values())
+      .filter(notification => notification.userId === userId && notification.readAt === null)
+      .length;
+  }
+  
+  async markNotificationRead(userId: number, id: number): Promise<Notification | undefined> {
+    const notification = this.notifications.get(id);
+    if (!notification || notification.userId !== userId) {
+      return undefined;
+    }
+    
+    const updatedNotification: Notification = { ...notification, readAt: notification.readAt ?? new Date() };
+    this.notifications.set(id, updatedNotification);
+    return updatedNotification;
+  }
+  
+  async markAllNotificationsRead(userId: number): Promise<number> {
+    const readAt = new Date();
+    let marked = 0;
+    
+    for (const notification of Array.from(this.notifications.values())) {
+      if (notification.userId !== userId || notification.readAt !== null) continue;
+      this.notifications.set(notification.id, { ...notification, readAt });
+      marked++;
+    }
+    
+    return marked;
+  }
+  
+  async deleteNotification(userId: number, id: number): Promise<boolean> {
+    const notification = this.notifications.get(id);
+    if (!notification || notification.userId !== userId) {
+      return false;
+    }
+    
+    this.notifications.delete(id);
+    return true;
+  }
+  
+  // Moderation policy methods
+  async getRejectionReasons(options: ModerationCatalogueOptions = {}): Promise<RejectionReason[]> {
+    return Array.from(this.rejectionReasons.values())
+      .filter(reason => !options.targetType || reason.targetType === options.targetType)
+      .filter(reason => options.includeInactive || reason.active)
+      .sort((a, b) => a.label.localeCompare(b.label) || a.id - b.id);
+  }
+  
+  async getRejectionReasonsByCode(codes: string[]): Promise<RejectionReason[]> {
+    return Array.from(this.rejectionReasons.values())
+      .filter(reason => codes.includes(reason.code));
+  }
+  
+  async createRejectionReason(reasonData: Omit<InsertRejectionReason, "id" | "createdAt" | "updatedAt">): Promise<RejectionReason | undefined> {
+    const existing = Array.from(this.rejectionReasons.values())
+      .find(reason => reason.code === reasonData.code);
+    if (existing) {
+      return undefined;
+    }
+    
+    const now = new Date();
+    const reason: RejectionReason = {
+      id: this.currentRejectionReasonId++,
+      code: reasonData.code,
+      targetType: reasonData.targetType,
+      label: reasonData.label,
+      template: reasonData.template,
+      active: reasonData.active ?? true,
+      createdAt: now,
+      updatedAt: now,
+    };
+    
+    this.rejectionReasons.set(reason.id, reason);
+    return reason;
+  }
+  
+  async updateRejectionReason(id: number, data: Partial<Pick<InsertRejectionReason, "label" | "template" | "active">>): Promise<RejectionReason | undefined> {
+    const reason = this.rejectionReasons.get(id);
+    if (!reason) {
+      return undefined;
+    }
+    
+    const updatedReason: RejectionReason = { ...reason, ...data, updatedAt: new Date() };
+    this.rejectionReasons.set(id, updatedReason);
+    return updatedReason;
+  }
+  
+  async getModerationChecklistItems(options: ModerationCatalogueOptions = {}): Promise<ModerationChecklistItem[]> {
+    return Array.from(this.moderationChecklistItems.values())
+      .filter(item => !options.targetType || item.targetType === options.targetType)
+      .filter(item => options.includeInactive || item.active)
+      .sort((a, b) => a.sortOrder - b.sortOrder || a.id - b.id);
+  }
+  
+  async createModerationChecklistItem(itemData: Omit<InsertModerationChecklistItem, "id" | "createdAt">): Promise<ModerationChecklistItem> {
+    const item: ModerationChecklistItem = {
+      id: this.currentModerationChecklistItemId++,
+      targetType: itemData.targetType,
+      category: itemData.category ?? null,
+      label: itemData.label,
+      description: itemData.description ?? null,
+      sortOrder: itemData.sortOrder ?? 0,
+      active: itemData.active ?? true,
+      createdAt: new Date(),
+    };
+    
+    this.moderationChecklistItems.set(item.id, item);
+    return item;
+  }
+  
+  async updateModerationChecklistItem(id: number, data: Partial<Pick<InsertModerationChecklistItem, "category" | "label" | "description" | "sortOrder" | "active">>): Promise<ModerationChecklistItem | undefined> {
+    const item = this.moderationChecklistItems.get(id);
+    if (!item) {
+      return undefined;
+    }
+    
+    const updatedItem: ModerationChecklistItem = { ...item, ...data };
+    this.moderationChecklistItems.set(id, updatedItem);
+    return updatedItem;
+  }
+  
+  async createModerationDecision(decisionData: Omit<InsertModerationDecision, "id" | "createdAt">): Promise<ModerationDecision> {
+    const decision: ModerationDecision = {
+      id: this.currentModerationDecisionId++,
+      targetType: decisionData.targetType,
+      targetId: decisionData.targetId,
+      decision: decisionData.decision,
+      reasonCodes: decisionData.reasonCodes ?? [],
+      checklist: decisionData.checklist ?? {},
+      note: decisionData.note ?? null,
+      reviewerId: decisionData.reviewerId ?? null,
+      createdAt: new Date(),
+    };
+    
+    this.moderationDecisions.set(decision.id, decision);
+    return decision;
+  }
+  
+  async getModerationDecisions(targetType: string, targetId: number): Promise<ModerationDecision[]> {
+    return Array.from(this.moderationDecisions.values())
+      .filter(decision => decision.targetType === targetType && decision.targetId === targetId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime() || b.id - a.id);
+  }
+  
+  async getRejectionReasonCounts(options: RejectionReasonCountOptions = {}): Promise<RejectionReasonCount[]> {
+    const counts = new Map<string, number>();
+    
+    for (const decision of Array.from(this.moderationDecisions.values())) {
+      if (decision.decision !== "rejected") continue;
+      if (options.targetType && decision.targetType !== options.targetType) continue;
+      if (options.since && decision.createdAt < options.since) continue;
+      
+      for (const code of decision.reasonCodes) {
+        counts.set(code, (counts.get(code) ?? 0) + 1);
+      }
+    }
+    
+    const reasons = await this.getRejectionReasonsByCode(Array.from(counts.keys()));
+    return toRejectionReasonCounts(counts, reasons, options.limit);
+  }
+  
+  // Pre-moderation rule methods
+  async getPreModerationRuleSettings(): Promise<PreModerationRuleSetting[]> {
+    return Array.from(this.preModerationRules.values());
+  }
+  
+  async savePreModerationRuleSetting(settingData: Omit<InsertPreModerationRuleSetting, "id" | "updatedAt">): Promise<PreModerationRuleSetting> {
+    const existing = this.preModerationRules.get(settingData.key);
+    const setting: PreModerationRuleSetting = {
+      id: existing?.id ?? this.currentPreModerationRuleId++,
+      key: settingData.key,
+      enabled: settingData.enabled ?? true,
+      action: settingData.action,
+      config: settingData.config ?? {},
+      updatedBy: settingData.updatedBy ?? null,
+      updatedAt: new Date(),
+    };
+    
+    this.preModerationRules.set(setting.key, setting);
+    return setting;
+  }
+  
+  async getLatestPreModerationResults(dealIds: number[]): Promise<Map<number, PreModerationResult>> {
+    const results = new Map<number, PreModerationResult>();
+    const approvals = Array.from(this.dealApprovals.values())
+      .filter(approval => dealIds.includes(approval.dealId) && approval.autoModeration)
+      .sort((a, b) => b.submittedAt.getTime() - a.submittedAt.getTime() || b.id - a.id);
+    
+    for (const approval of approvals) {
+      if (!results.has(approval.dealId)) {
+        results.set(approval.dealId, approval.autoModeration!);
+      }
+    }
+    
+    return results;
+  }
+  
+  // Bulk admin action methods
+  async bulkUpdateDeals(ids: number[], action: BulkDealAction, context: BulkActionContext): Promise<BulkItemResult[]> {
+    const results: BulkItemResult[] = [];
+    
+    for (const id of ids) {
+      try {
+        const details = await this.applyBulkDealAction(id, action, context);
+        this.addAdminAuditEntry(auditEntry("deal", action, id, context, details));
+        results.push({ id, success: true });
+      } catch (error) {
+        results.push(bulkItemFailure(id, error));
+      }
+    }
+    
+    return results;
+  }
+  
+  private async applyBulkDealAction(id: number, action: BulkDealAction, context: BulkActionContext): Promise<Record<string, unknown>> {
+    const deal = await this.getDeal(id);
+    if (!deal) {
+      throw new BulkItemError("Deal not found");
+    }
+    
+    switch (action) {
+      case "approve":
+      case "reject": {
+        if (!REVIEWABLE_DEAL_STATUSES.includes(deal.status)) {
+          throw new BulkItemError(`Deal is ${deal.status}, not awaiting review`);
+        }
+        
+        const decision = action === "approve" ? "approved" : "rejected";
+        const feedback = decision === "rejected" ? context.rejection?.feedback ?? null : null;
+        const toStatus = getStatusAfterReview(decision, deal);
+        
+        let reviewed: DealApproval | undefined;
+        for (const approval of Array.from(this.dealApprovals.values())) {
+          if (approval.dealId !== id || approval.status !== "pending") continue;
+          reviewed = { ...approval, status: decision, reviewerId: context.actorId, feedback, reviewedAt: new Date() };
+          this.dealApprovals.set(approval.id, reviewed);
+        }
+        
+        await this.updateDealStatus(id, toStatus, { reason: "approval", changedBy: context.actorId });
+        this.deals.set(id, { ...this.deals.get(id)!, rejectionReason: feedback });
+        await this.createModerationDecision(bulkReviewDecision("deal", id, decision, context));
+        
+        if (reviewed) {
+          await this.notify(dealReviewNotification(reviewed, deal));
+        }
+        return { fromStatus: deal.status, toStatus };
+      }
+      case "feature":
+      case "unfeature": {
+        const featured = action === "feature";
+        this.deals.set(id, { ...this.deals.get(id)!, featured });
+        return { featured };
+      }
+      case "expire": {
+        if (ENDED_DEAL_STATUSES.includes(deal.status)) {
+          throw new BulkItemError("Deal has already ended");
+        }
+        
+        await this.updateDealStatus(id, "expired", { reason: "manual", changedBy: context.actorId });
+        return { fromStatus: deal.status, toStatus: "expired" };
+      }
+      case "delete":
+        await this.deleteDeal(id);
+        return { title: deal.title, businessId: deal.businessId };
+    }
+  }
+  
+  async bulkUpdateBusinesses(ids: number[], action: BulkBusinessAction, context: BulkActionContext): Promise<BulkItemResult[]> {
+    const results: BulkItemResult[] = [];
+    
+    for (const id of ids) {
+      try {
+        const details = await this.applyBulkBusinessAction(id, action, context);
+        this.addAdminAuditEntry(auditEntry("business", action, id, context, details));
+        results.push({ id, success: true });
+      } catch (error) {
+        results.push(bulkItemFailure(id, error));
+      }
+    }
+    
+    return results;
+  }
+  
+  private async applyBulkBusinessAction(id: number, action: BulkBusinessAction, context: BulkActionContext): Promise<Record<string, unknown>> {
+    const business = this.businesses.get(id);
+    if (!business) {
+      throw new BulkItemError("Business not found");
+    }
+    
+    if (action === "delete") {
+      await this.deleteBusiness(id);
+      return { businessName: business.businessName };
+    }
+    
+    const decision = action === "approve" ? "approved" : "rejected";
+    const toStatus = action === "approve" ? "verified" : "rejected";
+    if (business.verificationStatus === toStatus) {
+      throw new BulkItemError(`Business is already ${toStatus}`);
+    }
+    
+    await this.updateBusinessVerificationStatus(id, toStatus, action === "reject" ? context.rejection?.feedback : undefined);
+    await this.createModerationDecision(bulkReviewDecision("business", id, decision, context));
+    return { fromStatus: business.verificationStatus, toStatus };
+  }
+  
+  async bulkUpdateUsers(profileIds: string[], _action: BulkUserAction, _context: BulkActionContext): Promise<BulkItemResult<string>[]> {
+    // Users are switched on and off through Supabase profiles, which aren't kept in memory
+    return profileIds.map(id => ({ id, success: false, error: "User not found" }));
+  }
+  
+  // Admin audit log methods
+  async appendAdminAuditEntry(entry: NewAdminAuditEntry): Promise<AdminAuditEntry> {
+    return this.addAdminAuditEntry(entry);
+  }
+  
+  async getAdminAuditEntries(options: AdminAuditQuery = {}): Promise<AdminAuditEntry[]> {
+    const offset = options.offset ?? 0;
+    return Array.from(this.adminAuditLog.values())
+      .filter(entry => options.actorId === undefined || entry.actorId === options.actorId)
+      .filter(entry => options.action === undefined || entry.action.startsWith(options.action))
+      .filter(entry => options.targetType === undefined || entry.targetType === options.targetType)
+      .filter(entry => options.targetId === undefined || entry.targetId === options.targetId)
+      .filter(entry => options.batchId === undefined || entry.batchId === options.batchId)
+      .filter(entry => options.from === undefined || entry.createdAt >= options.from)
+      .filter(entry => options.to === undefined || entry.createdAt <= options.to)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime() || b.id - a.id)
+      .slice(offset, offset + (options.limit ?? DEFAULT_AUDIT_PAGE_SIZE));
+  }
+  
+  async getAdminAuditChain(): Promise<AdminAuditEntry[]> {
+    return Array.from(this.adminAuditLog.values()).sort((a, b) => a.id - b.id);
+  }
+  
+  private addAdminAuditEntry(entryData: NewAdminAuditEntry): AdminAuditEntry {
+    const previous = this.adminAuditLog.get(this.currentAdminAuditEntryId - 1);
+    const entry: AdminAuditEntry = {
+      id: this.currentAdminAuditEntryId++,
+      ...sealAuditEntry(entryData, previous?.hash ?? null),
+    };
+    
+    this.adminAuditLog.set(entry.id, entry);
+    return entry;
+  }
+  
+  // Email outbox methods
+  async getMarketingConsent(_email: string): Promise<boolean> {
+    // Consent is recorded on Supabase profiles, which aren't kept in memory
+    return false;
+  }
+  
+  async enqueueEmail(message: Omit<InsertEmailOutboxMessage, "id" | "status" | "attempts" | "lastError" | "messageId" | "createdAt" | "sentAt">): Promise<EmailOutboxMessage | undefined> {
+    if (message.dedupeKey && Array.from(this.emailOutbox.values()).some(email => email.dedupeKey === message.dedupeKey)) {
+      return undefined;
+    }
+    
+    const queued: EmailOutboxMessage = {
+      id: this.currentEmailOutboxId++,
+      userId: message.userId ?? null,
+      toAddress: message.toAddress,
+      template: message.template,
+      templateVersion: message.templateVersion,
+      category: message.category,
+      subject: message.subject,
+      html: message.html,
+      text: message.text,
+      headers: message.headers ?? null,
+      dedupeKey: message.dedupeKey ?? null,
+      status: "pending",
+      attempts: 0,
+      lastError: null,
+      nextAttemptAt: message.nextAttemptAt ?? new Date(),
+      messageId: null,
+      createdAt: new Date(),
+      sentAt: null,
+    };
+    
+    this.emailOutbox.set(queued.id, queued);
+    return queued;
+  }
+  
+  async claimDueEmails(now: Date, lockedUntil: Date, limit: number = DEFAULT_EMAIL_BATCH_SIZE): Promise<EmailOutboxMessage[]> {
+    const due = Array.from(this.emailOutbox.values())
+      .filter(email => (email.status === "pending" || email.status === "sending") && email.nextAttemptAt <= now)
+      .sort((a, b) => a.nextAttemptAt.getTime() - b.nextAttemptAt.getTime())
+      .slice(0, limit);
+    
+    return due.map(email => {
+      const claimed: EmailOutboxMessage = { ...email, status: "sending", nextAttemptAt: lockedUntil };
+      this.emailOutbox.set(email.id, claimed);
+      return claimed;
+    });
+  }
+  
+  async updateEmail(id: number, data: Partial<Pick<InsertEmailOutboxMessage, "status" | "attempts" | "lastError" | "nextAttemptAt" | "messageId" | "sentAt">>): Promise<EmailOutboxMessage> {
+    const email = this.emailOutbox.get(id);
+    if (!email) {
+      throw new Error(`Email with ID ${id} not found`);
+    }
+    
+    const updatedEmail: EmailOutboxMessage = { ...email, ...data };
+    this.emailOutbox.set(id, updatedEmail);
+    return updatedEmail;
+  }
+
+  // Redemption rating methods
+  async createRedemptionRating(redemptionId: number, userId: number, dealId: number, businessId: number, ratingData: RatingData): Promise<RedemptionRating> {
+    // Check if a rating already exists for this redemption
+    const existingRating = await this.getRedemptionRating(redemptionId);
+    if (existingRating) {
+      throw new Error("Rating already exists for this redemption");
+    }
+    
+    // Create a new rating
+    const id = this.currentRedemptionRatingId++;
+    const rating: RedemptionRating = {
+      id,
+      redemptionId,
+      userId,
+      dealId,
+      businessId,
+      rating: ratingData.rating,
+      comment: ratingData.comment || null,
+      createdAt: new Date(),
+      anonymous: ratingData.anonymous || false
+    };
+    
+    this.redemptionRatings.set(id, rating);
+    return rating;
+  }
+  
+  async getRedemptionRating(redemptionId: number): Promise<RedemptionRating | undefined> {
+    return Array.from(this.redemptionRatings.values()).find(
+      (rating) => rating.redemptionId === redemptionId
+    );
+  }
+  
+  async getUserRatings(userId: number): Promise<(RedemptionRating & { deal: Deal, business: Business })[]> {
+    const ratings = Array.from(this.redemptionRatings.values()).filter(
+      (rating) => rating.userId === userId
+    );
+    
+    return ratings.map(rating => {
+      const deal = this.deals.get(rating.dealId)!;
+      const business = this.businesses.get(rating.businessId)!;
+      return {
+        ...rating,
+        deal,
+        business
+      };
+    });
   }
   
   async getBusinessRatings(businessId: number): Promise<RedemptionRating[]> {
@@ -1837,7 +3725,19 @@ export class MemStorage implements IStorage {
   }
 }
 
+// A drizzle transaction, or a savepoint nested in one
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
 export class DatabaseStorage implements IStorage {
+  // Full-text search index over deals, loaded from the database on first use,
+  // kept current by the deal write methods below and synced with the database
+  // every DEAL_SEARCH_SYNC_INTERVAL_MS for writes made by other servers
+  private dealSearchIndex = new DealSearchIndex();
+  private dealSearchIndexSync: Promise<void> | null = null;
+  private dealSearchIndexSyncedAt = 0;
+  // updatedAt of the newest deal loaded into the index
+  private dealSearchIndexUpdatedAt: Date | null = null;
+
   async getUser(id: number): Promise<User | undefined> {
     const [user] = await db.select().from(users).where(eq(users.id, id));
     return user || undefined;
@@ -1950,10 +3850,11 @@ export class DatabaseStorage implements IStorage {
     }
 
     if (user.userType === "business") {
-      const business = await this.getBusinessByUserId(userId);
+      // Members see the business they work for, not only one they own
+      const membership = await this.getBusinessMembership(userId);
       return {
         ...user,
-        business
+        business: membership?.business
       };
     }
 
@@ -2447,6 +4348,10 @@ export class DatabaseStorage implements IStorage {
       }
     }
     
+    if (businessData.businessName !== undefined) {
+      this.dealSearchIndex.updateBusinessName(id, updatedBusiness.businessName);
+    }
+    
     return updatedBusiness;
   }
 
@@ -2463,104 +4368,316 @@ export class DatabaseStorage implements IStorage {
       throw new Error("Business not found");
     }
     
+    await this.notify(businessVerificationNotification(updatedBusiness));
+    
     return updatedBusiness;
   }
 
   async deleteBusiness(id: number): Promise<boolean> {
-    // Import Supabase deletion functions
-    const { deleteSupabaseBusiness, getUserByEmail } = await import('./supabaseQueries');
-    
-    return await db.transaction(async (tx) => {
+    const deleted = await db.transaction(async (tx) => {
       // Get the business first to check if it exists and get the user ID
       const [business] = await tx.select().from(businesses).where(eq(businesses.id, id));
       if (!business) {
-        return false;
-      }
-
-      // Get the user details before deletion for Supabase cleanup
-      const [user] = await tx.select().from(users).where(eq(users.id, business.userId));
-      
-      console.log(`[BUSINESS DELETE] Starting deletion process for business ID ${id}: ${business.businessName}`);
-      if (user) {
-        console.log(`[BUSINESS DELETE] Associated user: ${user.email}`);
+        return null;
       }
 
-      // Delete all related data in the correct order (child tables first)
-      
-      // Delete redemption ratings for deals belonging to this business
-      await tx.delete(redemptionRatings).where(
-        inArray(redemptionRatings.dealId, 
-          tx.select({ id: deals.id }).from(deals).where(eq(deals.businessId, id))
-        )
-      );
+      return await this.deleteBusinessRecords(tx, business);
+    });
+    
+    if (!deleted) {
+      return false;
+    }
+    
+    await this.deleteSupabaseBusinessOf(deleted.user);
+    console.log(`[BUSINESS DELETE] Business deletion completed for ${deleted.business.businessName}`);
+    return true;
+  }
 
-      // Delete deal redemptions for deals belonging to this business
-      await tx.delete(dealRedemptions).where(
-        inArray(dealRedemptions.dealId, 
-          tx.select({ id: deals.id }).from(deals).where(eq(deals.businessId, id))
-        )
-      );
+  /**
+   * Delete a business, its deals and its owner's account, returning the owner for Supabase cleanup
+   */
+  private async deleteBusinessRecords(tx: Transaction, business: Business): Promise<{ business: Business; user: User | undefined }> {
+    const id = business.id;
+    
+    // Get the user details before deletion for Supabase cleanup
+    const [user] = await tx.select().from(users).where(eq(users.id, business.userId));
+    
+    console.log(`[BUSINESS DELETE] Starting deletion process for business ID ${id}: ${business.businessName}`);
+    if (user) {
+      console.log(`[BUSINESS DELETE] Associated user: ${user.email}`);
+    }
 
-      // Delete user favorites for deals belonging to this business
-      await tx.delete(userFavorites).where(
-        inArray(userFavorites.dealId, 
-          tx.select({ id: deals.id }).from(deals).where(eq(deals.businessId, id))
-        )
-      );
+    // Delete all related data in the correct order (child tables first)
+    
+    // Delete redemption ratings for deals belonging to this business
+    await tx.delete(redemptionRatings).where(
+      inArray(redemptionRatings.dealId, 
+        tx.select({ id: deals.id }).from(deals).where(eq(deals.businessId, id))
+      )
+    );
 
-      // Delete deal approvals for deals belonging to this business
-      await tx.delete(dealApprovals).where(
-        inArray(dealApprovals.dealId, 
-          tx.select({ id: deals.id }).from(deals).where(eq(deals.businessId, id))
-        )
-      );
+    // Delete deal redemptions for deals belonging to this business
+    await tx.delete(dealRedemptions).where(
+      inArray(dealRedemptions.dealId, 
+        tx.select({ id: deals.id }).from(deals).where(eq(deals.businessId, id))
+      )
+    );
 
-      // Delete deals belonging to this business
-      await tx.delete(deals).where(eq(deals.businessId, id));
+    // Delete user favorites for deals belonging to this business
+    await tx.delete(userFavorites).where(
+      inArray(userFavorites.dealId, 
+        tx.select({ id: deals.id }).from(deals).where(eq(deals.businessId, id))
+      )
+    );
 
-      // Delete business-specific data
-      await tx.delete(businessDocuments).where(eq(businessDocuments.businessId, id));
-      await tx.delete(businessSocial).where(eq(businessSocial.businessId, id));
-      await tx.delete(businessHours).where(eq(businessHours.businessId, id));
+    // Delete deal approvals for deals belonging to this business
+    await tx.delete(dealApprovals).where(
+      inArray(dealApprovals.dealId, 
+        tx.select({ id: deals.id }).from(deals).where(eq(deals.businessId, id))
+      )
+    );
 
-      // Delete the business itself
-      await tx.delete(businesses).where(eq(businesses.id, id));
+    // Delete status history for deals belonging to this business
+    await tx.delete(dealStatusHistory).where(
+      inArray(dealStatusHistory.dealId, 
+        tx.select({ id: deals.id }).from(deals).where(eq(deals.businessId, id))
+      )
+    );
 
-      // Delete the associated user account and their related data
-      await tx.delete(userNotificationPreferences).where(eq(userNotificationPreferences.userId, business.userId));
-      await tx.delete(refreshTokens).where(eq(refreshTokens.userId, business.userId));
-      await tx.delete(passwordResetTokens).where(eq(passwordResetTokens.userId, business.userId));
-      await tx.delete(users).where(eq(users.id, business.userId));
+    // Delete deals belonging to this business
+    await tx.delete(deals).where(eq(deals.businessId, id));
 
-      // Now try to delete from Supabase if the user exists there
-      if (user) {
-        try {
-          console.log(`[BUSINESS DELETE] Looking for Supabase profile with email: ${user.email}`);
-          const supabaseProfile = await getUserByEmail(user.email);
-          if (supabaseProfile) {
-            console.log(`[BUSINESS DELETE] Found Supabase profile ${supabaseProfile.id}, deleting business...`);
-            await deleteSupabaseBusiness(supabaseProfile.id);
-            console.log(`[BUSINESS DELETE] Successfully deleted from Supabase`);
-          } else {
-            console.log(`[BUSINESS DELETE] No Supabase profile found for ${user.email}`);
-          }
-        } catch (error) {
-          console.error(`[BUSINESS DELETE] Error deleting from Supabase:`, error);
-          // Don't throw here - local deletion was successful
-        }
+    // Delete business-specific data
+    await tx.delete(businessDocuments).where(eq(businessDocuments.businessId, id));
+    await tx.delete(businessSocial).where(eq(businessSocial.businessId, id));
+    await tx.delete(businessHours).where(eq(businessHours.businessId, id));
+
+    // Delete the business itself
+    await tx.delete(businesses).where(eq(businesses.id, id));
+
+    // Delete the associated user account and their related data
+    await tx.delete(userNotificationPreferences).where(eq(userNotificationPreferences.userId, business.userId));
+    await tx.delete(passwordResetTokens).where(eq(passwordResetTokens.userId, business.userId));
+    await tx.delete(users).where(eq(users.id, business.userId));
+
+    return { business, user };
+  }
+
+  /**
+   * Remove the business owner's Supabase records once the local deletion is committed
+   * Failures are logged, not thrown - the local deletion already succeeded
+   */
+  private async deleteSupabaseBusinessOf(user: User | undefined): Promise<void> {
+    if (!user) return;
+    
+    // Import Supabase deletion functions
+    const { deleteSupabaseBusiness, getUserByEmail } = await import('./supabaseQueries');
+    
+    try {
+      console.log(`[BUSINESS DELETE] Looking for Supabase profile with email: ${user.email}`);
+      const supabaseProfile = await getUserByEmail(user.email);
+      if (supabaseProfile) {
+        console.log(`[BUSINESS DELETE] Found Supabase profile ${supabaseProfile.id}, deleting business...`);
+        await deleteSupabaseBusiness(supabaseProfile.id);
+        console.log(`[BUSINESS DELETE] Successfully deleted from Supabase`);
+      } else {
+        console.log(`[BUSINESS DELETE] No Supabase profile found for ${user.email}`);
       }
+    } catch (error) {
+      console.error(`[BUSINESS DELETE] Error deleting from Supabase:`, error);
+      // Don't throw here - local deletion was successful
+    }
+  }
+
+  // Business membership methods
+  async getBusinessMembership(userId: number): Promise<BusinessMembership | undefined> {
+    const owned = await this.getBusinessByUserId(userId);
+    if (owned) {
+      return { business: owned, role: "owner" };
+    }
+    
+    const [row] = await db.select()
+      .from(businessMembers)
+      .innerJoin(businesses, eq(businessMembers.businessId, businesses.id))
+      .where(eq(businessMembers.userId, userId));
+    return row ? { business: row.businesses, role: row.business_members.role as BusinessRole } : undefined;
+  }
+
+  async getBusinessTeam(businessId: number): Promise<BusinessTeamMember[]> {
+    const [owner] = await db.select({
+        userId: users.id,
+        firstName: users.firstName,
+        lastName: users.lastName,
+        email: users.email,
+      })
+      .from(businesses)
+      .innerJoin(users, eq(businesses.userId, users.id))
+      .where(eq(businesses.id, businessId));
+    if (!owner) {
+      return [];
+    }
+    
+    const members = await db.select({
+        userId: users.id,
+        role: businessMembers.role,
+        firstName: users.firstName,
+        lastName: users.lastName,
+        email: users.email,
+        joinedAt: businessMembers.createdAt,
+      })
+      .from(businessMembers)
+      .innerJoin(users, eq(businessMembers.userId, users.id))
+      .where(eq(businessMembers.businessId, businessId))
+      .orderBy(asc(businessMembers.createdAt));
+    
+    return [
+      { ...owner, role: "owner", joinedAt: null },
+      ...members.map(member => ({ ...member, role: member.role as BusinessRole })),
+    ];
+  }
+
+  async updateBusinessMemberRole(businessId: number, userId: number, role: InvitableBusinessRole): Promise<BusinessMember | undefined> {
+    const [member] = await db.update(businessMembers)
+      .set({ role })
+      .where(and(eq(businessMembers.businessId, businessId), eq(businessMembers.userId, userId)))
+      .returning();
+    return member || undefined;
+  }
 
-      console.log(`[BUSINESS DELETE] Business deletion completed for ${business.businessName}`);
+  async removeBusinessMember(businessId: number, userId: number): Promise<boolean> {
+    return await db.transaction(async (tx) => {
+      const removed = await tx.delete(businessMembers)
+        .where(and(eq(businessMembers.businessId, businessId), eq(businessMembers.userId, userId)))
+        .returning({ id: businessMembers.id });
+      if (removed.length === 0) {
+        return false;
+      }
+      
+      // Without a business the account goes back to being a customer account
+      await tx.update(users)
+        .set({ userType: "individual" })
+        .where(and(eq(users.id, userId), eq(users.userType, "business")));
       return true;
     });
   }
 
+  async transferBusinessOwnership(businessId: number, newOwnerId: number): Promise<Business> {
+    return await db.transaction(async (tx) => {
+      const [business] = await tx.select().from(businesses).where(eq(businesses.id, businessId));
+      if (!business) {
+        throw new Error("Business not found");
+      }
+      
+      const removed = await tx.delete(businessMembers)
+        .where(and(eq(businessMembers.businessId, businessId), eq(businessMembers.userId, newOwnerId)))
+        .returning({ id: businessMembers.id });
+      if (removed.length === 0) {
+        throw new Error("The new owner must be a member of the business");
+      }
+      
+      // The previous owner stays on the team as a manager
+      await tx.insert(businessMembers).values({ businessId, userId: business.userId, role: "manager" });
+      
+      const [updated] = await tx.update(businesses)
+        .set({ userId: newOwnerId })
+        .where(eq(businesses.id, businessId))
+        .returning();
+      return updated;
+    });
+  }
+
+  async createBusinessInvitation(invitation: Omit<InsertBusinessInvitation, "id" | "acceptedAt" | "acceptedBy" | "revokedAt" | "createdAt">): Promise<BusinessInvitation> {
+    return await db.transaction(async (tx) => {
+      // A new invitation replaces any the address still has for the business
+      await tx.update(businessInvitations)
+        .set({ revokedAt: new Date() })
+        .where(and(
+          eq(businessInvitations.businessId, invitation.businessId),
+          eq(businessInvitations.email, invitation.email),
+          isNull(businessInvitations.acceptedAt),
+          isNull(businessInvitations.revokedAt)
+        ));
+      
+      const [created] = await tx.insert(businessInvitations).values(invitation).returning();
+      return created;
+    });
+  }
+
+  async getBusinessInvitationByTokenHash(tokenHash: string): Promise<BusinessInvitation | undefined> {
+    const [invitation] = await db.select()
+      .from(businessInvitations)
+      .where(eq(businessInvitations.tokenHash, tokenHash));
+    return invitation || undefined;
+  }
+
+  async getPendingBusinessInvitations(businessId: number): Promise<BusinessInvitation[]> {
+    return await db.select()
+      .from(businessInvitations)
+      .where(and(
+        eq(businessInvitations.businessId, businessId),
+        isNull(businessInvitations.acceptedAt),
+        isNull(businessInvitations.revokedAt),
+        gt(businessInvitations.expiresAt, new Date())
+      ))
+      .orderBy(desc(businessInvitations.createdAt));
+  }
+
+  async revokeBusinessInvitation(businessId: number, id: number): Promise<boolean> {
+    const revoked = await db.update(businessInvitations)
+      .set({ revokedAt: new Date() })
+      .where(and(
+        eq(businessInvitations.id, id),
+        eq(businessInvitations.businessId, businessId),
+        isNull(businessInvitations.acceptedAt),
+        isNull(businessInvitations.revokedAt)
+      ))
+      .returning({ id: businessInvitations.id });
+    return revoked.length > 0;
+  }
+
+  async acceptBusinessInvitation(id: number, userId: number): Promise<BusinessMember | undefined> {
+    return await db.transaction(async (tx) => {
+      const now = new Date();
+      
+      // Claim the invitation so it can only be used once
+      const [invitation] = await tx.update(businessInvitations)
+        .set({ acceptedAt: now, acceptedBy: userId })
+        .where(and(
+          eq(businessInvitations.id, id),
+          isNull(businessInvitations.acceptedAt),
+          isNull(businessInvitations.revokedAt),
+          gt(businessInvitations.expiresAt, now)
+        ))
+        .returning();
+      if (!invitation) {
+        return undefined;
+      }
+      
+      const [member] = await tx.insert(businessMembers)
+        .values({ businessId: invitation.businessId, userId, role: invitation.role, invitedBy: invitation.invitedBy })
+        .returning();
+      
+      await tx.update(users)
+        .set({ userType: "business" })
+        .where(and(eq(users.id, userId), eq(users.userType, "individual")));
+      return member;
+    });
+  }
+
   async getBusinessHours(businessId: number): Promise<BusinessHours[]> {
     return await db.select()
       .from(businessHours)
       .where(eq(businessHours.businessId, businessId));
   }
 
+  async getBusinessHoursForBusinesses(businessIds: number[]): Promise<BusinessHours[]> {
+    if (businessIds.length === 0) return [];
+    
+    return await db.select()
+      .from(businessHours)
+      .where(inArray(businessHours.businessId, businessIds));
+  }
+
   async addBusinessHours(businessHoursData: Omit<InsertBusinessHours, "id">): Promise<BusinessHours> {
     const [addedHours] = await db.insert(businessHours)
       .values(businessHoursData)
@@ -2650,6 +4767,115 @@ export class DatabaseStorage implements IStorage {
     return updatedDocument;
   }
 
+  /**
+   * Sync the search index with the database when it's due; the first search loads every deal
+   * Searches during a sync wait for it, and a failed sync is retried by the next search
+   */
+  private ensureDealSearchIndex(): Promise<void> {
+    if (!this.dealSearchIndexSync && Date.now() - this.dealSearchIndexSyncedAt >= DEAL_SEARCH_SYNC_INTERVAL_MS) {
+      this.dealSearchIndexSync = this.syncDealSearchIndex()
+        .then(() => {
+          this.dealSearchIndexSyncedAt = Date.now();
+        })
+        .finally(() => {
+          this.dealSearchIndexSync = null;
+        });
+    }
+    return this.dealSearchIndexSync ?? Promise.resolve();
+  }
+
+  /**
+   * Load the deals changed since the last sync, drop deleted ones and pick up renamed businesses
+   */
+  private async syncDealSearchIndex(): Promise<void> {
+    const since = this.dealSearchIndexUpdatedAt;
+    const rows = await db.select({ deal: deals, businessName: businesses.businessName })
+      .from(deals)
+      .leftJoin(businesses, eq(deals.businessId, businesses.id))
+      // Deals written in the same millisecond as the newest one loaded may not have been seen yet
+      .where(since ? gte(deals.updatedAt, since) : undefined);
+    
+    for (const { deal, businessName } of rows) {
+      this.dealSearchIndex.upsert(deal, businessName);
+      if (!this.dealSearchIndexUpdatedAt || deal.updatedAt > this.dealSearchIndexUpdatedAt) {
+        this.dealSearchIndexUpdatedAt = deal.updatedAt;
+      }
+    }
+    if (!since) return;
+    
+    const dealIds = await db.select({ id: deals.id }).from(deals);
+    this.dealSearchIndex.retain(new Set(dealIds.map(row => row.id)));
+    
+    const businessNames = await db.select({ id: businesses.id, businessName: businesses.businessName }).from(businesses);
+    this.dealSearchIndex.updateBusinessNames(new Map(businessNames.map(row => [row.id, row.businessName])));
+  }
+
+  async searchDeals(query: string, options?: DealSearchOptions): Promise<DealSearchHit[]> {
+    await this.ensureDealSearchIndex();
+    return this.dealSearchIndex.search(query, options);
+  }
+
+  async suggestDeals(query: string, options?: DealSearchOptions): Promise<SearchSuggestion[]> {
+    await this.ensureDealSearchIndex();
+    return this.dealSearchIndex.suggest(query, options);
+  }
+
+  async getDealsNearby(query: GeoQuery): Promise<(Deal & { business: Business; distanceKm: number | null })[]> {
+    const { lat, lng, radiusKm, bbox } = query;
+    const hasOrigin = lat !== undefined && lng !== undefined;
+    const currentDate = new Date().toISOString().split('T')[0]; // YYYY-MM-DD format
+    
+    // Haversine distance in kilometres from the reference point
+    const distance = hasOrigin
+      ? sql<number>`2 * 6371 * asin(sqrt(
+          power(sin(radians(${businesses.latitude} - ${lat}::double precision) / 2), 2) +
+          cos(radians(${lat}::double precision)) * cos(radians(${businesses.latitude})) *
+          power(sin(radians(${businesses.longitude} - ${lng}::double precision) / 2), 2)
+        ))`
+      : sql<null>`NULL`;
+    
+    const boundsCondition = (bounds: GeoBounds) => and(
+      gte(businesses.latitude, bounds.south),
+      lte(businesses.latitude, bounds.north),
+      // Boxes crossing the antimeridian have west > east
+      bounds.west <= bounds.east
+        ? and(gte(businesses.longitude, bounds.west), lte(businesses.longitude, bounds.east))
+        : or(gte(businesses.longitude, bounds.west), lte(businesses.longitude, bounds.east))
+    );
+    
+    const conditions = [
+      sql`(${deals.status} = 'approved' OR ${deals.status} = 'active') AND ${deals.endDate} >= ${currentDate}`,
+      isNotNull(businesses.latitude),
+      isNotNull(businesses.longitude),
+    ];
+    
+    if (bbox) {
+      conditions.push(boundsCondition(bbox)!);
+    }
+    
+    if (hasOrigin && radiusKm !== undefined) {
+      // Cheap bounding-box pre-filter before the exact distance check
+      conditions.push(boundsCondition(boundsForRadius(lat!, lng!, radiusKm))!);
+      conditions.push(sql`${distance} <= ${radiusKm}`);
+    }
+    
+    const rows = await db.select({
+        deal: deals,
+        business: businesses,
+        distanceKm: distance
+      })
+      .from(deals)
+      .innerJoin(businesses, eq(deals.businessId, businesses.id))
+      .where(and(...conditions))
+      .orderBy(hasOrigin ? asc(distance) : desc(deals.createdAt));
+    
+    return rows.map(row => ({
+      ...row.deal,
+      business: row.business,
+      distanceKm: row.distanceKm === null ? null : Number(row.distanceKm)
+    }));
+  }
+
   async getDeals(userRole: string = 'individual', userId?: number): Promise<(Deal & { business: Business & { logoUrl?: string } })[]> {
     console.log(`STORAGE: Getting deals for user role: ${userRole}, userId: ${userId || 'none'}`);
     
@@ -2874,6 +5100,8 @@ export class DatabaseStorage implements IStorage {
       .values(processedData)
       .returning();
     
+    this.dealSearchIndex.upsert(addedDeal, (await this.getBusiness(addedDeal.businessId))?.businessName);
+    
     return addedDeal;
   }
 
@@ -2898,33 +5126,100 @@ export class DatabaseStorage implements IStorage {
       throw new Error("Deal not found");
     }
     
+    this.dealSearchIndex.upsert(updatedDeal, (await this.getBusiness(updatedDeal.businessId))?.businessName);
+    
     return updatedDeal;
   }
 
   async deleteDeal(id: number): Promise<void> {
     await db.transaction(async (tx) => {
-      // Delete deal-related data first
-      await tx.delete(dealApprovals).where(eq(dealApprovals.dealId, id));
-      await tx.delete(dealRedemptions).where(eq(dealRedemptions.dealId, id));
-      await tx.delete(userFavorites).where(eq(userFavorites.dealId, id));
-      await tx.delete(redemptionRatings).where(eq(redemptionRatings.dealId, id));
-      
-      // Then delete the deal
-      await tx.delete(deals).where(eq(deals.id, id));
+      await this.deleteDealRecords(tx, id);
     });
+    
+    this.dealSearchIndex.remove(id);
   }
-
-  async updateDealStatus(id: number, status: string): Promise<Deal> {
-    const [updatedDeal] = await db.update(deals)
-      .set({ status })
-      .where(eq(deals.id, id))
-      .returning();
+  
+  private async deleteDealRecords(tx: Transaction, id: number): Promise<void> {
+    // Delete deal-related data first
+    await tx.delete(dealApprovals).where(eq(dealApprovals.dealId, id));
+    await tx.delete(dealRedemptions).where(eq(dealRedemptions.dealId, id));
+    await tx.delete(userFavorites).where(eq(userFavorites.dealId, id));
+    await tx.delete(redemptionRatings).where(eq(redemptionRatings.dealId, id));
+    await tx.delete(dealStatusHistory).where(eq(dealStatusHistory.dealId, id));
     
-    if (!updatedDeal) {
-      throw new Error("Deal not found");
-    }
+    // Then delete the deal
+    await tx.delete(deals).where(eq(deals.id, id));
+  }
+
+  async updateDealStatus(id: number, status: string, change: DealStatusChange = {}): Promise<Deal> {
+    return await db.transaction(async (tx) => {
+      // Lock the deal so the recorded from-status is the one we replaced
+      const [current] = await tx.select({ status: deals.status })
+        .from(deals)
+        .where(eq(deals.id, id))
+        .for('update');
+      
+      if (!current) {
+        throw new Error("Deal not found");
+      }
+      
+      const [updatedDeal] = await tx.update(deals)
+        .set({ status })
+        .where(eq(deals.id, id))
+        .returning();
+      
+      if (current.status !== status) {
+        await tx.insert(dealStatusHistory).values({
+          dealId: id,
+          fromStatus: current.status,
+          toStatus: status,
+          reason: change.reason ?? "manual",
+          changedBy: change.changedBy ?? null,
+        });
+      }
+      
+      return updatedDeal;
+    });
+  }
+
+  async transitionDealsByDate(rule: DealLifecycleRule): Promise<DealStatusHistory[]> {
+    const dateColumn = rule.dateField === "startDate" ? deals.startDate : deals.endDate;
     
-    return updatedDeal;
+    return await db.transaction(async (tx) => {
+      // Rows locked by another instance running the same rule are skipped
+      // rather than waited on, so each deal is moved exactly once
+      const candidates = await tx.select({ id: deals.id, status: deals.status })
+        .from(deals)
+        .where(and(inArray(deals.status, rule.fromStatuses), lte(dateColumn, rule.before)))
+        .orderBy(asc(deals.id))
+        .limit(rule.limit ?? DEFAULT_LIFECYCLE_BATCH_SIZE)
+        .for('update', { skipLocked: true });
+      
+      if (candidates.length === 0) {
+        return [];
+      }
+      
+      await tx.update(deals)
+        .set({ status: rule.toStatus })
+        .where(inArray(deals.id, candidates.map(candidate => candidate.id)));
+      
+      return await tx.insert(dealStatusHistory)
+        .values(candidates.map(candidate => ({
+          dealId: candidate.id,
+          fromStatus: candidate.status,
+          toStatus: rule.toStatus,
+          reason: rule.reason,
+          changedBy: null,
+        })))
+        .returning();
+    });
+  }
+
+  async getDealStatusHistory(dealId: number): Promise<DealStatusHistory[]> {
+    return await db.select()
+      .from(dealStatusHistory)
+      .where(eq(dealStatusHistory.dealId, dealId))
+      .orderBy(asc(dealStatusHistory.changedAt), asc(dealStatusHistory.id));
   }
 
   async duplicateDeal(dealId: number): Promise<Deal> {
@@ -2961,10 +5256,13 @@ export class DatabaseStorage implements IStorage {
         saveCount: 0,
         redemptionCount: 0,
         isRecurring: originalDeal.isRecurring,
-        recurringDays: originalDeal.recurringDays
+        recurringDays: originalDeal.recurringDays,
+        schedule: originalDeal.schedule
       })
       .returning();
     
+    this.dealSearchIndex.upsert(newDeal, (await this.getBusiness(newDeal.businessId))?.businessName);
+    
     return newDeal;
   }
 
@@ -3063,9 +5361,21 @@ export class DatabaseStorage implements IStorage {
   }
 
   async createDealApproval(approvalData: Omit<InsertDealApproval, "id" | "submittedAt">): Promise<DealApproval> {
+    const [deal] = await db.select().from(deals).where(eq(deals.id, approvalData.dealId));
+    if (!deal) {
+      throw new Error("Deal not found");
+    }
+    
+    const [previousSubmissions] = await db.select({ count: count() })
+      .from(dealApprovals)
+      .where(eq(dealApprovals.dealId, approvalData.dealId));
+    
     const [addedApproval] = await db.insert(dealApprovals)
       .values({
         ...approvalData,
+        revisionCount: approvalData.revisionCount ?? Number(previousSubmissions?.count || 0),
+        // The deal as submitted, so later edits can be compared with it
+        snapshot: approvalData.snapshot ?? createDealSnapshot(deal),
         submittedAt: new Date()
       })
       .returning();
@@ -3073,6 +5383,21 @@ export class DatabaseStorage implements IStorage {
     return addedApproval;
   }
 
+  async addDealReviewComment(comment: Omit<InsertDealReviewComment, "id" | "createdAt">): Promise<DealReviewComment> {
+    const [addedComment] = await db.insert(dealReviewComments)
+      .values(comment)
+      .returning();
+    
+    return addedComment;
+  }
+
+  async getDealReviewComments(dealId: number): Promise<DealReviewComment[]> {
+    return await db.select()
+      .from(dealReviewComments)
+      .where(eq(dealReviewComments.dealId, dealId))
+      .orderBy(asc(dealReviewComments.createdAt), asc(dealReviewComments.id));
+  }
+
   async getDealApproval(dealId: number): Promise<DealApproval | undefined> {
     const [approval] = await db.select()
       .from(dealApprovals)
@@ -3124,10 +5449,17 @@ export class DatabaseStorage implements IStorage {
       throw new Error("Approval record not found");
     }
     
-    // Update the deal status if approval is approved or rejected
+    // Update the deal status if approval is accepted or rejected
     if (data.status === "approved" || data.status === "rejected") {
-      const dealStatus = data.status === "approved" ? "active" : "rejected";
-      await this.updateDealStatus(approval.dealId, dealStatus);
+      const deal = await this.getDeal(approval.dealId);
+      await this.updateDealStatus(approval.dealId, getStatusAfterReview(data.status, deal), {
+        reason: "approval",
+        changedBy: data.reviewerId ?? null,
+      });
+      
+      if (deal) {
+        await this.notify(dealReviewNotification(updatedApproval, deal));
+      }
     }
     
     return updatedApproval;
@@ -3176,6 +5508,60 @@ export class DatabaseStorage implements IStorage {
     return deal.redemptionCode === code;
   }
 
+  async createRedemptionToken(data: Omit<InsertRedemptionToken, "id" | "createdAt">): Promise<RedemptionToken> {
+    const [redemptionToken] = await db.insert(redemptionTokens)
+      .values(data)
+      .returning();
+    
+    return redemptionToken;
+  }
+
+  async getRedemptionTokenByJti(jti: string): Promise<RedemptionToken | undefined> {
+    const [redemptionToken] = await db.select()
+      .from(redemptionTokens)
+      .where(eq(redemptionTokens.jti, jti));
+    
+    return redemptionToken || undefined;
+  }
+
+  async getRedemptionTokenByShortCode(shortCode: string): Promise<RedemptionToken | undefined> {
+    // Short codes can be reused once a token is dead, so return the most recent match
+    const [redemptionToken] = await db.select()
+      .from(redemptionTokens)
+      .where(eq(redemptionTokens.shortCode, shortCode))
+      .orderBy(desc(redemptionTokens.createdAt))
+      .limit(1);
+    
+    return redemptionToken || undefined;
+  }
+
+  async claimRedemptionToken(id: number, verifiedBy: number): Promise<RedemptionToken | undefined> {
+    // Conditional update so only one concurrent caller can claim the token
+    const [claimedToken] = await db.update(redemptionTokens)
+      .set({ usedAt: new Date(), verifiedBy })
+      .where(and(
+        eq(redemptionTokens.id, id),
+        isNull(redemptionTokens.usedAt),
+        sql`${redemptionTokens.expiresAt} > NOW()`
+      ))
+      .returning();
+    
+    return claimedToken || undefined;
+  }
+
+  async updateRedemptionToken(id: number, data: Partial<Omit<InsertRedemptionToken, "id">>): Promise<RedemptionToken> {
+    const [updatedToken] = await db.update(redemptionTokens)
+      .set(data)
+      .where(eq(redemptionTokens.id, id))
+      .returning();
+    
+    if (!updatedToken) {
+      throw new Error("Redemption token not found");
+    }
+    
+    return updatedToken;
+  }
+
   async getUserFavorites(userId: number): Promise<(UserFavorite & { deal: Deal & { business: Business } })[]> {
     const favorites = await db.select()
       .from(userFavorites)
@@ -3254,59 +5640,53 @@ export class DatabaseStorage implements IStorage {
   }
 
   async createRedemption(userId: number, dealId: number): Promise<DealRedemption> {
-    // Check if the deal exists
-    const deal = await this.getDeal(dealId);
-    if (!deal) {
-      throw new Error("Deal not found");
-    }
-    
-    // Check if the deal has a per-user redemption limit
-    if (deal.maxRedemptionsPerUser) {
-      // Count how many times this user has already redeemed this deal
-      const userRedemptions = await db.select({ count: sql`count(*)` })
+    const redemption = await db.transaction(async (tx) => {
+      // Lock the deal row so concurrent redemptions of the same deal are serialised
+      const [deal] = await tx.select()
+        .from(deals)
+        .where(eq(deals.id, dealId))
+        .for('update');
+      
+      if (!deal) {
+        throw new Error("Deal not found");
+      }
+      
+      const [userRedemptions] = await tx.select({ count: count() })
         .from(dealRedemptions)
         .where(and(
           eq(dealRedemptions.userId, userId),
           eq(dealRedemptions.dealId, dealId)
         ));
       
-      const redemptionCount = Number(userRedemptions[0]?.count || 0);
-      
-      // If user has reached the limit, throw an error
-      if (redemptionCount >= deal.maxRedemptionsPerUser) {
-        throw new Error(`You have reached the maximum redemption limit (${deal.maxRedemptionsPerUser}) for this deal`);
-      }
-    }
-    
-    // Check if the deal has a total redemptions limit
-    if (deal.totalRedemptionsLimit) {
-      // Count total redemptions for this deal
-      const totalRedemptions = await db.select({ count: sql`count(*)` })
+      const [totalRedemptions] = await tx.select({ count: count() })
         .from(dealRedemptions)
         .where(eq(dealRedemptions.dealId, dealId));
       
-      const totalCount = Number(totalRedemptions[0]?.count || 0);
+      assertRedemptionAllowed(deal, Number(userRedemptions?.count || 0), Number(totalRedemptions?.count || 0));
       
-      // If the total limit has been reached, throw an error
-      if (totalCount >= deal.totalRedemptionsLimit) {
-        throw new Error("This deal has reached its maximum total redemptions limit");
-      }
-    }
-    
-    // All checks passed, create the redemption
-    const [addedRedemption] = await db.insert(dealRedemptions)
-      .values({
-        userId,
-        dealId,
-        status: "redeemed",
-        redeemedAt: new Date()
-      })
-      .returning();
+      const [addedRedemption] = await tx.insert(dealRedemptions)
+        .values({
+          userId,
+          dealId,
+          status: "redeemed",
+          redeemedAt: new Date()
+        })
+        .returning();
+      
+      // Increment the counter in the same transaction as the insert
+      await tx.update(deals)
+        .set({ redemptionCount: sql`COALESCE(${deals.redemptionCount}, 0) + 1` })
+        .where(eq(deals.id, dealId));
+      
+      return addedRedemption;
+    });
     
-    // Increment redemption count on the deal
-    await this.incrementDealRedemptions(dealId);
+    const redeemedDeal = await this.getDeal(dealId);
+    if (redeemedDeal) {
+      await this.notify(ratingPromptNotification(redemption, redeemedDeal));
+    }
     
-    return addedRedemption;
+    return redemption;
   }
 
   async updateRedemptionStatus(id: number, status: string): Promise<DealRedemption> {
@@ -3370,13 +5750,769 @@ export class DatabaseStorage implements IStorage {
     return this.updateUserNotificationPreferences(userId, preferencesData);
   }
 
-  async createRedemptionRating(redemptionId: number, userId: number, dealId: number, businessId: number, ratingData: RatingData): Promise<RedemptionRating> {
-    const [addedRating] = await db.insert(redemptionRatings)
-      .values({
-        redemptionId,
-        userId,
-        dealId,
-        businessId,
+  async getUserPreferences(userId: number): Promise<UserPreferences | undefined> {
+    const [preferences] = await db.select()
+      .from(userPreferences)
+      .where(eq(userPreferences.userId, userId));
+    
+    return preferences || undefined;
+  }
+
+  async updateUserPreferences(userId: number, preferencesData: Partial<Omit<InsertUserPreferences, "id" | "userId" | "updatedAt">>): Promise<UserPreferences> {
+    const [preferences] = await db.insert(userPreferences)
+      .values({ ...preferencesData, userId })
+      .onConflictDoUpdate({
+        target: userPreferences.userId,
+        set: { ...preferencesData, updatedAt: new Date() },
+      })
+      .returning();
+    
+    return preferences;
+  }
+
+  async getWeeklyDigestRecipients(afterUserId: number, limit: number = DEFAULT_DIGEST_RECIPIENT_BATCH_SIZE): Promise<WeeklyDigestRecipient[]> {
+    // Only users who switched the digest on; settings shows it as off until they do
+    const rows = await db.select({ user: users, preferences: userPreferences })
+      .from(users)
+      .innerJoin(userNotificationPreferences, eq(userNotificationPreferences.userId, users.id))
+      .leftJoin(userPreferences, eq(userPreferences.userId, users.id))
+      .where(and(
+        eq(users.userType, "individual"),
+        gt(users.id, afterUserId),
+        eq(userNotificationPreferences.weeklyNewsletter, true)
+      ))
+      .orderBy(asc(users.id))
+      .limit(limit);
+    
+    return rows.map(row => ({ user: row.user, preferences: row.preferences ?? undefined }));
+  }
+
+  async getDigestDeals(now: Date, newSince: Date, expiringBefore: Date): Promise<(Deal & { business: Business })[]> {
+    const rows = await db.select({ deal: deals, business: businesses })
+      .from(deals)
+      .innerJoin(businesses, eq(deals.businessId, businesses.id))
+      .where(and(
+        eq(deals.status, "active"),
+        lte(deals.startDate, now),
+        gt(deals.endDate, now),
+        or(gte(deals.createdAt, newSince), lte(deals.endDate, expiringBefore))
+      ));
+    
+    return rows.map(row => ({ ...row.deal, business: row.business }));
+  }
+
+  async getDueDealReminders(now: Date, limit: number = DEFAULT_REMINDER_BATCH_SIZE): Promise<DueDealReminder[]> {
+    const rows = await db.select({
+      userId: userFavorites.userId,
+      deal: deals,
+      business: businesses,
+      preferences: userNotificationPreferences,
+    })
+      .from(userFavorites)
+      .innerJoin(deals, eq(userFavorites.dealId, deals.id))
+      .innerJoin(businesses, eq(deals.businessId, businesses.id))
+      .leftJoin(userNotificationPreferences, eq(userNotificationPreferences.userId, userFavorites.userId))
+      .where(and(
+        eq(deals.status, "active"),
+        gt(deals.endDate, now),
+        // Each user's own reminder window; users without preferences get the defaults
+        sql`${deals.endDate} <= ${now.toISOString()}::timestamp + make_interval(hours => coalesce(${userNotificationPreferences.expiringDealReminderHours}, ${DEFAULT_EXPIRING_DEAL_REMINDER_HOURS}))`,
+        sql`coalesce(${userNotificationPreferences.expiringDealReminders}, true)`,
+        sql`not exists (
+          select 1 from ${dealReminders}
+          where ${dealReminders.userId} = ${userFavorites.userId}
+          and ${dealReminders.dealId} = ${userFavorites.dealId}
+        )`
+      ))
+      .orderBy(asc(deals.endDate))
+      .limit(limit);
+    
+    return rows.map(row => ({
+      userId: row.userId,
+      deal: { ...row.deal, business: row.business },
+      preferences: row.preferences ?? undefined,
+    }));
+  }
+
+  async claimDealReminder(userId: number, dealId: number, channel: string): Promise<DealReminder | undefined> {
+    // The unique dedupe key means only one instance ever creates a given reminder
+    const [reminder] = await db.insert(dealReminders)
+      .values({
+        userId,
+        dealId,
+        channel,
+        dedupeKey: getDealReminderDedupeKey(userId, dealId, channel),
+        status: "pending",
+      })
+      .onConflictDoNothing({ target: dealReminders.dedupeKey })
+      .returning();
+    
+    return reminder;
+  }
+
+  async claimRetryableDealReminders(maxAttempts: number, limit: number = DEFAULT_REMINDER_BATCH_SIZE): Promise<DealReminder[]> {
+    return await db.transaction(async (tx) => {
+      const retryable = await tx.select({ id: dealReminders.id })
+        .from(dealReminders)
+        .where(and(eq(dealReminders.status, "failed"), lt(dealReminders.attempts, maxAttempts)))
+        .orderBy(asc(dealReminders.id))
+        .limit(limit)
+        .for('update', { skipLocked: true });
+      
+      if (retryable.length === 0) {
+        return [];
+      }
+      
+      return await tx.update(dealReminders)
+        .set({ status: "pending" })
+        .where(inArray(dealReminders.id, retryable.map(reminder => reminder.id)))
+        .returning();
+    });
+  }
+
+  async updateDealReminder(id: number, data: Partial<Omit<InsertDealReminder, "id" | "userId" | "dealId" | "channel" | "dedupeKey">>): Promise<DealReminder> {
+    const [updatedReminder] = await db.update(dealReminders)
+      .set(data)
+      .where(eq(dealReminders.id, id))
+      .returning();
+    
+    if (!updatedReminder) {
+      throw new Error("Deal reminder not found");
+    }
+    
+    return updatedReminder;
+  }
+
+  async getUnreadDealReminders(userId: number): Promise<(DealReminder & { deal: Deal & { business: Business } })[]> {
+    const rows = await db.select()
+      .from(dealReminders)
+      .innerJoin(deals, eq(dealReminders.dealId, deals.id))
+      .innerJoin(businesses, eq(deals.businessId, businesses.id))
+      .where(and(
+        eq(dealReminders.userId, userId),
+        eq(dealReminders.channel, "in_app"),
+        eq(dealReminders.status, "sent"),
+        isNull(dealReminders.readAt)
+      ))
+      .orderBy(desc(dealReminders.createdAt));
+    
+    return rows.map(row => ({
+      ...row.deal_reminders,
+      deal: { ...row.deals, business: row.businesses },
+    }));
+  }
+
+  async markDealReminderRead(userId: number, id: number): Promise<DealReminder | undefined> {
+    const [reminder] = await db.update(dealReminders)
+      .set({ readAt: new Date() })
+      .where(and(eq(dealReminders.id, id), eq(dealReminders.userId, userId)))
+      .returning();
+    
+    return reminder;
+  }
+
+  async saveWebPushSubscription(userId: number, subscription: Omit<InsertWebPushSubscription, "id" | "userId" | "createdAt">): Promise<WebPushSubscription> {
+    // An endpoint belongs to one browser, so re-subscribing moves it to the signed-in user
+    const [saved] = await db.insert(webPushSubscriptions)
+      .values({ ...subscription, userId })
+      .onConflictDoUpdate({
+        target: webPushSubscriptions.endpoint,
+        set: {
+          userId,
+          p256dh: subscription.p256dh,
+          auth: subscription.auth,
+          userAgent: subscription.userAgent ?? null,
+        },
+      })
+      .returning();
+    
+    return saved;
+  }
+
+  async getWebPushSubscriptions(userId: number): Promise<WebPushSubscription[]> {
+    return await db.select()
+      .from(webPushSubscriptions)
+      .where(eq(webPushSubscriptions.userId, userId));
+  }
+
+  async deleteWebPushSubscription(userId: number, endpoint: string): Promise<boolean> {
+    const deleted = await db.delete(webPushSubscriptions)
+      .where(and(eq(webPushSubscriptions.userId, userId), eq(webPushSubscriptions.endpoint, endpoint)))
+      .returning({ id: webPushSubscriptions.id });
+    
+    return deleted.length > 0;
+  }
+
+  async deleteWebPushSubscriptionByEndpoint(endpoint: string): Promise<void> {
+    await db.delete(webPushSubscriptions)
+      .where(eq(webPushSubscriptions.endpoint, endpoint));
+  }
+
+  // Notifications are a side effect of the change that caused them, so failing to create one doesn't fail the change
+  private async notify(notification: NewNotification | null): Promise<void> {
+    if (!notification) return;
+    
+    try {
+      await this.createNotification(notification);
+    } catch (error) {
+      console.error(`Error creating ${notification.type} notification for user ${notification.userId}:`, error);
+    }
+  }
+
+  async createNotification(notification: Omit<InsertNotification, "id" | "readAt" | "createdAt">): Promise<Notification | undefined> {
+    const [created] = await db.insert(notifications)
+      .values(notification)
+      .onConflictDoNothing({ target: notifications.dedupeKey })
+      .returning();
+    
+    return created;
+  }
+
+  async getNotifications(userId: number, options: NotificationListOptions = {}): Promise<Notification[]> {
+    return await db.select()
+      .from(notifications)
+      .where(and(
+        eq(notifications.userId, userId),
+        options.unreadOnly ? isNull(notifications.readAt) : undefined,
+        options.beforeId !== undefined ? lt(notifications.id, options.beforeId) : undefined
+      ))
+      .orderBy(desc(notifications.id))
+      .limit(options.limit ?? DEFAULT_NOTIFICATION_PAGE_SIZE);
+  }
+
+  async getUnreadNotificationCount(userId: number): Promise<number> {
+    const [result] = await db.select({ count: count() })
+      .from(notifications)
+      .where(and(eq(notifications.userId, userId), isNull(notifications.readAt)));
+    
+    return Number(result?.count || 0);
+  }
+
+  async markNotificationRead(userId: number, id: number): Promise<Notification | undefined> {
+    const [notification] = await db.update(notifications)
+      .set({ readAt: sql`coalesce(${notifications.readAt}, now())` })
+      .where(and(eq(notifications.id, id), eq(notifications.userId, userId)))
+      .returning();
+    
+    return notification;
+  }
+
+  async markAllNotificationsRead(userId: number): Promise<number> {
+    const marked = await db.update(notifications)
+      .set({ readAt: new Date() })
+      .where(and(eq(notifications.userId, userId), isNull(notifications.readAt)))
+      .returning({ id: notifications.id });
+    
+    return marked.length;
+  }
+
+  async deleteNotification(userId: number, id: number): Promise<boolean> {
+    const deleted = await db.delete(notifications)
+      .where(and(eq(notifications.id, id), eq(notifications.userId, userId)))
+      .returning({ id: notifications.id });
+    
+    return deleted.length > 0;
+  }
+
+  // Moderation policy methods
+  async getRejectionReasons(options: ModerationCatalogueOptions = {}): Promise<RejectionReason[]> {
+    const conditions = [];
+    if (options.targetType) {
+      conditions.push(eq(rejectionReasons.targetType, options.targetType));
+    }
+    if (!options.includeInactive) {
+      conditions.push(eq(rejectionReasons.active, true));
+    }
+    
+    return await db.select()
+      .from(rejectionReasons)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(asc(rejectionReasons.label), asc(rejectionReasons.id));
+  }
+  
+  async getRejectionReasonsByCode(codes: string[]): Promise<RejectionReason[]> {
+    if (codes.length === 0) {
+      return [];
+    }
+    
+    return await db.select()
+      .from(rejectionReasons)
+      .where(inArray(rejectionReasons.code, codes));
+  }
+  
+  async createRejectionReason(reasonData: Omit<InsertRejectionReason, "id" | "createdAt" | "updatedAt">): Promise<RejectionReason | undefined> {
+    const [reason] = await db.insert(rejectionReasons)
+      .values(reasonData)
+      .onConflictDoNothing({ target: rejectionReasons.code })
+      .returning();
+    
+    return reason;
+  }
+  
+  async updateRejectionReason(id: number, data: Partial<Pick<InsertRejectionReason, "label" | "template" | "active">>): Promise<RejectionReason | undefined> {
+    const [reason] = await db.update(rejectionReasons)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(rejectionReasons.id, id))
+      .returning();
+    
+    return reason;
+  }
+  
+  async getModerationChecklistItems(options: ModerationCatalogueOptions = {}): Promise<ModerationChecklistItem[]> {
+    const conditions = [];
+    if (options.targetType) {
+      conditions.push(eq(moderationChecklistItems.targetType, options.targetType));
+    }
+    if (!options.includeInactive) {
+      conditions.push(eq(moderationChecklistItems.active, true));
+    }
+    
+    return await db.select()
+      .from(moderationChecklistItems)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(asc(moderationChecklistItems.sortOrder), asc(moderationChecklistItems.id));
+  }
+  
+  async createModerationChecklistItem(itemData: Omit<InsertModerationChecklistItem, "id" | "createdAt">): Promise<ModerationChecklistItem> {
+    const [item] = await db.insert(moderationChecklistItems)
+      .values(itemData)
+      .returning();
+    
+    return item;
+  }
+  
+  async updateModerationChecklistItem(id: number, data: Partial<Pick<InsertModerationChecklistItem, "category" | "label" | "description" | "sortOrder" | "active">>): Promise<ModerationChecklistItem | undefined> {
+    const [item] = await db.update(moderationChecklistItems)
+      .set(data)
+      .where(eq(moderationChecklistItems.id, id))
+      .returning();
+    
+    return item;
+  }
+  
+  async createModerationDecision(decisionData: Omit<InsertModerationDecision, "id" | "createdAt">): Promise<ModerationDecision> {
+    const [decision] = await db.insert(moderationDecisions)
+      .values(decisionData)
+      .returning();
+    
+    return decision;
+  }
+  
+  async getModerationDecisions(targetType: string, targetId: number): Promise<ModerationDecision[]> {
+    return await db.select()
+      .from(moderationDecisions)
+      .where(and(
+        eq(moderationDecisions.targetType, targetType),
+        eq(moderationDecisions.targetId, targetId)
+      ))
+      .orderBy(desc(moderationDecisions.createdAt), desc(moderationDecisions.id));
+  }
+  
+  async getRejectionReasonCounts(options: RejectionReasonCountOptions = {}): Promise<RejectionReasonCount[]> {
+    const conditions = [eq(moderationDecisions.decision, "rejected")];
+    if (options.targetType) {
+      conditions.push(eq(moderationDecisions.targetType, options.targetType));
+    }
+    if (options.since) {
+      conditions.push(gte(moderationDecisions.createdAt, options.since));
+    }
+    
+    // Each decision can have several reason codes, so count the array elements
+    const result = await db.execute(sql`
+      SELECT reason_code AS code, count(*)::int AS count
+      FROM ${moderationDecisions}, jsonb_array_elements_text(${moderationDecisions.reasonCodes}) AS reason_code
+      WHERE ${and(...conditions)}
+      GROUP BY reason_code
+    `);
+    
+    const counts = new Map<string, number>(
+      (result.rows as { code: string; count: number }[]).map(row => [row.code, Number(row.count)])
+    );
+    const reasons = await this.getRejectionReasonsByCode(Array.from(counts.keys()));
+    return toRejectionReasonCounts(counts, reasons, options.limit);
+  }
+
+  async getPreModerationRuleSettings(): Promise<PreModerationRuleSetting[]> {
+    return await db.select().from(preModerationRules);
+  }
+
+  async savePreModerationRuleSetting(setting: Omit<InsertPreModerationRuleSetting, "id" | "updatedAt">): Promise<PreModerationRuleSetting> {
+    const [saved] = await db.insert(preModerationRules)
+      .values({ ...setting, updatedAt: new Date() })
+      .onConflictDoUpdate({
+        target: preModerationRules.key,
+        set: {
+          enabled: setting.enabled,
+          action: setting.action,
+          config: setting.config,
+          updatedBy: setting.updatedBy,
+          updatedAt: new Date(),
+        }
+      })
+      .returning();
+    
+    return saved;
+  }
+
+  async getLatestPreModerationResults(dealIds: number[]): Promise<Map<number, PreModerationResult>> {
+    const results = new Map<number, PreModerationResult>();
+    if (dealIds.length === 0) {
+      return results;
+    }
+    
+    const approvals = await db.select({ dealId: dealApprovals.dealId, autoModeration: dealApprovals.autoModeration })
+      .from(dealApprovals)
+      .where(and(
+        inArray(dealApprovals.dealId, dealIds),
+        isNotNull(dealApprovals.autoModeration)
+      ))
+      .orderBy(desc(dealApprovals.submittedAt), desc(dealApprovals.id));
+    
+    for (const approval of approvals) {
+      if (approval.autoModeration && !results.has(approval.dealId)) {
+        results.set(approval.dealId, approval.autoModeration);
+      }
+    }
+    
+    return results;
+  }
+  
+  // Bulk admin action methods
+  async bulkUpdateDeals(ids: number[], action: BulkDealAction, context: BulkActionContext): Promise<BulkItemResult[]> {
+    const { results, outcomes } = await this.runBulkAction(ids, (tx, id) => this.applyBulkDealAction(tx, id, action, context));
+    
+    // Notifications wait for the commit, so none go out for changes that were rolled back
+    for (const approval of outcomes) {
+      if (!approval) continue;
+      const deal = await this.getDeal(approval.dealId);
+      if (deal) {
+        await this.notify(dealReviewNotification(approval, deal));
+      }
+    }
+    
+    if (action === "delete") {
+      results.filter(result => result.success).forEach(result => this.dealSearchIndex.remove(result.id));
+    }
+    
+    return results;
+  }
+  
+  /**
+   * Returns the approval the action closed, if it reviewed the deal
+   */
+  private async applyBulkDealAction(tx: Transaction, id: number, action: BulkDealAction, context: BulkActionContext): Promise<DealApproval | null> {
+    const [deal] = await tx.select().from(deals).where(eq(deals.id, id)).for('update');
+    if (!deal) {
+      throw new BulkItemError("Deal not found");
+    }
+    
+    let details: Record<string, unknown> = {};
+    let reviewed: DealApproval | null = null;
+    
+    switch (action) {
+      case "approve":
+      case "reject": {
+        if (!REVIEWABLE_DEAL_STATUSES.includes(deal.status)) {
+          throw new BulkItemError(`Deal is ${deal.status}, not awaiting review`);
+        }
+        
+        const decision = action === "approve" ? "approved" : "rejected";
+        const feedback = decision === "rejected" ? context.rejection?.feedback ?? null : null;
+        const toStatus = getStatusAfterReview(decision, deal);
+        
+        await tx.update(deals)
+          .set({ status: toStatus, rejectionReason: feedback })
+          .where(eq(deals.id, id));
+        await tx.insert(dealStatusHistory).values({
+          dealId: id,
+          fromStatus: deal.status,
+          toStatus,
+          reason: "approval",
+          changedBy: context.actorId,
+        });
+        
+        const [approval] = await tx.update(dealApprovals)
+          .set({ status: decision, reviewerId: context.actorId, feedback, reviewedAt: new Date() })
+          .where(and(eq(dealApprovals.dealId, id), eq(dealApprovals.status, "pending")))
+          .returning();
+        reviewed = approval ?? null;
+        
+        await tx.insert(moderationDecisions).values(bulkReviewDecision("deal", id, decision, context));
+        details = { fromStatus: deal.status, toStatus };
+        break;
+      }
+      case "feature":
+      case "unfeature": {
+        const featured = action === "feature";
+        await tx.update(deals).set({ featured }).where(eq(deals.id, id));
+        details = { featured };
+        break;
+      }
+      case "expire": {
+        if (ENDED_DEAL_STATUSES.includes(deal.status)) {
+          throw new BulkItemError("Deal has already ended");
+        }
+        
+        await tx.update(deals).set({ status: "expired" }).where(eq(deals.id, id));
+        await tx.insert(dealStatusHistory).values({
+          dealId: id,
+          fromStatus: deal.status,
+          toStatus: "expired",
+          reason: "manual",
+          changedBy: context.actorId,
+        });
+        details = { fromStatus: deal.status, toStatus: "expired" };
+        break;
+      }
+      case "delete":
+        await this.deleteDealRecords(tx, id);
+        details = { title: deal.title, businessId: deal.businessId };
+        break;
+    }
+    
+    await this.appendAuditEntry(tx, auditEntry("deal", action, id, context, details));
+    return reviewed;
+  }
+  
+  async bulkUpdateBusinesses(ids: number[], action: BulkBusinessAction, context: BulkActionContext): Promise<BulkItemResult[]> {
+    const { results, outcomes } = await this.runBulkAction(ids, (tx, id) => this.applyBulkBusinessAction(tx, id, action, context));
+    
+    for (const outcome of outcomes) {
+      if ("deletedOwner" in outcome) {
+        await this.deleteSupabaseBusinessOf(outcome.deletedOwner);
+      } else {
+        await this.notify(businessVerificationNotification(outcome.reviewed));
+      }
+    }
+    
+    return results;
+  }
+  
+  private async applyBulkBusinessAction(
+    tx: Transaction,
+    id: number,
+    action: BulkBusinessAction,
+    context: BulkActionContext
+  ): Promise<{ reviewed: Business } | { deletedOwner: User | undefined }> {
+    const [business] = await tx.select().from(businesses).where(eq(businesses.id, id)).for('update');
+    if (!business) {
+      throw new BulkItemError("Business not found");
+    }
+    
+    if (action === "delete") {
+      const { user } = await this.deleteBusinessRecords(tx, business);
+      await this.appendAuditEntry(tx, auditEntry("business", action, id, context, { businessName: business.businessName }));
+      return { deletedOwner: user };
+    }
+    
+    const decision = action === "approve" ? "approved" : "rejected";
+    const toStatus = action === "approve" ? "verified" : "rejected";
+    if (business.verificationStatus === toStatus) {
+      throw new BulkItemError(`Business is already ${toStatus}`);
+    }
+    
+    const [reviewed] = await tx.update(businesses)
+      .set({
+        verificationStatus: toStatus,
+        verificationFeedback: action === "reject" ? context.rejection?.feedback ?? null : null
+      })
+      .where(eq(businesses.id, id))
+      .returning();
+    
+    await tx.insert(moderationDecisions).values(bulkReviewDecision("business", id, decision, context));
+    await this.appendAuditEntry(tx, auditEntry("business", action, id, context, {
+      fromStatus: business.verificationStatus,
+      toStatus,
+    }));
+    return { reviewed };
+  }
+  
+  async bulkUpdateUsers(profileIds: string[], action: BulkUserAction, context: BulkActionContext): Promise<BulkItemResult<string>[]> {
+    const { results } = await this.runBulkAction(profileIds, (tx, id) => this.applyBulkUserAction(tx, id, action, context));
+    return results;
+  }
+  
+  private async applyBulkUserAction(tx: Transaction, profileId: string, action: BulkUserAction, context: BulkActionContext): Promise<void> {
+    const [profile] = await tx.select().from(profiles).where(eq(profiles.id, profileId)).for('update');
+    if (!profile) {
+      throw new BulkItemError("User not found");
+    }
+    if (profile.user_type === "admin") {
+      throw new BulkItemError("Admin accounts can't be changed in bulk");
+    }
+    
+    let details: Record<string, unknown>;
+    if (action === "delete") {
+      // Same as deleteProfile: the profile's businesses go with it
+      await tx.execute(sql`DELETE FROM businesses_new WHERE profile_id = ${profileId}`);
+      await tx.delete(profiles).where(eq(profiles.id, profileId));
+      details = { userType: profile.user_type };
+    } else {
+      // Only individual users are gated on is_live; vendors go through business verification
+      if (profile.user_type !== "individual") {
+        throw new BulkItemError("Only individual users can be activated or deactivated");
+      }
+      
+      const isLive = action === "activate";
+      await tx.update(profiles)
+        .set({ is_live: isLive, updated_at: new Date().toISOString() })
+        .where(eq(profiles.id, profileId));
+      details = { wasLive: profile.is_live, isLive };
+    }
+    
+    await this.appendAuditEntry(tx, auditEntry("user", action, profileId, context, details));
+  }
+  
+  /**
+   * Apply a bulk action item by item in one transaction
+   * Each item runs in a savepoint, so a failed item is rolled back on its own
+   * and the rest of the batch still commits
+   */
+  private async runBulkAction<Id, Outcome>(
+    ids: Id[],
+    apply: (tx: Transaction, id: Id) => Promise<Outcome>
+  ): Promise<{ results: BulkItemResult<Id>[]; outcomes: Outcome[] }> {
+    const outcomes: Outcome[] = [];
+    
+    const results = await db.transaction(async (tx) => {
+      const results: BulkItemResult<Id>[] = [];
+      
+      for (const id of ids) {
+        try {
+          outcomes.push(await tx.transaction(item => apply(item, id)));
+          results.push({ id, success: true });
+        } catch (error) {
+          results.push(bulkItemFailure(id, error));
+        }
+      }
+      
+      return results;
+    });
+    
+    return { results, outcomes };
+  }
+  
+  // Admin audit log methods
+  async appendAdminAuditEntry(entry: NewAdminAuditEntry): Promise<AdminAuditEntry> {
+    return await db.transaction(tx => this.appendAuditEntry(tx, entry));
+  }
+  
+  /**
+   * Seal an entry onto the end of the chain
+   * The table lock makes concurrent writers wait, so every entry is chained to
+   * the one committed before it; it is held until the caller's transaction ends
+   */
+  private async appendAuditEntry(tx: Transaction, entry: NewAdminAuditEntry): Promise<AdminAuditEntry> {
+    await tx.execute(sql`LOCK TABLE ${adminAuditLog} IN EXCLUSIVE MODE`);
+    
+    const [previous] = await tx.select({ hash: adminAuditLog.hash })
+      .from(adminAuditLog)
+      .orderBy(desc(adminAuditLog.id))
+      .limit(1);
+    
+    const [appended] = await tx.insert(adminAuditLog)
+      .values(sealAuditEntry(entry, previous?.hash ?? null))
+      .returning();
+    return appended;
+  }
+  
+  async getAdminAuditEntries(options: AdminAuditQuery = {}): Promise<AdminAuditEntry[]> {
+    const conditions = [];
+    if (options.actorId !== undefined) {
+      conditions.push(eq(adminAuditLog.actorId, options.actorId));
+    }
+    if (options.action !== undefined) {
+      conditions.push(sql`starts_with(${adminAuditLog.action}, ${options.action})`);
+    }
+    if (options.targetType !== undefined) {
+      conditions.push(eq(adminAuditLog.targetType, options.targetType));
+    }
+    if (options.targetId !== undefined) {
+      conditions.push(eq(adminAuditLog.targetId, options.targetId));
+    }
+    if (options.batchId !== undefined) {
+      conditions.push(eq(adminAuditLog.batchId, options.batchId));
+    }
+    if (options.from !== undefined) {
+      conditions.push(gte(adminAuditLog.createdAt, options.from));
+    }
+    if (options.to !== undefined) {
+      conditions.push(lte(adminAuditLog.createdAt, options.to));
+    }
+    
+    return await db.select()
+      .from(adminAuditLog)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(adminAuditLog.createdAt), desc(adminAuditLog.id))
+      .limit(options.limit ?? DEFAULT_AUDIT_PAGE_SIZE)
+      .offset(options.offset ?? 0);
+  }
+  
+  async getAdminAuditChain(): Promise<AdminAuditEntry[]> {
+    return await db.select().from(adminAuditLog).orderBy(asc(adminAuditLog.id));
+  }
+
+  async getMarketingConsent(email: string): Promise<boolean> {
+    const [profile] = await db.select({ marketingConsent: profiles.marketing_consent })
+      .from(profiles)
+      .where(sql`lower(${profiles.email}) = lower(${email})`);
+    
+    return profile?.marketingConsent ?? false;
+  }
+
+  async enqueueEmail(message: Omit<InsertEmailOutboxMessage, "id" | "status" | "attempts" | "lastError" | "messageId" | "createdAt" | "sentAt">): Promise<EmailOutboxMessage | undefined> {
+    const [queued] = await db.insert(emailOutbox)
+      .values({ ...message, status: "pending" })
+      .onConflictDoNothing({ target: emailOutbox.dedupeKey })
+      .returning();
+    
+    return queued;
+  }
+
+  async claimDueEmails(now: Date, lockedUntil: Date, limit: number = DEFAULT_EMAIL_BATCH_SIZE): Promise<EmailOutboxMessage[]> {
+    // Claimed emails are locked until lockedUntil, so an instance that dies mid-send doesn't strand them
+    return await db.transaction(async (tx) => {
+      const due = await tx.select({ id: emailOutbox.id })
+        .from(emailOutbox)
+        .where(and(
+          inArray(emailOutbox.status, ["pending", "sending"]),
+          lte(emailOutbox.nextAttemptAt, now)
+        ))
+        .orderBy(asc(emailOutbox.nextAttemptAt))
+        .limit(limit)
+        .for('update', { skipLocked: true });
+      
+      if (due.length === 0) {
+        return [];
+      }
+      
+      return await tx.update(emailOutbox)
+        .set({ status: "sending", nextAttemptAt: lockedUntil })
+        .where(inArray(emailOutbox.id, due.map(email => email.id)))
+        .returning();
+    });
+  }
+
+  async updateEmail(id: number, data: Partial<Pick<InsertEmailOutboxMessage, "status" | "attempts" | "lastError" | "nextAttemptAt" | "messageId" | "sentAt">>): Promise<EmailOutboxMessage> {
+    const [updatedEmail] = await db.update(emailOutbox)
+      .set(data)
+      .where(eq(emailOutbox.id, id))
+      .returning();
+    
+    if (!updatedEmail) {
+      throw new Error(`Email with ID ${id} not found`);
+    }
+    
+    return updatedEmail;
+  }
+
+  async createRedemptionRating(redemptionId: number, userId: number, dealId: number, businessId: number, ratingData: RatingData): Promise<RedemptionRating> {
+    const [addedRating] = await db.insert(redemptionRatings)
+      .values({
+        redemptionId,
+        userId,
+        dealId,
+        businessId,
         rating: ratingData.rating,
         comment: ratingData.comment || null,
         anonymous: ratingData.anonymous || false,
@@ -3455,13 +6591,17 @@ export class DatabaseStorage implements IStorage {
   }
 
   // Refresh token methods
-  async createRefreshToken(userId: number, token: string, expiresAt: Date, clientInfo?: { ipAddress?: string, userAgent?: string, deviceInfo?: string }): Promise<RefreshToken> {
+  async createRefreshToken(profileId: string, token: string, expiresAt: Date, clientInfo?: { ipAddress?: string, userAgent?: string, deviceInfo?: string }): Promise<RefreshToken> {
     const [refreshToken] = await db
       .insert(refreshTokens)
       .values({
-        userId,
+        profileId,
         token,
-        expiresAt
+        familyId: randomUUID(),
+        expiresAt,
+        ipAddress: clientInfo?.ipAddress,
+        userAgent: clientInfo?.userAgent,
+        deviceInfo: clientInfo?.deviceInfo
       })
       .returning();
     return refreshToken;
@@ -3478,31 +6618,326 @@ export class DatabaseStorage implements IStorage {
   async revokeRefreshToken(token: string): Promise<boolean> {
     const result = await db
       .update(refreshTokens)
-      .set({ isRevoked: true })
+      .set({ isRevoked: true, revokedAt: new Date() })
       .where(eq(refreshTokens.token, token));
     return (result.rowCount || 0) > 0;
   }
 
-  async revokeAllUserRefreshTokens(userId: number): Promise<number> {
+  async revokeAllUserRefreshTokens(profileId: string): Promise<number> {
     const result = await db
       .update(refreshTokens)
-      .set({ isRevoked: true })
-      .where(eq(refreshTokens.userId, userId));
+      .set({ isRevoked: true, revokedAt: new Date() })
+      .where(and(eq(refreshTokens.profileId, profileId), eq(refreshTokens.isRevoked, false)));
     return result.rowCount || 0;
   }
 
   async rotateRefreshToken(oldToken: string, newToken: string, expiresAt: Date): Promise<RefreshToken | null> {
-    // Revoke old token
-    await this.revokeRefreshToken(oldToken);
-    
-    // Get user ID from old token
-    const oldTokenData = await this.getRefreshToken(oldToken);
-    if (!oldTokenData) {
-      return null;
-    }
+    return await db.transaction(async (tx) => {
+      // Revoke the old token only if it's still live, so two racing refreshes can't both rotate it
+      const [oldTokenData] = await tx
+        .update(refreshTokens)
+        .set({ isRevoked: true, revokedAt: new Date() })
+        .where(and(
+          eq(refreshTokens.token, oldToken),
+          eq(refreshTokens.isRevoked, false),
+          gt(refreshTokens.expiresAt, new Date())
+        ))
+        .returning();
+      if (!oldTokenData) {
+        return null;
+      }
+
+      // The new token carries on the same device's session
+      const [newTokenData] = await tx
+        .insert(refreshTokens)
+        .values({
+          profileId: oldTokenData.profileId,
+          token: newToken,
+          familyId: oldTokenData.familyId,
+          expiresAt,
+          lastUsedAt: new Date(),
+          ipAddress: oldTokenData.ipAddress,
+          userAgent: oldTokenData.userAgent,
+          deviceInfo: oldTokenData.deviceInfo
+        })
+        .returning();
+      return newTokenData;
+    });
+  }
+
+  async revokeRefreshTokenFamily(familyId: string): Promise<number> {
+    const result = await db
+      .update(refreshTokens)
+      .set({ isRevoked: true, revokedAt: new Date() })
+      .where(and(eq(refreshTokens.familyId, familyId), eq(refreshTokens.isRevoked, false)));
+    return result.rowCount || 0;
+  }
+
+  async getSession(id: number): Promise<RefreshToken | undefined> {
+    const [session] = await db
+      .select()
+      .from(refreshTokens)
+      .where(eq(refreshTokens.id, id));
+    return session || undefined;
+  }
+
+  async getActiveSessions(profileId: string): Promise<RefreshToken[]> {
+    return await db
+      .select()
+      .from(refreshTokens)
+      .where(and(
+        eq(refreshTokens.profileId, profileId),
+        eq(refreshTokens.isRevoked, false),
+        gt(refreshTokens.expiresAt, new Date())
+      ))
+      .orderBy(desc(sql`coalesce(${refreshTokens.lastUsedAt}, ${refreshTokens.createdAt})`));
+  }
+
+  async touchSession(id: number): Promise<void> {
+    await db
+      .update(refreshTokens)
+      .set({ lastUsedAt: new Date() })
+      .where(eq(refreshTokens.id, id));
+  }
+
+  async revokeSession(profileId: string, id: number): Promise<boolean> {
+    const result = await db
+      .update(refreshTokens)
+      .set({ isRevoked: true, revokedAt: new Date() })
+      .where(and(
+        eq(refreshTokens.id, id),
+        eq(refreshTokens.profileId, profileId),
+        eq(refreshTokens.isRevoked, false),
+        gt(refreshTokens.expiresAt, new Date())
+      ));
+    return (result.rowCount || 0) > 0;
+  }
+
+  async revokeOtherSessions(profileId: string, keepId: number): Promise<number> {
+    const result = await db
+      .update(refreshTokens)
+      .set({ isRevoked: true, revokedAt: new Date() })
+      .where(and(
+        eq(refreshTokens.profileId, profileId),
+        ne(refreshTokens.id, keepId),
+        eq(refreshTokens.isRevoked, false),
+        gt(refreshTokens.expiresAt, new Date())
+      ));
+    return result.rowCount || 0;
+  }
+
+  async getSessionAccount(profileId: string): Promise<SessionAccount | undefined> {
+    const [account] = await db
+      .select({ id: profiles.id, email: profiles.email, userType: profiles.user_type })
+      .from(profiles)
+      .where(eq(profiles.id, profileId));
+    return account || undefined;
+  }
+
+  async recordSecurityEvent(event: InsertSecurityEvent): Promise<SecurityEvent> {
+    const [securityEvent] = await db
+      .insert(securityEvents)
+      .values(event)
+      .returning();
+    return securityEvent;
+  }
+
+  // Login throttling methods
+  async getLoginThrottle(email: string): Promise<LoginThrottle | undefined> {
+    const [throttle] = await db
+      .select()
+      .from(loginThrottles)
+      .where(eq(loginThrottles.email, email));
+    return throttle;
+  }
+
+  async recordFailedLogin(email: string, ipAddress?: string | null): Promise<LoginThrottle> {
+    // Counting in the upsert keeps concurrent failures from overwriting each other
+    const now = new Date();
+    const [throttle] = await db
+      .insert(loginThrottles)
+      .values({ email, failedAttempts: 1, lastFailedAt: now, lastIpAddress: ipAddress ?? null })
+      .onConflictDoUpdate({
+        target: loginThrottles.email,
+        set: {
+          failedAttempts: sql`${loginThrottles.failedAttempts} + 1`,
+          lastFailedAt: now,
+          lastIpAddress: ipAddress ?? null
+        }
+      })
+      .returning();
+    return throttle;
+  }
+
+  async updateLoginThrottle(email: string, changes: Partial<Pick<LoginThrottle, 'nextAttemptAt' | 'lockedUntil' | 'unlockTokenHash'>>): Promise<void> {
+    await db
+      .update(loginThrottles)
+      .set(changes)
+      .where(eq(loginThrottles.email, email));
+  }
+
+  async clearLoginThrottle(email: string): Promise<boolean> {
+    const result = await db
+      .delete(loginThrottles)
+      .where(eq(loginThrottles.email, email));
+    return (result.rowCount || 0) > 0;
+  }
+
+  async clearLoginThrottleByUnlockToken(unlockTokenHash: string): Promise<LoginThrottle | undefined> {
+    const [throttle] = await db
+      .delete(loginThrottles)
+      .where(and(
+        eq(loginThrottles.unlockTokenHash, unlockTokenHash),
+        gt(loginThrottles.lockedUntil, new Date())
+      ))
+      .returning();
+    return throttle;
+  }
+
+  async getLockedLoginThrottles(): Promise<LoginThrottle[]> {
+    return db
+      .select()
+      .from(loginThrottles)
+      .where(gt(loginThrottles.lockedUntil, new Date()))
+      .orderBy(desc(loginThrottles.lastFailedAt));
+  }
+
+  // Two-factor methods
+  async getTwoFactor(profileId: string): Promise<ProfileTwoFactor | undefined> {
+    const [record] = await db
+      .select()
+      .from(profileTwoFactor)
+      .where(eq(profileTwoFactor.profileId, profileId));
+    return record;
+  }
+
+  async startTwoFactorEnrolment(profileId: string, secret: string): Promise<ProfileTwoFactor> {
+    const now = new Date();
+    const fresh = { secret, enabledAt: null, recoveryCodes: [], lastUsedStep: null, createdAt: now, updatedAt: now };
+    const [record] = await db
+      .insert(profileTwoFactor)
+      .values({ profileId, ...fresh })
+      .onConflictDoUpdate({ target: profileTwoFactor.profileId, set: fresh })
+      .returning();
+    return record;
+  }
+
+  async enableTwoFactor(profileId: string, recoveryCodeHashes: string[], step: number): Promise<ProfileTwoFactor | undefined> {
+    const now = new Date();
+    const [record] = await db
+      .update(profileTwoFactor)
+      .set({ enabledAt: now, recoveryCodes: recoveryCodeHashes, lastUsedStep: step, updatedAt: now })
+      .where(eq(profileTwoFactor.profileId, profileId))
+      .returning();
+    return record;
+  }
+
+  async replaceRecoveryCodes(profileId: string, recoveryCodeHashes: string[]): Promise<void> {
+    await db
+      .update(profileTwoFactor)
+      .set({ recoveryCodes: recoveryCodeHashes, updatedAt: new Date() })
+      .where(eq(profileTwoFactor.profileId, profileId));
+  }
+
+  async useRecoveryCode(profileId: string, codeHash: string): Promise<boolean> {
+    // Removing the hash in the same statement that checks for it lets each code work once
+    const used = await db
+      .update(profileTwoFactor)
+      .set({ recoveryCodes: sql`${profileTwoFactor.recoveryCodes} - ${codeHash}::text`, updatedAt: new Date() })
+      .where(and(
+        eq(profileTwoFactor.profileId, profileId),
+        sql`${profileTwoFactor.recoveryCodes} ? ${codeHash}::text`
+      ))
+      .returning({ profileId: profileTwoFactor.profileId });
+    return used.length > 0;
+  }
+
+  async recordTotpStep(profileId: string, step: number): Promise<boolean> {
+    const recorded = await db
+      .update(profileTwoFactor)
+      .set({ lastUsedStep: step, updatedAt: new Date() })
+      .where(and(
+        eq(profileTwoFactor.profileId, profileId),
+        or(isNull(profileTwoFactor.lastUsedStep), lt(profileTwoFactor.lastUsedStep, step))
+      ))
+      .returning({ profileId: profileTwoFactor.profileId });
+    return recorded.length > 0;
+  }
+
+  async deleteTwoFactor(profileId: string): Promise<boolean> {
+    const result = await db
+      .delete(profileTwoFactor)
+      .where(eq(profileTwoFactor.profileId, profileId));
+    return (result.rowCount || 0) > 0;
+  }
+
+  // Passkey methods
+  async getPasskeys(profileId: string): Promise<ProfilePasskey[]> {
+    return db
+      .select()
+      .from(profilePasskeys)
+      .where(eq(profilePasskeys.profileId, profileId))
+      .orderBy(desc(profilePasskeys.createdAt), desc(profilePasskeys.id));
+  }
+
+  async getPasskeyByCredentialId(credentialId: string): Promise<ProfilePasskey | undefined> {
+    const [passkey] = await db
+      .select()
+      .from(profilePasskeys)
+      .where(eq(profilePasskeys.credentialId, credentialId));
+    return passkey;
+  }
+
+  async createPasskey(passkey: InsertProfilePasskey): Promise<ProfilePasskey> {
+    const [created] = await db
+      .insert(profilePasskeys)
+      .values(passkey)
+      .returning();
+    return created;
+  }
+
+  async recordPasskeyUse(id: number, signCount: number, backedUp: boolean): Promise<void> {
+    await db
+      .update(profilePasskeys)
+      .set({ signCount, backedUp, lastUsedAt: new Date() })
+      .where(eq(profilePasskeys.id, id));
+  }
 
-    // Create new token
-    return await this.createRefreshToken(oldTokenData.userId, newToken, expiresAt);
+  async renamePasskey(profileId: string, id: number, name: string): Promise<ProfilePasskey | undefined> {
+    const [renamed] = await db
+      .update(profilePasskeys)
+      .set({ name })
+      .where(and(eq(profilePasskeys.id, id), eq(profilePasskeys.profileId, profileId)))
+      .returning();
+    return renamed;
+  }
+
+  async deletePasskey(profileId: string, id: number): Promise<boolean> {
+    const result = await db
+      .delete(profilePasskeys)
+      .where(and(eq(profilePasskeys.id, id), eq(profilePasskeys.profileId, profileId)));
+    return (result.rowCount || 0) > 0;
+  }
+
+  async createPasskeyChallenge(challenge: InsertPasskeyChallenge): Promise<PasskeyChallenge> {
+    await db
+      .delete(passkeyChallenges)
+      .where(lte(passkeyChallenges.expiresAt, new Date()));
+
+    const [created] = await db
+      .insert(passkeyChallenges)
+      .values(challenge)
+      .returning();
+    return created;
+  }
+
+  async consumePasskeyChallenge(challenge: string, purpose: string): Promise<PasskeyChallenge | undefined> {
+    // Deleting and returning in one statement means two answers to the same challenge can't both get it
+    const [consumed] = await db
+      .delete(passkeyChallenges)
+      .where(and(eq(passkeyChallenges.challenge, challenge), eq(passkeyChallenges.purpose, purpose)))
+      .returning();
+    return consumed;
   }
 }
 
@@ -0,0 +1,114 @@
+/**
+ * Admin audit log hash chain
+ *
+ * Storage seals each entry before appending it: its values are passed through
+ * the log sanitizer, then it is hashed together with the hash of the entry
+ * before it. Verifying recomputes every hash in order, so an entry that was
+ * edited, removed or inserted out of order is reported with its ID.
+ */
+import crypto from 'crypto';
+import type { AdminAuditEntry, InsertAdminAuditEntry } from '@shared/schema';
+import type { AdminAuditChainReport } from '@shared/adminAudit';
+import { defaultSanitizerConfig, sanitizeLogData, type LogSanitizerConfig } from './logSanitizer';
+
+export type NewAdminAuditEntry = Omit<InsertAdminAuditEntry, 'id' | 'previousHash' | 'hash' | 'createdAt'>;
+
+export type SealedAdminAuditEntry = Omit<AdminAuditEntry, 'id'>;
+
+// Same redaction and masking as request logs, but keeps more of each value
+const AUDIT_SANITIZER_CONFIG: LogSanitizerConfig = {
+  ...defaultSanitizerConfig,
+  maxDepth: 5,
+  maxArrayLength: 50,
+  maxStringLength: 500,
+  // "ssn" also matches inside "businessName"; "socialSecurity" still covers it
+  piiFields: defaultSanitizerConfig.piiFields.filter(field => field !== 'ssn'),
+};
+
+function sanitizeValues(values: Record<string, unknown> | null | undefined): Record<string, unknown> | null {
+  if (values == null) return null;
+
+  // Through JSON first, so dates are kept as strings instead of becoming empty objects
+  return sanitizeLogData(JSON.parse(JSON.stringify(values)), AUDIT_SANITIZER_CONFIG);
+}
+
+/**
+ * JSON with object keys sorted, so a hash doesn't depend on the key order
+ * Postgres jsonb hands back
+ */
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+
+  if (value !== null && typeof value === 'object') {
+    const entries = Object.entries(value)
+      .filter(([, item]) => item !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([key, item]) => `${JSON.stringify(key)}:${canonicalJson(item)}`).join(',')}}`;
+  }
+
+  return JSON.stringify(value ?? null);
+}
+
+export function hashAuditEntry(entry: Omit<AdminAuditEntry, 'id' | 'hash'>): string {
+  const contents = canonicalJson({
+    previousHash: entry.previousHash,
+    actorId: entry.actorId,
+    action: entry.action,
+    targetType: entry.targetType,
+    targetId: entry.targetId,
+    batchId: entry.batchId,
+    details: entry.details,
+    before: entry.before,
+    after: entry.after,
+    ipAddress: entry.ipAddress,
+    userAgent: entry.userAgent,
+    createdAt: entry.createdAt.toISOString(),
+  });
+
+  return crypto.createHash('sha256').update(contents).digest('hex');
+}
+
+/**
+ * Sanitize an entry and chain it to the one before it
+ */
+export function sealAuditEntry(
+  entry: NewAdminAuditEntry,
+  previousHash: string | null,
+  createdAt: Date = new Date()
+): SealedAdminAuditEntry {
+  const sealed: Omit<SealedAdminAuditEntry, 'hash'> = {
+    actorId: entry.actorId ?? null,
+    action: entry.action,
+    targetType: entry.targetType,
+    targetId: entry.targetId,
+    batchId: entry.batchId ?? null,
+    details: sanitizeValues(entry.details) ?? {},
+    before: sanitizeValues(entry.before),
+    after: sanitizeValues(entry.after),
+    ipAddress: entry.ipAddress ?? null,
+    userAgent: entry.userAgent ?? null,
+    previousHash,
+    createdAt,
+  };
+
+  return { ...sealed, hash: hashAuditEntry(sealed) };
+}
+
+/**
+ * Check a chain given in the order it was written (by ID)
+ */
+export function verifyAuditChain(entries: AdminAuditEntry[]): AdminAuditChainReport {
+  let previousHash: string | null = null;
+
+  for (let index = 0; index < entries.length; index++) {
+    const { id, hash, ...contents } = entries[index];
+    if (contents.previousHash !== previousHash || hashAuditEntry(contents) !== hash) {
+      return { valid: false, checked: index, brokenAt: id, headHash: previousHash };
+    }
+    previousHash = hash;
+  }
+
+  return { valid: true, checked: entries.length, brokenAt: null, headHash: previousHash };
+}
@@ -0,0 +1,104 @@
+/**
+ * Minimal CBOR decoder (RFC 8949)
+ *
+ * Enough to read WebAuthn attestation objects and COSE public keys: unsigned
+ * and negative integers, byte and text strings, arrays, maps and the simple
+ * values false, true and null. Indefinite lengths, tags and floats aren't
+ * used by authenticators for these structures and are rejected.
+ */
+
+export type CborValue = number | string | boolean | null | Buffer | CborValue[] | Map<CborValue, CborValue>;
+
+export class CborError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CborError';
+  }
+}
+
+class Reader {
+  offset = 0;
+
+  constructor(private readonly bytes: Buffer) {}
+
+  take(length: number): Buffer {
+    if (this.offset + length > this.bytes.length) {
+      throw new CborError('Unexpected end of CBOR data');
+    }
+    const slice = this.bytes.subarray(this.offset, this.offset + length);
+    this.offset += length;
+    return slice;
+  }
+
+  argument(info: number): number {
+    if (info < 24) return info;
+    if (info === 24) return this.take(1).readUInt8(0);
+    if (info === 25) return this.take(2).readUInt16BE(0);
+    if (info === 26) return this.take(4).readUInt32BE(0);
+    if (info === 27) {
+      const value = this.take(8).readBigUInt64BE(0);
+      if (value > BigInt(Number.MAX_SAFE_INTEGER)) {
+        throw new CborError('CBOR integer too large');
+      }
+      return Number(value);
+    }
+    throw new CborError(`Unsupported CBOR length encoding ${info}`);
+  }
+
+  item(): CborValue {
+    const initial = this.take(1).readUInt8(0);
+    const major = initial >> 5;
+    const info = initial & 0x1f;
+
+    switch (major) {
+      case 0:
+        return this.argument(info);
+      case 1:
+        return -1 - this.argument(info);
+      case 2:
+        return Buffer.from(this.take(this.argument(info)));
+      case 3:
+        return this.take(this.argument(info)).toString('utf8');
+      case 4: {
+        const length = this.argument(info);
+        const items: CborValue[] = [];
+        for (let i = 0; i < length; i++) items.push(this.item());
+        return items;
+      }
+      case 5: {
+        const length = this.argument(info);
+        const map = new Map<CborValue, CborValue>();
+        for (let i = 0; i < length; i++) {
+          const key = this.item();
+          map.set(key, this.item());
+        }
+        return map;
+      }
+      case 7:
+        if (info === 20) return false;
+        if (info === 21) return true;
+        if (info === 22) return null;
+        throw new CborError(`Unsupported CBOR simple value ${info}`);
+      default:
+        throw new CborError(`Unsupported CBOR major type ${major}`);
+    }
+  }
+}
+
+/**
+ * Decode the first CBOR item in the buffer; `length` is how many bytes it took,
+ * since authenticator data puts the credential public key before other fields
+ */
+export function decodeCborFirst(bytes: Buffer): { value: CborValue; length: number } {
+  const reader = new Reader(bytes);
+  const value = reader.item();
+  return { value, length: reader.offset };
+}
+
+export function decodeCbor(bytes: Buffer): CborValue {
+  const { value, length } = decodeCborFirst(bytes);
+  if (length !== bytes.length) {
+    throw new CborError('Unexpected data after CBOR item');
+  }
+  return value;
+}
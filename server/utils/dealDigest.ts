@@ -0,0 +1,139 @@
+/**
+ * Weekly digest ranking
+ *
+ * Scores new and expiring deals for one user. Deals score higher when they
+ * are in one of the user's onboarding categories, were favorited by the user or
+ * come from a business the user has favorited, and are close to the user's
+ * home. Expiring and brand-new deals get a small boost, so the digest leans
+ * towards what changed this week.
+ */
+import type { Business, Deal } from '@shared/schema';
+import { haversineKm } from './geo';
+
+export const DEFAULT_DIGEST_SIZE = 8;
+const DEFAULT_RADIUS_MILES = 10;
+const KM_PER_MILE = 1.609344;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const WEIGHTS = {
+  favoriteDeal: 4,
+  category: 3,
+  favoriteBusiness: 2,
+  // Scaled down linearly to 0 at the edge of the user's radius
+  nearby: 2,
+  expiring: 1,
+  isNew: 1,
+};
+
+export interface DigestRankingContext {
+  categories: string[];
+  favoriteDealIds: Set<number>;
+  favoriteBusinessIds: Set<number>;
+  home: { latitude: number; longitude: number } | null;
+  radiusMiles?: number | null;
+  // Deals created after this are new
+  newSince: Date;
+  // Deals ending before this are expiring
+  expiringBefore: Date;
+}
+
+export interface RankedDigestDeal {
+  deal: Deal & { business: Business };
+  score: number;
+  // Why the deal was picked, most important first
+  reasons: string[];
+}
+
+function describeEnding(endDate: Date, now: Date): string {
+  const daysLeft = Math.floor((endDate.getTime() - now.getTime()) / DAY_MS);
+  if (daysLeft < 1) return 'Ends today';
+  if (daysLeft === 1) return 'Ends tomorrow';
+  return `Ends in ${daysLeft} days`;
+}
+
+function distanceMiles(business: Business, home: DigestRankingContext['home']): number | null {
+  if (!home || business.latitude == null || business.longitude == null) return null;
+  return haversineKm(home.latitude, home.longitude, business.latitude, business.longitude) / KM_PER_MILE;
+}
+
+/**
+ * Whether the user has told us anything to rank by; users who haven't get
+ * the newest and soonest-ending deals
+ */
+function hasPersonalization(context: DigestRankingContext): boolean {
+  return context.categories.length > 0 ||
+    context.favoriteDealIds.size > 0 ||
+    context.favoriteBusinessIds.size > 0 ||
+    context.home !== null;
+}
+
+/**
+ * Score one deal for a user; zero means nothing ties the deal to them
+ */
+export function scoreDigestDeal(
+  deal: Deal & { business: Business },
+  context: DigestRankingContext,
+  now: Date = new Date()
+): RankedDigestDeal {
+  const reasons: string[] = [];
+  let score = 0;
+
+  if (context.favoriteDealIds.has(deal.id)) {
+    score += WEIGHTS.favoriteDeal;
+    reasons.push('You saved this');
+  }
+
+  const categories = context.categories.map(category => category.toLowerCase());
+  if (categories.includes(deal.category.toLowerCase())) {
+    score += WEIGHTS.category;
+    reasons.push(`Because you like ${deal.category.toLowerCase()}`);
+  }
+
+  if (!context.favoriteDealIds.has(deal.id) && context.favoriteBusinessIds.has(deal.businessId)) {
+    score += WEIGHTS.favoriteBusiness;
+    reasons.push('From a business you like');
+  }
+
+  const radiusMiles = context.radiusMiles || DEFAULT_RADIUS_MILES;
+  const miles = distanceMiles(deal.business, context.home);
+  if (miles !== null && miles <= radiusMiles) {
+    score += WEIGHTS.nearby * (1 - miles / radiusMiles);
+    reasons.push(`${miles < 10 ? miles.toFixed(1) : Math.round(miles)} mi away`);
+  }
+
+  // Timing only breaks ties between deals that matched something above,
+  // unless there is nothing to personalize with
+  const countTiming = score > 0 || !hasPersonalization(context);
+  const endDate = new Date(deal.endDate);
+  if (endDate <= context.expiringBefore) {
+    if (countTiming) score += WEIGHTS.expiring;
+    reasons.push(describeEnding(endDate, now));
+  } else if (new Date(deal.createdAt) >= context.newSince) {
+    if (countTiming) score += WEIGHTS.isNew;
+    reasons.push('New this week');
+  }
+
+  return { deal, score, reasons };
+}
+
+/**
+ * The best-matching deals for a user, best first
+ * Deals that match none of the user's interests are left out, unless the
+ * user has no interests recorded
+ */
+export function rankDigestDeals(
+  deals: (Deal & { business: Business })[],
+  context: DigestRankingContext,
+  now: Date = new Date(),
+  limit: number = DEFAULT_DIGEST_SIZE
+): RankedDigestDeal[] {
+  return deals
+    .map(deal => scoreDigestDeal(deal, context, now))
+    .filter(ranked => ranked.score > 0)
+    .sort((a, b) =>
+      b.score - a.score ||
+      new Date(a.deal.endDate).getTime() - new Date(b.deal.endDate).getTime() ||
+      a.deal.id - b.deal.id
+    )
+    .slice(0, limit);
+}
@@ -0,0 +1,60 @@
+/**
+ * Scheduled deal lifecycle transitions
+ *
+ * Approved deals go live at their start date, live deals expire after their
+ * end date, and expired deals are archived once a retention window has passed.
+ */
+import type { DealStatusHistory } from "@shared/schema";
+import type { IStorage, DealLifecycleRule } from "../storage";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Lifecycle rules in the order they are applied
+ * Expiry runs before activation so a deal whose whole run is already in the
+ * past never goes live
+ */
+export function getDealLifecycleRules(now: Date, archiveAfterDays: number): DealLifecycleRule[] {
+  return [
+    {
+      fromStatuses: ['approved', 'active'],
+      toStatus: 'expired',
+      dateField: 'endDate',
+      before: now,
+      reason: 'scheduled_expiry',
+    },
+    {
+      fromStatuses: ['approved'],
+      toStatus: 'active',
+      dateField: 'startDate',
+      before: now,
+      reason: 'scheduled_activation',
+    },
+    {
+      fromStatuses: ['expired'],
+      toStatus: 'archived',
+      dateField: 'endDate',
+      before: new Date(now.getTime() - archiveAfterDays * DAY_MS),
+      reason: 'scheduled_archive',
+    },
+  ];
+}
+
+/**
+ * Apply every lifecycle rule once and return the transitions made
+ * Only deals still in a rule's from-status are moved, so running this again
+ * for the same instant changes nothing
+ */
+export async function applyDealLifecycle(
+  store: Pick<IStorage, 'transitionDealsByDate'>,
+  now: Date,
+  archiveAfterDays: number
+): Promise<DealStatusHistory[]> {
+  const transitions: DealStatusHistory[] = [];
+
+  for (const rule of getDealLifecycleRules(now, archiveAfterDays)) {
+    transitions.push(...await store.transitionDealsByDate(rule));
+  }
+
+  return transitions;
+}
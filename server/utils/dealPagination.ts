@@ -0,0 +1,60 @@
+/**
+ * Sort orders and pagination for deal listings
+ */
+import type { Request } from "express";
+import type { Deal } from "@shared/schema";
+import { paginate, sortItems, type Page, type SortSpec } from "./pagination";
+
+export const DEAL_SORT_OPTIONS = ['newest', 'endingSoon', 'popular', 'highestDiscount', 'trending', 'relevance', 'distance'] as const;
+export type DealSortOption = typeof DEAL_SORT_OPTIONS[number];
+
+const DEFAULT_DEAL_SORT: DealSortOption = 'newest';
+
+/**
+ * Numeric value of a free-text discount such as "30% off" or "$10 off"
+ * Deals without a number in their discount sort last
+ */
+export function getDiscountValue(discount: string | null | undefined): number {
+  const match = discount?.match(/\d+(\.\d+)?/);
+  return match ? parseFloat(match[0]) : 0;
+}
+
+const toTime = (value: Date | string | null | undefined) => (value ? new Date(value).getTime() : 0);
+
+export const DEAL_SORT_SPECS: Record<DealSortOption, SortSpec<Deal>> = {
+  newest: { value: deal => toTime(deal.createdAt), direction: 'desc' },
+  endingSoon: { value: deal => toTime(deal.endDate), direction: 'asc' },
+  popular: { value: deal => deal.redemptionCount || 0, direction: 'desc' },
+  highestDiscount: { value: deal => getDiscountValue(deal.discount), direction: 'desc' },
+  // Saves count for more than views, matching the explore page's trending order
+  trending: { value: deal => (deal.viewCount || 0) + (deal.saveCount || 0) * 5, direction: 'desc' },
+  // Only meaningful for search results, which carry a score from the search index
+  relevance: { value: deal => (deal as Deal & { searchScore?: number }).searchScore ?? 0, direction: 'desc' },
+  // Only meaningful for location queries, whose deals carry their distance; the rest sort last
+  distance: { value: deal => (deal as Deal & { distanceKm?: number | null }).distanceKm ?? Number.MAX_SAFE_INTEGER, direction: 'asc' },
+};
+
+/**
+ * Apply the sort, cursor and limit query params to a list of deals
+ *
+ * Requests without a limit or cursor get every deal back so callers that
+ * predate pagination keep working; the sort is still applied when given.
+ * `defaultSort` replaces the usual default, e.g. relevance for search results
+ * or distance for location queries.
+ */
+export function paginateDeals<T extends Deal>(
+  deals: T[],
+  query: Request['query'],
+  defaultSort: DealSortOption = DEFAULT_DEAL_SORT
+): Page<T> {
+  const sort = (query.sort as DealSortOption | undefined) ?? defaultSort;
+  const cursor = query.cursor as string | undefined;
+  const limit = query.limit !== undefined ? parseInt(query.limit as string, 10) : undefined;
+
+  if (limit === undefined && cursor === undefined) {
+    const items = query.sort !== undefined ? sortItems(deals, DEAL_SORT_SPECS[sort]) : deals;
+    return { items, nextCursor: null, totalCount: deals.length };
+  }
+
+  return paginate(deals, DEAL_SORT_SPECS[sort], { sort, cursor, limit });
+}
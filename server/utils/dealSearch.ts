@@ -0,0 +1,413 @@
+/**
+ * In-memory full-text index for deals
+ *
+ * Indexes title, description, terms, category and business name with
+ * per-field weights, ranks matches with a TF-IDF style score, tolerates typos
+ * through trigram candidate lookup plus edit distance, and returns highlighted
+ * snippets as character ranges so clients never have to render raw HTML.
+ */
+import type { Deal } from "@shared/schema";
+
+export type SearchField = 'title' | 'businessName' | 'category' | 'description' | 'terms';
+
+// Relative importance of a match in each field
+const FIELD_WEIGHTS: Record<SearchField, number> = {
+  title: 3,
+  businessName: 2.5,
+  category: 2,
+  description: 1,
+  terms: 0.5,
+};
+
+// Fields whose full text is short enough to return without trimming
+const SHORT_FIELDS: SearchField[] = ['title', 'businessName', 'category'];
+
+const SNIPPET_LENGTH = 160;
+const PREFIX_MATCH_WEIGHT = 0.8;
+const FUZZY_MATCH_WEIGHT = 0.7;
+const MIN_PREFIX_LENGTH = 3;
+const MIN_FUZZY_LENGTH = 4;
+
+export interface SearchHighlight {
+  field: SearchField;
+  snippet: string;
+  // [start, end) offsets of matched words within the snippet
+  matches: [number, number][];
+}
+
+export interface DealSearchHit {
+  dealId: number;
+  score: number;
+  highlights: SearchHighlight[];
+}
+
+export interface SearchSuggestion {
+  text: string;
+  type: 'deal' | 'business' | 'category';
+  dealId?: number;
+}
+
+export interface DealSearchOptions {
+  limit?: number;
+  // Only consider these deals, e.g. the ones visible to the current user
+  dealIds?: Set<number>;
+}
+
+interface IndexedDeal {
+  dealId: number;
+  businessId: number;
+  fields: Record<SearchField, string>;
+}
+
+interface Word {
+  term: string;
+  start: number;
+  end: number;
+}
+
+/**
+ * Lowercase and strip accents so "Café" matches "cafe"
+ */
+function normalize(text: string): string {
+  return text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+}
+
+/**
+ * Split text into normalised words, keeping their offsets in the original text
+ */
+function splitWords(text: string): Word[] {
+  const words: Word[] = [];
+  for (const match of text.matchAll(/[\p{L}\p{N}\p{M}]+/gu)) {
+    const term = normalize(match[0]);
+    if (term) {
+      words.push({ term, start: match.index!, end: match.index! + match[0].length });
+    }
+  }
+  return words;
+}
+
+function trigrams(term: string): string[] {
+  const padded = `$${term}$`;
+  const grams: string[] = [];
+  for (let i = 0; i <= padded.length - 3; i++) {
+    grams.push(padded.slice(i, i + 3));
+  }
+  return grams;
+}
+
+/**
+ * Optimal string alignment distance (Levenshtein plus adjacent transpositions)
+ * Gives up early once the distance exceeds maxDistance
+ */
+function editDistance(a: string, b: string, maxDistance: number): number {
+  if (Math.abs(a.length - b.length) > maxDistance) return maxDistance + 1;
+
+  const rows: number[][] = [];
+  for (let i = 0; i <= a.length; i++) {
+    rows.push([i]);
+  }
+  for (let j = 1; j <= b.length; j++) {
+    rows[0][j] = j;
+  }
+
+  for (let i = 1; i <= a.length; i++) {
+    let rowMin = Infinity;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(rows[i - 1][j] + 1, rows[i][j - 1] + 1, rows[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, rows[i - 2][j - 2] + 1);
+      }
+      rows[i][j] = value;
+      rowMin = Math.min(rowMin, value);
+    }
+    if (rowMin > maxDistance) return maxDistance + 1;
+  }
+
+  return rows[a.length][b.length];
+}
+
+function maxEditsFor(term: string): number {
+  return term.length >= 8 ? 2 : 1;
+}
+
+export class DealSearchIndex {
+  private docs = new Map<number, IndexedDeal>();
+  // term -> dealId -> weighted term frequency
+  private postings = new Map<string, Map<number, number>>();
+  // trigram -> terms containing it, used to find typo candidates
+  private trigramIndex = new Map<string, Set<string>>();
+
+  get size(): number {
+    return this.docs.size;
+  }
+
+  clear(): void {
+    this.docs.clear();
+    this.postings.clear();
+    this.trigramIndex.clear();
+  }
+
+  /**
+   * Add or replace a deal in the index
+   */
+  upsert(deal: Deal, businessName?: string | null): void {
+    this.remove(deal.id);
+    this.addDoc({
+      dealId: deal.id,
+      businessId: deal.businessId,
+      fields: {
+        title: deal.title || '',
+        businessName: businessName || '',
+        category: deal.category || '',
+        description: deal.description || '',
+        terms: deal.terms || '',
+      },
+    });
+  }
+
+  remove(dealId: number): void {
+    const doc = this.docs.get(dealId);
+    if (!doc) return;
+
+    for (const field of Object.keys(FIELD_WEIGHTS) as SearchField[]) {
+      for (const { term } of splitWords(doc.fields[field])) {
+        const posting = this.postings.get(term);
+        if (!posting) continue;
+        posting.delete(dealId);
+        if (posting.size === 0) {
+          this.postings.delete(term);
+          this.removeTrigrams(term);
+        }
+      }
+    }
+    this.docs.delete(dealId);
+  }
+
+  /**
+   * Drop every deal that isn't in the set, e.g. ones another server deleted
+   */
+  retain(dealIds: Set<number>): void {
+    for (const dealId of Array.from(this.docs.keys())) {
+      if (!dealIds.has(dealId)) this.remove(dealId);
+    }
+  }
+
+  /**
+   * Refresh the business name on every indexed deal of a business
+   */
+  updateBusinessName(businessId: number, businessName: string | null): void {
+    this.updateBusinessNames(new Map([[businessId, businessName]]));
+  }
+
+  /**
+   * Refresh business names in one pass, by business ID; other businesses are left alone
+   */
+  updateBusinessNames(businessNames: Map<number, string | null>): void {
+    for (const doc of Array.from(this.docs.values())) {
+      if (!businessNames.has(doc.businessId)) continue;
+
+      const businessName = businessNames.get(doc.businessId) || '';
+      if (doc.fields.businessName === businessName) continue;
+      this.remove(doc.dealId);
+      this.addDoc({ ...doc, fields: { ...doc.fields, businessName } });
+    }
+  }
+
+  /**
+   * Rank deals matching every word of the query
+   */
+  search(query: string, options: DealSearchOptions = {}): DealSearchHit[] {
+    return this.rank(query, false, options).map(({ dealId, score, matchedTerms }) => ({
+      dealId,
+      score,
+      highlights: this.highlight(this.docs.get(dealId)!, matchedTerms),
+    }));
+  }
+
+  /**
+   * Type-ahead suggestions; the last word of the query is treated as a prefix
+   */
+  suggest(query: string, options: DealSearchOptions = {}): SearchSuggestion[] {
+    const limit = options.limit ?? 8;
+    const ranked = this.rank(query, true, { ...options, limit: limit * 3 });
+
+    const suggestions: SearchSuggestion[] = [];
+    const seen = new Set<string>();
+    const add = (suggestion: SearchSuggestion) => {
+      const key = `${suggestion.type}:${normalize(suggestion.text)}`;
+      if (suggestion.text && !seen.has(key) && suggestions.length < limit) {
+        seen.add(key);
+        suggestions.push(suggestion);
+      }
+    };
+
+    for (const { dealId, matchedTerms } of ranked) {
+      const doc = this.docs.get(dealId)!;
+      const fieldMatches = (field: SearchField) =>
+        splitWords(doc.fields[field]).some(word => matchedTerms.has(word.term));
+
+      if (fieldMatches('title')) add({ text: doc.fields.title, type: 'deal', dealId });
+      if (fieldMatches('businessName')) add({ text: doc.fields.businessName, type: 'business' });
+      if (fieldMatches('category')) add({ text: doc.fields.category, type: 'category' });
+    }
+
+    return suggestions;
+  }
+
+  private addDoc(doc: IndexedDeal): void {
+    this.docs.set(doc.dealId, doc);
+
+    for (const field of Object.keys(FIELD_WEIGHTS) as SearchField[]) {
+      for (const { term } of splitWords(doc.fields[field])) {
+        let posting = this.postings.get(term);
+        if (!posting) {
+          posting = new Map();
+          this.postings.set(term, posting);
+          this.addTrigrams(term);
+        }
+        posting.set(doc.dealId, (posting.get(doc.dealId) || 0) + FIELD_WEIGHTS[field]);
+      }
+    }
+  }
+
+  private addTrigrams(term: string): void {
+    for (const gram of trigrams(term)) {
+      let terms = this.trigramIndex.get(gram);
+      if (!terms) {
+        terms = new Set();
+        this.trigramIndex.set(gram, terms);
+      }
+      terms.add(term);
+    }
+  }
+
+  private removeTrigrams(term: string): void {
+    for (const gram of trigrams(term)) {
+      const terms = this.trigramIndex.get(gram);
+      if (!terms) continue;
+      terms.delete(term);
+      if (terms.size === 0) this.trigramIndex.delete(gram);
+    }
+  }
+
+  /**
+   * Indexed terms that could stand for a query word, with a similarity weight
+   */
+  private expandTerm(word: string, allowPrefix: boolean): Map<string, number> {
+    const candidates = new Map<string, number>();
+
+    if (this.postings.has(word)) {
+      candidates.set(word, 1);
+    }
+
+    if (allowPrefix) {
+      for (const term of Array.from(this.postings.keys())) {
+        if (term !== word && term.startsWith(word)) {
+          candidates.set(term, Math.max(candidates.get(term) || 0, PREFIX_MATCH_WEIGHT));
+        }
+      }
+    }
+
+    if (word.length >= MIN_FUZZY_LENGTH) {
+      const maxEdits = maxEditsFor(word);
+      const checked = new Set<string>();
+      for (const gram of trigrams(word)) {
+        for (const term of Array.from(this.trigramIndex.get(gram) || [])) {
+          if (checked.has(term) || candidates.has(term)) continue;
+          checked.add(term);
+
+          const distance = editDistance(word, term, maxEdits);
+          if (distance <= maxEdits) {
+            const similarity = 1 - distance / Math.max(word.length, term.length);
+            candidates.set(term, FUZZY_MATCH_WEIGHT * similarity);
+          }
+        }
+      }
+    }
+
+    return candidates;
+  }
+
+  private rank(
+    query: string,
+    prefixLastWord: boolean,
+    options: DealSearchOptions
+  ): { dealId: number; score: number; matchedTerms: Set<string> }[] {
+    const words = Array.from(new Set(splitWords(query).map(word => word.term)));
+    if (words.length === 0 || this.docs.size === 0) return [];
+
+    const totals = new Map<number, { score: number; matchedTerms: Set<string>; matchedWords: number }>();
+
+    words.forEach((word, index) => {
+      const isLast = index === words.length - 1;
+      const allowPrefix = (prefixLastWord && isLast) || word.length >= MIN_PREFIX_LENGTH;
+      const wordScores = new Map<number, number>();
+      const wordTerms = new Map<number, string[]>();
+
+      for (const [term, similarity] of Array.from(this.expandTerm(word, allowPrefix))) {
+        const posting = this.postings.get(term)!;
+        const idf = Math.log(1 + this.docs.size / posting.size);
+
+        for (const [dealId, frequency] of Array.from(posting)) {
+          if (options.dealIds && !options.dealIds.has(dealId)) continue;
+
+          const score = similarity * frequency * idf;
+          wordScores.set(dealId, Math.max(wordScores.get(dealId) || 0, score));
+          wordTerms.set(dealId, [...(wordTerms.get(dealId) || []), term]);
+        }
+      }
+
+      for (const [dealId, score] of Array.from(wordScores)) {
+        const total = totals.get(dealId) || { score: 0, matchedTerms: new Set<string>(), matchedWords: 0 };
+        total.score += score;
+        total.matchedWords += 1;
+        wordTerms.get(dealId)!.forEach(term => total.matchedTerms.add(term));
+        totals.set(dealId, total);
+      }
+    });
+
+    const results = Array.from(totals)
+      // Every query word has to match something
+      .filter(([, total]) => total.matchedWords === words.length)
+      .map(([dealId, total]) => ({ dealId, score: total.score, matchedTerms: total.matchedTerms }))
+      .sort((a, b) => b.score - a.score || a.dealId - b.dealId);
+
+    return options.limit !== undefined ? results.slice(0, options.limit) : results;
+  }
+
+  private highlight(doc: IndexedDeal, matchedTerms: Set<string>): SearchHighlight[] {
+    const highlights: SearchHighlight[] = [];
+
+    for (const field of Object.keys(FIELD_WEIGHTS) as SearchField[]) {
+      const text = doc.fields[field];
+      const matches = splitWords(text).filter(word => matchedTerms.has(word.term));
+      if (matches.length === 0) continue;
+
+      // Trim long fields to a window around the first match
+      let start = 0;
+      let end = text.length;
+      if (!SHORT_FIELDS.includes(field) && text.length > SNIPPET_LENGTH) {
+        start = Math.max(0, matches[0].start - SNIPPET_LENGTH / 4);
+        end = Math.min(text.length, start + SNIPPET_LENGTH);
+        // Avoid cutting words in half at the edges
+        while (start > 0 && /\S/.test(text[start - 1])) start--;
+        while (end < text.length && /\S/.test(text[end])) end++;
+      }
+
+      const prefix = start > 0 ? '…' : '';
+      const suffix = end < text.length ? '…' : '';
+      const offset = prefix.length - start;
+
+      highlights.push({
+        field,
+        snippet: `${prefix}${text.slice(start, end)}${suffix}`,
+        matches: matches
+          .filter(word => word.start >= start && word.end <= end)
+          .map(word => [word.start + offset, word.end + offset] as [number, number]),
+      });
+    }
+
+    return highlights;
+  }
+}
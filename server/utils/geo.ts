@@ -0,0 +1,94 @@
+/**
+ * Geospatial helpers for location-based deal queries
+ */
+
+const EARTH_RADIUS_KM = 6371;
+
+/**
+ * Bounding box in degrees
+ */
+export interface GeoBounds {
+  south: number;
+  west: number;
+  north: number;
+  east: number;
+}
+
+/**
+ * Location filter for deal queries
+ * - lat/lng: reference point used for distance sorting
+ * - radiusKm: only include deals within this distance of lat/lng
+ * - bbox: only include deals inside these bounds (e.g. a map viewport)
+ */
+export interface GeoQuery {
+  lat?: number;
+  lng?: number;
+  radiusKm?: number;
+  bbox?: GeoBounds;
+}
+
+function toRadians(degrees: number): number {
+  return (degrees * Math.PI) / 180;
+}
+
+/**
+ * Great-circle distance between two points in kilometres (haversine formula)
+ */
+export function haversineKm(lat1: number, lng1: number, lat2: number, lng2: number): number {
+  const dLat = toRadians(lat2 - lat1);
+  const dLng = toRadians(lng2 - lng1);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(lat1)) * Math.cos(toRadians(lat2)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(a)));
+}
+
+// Longitude in [-180, 180)
+function wrapLongitude(lng: number): number {
+  return ((((lng + 180) % 360) + 360) % 360) - 180;
+}
+
+/**
+ * Smallest bounding box that contains a circle, used to pre-filter radius queries
+ * Near the antimeridian the box wraps round to the other side, leaving west > east
+ */
+export function boundsForRadius(lat: number, lng: number, radiusKm: number): GeoBounds {
+  const latDelta = (radiusKm / EARTH_RADIUS_KM) * (180 / Math.PI);
+  // Longitude degrees shrink towards the poles; clamp to avoid dividing by zero
+  const lngDelta = latDelta / Math.max(Math.cos(toRadians(lat)), 0.01);
+  const south = Math.max(-90, lat - latDelta);
+  const north = Math.min(90, lat + latDelta);
+
+  // Circles that reach a pole or go all the way round take in every longitude
+  if (south === -90 || north === 90 || lngDelta >= 180) {
+    return { south, north, west: -180, east: 180 };
+  }
+
+  return { south, north, west: wrapLongitude(lng - lngDelta), east: wrapLongitude(lng + lngDelta) };
+}
+
+/**
+ * Check whether a point lies inside a bounding box
+ * Boxes that cross the antimeridian have west > east
+ */
+export function isWithinBounds(lat: number, lng: number, bounds: GeoBounds): boolean {
+  if (lat < bounds.south || lat > bounds.north) return false;
+  return bounds.west <= bounds.east
+    ? lng >= bounds.west && lng <= bounds.east
+    : lng >= bounds.west || lng <= bounds.east;
+}
+
+/**
+ * Parse a "west,south,east,north" bbox query parameter (GeoJSON order)
+ * Returns null when the value is malformed or out of range
+ */
+export function parseBbox(value: string): GeoBounds | null {
+  const parts = value.split(',').map(part => parseFloat(part));
+  if (parts.length !== 4 || parts.some(part => isNaN(part))) return null;
+
+  const [west, south, east, north] = parts;
+  if (south < -90 || north > 90 || south > north) return null;
+  if (west < -180 || west > 180 || east < -180 || east > 180) return null;
+
+  return { south, west, north, east };
+}
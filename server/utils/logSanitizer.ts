@@ -158,7 +158,7 @@ export function maskPiiByFieldName(fieldName: string, value: any, config: LogSan
   const lowerFieldName = fieldName.toLowerCase();
   
   // Check if this is a PII field that needs masking
-  if (config.piiFields.some(pii => lowerFieldName.includes(pii))) {
+  if (config.piiFields.some(pii => lowerFieldName.includes(pii.toLowerCase()))) {
     if (lowerFieldName.includes('email')) {
       return maskEmail(String(value));
     } else if (lowerFieldName.includes('phone') || lowerFieldName.includes('mobile')) {
@@ -167,7 +167,7 @@ export function maskPiiByFieldName(fieldName: string, value: any, config: LogSan
       return maskAddress(String(value));
     } else {
       // For other PII, redact with field type indicator
-      const piiType = config.piiFields.find(pii => lowerFieldName.includes(pii));
+      const piiType = config.piiFields.find(pii => lowerFieldName.includes(pii.toLowerCase()));
       return `[${piiType?.toUpperCase()}_REDACTED]`;
     }
   }
@@ -183,7 +183,7 @@ export function maskPiiByFieldName(fieldName: string, value: any, config: LogSan
  */
 export function shouldRedactField(fieldName: string, config: LogSanitizerConfig = defaultSanitizerConfig): boolean {
   const lowerFieldName = fieldName.toLowerCase();
-  return config.sensitiveFields.some(sensitive => lowerFieldName.includes(sensitive));
+  return config.sensitiveFields.some(sensitive => lowerFieldName.includes(sensitive.toLowerCase()));
 }
 
 /**
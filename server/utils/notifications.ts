@@ -0,0 +1,82 @@
+/**
+ * In-app notification text
+ *
+ * Builds the notifications storage creates when a deal is reviewed, a
+ * business is verified or rejected, or a deal is redeemed (a prompt to rate
+ * it). Links are paths in the app.
+ */
+import type { Business, Deal, DealApproval, DealRedemption, InsertNotification } from '@shared/schema';
+
+export type NotificationType =
+  | 'deal_approved'
+  | 'deal_rejected'
+  | 'business_verified'
+  | 'business_rejected'
+  | 'rating_prompt'
+  | 'deal_expiring';
+
+export type NewNotification = Omit<InsertNotification, 'id' | 'readAt' | 'createdAt'> & { type: NotificationType };
+
+/**
+ * Tell a business owner their deal was approved or rejected
+ * Other statuses don't notify anyone
+ */
+export function dealReviewNotification(approval: DealApproval, deal: Deal & { business: Business }): NewNotification | null {
+  if (approval.status !== 'approved' && approval.status !== 'rejected') return null;
+
+  const approved = approval.status === 'approved';
+  return {
+    userId: deal.business.userId,
+    type: approved ? 'deal_approved' : 'deal_rejected',
+    title: approved ? 'Deal approved' : 'Deal needs changes',
+    body: approved
+      ? `"${deal.title}" was approved`
+      : `"${deal.title}" was not approved${approval.feedback ? `: ${approval.feedback}` : ''}`,
+    url: `/vendor/deals/manage/${deal.id}`,
+    // A review only notifies once, even if the same decision is saved again
+    dedupeKey: `deal_review:${approval.id}:${approval.status}`,
+  };
+}
+
+/**
+ * Tell a business owner their business was verified or rejected
+ */
+export function businessVerificationNotification(business: Business): NewNotification | null {
+  if (business.verificationStatus === 'verified') {
+    return {
+      userId: business.userId,
+      type: 'business_verified',
+      title: 'Business verified',
+      body: `${business.businessName} is verified. You can now create deals.`,
+      url: '/vendor',
+    };
+  }
+
+  if (business.verificationStatus === 'rejected') {
+    return {
+      userId: business.userId,
+      type: 'business_rejected',
+      title: 'Business verification unsuccessful',
+      body: business.verificationFeedback
+        ? `${business.businessName} could not be verified: ${business.verificationFeedback}`
+        : `${business.businessName} could not be verified`,
+      url: '/vendor/profile',
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Ask a customer to rate a deal they redeemed
+ */
+export function ratingPromptNotification(redemption: DealRedemption, deal: Deal & { business: Business }): NewNotification {
+  return {
+    userId: redemption.userId,
+    type: 'rating_prompt',
+    title: `How was ${deal.business.businessName}?`,
+    body: `Rate "${deal.title}" to help others find great deals`,
+    url: '/profile',
+    dedupeKey: `rating_prompt:${redemption.id}`,
+  };
+}
@@ -0,0 +1,135 @@
+/**
+ * Cursor-based pagination for list endpoints
+ *
+ * Lists are sorted on a numeric key with the record id as a tie-breaker, so
+ * the order is total and stable. A cursor encodes the key of the last item on
+ * a page; the next page starts strictly after it, which means inserts and
+ * deletes between requests never cause items to be skipped or repeated.
+ */
+import type { Response } from "express";
+
+export const DEFAULT_PAGE_SIZE = 20;
+export const MAX_PAGE_SIZE = 100;
+
+export const TOTAL_COUNT_HEADER = 'X-Total-Count';
+export const NEXT_CURSOR_HEADER = 'X-Next-Cursor';
+
+/**
+ * How to order a list: a numeric sort value and a direction
+ */
+export interface SortSpec<T> {
+  value: (item: T) => number;
+  direction: 'asc' | 'desc';
+}
+
+interface CursorPayload {
+  sort: string;
+  value: number;
+  id: number;
+}
+
+export interface PageRequest {
+  sort: string;
+  cursor?: string;
+  limit?: number;
+}
+
+export interface Page<T> {
+  items: T[];
+  nextCursor: string | null;
+  totalCount: number;
+}
+
+// Custom error for malformed or mismatched cursors
+export class InvalidCursorError extends Error {
+  constructor(message: string = 'Invalid pagination cursor') {
+    super(message);
+    this.name = 'InvalidCursorError';
+  }
+}
+
+export function encodeCursor(payload: CursorPayload): string {
+  return Buffer.from(JSON.stringify(payload)).toString('base64url');
+}
+
+/**
+ * Decode a cursor, rejecting ones that were issued for a different sort order
+ */
+export function decodeCursor(cursor: string, sort: string): CursorPayload {
+  let payload: CursorPayload;
+  try {
+    payload = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+  } catch {
+    throw new InvalidCursorError();
+  }
+
+  if (
+    !payload ||
+    typeof payload.value !== 'number' ||
+    typeof payload.id !== 'number' ||
+    payload.sort !== sort
+  ) {
+    throw new InvalidCursorError();
+  }
+
+  return payload;
+}
+
+function compareKeys(
+  a: { value: number; id: number },
+  b: { value: number; id: number },
+  direction: 'asc' | 'desc'
+): number {
+  const diff = a.value !== b.value ? a.value - b.value : a.id - b.id;
+  return direction === 'asc' ? diff : -diff;
+}
+
+/**
+ * Sort items by the spec, breaking ties by id
+ */
+export function sortItems<T extends { id: number }>(items: T[], spec: SortSpec<T>): T[] {
+  const keyOf = (item: T) => ({ value: spec.value(item), id: item.id });
+  return [...items].sort((a, b) => compareKeys(keyOf(a), keyOf(b), spec.direction));
+}
+
+/**
+ * Sort items and return the page that follows the cursor
+ */
+export function paginate<T extends { id: number }>(
+  items: T[],
+  spec: SortSpec<T>,
+  request: PageRequest
+): Page<T> {
+  const limit = Math.min(Math.max(request.limit ?? DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+  const keyOf = (item: T) => ({ value: spec.value(item), id: item.id });
+
+  const sorted = sortItems(items, spec);
+
+  let start = 0;
+  if (request.cursor) {
+    const after = decodeCursor(request.cursor, request.sort);
+    start = sorted.findIndex(item => compareKeys(keyOf(item), after, spec.direction) > 0);
+    if (start === -1) start = sorted.length;
+  }
+
+  const pageItems = sorted.slice(start, start + limit);
+  const hasMore = start + limit < sorted.length;
+  const last = pageItems[pageItems.length - 1];
+
+  return {
+    items: pageItems,
+    nextCursor: hasMore && last ? encodeCursor({ sort: request.sort, ...keyOf(last) }) : null,
+    totalCount: items.length,
+  };
+}
+
+/**
+ * Expose the total count and next cursor as response headers so paginated
+ * endpoints keep returning a plain array body
+ */
+export function setPaginationHeaders(res: Response, page: Page<unknown>): void {
+  res.setHeader(TOTAL_COUNT_HEADER, page.totalCount.toString());
+  if (page.nextCursor) {
+    res.setHeader(NEXT_CURSOR_HEADER, page.nextCursor);
+  }
+}
@@ -0,0 +1,101 @@
+/**
+ * Time-based one-time passwords (RFC 6238)
+ *
+ * Codes are HMAC-SHA1 over the number of 30-second steps since the epoch,
+ * truncated to six digits, which is what authenticator apps expect from an
+ * otpauth:// URL with default parameters. Verifying accepts the step before
+ * and after the current one to allow for clock drift between phone and server.
+ */
+import crypto from 'crypto';
+import { TOTP_DIGITS, TOTP_PERIOD_SECONDS, TWO_FACTOR_ISSUER } from '@shared/twoFactor';
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+// Steps either side of now that still verify
+const DRIFT_STEPS = 1;
+
+export function base32Encode(bytes: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+  for (const byte of Array.from(bytes)) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+  return output;
+}
+
+export function base32Decode(encoded: string): Buffer {
+  const clean = encoded.replace(/=+$/, '').replace(/\s/g, '').toUpperCase();
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+  for (const char of clean) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error(`Invalid base32 character: ${char}`);
+    }
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+// 160 bits, the HMAC-SHA1 key size RFC 4226 recommends
+export function generateTotpSecret(): string {
+  return base32Encode(crypto.randomBytes(20));
+}
+
+export function totpStep(at: number = Date.now()): number {
+  return Math.floor(at / 1000 / TOTP_PERIOD_SECONDS);
+}
+
+export function totpCode(secret: string, step: number): string {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(step));
+  const hmac = crypto.createHmac('sha1', base32Decode(secret)).update(counter).digest();
+
+  // Dynamic truncation
+  const offset = hmac[hmac.length - 1] & 0xf;
+  const binary = ((hmac[offset] & 0x7f) << 24) | (hmac[offset + 1] << 16) | (hmac[offset + 2] << 8) | hmac[offset + 3];
+  return String(binary % 10 ** TOTP_DIGITS).padStart(TOTP_DIGITS, '0');
+}
+
+/**
+ * The time step the code belongs to, or null if it matches none near now
+ */
+export function verifyTotp(secret: string, code: string, at: number = Date.now()): number | null {
+  const candidate = Buffer.from(code.replace(/\s/g, ''));
+  const current = totpStep(at);
+  for (let step = current - DRIFT_STEPS; step <= current + DRIFT_STEPS; step++) {
+    const expected = Buffer.from(totpCode(secret, step));
+    // Compare byte lengths: a code with multi-byte characters can match in string length only
+    if (candidate.length === expected.length && crypto.timingSafeEqual(candidate, expected)) {
+      return step;
+    }
+  }
+  return null;
+}
+
+export function totpProvisioningUrl(secret: string, accountName: string): string {
+  const label = encodeURIComponent(`${TWO_FACTOR_ISSUER}:${accountName}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer: TWO_FACTOR_ISSUER,
+    algorithm: 'SHA1',
+    digits: String(TOTP_DIGITS),
+    period: String(TOTP_PERIOD_SECONDS),
+  });
+  return `otpauth://totp/${label}?${params.toString()}`;
+}
@@ -0,0 +1,48 @@
+/**
+ * Signed one-click unsubscribe tokens
+ *
+ * A token names a user and a mailing list and is signed with HMAC-SHA256, so
+ * unsubscribe links work without signing in but can't be forged for other
+ * users. Tokens don't expire: an unsubscribe link in an old email must keep
+ * working.
+ */
+import crypto from 'crypto';
+
+export type UnsubscribeList = 'weekly_digest';
+
+const UNSUBSCRIBE_LISTS: UnsubscribeList[] = ['weekly_digest'];
+
+export interface UnsubscribeTokenPayload {
+  userId: number;
+  list: UnsubscribeList;
+}
+
+function sign(payload: string, secret: string): string {
+  return crypto.createHmac('sha256', secret).update(`unsubscribe:${payload}`).digest('base64url');
+}
+
+export function createUnsubscribeToken(userId: number, list: UnsubscribeList, secret: string): string {
+  const payload = Buffer.from(`${userId}:${list}`).toString('base64url');
+  return `${payload}.${sign(payload, secret)}`;
+}
+
+/**
+ * The user and list a token unsubscribes, or null when it isn't valid
+ */
+export function verifyUnsubscribeToken(token: string, secret: string): UnsubscribeTokenPayload | null {
+  const [payload, signature, ...rest] = token.split('.');
+  if (!payload || !signature || rest.length > 0) return null;
+
+  const expected = Buffer.from(sign(payload, secret));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  const [userId, list] = Buffer.from(payload, 'base64url').toString().split(':');
+  if (!/^\d+$/.test(userId) || !UNSUBSCRIBE_LISTS.includes(list as UnsubscribeList)) {
+    return null;
+  }
+
+  return { userId: parseInt(userId, 10), list: list as UnsubscribeList };
+}
@@ -0,0 +1,46 @@
+/**
+ * Browser and operating system names from a User-Agent header
+ *
+ * Only good enough to tell a user's devices apart on the sessions list, e.g.
+ * "Chrome on Windows" or "Safari on iOS". Order matters: most browsers also
+ * claim to be Safari or Chrome, so the more specific names are checked first.
+ */
+import { deviceName } from '@shared/sessions';
+
+export interface DeviceDescription {
+  browser: string;
+  os: string;
+}
+
+const BROWSERS: [RegExp, string][] = [
+  [/Edg(e|A|iOS)?\//, 'Edge'],
+  [/OPR\/|Opera/, 'Opera'],
+  [/SamsungBrowser\//, 'Samsung Internet'],
+  [/Firefox\/|FxiOS\//, 'Firefox'],
+  [/Chrome\/|CriOS\//, 'Chrome'],
+  [/Safari\//, 'Safari'],
+];
+
+const OPERATING_SYSTEMS: [RegExp, string][] = [
+  [/iPhone|iPad|iPod/, 'iOS'],
+  [/Android/, 'Android'],
+  [/CrOS/, 'ChromeOS'],
+  [/Windows/, 'Windows'],
+  [/Mac OS X|Macintosh/, 'macOS'],
+  [/Linux/, 'Linux'],
+];
+
+function match(userAgent: string, patterns: [RegExp, string][]): string {
+  return patterns.find(([pattern]) => pattern.test(userAgent))?.[1] ?? 'Unknown';
+}
+
+export function describeUserAgent(userAgent: string | null | undefined): DeviceDescription {
+  if (!userAgent) {
+    return { browser: 'Unknown', os: 'Unknown' };
+  }
+  return { browser: match(userAgent, BROWSERS), os: match(userAgent, OPERATING_SYSTEMS) };
+}
+
+export function deviceLabel(userAgent: string | null | undefined): string {
+  return deviceName(describeUserAgent(userAgent));
+}
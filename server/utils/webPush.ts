@@ -0,0 +1,259 @@
+/**
+ * Web Push protocol helpers
+ *
+ * Encrypts payloads for a browser push subscription (RFC 8291, aes128gcm
+ * content encoding) and signs requests to the push service with VAPID
+ * (RFC 8292). Only Node's crypto and fetch are used, so any endpoint that
+ * speaks the protocol works, including a local mock push service in tests.
+ */
+import crypto from "crypto";
+
+// Push services keep undelivered messages for this long by default (seconds)
+const DEFAULT_TTL_SECONDS = 24 * 60 * 60;
+// VAPID tokens may be valid for at most 24 hours; stay well inside that
+const VAPID_TOKEN_LIFETIME_SECONDS = 12 * 60 * 60;
+const RECORD_SIZE = 4096;
+// Browsers subscribe with an uncompressed P-256 point and a 16-byte auth secret (RFC 8291)
+const P256_PUBLIC_KEY_BYTES = 65;
+const AUTH_SECRET_BYTES = 16;
+// Hosts of the push services browsers hand out endpoints for (Chrome and
+// other Chromium browsers, Firefox, Safari, Edge)
+const KNOWN_PUSH_SERVICE_HOSTS = [
+  "fcm.googleapis.com",
+  "updates.push.services.mozilla.com",
+  ".push.apple.com",
+  ".notify.windows.com",
+];
+
+export interface VapidDetails {
+  // "mailto:" or "https:" contact for the push service operator
+  subject: string;
+  publicKey: string;
+  privateKey: string;
+}
+
+export interface PushSubscriptionKeys {
+  endpoint: string;
+  p256dh: string;
+  auth: string;
+}
+
+export interface PushPayload {
+  title: string;
+  body: string;
+  // App path to open when the notification is tapped
+  url?: string;
+  // Notifications with the same tag replace each other
+  tag?: string;
+}
+
+export interface SendWebPushOptions {
+  ttlSeconds?: number;
+  urgency?: "very-low" | "low" | "normal" | "high";
+}
+
+export interface WebPushBatchResult {
+  sent: number;
+  removed: number;
+  failed: number;
+}
+
+function base64UrlEncode(data: Buffer | string): string {
+  return Buffer.from(data).toString("base64url");
+}
+
+function base64UrlDecode(data: string): Buffer {
+  return Buffer.from(data, "base64url");
+}
+
+function hkdf(ikm: Buffer, salt: Buffer, info: Buffer, length: number): Buffer {
+  return Buffer.from(crypto.hkdfSync("sha256", ikm, salt, info, length));
+}
+
+/**
+ * New VAPID key pair, as base64url strings for VAPID_PUBLIC_KEY and VAPID_PRIVATE_KEY
+ */
+export function generateVapidKeys(): { publicKey: string; privateKey: string } {
+  const ecdh = crypto.createECDH("prime256v1");
+  ecdh.generateKeys();
+
+  return {
+    publicKey: base64UrlEncode(ecdh.getPublicKey()),
+    privateKey: base64UrlEncode(ecdh.getPrivateKey()),
+  };
+}
+
+/**
+ * Whether a subscription's p256dh key is a point on the P-256 curve
+ */
+export function isP256PublicKey(value: string): boolean {
+  if (!/^[A-Za-z0-9_-]+$/.test(value)) return false;
+
+  const key = base64UrlDecode(value);
+  if (key.length !== P256_PUBLIC_KEY_BYTES || key[0] !== 0x04) return false;
+
+  try {
+    crypto.createPublicKey({
+      key: { kty: "EC", crv: "P-256", x: base64UrlEncode(key.subarray(1, 33)), y: base64UrlEncode(key.subarray(33)) },
+      format: "jwk",
+    });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Whether a subscription's auth secret is 16 bytes of base64url
+ */
+export function isPushAuthSecret(value: string): boolean {
+  return /^[A-Za-z0-9_-]+$/.test(value) && base64UrlDecode(value).length === AUTH_SECRET_BYTES;
+}
+
+/**
+ * Whether an endpoint is an HTTPS URL on one of the browsers' push services,
+ * so subscribing can't point the server's requests anywhere else
+ */
+export function isKnownPushServiceEndpoint(endpoint: string): boolean {
+  let url: URL;
+  try {
+    url = new URL(endpoint);
+  } catch {
+    return false;
+  }
+  if (url.protocol !== "https:" || url.port !== "") return false;
+
+  const host = url.hostname.toLowerCase();
+  return KNOWN_PUSH_SERVICE_HOSTS.some(known => known.startsWith(".") ? host.endsWith(known) : host === known);
+}
+
+/**
+ * Encrypt a payload for a subscription as a single aes128gcm record
+ */
+export function encryptPushPayload(payload: string, subscription: Pick<PushSubscriptionKeys, "p256dh" | "auth">): Buffer {
+  const userAgentPublicKey = base64UrlDecode(subscription.p256dh);
+  const authSecret = base64UrlDecode(subscription.auth);
+
+  // A fresh key pair and salt for every message
+  const serverKeys = crypto.createECDH("prime256v1");
+  serverKeys.generateKeys();
+  const serverPublicKey = serverKeys.getPublicKey();
+  const salt = crypto.randomBytes(16);
+
+  const sharedSecret = serverKeys.computeSecret(userAgentPublicKey);
+  const keyInfo = Buffer.concat([Buffer.from("WebPush: info\0"), userAgentPublicKey, serverPublicKey]);
+  const ikm = hkdf(sharedSecret, authSecret, keyInfo, 32);
+
+  const contentKey = hkdf(ikm, salt, Buffer.from("Content-Encoding: aes128gcm\0"), 16);
+  const nonce = hkdf(ikm, salt, Buffer.from("Content-Encoding: nonce\0"), 12);
+
+  const cipher = crypto.createCipheriv("aes-128-gcm", contentKey, nonce);
+  // 0x02 marks the last (and only) record
+  const plaintext = Buffer.concat([Buffer.from(payload), Buffer.from([2])]);
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final(), cipher.getAuthTag()]);
+
+  const header = Buffer.alloc(21);
+  salt.copy(header, 0);
+  header.writeUInt32BE(RECORD_SIZE, 16);
+  header.writeUInt8(serverPublicKey.length, 20);
+
+  return Buffer.concat([header, serverPublicKey, ciphertext]);
+}
+
+/**
+ * Authorization header value identifying this server to the push service
+ */
+export function createVapidAuthorization(endpoint: string, vapid: VapidDetails, now: Date = new Date()): string {
+  const publicKey = base64UrlDecode(vapid.publicKey);
+  // Keys with leading zero bytes may be stored shorter than the 32 bytes JWK expects
+  const d = base64UrlDecode(vapid.privateKey);
+  const privateKey = crypto.createPrivateKey({
+    key: {
+      kty: "EC",
+      crv: "P-256",
+      d: base64UrlEncode(Buffer.concat([Buffer.alloc(32 - d.length), d])),
+      x: base64UrlEncode(publicKey.subarray(1, 33)),
+      y: base64UrlEncode(publicKey.subarray(33, 65)),
+    },
+    format: "jwk",
+  });
+
+  const header = base64UrlEncode(JSON.stringify({ typ: "JWT", alg: "ES256" }));
+  const claims = base64UrlEncode(JSON.stringify({
+    aud: new URL(endpoint).origin,
+    exp: Math.floor(now.getTime() / 1000) + VAPID_TOKEN_LIFETIME_SECONDS,
+    sub: vapid.subject,
+  }));
+  const signature = crypto.sign("sha256", Buffer.from(`${header}.${claims}`), {
+    key: privateKey,
+    dsaEncoding: "ieee-p1363",
+  });
+
+  return `vapid t=${header}.${claims}.${base64UrlEncode(signature)}, k=${vapid.publicKey}`;
+}
+
+/**
+ * Send one push message and return the push service's status code
+ */
+export async function sendWebPushNotification(
+  subscription: PushSubscriptionKeys,
+  payload: PushPayload,
+  vapid: VapidDetails,
+  options: SendWebPushOptions = {}
+): Promise<number> {
+  const response = await fetch(subscription.endpoint, {
+    method: "POST",
+    headers: {
+      "Authorization": createVapidAuthorization(subscription.endpoint, vapid),
+      "Content-Encoding": "aes128gcm",
+      "Content-Type": "application/octet-stream",
+      "TTL": String(options.ttlSeconds ?? DEFAULT_TTL_SECONDS),
+      "Urgency": options.urgency ?? "normal",
+    },
+    body: encryptPushPayload(JSON.stringify(payload), subscription),
+  });
+
+  return response.status;
+}
+
+/**
+ * Whether the push service says a subscription no longer exists
+ */
+export function isSubscriptionGone(statusCode: number): boolean {
+  return statusCode === 404 || statusCode === 410;
+}
+
+/**
+ * Send a message to every subscription, removing the ones that have expired
+ * or been revoked by the browser
+ */
+export async function sendToSubscriptions(
+  subscriptions: PushSubscriptionKeys[],
+  payload: PushPayload,
+  vapid: VapidDetails,
+  removeSubscription: (endpoint: string) => Promise<unknown>,
+  options: SendWebPushOptions = {}
+): Promise<WebPushBatchResult> {
+  const result: WebPushBatchResult = { sent: 0, removed: 0, failed: 0 };
+
+  for (const subscription of subscriptions) {
+    try {
+      const statusCode = await sendWebPushNotification(subscription, payload, vapid, options);
+
+      if (statusCode >= 200 && statusCode < 300) {
+        result.sent++;
+      } else if (isSubscriptionGone(statusCode)) {
+        await removeSubscription(subscription.endpoint);
+        result.removed++;
+      } else {
+        console.error(`WebPush: Push service responded ${statusCode} for ${new URL(subscription.endpoint).origin}`);
+        result.failed++;
+      }
+    } catch (error) {
+      console.error("WebPush: Error sending push message:", error);
+      result.failed++;
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,275 @@
+/**
+ * WebAuthn verification (https://www.w3.org/TR/webauthn-3/)
+ *
+ * Checks what the browser hands back from navigator.credentials.create() and
+ * .get(): the client data names the challenge we issued and our origin, the
+ * authenticator data is for our relying party ID with the user present and
+ * verified, and (when signing in) the signature over both is valid for the
+ * public key stored at registration. We ask for no attestation, so the
+ * attestation statement is not checked; which device made the key doesn't
+ * matter to us, only that the same key signs later.
+ */
+import crypto from 'crypto';
+import type { PasskeyAuthenticationResponse, PasskeyRegistrationResponse } from '@shared/passkeys';
+import { PASSKEY_ALGORITHMS } from '@shared/passkeys';
+import { decodeCbor, decodeCborFirst, type CborValue } from './cbor';
+
+// Authenticator data flags
+const FLAG_USER_PRESENT = 0x01;
+const FLAG_USER_VERIFIED = 0x04;
+const FLAG_BACKED_UP = 0x10;
+const FLAG_ATTESTED_CREDENTIAL = 0x40;
+
+// COSE key parameters (RFC 9053)
+const COSE_KTY = 1;
+const COSE_ALG = 3;
+const COSE_CRV = -1;
+const COSE_X = -2;
+const COSE_Y = -3;
+const COSE_RSA_N = -1;
+const COSE_RSA_E = -2;
+
+export class WebAuthnError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WebAuthnError';
+  }
+}
+
+export interface ExpectedCeremony {
+  challenge: string;
+  origin: string;
+  rpId: string;
+}
+
+export interface ClientData {
+  type: string;
+  challenge: string;
+  origin: string;
+  crossOrigin?: boolean;
+}
+
+export interface AuthenticatorData {
+  rpIdHash: Buffer;
+  flags: number;
+  signCount: number;
+  credential?: {
+    id: Buffer;
+    publicKey: Map<CborValue, CborValue>;
+  };
+}
+
+export interface VerifiedRegistration {
+  credentialId: string;
+  publicKey: string;
+  algorithm: number;
+  signCount: number;
+  backedUp: boolean;
+  transports: string[];
+}
+
+export interface StoredCredential {
+  publicKey: string;
+  algorithm: number;
+  signCount: number;
+}
+
+export interface VerifiedAuthentication {
+  signCount: number;
+  backedUp: boolean;
+}
+
+export function toBase64Url(bytes: Buffer): string {
+  return bytes.toString('base64url');
+}
+
+export function fromBase64Url(value: string): Buffer {
+  return Buffer.from(value, 'base64url');
+}
+
+export function generateChallenge(): string {
+  return toBase64Url(crypto.randomBytes(32));
+}
+
+export function readClientData(clientDataJSON: string): ClientData {
+  try {
+    const parsed = JSON.parse(fromBase64Url(clientDataJSON).toString('utf8'));
+    if (typeof parsed?.type !== 'string' || typeof parsed?.challenge !== 'string' || typeof parsed?.origin !== 'string') {
+      throw new Error('missing fields');
+    }
+    return parsed;
+  } catch {
+    throw new WebAuthnError('Malformed client data');
+  }
+}
+
+export function parseAuthenticatorData(bytes: Buffer): AuthenticatorData {
+  if (bytes.length < 37) {
+    throw new WebAuthnError('Authenticator data is too short');
+  }
+
+  const data: AuthenticatorData = {
+    rpIdHash: bytes.subarray(0, 32),
+    flags: bytes[32],
+    signCount: bytes.readUInt32BE(33),
+  };
+
+  if (data.flags & FLAG_ATTESTED_CREDENTIAL) {
+    // 16-byte AAGUID, then the credential ID with a 2-byte length, then its COSE public key
+    if (bytes.length < 55) {
+      throw new WebAuthnError('Attested credential data is too short');
+    }
+    const idLength = bytes.readUInt16BE(53);
+    const id = bytes.subarray(55, 55 + idLength);
+    if (id.length !== idLength) {
+      throw new WebAuthnError('Attested credential data is too short');
+    }
+    const { value } = decodeCborFirst(bytes.subarray(55 + idLength));
+    if (!(value instanceof Map)) {
+      throw new WebAuthnError('Credential public key is not a COSE key');
+    }
+    data.credential = { id, publicKey: value };
+  }
+
+  return data;
+}
+
+function coseBytes(key: Map<CborValue, CborValue>, label: number): string {
+  const value = key.get(label);
+  if (!Buffer.isBuffer(value)) {
+    throw new WebAuthnError('Incomplete COSE key');
+  }
+  return toBase64Url(value);
+}
+
+/**
+ * A COSE public key as SPKI DER, plus its algorithm; only the algorithms we offer are accepted
+ */
+export function coseToPublicKey(key: Map<CborValue, CborValue>): { publicKey: Buffer; algorithm: number } {
+  const algorithm = key.get(COSE_ALG);
+  if (typeof algorithm !== 'number' || !(PASSKEY_ALGORITHMS as readonly number[]).includes(algorithm)) {
+    throw new WebAuthnError('Unsupported passkey algorithm');
+  }
+
+  let jwk: crypto.JsonWebKey;
+  const kty = key.get(COSE_KTY);
+  if (algorithm === -7 && kty === 2 && key.get(COSE_CRV) === 1) {
+    jwk = { kty: 'EC', crv: 'P-256', x: coseBytes(key, COSE_X), y: coseBytes(key, COSE_Y) };
+  } else if (algorithm === -8 && kty === 1 && key.get(COSE_CRV) === 6) {
+    jwk = { kty: 'OKP', crv: 'Ed25519', x: coseBytes(key, COSE_X) };
+  } else if (algorithm === -257 && kty === 3) {
+    jwk = { kty: 'RSA', n: coseBytes(key, COSE_RSA_N), e: coseBytes(key, COSE_RSA_E) };
+  } else {
+    throw new WebAuthnError('COSE key does not match its algorithm');
+  }
+
+  try {
+    const publicKey = crypto.createPublicKey({ key: jwk, format: 'jwk' }).export({ type: 'spki', format: 'der' });
+    return { publicKey, algorithm };
+  } catch {
+    throw new WebAuthnError('Invalid credential public key');
+  }
+}
+
+function checkClientData(clientData: ClientData, type: string, expected: ExpectedCeremony) {
+  if (clientData.type !== type) {
+    throw new WebAuthnError('Wrong WebAuthn ceremony');
+  }
+  if (clientData.challenge !== expected.challenge) {
+    throw new WebAuthnError('Challenge does not match');
+  }
+  if (clientData.origin !== expected.origin || clientData.crossOrigin) {
+    throw new WebAuthnError(`Unexpected origin ${clientData.origin}`);
+  }
+}
+
+function checkAuthenticatorData(data: AuthenticatorData, expected: ExpectedCeremony) {
+  const rpIdHash = crypto.createHash('sha256').update(expected.rpId).digest();
+  if (!crypto.timingSafeEqual(data.rpIdHash, rpIdHash)) {
+    throw new WebAuthnError('Passkey is for a different site');
+  }
+  if (!(data.flags & FLAG_USER_PRESENT) || !(data.flags & FLAG_USER_VERIFIED)) {
+    throw new WebAuthnError('The device did not verify the user');
+  }
+}
+
+/**
+ * Check a navigator.credentials.create() response and return the credential to store
+ */
+export function verifyRegistrationResponse(
+  response: PasskeyRegistrationResponse,
+  expected: ExpectedCeremony
+): VerifiedRegistration {
+  checkClientData(readClientData(response.response.clientDataJSON), 'webauthn.create', expected);
+
+  let attestation: CborValue;
+  try {
+    attestation = decodeCbor(fromBase64Url(response.response.attestationObject));
+  } catch {
+    throw new WebAuthnError('Malformed attestation object');
+  }
+  const authData = attestation instanceof Map ? attestation.get('authData') : undefined;
+  if (!Buffer.isBuffer(authData)) {
+    throw new WebAuthnError('Malformed attestation object');
+  }
+
+  const data = parseAuthenticatorData(authData);
+  checkAuthenticatorData(data, expected);
+  if (!data.credential) {
+    throw new WebAuthnError('No credential in the attestation');
+  }
+
+  const credentialId = toBase64Url(data.credential.id);
+  if (credentialId !== response.id) {
+    throw new WebAuthnError('Credential ID does not match');
+  }
+
+  const { publicKey, algorithm } = coseToPublicKey(data.credential.publicKey);
+
+  return {
+    credentialId,
+    publicKey: toBase64Url(publicKey),
+    algorithm,
+    signCount: data.signCount,
+    backedUp: !!(data.flags & FLAG_BACKED_UP),
+    transports: (response.response.transports ?? []).filter(transport => typeof transport === 'string'),
+  };
+}
+
+/**
+ * Check a navigator.credentials.get() response against the stored credential
+ * A signature counter that doesn't go up means the key was copied to another device
+ */
+export function verifyAuthenticationResponse(
+  response: PasskeyAuthenticationResponse,
+  credential: StoredCredential,
+  expected: ExpectedCeremony
+): VerifiedAuthentication {
+  checkClientData(readClientData(response.response.clientDataJSON), 'webauthn.get', expected);
+
+  const authData = fromBase64Url(response.response.authenticatorData);
+  const data = parseAuthenticatorData(authData);
+  checkAuthenticatorData(data, expected);
+
+  const clientDataHash = crypto.createHash('sha256').update(fromBase64Url(response.response.clientDataJSON)).digest();
+  const signed = Buffer.concat([authData, clientDataHash]);
+  const key = crypto.createPublicKey({ key: fromBase64Url(credential.publicKey), format: 'der', type: 'spki' });
+  const digest = credential.algorithm === -8 ? null : 'sha256';
+
+  let valid = false;
+  try {
+    valid = crypto.verify(digest, signed, key, fromBase64Url(response.response.signature));
+  } catch {
+    valid = false;
+  }
+  if (!valid) {
+    throw new WebAuthnError('Invalid passkey signature');
+  }
+
+  // Synced passkeys always report 0
+  if ((data.signCount > 0 || credential.signCount > 0) && data.signCount <= credential.signCount) {
+    throw new WebAuthnError('Passkey signature counter went backwards');
+  }
+
+  return { signCount: data.signCount, backedUp: !!(data.flags & FLAG_BACKED_UP) };
+}
@@ -0,0 +1,27 @@
+/**
+ * Admin audit log
+ *
+ * Every change an admin makes (user, business and deal management, moderation
+ * decisions, bulk actions and auth reconcile fixes) is appended to the audit
+ * log with who made it, from where, and the changed fields before and after.
+ * Values go through the log sanitizer first, so passwords and tokens are
+ * redacted and PII is masked. Entries are never updated or deleted; each one
+ * carries a hash of its contents and the previous entry's hash, so editing or
+ * removing an entry breaks the chain from that point on.
+ */
+
+export const ADMIN_AUDIT_TARGET_TYPES = ['deal', 'deal_approval', 'business', 'user', 'auth_user'] as const;
+
+export type AdminAuditTargetType = typeof ADMIN_AUDIT_TARGET_TYPES[number];
+
+// Entries per page in the viewer, and the most one CSV export may contain
+export const ADMIN_AUDIT_PAGE_SIZE = 50;
+export const MAX_ADMIN_AUDIT_EXPORT_ROWS = 10000;
+
+// Result of checking the whole chain; brokenAt is the first entry that doesn't match
+export interface AdminAuditChainReport {
+  valid: boolean;
+  checked: number;
+  brokenAt: number | null;
+  headHash: string | null;
+}
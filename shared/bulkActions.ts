@@ -0,0 +1,47 @@
+/**
+ * Bulk admin actions on deals, businesses and users
+ *
+ * Admins select records on the dashboard and apply one action to all of them.
+ * Each request runs in a single transaction, but an item that can't take the
+ * action (e.g. it was deleted meanwhile) fails on its own without undoing the
+ * others; the response says what happened to every item. Every change made is
+ * written to the admin audit log, tagged with the batch it belonged to.
+ */
+
+export const BULK_DEAL_ACTIONS = ['approve', 'reject', 'feature', 'unfeature', 'expire', 'delete'] as const;
+
+export type BulkDealAction = typeof BULK_DEAL_ACTIONS[number];
+
+export const BULK_BUSINESS_ACTIONS = ['approve', 'reject', 'delete'] as const;
+
+export type BulkBusinessAction = typeof BULK_BUSINESS_ACTIONS[number];
+
+// Users are activated and deactivated through profiles.is_live
+export const BULK_USER_ACTIONS = ['activate', 'deactivate', 'delete'] as const;
+
+export type BulkUserAction = typeof BULK_USER_ACTIONS[number];
+
+export type BulkTargetType = 'deal' | 'business' | 'user';
+
+// Most records one request may act on
+export const MAX_BULK_ITEMS = 100;
+
+// Deal and business IDs are numbers; users are identified by their profile UUID
+export interface BulkItemResult<Id = number> {
+  id: Id;
+  success: boolean;
+  error?: string;
+}
+
+export interface BulkActionSummary<Id = number> {
+  action: string;
+  batchId: string;
+  results: BulkItemResult<Id>[];
+  succeeded: number;
+  failed: number;
+}
+
+export function summarizeBulkResults<Id>(action: string, batchId: string, results: BulkItemResult<Id>[]): BulkActionSummary<Id> {
+  const succeeded = results.filter(result => result.success).length;
+  return { action, batchId, results, succeeded, failed: results.length - succeeded };
+}
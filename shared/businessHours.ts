@@ -0,0 +1,92 @@
+/**
+ * Whether a business is open, from its `business_hours` rows
+ *
+ * Each row gives the opening and closing time for one day of the week. A
+ * closing time at or before the opening time means the business stays open
+ * past midnight (e.g. 22:00-02:00). Days marked closed, or without a row, are
+ * closed all day. Times are read in the given timezone, or the local timezone
+ * of the caller when none is given.
+ */
+import type { Business, BusinessHours, DealSchedule } from './schema';
+import { getCurrentWindow, getNextWindow, formatTimeOfDay, DAY_NAMES, type WeeklySchedule } from './dealSchedule';
+
+export type OpeningHours = Pick<BusinessHours, 'dayOfWeek' | 'openTime' | 'closeTime' | 'isClosed'>;
+
+export interface OpenStatus {
+  isOpen: boolean;
+  // Closing time of the current opening, when open
+  closesAt: string | null;
+  // Next opening, when closed
+  opensAt: { day: number; time: string; daysAway: number } | null;
+}
+
+/**
+ * Opening hours as a weekly schedule; "00:00"-"00:00" means open all day
+ */
+function toWeeklySchedule(hours: OpeningHours[], timeZone?: string): WeeklySchedule {
+  const windows = hours
+    .filter(row => !row.isClosed && row.openTime && row.closeTime)
+    .map(row => ({
+      day: row.dayOfWeek,
+      start: row.openTime!,
+      end: row.openTime === row.closeTime && row.openTime === '00:00' ? '24:00' : row.closeTime!,
+    }))
+    // Equal open and close times otherwise describe an empty opening
+    .filter(window => window.start !== window.end);
+
+  return { timezone: timeZone, windows, blackoutDates: [] };
+}
+
+/**
+ * Whether a business with these opening hours is open at an instant
+ */
+export function isOpenAt(hours: OpeningHours[], at: Date = new Date(), timeZone?: string): boolean {
+  return getCurrentWindow(toWeeklySchedule(hours, timeZone), at) !== null;
+}
+
+/**
+ * Whether a business is open at an instant, and when that changes
+ * Returns null when the business hasn't set any hours, so callers can tell
+ * "closed" apart from "unknown"
+ */
+export function getOpenStatus(hours: OpeningHours[], at: Date = new Date(), timeZone?: string): OpenStatus | null {
+  if (hours.length === 0) return null;
+
+  const schedule = toWeeklySchedule(hours, timeZone);
+  const current = getCurrentWindow(schedule, at);
+  if (current) {
+    return { isOpen: true, closesAt: current.end, opensAt: null };
+  }
+
+  const next = getNextWindow(schedule, at);
+  return {
+    isOpen: false,
+    closesAt: null,
+    opensAt: next ? { day: next.day, time: next.start, daysAway: next.daysAway } : null,
+  };
+}
+
+/**
+ * The timezone a deal's business keeps its hours in: the business's own, or
+ * else the one the deal's redemption schedule names
+ */
+export function openingHoursTimeZone(deal: { schedule?: DealSchedule | null; business: Pick<Business, 'timezone'> }): string | undefined {
+  return deal.business.timezone ?? deal.schedule?.timezone ?? undefined;
+}
+
+/**
+ * Short label for an open status, e.g. "Open until 9pm" or "Closed · opens Mon 9am"
+ */
+export function describeOpenStatus(status: OpenStatus): string {
+  if (status.isOpen) {
+    return `Open until ${formatTimeOfDay(status.closesAt!)}`;
+  }
+  if (!status.opensAt) {
+    return 'Closed';
+  }
+
+  const time = formatTimeOfDay(status.opensAt.time);
+  return status.opensAt.daysAway === 0
+    ? `Closed · opens ${time}`
+    : `Closed · opens ${DAY_NAMES[status.opensAt.day].substring(0, 3)} ${time}`;
+}
@@ -0,0 +1,58 @@
+/**
+ * Business membership roles
+ *
+ * A business's owner is the account in businesses.userId; managers and staff
+ * are invited by email and share the vendor dashboard. Staff only verify
+ * redemptions, managers also run deals, and owners manage the business
+ * profile and its team.
+ */
+
+export const BUSINESS_ROLES = ['owner', 'manager', 'staff'] as const;
+
+export type BusinessRole = typeof BUSINESS_ROLES[number];
+
+// There is one owner, so invitations are for the other roles; ownership is transferred instead
+export const INVITABLE_BUSINESS_ROLES = ['manager', 'staff'] as const;
+
+export type InvitableBusinessRole = typeof INVITABLE_BUSINESS_ROLES[number];
+
+export const BUSINESS_PERMISSIONS = [
+  'redemptions.verify',
+  // Create, edit and delete the business's deals
+  'deals.manage',
+  // Business profile and opening hours
+  'business.manage',
+  // Invite, remove and change the role of members; transfer ownership
+  'members.manage',
+] as const;
+
+export type BusinessPermission = typeof BUSINESS_PERMISSIONS[number];
+
+export const BUSINESS_ROLE_PERMISSIONS: Record<BusinessRole, readonly BusinessPermission[]> = {
+  owner: BUSINESS_PERMISSIONS,
+  manager: ['redemptions.verify', 'deals.manage'],
+  staff: ['redemptions.verify'],
+};
+
+export const BUSINESS_ROLE_LABELS: Record<BusinessRole, string> = {
+  owner: 'Owner',
+  manager: 'Manager',
+  staff: 'Staff',
+};
+
+export const BUSINESS_INVITATION_EXPIRY_DAYS = 7;
+
+// A member of a business's team as listed in the vendor dashboard
+export interface BusinessTeamMember {
+  userId: number;
+  role: BusinessRole;
+  firstName: string;
+  lastName: string;
+  email: string;
+  // Null for the owner, who created the business rather than joining it
+  joinedAt: Date | null;
+}
+
+export function hasBusinessPermission(role: BusinessRole | null | undefined, permission: BusinessPermission): boolean {
+  return !!role && BUSINESS_ROLE_PERMISSIONS[role].includes(permission);
+}
@@ -0,0 +1,135 @@
+/**
+ * Deal revisions for admin review
+ *
+ * Every submission of a deal for review stores a snapshot of the fields an
+ * admin reviews. Comparing each snapshot with the one before it gives the
+ * field-level changes a vendor made between review rounds. Admins can leave
+ * comments on individual fields, which vendors see next to those fields when
+ * they revise the deal.
+ */
+import type { Deal, DealApproval, DealReviewComment } from './schema';
+import { DAY_NAMES } from './dealSchedule';
+
+export const DEAL_REVISION_FIELDS = [
+  'title',
+  'description',
+  'category',
+  'dealType',
+  'discount',
+  'imageUrl',
+  'startDate',
+  'endDate',
+  'terms',
+  'redemptionInstructions',
+  'maxRedemptionsPerUser',
+  'totalRedemptionsLimit',
+  'isRecurring',
+  'recurringDays',
+  'schedule',
+] as const;
+
+export type DealRevisionField = typeof DEAL_REVISION_FIELDS[number];
+
+export const DEAL_REVISION_FIELD_LABELS: Record<DealRevisionField, string> = {
+  title: 'Title',
+  description: 'Description',
+  category: 'Category',
+  dealType: 'Deal type',
+  discount: 'Discount',
+  imageUrl: 'Image',
+  startDate: 'Start date',
+  endDate: 'End date',
+  terms: 'Terms',
+  redemptionInstructions: 'Redemption instructions',
+  maxRedemptionsPerUser: 'Redemptions per customer',
+  totalRedemptionsLimit: 'Total redemptions',
+  isRecurring: 'Recurring',
+  recurringDays: 'Recurring days',
+  schedule: 'Schedule',
+};
+
+const DATE_FIELDS: DealRevisionField[] = ['startDate', 'endDate'];
+
+// JSON-safe: dates are ISO strings, so snapshots compare the same after a round trip through the database
+export type DealSnapshot = Record<DealRevisionField, unknown>;
+
+export interface DealFieldChange {
+  field: DealRevisionField;
+  label: string;
+  before: unknown;
+  after: unknown;
+}
+
+export type DealRevision = DealApproval & {
+  // 1 for the first submission
+  revision: number;
+  // Changes since the previous submission; empty for the first one, or when either has no snapshot
+  changes: DealFieldChange[];
+  comments: DealReviewComment[];
+};
+
+export function isDealRevisionField(field: string): field is DealRevisionField {
+  return (DEAL_REVISION_FIELDS as readonly string[]).includes(field);
+}
+
+export function createDealSnapshot(deal: Pick<Deal, DealRevisionField>): DealSnapshot {
+  const snapshot = {} as DealSnapshot;
+
+  for (const field of DEAL_REVISION_FIELDS) {
+    const value = deal[field];
+    snapshot[field] = DATE_FIELDS.includes(field) && value != null
+      ? new Date(value as Date | string).toISOString()
+      : value ?? null;
+  }
+
+  return snapshot;
+}
+
+/**
+ * Fields that differ between two snapshots, in form order
+ */
+export function diffDealSnapshots(before: DealSnapshot, after: DealSnapshot): DealFieldChange[] {
+  return DEAL_REVISION_FIELDS
+    .filter(field => JSON.stringify(before[field] ?? null) !== JSON.stringify(after[field] ?? null))
+    .map(field => ({
+      field,
+      label: DEAL_REVISION_FIELD_LABELS[field],
+      before: before[field] ?? null,
+      after: after[field] ?? null,
+    }));
+}
+
+/**
+ * Submissions with their changes and comments, newest first
+ */
+export function buildDealRevisionHistory(approvals: DealApproval[], comments: DealReviewComment[]): DealRevision[] {
+  const oldestFirst = [...approvals].sort((a, b) =>
+    new Date(a.submittedAt).getTime() - new Date(b.submittedAt).getTime() || a.id - b.id
+  );
+
+  return oldestFirst
+    .map((approval, index) => {
+      const previous = oldestFirst[index - 1]?.snapshot;
+      return {
+        ...approval,
+        revision: index + 1,
+        changes: previous && approval.snapshot ? diffDealSnapshots(previous, approval.snapshot) : [],
+        comments: comments.filter(comment => comment.approvalId === approval.id),
+      };
+    })
+    .reverse();
+}
+
+/**
+ * A snapshot value as shown in review screens
+ */
+export function formatDealFieldValue(field: DealRevisionField, value: unknown): string {
+  if (value === null || value === undefined || value === '') return '—';
+  if (DATE_FIELDS.includes(field)) return new Date(value as string).toLocaleString();
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  if (field === 'recurringDays' && Array.isArray(value)) {
+    return value.length > 0 ? value.map(day => DAY_NAMES[day as number] ?? day).join(', ') : '—';
+  }
+  if (typeof value === 'object') return JSON.stringify(value, null, 2);
+  return String(value);
+}
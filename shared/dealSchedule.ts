@@ -0,0 +1,260 @@
+/**
+ * When recurring deals are available
+ *
+ * A deal with a `schedule` is available inside its time windows, in the
+ * schedule's timezone, except on its blackout dates. Older recurring deals only
+ * have `recurringDays` and are treated as available all day on those days, in
+ * the local timezone of whoever evaluates them. Deals with neither are always
+ * available within their start and end dates.
+ */
+import type { Deal, DealScheduleWindow } from './schema';
+
+export const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+const MINUTES_PER_DAY = 24 * 60;
+// How far ahead to look for the next window; covers a week plus blackout runs
+const NEXT_WINDOW_SEARCH_DAYS = 30;
+
+export type ScheduledDeal = Pick<Deal, 'isRecurring' | 'recurringDays' | 'schedule'>;
+
+export interface ScheduleWindowTimes {
+  start: string;
+  end: string;
+}
+
+export interface NextScheduleWindow extends ScheduleWindowTimes {
+  date: string;
+  day: number;
+  // 0 when the window starts later today
+  daysAway: number;
+}
+
+export interface DealScheduleAvailability {
+  isAvailableNow: boolean;
+  isAvailableToday: boolean;
+  // Next day the deal is available on, only set when it isn't available today
+  nextAvailableDay: number | null;
+  nextAvailableDayName: string | null;
+  availableDays: number[];
+  availableDayNames: string[];
+  todayWindows: ScheduleWindowTimes[];
+  // The window the deal is in right now, and the next one to start
+  currentWindow: ScheduleWindowTimes | null;
+  nextWindow: NextScheduleWindow | null;
+  timezone?: string;
+}
+
+// Weekly time windows with exceptions; shared with business opening hours
+export interface WeeklySchedule {
+  // Undefined means the local timezone of the caller
+  timezone?: string;
+  windows: DealScheduleWindow[];
+  blackoutDates: string[];
+}
+
+interface LocalTime {
+  date: string;
+  minutes: number;
+}
+
+const ALL_DAY = { start: '00:00', end: '24:00' };
+
+/**
+ * Minutes since midnight for an "HH:MM" time
+ */
+export function parseTimeOfDay(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+/**
+ * Short 12-hour label for an "HH:MM" time, e.g. "4pm" or "9:30am"
+ */
+export function formatTimeOfDay(time: string): string {
+  const totalMinutes = parseTimeOfDay(time);
+  if (totalMinutes === 0 || totalMinutes === MINUTES_PER_DAY) return 'midnight';
+
+  const hours = Math.floor(totalMinutes / 60);
+  const minutes = totalMinutes % 60;
+  const suffix = hours < 12 ? 'am' : 'pm';
+  const displayHours = hours % 12 === 0 ? 12 : hours % 12;
+
+  return minutes === 0
+    ? `${displayHours}${suffix}`
+    : `${displayHours}:${minutes.toString().padStart(2, '0')}${suffix}`;
+}
+
+function dayOfDate(date: string): number {
+  return new Date(`${date}T00:00:00Z`).getUTCDay();
+}
+
+function addDays(date: string, days: number): string {
+  const next = new Date(`${date}T00:00:00Z`);
+  next.setUTCDate(next.getUTCDate() + days);
+  return next.toISOString().slice(0, 10);
+}
+
+/**
+ * Calendar date and time of day of an instant in a timezone
+ */
+function getLocalTime(at: Date, timeZone?: string): LocalTime {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(at);
+  const part = (type: string) => parts.find(p => p.type === type)?.value ?? '0';
+
+  return {
+    date: `${part('year')}-${part('month')}-${part('day')}`,
+    minutes: parseInt(part('hour'), 10) * 60 + parseInt(part('minute'), 10),
+  };
+}
+
+function recurringDaysOf(deal: ScheduledDeal): number[] {
+  return Array.isArray(deal.recurringDays) ? (deal.recurringDays as number[]) : [];
+}
+
+/**
+ * The schedule a deal follows, or null when it is always available
+ */
+function getWeeklySchedule(deal: ScheduledDeal): WeeklySchedule | null {
+  if (deal.schedule) {
+    const { timezone, windows = [], blackoutDates = [] } = deal.schedule;
+    // No windows means all day, every day, apart from blackout dates
+    return {
+      timezone,
+      windows: windows.length > 0 ? windows : DAY_NAMES.map((_, day) => ({ day, ...ALL_DAY })),
+      blackoutDates,
+    };
+  }
+
+  if (deal.isRecurring) {
+    return {
+      windows: recurringDaysOf(deal).map(day => ({ day, ...ALL_DAY })),
+      blackoutDates: [],
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Windows that start on a date, as minute ranges sorted by start time
+ * Windows that run past midnight end after MINUTES_PER_DAY
+ */
+function windowsOnDate(schedule: WeeklySchedule, date: string): { window: DealScheduleWindow; start: number; end: number }[] {
+  if (schedule.blackoutDates.includes(date)) return [];
+
+  const day = dayOfDate(date);
+  return schedule.windows
+    .filter(window => window.day === day)
+    .map(window => {
+      const start = parseTimeOfDay(window.start);
+      const end = parseTimeOfDay(window.end);
+      return { window, start, end: end <= start ? end + MINUTES_PER_DAY : end };
+    })
+    .sort((a, b) => a.start - b.start);
+}
+
+function findCurrentWindow(schedule: WeeklySchedule, local: LocalTime): DealScheduleWindow | null {
+  const today = windowsOnDate(schedule, local.date)
+    .find(({ start, end }) => local.minutes >= start && local.minutes < end);
+  if (today) return today.window;
+
+  // Windows that started yesterday and run past midnight
+  const minutesSinceYesterday = local.minutes + MINUTES_PER_DAY;
+  const yesterday = windowsOnDate(schedule, addDays(local.date, -1))
+    .find(({ start, end }) => minutesSinceYesterday >= start && minutesSinceYesterday < end);
+  return yesterday?.window ?? null;
+}
+
+/**
+ * The window of a weekly schedule that contains an instant, if any
+ */
+export function getCurrentWindow(schedule: WeeklySchedule, at: Date = new Date()): DealScheduleWindow | null {
+  return findCurrentWindow(schedule, getLocalTime(at, schedule.timezone));
+}
+
+/**
+ * The first window of a weekly schedule that starts after an instant
+ */
+export function getNextWindow(schedule: WeeklySchedule, at: Date = new Date()): NextScheduleWindow | null {
+  const local = getLocalTime(at, schedule.timezone);
+
+  for (let offset = 0; offset <= NEXT_WINDOW_SEARCH_DAYS; offset++) {
+    const date = addDays(local.date, offset);
+    const upcoming = windowsOnDate(schedule, date).find(({ start }) => offset > 0 || start > local.minutes);
+    if (upcoming) {
+      return { date, day: dayOfDate(date), daysAway: offset, start: upcoming.window.start, end: upcoming.window.end };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Whether a deal's schedule allows it to be used at an instant
+ */
+export function isScheduledAt(deal: ScheduledDeal, at: Date = new Date()): boolean {
+  const schedule = getWeeklySchedule(deal);
+  if (!schedule) return true;
+
+  return findCurrentWindow(schedule, getLocalTime(at, schedule.timezone)) !== null;
+}
+
+/**
+ * Whether a deal has any window on the calendar day containing an instant
+ */
+export function isScheduledOnDate(deal: ScheduledDeal, at: Date = new Date()): boolean {
+  const schedule = getWeeklySchedule(deal);
+  if (!schedule) return true;
+
+  return windowsOnDate(schedule, getLocalTime(at, schedule.timezone).date).length > 0;
+}
+
+/**
+ * Whether a deal has any window on a day of the week, ignoring blackout dates
+ */
+export function isScheduledOnWeekday(deal: ScheduledDeal, day: number): boolean {
+  const schedule = getWeeklySchedule(deal);
+  if (!schedule) return true;
+
+  return schedule.windows.some(window => window.day === day);
+}
+
+/**
+ * Describe a deal's availability around an instant, for badges and filters
+ */
+export function getScheduleAvailability(deal: ScheduledDeal, at: Date = new Date()): DealScheduleAvailability {
+  const schedule = getWeeklySchedule(deal) ?? {
+    windows: DAY_NAMES.map((_, day) => ({ day, ...ALL_DAY })),
+    blackoutDates: [],
+  };
+  const local = getLocalTime(at, schedule.timezone);
+
+  const todayWindows = windowsOnDate(schedule, local.date).map(({ window }) => ({ start: window.start, end: window.end }));
+  const currentWindow = findCurrentWindow(schedule, local);
+  const nextWindow = getNextWindow(schedule, at);
+
+  const isAvailableToday = todayWindows.length > 0;
+  const nextAvailableDay = !isAvailableToday && nextWindow ? nextWindow.day : null;
+  const availableDays = Array.from(new Set(schedule.windows.map(window => window.day))).sort((a, b) => a - b);
+
+  return {
+    isAvailableNow: currentWindow !== null,
+    isAvailableToday,
+    nextAvailableDay,
+    nextAvailableDayName: nextAvailableDay !== null ? DAY_NAMES[nextAvailableDay] : null,
+    availableDays,
+    availableDayNames: availableDays.map(day => DAY_NAMES[day]),
+    todayWindows,
+    currentWindow: currentWindow ? { start: currentWindow.start, end: currentWindow.end } : null,
+    nextWindow,
+    timezone: schedule.timezone,
+  };
+}
@@ -0,0 +1,22 @@
+/**
+ * Per-account login throttling
+ *
+ * The IP rate limit on the login route doesn't stop credential stuffing
+ * spread over many addresses, so failed password attempts are also counted
+ * per email address. After a few free attempts each further try has to wait
+ * twice as long as the last; enough failures lock the account for a while
+ * and email its owner a link that unlocks it. Admins can see locked accounts
+ * and unlock them. The limits come from appConfig.security.loginThrottle.
+ */
+
+// Error codes the login routes answer with while an account is throttled
+export const LOGIN_THROTTLED = 'login_throttled';
+export const ACCOUNT_LOCKED = 'account_locked';
+
+export interface LockedAccountSummary {
+  email: string;
+  failedAttempts: number;
+  lockedUntil: Date;
+  lastFailedAt: Date;
+  lastIpAddress: string | null;
+}
@@ -0,0 +1,50 @@
+/**
+ * Moderation policy: rejection reasons and review checklists
+ *
+ * Admins keep a catalogue of rejection reason codes, each with template text.
+ * Rejecting a deal or business requires at least one code; the templates,
+ * followed by the reviewer's own note, become the feedback the vendor sees.
+ * Checklist items tell reviewers what to check for each category, and the
+ * ticked items are recorded with the decision.
+ */
+import type { ModerationChecklistItem, RejectionReason } from './schema';
+
+export const MODERATION_TARGET_TYPES = ['deal', 'business'] as const;
+
+export type ModerationTargetType = typeof MODERATION_TARGET_TYPES[number];
+
+export type ModerationChecklist = Record<string, boolean>;
+
+export interface RejectionReasonCount {
+  code: string;
+  label: string;
+  targetType: string;
+  count: number;
+}
+
+/**
+ * Reason templates in the order they were picked, then the reviewer's note
+ */
+export function composeRejectionFeedback(reasons: Pick<RejectionReason, 'template'>[], note?: string | null): string {
+  const parts = reasons.map(reason => reason.template.trim());
+  if (note?.trim()) {
+    parts.push(note.trim());
+  }
+  return parts.join('\n\n');
+}
+
+/**
+ * Active checklist items for a category, including items for every category, in display order
+ */
+export function checklistForCategory<T extends ModerationChecklistItem>(items: T[], category?: string | null): T[] {
+  return items
+    .filter(item => item.active && (item.category === null || item.category === category))
+    .sort((a, b) => a.sortOrder - b.sortOrder || a.id - b.id);
+}
+
+/**
+ * Checklist items the reviewer has not ticked
+ */
+export function uncheckedChecklistItems<T extends ModerationChecklistItem>(items: T[], checklist: ModerationChecklist): T[] {
+  return items.filter(item => !checklist[String(item.id)]);
+}
@@ -0,0 +1,85 @@
+/**
+ * Passkeys (WebAuthn)
+ *
+ * Signed-in users register a passkey from their profile page; the device
+ * keeps the private key behind Face ID, a fingerprint or the screen lock, and
+ * the server stores only the public key. "Sign in with passkey" then asks the
+ * browser for any passkey it holds for Pinnity, so no email or password is
+ * typed, and starts the same kind of session as a password sign-in.
+ *
+ * Options and responses cross the wire as JSON with binary fields as
+ * base64url strings, the shape of WebAuthn's toJSON() / parse*OptionsFromJSON().
+ */
+
+export const PASSKEY_RP_NAME = 'Pinnity';
+
+// How long the browser prompt may stay open before the challenge runs out
+export const PASSKEY_CHALLENGE_MINUTES = 5;
+
+export const PASSKEY_NAME_MAX_LENGTH = 60;
+
+// COSE algorithms we verify, most preferred first: ES256, EdDSA, RS256
+export const PASSKEY_ALGORITHMS = [-7, -8, -257] as const;
+
+export type PasskeyChallengePurpose = 'registration' | 'authentication';
+
+export interface PasskeySummary {
+  id: number;
+  name: string;
+  backedUp: boolean;
+  createdAt: Date;
+  lastUsedAt: Date | null;
+}
+
+export interface PasskeyCredentialDescriptor {
+  id: string;
+  type: 'public-key';
+  transports?: string[];
+}
+
+export interface PasskeyRegistrationOptions {
+  challenge: string;
+  rp: { id: string; name: string };
+  user: { id: string; name: string; displayName: string };
+  pubKeyCredParams: { type: 'public-key'; alg: number }[];
+  timeout: number;
+  attestation: 'none';
+  authenticatorSelection: {
+    residentKey: 'required';
+    requireResidentKey: true;
+    userVerification: 'required';
+  };
+  excludeCredentials: PasskeyCredentialDescriptor[];
+}
+
+export interface PasskeyAuthenticationOptions {
+  challenge: string;
+  rpId: string;
+  timeout: number;
+  userVerification: 'required';
+  // Empty: the browser offers whichever discoverable passkeys it has for us
+  allowCredentials: PasskeyCredentialDescriptor[];
+}
+
+export interface PasskeyRegistrationResponse {
+  id: string;
+  rawId: string;
+  type: 'public-key';
+  response: {
+    clientDataJSON: string;
+    attestationObject: string;
+    transports?: string[];
+  };
+}
+
+export interface PasskeyAuthenticationResponse {
+  id: string;
+  rawId: string;
+  type: 'public-key';
+  response: {
+    clientDataJSON: string;
+    authenticatorData: string;
+    signature: string;
+    userHandle?: string | null;
+  };
+}
@@ -0,0 +1,73 @@
+/**
+ * Staff roles and permissions
+ *
+ * Admin accounts carry a staff role that decides what they can do. Each admin
+ * route requires one permission, and the admin navigation only shows the pages
+ * the role can use. An admin without a recognized role has no staff access;
+ * admins from before staff roles were made super admins by
+ * migrations/backfill-admin-staff-roles.sql.
+ */
+
+export const STAFF_ROLES = ['super_admin', 'admin', 'moderator', 'support', 'finance'] as const;
+
+export type StaffRole = typeof STAFF_ROLES[number];
+
+export const PERMISSIONS = [
+  'dashboard.view',
+  'deals.read',
+  // Approve, reject or send back deals under review
+  'deals.moderate',
+  // Any other deal change: feature, expire, archive, delete, create
+  'deals.manage',
+  // Rejection reasons, review checklist and pre-moderation rules
+  'moderation.configure',
+  'vendors.read',
+  'vendors.manage',
+  'users.read',
+  'users.manage',
+  'users.reset_password',
+  'reports.view',
+  'audit.view',
+  'roles.assign',
+] as const;
+
+export type Permission = typeof PERMISSIONS[number];
+
+export const ROLE_PERMISSIONS: Record<StaffRole, readonly Permission[]> = {
+  super_admin: PERMISSIONS,
+  admin: PERMISSIONS.filter(permission => permission !== 'roles.assign'),
+  moderator: ['dashboard.view', 'deals.read', 'deals.moderate'],
+  support: ['dashboard.view', 'users.read', 'users.reset_password', 'vendors.read'],
+  finance: ['dashboard.view', 'reports.view'],
+};
+
+export const STAFF_ROLE_LABELS: Record<StaffRole, string> = {
+  super_admin: 'Super admin',
+  admin: 'Admin',
+  moderator: 'Moderator',
+  support: 'Support',
+  finance: 'Finance',
+};
+
+// Deal statuses a review can end in; setting any other status needs deals.manage
+export const DEAL_REVIEW_STATUSES = ['active', 'verified', 'approved', 'rejected', 'pending_revision'] as const;
+
+/**
+ * The staff role of an account, or null if it isn't an admin or its role isn't one we know
+ */
+export function staffRoleOf(user: { userType: string; staffRole?: string | null }): StaffRole | null {
+  if (user.userType !== 'admin') return null;
+  return STAFF_ROLES.includes(user.staffRole as StaffRole) ? user.staffRole as StaffRole : null;
+}
+
+export function hasPermission(role: StaffRole | null | undefined, permission: Permission): boolean {
+  return !!role && ROLE_PERMISSIONS[role].includes(permission);
+}
+
+/**
+ * Whether the role may move a deal to the status: moderators only make review decisions
+ */
+export function canSetDealStatus(role: StaffRole | null | undefined, status: string): boolean {
+  return hasPermission(role, 'deals.manage')
+    || (hasPermission(role, 'deals.moderate') && (DEAL_REVIEW_STATUSES as readonly string[]).includes(status));
+}
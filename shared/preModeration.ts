@@ -0,0 +1,265 @@
+/**
+ * Automated pre-moderation of submitted deals
+ *
+ * Every time a vendor submits a deal for review, a set of rules checks it
+ * before a human does. Each rule that matches says what should happen to the
+ * deal: reject it, leave it for a reviewer, or (for the trusted vendor rule)
+ * approve it. Any matching reject rule wins, then any review rule; a deal only
+ * skips the queue when the trusted vendor rule matches and nothing else did.
+ * Admins can turn rules off, change their action and tune their settings.
+ */
+import type { Deal, PreModerationRuleSetting } from './schema';
+
+export const PRE_MODERATION_RULE_KEYS = [
+  'banned_words',
+  'max_discount',
+  'date_order',
+  'missing_image',
+  'duplicate_title',
+  'trusted_vendor',
+] as const;
+
+export type PreModerationRuleKey = typeof PRE_MODERATION_RULE_KEYS[number];
+
+export const PRE_MODERATION_ACTIONS = ['reject', 'review', 'approve'] as const;
+
+export type PreModerationAction = typeof PRE_MODERATION_ACTIONS[number];
+
+export type PreModerationOutcome = 'auto_approve' | 'auto_reject' | 'needs_review';
+
+export interface BannedWordsConfig {
+  words: string[];
+}
+
+export interface MaxDiscountConfig {
+  maxPercent: number;
+}
+
+export interface TrustedVendorConfig {
+  minApprovedDeals: number;
+}
+
+export interface PreModerationRule {
+  key: PreModerationRuleKey;
+  enabled: boolean;
+  action: PreModerationAction;
+  config: Record<string, unknown>;
+}
+
+export interface PreModerationRuleDefinition extends PreModerationRule {
+  label: string;
+  description: string;
+}
+
+export interface PreModerationReason {
+  rule: PreModerationRuleKey;
+  action: PreModerationAction;
+  message: string;
+}
+
+export interface PreModerationResult {
+  outcome: PreModerationOutcome;
+  reasons: PreModerationReason[];
+  evaluatedAt: string;
+}
+
+/**
+ * What the rules need to know about the submitting business
+ */
+export interface PreModerationContext {
+  // Titles of the business's other live or pending deals
+  otherDealTitles: string[];
+  // Deals of the business that made it past review
+  approvedDealCount: number;
+  rejectedDealCount: number;
+}
+
+export type PreModerationDeal = Pick<Deal, 'title' | 'terms' | 'discount' | 'dealType' | 'imageUrl' | 'startDate' | 'endDate'>;
+
+export const DEFAULT_PRE_MODERATION_RULES: Record<PreModerationRuleKey, PreModerationRuleDefinition> = {
+  banned_words: {
+    key: 'banned_words',
+    label: 'Banned words',
+    description: 'The title or terms contain a word from the banned list.',
+    enabled: true,
+    action: 'reject',
+    config: { words: [] },
+  },
+  max_discount: {
+    key: 'max_discount',
+    label: 'Implausible discount',
+    description: 'The percentage discount is higher than the limit.',
+    enabled: true,
+    action: 'review',
+    config: { maxPercent: 90 },
+  },
+  date_order: {
+    key: 'date_order',
+    label: 'End date before start date',
+    description: 'The deal ends before it starts.',
+    enabled: true,
+    action: 'reject',
+    config: {},
+  },
+  missing_image: {
+    key: 'missing_image',
+    label: 'Missing image',
+    description: 'The deal has no image.',
+    enabled: true,
+    action: 'review',
+    config: {},
+  },
+  duplicate_title: {
+    key: 'duplicate_title',
+    label: 'Duplicate title',
+    description: 'The business already has a live or pending deal with the same title.',
+    enabled: true,
+    action: 'review',
+    config: {},
+  },
+  trusted_vendor: {
+    key: 'trusted_vendor',
+    label: 'Trusted vendor',
+    description: 'The business has enough approved deals and none rejected.',
+    enabled: true,
+    action: 'approve',
+    config: { minApprovedDeals: 5 },
+  },
+};
+
+export function isPreModerationRuleKey(key: string): key is PreModerationRuleKey {
+  return (PRE_MODERATION_RULE_KEYS as readonly string[]).includes(key);
+}
+
+/**
+ * Every rule with the admin's settings applied over the defaults, in evaluation order
+ */
+export function resolvePreModerationRules(
+  settings: Pick<PreModerationRuleSetting, 'key' | 'enabled' | 'action' | 'config'>[]
+): PreModerationRuleDefinition[] {
+  return PRE_MODERATION_RULE_KEYS.map(key => {
+    const defaults = DEFAULT_PRE_MODERATION_RULES[key];
+    const setting = settings.find(s => s.key === key);
+    if (!setting) return defaults;
+
+    return {
+      ...defaults,
+      enabled: setting.enabled,
+      action: (PRE_MODERATION_ACTIONS as readonly string[]).includes(setting.action)
+        ? setting.action as PreModerationAction
+        : defaults.action,
+      config: { ...defaults.config, ...setting.config },
+    };
+  });
+}
+
+export function normalizeDealTitle(title: string): string {
+  return title.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function findBannedWords(text: string, words: string[]): string[] {
+  return words
+    .map(word => word.trim())
+    .filter(word => word && new RegExp(`(^|[^\\p{L}\\p{N}])${escapeRegExp(word)}($|[^\\p{L}\\p{N}])`, 'iu').test(text));
+}
+
+/**
+ * The discount as a percentage, when it is one: "95%", "95% off", or a bare
+ * number on a percentage deal type
+ */
+export function parseDiscountPercent(discount: string | null | undefined, dealType: string): number | null {
+  if (!discount) return null;
+
+  const percent = discount.match(/(\d+(?:\.\d+)?)\s*%/);
+  if (percent) return parseFloat(percent[1]);
+
+  if (/percent/i.test(dealType) && /^\s*\d+(\.\d+)?\s*$/.test(discount)) {
+    return parseFloat(discount);
+  }
+
+  return null;
+}
+
+function checkRule(
+  rule: PreModerationRuleDefinition,
+  deal: PreModerationDeal,
+  context: PreModerationContext
+): string | null {
+  switch (rule.key) {
+    case 'banned_words': {
+      const { words = [] } = rule.config as Partial<BannedWordsConfig>;
+      const found = findBannedWords(`${deal.title}\n${deal.terms ?? ''}`, words);
+      return found.length > 0 ? `Contains banned words: ${found.join(', ')}` : null;
+    }
+    case 'max_discount': {
+      const { maxPercent = 90 } = rule.config as Partial<MaxDiscountConfig>;
+      const percent = parseDiscountPercent(deal.discount, deal.dealType);
+      return percent !== null && percent > maxPercent
+        ? `Discount of ${percent}% is more than ${maxPercent}%`
+        : null;
+    }
+    case 'date_order':
+      return new Date(deal.endDate).getTime() < new Date(deal.startDate).getTime()
+        ? 'End date is before the start date'
+        : null;
+    case 'missing_image':
+      return deal.imageUrl?.trim() ? null : 'No image provided';
+    case 'duplicate_title': {
+      const title = normalizeDealTitle(deal.title);
+      return context.otherDealTitles.some(other => normalizeDealTitle(other) === title)
+        ? 'The business already has a deal with this title'
+        : null;
+    }
+    case 'trusted_vendor': {
+      const { minApprovedDeals = 5 } = rule.config as Partial<TrustedVendorConfig>;
+      return context.approvedDealCount >= minApprovedDeals && context.rejectedDealCount === 0
+        ? `Vendor has ${context.approvedDealCount} approved deals and none rejected`
+        : null;
+    }
+  }
+}
+
+/**
+ * Run the enabled rules against a submitted deal
+ */
+export function evaluatePreModeration(
+  deal: PreModerationDeal,
+  rules: PreModerationRuleDefinition[],
+  context: PreModerationContext,
+  now: Date = new Date()
+): PreModerationResult {
+  const reasons: PreModerationReason[] = [];
+
+  for (const rule of rules) {
+    if (!rule.enabled) continue;
+    const message = checkRule(rule, deal, context);
+    if (message) {
+      reasons.push({ rule: rule.key, action: rule.action, message });
+    }
+  }
+
+  let outcome: PreModerationOutcome = 'needs_review';
+  if (reasons.some(reason => reason.action === 'reject')) {
+    outcome = 'auto_reject';
+  } else if (reasons.some(reason => reason.action === 'review')) {
+    outcome = 'needs_review';
+  } else if (reasons.some(reason => reason.action === 'approve')) {
+    outcome = 'auto_approve';
+  }
+
+  return { outcome, reasons, evaluatedAt: now.toISOString() };
+}
+
+/**
+ * Feedback the vendor sees when the rules reject their deal
+ */
+export function preModerationFeedback(result: PreModerationResult): string {
+  return result.reasons
+    .filter(reason => reason.action === 'reject')
+    .map(reason => `${reason.message}.`)
+    .join('\n\n');
+}
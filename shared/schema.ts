@@ -1,6 +1,8 @@
 import { pgTable, text, serial, integer, boolean, json, timestamp, doublePrecision, varchar, jsonb } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import type { DealSnapshot } from "./dealRevisions";
+import type { PreModerationResult } from "./preModeration";
 
 // User schema - base table for both individuals and businesses (LEGACY)
 export const users = pgTable("users", {
@@ -13,7 +15,8 @@ export const users = pgTable("users", {
   phone: text("phone").notNull(),
   phoneVerified: boolean("phone_verified").notNull().default(false),
   address: text("address").notNull(),
-  userType: text("user_type").notNull(), // "individual" or "business"
+  userType: text("user_type").notNull(), // "individual", "business" or "admin"
+  staffRole: text("staff_role"), // Admins only, see shared/permissions; an admin without one has no staff access
   created_at: text("created_at").notNull().default(new Date().toISOString()),
 });
 
@@ -30,12 +33,50 @@ export const profiles = pgTable("profiles", {
   user_type: text("user_type").notNull().default("individual"), // "individual", "business", "admin"
   phone_verified: boolean("phone_verified").notNull().default(false),
   marketing_consent: boolean("marketing_consent").notNull().default(false),
-  role: text("role").notNull().default("individual"), // "individual", "vendor", "admin"
+  role: text("role").notNull().default("individual"), // "individual", "vendor", "admin"; staff roles live on users.staff_role
   is_live: boolean("is_live").notNull().default(false), // For gating individual users
   created_at: text("created_at").notNull().default(new Date().toISOString()),
   updated_at: text("updated_at").notNull().default(new Date().toISOString()),
 });
 
+// TOTP two-factor state for a profile; a row without enabled_at is an enrolment awaiting its first code
+export const profileTwoFactor = pgTable("profile_two_factor", {
+  profileId: text("profile_id").primaryKey().references(() => profiles.id, { onDelete: "cascade" }),
+  secret: text("secret").notNull(), // Base32 TOTP secret
+  enabledAt: timestamp("enabled_at"),
+  recoveryCodes: jsonb("recovery_codes").$type<string[]>().notNull().default([]), // SHA-256 hashes of the unused codes
+  lastUsedStep: integer("last_used_step"), // TOTP time step of the last accepted code, so a code works once
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+// WebAuthn credentials (passkeys) a profile can sign in with instead of a password
+export const profilePasskeys = pgTable("profile_passkeys", {
+  id: serial("id").primaryKey(),
+  profileId: text("profile_id").notNull().references(() => profiles.id, { onDelete: "cascade" }),
+  credentialId: text("credential_id").notNull().unique(), // Base64url credential ID from the authenticator
+  publicKey: text("public_key").notNull(), // Base64url SPKI DER
+  algorithm: integer("algorithm").notNull(), // COSE algorithm, e.g. -7 for ES256
+  signCount: integer("sign_count").notNull().default(0), // Last signature counter seen; a lower one means a cloned authenticator
+  userHandle: text("user_handle").notNull(), // Base64url user.id the authenticator returns when signing in
+  transports: jsonb("transports").$type<string[]>().notNull().default([]),
+  backedUp: boolean("backed_up").notNull().default(false), // Synced between devices, e.g. by iCloud Keychain
+  name: text("name").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  lastUsedAt: timestamp("last_used_at"),
+});
+
+// Outstanding WebAuthn challenges; each registration or sign-in consumes its own once
+export const passkeyChallenges = pgTable("passkey_challenges", {
+  id: serial("id").primaryKey(),
+  challenge: text("challenge").notNull().unique(), // Base64url random bytes
+  purpose: text("purpose").notNull(), // "registration" or "authentication"
+  profileId: text("profile_id").references(() => profiles.id, { onDelete: "cascade" }), // Registering profile; null when signing in
+  userHandle: text("user_handle"), // The user.id offered to the authenticator when registering
+  expiresAt: timestamp("expires_at").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
 // Business schema - extends user for business-specific data
 export const businesses = pgTable("businesses", {
   id: serial("id").primaryKey(),
@@ -54,6 +95,7 @@ export const businesses = pgTable("businesses", {
   phone: text("phone"),
   website: text("website"),
   imageUrl: text("image_url"),
+  timezone: text("timezone"), // IANA timezone the opening hours are kept in, e.g. America/New_York
 });
 
 // Deals schema - offers created by businesses
@@ -73,7 +115,7 @@ export const deals = pgTable("deals", {
   requiresPin: boolean("requires_pin").default(true),
   redemptionCode: text("redemption_code"),
   createdAt: timestamp("created_at").notNull().defaultNow(),
-  status: text("status").notNull().default("pending"), // "pending", "approved", "active", "expired", "rejected"
+  status: text("status").notNull().default("pending"), // "pending", "approved", "active", "expired", "archived", "rejected"
   rejectionReason: text("rejection_reason"), // Reason for rejection when status is "rejected"
   approvalDate: timestamp("approval_date"),
   maxRedemptionsPerUser: integer("max_redemptions_per_user").default(1),
@@ -85,6 +127,8 @@ export const deals = pgTable("deals", {
   // Recurring deal fields
   isRecurring: boolean("is_recurring").default(false),
   recurringDays: jsonb("recurring_days").default([]), // Array of days (0-6) where 0=Sunday
+  schedule: jsonb("schedule").$type<DealSchedule>(), // Time-of-day windows and blackout dates, see dealScheduleSchema
+  updatedAt: timestamp("updated_at").notNull().defaultNow().$onUpdate(() => new Date()), // Lets search indexes pick up changed deals
 });
 
 // User favorites - saved deals by users
@@ -117,6 +161,78 @@ export const userNotificationPreferences = pgTable("user_notification_preference
   locationSharing: boolean("location_sharing").default(true), // Privacy setting for location sharing
 });
 
+// Personalization preferences chosen during onboarding - deal categories and home location
+export const userPreferences = pgTable("user_preferences", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().unique().references(() => users.id, { onDelete: "cascade" }),
+  categories: jsonb("categories").$type<string[]>().notNull().default([]), // Deal categories the user is interested in, e.g. ["food", "travel"]
+  homeLatitude: doublePrecision("home_latitude"),
+  homeLongitude: doublePrecision("home_longitude"),
+  searchRadiusMiles: integer("search_radius_miles"),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+// Expiring-deal reminders for favorited deals - one row per user, deal and delivery channel
+export const dealReminders = pgTable("deal_reminders", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  dealId: integer("deal_id").notNull().references(() => deals.id, { onDelete: "cascade" }),
+  channel: text("channel").notNull(), // "in_app", "email", "push"
+  dedupeKey: text("dedupe_key").notNull().unique(), // "<userId>:<dealId>:<channel>", so each reminder is only created once
+  status: text("status").notNull().default("pending"), // "pending", "sent", "failed"
+  attempts: integer("attempts").notNull().default(0),
+  lastError: text("last_error"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  sentAt: timestamp("sent_at"),
+  readAt: timestamp("read_at"), // In-app reminders only
+});
+
+// Web Push subscriptions - one per browser or device a user enabled push notifications on
+export const webPushSubscriptions = pgTable("push_subscriptions", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  endpoint: text("endpoint").notNull().unique(), // Push service URL for the device
+  p256dh: text("p256dh").notNull(), // Device public key used to encrypt payloads (base64url)
+  auth: text("auth").notNull(), // Device authentication secret (base64url)
+  userAgent: text("user_agent"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// In-app notifications - the inbox behind the bell in the app header
+export const notifications = pgTable("notifications", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  type: text("type").notNull(), // "deal_approved", "deal_rejected", "business_verified", "business_rejected", "rating_prompt", "deal_expiring"
+  title: text("title").notNull(),
+  body: text("body").notNull(),
+  url: text("url"), // Path in the app the notification links to
+  dedupeKey: text("dedupe_key").unique(), // Set for notifications that must only be created once, e.g. "deal_reminder:<reminderId>"
+  readAt: timestamp("read_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Outgoing email - rendered messages waiting for, or done with, delivery by the outbox worker
+export const emailOutbox = pgTable("email_outbox", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id, { onDelete: "set null" }), // Recipient's account, if any
+  toAddress: text("to_address").notNull(),
+  template: text("template").notNull(), // e.g. "password_reset"
+  templateVersion: integer("template_version").notNull(),
+  category: text("category").notNull(), // "transactional", "notification", "marketing"
+  subject: text("subject").notNull(),
+  html: text("html").notNull(),
+  text: text("text").notNull(),
+  headers: jsonb("headers").$type<Record<string, string>>(), // Extra headers, e.g. List-Unsubscribe
+  dedupeKey: text("dedupe_key").unique(), // Set for emails that must only be queued once, e.g. "weekly_digest:<userId>:<week>"
+  status: text("status").notNull().default("pending"), // "pending", "sending", "sent", "failed"
+  attempts: integer("attempts").notNull().default(0),
+  lastError: text("last_error"),
+  nextAttemptAt: timestamp("next_attempt_at").notNull().defaultNow(), // When the worker may (re)try delivery
+  messageId: text("message_id"), // Set by the transport once sent
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  sentAt: timestamp("sent_at"),
+});
+
 // Deal approval workflow
 export const dealApprovals = pgTable("deal_approvals", {
   id: serial("id").primaryKey(),
@@ -128,6 +244,99 @@ export const dealApprovals = pgTable("deal_approvals", {
   submittedAt: timestamp("submitted_at").notNull().defaultNow(),
   reviewedAt: timestamp("reviewed_at"),
   revisionCount: integer("revision_count").default(0), // Count of times the deal was revised and resubmitted
+  snapshot: jsonb("snapshot").$type<DealSnapshot>(), // The deal as submitted for this review, never updated; see shared/dealRevisions
+  autoModeration: jsonb("auto_moderation").$type<PreModerationResult>(), // What the pre-moderation rules decided on submission; see shared/preModeration
+});
+
+// Reviewer comments on individual deal fields, tied to the submission they were made on
+export const dealReviewComments = pgTable("deal_review_comments", {
+  id: serial("id").primaryKey(),
+  approvalId: integer("approval_id").notNull().references(() => dealApprovals.id, { onDelete: "cascade" }),
+  dealId: integer("deal_id").notNull().references(() => deals.id, { onDelete: "cascade" }),
+  field: text("field").notNull(), // One of DEAL_REVISION_FIELDS, e.g. "terms"
+  comment: text("comment").notNull(),
+  authorId: integer("author_id").notNull().references(() => users.id),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Deal status history - every status transition, whether made by a person or the lifecycle job
+export const dealStatusHistory = pgTable("deal_status_history", {
+  id: serial("id").primaryKey(),
+  dealId: integer("deal_id").notNull().references(() => deals.id),
+  fromStatus: text("from_status"),
+  toStatus: text("to_status").notNull(),
+  reason: text("reason").notNull(), // "manual", "approval", "scheduled_activation", "scheduled_expiry", "scheduled_archive"
+  changedBy: integer("changed_by").references(() => users.id), // Null for automatic transitions
+  changedAt: timestamp("changed_at").notNull().defaultNow(),
+});
+
+// Rejection reason catalogue - admin-managed codes whose template text becomes the feedback vendors see
+export const rejectionReasons = pgTable("rejection_reasons", {
+  id: serial("id").primaryKey(),
+  code: text("code").notNull().unique(), // e.g. "misleading_discount"; recorded on decisions, so never renamed
+  targetType: text("target_type").notNull(), // "deal", "business"
+  label: text("label").notNull(),
+  template: text("template").notNull(),
+  active: boolean("active").notNull().default(true), // Inactive reasons stay on past decisions but can't be picked
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+// Review checklist - what reviewers check before approving a deal or business
+export const moderationChecklistItems = pgTable("moderation_checklist_items", {
+  id: serial("id").primaryKey(),
+  targetType: text("target_type").notNull(), // "deal", "business"
+  category: text("category"), // Deal or business category the item applies to; null for every category
+  label: text("label").notNull(),
+  description: text("description"),
+  sortOrder: integer("sort_order").notNull().default(0),
+  active: boolean("active").notNull().default(true),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Moderation decisions - one row per approval or rejection, with the reasons and checklist the reviewer used
+export const moderationDecisions = pgTable("moderation_decisions", {
+  id: serial("id").primaryKey(),
+  targetType: text("target_type").notNull(), // "deal", "business"
+  targetId: integer("target_id").notNull(),
+  decision: text("decision").notNull(), // "approved", "rejected"
+  reasonCodes: jsonb("reason_codes").$type<string[]>().notNull().default([]),
+  checklist: jsonb("checklist").$type<Record<string, boolean>>().notNull().default({}), // Checklist item ID -> ticked
+  note: text("note"), // Reviewer's own words, added after the reason templates
+  reviewerId: integer("reviewer_id").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Admin settings for the automated pre-moderation rules, one row per rule key
+// Rules without a row run with their defaults from shared/preModeration
+export const preModerationRules = pgTable("pre_moderation_rules", {
+  id: serial("id").primaryKey(),
+  key: text("key").notNull().unique(), // e.g. "banned_words", "max_discount"
+  enabled: boolean("enabled").notNull().default(true),
+  action: text("action").notNull(), // "reject", "review", "approve"
+  config: jsonb("config").$type<Record<string, unknown>>().notNull().default({}),
+  updatedBy: integer("updated_by").references(() => users.id, { onDelete: "set null" }),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+// Admin audit log - one row per change an admin made, e.g. each item of a bulk action
+export const adminAuditLog = pgTable("admin_audit_log", {
+  id: serial("id").primaryKey(),
+  // No foreign key: entries are never changed, and outlive the admins who wrote them
+  actorId: integer("actor_id"),
+  action: text("action").notNull(), // e.g. "deal.approve", "user.deactivate"
+  targetType: text("target_type").notNull(), // See ADMIN_AUDIT_TARGET_TYPES
+  targetId: text("target_id").notNull(), // Deal and business IDs, or profile UUIDs
+  batchId: text("batch_id"), // Shared by every entry written by one bulk request
+  details: jsonb("details").$type<Record<string, unknown>>().notNull().default({}),
+  before: jsonb("before").$type<Record<string, unknown>>(), // Changed fields as they were, PII masked
+  after: jsonb("after").$type<Record<string, unknown>>(), // Changed fields as they became, PII masked
+  ipAddress: text("ip_address"),
+  userAgent: text("user_agent"),
+  // Append-only hash chain: each entry hashes its own contents with the previous entry's hash
+  previousHash: text("previous_hash"),
+  hash: text("hash").notNull().unique(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
 // Business hours
@@ -161,6 +370,31 @@ export const businessDocuments = pgTable("business_documents", {
   reviewedAt: timestamp("reviewed_at"),
 });
 
+// Business members - managers and staff who work for a business; its owner is businesses.userId
+export const businessMembers = pgTable("business_members", {
+  id: serial("id").primaryKey(),
+  businessId: integer("business_id").notNull().references(() => businesses.id, { onDelete: "cascade" }),
+  userId: integer("user_id").notNull().unique().references(() => users.id, { onDelete: "cascade" }), // Each user works for one business
+  role: text("role").notNull(), // "manager" or "staff"
+  invitedBy: integer("invited_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Email invitations to join a business; the link carries a token of which only the hash is stored
+export const businessInvitations = pgTable("business_invitations", {
+  id: serial("id").primaryKey(),
+  businessId: integer("business_id").notNull().references(() => businesses.id, { onDelete: "cascade" }),
+  email: text("email").notNull(), // Lowercased; only this address can accept
+  role: text("role").notNull(), // "manager" or "staff"
+  tokenHash: text("token_hash").notNull().unique(), // SHA-256 of the token in the link
+  invitedBy: integer("invited_by").references(() => users.id, { onDelete: "set null" }),
+  expiresAt: timestamp("expires_at").notNull(),
+  acceptedAt: timestamp("accepted_at"),
+  acceptedBy: integer("accepted_by").references(() => users.id, { onDelete: "set null" }),
+  revokedAt: timestamp("revoked_at"), // Set when the owner cancels it or sends a new invitation to the same address
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
 // Redemption ratings - user feedback after redeeming deals
 export const redemptionRatings = pgTable("redemption_ratings", {
   id: serial("id").primaryKey(),
@@ -188,10 +422,13 @@ export const passwordResetTokens = pgTable("password_reset_tokens", {
 });
 
 // Refresh tokens for authentication
+// Device sessions belong to the Supabase profile that signed in
 export const refreshTokens = pgTable("refresh_tokens", {
   id: serial("id").primaryKey(),
-  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  profileId: text("profile_id").notNull().references(() => profiles.id, { onDelete: "cascade" }),
   token: text("token").notNull().unique(),
+  // Every token rotated from one sign-in shares a family; replaying a rotated token revokes the family
+  familyId: text("family_id"),
   expiresAt: timestamp("expires_at").notNull(),
   isRevoked: boolean("is_revoked").default(false).notNull(),
   revokedAt: timestamp("revoked_at"),
@@ -202,6 +439,42 @@ export const refreshTokens = pgTable("refresh_tokens", {
   deviceInfo: text("device_info"),
 });
 
+// Account security events, e.g. a refresh token replayed after rotation
+export const securityEvents = pgTable("security_events", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id, { onDelete: "cascade" }),
+  type: text("type").notNull(), // See SECURITY_EVENT_TYPES
+  details: jsonb("details").$type<Record<string, unknown>>().notNull().default({}),
+  ipAddress: text("ip_address"),
+  userAgent: text("user_agent"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Failed password logins per email address, for progressive delays and temporary lockouts
+export const loginThrottles = pgTable("login_throttles", {
+  email: text("email").primaryKey(), // Lowercased; tracked whether or not an account has it
+  failedAttempts: integer("failed_attempts").notNull().default(0),
+  lastFailedAt: timestamp("last_failed_at").notNull().defaultNow(),
+  nextAttemptAt: timestamp("next_attempt_at"), // Attempts before this are refused without checking the password
+  lockedUntil: timestamp("locked_until"),
+  unlockTokenHash: text("unlock_token_hash"), // SHA-256 of the emailed unlock link's token
+  lastIpAddress: text("last_ip_address"),
+});
+
+// Single-use redemption tokens presented by customers and consumed by vendors
+export const redemptionTokens = pgTable("redemption_tokens", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  dealId: integer("deal_id").notNull().references(() => deals.id, { onDelete: "cascade" }),
+  jti: text("jti").notNull().unique(), // Unique ID embedded in the signed token
+  shortCode: text("short_code").notNull(), // Human-readable fallback for the QR code
+  expiresAt: timestamp("expires_at").notNull(),
+  usedAt: timestamp("used_at"),
+  verifiedBy: integer("verified_by").references(() => users.id), // Vendor user who consumed the token
+  redemptionId: integer("redemption_id").references(() => dealRedemptions.id),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
 // Create Zod schemas for insertion
 export const insertUserSchema = createInsertSchema(users);
 export const insertProfileSchema = createInsertSchema(profiles);
@@ -224,6 +497,41 @@ export const insertPasswordResetTokenSchema = createInsertSchema(passwordResetTo
   userAgent: z.string().optional()
 });
 export const insertRefreshTokenSchema = createInsertSchema(refreshTokens);
+export const insertRedemptionTokenSchema = createInsertSchema(redemptionTokens);
+
+// "HH:MM" in 24-hour time; "24:00" is only valid as the end of a window
+const TIME_OF_DAY_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+const END_TIME_OF_DAY_PATTERN = /^(([01]\d|2[0-3]):[0-5]\d|24:00)$/;
+
+function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// A window of time on one day of the week (0 = Sunday)
+// Windows that end before they start run past midnight into the next day
+export const dealScheduleWindowSchema = z.object({
+  day: z.number().int().min(0).max(6),
+  start: z.string().regex(TIME_OF_DAY_PATTERN, "Start time must be in HH:MM format"),
+  end: z.string().regex(END_TIME_OF_DAY_PATTERN, "End time must be in HH:MM format")
+}).refine(window => window.start !== window.end, {
+  message: "End time must be different from start time",
+  path: ["end"]
+});
+
+// When a deal can be redeemed, in the business's local timezone
+// A schedule without windows makes the deal available all day, every day
+export const dealScheduleSchema = z.object({
+  timezone: z.string().refine(isValidTimeZone, { message: "Timezone must be a valid IANA timezone, e.g. America/New_York" }),
+  windows: z.array(dealScheduleWindowSchema).max(50, "A schedule can have at most 50 time windows").default([]),
+  blackoutDates: z.array(
+    z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Blackout dates must be in YYYY-MM-DD format")
+  ).max(366, "A schedule can have at most 366 blackout dates").default([])
+});
 
 // Custom API schema for deals with string dates and recurring fields
 export const apiDealSchema = z.object({
@@ -244,7 +552,8 @@ export const apiDealSchema = z.object({
   totalRedemptionsLimit: z.number().optional(),
   redemptionInstructions: z.string().optional(),
   isRecurring: z.boolean().optional().default(false),
-  recurringDays: z.array(z.number().min(0).max(6)).optional().default([])
+  recurringDays: z.array(z.number().min(0).max(6)).optional().default([]),
+  schedule: dealScheduleSchema.nullable().optional()
 });
 
 // Login schema
@@ -266,6 +575,12 @@ export type User = typeof users.$inferSelect;
 export type InsertUser = typeof users.$inferInsert;
 export type Profile = typeof profiles.$inferSelect;
 export type InsertProfile = typeof profiles.$inferInsert;
+export type ProfileTwoFactor = typeof profileTwoFactor.$inferSelect;
+export type InsertProfileTwoFactor = typeof profileTwoFactor.$inferInsert;
+export type ProfilePasskey = typeof profilePasskeys.$inferSelect;
+export type InsertProfilePasskey = typeof profilePasskeys.$inferInsert;
+export type PasskeyChallenge = typeof passkeyChallenges.$inferSelect;
+export type InsertPasskeyChallenge = typeof passkeyChallenges.$inferInsert;
 export type Business = typeof businesses.$inferSelect;
 export type InsertBusiness = typeof businesses.$inferInsert;
 export type Deal = typeof deals.$inferSelect;
@@ -277,16 +592,44 @@ export type DealRedemption = typeof dealRedemptions.$inferSelect;
 export type InsertDealRedemption = typeof dealRedemptions.$inferInsert;
 export type UserNotificationPreferences = typeof userNotificationPreferences.$inferSelect;
 export type InsertUserNotificationPreferences = typeof userNotificationPreferences.$inferInsert;
+export type UserPreferences = typeof userPreferences.$inferSelect;
+export type InsertUserPreferences = typeof userPreferences.$inferInsert;
+export type DealReminder = typeof dealReminders.$inferSelect;
+export type InsertDealReminder = typeof dealReminders.$inferInsert;
+export type WebPushSubscription = typeof webPushSubscriptions.$inferSelect;
+export type InsertWebPushSubscription = typeof webPushSubscriptions.$inferInsert;
+export type Notification = typeof notifications.$inferSelect;
+export type InsertNotification = typeof notifications.$inferInsert;
+export type EmailOutboxMessage = typeof emailOutbox.$inferSelect;
+export type InsertEmailOutboxMessage = typeof emailOutbox.$inferInsert;
 
 // New vendor-side types
+export type DealStatusHistory = typeof dealStatusHistory.$inferSelect;
+export type InsertDealStatusHistory = typeof dealStatusHistory.$inferInsert;
 export type DealApproval = typeof dealApprovals.$inferSelect;
 export type InsertDealApproval = typeof dealApprovals.$inferInsert;
+export type DealReviewComment = typeof dealReviewComments.$inferSelect;
+export type InsertDealReviewComment = typeof dealReviewComments.$inferInsert;
+export type RejectionReason = typeof rejectionReasons.$inferSelect;
+export type InsertRejectionReason = typeof rejectionReasons.$inferInsert;
+export type ModerationChecklistItem = typeof moderationChecklistItems.$inferSelect;
+export type InsertModerationChecklistItem = typeof moderationChecklistItems.$inferInsert;
+export type ModerationDecision = typeof moderationDecisions.$inferSelect;
+export type InsertModerationDecision = typeof moderationDecisions.$inferInsert;
+export type PreModerationRuleSetting = typeof preModerationRules.$inferSelect;
+export type InsertPreModerationRuleSetting = typeof preModerationRules.$inferInsert;
+export type AdminAuditEntry = typeof adminAuditLog.$inferSelect;
+export type InsertAdminAuditEntry = typeof adminAuditLog.$inferInsert;
 export type BusinessHours = typeof businessHours.$inferSelect;
 export type InsertBusinessHours = typeof businessHours.$inferInsert;
 export type BusinessSocial = typeof businessSocial.$inferSelect;
 export type InsertBusinessSocial = typeof businessSocial.$inferInsert;
 export type BusinessDocument = typeof businessDocuments.$inferSelect;
 export type InsertBusinessDocument = typeof businessDocuments.$inferInsert;
+export type BusinessMember = typeof businessMembers.$inferSelect;
+export type InsertBusinessMember = typeof businessMembers.$inferInsert;
+export type BusinessInvitation = typeof businessInvitations.$inferSelect;
+export type InsertBusinessInvitation = typeof businessInvitations.$inferInsert;
 
 // Rating types
 export type RedemptionRating = typeof redemptionRatings.$inferSelect;
@@ -300,10 +643,22 @@ export type InsertPasswordResetToken = typeof passwordResetTokens.$inferInsert;
 export type RefreshToken = typeof refreshTokens.$inferSelect;
 export type InsertRefreshToken = typeof refreshTokens.$inferInsert;
 
+// Security event types
+export type SecurityEvent = typeof securityEvents.$inferSelect;
+export type InsertSecurityEvent = typeof securityEvents.$inferInsert;
+export type LoginThrottle = typeof loginThrottles.$inferSelect;
+export type InsertLoginThrottle = typeof loginThrottles.$inferInsert;
+
+// Redemption token types
+export type RedemptionToken = typeof redemptionTokens.$inferSelect;
+export type InsertRedemptionToken = typeof redemptionTokens.$inferInsert;
+
 // Form schema types
 export type LoginUser = z.infer<typeof loginUserSchema>;
 export type RatingData = z.infer<typeof ratingSchema>;
 export type ApiDealData = z.infer<typeof apiDealSchema>;
+export type DealSchedule = z.infer<typeof dealScheduleSchema>;
+export type DealScheduleWindow = z.infer<typeof dealScheduleWindowSchema>;
 
 // Password reset request schema
 export const passwordResetRequestSchema = z.object({
@@ -0,0 +1,16 @@
+/**
+ * Account security events
+ *
+ * Suspicious activity on an account is recorded with the request's IP address
+ * and user agent so it can be investigated later. A refresh token presented
+ * again after it was rotated or revoked means two parties hold it, so the
+ * whole token family is revoked and the user has to sign in again. Too many
+ * failed logins on one account lock it for a while.
+ */
+
+export const SECURITY_EVENT_TYPES = ['refresh_token_reuse', 'account_locked'] as const;
+
+export type SecurityEventType = typeof SECURITY_EVENT_TYPES[number];
+
+// Error code returned by the refresh endpoint when a replayed token ends the session
+export const REFRESH_TOKEN_REUSED = 'refresh_token_reused';
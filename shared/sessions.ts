@@ -0,0 +1,38 @@
+/**
+ * Signed-in devices
+ *
+ * Every sign-in starts a session backed by a refresh token. Sessions belong
+ * to the Supabase profile that signed in. Users see their sessions on the
+ * profile page and can sign out any of them; admins can sign a user out
+ * everywhere.
+ */
+
+// The profile fields a session's tokens are issued from
+export interface SessionAccount {
+  id: string;
+  email: string;
+  userType: string;
+}
+
+export interface SessionSummary {
+  id: number;
+  browser: string;
+  os: string;
+  ipAddress: string | null;
+  createdAt: Date;
+  // Updated every few minutes while the device is in use, so approximate
+  lastUsedAt: Date;
+  expiresAt: Date;
+  // The device the request came from
+  current: boolean;
+}
+
+/**
+ * A one-line label such as "Firefox on Linux"
+ */
+export function deviceName(device: Pick<SessionSummary, 'browser' | 'os'>): string {
+  if (device.browser === 'Unknown' && device.os === 'Unknown') return 'Unknown device';
+  if (device.os === 'Unknown') return device.browser;
+  if (device.browser === 'Unknown') return device.os;
+  return `${device.browser} on ${device.os}`;
+}
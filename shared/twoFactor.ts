@@ -0,0 +1,68 @@
+/**
+ * Two-factor authentication
+ *
+ * Admins and vendors can protect their account with a TOTP authenticator app
+ * (Google Authenticator, 1Password, ...). Enrolling shows a QR code and is
+ * confirmed with a first code, which also issues one-time recovery codes for
+ * a lost phone. Signing in then takes a code after the password. Admins must
+ * enrol: their first sign-in walks them through it. An admin can reset a
+ * user's two-factor when they lose both their phone and recovery codes.
+ */
+
+export const TWO_FACTOR_ISSUER = 'Pinnity';
+
+export const TOTP_DIGITS = 6;
+export const TOTP_PERIOD_SECONDS = 30;
+
+export const RECOVERY_CODE_COUNT = 10;
+
+// How long the password step of a sign-in stays valid while the code is entered
+export const TWO_FACTOR_CHALLENGE_MINUTES = 5;
+
+// Wrong codes one sign-in may enter before the password has to be entered again
+export const MAX_TWO_FACTOR_CHALLENGE_ATTEMPTS = 5;
+
+export function canUseTwoFactor(userType: string | null | undefined): boolean {
+  return userType === 'admin' || userType === 'business';
+}
+
+export function isTwoFactorRequired(userType: string | null | undefined): boolean {
+  return userType === 'admin';
+}
+
+export interface TwoFactorStatus {
+  available: boolean;
+  enabled: boolean;
+  required: boolean;
+  enabledAt: Date | null;
+  recoveryCodesLeft: number;
+}
+
+// What the authenticator app needs; otpauthUrl is what the QR code encodes
+export interface TwoFactorSetup {
+  secret: string;
+  otpauthUrl: string;
+}
+
+// Login response when the password was right but a code is still needed
+export interface TwoFactorChallenge {
+  twoFactorRequired: true;
+  challengeToken: string;
+  // The account has to enrol before it can finish signing in
+  enrolmentRequired: boolean;
+}
+
+export function isTwoFactorChallenge(response: unknown): response is TwoFactorChallenge {
+  return !!response && (response as TwoFactorChallenge).twoFactorRequired === true;
+}
+
+/**
+ * Recovery codes look like "k7m2x-q9vfp"; spaces, dashes and case are ignored when checking one
+ */
+export function normalizeRecoveryCode(code: string): string {
+  return code.replace(/[\s-]/g, '').toLowerCase();
+}
+
+export function isTotpCode(code: string): boolean {
+  return new RegExp(`^\\d{${TOTP_DIGITS}}$`).test(code.replace(/\s/g, ''));
+}
@@ -34,6 +34,20 @@ interface SecurityConfig {
   readonly jwtExpiresIn: string;
   readonly rateLimitWindow: number;
   readonly rateLimitMax: number;
+  readonly loginThrottle: LoginThrottleConfig;
+}
+
+/**
+ * Per-account login throttling: failed password attempts on one email
+ * address, wherever they come from
+ */
+export interface LoginThrottleConfig {
+  readonly freeAttempts: number;        // Failures allowed before delays start
+  readonly baseDelayMs: number;         // Wait after the first failure past the free ones; doubles with each further failure
+  readonly maxDelayMs: number;
+  readonly lockoutThreshold: number;    // Failures that lock the account
+  readonly lockoutMinutes: number;
+  readonly failureWindowMinutes: number; // Failures older than this are forgotten
 }
 
 interface InfrastructureConfig {
@@ -160,6 +174,37 @@ const schemas = {
     .min(10)
     .default(100),
   
+  // Per-account login throttling
+  loginFreeAttempts: z.coerce.number()
+    .int()
+    .min(1)
+    .default(3),
+  
+  loginDelayBaseMs: z.coerce.number()
+    .int()
+    .min(0)
+    .default(1000), // 1 second
+  
+  loginDelayMaxMs: z.coerce.number()
+    .int()
+    .min(0)
+    .default(60000), // 1 minute
+  
+  loginLockoutThreshold: z.coerce.number()
+    .int()
+    .min(3, { message: 'LOGIN_LOCKOUT_THRESHOLD below 3 locks users out over typos' })
+    .default(10),
+  
+  loginLockoutMinutes: z.coerce.number()
+    .int()
+    .min(1)
+    .default(30),
+  
+  loginFailureWindowMinutes: z.coerce.number()
+    .int()
+    .min(1)
+    .default(60),
+  
   // Feature settings
   dealExpirationNotificationHours: z.coerce.number()
     .int()
@@ -283,6 +328,54 @@ const ENV_CONFIG: EnvVarConfig[] = [
     requireInProduction: false,
     description: 'Maximum requests per rate limit window'
   },
+  {
+    key: 'LOGIN_FREE_ATTEMPTS',
+    schema: schemas.loginFreeAttempts,
+    isSecret: false,
+    isRequired: false,
+    requireInProduction: false,
+    description: 'Failed logins on one account before each attempt has to wait'
+  },
+  {
+    key: 'LOGIN_DELAY_BASE_MS',
+    schema: schemas.loginDelayBaseMs,
+    isSecret: false,
+    isRequired: false,
+    requireInProduction: false,
+    description: 'First wait between failed logins on one account, in milliseconds; doubles with each failure'
+  },
+  {
+    key: 'LOGIN_DELAY_MAX_MS',
+    schema: schemas.loginDelayMaxMs,
+    isSecret: false,
+    isRequired: false,
+    requireInProduction: false,
+    description: 'Longest wait between failed logins on one account, in milliseconds'
+  },
+  {
+    key: 'LOGIN_LOCKOUT_THRESHOLD',
+    schema: schemas.loginLockoutThreshold,
+    isSecret: false,
+    isRequired: false,
+    requireInProduction: false,
+    description: 'Failed logins that temporarily lock an account'
+  },
+  {
+    key: 'LOGIN_LOCKOUT_MINUTES',
+    schema: schemas.loginLockoutMinutes,
+    isSecret: false,
+    isRequired: false,
+    requireInProduction: false,
+    description: 'How long a locked account stays locked unless unlocked by email or an admin'
+  },
+  {
+    key: 'LOGIN_FAILURE_WINDOW_MINUTES',
+    schema: schemas.loginFailureWindowMinutes,
+    isSecret: false,
+    isRequired: false,
+    requireInProduction: false,
+    description: 'Minutes after which failed logins on an account are forgotten'
+  },
   
   // Infrastructure settings
   {
@@ -503,6 +596,14 @@ function loadConfig(): AppConfig {
       jwtExpiresIn: envValues.get('JWT_EXPIRES_IN'),
       rateLimitWindow: envValues.get('RATE_LIMIT_WINDOW'),
       rateLimitMax: envValues.get('RATE_LIMIT_MAX'),
+      loginThrottle: {
+        freeAttempts: envValues.get('LOGIN_FREE_ATTEMPTS'),
+        baseDelayMs: envValues.get('LOGIN_DELAY_BASE_MS'),
+        maxDelayMs: envValues.get('LOGIN_DELAY_MAX_MS'),
+        lockoutThreshold: envValues.get('LOGIN_LOCKOUT_THRESHOLD'),
+        lockoutMinutes: envValues.get('LOGIN_LOCKOUT_MINUTES'),
+        failureWindowMinutes: envValues.get('LOGIN_FAILURE_WINDOW_MINUTES'),
+      },
     },
     infrastructure: {
       databaseUrl: envValues.get('DATABASE_URL'),
@@ -15,6 +15,7 @@ export {
   getPublicConfig,
   logAppConfig
 } from './appConfig';
+export type { LoginThrottleConfig } from './appConfig';
 
 // Export configuration utilities
 export {
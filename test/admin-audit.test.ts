@@ -0,0 +1,130 @@
+import { MemStorage } from '../server/storage';
+import { exportAdminAuditCsv, recordAdminAction, verifyAdminAuditChain } from '../server/services/AdminAudit';
+import { verifyAuditChain } from '../server/utils/auditChain';
+
+/**
+ * Admin audit log: sanitized, hash-chained entries for every admin action
+ */
+
+const actor = { userId: 1, ipAddress: '203.0.113.7', userAgent: 'vitest' };
+
+describe('recordAdminAction', () => {
+  it('keeps only the fields that changed, with PII masked and secrets redacted', async () => {
+    const storage = new MemStorage();
+
+    const entry = await recordAdminAction(actor, {
+      action: 'user.update',
+      targetType: 'user',
+      targetId: 42,
+      before: { email: 'jane@example.com', firstName: 'Jane', phone: '+15555550123', password: 'old-hash', userType: 'individual' },
+      after: { email: 'janet@example.com', firstName: 'Janet', phone: '+15555550123', password: 'new-hash', userType: 'business' },
+    }, storage);
+
+    expect(entry).toMatchObject({
+      actorId: 1,
+      action: 'user.update',
+      targetType: 'user',
+      targetId: '42',
+      before: { email: 'j***@example.com', firstName: '[FIRSTNAME_REDACTED]', password: '[REDACTED]', userType: 'individual' },
+      after: { email: 'j***@example.com', firstName: '[FIRSTNAME_REDACTED]', password: '[REDACTED]', userType: 'business' },
+      ipAddress: '203.0.113.7',
+      userAgent: 'vitest',
+      previousHash: null,
+    });
+    expect(entry?.before).not.toHaveProperty('phone');
+    expect(entry?.hash).toMatch(/^[0-9a-f]{64}$/);
+  });
+
+  it('stores dates as strings', async () => {
+    const storage = new MemStorage();
+    const createdAt = new Date('2026-01-02T03:04:05.000Z');
+
+    const entry = await recordAdminAction(actor, { action: 'user.delete', targetType: 'user', targetId: 7, before: { createdAt } }, storage);
+
+    expect(entry?.before).toEqual({ createdAt: '2026-01-02T03:04:05.000Z' });
+  });
+
+  it('refuses an entry that has no admin to record it against', async () => {
+    const storage = new MemStorage();
+    const error = jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    const entry = await recordAdminAction({ ...actor, userId: null }, { action: 'business.delete', targetType: 'business', targetId: 3 }, storage);
+
+    expect(entry).toBeNull();
+    expect(await storage.getAdminAuditChain()).toEqual([]);
+    expect(error).toHaveBeenCalledWith(expect.stringContaining('no admin to record it against'));
+    error.mockRestore();
+  });
+});
+
+describe('audit hash chain', () => {
+  async function writeEntries(storage: MemStorage, count: number) {
+    for (let i = 1; i <= count; i++) {
+      await recordAdminAction(actor, { action: 'deal.approve', targetType: 'deal', targetId: i, after: { status: 'active' } }, storage);
+    }
+    return await storage.getAdminAuditChain();
+  }
+
+  it('chains each entry to the one before it', async () => {
+    const storage = new MemStorage();
+    const chain = await writeEntries(storage, 3);
+
+    expect(chain[1].previousHash).toBe(chain[0].hash);
+    expect(chain[2].previousHash).toBe(chain[1].hash);
+    expect(await verifyAdminAuditChain(storage)).toEqual({ valid: true, checked: 3, brokenAt: null, headHash: chain[2].hash });
+  });
+
+  it('reports the first entry that was edited', async () => {
+    const storage = new MemStorage();
+    const chain = await writeEntries(storage, 3);
+
+    const tampered = chain.map(entry => entry.id === chain[1].id ? { ...entry, after: { status: 'rejected' } } : entry);
+
+    expect(verifyAuditChain(tampered)).toMatchObject({ valid: false, checked: 1, brokenAt: chain[1].id });
+  });
+
+  it('reports where an entry was removed', async () => {
+    const storage = new MemStorage();
+    const chain = await writeEntries(storage, 3);
+
+    expect(verifyAuditChain([chain[0], chain[2]])).toMatchObject({ valid: false, brokenAt: chain[2].id });
+  });
+});
+
+describe('getAdminAuditEntries', () => {
+  it('filters by actor, action prefix and target, newest first', async () => {
+    const storage = new MemStorage();
+    await recordAdminAction(actor, { action: 'deal.approve', targetType: 'deal', targetId: 1 }, storage);
+    await recordAdminAction({ ...actor, userId: 2 }, { action: 'deal.reject', targetType: 'deal', targetId: 2 }, storage);
+    await recordAdminAction(actor, { action: 'business.delete', targetType: 'business', targetId: 1 }, storage);
+    await recordAdminAction(actor, { action: 'deal.update_status', targetType: 'deal', targetId: 1 }, storage);
+
+    const dealActions = await storage.getAdminAuditEntries({ action: 'deal.' });
+    expect(dealActions.map(entry => entry.action)).toEqual(['deal.update_status', 'deal.reject', 'deal.approve']);
+
+    const byActor = await storage.getAdminAuditEntries({ actorId: 1, targetType: 'deal', targetId: '1' });
+    expect(byActor.map(entry => entry.action)).toEqual(['deal.update_status', 'deal.approve']);
+
+    const secondPage = await storage.getAdminAuditEntries({ limit: 2, offset: 2 });
+    expect(secondPage.map(entry => entry.action)).toEqual(['deal.reject', 'deal.approve']);
+  });
+});
+
+describe('exportAdminAuditCsv', () => {
+  it('quotes values and neutralizes formulas', async () => {
+    const storage = new MemStorage();
+    await recordAdminAction({ ...actor, userAgent: '=HYPERLINK("x")' }, {
+      action: 'business.update',
+      targetType: 'business',
+      targetId: 5,
+      before: { businessName: 'Old, Name' },
+      after: { businessName: 'New Name' },
+    }, storage);
+
+    const [header, row] = (await exportAdminAuditCsv({}, storage)).trim().split('\r\n');
+
+    expect(header).toBe('id,createdAt,actorId,action,targetType,targetId,batchId,ipAddress,userAgent,details,before,after,previousHash,hash');
+    expect(row).toContain(`"'=HYPERLINK(""x"")"`);
+    expect(row).toContain('"{""businessName"":""Old, Name""}"');
+  });
+});
@@ -0,0 +1,176 @@
+import { MemStorage, type BulkActionContext } from '../server/storage';
+import { runBulkDealAction, runBulkUserAction } from '../server/services/BulkActions';
+
+/**
+ * Bulk admin actions: one action applied to many records, with a result and
+ * an audit entry for every item
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+async function setup() {
+  const storage = new MemStorage();
+  const admin = await storage.createIndividualUser({
+    email: 'bulk-admin@example.com',
+    password: 'Password123!',
+    firstName: 'Bulk',
+    lastName: 'Admin',
+    phone: '+15555550121',
+    address: '1 Admin Street',
+  });
+  const vendor = await storage.createBusinessUser(
+    {
+      email: 'bulk-vendor@example.com',
+      password: 'Password123!',
+      firstName: 'Test',
+      lastName: 'Vendor',
+      phone: '+15555550122',
+      address: '1 Test Street',
+    },
+    {
+      businessName: 'Bulk Bakery',
+      businessCategory: 'food',
+      governmentId: 'gov-id',
+      proofOfAddress: 'proof-of-address',
+      proofOfBusiness: 'proof-of-business',
+    }
+  );
+  await storage.createRejectionReason({
+    code: 'missing_terms',
+    targetType: 'deal',
+    label: 'Missing terms',
+    template: 'Add the terms customers must meet to redeem this deal.',
+  });
+
+  const createDeal = async (status: string = 'pending') => {
+    const deal = await storage.createDeal({
+      title: `Deal ${Math.random()}`,
+      description: 'Test deal',
+      category: 'food',
+      dealType: 'percent_off',
+      discount: '20%',
+      status,
+      businessId: vendor.business.id,
+      startDate: new Date(Date.now() - DAY_MS),
+      endDate: new Date(Date.now() + 7 * DAY_MS),
+    });
+    await storage.createDealApproval({ dealId: deal.id, submitterId: vendor.id });
+    return deal;
+  };
+
+  const context: BulkActionContext = { actorId: admin.id, batchId: 'batch-1', ipAddress: '127.0.0.1', userAgent: 'vitest' };
+
+  return { storage, admin, vendor, createDeal, context };
+}
+
+describe('bulkUpdateDeals', () => {
+  it('approves pending deals and reports the ones that could not be', async () => {
+    const { storage, createDeal, context, admin } = await setup();
+    const first = await createDeal();
+    const second = await createDeal();
+    const live = await createDeal('active');
+
+    const results = await storage.bulkUpdateDeals([first.id, live.id, 999, second.id], 'approve', context);
+
+    expect(results).toEqual([
+      { id: first.id, success: true },
+      { id: live.id, success: false, error: 'Deal is active, not awaiting review' },
+      { id: 999, success: false, error: 'Deal not found' },
+      { id: second.id, success: true },
+    ]);
+    expect((await storage.getDeal(first.id))?.status).toBe('active');
+    const [approval] = await storage.getDealApprovalsByDealId(first.id);
+    expect(approval).toMatchObject({ status: 'approved', reviewerId: admin.id });
+    expect(await storage.getModerationDecisions('deal', second.id)).toMatchObject([{ decision: 'approved' }]);
+  });
+
+  it('writes one audit entry per changed item, tagged with the batch', async () => {
+    const { storage, createDeal, context, admin } = await setup();
+    const deal = await createDeal('active');
+
+    await storage.bulkUpdateDeals([deal.id, 999], 'expire', context);
+
+    const entries = await storage.getAdminAuditEntries({ batchId: 'batch-1' });
+    expect(entries).toHaveLength(1);
+    expect(entries[0]).toMatchObject({
+      actorId: admin.id,
+      action: 'deal.expire',
+      targetType: 'deal',
+      targetId: String(deal.id),
+      details: { fromStatus: 'active', toStatus: 'expired' },
+      ipAddress: '127.0.0.1',
+      userAgent: 'vitest',
+    });
+  });
+
+  it('features, unfeatures and deletes deals', async () => {
+    const { storage, createDeal, context } = await setup();
+    const featured = await createDeal('active');
+    const removed = await createDeal('active');
+
+    await storage.bulkUpdateDeals([featured.id], 'feature', context);
+    expect((await storage.getDeal(featured.id))?.featured).toBe(true);
+    await storage.bulkUpdateDeals([featured.id], 'unfeature', context);
+    expect((await storage.getDeal(featured.id))?.featured).toBe(false);
+
+    await storage.bulkUpdateDeals([removed.id], 'delete', context);
+    expect(await storage.getDeal(removed.id)).toBeUndefined();
+  });
+});
+
+describe('bulkUpdateBusinesses', () => {
+  it('verifies businesses once and records the shared rejection reason', async () => {
+    const { storage, vendor, context } = await setup();
+
+    expect(await storage.bulkUpdateBusinesses([vendor.business.id], 'approve', context)).toEqual([
+      { id: vendor.business.id, success: true },
+    ]);
+    expect(await storage.bulkUpdateBusinesses([vendor.business.id], 'approve', context)).toEqual([
+      { id: vendor.business.id, success: false, error: 'Business is already verified' },
+    ]);
+
+    await storage.bulkUpdateBusinesses([vendor.business.id], 'reject', {
+      ...context,
+      rejection: { feedback: 'Documents are unreadable.', reasonCodes: ['unreadable_documents'], note: null },
+    });
+
+    expect(await storage.getBusiness(vendor.business.id)).toMatchObject({
+      verificationStatus: 'rejected',
+      verificationFeedback: 'Documents are unreadable.',
+    });
+    const decisions = await storage.getModerationDecisions('business', vendor.business.id);
+    expect(decisions.map(decision => decision.reasonCodes)).toContainEqual(['unreadable_documents']);
+  });
+});
+
+describe('bulk action services', () => {
+  it('needs catalogue reasons to reject and uses them for every deal', async () => {
+    const { storage, createDeal, admin } = await setup();
+    const deals = [await createDeal(), await createDeal()];
+    const ids = deals.map(deal => deal.id);
+
+    await expect(runBulkDealAction('reject', ids, { reasonCodes: [] }, { userId: admin.id }, storage))
+      .rejects.toMatchObject({ name: 'RejectionReasonError' });
+    expect((await storage.getDeal(ids[0]))?.status).toBe('pending');
+
+    const summary = await runBulkDealAction('reject', [...ids, ids[0]], { reasonCodes: ['missing_terms'] }, { userId: admin.id }, storage);
+
+    expect(summary).toMatchObject({ action: 'reject', succeeded: 2, failed: 0 });
+    for (const id of ids) {
+      expect(await storage.getDeal(id)).toMatchObject({
+        status: 'rejected',
+        rejectionReason: 'Add the terms customers must meet to redeem this deal.',
+      });
+    }
+    expect(await storage.getAdminAuditEntries({ batchId: summary.batchId })).toHaveLength(2);
+  });
+
+  it('reports users it cannot find', async () => {
+    const { storage, admin } = await setup();
+    const id = '6f1c2d4e-8a3b-4c5d-9e7f-0a1b2c3d4e5f';
+
+    const summary = await runBulkUserAction('deactivate', [id], { userId: admin.id }, storage);
+
+    expect(summary).toMatchObject({ succeeded: 0, failed: 1, results: [{ id, success: false, error: 'User not found' }] });
+  });
+});
@@ -0,0 +1,88 @@
+import { isOpenAt, getOpenStatus, describeOpenStatus, openingHoursTimeZone, type OpeningHours } from '../shared/businessHours';
+
+/**
+ * Business opening hours: "is open at time T", overnight ranges and closed days
+ */
+
+// Times are read in UTC so the tests don't depend on the machine's timezone
+const TZ = 'UTC';
+const at = (isoDateTime: string) => new Date(`${isoDateTime}Z`);
+
+function hours(dayOfWeek: number, openTime: string | null, closeTime: string | null, isClosed = false): OpeningHours {
+  return { dayOfWeek, openTime, closeTime, isClosed };
+}
+
+// 2026-10-19 is a Monday
+const WEEKDAY_HOURS = [1, 2, 3, 4, 5].map(day => hours(day, '09:00', '17:00'));
+
+describe('isOpenAt', () => {
+  it('is open between opening and closing time', () => {
+    expect(isOpenAt(WEEKDAY_HOURS, at('2026-10-19T09:00:00'), TZ)).toBe(true);
+    expect(isOpenAt(WEEKDAY_HOURS, at('2026-10-19T16:59:00'), TZ)).toBe(true);
+    expect(isOpenAt(WEEKDAY_HOURS, at('2026-10-19T17:00:00'), TZ)).toBe(false);
+    expect(isOpenAt(WEEKDAY_HOURS, at('2026-10-19T08:59:00'), TZ)).toBe(false);
+  });
+
+  it('is closed on days marked closed or without hours', () => {
+    const withClosedSaturday = [...WEEKDAY_HOURS, hours(6, '09:00', '17:00', true)];
+
+    // Saturday is marked closed, Sunday has no row
+    expect(isOpenAt(withClosedSaturday, at('2026-10-24T12:00:00'), TZ)).toBe(false);
+    expect(isOpenAt(withClosedSaturday, at('2026-10-25T12:00:00'), TZ)).toBe(false);
+  });
+
+  it('stays open past midnight for overnight ranges', () => {
+    // Friday 22:00 to Saturday 02:00
+    const bar = [hours(5, '22:00', '02:00')];
+
+    expect(isOpenAt(bar, at('2026-10-23T21:59:00'), TZ)).toBe(false);
+    expect(isOpenAt(bar, at('2026-10-23T23:30:00'), TZ)).toBe(true);
+    expect(isOpenAt(bar, at('2026-10-24T01:59:00'), TZ)).toBe(true);
+    expect(isOpenAt(bar, at('2026-10-24T02:00:00'), TZ)).toBe(false);
+    // Saturday night has no opening of its own
+    expect(isOpenAt(bar, at('2026-10-24T23:30:00'), TZ)).toBe(false);
+  });
+
+  it('treats midnight to midnight as open all day', () => {
+    expect(isOpenAt([hours(1, '00:00', '00:00')], at('2026-10-19T23:59:00'), TZ)).toBe(true);
+  });
+
+  it('reads hours in the given timezone', () => {
+    // 09:30 in Auckland (UTC+13) is 20:30 UTC the day before
+    expect(isOpenAt(WEEKDAY_HOURS, at('2026-10-19T20:30:00'), 'Pacific/Auckland')).toBe(true);
+    expect(isOpenAt(WEEKDAY_HOURS, at('2026-10-19T20:30:00'), TZ)).toBe(false);
+  });
+});
+
+describe('getOpenStatus', () => {
+  it('reports the closing time while open', () => {
+    const status = getOpenStatus(WEEKDAY_HOURS, at('2026-10-19T12:00:00'), TZ)!;
+
+    expect(status).toEqual({ isOpen: true, closesAt: '17:00', opensAt: null });
+    expect(describeOpenStatus(status)).toBe('Open until 5pm');
+  });
+
+  it('reports the next opening while closed', () => {
+    // Friday evening; next opening is Monday morning
+    const status = getOpenStatus(WEEKDAY_HOURS, at('2026-10-23T18:00:00'), TZ)!;
+
+    expect(status.isOpen).toBe(false);
+    expect(status.opensAt).toEqual({ day: 1, time: '09:00', daysAway: 3 });
+    expect(describeOpenStatus(status)).toBe('Closed · opens Mon 9am');
+  });
+
+  it('returns null for businesses without hours', () => {
+    expect(getOpenStatus([], at('2026-10-19T12:00:00'), TZ)).toBeNull();
+  });
+});
+
+describe('openingHoursTimeZone', () => {
+  const schedule = { timezone: 'America/New_York', windows: [], blackoutDates: [] };
+
+  it("prefers the business's timezone, then the deal schedule's", () => {
+    expect(openingHoursTimeZone({ schedule, business: { timezone: 'Pacific/Auckland' } })).toBe('Pacific/Auckland');
+    expect(openingHoursTimeZone({ schedule, business: { timezone: null } })).toBe('America/New_York');
+    expect(openingHoursTimeZone({ schedule: null, business: { timezone: null } })).toBeUndefined();
+  });
+});
+
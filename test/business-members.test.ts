@@ -0,0 +1,176 @@
+import { MemStorage } from '../server/storage';
+import {
+  acceptBusinessInvitation,
+  changeBusinessMemberRole,
+  hashInvitationToken,
+  inviteBusinessMember,
+  removeBusinessMember,
+  transferBusinessOwnership,
+  BusinessMembershipError
+} from '../server/services/BusinessMembers';
+import { BUSINESS_PERMISSIONS, hasBusinessPermission } from '../shared/businessMembers';
+
+/**
+ * Business teams: email invitations, roles and ownership
+ */
+
+async function setup() {
+  const storage = new MemStorage();
+  const owner = await storage.createBusinessUser(
+    {
+      email: 'owner@example.com',
+      password: 'Password123!',
+      firstName: 'Olive',
+      lastName: 'Owner',
+      phone: '+15555550131',
+      address: '1 Main Street',
+    },
+    {
+      businessName: 'Team Bakery',
+      businessCategory: 'food',
+      governmentId: 'gov-id',
+      proofOfAddress: 'proof-of-address',
+      proofOfBusiness: 'proof-of-business',
+    }
+  );
+  const createCustomer = (email: string) => storage.createIndividualUser({
+    email,
+    password: 'Password123!',
+    firstName: 'Casey',
+    lastName: 'Cashier',
+    phone: '+15555550132',
+    address: '2 Side Street',
+  });
+
+  // Invite an address and accept as its account
+  const join = async (email: string, role: 'manager' | 'staff') => {
+    const user = await createCustomer(email);
+    const { token } = await inviteBusinessMember(owner.business, { email, role }, owner.id, storage);
+    await acceptBusinessInvitation(token, user, storage);
+    return user;
+  };
+
+  return { storage, owner, business: owner.business, createCustomer, join };
+}
+
+async function expectMembershipError(promise: Promise<unknown>, code: string) {
+  await expect(promise).rejects.toBeInstanceOf(BusinessMembershipError);
+  await expect(promise).rejects.toMatchObject({ code });
+}
+
+describe('business roles', () => {
+  it('lets staff only verify redemptions and managers also run deals', () => {
+    expect(BUSINESS_PERMISSIONS.filter(permission => hasBusinessPermission('staff', permission))).toEqual(['redemptions.verify']);
+    expect(BUSINESS_PERMISSIONS.filter(permission => hasBusinessPermission('manager', permission))).toEqual(['redemptions.verify', 'deals.manage']);
+    expect(BUSINESS_PERMISSIONS.every(permission => hasBusinessPermission('owner', permission))).toBe(true);
+  });
+});
+
+describe('business invitations', () => {
+  it('stores only a hash of the emailed token', async () => {
+    const { storage, owner, business } = await setup();
+
+    const { invitation, token } = await inviteBusinessMember(business, { email: ' Cashier@Example.com ', role: 'staff' }, owner.id, storage);
+
+    expect(invitation.email).toBe('cashier@example.com');
+    expect(invitation.tokenHash).toBe(hashInvitationToken(token));
+    expect(invitation.tokenHash).not.toContain(token);
+  });
+
+  it('adds the invited account to the team as a business account', async () => {
+    const { storage, business, join } = await setup();
+
+    const cashier = await join('cashier@example.com', 'staff');
+
+    expect(await storage.getBusinessMembership(cashier.id)).toEqual({ business, role: 'staff' });
+    expect((await storage.getUser(cashier.id))?.userType).toBe('business');
+    expect((await storage.getBusinessTeam(business.id)).map(member => [member.email, member.role])).toEqual([
+      ['owner@example.com', 'owner'],
+      ['cashier@example.com', 'staff'],
+    ]);
+  });
+
+  it('only works once, for the invited address', async () => {
+    const { storage, owner, business, createCustomer } = await setup();
+    const cashier = await createCustomer('cashier@example.com');
+    const someoneElse = await createCustomer('someone@example.com');
+    const { token } = await inviteBusinessMember(business, { email: 'cashier@example.com', role: 'staff' }, owner.id, storage);
+
+    await expectMembershipError(acceptBusinessInvitation(token, someoneElse, storage), 'email_mismatch');
+    await acceptBusinessInvitation(token, cashier, storage);
+    await expectMembershipError(acceptBusinessInvitation(token, cashier, storage), 'invitation_used');
+  });
+
+  it('rejects expired and replaced invitations', async () => {
+    const { storage, owner, business, createCustomer } = await setup();
+    const cashier = await createCustomer('cashier@example.com');
+    await storage.createBusinessInvitation({
+      businessId: business.id,
+      email: 'cashier@example.com',
+      role: 'staff',
+      tokenHash: hashInvitationToken('expired-token'),
+      invitedBy: owner.id,
+      expiresAt: new Date(Date.now() - 1000),
+    });
+    const first = await inviteBusinessMember(business, { email: 'cashier@example.com', role: 'staff' }, owner.id, storage);
+    const second = await inviteBusinessMember(business, { email: 'cashier@example.com', role: 'manager' }, owner.id, storage);
+
+    await expectMembershipError(acceptBusinessInvitation('expired-token', cashier, storage), 'invitation_expired');
+    await expectMembershipError(acceptBusinessInvitation(first.token, cashier, storage), 'invitation_invalid');
+    expect(await acceptBusinessInvitation(second.token, cashier, storage)).toEqual({ business, role: 'manager' });
+  });
+
+  it("doesn't let an account join a second business", async () => {
+    const { storage, owner, business, join } = await setup();
+    const cashier = await join('cashier@example.com', 'staff');
+
+    await expectMembershipError(
+      inviteBusinessMember(business, { email: 'cashier@example.com', role: 'manager' }, owner.id, storage),
+      'already_member'
+    );
+
+    // An invitation from another business can't be accepted either
+    const other = await storage.createBusinessUser(
+      { email: 'other@example.com', password: 'Password123!', firstName: 'Other', lastName: 'Owner', phone: '+15555550133', address: '3 Road' },
+      { businessName: 'Other Cafe', businessCategory: 'food', governmentId: 'g', proofOfAddress: 'a', proofOfBusiness: 'b' }
+    );
+    const { token } = await inviteBusinessMember(other.business, { email: 'cashier@example.com', role: 'staff' }, other.id, storage);
+    await expectMembershipError(acceptBusinessInvitation(token, (await storage.getUser(cashier.id))!, storage), 'already_member');
+  });
+});
+
+describe('managing the team', () => {
+  it('changes roles and removes members, but never the owner', async () => {
+    const { storage, owner, business, join } = await setup();
+    const cashier = await join('cashier@example.com', 'staff');
+
+    await changeBusinessMemberRole(business, cashier.id, 'manager', storage);
+    expect((await storage.getBusinessMembership(cashier.id))?.role).toBe('manager');
+
+    await expectMembershipError(changeBusinessMemberRole(business, owner.id, 'staff', storage), 'owner_not_allowed');
+    await expectMembershipError(removeBusinessMember(business, owner.id, storage), 'owner_not_allowed');
+
+    await removeBusinessMember(business, cashier.id, storage);
+    expect(await storage.getBusinessMembership(cashier.id)).toBeUndefined();
+    expect((await storage.getUser(cashier.id))?.userType).toBe('individual');
+    await expectMembershipError(removeBusinessMember(business, cashier.id, storage), 'member_not_found');
+  });
+
+  it('transfers ownership to a member and keeps the previous owner as a manager', async () => {
+    const { storage, owner, business, createCustomer, join } = await setup();
+    const manager = await join('manager@example.com', 'manager');
+    const outsider = await createCustomer('outsider@example.com');
+
+    await expectMembershipError(transferBusinessOwnership(business, outsider.id, storage), 'member_not_found');
+
+    const transferred = await transferBusinessOwnership(business, manager.id, storage);
+
+    expect(transferred.userId).toBe(manager.id);
+    expect((await storage.getBusinessMembership(manager.id))?.role).toBe('owner');
+    expect((await storage.getBusinessMembership(owner.id))?.role).toBe('manager');
+    expect((await storage.getBusinessTeam(business.id)).map(member => [member.email, member.role])).toEqual([
+      ['manager@example.com', 'owner'],
+      ['owner@example.com', 'manager'],
+    ]);
+  });
+});
@@ -0,0 +1,111 @@
+import { MemStorage } from '../server/storage';
+import { applyDealLifecycle } from '../server/utils/dealLifecycle';
+
+/**
+ * Scheduled deal lifecycle: activation, expiry, archiving and status history
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOW = new Date('2026-10-19T12:00:00Z');
+const daysFromNow = (days: number) => new Date(NOW.getTime() + days * DAY_MS);
+const ARCHIVE_AFTER_DAYS = 90;
+
+async function setup() {
+  const storage = new MemStorage();
+  const { business, ...user } = await storage.createBusinessUser(
+    {
+      email: 'lifecycle@example.com',
+      password: 'Password123!',
+      firstName: 'Test',
+      lastName: 'Vendor',
+      phone: '+15555550101',
+      address: '1 Test Street',
+    },
+    {
+      businessName: 'Lifecycle Cafe',
+      businessCategory: 'food',
+      governmentId: 'gov-id',
+      proofOfAddress: 'proof-of-address',
+      proofOfBusiness: 'proof-of-business',
+    }
+  );
+
+  const createDeal = (status: string, startDays: number, endDays: number) =>
+    storage.createDeal({
+      businessId: business.id,
+      title: `${status} deal`,
+      description: 'Test deal',
+      category: 'food',
+      startDate: daysFromNow(startDays),
+      endDate: daysFromNow(endDays),
+      dealType: 'percent_off',
+      status,
+    });
+
+  return { storage, user, createDeal };
+}
+
+describe('deal lifecycle', () => {
+  it('activates, expires and archives deals by date', async () => {
+    const { storage, createDeal } = await setup();
+    const starting = await createDeal('approved', -1, 7);
+    const ending = await createDeal('active', -30, -1);
+    const stale = await createDeal('expired', -200, -100);
+    const upcoming = await createDeal('approved', 1, 7);
+    const pending = await createDeal('pending', -1, 7);
+
+    const transitions = await applyDealLifecycle(storage, NOW, ARCHIVE_AFTER_DAYS);
+
+    expect(transitions.map(t => [t.dealId, t.toStatus, t.reason])).toEqual([
+      [ending.id, 'expired', 'scheduled_expiry'],
+      [starting.id, 'active', 'scheduled_activation'],
+      [stale.id, 'archived', 'scheduled_archive'],
+    ]);
+    expect((await storage.getDeal(upcoming.id))!.status).toBe('approved');
+    expect((await storage.getDeal(pending.id))!.status).toBe('pending');
+  });
+
+  it('expires approved deals whose end date passed without activating them', async () => {
+    const { storage, createDeal } = await setup();
+    const missed = await createDeal('approved', -10, -1);
+
+    await applyDealLifecycle(storage, NOW, ARCHIVE_AFTER_DAYS);
+
+    const history = await storage.getDealStatusHistory(missed.id);
+    expect(history.map(entry => [entry.fromStatus, entry.toStatus])).toEqual([['approved', 'expired']]);
+  });
+
+  it('is idempotent', async () => {
+    const { storage, createDeal } = await setup();
+    await createDeal('approved', -1, 7);
+    await createDeal('active', -30, -1);
+
+    expect(await applyDealLifecycle(storage, NOW, ARCHIVE_AFTER_DAYS)).toHaveLength(2);
+    expect(await applyDealLifecycle(storage, NOW, ARCHIVE_AFTER_DAYS)).toEqual([]);
+  });
+
+  it('records manual status changes with who made them', async () => {
+    const { storage, user, createDeal } = await setup();
+    const deal = await createDeal('active', -1, 7);
+
+    await storage.updateDealStatus(deal.id, 'expired', { changedBy: user.id });
+    // Setting the same status again is not a transition
+    await storage.updateDealStatus(deal.id, 'expired', { changedBy: user.id });
+
+    const history = await storage.getDealStatusHistory(deal.id);
+    expect(history).toHaveLength(1);
+    expect(history[0]).toMatchObject({ fromStatus: 'active', toStatus: 'expired', reason: 'manual', changedBy: user.id });
+  });
+
+  it('keeps approved deals waiting until their start date', async () => {
+    const { storage, user, createDeal } = await setup();
+    const deal = await createDeal('pending', 3, 10);
+    const approval = await storage.createDealApproval({ dealId: deal.id, submitterId: user.id });
+
+    await storage.updateDealApproval(approval.id, { status: 'approved', reviewerId: user.id });
+
+    expect((await storage.getDeal(deal.id))!.status).toBe('approved');
+    const [entry] = await storage.getDealStatusHistory(deal.id);
+    expect(entry).toMatchObject({ fromStatus: 'pending', toStatus: 'approved', reason: 'approval', changedBy: user.id });
+  });
+});
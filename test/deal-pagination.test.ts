@@ -0,0 +1,125 @@
+import { paginateDeals } from '../server/utils/dealPagination';
+import { InvalidCursorError } from '../server/utils/pagination';
+import type { Deal } from '@shared/schema';
+
+/**
+ * Cursor pagination for deal listings
+ */
+
+function makeDeal(id: number, overrides: Partial<Deal> = {}): Deal {
+  return {
+    id,
+    businessId: 1,
+    title: `Deal ${id}`,
+    description: 'Test deal',
+    category: 'food',
+    imageUrl: null,
+    startDate: new Date('2026-01-01'),
+    endDate: new Date('2026-12-31'),
+    terms: null,
+    discount: null,
+    dealType: 'percent_off',
+    featured: false,
+    requiresPin: true,
+    redemptionCode: null,
+    createdAt: new Date('2026-01-01'),
+    status: 'active',
+    rejectionReason: null,
+    approvalDate: null,
+    maxRedemptionsPerUser: 1,
+    totalRedemptionsLimit: null,
+    redemptionInstructions: null,
+    viewCount: 0,
+    saveCount: 0,
+    redemptionCount: 0,
+    isRecurring: false,
+    recurringDays: [],
+    schedule: null,
+    updatedAt: new Date('2026-01-01'),
+    ...overrides,
+  };
+}
+
+function collectAllPages(deals: Deal[], sort: string, limit: number): number[] {
+  const ids: number[] = [];
+  let cursor: string | undefined;
+
+  do {
+    const page = paginateDeals(deals, { sort, limit: limit.toString(), ...(cursor ? { cursor } : {}) });
+    ids.push(...page.items.map(deal => deal.id));
+    cursor = page.nextCursor ?? undefined;
+  } while (cursor);
+
+  return ids;
+}
+
+describe('paginateDeals', () => {
+  it('returns every deal exactly once across pages, breaking ties by id', () => {
+    // Several deals share a redemption count so the id tie-breaker matters
+    const deals = [5, 3, 9, 1, 7, 2].map(id => makeDeal(id, { redemptionCount: id % 2 === 0 ? 10 : 4 }));
+
+    expect(collectAllPages(deals, 'popular', 2)).toEqual([2, 9, 7, 5, 3, 1]);
+  });
+
+  it('reports the total count and the next cursor', () => {
+    const deals = [1, 2, 3].map(id => makeDeal(id, { createdAt: new Date(2026, 0, id) }));
+
+    const page = paginateDeals(deals, { sort: 'newest', limit: '2' });
+
+    expect(page.items.map(deal => deal.id)).toEqual([3, 2]);
+    expect(page.totalCount).toBe(3);
+    expect(page.nextCursor).toEqual(expect.any(String));
+  });
+
+  it('does not repeat or skip deals when new ones are added between pages', () => {
+    const deals = [1, 2, 3, 4].map(id => makeDeal(id, { endDate: new Date(2026, 5, id) }));
+
+    const first = paginateDeals(deals, { sort: 'endingSoon', limit: '2' });
+    // A deal ending before the cursor appears after the first page was served
+    const updated = [...deals, makeDeal(5, { endDate: new Date(2026, 4, 1) })];
+    const second = paginateDeals(updated, { sort: 'endingSoon', limit: '2', cursor: first.nextCursor! });
+
+    expect(first.items.map(deal => deal.id)).toEqual([1, 2]);
+    expect(second.items.map(deal => deal.id)).toEqual([3, 4]);
+  });
+
+  it('sorts by the numeric value of the discount', () => {
+    const deals = [
+      makeDeal(1, { discount: '10% off' }),
+      makeDeal(2, { discount: 'Buy one get one' }),
+      makeDeal(3, { discount: '$25 off' }),
+    ];
+
+    expect(collectAllPages(deals, 'highestDiscount', 10)).toEqual([3, 1, 2]);
+  });
+
+  it('keeps nearby deals nearest first across pages', () => {
+    const deals = [
+      { ...makeDeal(1, { createdAt: new Date(2026, 0, 3) }), distanceKm: 4.2 },
+      { ...makeDeal(2, { createdAt: new Date(2026, 0, 1) }), distanceKm: 0.5 },
+      { ...makeDeal(3, { createdAt: new Date(2026, 0, 2) }), distanceKm: 1.8 },
+    ];
+
+    const first = paginateDeals(deals, { limit: '2' }, 'distance');
+    const second = paginateDeals(deals, { limit: '2', cursor: first.nextCursor! }, 'distance');
+
+    expect([...first.items, ...second.items].map(deal => deal.id)).toEqual([2, 3, 1]);
+  });
+
+  it('rejects cursors issued for a different sort', () => {
+    const deals = [1, 2, 3].map(id => makeDeal(id));
+    const { nextCursor } = paginateDeals(deals, { sort: 'newest', limit: '1' });
+
+    expect(() => paginateDeals(deals, { sort: 'popular', limit: '1', cursor: nextCursor! }))
+      .toThrow(InvalidCursorError);
+  });
+
+  it('returns the full list when no limit or cursor is given', () => {
+    const deals = Array.from({ length: 150 }, (_, i) => makeDeal(i + 1));
+
+    const page = paginateDeals(deals, {});
+
+    expect(page.items).toHaveLength(150);
+    expect(page.nextCursor).toBeNull();
+  });
+});
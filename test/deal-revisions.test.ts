@@ -0,0 +1,131 @@
+import { MemStorage } from '../server/storage';
+import { submitDealRevision, getDealRevisionHistory } from '../server/services/DealRevisions';
+import { createDealSnapshot, diffDealSnapshots, formatDealFieldValue } from '@shared/dealRevisions';
+
+/**
+ * Deal revision workflow: snapshots per submission, field-level diffs
+ * between review rounds and reviewer comments on individual fields
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+async function setup() {
+  const storage = new MemStorage();
+  const vendor = await storage.createBusinessUser(
+    {
+      email: 'revisions-vendor@example.com',
+      password: 'Password123!',
+      firstName: 'Test',
+      lastName: 'Vendor',
+      phone: '+15555550109',
+      address: '1 Test Street',
+    },
+    {
+      businessName: 'Revision Bakery',
+      businessCategory: 'food',
+      governmentId: 'gov-id',
+      proofOfAddress: 'proof-of-address',
+      proofOfBusiness: 'proof-of-business',
+    }
+  );
+  const admin = await storage.createIndividualUser({
+    email: 'revisions-admin@example.com',
+    password: 'Password123!',
+    firstName: 'Test',
+    lastName: 'Admin',
+    phone: '+15555550110',
+    address: '2 Test Street',
+  });
+  const deal = await storage.createDeal({
+    businessId: vendor.business.id,
+    title: 'Half price bread',
+    description: 'Test deal',
+    category: 'food',
+    startDate: new Date('2026-01-01T00:00:00.000Z'),
+    endDate: new Date(Date.now() + 7 * DAY_MS),
+    dealType: 'percent_off',
+    discount: '50%',
+    status: 'pending',
+  });
+
+  return { storage, vendor, admin, deal };
+}
+
+describe('deal snapshots', () => {
+  it('stores dates as ISO strings so snapshots survive a JSON round trip', async () => {
+    const { deal } = await setup();
+    const snapshot = createDealSnapshot(deal);
+
+    expect(snapshot.startDate).toBe('2026-01-01T00:00:00.000Z');
+    expect(diffDealSnapshots(snapshot, JSON.parse(JSON.stringify(snapshot)))).toEqual([]);
+  });
+
+  it('lists changed fields in form order with labels', async () => {
+    const { deal } = await setup();
+    const before = createDealSnapshot(deal);
+    const after = createDealSnapshot({ ...deal, discount: '40%', title: 'Cheaper bread', recurringDays: [1, 3] });
+
+    expect(diffDealSnapshots(before, after)).toEqual([
+      { field: 'title', label: 'Title', before: 'Half price bread', after: 'Cheaper bread' },
+      { field: 'discount', label: 'Discount', before: '50%', after: '40%' },
+      { field: 'recurringDays', label: 'Recurring days', before: [], after: [1, 3] },
+    ]);
+    expect(formatDealFieldValue('recurringDays', [1, 3])).toBe('Monday, Wednesday');
+    expect(formatDealFieldValue('terms', null)).toBe('—');
+  });
+});
+
+describe('deal revision history', () => {
+  it('starts a new review round when a rejected deal is resubmitted', async () => {
+    const { storage, vendor, admin, deal } = await setup();
+    const first = await storage.createDealApproval({ dealId: deal.id, submitterId: vendor.id });
+    await storage.updateDealApproval(first.id, { status: 'rejected', reviewerId: admin.id, feedback: 'Lower the discount' });
+    const rejected = await storage.updateDealStatus(deal.id, 'rejected');
+
+    const updated = await storage.updateDeal(deal.id, { discount: '40%', status: 'pending' });
+    const second = await submitDealRevision(rejected, updated, vendor.id, storage);
+
+    expect(second).toMatchObject({ dealId: deal.id, status: 'pending', revisionCount: 1 });
+
+    const [latest, original] = await getDealRevisionHistory(deal.id, storage);
+    expect(latest.revision).toBe(2);
+    expect(latest.changes).toEqual([{ field: 'discount', label: 'Discount', before: '50%', after: '40%' }]);
+    expect(original).toMatchObject({ revision: 1, status: 'rejected', changes: [] });
+  });
+
+  it('supersedes the open review round when a pending deal is edited', async () => {
+    const { storage, vendor, deal } = await setup();
+    const first = await storage.createDealApproval({ dealId: deal.id, submitterId: vendor.id });
+
+    const updated = await storage.updateDeal(deal.id, { title: 'Still pending' });
+    const second = await submitDealRevision(deal, updated, vendor.id, storage);
+
+    expect(second).toMatchObject({ dealId: deal.id, status: 'pending', revisionCount: 1 });
+    const history = await storage.getDealApprovalHistory(deal.id);
+    expect(history.find(approval => approval.id === first.id)?.status).toBe('superseded');
+  });
+
+  it('does not start a review round for edits to a live deal', async () => {
+    const { storage, vendor, deal } = await setup();
+    await storage.createDealApproval({ dealId: deal.id, submitterId: vendor.id });
+    const active = await storage.updateDealStatus(deal.id, 'active');
+
+    const updated = await storage.updateDeal(deal.id, { title: 'Still active' });
+
+    expect(await submitDealRevision(active, updated, vendor.id, storage)).toBeNull();
+    expect(await storage.getDealApprovalHistory(deal.id)).toHaveLength(1);
+  });
+
+  it('attaches reviewer comments to the submission they were made on', async () => {
+    const { storage, vendor, admin, deal } = await setup();
+    const first = await storage.createDealApproval({ dealId: deal.id, submitterId: vendor.id });
+    await storage.addDealReviewComment({ approvalId: first.id, dealId: deal.id, field: 'discount', comment: 'Too generous', authorId: admin.id });
+    const second = await storage.createDealApproval({ dealId: deal.id, submitterId: vendor.id });
+    await storage.addDealReviewComment({ approvalId: second.id, dealId: deal.id, field: 'terms', comment: 'Add an expiry', authorId: admin.id });
+
+    const [latest, original] = await getDealRevisionHistory(deal.id, storage);
+
+    expect(latest.comments.map(comment => comment.comment)).toEqual(['Add an expiry']);
+    expect(original.comments.map(comment => comment.comment)).toEqual(['Too generous']);
+  });
+});
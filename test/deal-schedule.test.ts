@@ -0,0 +1,94 @@
+import { isScheduledAt, isScheduledOnDate, getScheduleAvailability } from '../shared/dealSchedule';
+import { assertRedemptionAllowed, RedemptionError } from '../server/storage';
+import type { Deal, DealSchedule } from '@shared/schema';
+
+/**
+ * Recurring deal schedules: time windows, timezones and blackout dates
+ */
+
+// Happy hour 4-6pm Monday to Friday in Auckland, except a public holiday
+const HAPPY_HOUR: DealSchedule = {
+  timezone: 'Pacific/Auckland',
+  windows: [1, 2, 3, 4, 5].map(day => ({ day, start: '16:00', end: '18:00' })),
+  blackoutDates: ['2026-10-26'],
+};
+
+// Auckland is UTC+13 in late October (daylight saving)
+const aucklandTime = (date: string, time: string) => new Date(`${date}T${time}:00+13:00`);
+
+function scheduledDeal(schedule: DealSchedule | null, overrides: Partial<Deal> = {}) {
+  return { isRecurring: true, recurringDays: [], schedule, ...overrides };
+}
+
+describe('deal schedules', () => {
+  it('is only available inside its windows, in the schedule timezone', () => {
+    const deal = scheduledDeal(HAPPY_HOUR);
+
+    // Tuesday 2026-10-20
+    expect(isScheduledAt(deal, aucklandTime('2026-10-20', '16:30'))).toBe(true);
+    expect(isScheduledAt(deal, aucklandTime('2026-10-20', '18:00'))).toBe(false);
+    expect(isScheduledAt(deal, aucklandTime('2026-10-20', '12:00'))).toBe(false);
+    // Saturday
+    expect(isScheduledAt(deal, aucklandTime('2026-10-24', '16:30'))).toBe(false);
+  });
+
+  it('is not available on blackout dates', () => {
+    const deal = scheduledDeal(HAPPY_HOUR);
+
+    // Monday 2026-10-26 is Labour Day
+    expect(isScheduledAt(deal, aucklandTime('2026-10-26', '16:30'))).toBe(false);
+    expect(isScheduledOnDate(deal, aucklandTime('2026-10-26', '09:00'))).toBe(false);
+    expect(isScheduledOnDate(deal, aucklandTime('2026-10-27', '09:00'))).toBe(true);
+  });
+
+  it('runs windows that end before they start past midnight', () => {
+    const deal = scheduledDeal({
+      timezone: 'Pacific/Auckland',
+      windows: [{ day: 5, start: '22:00', end: '02:00' }],
+      blackoutDates: [],
+    });
+
+    // Friday night into Saturday morning
+    expect(isScheduledAt(deal, aucklandTime('2026-10-23', '23:00'))).toBe(true);
+    expect(isScheduledAt(deal, aucklandTime('2026-10-24', '01:30'))).toBe(true);
+    expect(isScheduledAt(deal, aucklandTime('2026-10-24', '02:30'))).toBe(false);
+  });
+
+  it('reports the current and next windows', () => {
+    const deal = scheduledDeal(HAPPY_HOUR);
+
+    const during = getScheduleAvailability(deal, aucklandTime('2026-10-23', '17:00'));
+    expect(during.isAvailableNow).toBe(true);
+    expect(during.currentWindow).toEqual({ start: '16:00', end: '18:00' });
+
+    // Friday evening: the weekend is skipped, and so is the Monday holiday
+    const after = getScheduleAvailability(deal, aucklandTime('2026-10-23', '19:00'));
+    expect(after.isAvailableNow).toBe(false);
+    expect(after.nextWindow).toEqual({ date: '2026-10-27', day: 2, daysAway: 4, start: '16:00', end: '18:00' });
+  });
+
+  it('keeps whole-day availability for deals with only recurring days', () => {
+    const deal = scheduledDeal(null, { recurringDays: [new Date().getDay()] });
+
+    expect(isScheduledAt(deal)).toBe(true);
+    expect(isScheduledAt(scheduledDeal(null, { isRecurring: false }))).toBe(true);
+  });
+
+  it('rejects redemptions outside the schedule', () => {
+    const deal = {
+      ...scheduledDeal({ timezone: 'UTC', windows: [], blackoutDates: [new Date().toISOString().slice(0, 10)] }),
+      status: 'active',
+      startDate: new Date(Date.now() - 24 * 60 * 60 * 1000),
+      endDate: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000),
+      maxRedemptionsPerUser: 1,
+      totalRedemptionsLimit: null,
+    } as Deal;
+
+    expect(() => assertRedemptionAllowed(deal, 0, 0)).toThrow(RedemptionError);
+    try {
+      assertRedemptionAllowed(deal, 0, 0);
+    } catch (error) {
+      expect((error as RedemptionError).code).toBe('OUTSIDE_SCHEDULE');
+    }
+  });
+});
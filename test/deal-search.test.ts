@@ -0,0 +1,136 @@
+import { DealSearchIndex } from '../server/utils/dealSearch';
+import { MemStorage } from '../server/storage';
+import type { Deal } from '@shared/schema';
+
+/**
+ * Full-text deal search: ranking, typo tolerance, highlights and suggestions
+ */
+
+function makeDeal(id: number, overrides: Partial<Deal> = {}): Deal {
+  return {
+    id,
+    businessId: id,
+    title: `Deal ${id}`,
+    description: 'Test deal',
+    category: 'food',
+    imageUrl: null,
+    startDate: new Date('2026-01-01'),
+    endDate: new Date('2026-12-31'),
+    terms: null,
+    discount: null,
+    dealType: 'percent_off',
+    featured: false,
+    requiresPin: true,
+    redemptionCode: null,
+    createdAt: new Date('2026-01-01'),
+    status: 'active',
+    rejectionReason: null,
+    approvalDate: null,
+    maxRedemptionsPerUser: 1,
+    totalRedemptionsLimit: null,
+    redemptionInstructions: null,
+    viewCount: 0,
+    saveCount: 0,
+    redemptionCount: 0,
+    isRecurring: false,
+    recurringDays: [],
+    schedule: null,
+    updatedAt: new Date('2026-01-01'),
+    ...overrides,
+  };
+}
+
+describe('DealSearchIndex', () => {
+  let index: DealSearchIndex;
+
+  beforeEach(() => {
+    index = new DealSearchIndex();
+    index.upsert(makeDeal(1, { title: 'Half price pizza', description: 'Any large pizza' }), 'Luigi Trattoria');
+    index.upsert(makeDeal(2, { title: 'Free coffee', description: 'With any pizza slice' }), 'Bean There');
+    index.upsert(makeDeal(3, { title: 'Yoga class pass', category: 'fitness' }), 'Stretch Studio');
+  });
+
+  it('ranks title matches above description matches', () => {
+    const hits = index.search('pizza');
+
+    expect(hits.map(hit => hit.dealId)).toEqual([1, 2]);
+    expect(hits[0].score).toBeGreaterThan(hits[1].score);
+  });
+
+  it('tolerates typos', () => {
+    expect(index.search('piza').map(hit => hit.dealId)).toContain(1);
+    expect(index.search('trattorai').map(hit => hit.dealId)).toEqual([1]);
+  });
+
+  it('highlights the matched text', () => {
+    const [hit] = index.search('coffee');
+    const title = hit.highlights.find(highlight => highlight.field === 'title')!;
+
+    const [start, end] = title.matches[0];
+    expect(title.snippet.slice(start, end)).toBe('coffee');
+  });
+
+  it('suggests deals, businesses and categories from a prefix', () => {
+    expect(index.suggest('stre')).toEqual([{ text: 'Stretch Studio', type: 'business' }]);
+    expect(index.suggest('fit')).toEqual([{ text: 'fitness', type: 'category' }]);
+    expect(index.suggest('half pri')).toEqual([{ text: 'Half price pizza', type: 'deal', dealId: 1 }]);
+  });
+
+  it('only returns the requested deals', () => {
+    expect(index.search('pizza', { dealIds: new Set([2]) }).map(hit => hit.dealId)).toEqual([2]);
+  });
+
+  it('drops deals that are no longer in the database', () => {
+    index.retain(new Set([1, 3]));
+
+    expect(index.size).toBe(2);
+    expect(index.search('pizza').map(hit => hit.dealId)).toEqual([1]);
+    expect(index.search('coffee')).toEqual([]);
+  });
+
+  it('picks up renamed businesses', () => {
+    index.updateBusinessNames(new Map([[1, 'Mario Pizzeria'], [2, 'Bean There']]));
+
+    expect(index.search('trattoria')).toEqual([]);
+    expect(index.search('mario').map(hit => hit.dealId)).toEqual([1]);
+    expect(index.search('bean').map(hit => hit.dealId)).toEqual([2]);
+  });
+});
+
+describe('MemStorage deal search', () => {
+  it('indexes deals as they are created and updated', async () => {
+    const storage = new MemStorage();
+    const { business } = await storage.createBusinessUser(
+      {
+        email: 'harbour@example.com',
+        password: 'Password123!',
+        firstName: 'Test',
+        lastName: 'Vendor',
+        phone: '+15555550100',
+        address: '1 Test Street',
+      },
+      {
+        businessName: 'Harbour Adventures',
+        businessCategory: 'entertainment',
+        governmentId: 'gov-id',
+        proofOfAddress: 'proof-of-address',
+        proofOfBusiness: 'proof-of-business',
+      }
+    );
+
+    const deal = await storage.createDeal({
+      businessId: business.id,
+      title: 'Sunset kayak tour',
+      description: 'Two hours on the water',
+      category: 'entertainment',
+      startDate: new Date('2026-01-01'),
+      endDate: new Date('2026-12-31'),
+      dealType: 'percent_off',
+    });
+    expect((await storage.searchDeals('kayak')).map(hit => hit.dealId)).toEqual([deal.id]);
+
+    await storage.updateDeal(deal.id, { title: 'Sunset canoe tour' });
+    expect(await storage.searchDeals('kayak')).toEqual([]);
+    expect((await storage.searchDeals('canoe')).map(hit => hit.dealId)).toEqual([deal.id]);
+  });
+});
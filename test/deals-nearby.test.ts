@@ -0,0 +1,123 @@
+import { MemStorage } from '../server/storage';
+import { boundsForRadius, haversineKm, isWithinBounds, parseBbox } from '../server/utils/geo';
+
+/**
+ * Location queries for deals (lat/lng, radiusKm, bbox)
+ *
+ * Businesses are placed around Auckland and Fiji so they don't overlap with
+ * the San Francisco sample data MemStorage is seeded with.
+ */
+
+const AUCKLAND = { lat: -36.8485, lng: 174.7633 };
+
+async function createDealAt(storage: MemStorage, latitude: number, longitude: number, status = 'active') {
+  const suffix = `${Date.now()}-${Math.random().toString(36).substring(2, 8)}`;
+
+  const vendor = await storage.createBusinessUser(
+    {
+      email: `vendor-${suffix}@example.com`,
+      password: 'Password123!',
+      firstName: 'Test',
+      lastName: 'Vendor',
+      phone: '+15555550100',
+      address: '1 Test Street',
+    },
+    {
+      businessName: `Test Business ${suffix}`,
+      businessCategory: 'restaurant',
+      governmentId: 'gov-id',
+      proofOfAddress: 'proof-of-address',
+      proofOfBusiness: 'proof-of-business',
+      verificationStatus: 'verified',
+    }
+  );
+  await storage.updateBusiness(vendor.business.id, { latitude, longitude });
+
+  return storage.createDeal({
+    businessId: vendor.business.id,
+    title: `Deal ${suffix}`,
+    description: 'A nearby deal',
+    category: 'food',
+    startDate: new Date(Date.now() - 24 * 60 * 60 * 1000),
+    endDate: new Date(Date.now() + 24 * 60 * 60 * 1000),
+    dealType: 'percent_off',
+    status,
+  });
+}
+
+describe('MemStorage.getDealsNearby', () => {
+  let storage: MemStorage;
+
+  beforeEach(() => {
+    storage = new MemStorage();
+  });
+
+  it('only returns deals within the radius, nearest first, with their distance', async () => {
+    const far = await createDealAt(storage, -37.7870, 175.2793); // Hamilton, ~115 km
+    const near = await createDealAt(storage, -36.8500, 174.7650);
+    const middle = await createDealAt(storage, -36.9000, 174.8000);
+
+    const results = await storage.getDealsNearby({ ...AUCKLAND, radiusKm: 20 });
+
+    expect(results.map(deal => deal.id)).toEqual([near.id, middle.id]);
+    expect(results.map(deal => deal.id)).not.toContain(far.id);
+    expect(results[0].distanceKm).toBeCloseTo(haversineKm(AUCKLAND.lat, AUCKLAND.lng, -36.85, 174.765), 5);
+    expect(results[0].distanceKm!).toBeLessThan(results[1].distanceKm!);
+  });
+
+  it('filters by bounding box without distances when no point is given', async () => {
+    const inside = await createDealAt(storage, -36.85, 174.76);
+    await createDealAt(storage, -41.2865, 174.7762); // Wellington
+
+    const results = await storage.getDealsNearby({ bbox: parseBbox('174,-37.5,175.5,-36')! });
+
+    expect(results.map(deal => deal.id)).toEqual([inside.id]);
+    expect(results[0].distanceKm).toBeNull();
+  });
+
+  it('handles bounding boxes that cross the antimeridian', async () => {
+    const east = await createDealAt(storage, -17.5, 179.5);
+    const west = await createDealAt(storage, -17.5, -179.5);
+    await createDealAt(storage, -17.5, 178.0);
+
+    const results = await storage.getDealsNearby({ bbox: parseBbox('179,-20,-179,-15')! });
+
+    expect(results.map(deal => deal.id).sort()).toEqual([east.id, west.id].sort());
+  });
+
+  it('excludes deals customers cannot see', async () => {
+    const visible = await createDealAt(storage, -36.85, 174.76);
+    await createDealAt(storage, -36.85, 174.76, 'pending');
+
+    const results = await storage.getDealsNearby({ ...AUCKLAND, radiusKm: 5 });
+
+    expect(results.map(deal => deal.id)).toEqual([visible.id]);
+  });
+});
+
+describe('boundsForRadius', () => {
+  const SUVA = { lat: -18.1416, lng: 178.4419 };
+
+  it('wraps round the antimeridian instead of stopping at it', () => {
+    const bounds = boundsForRadius(SUVA.lat, SUVA.lng, 300);
+
+    expect(bounds.west).toBeGreaterThan(bounds.east);
+    expect(bounds.east).toBeGreaterThan(-180);
+    // Across the antimeridian, but inside the radius
+    expect(haversineKm(SUVA.lat, SUVA.lng, -16.9, -179.9)).toBeLessThan(300);
+    expect(isWithinBounds(-16.9, -179.9, bounds)).toBe(true);
+    expect(isWithinBounds(-18.1, 170, bounds)).toBe(false);
+  });
+
+  it('keeps boxes away from the antimeridian as they are', () => {
+    const bounds = boundsForRadius(-36.8485, 174.7633, 20);
+
+    expect(bounds.west).toBeLessThan(bounds.east);
+    expect(isWithinBounds(-36.85, 174.765, bounds)).toBe(true);
+  });
+
+  it('takes in every longitude when the circle reaches a pole', () => {
+    expect(boundsForRadius(89.5, 10, 100)).toMatchObject({ north: 90, west: -180, east: 180 });
+  });
+});
+
@@ -0,0 +1,135 @@
+import { MemStorage } from '../server/storage';
+
+/**
+ * Notification inbox: notifications created by reviews, verification and
+ * redemptions, and per-user read, read-all and delete
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+async function setup() {
+  const storage = new MemStorage();
+  const vendor = await storage.createBusinessUser(
+    {
+      email: 'inbox-vendor@example.com',
+      password: 'Password123!',
+      firstName: 'Test',
+      lastName: 'Vendor',
+      phone: '+15555550107',
+      address: '1 Test Street',
+    },
+    {
+      businessName: 'Inbox Bakery',
+      businessCategory: 'food',
+      governmentId: 'gov-id',
+      proofOfAddress: 'proof-of-address',
+      proofOfBusiness: 'proof-of-business',
+    }
+  );
+  const customer = await storage.createIndividualUser({
+    email: 'inbox@example.com',
+    password: 'Password123!',
+    firstName: 'Test',
+    lastName: 'Customer',
+    phone: '+15555550108',
+    address: '2 Test Street',
+  });
+  const deal = await storage.createDeal({
+    businessId: vendor.business.id,
+    title: 'Half price bread',
+    description: 'Test deal',
+    category: 'food',
+    startDate: new Date(Date.now() - DAY_MS),
+    endDate: new Date(Date.now() + 7 * DAY_MS),
+    dealType: 'percent_off',
+    status: 'pending',
+  });
+
+  return { storage, vendor, customer, deal };
+}
+
+describe('notifications from server events', () => {
+  it('notifies the business owner once per deal review decision', async () => {
+    const { storage, vendor, customer, deal } = await setup();
+    const approval = await storage.createDealApproval({ dealId: deal.id, submitterId: vendor.id });
+
+    await storage.updateDealApproval(approval.id, { status: 'rejected', reviewerId: customer.id, feedback: 'Add the terms' });
+    await storage.updateDealApproval(approval.id, { status: 'rejected', reviewerId: customer.id, feedback: 'Add the terms' });
+
+    const notifications = await storage.getNotifications(vendor.id);
+    expect(notifications).toHaveLength(1);
+    expect(notifications[0]).toMatchObject({
+      type: 'deal_rejected',
+      body: '"Half price bread" was not approved: Add the terms',
+      url: `/vendor/deals/manage/${deal.id}`,
+      readAt: null,
+    });
+    expect(await storage.getNotifications(customer.id)).toEqual([]);
+  });
+
+  it('notifies the business owner about verification results', async () => {
+    const { storage, vendor } = await setup();
+
+    await storage.updateBusinessVerificationStatus(vendor.business.id, 'pending');
+    await storage.updateBusinessVerificationStatus(vendor.business.id, 'verified');
+
+    const notifications = await storage.getNotifications(vendor.id);
+    expect(notifications.map(notification => notification.type)).toEqual(['business_verified']);
+  });
+
+  it('prompts customers to rate deals they redeem', async () => {
+    const { storage, customer, deal } = await setup();
+    await storage.updateDealStatus(deal.id, 'active');
+
+    const redemption = await storage.createRedemption(customer.id, deal.id);
+
+    const [prompt] = await storage.getNotifications(customer.id);
+    expect(prompt).toMatchObject({
+      type: 'rating_prompt',
+      title: 'How was Inbox Bakery?',
+      dedupeKey: `rating_prompt:${redemption.id}`,
+    });
+  });
+});
+
+describe('notification inbox', () => {
+  it('lists newest first and pages backwards', async () => {
+    const { storage, customer } = await setup();
+    for (let i = 1; i <= 3; i++) {
+      await storage.createNotification({ userId: customer.id, type: 'deal_expiring', title: `Notification ${i}`, body: 'Body' });
+    }
+
+    const firstPage = await storage.getNotifications(customer.id, { limit: 2 });
+    expect(firstPage.map(notification => notification.title)).toEqual(['Notification 3', 'Notification 2']);
+
+    const secondPage = await storage.getNotifications(customer.id, { beforeId: firstPage[1].id });
+    expect(secondPage.map(notification => notification.title)).toEqual(['Notification 1']);
+  });
+
+  it('marks read, marks all read and deletes only for the owner', async () => {
+    const { storage, vendor, customer } = await setup();
+    const first = await storage.createNotification({ userId: customer.id, type: 'deal_expiring', title: 'First', body: 'Body' });
+    const second = await storage.createNotification({ userId: customer.id, type: 'deal_expiring', title: 'Second', body: 'Body' });
+    await storage.createNotification({ userId: customer.id, type: 'deal_expiring', title: 'Third', body: 'Body' });
+
+    expect(await storage.markNotificationRead(vendor.id, first!.id)).toBeUndefined();
+    expect((await storage.markNotificationRead(customer.id, first!.id))?.readAt).toBeInstanceOf(Date);
+    expect(await storage.getUnreadNotificationCount(customer.id)).toBe(2);
+    expect(await storage.getNotifications(customer.id, { unreadOnly: true })).toHaveLength(2);
+
+    expect(await storage.markAllNotificationsRead(customer.id)).toBe(2);
+    expect(await storage.getUnreadNotificationCount(customer.id)).toBe(0);
+
+    expect(await storage.deleteNotification(vendor.id, second!.id)).toBe(false);
+    expect(await storage.deleteNotification(customer.id, second!.id)).toBe(true);
+    expect(await storage.getNotifications(customer.id)).toHaveLength(2);
+  });
+
+  it('skips notifications with a dedupe key that was already used', async () => {
+    const { storage, customer } = await setup();
+    const notification = { userId: customer.id, type: 'deal_expiring', title: 'Expiring', body: 'Body', dedupeKey: 'deal_reminder:1' };
+
+    expect(await storage.createNotification(notification)).toBeDefined();
+    expect(await storage.createNotification(notification)).toBeUndefined();
+  });
+});
@@ -0,0 +1,189 @@
+import { MemStorage } from '../server/storage';
+import { preModerateDeal } from '../server/services/PreModeration';
+import {
+  evaluatePreModeration,
+  parseDiscountPercent,
+  resolvePreModerationRules,
+  type PreModerationContext
+} from '@shared/preModeration';
+
+/**
+ * Automated pre-moderation: rules run on every submitted deal and either
+ * decide it or leave it for a reviewer with their reasons
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const CLEAN_CONTEXT: PreModerationContext = { otherDealTitles: [], approvedDealCount: 0, rejectedDealCount: 0 };
+
+const DEAL = {
+  title: 'Half price bread',
+  terms: 'One per customer',
+  discount: '50%',
+  dealType: 'percent_off',
+  imageUrl: 'https://example.com/bread.jpg',
+  startDate: new Date(Date.now() + DAY_MS),
+  endDate: new Date(Date.now() + 7 * DAY_MS),
+};
+
+async function setup() {
+  const storage = new MemStorage();
+  const vendor = await storage.createBusinessUser(
+    {
+      email: 'pre-moderation-vendor@example.com',
+      password: 'Password123!',
+      firstName: 'Test',
+      lastName: 'Vendor',
+      phone: '+15555550111',
+      address: '1 Test Street',
+    },
+    {
+      businessName: 'Rules Bakery',
+      businessCategory: 'food',
+      governmentId: 'gov-id',
+      proofOfAddress: 'proof-of-address',
+      proofOfBusiness: 'proof-of-business',
+    }
+  );
+
+  const createDeal = (data: Partial<typeof DEAL> & { status?: string } = {}) =>
+    storage.createDeal({
+      ...DEAL,
+      description: 'Test deal',
+      category: 'food',
+      status: 'pending',
+      businessId: vendor.business.id,
+      ...data,
+    });
+
+  return { storage, vendor, createDeal };
+}
+
+describe('evaluatePreModeration', () => {
+  const rules = resolvePreModerationRules([
+    { key: 'banned_words', enabled: true, action: 'reject', config: { words: ['scam'] } },
+  ]);
+
+  it('leaves a deal nothing flagged for a reviewer', () => {
+    expect(evaluatePreModeration(DEAL, rules, CLEAN_CONTEXT)).toMatchObject({ outcome: 'needs_review', reasons: [] });
+  });
+
+  it('rejects banned words as whole words only, and end dates before start dates', () => {
+    const result = evaluatePreModeration(
+      { ...DEAL, terms: 'Not a SCAM, honest', endDate: new Date(Date.now() - DAY_MS) },
+      rules,
+      CLEAN_CONTEXT
+    );
+
+    expect(result.outcome).toBe('auto_reject');
+    expect(result.reasons.map(reason => reason.rule)).toEqual(['banned_words', 'date_order']);
+    expect(evaluatePreModeration({ ...DEAL, title: 'Scampi special' }, rules, CLEAN_CONTEXT).reasons).toEqual([]);
+  });
+
+  it('sends implausible discounts, missing images and duplicate titles to review', () => {
+    const result = evaluatePreModeration(
+      { ...DEAL, title: 'Half-price  bread!', discount: '95', imageUrl: null },
+      rules,
+      { ...CLEAN_CONTEXT, otherDealTitles: ['half price bread'] }
+    );
+
+    expect(result.outcome).toBe('needs_review');
+    expect(result.reasons.map(reason => reason.rule)).toEqual(['max_discount', 'missing_image', 'duplicate_title']);
+  });
+
+  it('only approves trusted vendors when no other rule matched', () => {
+    const trusted = { ...CLEAN_CONTEXT, approvedDealCount: 5 };
+
+    expect(evaluatePreModeration(DEAL, rules, trusted).outcome).toBe('auto_approve');
+    expect(evaluatePreModeration({ ...DEAL, imageUrl: null }, rules, trusted).outcome).toBe('needs_review');
+    expect(evaluatePreModeration(DEAL, rules, { ...trusted, rejectedDealCount: 1 }).outcome).toBe('needs_review');
+  });
+
+  it('skips disabled rules and uses the admin action', () => {
+    const configured = resolvePreModerationRules([
+      { key: 'missing_image', enabled: false, action: 'review', config: {} },
+      { key: 'max_discount', enabled: true, action: 'reject', config: { maxPercent: 40 } },
+    ]);
+
+    const result = evaluatePreModeration({ ...DEAL, imageUrl: null }, configured, CLEAN_CONTEXT);
+
+    expect(result).toMatchObject({
+      outcome: 'auto_reject',
+      reasons: [{ rule: 'max_discount', action: 'reject', message: 'Discount of 50% is more than 40%' }],
+    });
+  });
+});
+
+describe('parseDiscountPercent', () => {
+  it('reads percentages and bare numbers on percentage deals only', () => {
+    expect(parseDiscountPercent('95% off', 'buy_one_get_one')).toBe(95);
+    expect(parseDiscountPercent('95', 'percentage_off')).toBe(95);
+    expect(parseDiscountPercent('95', 'fixed_amount')).toBeNull();
+    expect(parseDiscountPercent('$10 off', 'fixed_amount')).toBeNull();
+  });
+});
+
+describe('preModerateDeal', () => {
+  it('records the result on a pending approval when a reviewer is needed', async () => {
+    const { storage, vendor, createDeal } = await setup();
+    const deal = await createDeal({ imageUrl: undefined });
+
+    const approval = await preModerateDeal(deal, vendor.id, storage);
+
+    expect(approval).toMatchObject({ status: 'pending', autoModeration: { outcome: 'needs_review' } });
+    expect((await storage.getDeal(deal.id))?.status).toBe('pending');
+  });
+
+  it('approves deals from trusted vendors', async () => {
+    const { storage, vendor, createDeal } = await setup();
+    for (let i = 0; i < 5; i++) {
+      await createDeal({ title: `Past deal ${i}`, status: 'expired' });
+    }
+    const deal = await createDeal();
+
+    const approval = await preModerateDeal(deal, vendor.id, storage);
+
+    expect(approval).toMatchObject({ status: 'approved', autoModeration: { outcome: 'auto_approve' } });
+    expect((await storage.getDeal(deal.id))?.status).toBe('approved');
+  });
+
+  it('rejects deals with the matching rules as feedback', async () => {
+    const { storage, vendor, createDeal } = await setup();
+    const deal = await createDeal({ endDate: new Date(Date.now() - DAY_MS) });
+
+    const approval = await preModerateDeal(deal, vendor.id, storage);
+
+    expect(approval).toMatchObject({ status: 'rejected', feedback: 'End date is before the start date.' });
+    expect(await storage.getDeal(deal.id)).toMatchObject({
+      status: 'rejected',
+      rejectionReason: 'End date is before the start date.',
+    });
+  });
+
+  it('only compares titles with the business\'s live deals', async () => {
+    const { storage, vendor, createDeal } = await setup();
+    await createDeal({ status: 'rejected' });
+    const deal = await createDeal();
+
+    const approval = await preModerateDeal(deal, vendor.id, storage);
+
+    expect(approval.autoModeration?.reasons).toEqual([]);
+  });
+
+  it('uses the admin settings and exposes the latest result per deal', async () => {
+    const { storage, vendor, createDeal } = await setup();
+    await storage.savePreModerationRuleSetting({ key: 'banned_words', enabled: true, action: 'reject', config: { words: ['free money'] } });
+    await storage.savePreModerationRuleSetting({ key: 'banned_words', enabled: true, action: 'review', config: { words: ['free money'] } });
+    const deal = await createDeal({ terms: 'Free money for everyone' });
+
+    await preModerateDeal(deal, vendor.id, storage);
+
+    expect(await storage.getPreModerationRuleSettings()).toHaveLength(1);
+    const results = await storage.getLatestPreModerationResults([deal.id, 999]);
+    expect(results.get(deal.id)).toMatchObject({
+      outcome: 'needs_review',
+      reasons: [{ rule: 'banned_words', action: 'review' }],
+    });
+    expect(results.has(999)).toBe(false);
+  });
+});
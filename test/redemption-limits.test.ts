@@ -0,0 +1,150 @@
+import { MemStorage, DatabaseStorage, RedemptionError, type IStorage } from '../server/storage';
+
+/**
+ * Concurrency tests for redemption limits
+ *
+ * Fires parallel redemptions against a limited deal and checks that exactly
+ * the allowed number succeed. The DatabaseStorage suite only runs when a
+ * DATABASE_URL is available.
+ */
+
+const PARALLEL_ATTEMPTS = 10;
+const TOTAL_LIMIT = 3;
+
+async function createLimitedDeal(storage: IStorage, limits: { maxRedemptionsPerUser: number | null; totalRedemptionsLimit: number | null }) {
+  const suffix = `${Date.now()}-${Math.random().toString(36).substring(2, 8)}`;
+
+  const vendor = await storage.createBusinessUser(
+    {
+      email: `vendor-${suffix}@example.com`,
+      password: 'Password123!',
+      firstName: 'Test',
+      lastName: 'Vendor',
+      phone: '+15555550100',
+      address: '1 Test Street',
+    },
+    {
+      businessName: `Test Business ${suffix}`,
+      businessCategory: 'restaurant',
+      governmentId: 'gov-id',
+      proofOfAddress: 'proof-of-address',
+      proofOfBusiness: 'proof-of-business',
+      verificationStatus: 'verified',
+    }
+  );
+
+  const startDate = new Date(Date.now() - 24 * 60 * 60 * 1000);
+  const endDate = new Date(Date.now() + 24 * 60 * 60 * 1000);
+
+  const deal = await storage.createDeal({
+    businessId: vendor.business.id,
+    title: 'Limited deal',
+    description: 'Only a few available',
+    category: 'food',
+    startDate,
+    endDate,
+    dealType: 'percent_off',
+    status: 'active',
+    ...limits,
+  });
+
+  return deal;
+}
+
+async function createCustomer(storage: IStorage) {
+  const suffix = `${Date.now()}-${Math.random().toString(36).substring(2, 8)}`;
+  return storage.createIndividualUser({
+    email: `customer-${suffix}@example.com`,
+    password: 'Password123!',
+    firstName: 'Test',
+    lastName: 'Customer',
+    phone: '+15555550101',
+    address: '2 Test Street',
+  });
+}
+
+function describeRedemptionLimits(name: string, createStorage: () => IStorage) {
+  describe(name, () => {
+    let storage: IStorage;
+
+    beforeAll(() => {
+      storage = createStorage();
+    });
+
+    it('never exceeds the total redemptions limit under parallel redemptions', async () => {
+      const deal = await createLimitedDeal(storage, {
+        maxRedemptionsPerUser: null,
+        totalRedemptionsLimit: TOTAL_LIMIT,
+      });
+      const customers = await Promise.all(
+        Array.from({ length: PARALLEL_ATTEMPTS }, () => createCustomer(storage))
+      );
+
+      const results = await Promise.allSettled(
+        customers.map(customer => storage.createRedemption(customer.id, deal.id))
+      );
+
+      const fulfilled = results.filter(result => result.status === 'fulfilled');
+      const rejected = results.filter(
+        (result): result is PromiseRejectedResult => result.status === 'rejected'
+      );
+
+      expect(fulfilled).toHaveLength(TOTAL_LIMIT);
+      expect(rejected).toHaveLength(PARALLEL_ATTEMPTS - TOTAL_LIMIT);
+      rejected.forEach(result => {
+        expect(result.reason).toBeInstanceOf(RedemptionError);
+        expect(result.reason.code).toBe('DEAL_SOLD_OUT');
+      });
+
+      const updatedDeal = await storage.getDeal(deal.id);
+      expect(updatedDeal?.redemptionCount).toBe(TOTAL_LIMIT);
+      expect(await storage.getDealRedemptions(deal.id)).toHaveLength(TOTAL_LIMIT);
+    });
+
+    it('never exceeds the per-user limit under parallel redemptions', async () => {
+      const deal = await createLimitedDeal(storage, {
+        maxRedemptionsPerUser: 1,
+        totalRedemptionsLimit: null,
+      });
+      const customer = await createCustomer(storage);
+
+      const results = await Promise.allSettled(
+        Array.from({ length: PARALLEL_ATTEMPTS }, () => storage.createRedemption(customer.id, deal.id))
+      );
+
+      const rejected = results.filter(
+        (result): result is PromiseRejectedResult => result.status === 'rejected'
+      );
+
+      expect(results.filter(result => result.status === 'fulfilled')).toHaveLength(1);
+      rejected.forEach(result => {
+        expect(result.reason).toBeInstanceOf(RedemptionError);
+        expect(result.reason.code).toBe('LIMIT_PER_USER_REACHED');
+      });
+      expect(await storage.getUserRedemptionCountForDeal(customer.id, deal.id)).toBe(1);
+    });
+
+    it('rejects redemptions for deals that are not active', async () => {
+      const deal = await createLimitedDeal(storage, {
+        maxRedemptionsPerUser: null,
+        totalRedemptionsLimit: null,
+      });
+      await storage.updateDealStatus(deal.id, 'expired');
+      const customer = await createCustomer(storage);
+
+      await expect(storage.createRedemption(customer.id, deal.id)).rejects.toMatchObject({
+        code: 'DEAL_NOT_ACTIVE',
+      });
+    });
+  });
+}
+
+describeRedemptionLimits('MemStorage redemption limits', () => new MemStorage());
+
+if (process.env.DATABASE_URL) {
+  describeRedemptionLimits('DatabaseStorage redemption limits', () => new DatabaseStorage());
+} else {
+  describe.skip('DatabaseStorage redemption limits (requires DATABASE_URL)', () => {
+    it('skipped', () => {});
+  });
+}
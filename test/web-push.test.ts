@@ -0,0 +1,240 @@
+import http from 'http';
+import crypto from 'crypto';
+import type { AddressInfo } from 'net';
+import { MemStorage } from '../server/storage';
+import { pushSchemas } from '../server/schemas';
+import {
+  generateVapidKeys,
+  sendToSubscriptions,
+  sendWebPushNotification,
+  type PushSubscriptionKeys
+} from '../server/utils/webPush';
+
+/**
+ * Web Push delivery against a local mock push service: payload encryption,
+ * VAPID signing and cleanup of expired subscriptions; validation of the
+ * subscriptions browsers register
+ */
+
+interface ReceivedPush {
+  path: string;
+  headers: http.IncomingHttpHeaders;
+  body: Buffer;
+}
+
+const VAPID = { subject: 'mailto:test@example.com', ...generateVapidKeys() };
+
+// A browser's side of a subscription: its key pair and auth secret
+function createBrowserKeys() {
+  const ecdh = crypto.createECDH('prime256v1');
+  ecdh.generateKeys();
+  const authSecret = crypto.randomBytes(16);
+  return {
+    ecdh,
+    authSecret,
+    keys: { p256dh: ecdh.getPublicKey().toString('base64url'), auth: authSecret.toString('base64url') },
+  };
+}
+
+// Decrypt an aes128gcm body the way the browser does (RFC 8291)
+function decryptPayload(body: Buffer, browser: ReturnType<typeof createBrowserKeys>): string {
+  const salt = body.subarray(0, 16);
+  const keyLength = body.readUInt8(20);
+  const serverPublicKey = body.subarray(21, 21 + keyLength);
+  const ciphertext = body.subarray(21 + keyLength);
+
+  const sharedSecret = browser.ecdh.computeSecret(serverPublicKey);
+  const keyInfo = Buffer.concat([Buffer.from('WebPush: info\0'), browser.ecdh.getPublicKey(), serverPublicKey]);
+  const ikm = Buffer.from(crypto.hkdfSync('sha256', sharedSecret, browser.authSecret, keyInfo, 32));
+  const contentKey = Buffer.from(crypto.hkdfSync('sha256', ikm, salt, Buffer.from('Content-Encoding: aes128gcm\0'), 16));
+  const nonce = Buffer.from(crypto.hkdfSync('sha256', ikm, salt, Buffer.from('Content-Encoding: nonce\0'), 12));
+
+  const decipher = crypto.createDecipheriv('aes-128-gcm', contentKey, nonce);
+  decipher.setAuthTag(ciphertext.subarray(ciphertext.length - 16));
+  const plaintext = Buffer.concat([decipher.update(ciphertext.subarray(0, ciphertext.length - 16)), decipher.final()]);
+
+  // Strip the 0x02 last-record delimiter
+  return plaintext.subarray(0, plaintext.lastIndexOf(2)).toString();
+}
+
+function verifyVapidToken(authorization: string): Record<string, unknown> {
+  const [, token, publicKey] = authorization.match(/^vapid t=([^,]+), k=(.+)$/)!;
+  const [header, claims, signature] = token.split('.');
+  const key = Buffer.from(publicKey, 'base64url');
+  const verifier = crypto.createPublicKey({
+    key: {
+      kty: 'EC',
+      crv: 'P-256',
+      x: key.subarray(1, 33).toString('base64url'),
+      y: key.subarray(33, 65).toString('base64url'),
+    },
+    format: 'jwk',
+  });
+
+  const valid = crypto.verify(
+    'sha256',
+    Buffer.from(`${header}.${claims}`),
+    { key: verifier, dsaEncoding: 'ieee-p1363' },
+    Buffer.from(signature, 'base64url')
+  );
+  expect(valid).toBe(true);
+  expect(publicKey).toBe(VAPID.publicKey);
+  return JSON.parse(Buffer.from(claims, 'base64url').toString());
+}
+
+describe('Web Push', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let received: ReceivedPush[];
+  // Status the mock push service answers with, by path
+  let statusByPath: Record<string, number>;
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      const chunks: Buffer[] = [];
+      req.on('data', chunk => chunks.push(chunk));
+      req.on('end', () => {
+        received.push({ path: req.url!, headers: req.headers, body: Buffer.concat(chunks) });
+        res.statusCode = statusByPath[req.url!] ?? 201;
+        res.end();
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    received = [];
+    statusByPath = {};
+  });
+
+  it('sends an encrypted payload the browser can decrypt', async () => {
+    const browser = createBrowserKeys();
+    const subscription: PushSubscriptionKeys = { endpoint: `${baseUrl}/push/device-1`, ...browser.keys };
+    const payload = { title: 'Deal expiring soon', body: 'Half price pizza ends tonight', url: '/deals/42' };
+
+    const status = await sendWebPushNotification(subscription, payload, VAPID, { ttlSeconds: 60 });
+
+    expect(status).toBe(201);
+    const [push] = received;
+    expect(push.headers['content-encoding']).toBe('aes128gcm');
+    expect(push.headers['ttl']).toBe('60');
+    expect(JSON.parse(decryptPayload(push.body, browser))).toEqual(payload);
+  });
+
+  it('signs requests with a VAPID token for the push service origin', async () => {
+    const subscription = { endpoint: `${baseUrl}/push/device-1`, ...createBrowserKeys().keys };
+
+    await sendWebPushNotification(subscription, { title: 'Hi', body: 'There' }, VAPID);
+
+    const claims = verifyVapidToken(received[0].headers['authorization']!);
+    expect(claims.aud).toBe(baseUrl);
+    expect(claims.sub).toBe(VAPID.subject);
+    expect(claims.exp).toBeGreaterThan(Date.now() / 1000);
+  });
+
+  it('removes subscriptions the push service reports as gone', async () => {
+    const storage = new MemStorage();
+    const user = await storage.createIndividualUser({
+      email: 'push@example.com',
+      password: 'Password123!',
+      firstName: 'Push',
+      lastName: 'User',
+      phone: '+15555550104',
+      address: '1 Test Street',
+    });
+    const active = await storage.saveWebPushSubscription(user.id, { endpoint: `${baseUrl}/push/active`, ...createBrowserKeys().keys });
+    await storage.saveWebPushSubscription(user.id, { endpoint: `${baseUrl}/push/expired`, ...createBrowserKeys().keys });
+    statusByPath['/push/expired'] = 410;
+
+    const result = await sendToSubscriptions(
+      await storage.getWebPushSubscriptions(user.id),
+      { title: 'Hi', body: 'There' },
+      VAPID,
+      endpoint => storage.deleteWebPushSubscriptionByEndpoint(endpoint)
+    );
+
+    expect(result).toEqual({ sent: 1, removed: 1, failed: 0 });
+    expect((await storage.getWebPushSubscriptions(user.id)).map(s => s.id)).toEqual([active.id]);
+  });
+
+  it('counts other push service errors as failures and keeps the subscription', async () => {
+    const removed: string[] = [];
+    statusByPath['/push/busy'] = 429;
+
+    const result = await sendToSubscriptions(
+      [{ endpoint: `${baseUrl}/push/busy`, ...createBrowserKeys().keys }],
+      { title: 'Hi', body: 'There' },
+      VAPID,
+      async endpoint => { removed.push(endpoint); }
+    );
+
+    expect(result).toEqual({ sent: 0, removed: 0, failed: 1 });
+    expect(removed).toEqual([]);
+  });
+});
+
+describe('Push subscription validation', () => {
+  const nodeEnv = process.env.NODE_ENV;
+
+  afterEach(() => {
+    process.env.NODE_ENV = nodeEnv;
+  });
+
+  function parse(endpoint: string, keys: { p256dh: string; auth: string } = createBrowserKeys().keys) {
+    return pushSchemas.subscribe.safeParse({ body: { endpoint, keys } });
+  }
+
+  function messages(result: ReturnType<typeof parse>) {
+    return result.success ? [] : result.error.issues.map(issue => issue.message);
+  }
+
+  it('accepts the keys a browser subscribes with', () => {
+    expect(parse('https://fcm.googleapis.com/fcm/send/abc').success).toBe(true);
+  });
+
+  it('rejects keys that are not a P-256 point and a 16-byte secret', () => {
+    const { keys } = createBrowserKeys();
+    const compressed = createBrowserKeys().ecdh.getPublicKey(undefined, 'compressed').toString('base64url');
+    const offCurve = Buffer.concat([Buffer.from([0x04]), Buffer.alloc(64, 1)]).toString('base64url');
+
+    for (const p256dh of [compressed, offCurve, 'not a key']) {
+      expect(messages(parse('https://fcm.googleapis.com/fcm/send/abc', { ...keys, p256dh }))).toEqual(['p256dh must be an uncompressed P-256 public key']);
+    }
+    for (const auth of [crypto.randomBytes(32).toString('base64url'), 'secret!']) {
+      expect(messages(parse('https://fcm.googleapis.com/fcm/send/abc', { ...keys, auth }))).toEqual(['auth must be a 16-byte secret']);
+    }
+  });
+
+  it('only accepts browser push services in production', () => {
+    process.env.NODE_ENV = 'production';
+
+    for (const endpoint of [
+      'https://fcm.googleapis.com/fcm/send/abc',
+      'https://updates.push.services.mozilla.com/wpush/v2/abc',
+      'https://web.push.apple.com/abc',
+      'https://wns2-par02p.notify.windows.com/w/?token=abc',
+    ]) {
+      expect(parse(endpoint).success).toBe(true);
+    }
+    for (const endpoint of [
+      'http://fcm.googleapis.com/fcm/send/abc',
+      'https://fcm.googleapis.com:8443/fcm/send/abc',
+      'https://127.0.0.1/push',
+      'https://169.254.169.254/latest/meta-data',
+      'https://fcm.googleapis.com.example.com/push',
+      'https://internal.local/push',
+    ]) {
+      expect(messages(parse(endpoint))).toEqual(['Endpoint must be an HTTPS URL on a browser push service']);
+    }
+  });
+
+  it('accepts a local mock push service outside production', () => {
+    process.env.NODE_ENV = 'test';
+    expect(parse('http://127.0.0.1:4000/push/device-1').success).toBe(true);
+  });
+});
@@ -0,0 +1,186 @@
+import { MemStorage } from '../server/storage';
+import { rankDigestDeals, type DigestRankingContext } from '../server/utils/dealDigest';
+import { createUnsubscribeToken, verifyUnsubscribeToken } from '../server/utils/unsubscribeTokens';
+import { sendWeeklyDigests, getDigestWeek } from '../server/services/WeeklyDigest';
+import type { Business, Deal } from '@shared/schema';
+
+/**
+ * Weekly deal digest: ranking, signed unsubscribe links, consent checks and
+ * one digest per user per week
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOW = new Date('2026-10-19T12:00:00Z');
+const daysFromNow = (days: number) => new Date(NOW.getTime() + days * DAY_MS);
+const SECRET = 'test-unsubscribe-secret';
+const OPTIONS = { appUrl: 'https://pinnity.test', unsubscribeSecret: SECRET };
+
+function digestDeal(id: number, overrides: Partial<Deal> = {}, business: Partial<Business> = {}) {
+  return {
+    id,
+    businessId: id,
+    title: `Deal ${id}`,
+    category: 'retail',
+    createdAt: daysFromNow(-30),
+    endDate: daysFromNow(3),
+    ...overrides,
+    business: { id, businessName: `Business ${id}`, latitude: null, longitude: null, ...business },
+  } as Deal & { business: Business };
+}
+
+function context(overrides: Partial<DigestRankingContext> = {}): DigestRankingContext {
+  return {
+    categories: [],
+    favoriteDealIds: new Set(),
+    favoriteBusinessIds: new Set(),
+    home: null,
+    newSince: daysFromNow(-7),
+    expiringBefore: daysFromNow(7),
+    ...overrides,
+  };
+}
+
+async function setup() {
+  const storage = new MemStorage();
+  Object.assign(storage, { getMarketingConsent: async () => true });
+
+  const { business } = await storage.createBusinessUser(
+    {
+      email: 'digest-vendor@example.com',
+      password: 'Password123!',
+      firstName: 'Test',
+      lastName: 'Vendor',
+      phone: '+15555550105',
+      address: '1 Test Street',
+    },
+    {
+      businessName: 'Digest Bakery',
+      businessCategory: 'food',
+      governmentId: 'gov-id',
+      proofOfAddress: 'proof-of-address',
+      proofOfBusiness: 'proof-of-business',
+    }
+  );
+  const customer = await storage.createIndividualUser({
+    email: 'digest@example.com',
+    password: 'Password123!',
+    firstName: 'Test',
+    lastName: 'Customer',
+    phone: '+15555550106',
+    address: '2 Test Street',
+  });
+
+  const createDeal = (category: string, endsInDays: number) => storage.createDeal({
+    businessId: business.id,
+    title: `${category} deal ending in ${endsInDays} days`,
+    description: 'Test deal',
+    category,
+    startDate: daysFromNow(-1),
+    endDate: daysFromNow(endsInDays),
+    dealType: 'percent_off',
+    status: 'active',
+  });
+
+  return { storage, customer, createDeal };
+}
+
+describe('digest ranking', () => {
+  it('ranks favorites, categories and nearby deals above timing', () => {
+    const deals = [
+      digestDeal(1),
+      digestDeal(2, { category: 'food' }),
+      digestDeal(3),
+      digestDeal(4, {}, { latitude: 40.0, longitude: -75.0 }),
+    ];
+
+    const ranked = rankDigestDeals(deals, context({
+      categories: ['Food'],
+      favoriteDealIds: new Set([3]),
+      home: { latitude: 40.0, longitude: -75.0 },
+    }), NOW);
+
+    expect(ranked.map(entry => entry.deal.id)).toEqual([3, 2, 4]);
+    expect(ranked[1].reasons).toEqual(['Because you like food', 'Ends in 3 days']);
+    expect(ranked[2].reasons[0]).toBe('0.0 mi away');
+  });
+
+  it('falls back to new and expiring deals without personalization', () => {
+    const deals = [
+      digestDeal(1, { endDate: daysFromNow(30), createdAt: daysFromNow(-1) }),
+      digestDeal(2, { endDate: daysFromNow(1) }),
+      digestDeal(3, { endDate: daysFromNow(30) }),
+    ];
+
+    const ranked = rankDigestDeals(deals, context(), NOW);
+
+    expect(ranked.map(entry => entry.deal.id)).toEqual([2, 1]);
+    expect(ranked[0].reasons).toEqual(['Ends tomorrow']);
+    expect(ranked[1].reasons).toEqual(['New this week']);
+  });
+});
+
+describe('unsubscribe tokens', () => {
+  it('round-trips and rejects tampered tokens', () => {
+    const token = createUnsubscribeToken(42, 'weekly_digest', SECRET);
+
+    expect(verifyUnsubscribeToken(token, SECRET)).toEqual({ userId: 42, list: 'weekly_digest' });
+    expect(verifyUnsubscribeToken(token, 'another-secret')).toBeNull();
+
+    const [, signature] = token.split('.');
+    const forged = `${Buffer.from('43:weekly_digest').toString('base64url')}.${signature}`;
+    expect(verifyUnsubscribeToken(forged, SECRET)).toBeNull();
+    expect(verifyUnsubscribeToken('not-a-token', SECRET)).toBeNull();
+  });
+});
+
+describe('weekly digest', () => {
+  it('queues one digest per opted-in user per week', async () => {
+    const { storage, customer, createDeal } = await setup();
+    const deal = await createDeal('food', 2);
+    await createDeal('retail', 30);
+    await storage.updateNotificationPreferences(customer.id, { weeklyNewsletter: true });
+    await storage.updateUserPreferences(customer.id, { categories: ['food'] });
+
+    const metrics = await sendWeeklyDigests(NOW, OPTIONS, storage);
+
+    expect(metrics).toMatchObject({
+      week: '2026-W43',
+      usersConsidered: 1,
+      queued: 1,
+      dealsIncluded: 1,
+      skippedAlreadySent: 0,
+      failed: 0,
+    });
+
+    // Queued emails are due straight away
+    const [email] = await storage.claimDueEmails(new Date(), new Date());
+    expect(email.template).toBe('weekly_digest');
+    expect(email.category).toBe('marketing');
+    expect(email.text).toContain(deal.title);
+    expect(email.headers?.['List-Unsubscribe-Post']).toBe('List-Unsubscribe=One-Click');
+
+    const url = email.headers?.['List-Unsubscribe'].slice(1, -1) ?? '';
+    const token = new URL(url).searchParams.get('token') ?? '';
+    expect(verifyUnsubscribeToken(token, SECRET)).toEqual({ userId: customer.id, list: 'weekly_digest' });
+
+    const rerun = await sendWeeklyDigests(daysFromNow(1), OPTIONS, storage);
+    expect(rerun).toMatchObject({ queued: 0, skippedAlreadySent: 1 });
+  });
+
+  it('skips users without consent or who have not switched the digest on', async () => {
+    const { storage, customer, createDeal } = await setup();
+    await createDeal('food', 2);
+
+    expect(await sendWeeklyDigests(NOW, OPTIONS, storage)).toMatchObject({ usersConsidered: 0, queued: 0 });
+
+    await storage.updateNotificationPreferences(customer.id, { weeklyNewsletter: true });
+    Object.assign(storage, { getMarketingConsent: async () => false });
+
+    expect(await sendWeeklyDigests(NOW, OPTIONS, storage)).toMatchObject({ usersConsidered: 1, skippedNoConsent: 1, queued: 0 });
+  });
+
+  it('names weeks by ISO week number', () => {
+    expect(getDigestWeek(new Date('2026-01-01T00:00:00Z'))).toBe('2026-W01');
+    expect(getDigestWeek(new Date('2027-01-01T00:00:00Z'))).toBe('2026-W53');
+  });
+});
@@ -0,0 +1,39 @@
+/**
+ * Type declarations for the parts of nodemailer the mailer uses
+ */
+
+declare module 'nodemailer' {
+  interface SendMailOptions {
+    from?: string;
+    to?: string;
+    subject?: string;
+    text?: string;
+    html?: string;
+    headers?: Record<string, string>;
+    [key: string]: any;
+  }
+
+  interface SentMessageInfo {
+    messageId: string;
+    /**
+     * Raw RFC 822 message, set by the stream transport with `buffer: true`
+     */
+    message?: Buffer;
+    [key: string]: any;
+  }
+
+  interface Transporter {
+    sendMail(options: SendMailOptions): Promise<SentMessageInfo>;
+    verify(): Promise<true>;
+    close(): void;
+  }
+
+  /**
+   * Create a transport from an SMTP connection URL or transport options
+   */
+  function createTransport(options: string | Record<string, any>, defaults?: SendMailOptions): Transporter;
+
+  const nodemailer: { createTransport: typeof createTransport };
+  export { createTransport, SendMailOptions, SentMessageInfo, Transporter };
+  export default nodemailer;
+}